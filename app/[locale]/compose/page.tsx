@@ -3,7 +3,7 @@
 import { useEffect, useCallback, useState, useRef, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { useProjectStore, usePlaybackStore, useUIStore } from '@/lib/store';
-import { audioEngine, playoutManager, registerAudioTake, clearAudioTakes, type LatencyCalibrationResult } from '@/lib/audio';
+import { audioEngine, playoutManager, getTempoMap, registerAudioTake, clearAudioTakes, samplerPresets, userSynthPresets, type LatencyCalibrationResult } from '@/lib/audio';
 import { createLogger } from '@/lib/logger';
 
 const logger = createLogger('Compose');
@@ -15,8 +15,8 @@ import { TrackList } from '@/components/compose/TrackList';
 import { AudioVisualizer, VisualizerCollapsedBar } from '@/components/compose/AudioVisualizer';
 import { LatencyCalibrationModal } from '@/components/compose/LatencyCalibrationModal';
 import { ProjectSelector } from '@/components/compose/ProjectSelector';
-import { useAutosave, useShortcut, useLoadKeyBindings, usePersistKeyBindings } from '@/hooks';
-import { listProjects, loadProject, loadAudioTakesForClip } from '@/lib/persistence';
+import { useAutosave, useShortcut, useLoadKeyBindings, usePersistKeyBindings, useLoadMidiMappings, usePersistMidiMappings } from '@/hooks';
+import { listProjects, loadProject, loadAudioTake, loadAudioTakesForClip } from '@/lib/persistence';
 import { loadDemoTemplate } from '@/lib/templates';
 
 // Loading fallback for Suspense
@@ -46,6 +46,7 @@ function ComposePageContent() {
     const [isPlayoutScheduled, setIsPlayoutScheduled] = useState(false);
     const [isInitializing, setIsInitializing] = useState(true);
     const [shouldAutoPlay, setShouldAutoPlay] = useState(false);
+    const [instrumentRevision, setInstrumentRevision] = useState(0);
     const initializedRef = useRef(false);
 
     // Autosave hook
@@ -80,6 +81,9 @@ function ComposePageContent() {
             initializedRef.current = true;
 
             try {
+                // User instruments must be known before clips are scheduled
+                await Promise.all([samplerPresets.load(), userSynthPresets.load()]);
+
                 // Check for demo template first
                 if (demoId) {
                     const demoProject = loadDemoTemplate(demoId);
@@ -103,9 +107,9 @@ function ComposePageContent() {
                         // Clear any existing audio takes and load new ones
                         clearAudioTakes();
 
-                        // Load audio takes for all audio clips
+                        // Load audio takes for all audio clips (and sliced MIDI clips)
                         for (const clip of fullProject.clips) {
-                            if (clip.type === 'audio' && clip.activeTakeId) {
+                            if ((clip.type === 'audio' && clip.activeTakeId) || clip.sliceKit) {
                                 const takes = await loadAudioTakesForClip(clip.id);
                                 for (const take of takes) {
                                     registerAudioTake(take);
@@ -113,6 +117,12 @@ function ComposePageContent() {
                             }
                         }
 
+                        // And the renders of frozen tracks
+                        for (const track of fullProject.tracks) {
+                            const take = track.freeze && await loadAudioTake(track.freeze.takeId);
+                            if (take) registerAudioTake(take);
+                        }
+
                         loadProjectStore(fullProject);
                         logger.info('Loaded existing project', { id: fullProject.id, name: fullProject.name });
                     } else {
@@ -152,52 +162,51 @@ function ComposePageContent() {
         }
     }, [project, isAudioReady]);
 
-    // Calculate a hash of clip notes for change detection
-    // Include note content (pitch, beat, duration, velocity) so edits trigger rescheduling
-    const clipNotesHash = project?.clips.map(c => {
-        const noteHash = c.notes?.map(n => `${n.pitch}.${n.startBeat}.${n.duration}.${n.velocity}`).join(';') || '';
-        return `${c.id}:${c.startBar}:${c.lengthBars}:${c.instrumentPreset || ''}:${noteHash}`;
-    }).join(',') || '';
-
-    // Calculate hash for track effects to detect changes
-    const trackEffectsHash = project?.tracks.map(t =>
-        `${t.id}:${(t.effects || []).map(e => `${e.id}-${JSON.stringify(e.params)}`).join(',')}`
-    ).join('|') || '';
+    // Edited user instruments live outside the project, so count their changes
+    useEffect(() => {
+        const bump = () => setInstrumentRevision((r) => r + 1);
+        const unsubscribeSamplers = samplerPresets.onChange(bump);
+        const unsubscribeSynths = userSynthPresets.onChange(bump);
+        return () => {
+            unsubscribeSamplers();
+            unsubscribeSynths();
+        };
+    }, []);
 
-    // Re-schedule clips when project clips or notes change
+    // Apply store edits (clips, notes, mix, effects, master) as minimal playout operations
     useEffect(() => {
         if (isAudioReady && project) {
-            scheduleClips();
+            playoutManager.syncProject(project);
+            setIsPlayoutScheduled(true);
         }
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [isAudioReady, project?.clips.length, clipNotesHash, scheduleClips]);
+    }, [isAudioReady, project]);
 
-    // Sync track effects
+    // Re-schedule clips whose user instrument was edited
     useEffect(() => {
-        if (project && isAudioReady) {
-            project.tracks.forEach(track => {
-                playoutManager.updateTrackEffects(track.id, track.effects || []);
-            });
+        if (instrumentRevision > 0) {
+            scheduleClips();
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [trackEffectsHash, isAudioReady]); // Only re-run if effects structure changes
+    }, [instrumentRevision]);
 
-    // Sync BPM with audio engine
+    // Sync BPM and tempo map with audio engine
     useEffect(() => {
         if (project && isAudioReady) {
             audioEngine.setBpm(project.bpm);
             audioEngine.setTimeSignature(project.timeSignature[0], project.timeSignature[1]);
+            audioEngine.setTempoMap(getTempoMap(project));
         }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [project?.bpm, project?.timeSignature, isAudioReady]);
+    }, [project?.bpm, project?.timeSignature, project?.tempoMap, isAudioReady]);
 
-    // Sync loop settings with audio engine
+    // Sync loop settings with audio engine (loop bars move with the tempo map)
     const { loopEnabled, loopStartBar, loopEndBar } = usePlaybackStore();
     useEffect(() => {
         if (isAudioReady) {
             audioEngine.setLoop(loopEnabled, loopStartBar, loopEndBar);
         }
-    }, [isAudioReady, loopEnabled, loopStartBar, loopEndBar]);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isAudioReady, loopEnabled, loopStartBar, loopEndBar, project?.bpm, project?.timeSignature, project?.tempoMap]);
 
     // Handle play with clip scheduling
     const handlePlay = useCallback(async () => {
@@ -236,6 +245,10 @@ function ComposePageContent() {
     useLoadKeyBindings();
     usePersistKeyBindings();
 
+    // Load and persist MIDI controller mappings
+    useLoadMidiMappings();
+    usePersistMidiMappings();
+
     // Spacebar: Play/Pause
     useShortcut('playback.playPause', (e) => {
         e.preventDefault();
@@ -0,0 +1,345 @@
+// ============================================
+// ComposeYogi — Automation Lane Components
+// Expandable envelope lane under a track (header + editor)
+// ============================================
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Power, Trash2 } from 'lucide-react';
+import { useProjectStore, useUIStore } from '@/lib/store';
+import { Button } from '@/components/ui';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    getAutomationTargets,
+    getAutomationValueAt,
+    getStaticTargetValue,
+    sortAutomationPoints,
+} from '@/lib/audio/automation';
+import type { AutomationCurve, AutomationPoint, AutomationTarget, Track } from '@/types';
+
+export const AUTOMATION_LANE_HEIGHT = 64;
+
+const POINT_RADIUS = 4;
+const LANE_PADDING = 6;
+const EXPONENTIAL_SEGMENTS = 16;
+
+const NEXT_CURVE: Record<AutomationCurve, AutomationCurve> = {
+    linear: 'exponential',
+    exponential: 'step',
+    step: 'linear',
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+function getTargetRange(track: Track, target: AutomationTarget): { min: number; max: number } {
+    const option = getAutomationTargets(track).find((o) => o.target === target);
+    return option ? { min: option.min, max: option.max } : { min: 0, max: 1 };
+}
+
+function formatValue(target: AutomationTarget, value: number): string {
+    if (target === 'volume') return `${Math.round(value * 100)}%`;
+    if (target === 'pan') {
+        if (Math.abs(value) < 0.005) return 'C';
+        return `${Math.round(Math.abs(value) * 100)}${value < 0 ? 'L' : 'R'}`;
+    }
+    return Math.abs(value) >= 100 ? Math.round(value).toString() : value.toFixed(2);
+}
+
+// ============================================
+// Lane Header (track header column)
+// ============================================
+
+interface AutomationLaneHeaderProps {
+    track: Track;
+    target: AutomationTarget;
+}
+
+export function AutomationLaneHeader({ track, target }: AutomationLaneHeaderProps) {
+    const setAutomationLaneTarget = useUIStore((s) => s.setAutomationLaneTarget);
+    const updateAutomationLane = useProjectStore((s) => s.updateAutomationLane);
+    const removeAutomationLane = useProjectStore((s) => s.removeAutomationLane);
+
+    const targets = getAutomationTargets(track);
+    const lane = track.automation?.find((l) => l.target === target);
+
+    // Fall back to volume if the selected effect was removed
+    useEffect(() => {
+        if (!targets.some((o) => o.target === target)) {
+            setAutomationLaneTarget(track.id, 'volume');
+        }
+    }, [targets, target, track.id, setAutomationLaneTarget]);
+
+    return (
+        <div
+            className="flex items-center gap-1 border-t border-border/50 bg-surface-elevated/50 px-2"
+            style={{ height: AUTOMATION_LANE_HEIGHT }}
+            onClick={(e) => e.stopPropagation()}
+        >
+            <Select
+                value={target}
+                onValueChange={(v) => setAutomationLaneTarget(track.id, v as AutomationTarget)}
+            >
+                <SelectTrigger className="h-6 flex-1 min-w-0 text-xs capitalize">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {targets.map((option) => {
+                        const hasPoints = track.automation?.some(
+                            (l) => l.target === option.target && l.points.length > 0
+                        );
+                        return (
+                            <SelectItem key={option.target} value={option.target} className="text-xs capitalize">
+                                {option.label}{hasPoints ? ' •' : ''}
+                            </SelectItem>
+                        );
+                    })}
+                </SelectContent>
+            </Select>
+
+            {lane && (
+                <>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className={`h-6 w-6 ${lane.enabled ? 'text-accent' : 'text-muted-foreground'}`}
+                        onClick={() => updateAutomationLane(track.id, lane.id, { enabled: !lane.enabled })}
+                        title={lane.enabled ? 'Disable automation' : 'Enable automation'}
+                    >
+                        <Power className="h-3 w-3" />
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                        onClick={() => removeAutomationLane(track.id, lane.id)}
+                        title="Clear automation"
+                    >
+                        <Trash2 className="h-3 w-3" />
+                    </Button>
+                </>
+            )}
+        </div>
+    );
+}
+
+// ============================================
+// Lane Editor (timeline area)
+// ============================================
+
+interface AutomationLaneEditorProps {
+    track: Track;
+    target: AutomationTarget;
+    top: number;
+    width: number;
+    pixelsPerBeat: number;
+    beatsPerBar: number;
+}
+
+interface DragState {
+    pointId: string;
+    bar: number;
+    value: number;
+}
+
+/**
+ * Click to add a point, drag to move, double-click to delete,
+ * right-click to cycle the curve of the segment arriving at a point.
+ * Hold Shift to place points off the 16th-note grid.
+ */
+export function AutomationLaneEditor({
+    track,
+    target,
+    top,
+    width,
+    pixelsPerBeat,
+    beatsPerBar,
+}: AutomationLaneEditorProps) {
+    const addAutomationLane = useProjectStore((s) => s.addAutomationLane);
+    const addAutomationPoint = useProjectStore((s) => s.addAutomationPoint);
+    const updateAutomationPoint = useProjectStore((s) => s.updateAutomationPoint);
+    const deleteAutomationPoint = useProjectStore((s) => s.deleteAutomationPoint);
+
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [drag, setDrag] = useState<DragState | null>(null);
+
+    const lane = track.automation?.find((l) => l.target === target);
+    const { min, max } = getTargetRange(track, target);
+    const pixelsPerBar = pixelsPerBeat * beatsPerBar;
+    const innerHeight = AUTOMATION_LANE_HEIGHT - LANE_PADDING * 2;
+
+    const valueToY = useCallback((value: number) => {
+        const normalized = (value - min) / (max - min || 1);
+        return LANE_PADDING + (1 - Math.max(0, Math.min(1, normalized))) * innerHeight;
+    }, [min, max, innerHeight]);
+
+    // Convert a mouse event to a (bar, value) position in the lane
+    const eventToPosition = useCallback((e: { clientX: number; clientY: number; shiftKey: boolean }) => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect) return null;
+
+        let bar = Math.max(0, (e.clientX - rect.left) / pixelsPerBar);
+        if (!e.shiftKey) {
+            const stepsPerBar = beatsPerBar * 4;
+            bar = Math.round(bar * stepsPerBar) / stepsPerBar;
+        }
+
+        const normalized = 1 - (e.clientY - rect.top - LANE_PADDING) / innerHeight;
+        const value = min + Math.max(0, Math.min(1, normalized)) * (max - min);
+        return { bar, value };
+    }, [pixelsPerBar, beatsPerBar, innerHeight, min, max]);
+
+    // Points with the in-progress drag applied
+    const points: AutomationPoint[] = sortAutomationPoints(
+        (lane?.points || []).map((p) =>
+            drag && p.id === drag.pointId ? { ...p, bar: drag.bar, value: drag.value } : p
+        )
+    );
+
+    // Commit drags on mouse up so each move is a single undo step
+    useEffect(() => {
+        if (!drag || !lane) return;
+
+        const handleMouseMove = (e: MouseEvent) => {
+            const position = eventToPosition(e);
+            if (position) {
+                setDrag({ pointId: drag.pointId, ...position });
+            }
+        };
+
+        const handleMouseUp = () => {
+            updateAutomationPoint(track.id, lane.id, drag.pointId, { bar: drag.bar, value: drag.value });
+            setDrag(null);
+        };
+
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [drag, lane, track.id, eventToPosition, updateAutomationPoint]);
+
+    const handleLaneMouseDown = useCallback((e: React.MouseEvent) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+
+        const position = eventToPosition(e);
+        if (!position) return;
+
+        const targetLane = lane ?? addAutomationLane(track.id, target);
+        if (!targetLane) return;
+
+        const point = addAutomationPoint(track.id, targetLane.id, { ...position, curve: 'linear' });
+        if (point) {
+            setDrag({ pointId: point.id, bar: point.bar, value: point.value });
+        }
+    }, [eventToPosition, lane, track.id, target, addAutomationLane, addAutomationPoint]);
+
+    const handlePointMouseDown = useCallback((e: React.MouseEvent, point: AutomationPoint) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+        setDrag({ pointId: point.id, bar: point.bar, value: point.value });
+    }, []);
+
+    const handlePointDoubleClick = useCallback((e: React.MouseEvent, point: AutomationPoint) => {
+        e.stopPropagation();
+        if (lane) deleteAutomationPoint(track.id, lane.id, point.id);
+    }, [lane, track.id, deleteAutomationPoint]);
+
+    const handlePointContextMenu = useCallback((e: React.MouseEvent, point: AutomationPoint) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (lane) updateAutomationPoint(track.id, lane.id, point.id, { curve: NEXT_CURVE[point.curve] });
+    }, [lane, track.id, updateAutomationPoint]);
+
+    // Build the envelope path, including curve shapes between points
+    let path = '';
+    if (points.length === 0) {
+        const y = valueToY(getStaticTargetValue(track, target));
+        path = `M 0 ${y} L ${width} ${y}`;
+    } else {
+        path = `M 0 ${valueToY(points[0].value)}`;
+        points.forEach((point, i) => {
+            const x = point.bar * pixelsPerBar;
+            const y = valueToY(point.value);
+            if (i === 0) {
+                path += ` L ${x} ${y}`;
+                return;
+            }
+
+            const prev = points[i - 1];
+            if (point.curve === 'step') {
+                path += ` L ${x} ${valueToY(prev.value)} L ${x} ${y}`;
+            } else if (point.curve === 'exponential') {
+                for (let s = 1; s <= EXPONENTIAL_SEGMENTS; s++) {
+                    const bar = prev.bar + ((point.bar - prev.bar) * s) / EXPONENTIAL_SEGMENTS;
+                    path += ` L ${bar * pixelsPerBar} ${valueToY(getAutomationValueAt([prev, point], bar))}`;
+                }
+            } else {
+                path += ` L ${x} ${y}`;
+            }
+        });
+        path += ` L ${width} ${valueToY(points[points.length - 1].value)}`;
+    }
+
+    const isActive = !!lane && lane.enabled && points.length > 0;
+
+    return (
+        <div
+            className="absolute left-0 border-b border-border/50 bg-surface/40"
+            style={{ top, height: AUTOMATION_LANE_HEIGHT, width }}
+        >
+            <svg
+                ref={svgRef}
+                width={width}
+                height={AUTOMATION_LANE_HEIGHT}
+                className="cursor-crosshair"
+                onMouseDown={handleLaneMouseDown}
+                onContextMenu={(e) => e.preventDefault()}
+            >
+                <path
+                    d={path}
+                    fill="none"
+                    stroke="hsl(var(--accent))"
+                    strokeWidth={1.5}
+                    strokeDasharray={isActive ? undefined : '4 3'}
+                    opacity={isActive ? 1 : 0.5}
+                />
+                {points.map((point) => (
+                    <g key={point.id}>
+                        <circle
+                            cx={point.bar * pixelsPerBar}
+                            cy={valueToY(point.value)}
+                            r={POINT_RADIUS}
+                            fill="hsl(var(--accent))"
+                            stroke="hsl(var(--background))"
+                            strokeWidth={1}
+                            className="cursor-grab"
+                            onMouseDown={(e) => handlePointMouseDown(e, point)}
+                            onDoubleClick={(e) => handlePointDoubleClick(e, point)}
+                            onContextMenu={(e) => handlePointContextMenu(e, point)}
+                        />
+                        {drag?.pointId === point.id && (
+                            <text
+                                x={point.bar * pixelsPerBar + 6}
+                                y={Math.max(10, valueToY(point.value) - 6)}
+                                className="fill-foreground text-[9px] font-mono"
+                            >
+                                {formatValue(target, point.value)}
+                            </text>
+                        )}
+                    </g>
+                ))}
+            </svg>
+        </div>
+    );
+}
@@ -16,6 +16,10 @@ import {
     Upload,
     Loader2,
     FolderOpen,
+    AudioWaveform,
+    Pencil,
+    Download,
+    SlidersHorizontal,
 } from 'lucide-react';
 import { useUIStore, useProjectStore } from '@/lib/store';
 import { Button } from '@/components/ui';
@@ -44,8 +48,18 @@ import {
     removeUserSample,
     createSamplePreviewUrl,
     SUPPORTED_EXTENSIONS,
+    samplerPresets,
+    createSamplerPreset,
+    toSamplerInstrumentId,
+    userSynthPresets,
+    toUserSynthInstrumentId,
+    downloadSynthPreset,
+    readSynthPresetFile,
+    SYNTH_PRESET_FILE_EXTENSION,
 } from '@/lib/audio';
-import type { UserSample } from '@/types';
+import { SamplerEditorModal } from './SamplerEditorModal';
+import { SynthEditorModal } from './SynthEditorModal';
+import type { SamplerPreset, TrackColor, UserSample, UserSynthPreset } from '@/types';
 import { createLogger } from '@/lib/logger';
 import { toast } from 'sonner';
 
@@ -78,6 +92,32 @@ const getTrackColorClass = (color: string): string => {
     }
 };
 
+// User samplers are added and dragged like built-in instruments
+const samplerToInstrument = (preset: SamplerPreset): InstrumentItem => ({
+    id: toSamplerInstrumentId(preset.id),
+    name: preset.name,
+    category: 'keys',
+    description: `${preset.zones.length} ${preset.zones.length === 1 ? 'zone' : 'zones'} · ${preset.mode === 'one-shot' ? 'One-shot' : 'Gate'}`,
+    trackType: 'midi',
+    trackColor: 'keys',
+});
+
+const USER_PRESET_COLORS: Partial<Record<UserSynthPreset['category'], TrackColor>> = {
+    drums: 'drums',
+    bass: 'bass',
+    keys: 'keys',
+    pad: 'fx',
+};
+
+const userPresetToInstrument = (preset: UserSynthPreset): InstrumentItem => ({
+    id: toUserSynthInstrumentId(preset.id),
+    name: preset.name,
+    category: preset.category,
+    description: 'User preset',
+    trackType: preset.category === 'drums' ? 'drum' : 'midi',
+    trackColor: USER_PRESET_COLORS[preset.category] ?? 'melody',
+});
+
 // ============================================
 // BrowserPanel Component
 // ============================================
@@ -93,6 +133,15 @@ export function BrowserPanel() {
     const [isImporting, setIsImporting] = useState(false);
     const [previewingId, setPreviewingId] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // User sampler state
+    const [samplers, setSamplers] = useState<SamplerPreset[]>(() => samplerPresets.getAll());
+    const [editingSampler, setEditingSampler] = useState<SamplerPreset | null>(null);
+
+    // User synth preset state
+    const [userPresets, setUserPresets] = useState<UserSynthPreset[]>(() => userSynthPresets.getAll());
+    const [editingInstrumentId, setEditingInstrumentId] = useState<string | null>(null);
+    const presetFileInputRef = useRef<HTMLInputElement>(null);
     const previewAudioRef = useRef<HTMLAudioElement | null>(null);
 
     const toggleBrowser = useUIStore((s) => s.toggleBrowser);
@@ -114,6 +163,16 @@ export function BrowserPanel() {
         loadUserSamples();
     }, [loadUserSamples]);
 
+    useEffect(() => {
+        setSamplers(samplerPresets.getAll());
+        return samplerPresets.onChange(() => setSamplers(samplerPresets.getAll()));
+    }, []);
+
+    useEffect(() => {
+        setUserPresets(userSynthPresets.getAll());
+        return userSynthPresets.onChange(() => setUserPresets(userSynthPresets.getAll()));
+    }, []);
+
     const toggleFolder = useCallback((folderId: string) => {
         setExpandedFolders((prev) => {
             const next = new Set(prev);
@@ -219,6 +278,8 @@ export function BrowserPanel() {
                 name: sample.name,
                 duration: sample.duration,
                 sampleRate: sample.sampleRate,
+                bpm: sample.bpm,
+                key: sample.key,
             },
         }));
         e.dataTransfer.effectAllowed = 'copy';
@@ -299,6 +360,68 @@ export function BrowserPanel() {
         updateTrack(track.id, { instrumentPreset: instrument.id });
     }, [addTrack, updateTrack]);
 
+    // ========================================
+    // User Samplers
+    // ========================================
+
+    const handleNewSampler = useCallback((sample?: UserSample) => {
+        setEditingSampler(sample
+            ? createSamplerPreset(sample.name, [sample])
+            : createSamplerPreset('New Sampler', userSamples.slice(0, 1)));
+    }, [userSamples]);
+
+    const handleDeleteSampler = useCallback(async (e: React.MouseEvent, preset: SamplerPreset) => {
+        e.stopPropagation();
+
+        if (!confirm(`Delete "${preset.name}"? Tracks using it will fall back to a basic synth.`)) {
+            return;
+        }
+
+        try {
+            await samplerPresets.remove(preset.id);
+            toast.success(`Deleted "${preset.name}"`);
+        } catch (error) {
+            toast.error('Failed to delete sampler');
+            log.error('Delete sampler failed', error);
+        }
+    }, []);
+
+    // ========================================
+    // User Synth Presets
+    // ========================================
+
+    const handlePresetFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        e.target.value = '';
+
+        for (const file of files) {
+            try {
+                const preset = await readSynthPresetFile(file);
+                await userSynthPresets.save(preset);
+                toast.success(`Imported "${preset.name}"`);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                toast.error(`Failed to import ${file.name}: ${message}`);
+            }
+        }
+    }, []);
+
+    const handleDeleteUserPreset = useCallback(async (e: React.MouseEvent, preset: UserSynthPreset) => {
+        e.stopPropagation();
+
+        if (!confirm(`Delete "${preset.name}"? Tracks using it will fall back to a basic synth.`)) {
+            return;
+        }
+
+        try {
+            await userSynthPresets.remove(preset.id);
+            toast.success(`Deleted "${preset.name}"`);
+        } catch (error) {
+            toast.error('Failed to delete preset');
+            log.error('Delete preset failed', error);
+        }
+    }, []);
+
     // ========================================
     // Filter Logic
     // ========================================
@@ -360,9 +483,185 @@ export function BrowserPanel() {
 
     const renderInstruments = () => {
         const filteredInstruments = filterBySearch(INSTRUMENTS);
+        const filteredSamplers = filterBySearch(samplers);
+        const isSamplersExpanded = expandedCategories.has('user-samplers');
+        const filteredUserPresets = filterBySearch(userPresets);
+        const isUserPresetsExpanded = expandedCategories.has('user-presets');
 
         return (
             <div className="p-2">
+                {/* User Synth Presets */}
+                {(!searchQuery || filteredUserPresets.length > 0) && (
+                    <div className="mb-1">
+                        <div className="flex items-center group">
+                            <button
+                                onClick={() => toggleCategory('user-presets')}
+                                className="flex flex-1 items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-surface-elevated"
+                            >
+                                <span className="text-muted-foreground">
+                                    {isUserPresetsExpanded ? (
+                                        <ChevronDown className="h-3 w-3" />
+                                    ) : (
+                                        <ChevronRight className="h-3 w-3" />
+                                    )}
+                                </span>
+                                <FolderOpen className="h-4 w-4 text-accent" />
+                                <span className="font-medium text-accent">My Presets</span>
+                                <span className="text-xs text-muted-foreground ml-auto">
+                                    {userPresets.length}
+                                </span>
+                            </button>
+                            <button
+                                onClick={() => presetFileInputRef.current?.click()}
+                                className="p-1 hover:bg-surface-active rounded transition-all"
+                                aria-label="Import Preset"
+                                title={`Import preset (${SYNTH_PRESET_FILE_EXTENSION})`}
+                            >
+                                <Upload className="h-3.5 w-3.5 text-muted-foreground hover:text-foreground" />
+                            </button>
+                            <input
+                                ref={presetFileInputRef}
+                                type="file"
+                                accept=".json"
+                                multiple
+                                onChange={handlePresetFileSelect}
+                                className="hidden"
+                            />
+                        </div>
+                        {isUserPresetsExpanded && (
+                            <div className="ml-4 space-y-1 mt-1">
+                                {filteredUserPresets.length === 0 ? (
+                                    <p className="py-2 px-2 text-xs text-muted-foreground italic">
+                                        Customize an instrument to save your own
+                                    </p>
+                                ) : (
+                                    filteredUserPresets.map((preset) => {
+                                        const instrument = userPresetToInstrument(preset);
+                                        return (
+                                            <div
+                                                key={preset.id}
+                                                draggable
+                                                onDragStart={(e) => handleInstrumentDrag(e, instrument)}
+                                                onDoubleClick={() => handleInstrumentDoubleClick(instrument)}
+                                                className="flex items-center gap-2 rounded px-2 py-1.5 text-sm cursor-grab active:cursor-grabbing hover:bg-surface-elevated group"
+                                            >
+                                                <GripVertical className="h-3 w-3 text-muted-foreground opacity-0 group-hover:opacity-50" />
+                                                <div className={`w-1.5 h-1.5 rounded-full bg-${getTrackColorClass(instrument.trackColor)}`} />
+                                                <SlidersHorizontal className="h-4 w-4 text-accent/70" />
+                                                <span className="flex-1 text-foreground truncate">{preset.name}</span>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        setEditingInstrumentId(instrument.id);
+                                                    }}
+                                                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-surface-active rounded transition-all"
+                                                    aria-label="Edit Preset"
+                                                >
+                                                    <Pencil className="h-3 w-3 text-muted-foreground hover:text-foreground" />
+                                                </button>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        downloadSynthPreset(preset);
+                                                    }}
+                                                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-surface-active rounded transition-all"
+                                                    aria-label="Export Preset"
+                                                >
+                                                    <Download className="h-3 w-3 text-muted-foreground hover:text-foreground" />
+                                                </button>
+                                                <button
+                                                    onClick={(e) => handleDeleteUserPreset(e, preset)}
+                                                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-destructive/20 rounded transition-all"
+                                                    aria-label="Delete Preset"
+                                                >
+                                                    <Trash2 className="h-3 w-3 text-muted-foreground hover:text-destructive" />
+                                                </button>
+                                            </div>
+                                        );
+                                    })
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* User Samplers */}
+                {(!searchQuery || filteredSamplers.length > 0) && (
+                    <div className="mb-1">
+                        <div className="flex items-center group">
+                            <button
+                                onClick={() => toggleCategory('user-samplers')}
+                                className="flex flex-1 items-center gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-surface-elevated"
+                            >
+                                <span className="text-muted-foreground">
+                                    {isSamplersExpanded ? (
+                                        <ChevronDown className="h-3 w-3" />
+                                    ) : (
+                                        <ChevronRight className="h-3 w-3" />
+                                    )}
+                                </span>
+                                <FolderOpen className="h-4 w-4 text-accent" />
+                                <span className="font-medium text-accent">My Samplers</span>
+                                <span className="text-xs text-muted-foreground ml-auto">
+                                    {samplers.length}
+                                </span>
+                            </button>
+                            <button
+                                onClick={() => handleNewSampler()}
+                                className="p-1 hover:bg-surface-active rounded transition-all"
+                                aria-label="New Sampler"
+                                title="New Sampler"
+                            >
+                                <PlusCircle className="h-3.5 w-3.5 text-muted-foreground hover:text-foreground" />
+                            </button>
+                        </div>
+                        {isSamplersExpanded && (
+                            <div className="ml-4 space-y-1 mt-1">
+                                {filteredSamplers.length === 0 ? (
+                                    <p className="py-2 px-2 text-xs text-muted-foreground italic">
+                                        Build an instrument from your imported samples
+                                    </p>
+                                ) : (
+                                    filteredSamplers.map((preset) => {
+                                        const instrument = samplerToInstrument(preset);
+                                        return (
+                                            <div
+                                                key={preset.id}
+                                                draggable
+                                                onDragStart={(e) => handleInstrumentDrag(e, instrument)}
+                                                onDoubleClick={() => handleInstrumentDoubleClick(instrument)}
+                                                className="flex items-center gap-2 rounded px-2 py-1.5 text-sm cursor-grab active:cursor-grabbing hover:bg-surface-elevated group"
+                                                title={instrument.description}
+                                            >
+                                                <GripVertical className="h-3 w-3 text-muted-foreground opacity-0 group-hover:opacity-50" />
+                                                <AudioWaveform className="h-4 w-4 text-accent/70" />
+                                                <span className="flex-1 text-foreground truncate">{preset.name}</span>
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        setEditingSampler(preset);
+                                                    }}
+                                                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-surface-active rounded transition-all"
+                                                    aria-label="Edit Sampler"
+                                                >
+                                                    <Pencil className="h-3 w-3 text-muted-foreground hover:text-foreground" />
+                                                </button>
+                                                <button
+                                                    onClick={(e) => handleDeleteSampler(e, preset)}
+                                                    className="opacity-0 group-hover:opacity-100 p-1 hover:bg-destructive/20 rounded transition-all"
+                                                    aria-label="Delete Sampler"
+                                                >
+                                                    <Trash2 className="h-3 w-3 text-muted-foreground hover:text-destructive" />
+                                                </button>
+                                            </div>
+                                        );
+                                    })
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {INSTRUMENT_CATEGORIES.map((category) => {
                     const categoryInstruments = filteredInstruments.filter(
                         (i) => i.category === category.id
@@ -410,6 +709,16 @@ export function BrowserPanel() {
 
                                                     <span className="flex-1 text-foreground truncate">{instrument.name}</span>
 
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            setEditingInstrumentId(instrument.id);
+                                                        }}
+                                                        className="opacity-0 group-hover:opacity-100 p-1 hover:bg-surface-active rounded transition-all"
+                                                        aria-label="Customize"
+                                                    >
+                                                        <Pencil className="h-3 w-3 text-muted-foreground hover:text-foreground" />
+                                                    </button>
                                                     <button
                                                         onClick={(e) => {
                                                             e.stopPropagation();
@@ -508,9 +817,28 @@ export function BrowserPanel() {
                                             <span className="flex-1 text-foreground truncate">
                                                 {sample.name}
                                             </span>
+                                            {(sample.bpm || sample.key) && (
+                                                <span
+                                                    className="text-[10px] text-muted-foreground"
+                                                    title="Detected tempo and key"
+                                                >
+                                                    {[sample.bpm, sample.key].filter(Boolean).join(' · ')}
+                                                </span>
+                                            )}
                                             <span className="text-[10px] text-muted-foreground">
                                                 {formatDuration(sample.duration)}
                                             </span>
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    handleNewSampler(sample);
+                                                }}
+                                                className="opacity-0 group-hover:opacity-100 p-1 hover:bg-surface-active rounded transition-all"
+                                                aria-label="Create sampler from sample"
+                                                title="Create sampler from sample"
+                                            >
+                                                <AudioWaveform className="h-3 w-3 text-muted-foreground hover:text-foreground" />
+                                            </button>
                                             <button
                                                 onClick={(e) => handleDeleteUserSample(e, sample)}
                                                 className="opacity-0 group-hover:opacity-100 p-1 hover:bg-destructive/20 rounded transition-all"
@@ -765,6 +1093,16 @@ export function BrowserPanel() {
                     </p>
                 </div>
             )}
+
+            <SamplerEditorModal
+                preset={editingSampler}
+                samples={userSamples}
+                onClose={() => setEditingSampler(null)}
+            />
+            <SynthEditorModal
+                instrumentId={editingInstrumentId}
+                onClose={() => setEditingInstrumentId(null)}
+            />
         </aside>
     );
 }
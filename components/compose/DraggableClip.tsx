@@ -7,7 +7,7 @@
 
 import { useRef, useCallback, useEffect, useState, useMemo } from 'react';
 import { useProjectStore, useUIStore } from '@/lib/store';
-import { getAudioTake, audioEngine } from '@/lib/audio';
+import { getAudioTake, audioEngine, getTempoMap, getWarpPlan } from '@/lib/audio';
 import { AudioClip } from './AudioClip';
 import type { Clip, Track, TrackColor } from '@/types';
 
@@ -36,6 +36,7 @@ interface DraggableClipProps {
 export function DraggableClip({ clip, track, pixelsPerBeat, beatsPerBar }: DraggableClipProps) {
     const updateClip = useProjectStore((s) => s.updateClip);
     const resizeClip = useProjectStore((s) => s.resizeClip);
+    const tempoMap = useProjectStore((s) => (s.project ? getTempoMap(s.project) : null));
     const duplicateClip = useProjectStore((s) => s.duplicateClip);
     const moveClipsByDelta = useProjectStore((s) => s.moveClipsByDelta);
     const selectedClipIds = useUIStore((s) => s.selectedClipIds);
@@ -62,18 +63,21 @@ export function DraggableClip({ clip, track, pixelsPerBeat, beatsPerBar }: Dragg
     const pixelsPerBar = pixelsPerBeat * beatsPerBar;
     const isInMultiDrag = isSelected && multiDragOffsetBars !== 0 && !isLeadingDrag;
 
-    // For audio clips, get the source audio duration (in seconds and bars)
+    // For audio clips, get the source audio duration (in seconds and bars).
+    // timeScale converts take seconds (trims) to timeline seconds when warped.
     const audioSourceInfo = useMemo(() => {
         if (clip.type !== 'audio' || !clip.activeTakeId) return null;
         const take = getAudioTake(clip.activeTakeId);
-        if (!take) return null;
-        const sourceDurationSec = take.duration;
-        const sourceDurationBars = audioEngine.secondsToBar(sourceDurationSec);
+        if (!take || !tempoMap) return null;
+        const { timeScale } = getWarpPlan(clip, take.duration, tempoMap);
+        const sourceDurationSec = take.duration * timeScale;
+        const sourceDurationBars = audioEngine.secondsToBarsAt(clip.startBar, sourceDurationSec);
         return {
             durationSec: sourceDurationSec,
             durationBars: sourceDurationBars,
+            timeScale,
         };
-    }, [clip.type, clip.activeTakeId]);
+    }, [clip, tempoMap]);
 
     // Calculate position and size with drag/resize offsets
     const _startBeat = clip.startBar * beatsPerBar;
@@ -196,7 +200,10 @@ export function DraggableClip({ clip, track, pixelsPerBeat, beatsPerBar }: Dragg
                 let maxExpandLeft = dragStartRef.current.originalBar; // Can't go before bar 0
                 if (audioSourceInfo) {
                     // Can only expand left by the amount of trimStart available
-                    const currentTrimStartBars = audioEngine.secondsToBar(clip.trimStart || 0);
+                    const currentTrimStartBars = -audioEngine.secondsToBarsAt(
+                        clip.startBar,
+                        -(clip.trimStart || 0) * audioSourceInfo.timeScale
+                    );
                     maxExpandLeft = Math.min(maxExpandLeft, currentTrimStartBars);
                 }
 
@@ -211,7 +218,10 @@ export function DraggableClip({ clip, track, pixelsPerBeat, beatsPerBar }: Dragg
                 let maxExpandRight = Infinity;
                 if (audioSourceInfo) {
                     // Can only expand right by the amount of trimEnd available
-                    const currentTrimEndBars = audioEngine.secondsToBar(clip.trimEnd || 0);
+                    const currentTrimEndBars = audioEngine.secondsToBarsAt(
+                        clip.startBar + clip.lengthBars,
+                        (clip.trimEnd || 0) * audioSourceInfo.timeScale
+                    );
                     maxExpandRight = currentTrimEndBars;
                 }
 
@@ -252,7 +262,8 @@ export function DraggableClip({ clip, track, pixelsPerBeat, beatsPerBar }: Dragg
 
                         if (audioSourceInfo) {
                             // Audio clip: adjust trimStart instead of just lengthBars
-                            const deltaSeconds = audioEngine.barToSeconds(deltaBars);
+                            const deltaSeconds = audioEngine.barsToSecondsAt(dragStartRef.current.originalBar, deltaBars)
+                                / audioSourceInfo.timeScale;
                             const currentTrimStart = clip.trimStart || 0;
                             const newTrimStart = Math.max(0, currentTrimStart + deltaSeconds);
 
@@ -272,7 +283,10 @@ export function DraggableClip({ clip, track, pixelsPerBeat, beatsPerBar }: Dragg
                     if (Math.abs(newLength - dragStartRef.current.originalLength) > 0.001) {
                         if (audioSourceInfo) {
                             // Audio clip: adjust trimEnd instead of just lengthBars
-                            const deltaSeconds = audioEngine.barToSeconds(deltaBars);
+                            const deltaSeconds = audioEngine.barsToSecondsAt(
+                                dragStartRef.current.originalBar + dragStartRef.current.originalLength,
+                                deltaBars
+                            ) / audioSourceInfo.timeScale;
                             const currentTrimEnd = clip.trimEnd || 0;
                             // Expanding right means reducing trimEnd, shrinking means increasing it
                             const newTrimEnd = Math.max(0, currentTrimEnd - deltaSeconds);
@@ -305,7 +319,7 @@ export function DraggableClip({ clip, track, pixelsPerBeat, beatsPerBar }: Dragg
             window.removeEventListener('mousemove', handleMouseMove);
             window.removeEventListener('mouseup', handleMouseUp);
         };
-    }, [dragMode, dragOffset, resizeOffset, pixelsPerBar, beatsPerBar, clip.id, clip.trimStart, clip.trimEnd, updateClip, resizeClip, duplicateClip, selectClip, selectedClipIds, moveClipsByDelta, isLeadingDrag, setMultiDragOffset, audioSourceInfo]);
+    }, [dragMode, dragOffset, resizeOffset, pixelsPerBar, beatsPerBar, clip.id, clip.startBar, clip.lengthBars, clip.trimStart, clip.trimEnd, updateClip, resizeClip, duplicateClip, selectClip, selectedClipIds, moveClipsByDelta, isLeadingDrag, setMultiDragOffset, audioSourceInfo]);
 
     // Get cursor style based on hover position
     const getCursorStyle = useCallback((e: React.MouseEvent): string => {
@@ -355,7 +369,7 @@ export function DraggableClip({ clip, track, pixelsPerBeat, beatsPerBar }: Dragg
 
             {/* Original clip */}
             <div
-                className={`clip ${TRACK_COLORS[track.color] || 'bg-accent'} ${isSelected ? 'selected' : ''} ${dragMode && !isDuplicating ? 'opacity-90' : ''}`}
+                className={`clip ${TRACK_COLORS[track.color] || 'bg-accent'} ${isSelected ? 'selected' : ''} ${dragMode && !isDuplicating ? 'opacity-90' : clip.muted ? 'opacity-40' : ''}`}
                 style={{
                     left: clipLeft,
                     width: clipWidth,
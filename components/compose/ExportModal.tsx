@@ -5,9 +5,10 @@
 
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
-import { Download, CheckCircle, AlertCircle, Loader2, FileJson, Music, FileAudio } from 'lucide-react';
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { Download, CheckCircle, AlertCircle, FileWarning, Loader2, FileJson, Music, FileAudio, Layers, Tags, ChevronDown, ChevronRight, ImagePlus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
 import {
     Dialog,
@@ -23,18 +24,46 @@ import {
     SelectTrigger,
     SelectValue,
 } from '@/components/ui/select';
-import { useProjectStore } from '@/lib/store';
-import { downloadProjectAsWav, downloadProjectAsMp3 } from '@/lib/audio/offline-renderer';
+import { useProjectStore, usePlaybackStore, useUIStore, withExportCover } from '@/lib/store';
+import {
+    downloadProjectAsWav,
+    downloadProjectEncoded,
+    downloadProjectStems,
+    getExportRange,
+    getStemTracks,
+    type ExportRangeMode,
+} from '@/lib/audio/offline-renderer';
 import { downloadProjectAsMidi } from '@/lib/audio/export';
 import { downloadProjectAsJSON } from '@/lib/audio/project-io';
-import { MP3_QUALITY_PRESETS, type Mp3Quality } from '@/lib/audio/mp3-encoder';
+import { getExportEncoders } from '@/lib/audio/audio-encoders';
+import { WAV_BIT_DEPTH_PRESETS, type WavBitDepth } from '@/lib/audio/wav-encoder';
+import { EXPORT_SAMPLE_RATES } from '@/lib/audio/resampler';
+import { NORMALIZE_PRESETS, type NormalizeMode, type NormalizeOptions, type NormalizeResult } from '@/lib/audio/loudness';
+import { getDefaultExportMetadata, readCoverImage } from '@/lib/audio/audio-metadata';
+import type { ExportMetadata, Project } from '@/types';
 
 // ============================================
 // Types
 // ============================================
 
 type ExportState = 'idle' | 'exporting' | 'complete' | 'error';
-type ExportType = 'wav' | 'mp3' | 'midi' | 'json';
+type ExportType = 'wav' | 'encoded' | 'stems' | 'midi' | 'json';
+
+const formatSampleRate = (rate: number) => `${rate / 1000} kHz`;
+const formatBar = (bar: number) => Math.round((bar + 1) * 100) / 100;
+
+type MetadataField = Exclude<keyof ExportMetadata, 'cover'>;
+
+const METADATA_FIELDS: { field: MetadataField; label: string; wide?: boolean }[] = [
+    { field: 'title', label: 'Title', wide: true },
+    { field: 'artist', label: 'Artist' },
+    { field: 'album', label: 'Album' },
+    { field: 'genre', label: 'Genre' },
+    { field: 'year', label: 'Year' },
+    { field: 'bpm', label: 'BPM' },
+    { field: 'key', label: 'Key' },
+    { field: 'comment', label: 'Comment', wide: true },
+];
 
 interface ExportModalProps {
     isOpen: boolean;
@@ -47,11 +76,91 @@ interface ExportModalProps {
 
 export function ExportModal({ isOpen, onClose }: ExportModalProps) {
     const project = useProjectStore((s) => s.project);
+    const updateProject = useProjectStore((s) => s.updateProject);
+    const exportCover = useProjectStore((s) => s.exportCover);
+    const setExportCover = useProjectStore((s) => s.setExportCover);
     const [exportState, setExportState] = useState<ExportState>('idle');
     const [progress, setProgress] = useState(0);
     const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [exportWarning, setExportWarning] = useState<string | null>(null);
     const [exportType, setExportType] = useState<ExportType>('wav');
-    const [mp3Quality, setMp3Quality] = useState<Mp3Quality>(192);
+    const [encoderId, setEncoderId] = useState('mp3');
+    const [encoderQuality, setEncoderQuality] = useState(192);
+    const [wavBitDepth, setWavBitDepth] = useState<WavBitDepth>(16);
+    const [wavSampleRate, setWavSampleRate] = useState<number>(44100);
+    const [wavDither, setWavDither] = useState(true);
+    const [rangeMode, setRangeMode] = useState<ExportRangeMode>('song');
+    const [normalizeMode, setNormalizeMode] = useState<NormalizeMode>('none');
+    const [normalizeTarget, setNormalizeTarget] = useState<number>(NORMALIZE_PRESETS.none.target);
+    const [stemTrackIds, setStemTrackIds] = useState<string[]>([]);
+    const [stemsDry, setStemsDry] = useState(false);
+    const [stemsIncludeMaster, setStemsIncludeMaster] = useState(true);
+    const [showMetadata, setShowMetadata] = useState(false);
+    const [metadataDraft, setMetadataDraft] = useState<ExportMetadata>({});
+
+    const stemTracks = useMemo(() => (project ? getStemTracks(project) : []), [project]);
+    const metadataDefaults = useMemo(() => (project ? getDefaultExportMetadata(project) : null), [project]);
+    const encoders = useMemo(() => getExportEncoders().filter((encoder) => encoder.isSupported()), []);
+    const encoder = encoders.find((e) => e.id === encoderId) ?? encoders[0];
+
+    const loopStartBar = usePlaybackStore((s) => s.loopStartBar);
+    const loopEndBar = usePlaybackStore((s) => s.loopEndBar);
+    const selectedClipIds = useUIStore((s) => s.selectedClipIds);
+
+    const exportRange = useMemo(
+        () => (project ? getExportRange(project, rangeMode, { loopStartBar, loopEndBar, selectedClipIds }) : null),
+        [project, rangeMode, loopStartBar, loopEndBar, selectedClipIds]
+    );
+    const normalize = useMemo<NormalizeOptions | undefined>(
+        () => (normalizeMode === 'none' ? undefined : { mode: normalizeMode, target: normalizeTarget }),
+        [normalizeMode, normalizeTarget]
+    );
+    const wavOptions = useMemo(() => ({
+        bitDepth: wavBitDepth,
+        sampleRate: wavSampleRate,
+        dither: wavDither && wavBitDepth !== 32,
+    }), [wavBitDepth, wavSampleRate, wavDither]);
+
+    // Typing edits a draft; it is stored on the project (one undo step) on
+    // blur or export, so the next export starts from it. Returns the project
+    // to export, draft and cover included.
+    const commitMetadata = useCallback((): Project | null => {
+        if (!project) return null;
+        const exportMetadata = Object.keys(metadataDraft).length > 0 ? metadataDraft : undefined;
+        if (JSON.stringify(exportMetadata) !== JSON.stringify(project.exportMetadata)) {
+            updateProject({ exportMetadata });
+        }
+        return withExportCover({ ...project, exportMetadata }, exportCover);
+    }, [project, metadataDraft, exportCover, updateProject]);
+
+    // Clear typed fields so they follow the project again; the cover stays
+    const resetMetadata = useCallback(() => {
+        setMetadataDraft({});
+        if (project?.exportMetadata) updateProject({ exportMetadata: undefined });
+    }, [project, updateProject]);
+
+    const handleCoverChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setExportCover(await readCoverImage(file));
+        } catch (error) {
+            console.error('[ExportModal] Cover image failed to load:', error);
+        }
+    }, [setExportCover]);
+
+    // Tell the user when peaks kept the mix from reaching its LUFS target
+    const handleNormalized = useCallback((result: NormalizeResult) => {
+        setExportWarning(result.limited && result.loudness !== undefined
+            ? `Loudness reached ${result.loudness.toFixed(1)} LUFS, short of the ${normalizeTarget} LUFS target, to keep peaks under the limiter ceiling.`
+            : null);
+    }, [normalizeTarget]);
+
+    const handleNormalizeModeChange = useCallback((mode: NormalizeMode) => {
+        setNormalizeMode(mode);
+        setNormalizeTarget(NORMALIZE_PRESETS[mode].target);
+    }, []);
 
     // Reset state when modal opens
     useEffect(() => {
@@ -59,49 +168,102 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
             setExportState('idle');
             setProgress(0);
             setErrorMessage(null);
+            setExportWarning(null);
             setExportType('wav');
         }
     }, [isOpen]);
 
+    // Every unmuted track is selected for stems each time the modal opens
+    // and the metadata draft starts from what the project stores
+    useEffect(() => {
+        if (isOpen) {
+            setStemTrackIds(stemTracks.filter((track) => !track.muted).map((track) => track.id));
+            setMetadataDraft(project?.exportMetadata ?? {});
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
+
     const handleExportWav = useCallback(async () => {
-        if (!project) return;
+        const exportProject = commitMetadata();
+        if (!exportProject || !exportRange) return;
 
         setExportState('exporting');
         setExportType('wav');
         setProgress(0);
         setErrorMessage(null);
+        setExportWarning(null);
 
         try {
-            await downloadProjectAsWav(project, (p) => {
+            await downloadProjectAsWav(exportProject, (p) => {
                 setProgress(p);
-            });
+            }, { ...wavOptions, range: exportRange, normalize, onNormalize: handleNormalized });
             setExportState('complete');
         } catch (error) {
             console.error('[ExportModal] WAV export failed:', error);
             setErrorMessage(error instanceof Error ? error.message : 'Export failed');
             setExportState('error');
         }
-    }, [project]);
+    }, [commitMetadata, exportRange, wavOptions, normalize, handleNormalized]);
 
-    const handleExportMp3 = useCallback(async () => {
-        if (!project) return;
+    const handleEncoderChange = useCallback((id: string) => {
+        setEncoderId(id);
+        setEncoderQuality(encoders.find((e) => e.id === id)?.defaultQuality ?? 0);
+    }, [encoders]);
+
+    const handleExportEncoded = useCallback(async () => {
+        const exportProject = commitMetadata();
+        if (!exportProject || !exportRange || !encoder) return;
 
         setExportState('exporting');
-        setExportType('mp3');
+        setExportType('encoded');
         setProgress(0);
         setErrorMessage(null);
+        setExportWarning(null);
 
         try {
-            await downloadProjectAsMp3(project, mp3Quality, (p) => {
+            await downloadProjectEncoded(exportProject, encoder.id, encoderQuality, (p) => {
+                setProgress(p);
+            }, { range: exportRange, normalize, dither: wavDither, onNormalize: handleNormalized });
+            setExportState('complete');
+        } catch (error) {
+            console.error(`[ExportModal] ${encoder.label} export failed:`, error);
+            setErrorMessage(error instanceof Error ? error.message : 'Export failed');
+            setExportState('error');
+        }
+    }, [commitMetadata, encoder, encoderQuality, exportRange, normalize, wavDither, handleNormalized]);
+
+    const handleExportStems = useCallback(async () => {
+        if (!project || !exportRange) return;
+
+        setExportState('exporting');
+        setExportType('stems');
+        setProgress(0);
+        setErrorMessage(null);
+        setExportWarning(null);
+
+        try {
+            await downloadProjectStems(project, {
+                ...wavOptions,
+                range: exportRange,
+                trackIds: stemTrackIds,
+                dry: stemsDry,
+                includeMaster: stemsIncludeMaster,
+            }, (p) => {
                 setProgress(p);
             });
             setExportState('complete');
         } catch (error) {
-            console.error('[ExportModal] MP3 export failed:', error);
+            console.error('[ExportModal] Stem export failed:', error);
             setErrorMessage(error instanceof Error ? error.message : 'Export failed');
             setExportState('error');
         }
-    }, [project, mp3Quality]);
+    }, [project, exportRange, wavOptions, stemTrackIds, stemsDry, stemsIncludeMaster]);
+
+    const toggleStemTrack = useCallback((trackId: string) => {
+        setStemTrackIds((ids) => ids.includes(trackId)
+            ? ids.filter((id) => id !== trackId)
+            : [...ids, trackId]);
+    }, []);
 
     const handleExportMidi = useCallback(() => {
         if (!project) return;
@@ -139,7 +301,7 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
 
     return (
         <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
-            <DialogContent className="sm:max-w-md">
+            <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                     <DialogTitle className="flex items-center gap-2">
                         <Download className="h-5 w-5" />
@@ -154,49 +316,288 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
                     {/* Idle State */}
                     {exportState === 'idle' && (
                         <div className="space-y-3">
+                            {/* Audio Render Settings */}
+                            <div className="rounded-lg border border-border p-4 space-y-3">
+                                <div className="flex items-center gap-3">
+                                    <span className="w-20 text-sm text-muted-foreground">Range</span>
+                                    <Select value={rangeMode} onValueChange={(v) => setRangeMode(v as ExportRangeMode)}>
+                                        <SelectTrigger className="flex-1 h-8 text-sm">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="song">Whole song</SelectItem>
+                                            <SelectItem value="loop">
+                                                Loop region (bars {formatBar(loopStartBar)}–{formatBar(loopEndBar)})
+                                            </SelectItem>
+                                            <SelectItem value="selection" disabled={selectedClipIds.length === 0}>
+                                                Selected clips ({selectedClipIds.length})
+                                            </SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    <span className="w-20 text-sm text-muted-foreground">Normalize</span>
+                                    <Select value={normalizeMode} onValueChange={(v) => handleNormalizeModeChange(v as NormalizeMode)}>
+                                        <SelectTrigger className="flex-1 h-8 text-sm">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {Object.entries(NORMALIZE_PRESETS).map(([mode, preset]) => (
+                                                <SelectItem key={mode} value={mode}>
+                                                    {preset.label}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    {normalizeMode !== 'none' && (
+                                        <div className="flex items-center gap-1.5">
+                                            <Input
+                                                type="number"
+                                                step={0.5}
+                                                max={0}
+                                                value={normalizeTarget}
+                                                onChange={(e) => setNormalizeTarget(Number(e.target.value))}
+                                                className="w-20 h-8 text-sm"
+                                            />
+                                            <span className="text-xs text-muted-foreground">
+                                                {normalizeMode === 'peak' ? 'dBFS' : 'LUFS'}
+                                            </span>
+                                        </div>
+                                    )}
+                                </div>
+                                {!exportRange && (
+                                    <p className="text-xs text-destructive">Nothing to export in this range</p>
+                                )}
+                            </div>
+
+                            {/* Metadata */}
+                            {metadataDefaults && (
+                                <div className="rounded-lg border border-border">
+                                    <button
+                                        onClick={() => setShowMetadata((show) => !show)}
+                                        className="w-full flex items-center gap-2 p-4 text-left"
+                                    >
+                                        <Tags className="h-4 w-4 text-muted-foreground" />
+                                        <span className="flex-1 text-sm font-medium">Metadata</span>
+                                        <span className="text-xs text-muted-foreground">Written to WAV and MP3</span>
+                                        {showMetadata
+                                            ? <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                                            : <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                                    </button>
+                                    {showMetadata && (
+                                        <div className="px-4 pb-4 space-y-3">
+                                            <div className="grid grid-cols-2 gap-2">
+                                                {METADATA_FIELDS.map(({ field, label, wide }) => (
+                                                    <label key={field} className={wide ? 'col-span-2 space-y-1' : 'space-y-1'}>
+                                                        <span className="text-xs text-muted-foreground">{label}</span>
+                                                        <Input
+                                                            value={metadataDraft[field] ?? metadataDefaults[field]}
+                                                            onChange={(e) => setMetadataDraft((draft) => ({ ...draft, [field]: e.target.value }))}
+                                                            onBlur={commitMetadata}
+                                                            className="h-8 text-sm"
+                                                        />
+                                                    </label>
+                                                ))}
+                                            </div>
+                                            <div className="flex items-center gap-3">
+                                                {exportCover ? (
+                                                    <div className="relative">
+                                                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                                                        <img
+                                                            src={exportCover}
+                                                            alt="Cover"
+                                                            className="h-14 w-14 rounded object-cover"
+                                                        />
+                                                        <button
+                                                            onClick={() => setExportCover(null)}
+                                                            className="absolute -top-1.5 -right-1.5 rounded-full bg-background border border-border p-0.5"
+                                                            title="Remove cover"
+                                                        >
+                                                            <X className="h-3 w-3" />
+                                                        </button>
+                                                    </div>
+                                                ) : (
+                                                    <div className="h-14 w-14 rounded border border-dashed border-border flex items-center justify-center">
+                                                        <ImagePlus className="h-5 w-5 text-muted-foreground" />
+                                                    </div>
+                                                )}
+                                                <label className="text-sm text-accent cursor-pointer hover:underline">
+                                                    {exportCover ? 'Change cover' : 'Add cover image'}
+                                                    <input type="file" accept="image/*" onChange={handleCoverChange} className="hidden" />
+                                                </label>
+                                                <Button variant="ghost" size="sm" onClick={resetMetadata} className="ml-auto">
+                                                    Reset
+                                                </Button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
                             {/* WAV Export */}
-                            <button
-                                onClick={handleExportWav}
-                                className="w-full flex items-center gap-4 p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors text-left"
-                            >
-                                <div className="flex-shrink-0 w-10 h-10 rounded-full bg-green-500/10 flex items-center justify-center">
-                                    <FileAudio className="h-5 w-5 text-green-500" />
+                            <div className="rounded-lg border border-border p-4 space-y-3">
+                                <div className="flex items-center gap-4">
+                                    <div className="flex-shrink-0 w-10 h-10 rounded-full bg-green-500/10 flex items-center justify-center">
+                                        <FileAudio className="h-5 w-5 text-green-500" />
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-medium">WAV Audio</div>
+                                        <div className="text-sm text-muted-foreground">
+                                            {WAV_BIT_DEPTH_PRESETS[wavBitDepth].label}, {formatSampleRate(wavSampleRate)} stereo
+                                        </div>
+                                    </div>
                                 </div>
-                                <div className="flex-1 min-w-0">
-                                    <div className="font-medium">WAV Audio</div>
-                                    <div className="text-sm text-muted-foreground">High-quality 16-bit PCM, 44.1 kHz stereo</div>
+                                <div className="pl-14 space-y-3">
+                                    <div className="flex items-center gap-3">
+                                        <Select
+                                            value={wavBitDepth.toString()}
+                                            onValueChange={(v) => setWavBitDepth(parseInt(v) as WavBitDepth)}
+                                        >
+                                            <SelectTrigger className="w-[130px] h-8 text-sm">
+                                                <SelectValue placeholder="Bit depth" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {Object.entries(WAV_BIT_DEPTH_PRESETS).map(([bits, preset]) => (
+                                                    <SelectItem key={bits} value={bits}>
+                                                        {preset.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <Select
+                                            value={wavSampleRate.toString()}
+                                            onValueChange={(v) => setWavSampleRate(parseInt(v))}
+                                        >
+                                            <SelectTrigger className="w-[110px] h-8 text-sm">
+                                                <SelectValue placeholder="Sample rate" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {EXPORT_SAMPLE_RATES.map((rate) => (
+                                                    <SelectItem key={rate} value={rate.toString()}>
+                                                        {formatSampleRate(rate)}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-3">
+                                        <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={wavDither && wavBitDepth !== 32}
+                                                disabled={wavBitDepth === 32}
+                                                onChange={(e) => setWavDither(e.target.checked)}
+                                                className="h-3.5 w-3.5 accent-accent"
+                                            />
+                                            Dither (TPDF)
+                                        </label>
+                                        <Button size="sm" onClick={handleExportWav} disabled={!exportRange}>
+                                            Export WAV
+                                        </Button>
+                                    </div>
                                 </div>
-                            </button>
+                            </div>
 
-                            {/* MP3 Export */}
+                            {/* Compressed Export */}
+                            {encoder && (
+                                <div className="rounded-lg border border-border p-4 space-y-3">
+                                    <div className="flex items-center gap-4">
+                                        <div className="flex-shrink-0 w-10 h-10 rounded-full bg-orange-500/10 flex items-center justify-center">
+                                            <FileAudio className="h-5 w-5 text-orange-500" />
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-medium">{encoder.label} Audio</div>
+                                            <div className="text-sm text-muted-foreground">{encoder.description}</div>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-3 pl-14">
+                                        <Select value={encoder.id} onValueChange={handleEncoderChange}>
+                                            <SelectTrigger className="w-[110px] h-8 text-sm">
+                                                <SelectValue placeholder="Format" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {encoders.map((e) => (
+                                                    <SelectItem key={e.id} value={e.id}>
+                                                        {e.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <Select
+                                            value={encoderQuality.toString()}
+                                            onValueChange={(v) => setEncoderQuality(parseInt(v))}
+                                        >
+                                            <SelectTrigger className="flex-1 h-8 text-sm">
+                                                <SelectValue placeholder="Quality" />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {encoder.qualities.map((quality) => (
+                                                    <SelectItem key={quality.value} value={quality.value.toString()}>
+                                                        {quality.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <Button size="sm" onClick={handleExportEncoded} disabled={!exportRange}>
+                                            Export
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {/* Stems Export */}
                             <div className="rounded-lg border border-border p-4 space-y-3">
                                 <div className="flex items-center gap-4">
-                                    <div className="flex-shrink-0 w-10 h-10 rounded-full bg-orange-500/10 flex items-center justify-center">
-                                        <FileAudio className="h-5 w-5 text-orange-500" />
+                                    <div className="flex-shrink-0 w-10 h-10 rounded-full bg-cyan-500/10 flex items-center justify-center">
+                                        <Layers className="h-5 w-5 text-cyan-500" />
                                     </div>
                                     <div className="flex-1 min-w-0">
-                                        <div className="font-medium">MP3 Audio</div>
-                                        <div className="text-sm text-muted-foreground">Compressed, smaller file size</div>
+                                        <div className="font-medium">Stems (ZIP)</div>
+                                        <div className="text-sm text-muted-foreground">One WAV per track in the format above, aligned to the range start</div>
                                     </div>
                                 </div>
-                                <div className="flex items-center gap-3 pl-14">
-                                    <Select
-                                        value={mp3Quality.toString()}
-                                        onValueChange={(v) => setMp3Quality(parseInt(v) as Mp3Quality)}
-                                    >
-                                        <SelectTrigger className="w-[180px] h-8 text-sm">
-                                            <SelectValue placeholder="Quality" />
-                                        </SelectTrigger>
-                                        <SelectContent>
-                                            {Object.entries(MP3_QUALITY_PRESETS).map(([kbps, preset]) => (
-                                                <SelectItem key={kbps} value={kbps}>
-                                                    {preset.label}
-                                                </SelectItem>
-                                            ))}
-                                        </SelectContent>
-                                    </Select>
-                                    <Button size="sm" onClick={handleExportMp3}>
-                                        Export MP3
+                                <div className="pl-14 space-y-3">
+                                    <div className="max-h-32 overflow-y-auto space-y-1">
+                                        {stemTracks.map((track) => (
+                                            <label key={track.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={stemTrackIds.includes(track.id)}
+                                                    onChange={() => toggleStemTrack(track.id)}
+                                                    className="h-3.5 w-3.5 accent-accent"
+                                                />
+                                                <span className="truncate">{track.name}</span>
+                                                {track.muted && (
+                                                    <span className="text-xs text-muted-foreground">(muted)</span>
+                                                )}
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <Select
+                                            value={stemsDry ? 'dry' : 'wet'}
+                                            onValueChange={(v) => setStemsDry(v === 'dry')}
+                                        >
+                                            <SelectTrigger className="w-[180px] h-8 text-sm">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectItem value="wet">Wet (with effects)</SelectItem>
+                                                <SelectItem value="dry">Dry (no effects)</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <label className="flex items-center gap-2 text-sm cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={stemsIncludeMaster}
+                                                onChange={(e) => setStemsIncludeMaster(e.target.checked)}
+                                                className="h-3.5 w-3.5 accent-accent"
+                                            />
+                                            Master chain
+                                        </label>
+                                    </div>
+                                    <Button size="sm" onClick={handleExportStems} disabled={!exportRange || stemTrackIds.length === 0}>
+                                        Export {stemTrackIds.length} {stemTrackIds.length === 1 ? 'Stem' : 'Stems'}
                                     </Button>
                                 </div>
                             </div>
@@ -237,17 +638,19 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
                         </div>
                     )}
 
-                    {/* Exporting State (WAV/MP3) */}
-                    {exportState === 'exporting' && (exportType === 'wav' || exportType === 'mp3') && (
+                    {/* Exporting State (WAV/Compressed/Stems) */}
+                    {exportState === 'exporting' && (exportType === 'wav' || exportType === 'encoded' || exportType === 'stems') && (
                         <div className="space-y-4">
                             <div className="flex items-center gap-3">
                                 <Loader2 className="h-5 w-5 animate-spin text-accent" />
                                 <span className="text-sm">
-                                    {exportType === 'mp3' && progress < 50
+                                    {exportType === 'encoded' && progress < 50
                                         ? 'Rendering audio...'
-                                        : exportType === 'mp3' && progress >= 50
-                                            ? 'Encoding MP3...'
-                                            : 'Rendering audio...'}
+                                        : exportType === 'encoded' && progress >= 50
+                                            ? `Encoding ${encoder?.label}...`
+                                            : exportType === 'stems'
+                                                ? 'Rendering stems...'
+                                                : 'Rendering audio...'}
                                 </span>
                             </div>
 
@@ -259,7 +662,7 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
                             </div>
 
                             <p className="text-xs text-muted-foreground">
-                                Please wait while your project is being {exportType === 'mp3' ? 'rendered and encoded' : 'rendered'}. This may take a moment.
+                                Please wait while your project is being {exportType === 'encoded' ? 'rendered and encoded' : 'rendered'}. This may take a moment.
                             </p>
                         </div>
                     )}
@@ -276,6 +679,16 @@ export function ExportModal({ isOpen, onClose }: ExportModalProps) {
                                 Your project has been exported and the download should start automatically.
                             </p>
 
+                            {exportWarning && (
+                                <div className="rounded-lg border border-yellow-500/30 bg-yellow-500/5 p-3">
+                                    <div className="flex items-center gap-2 text-yellow-600 mb-1">
+                                        <FileWarning className="h-4 w-4" />
+                                        <span className="text-sm font-medium">Loudness target not met</span>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">{exportWarning}</p>
+                                </div>
+                            )}
+
                             <div className="flex justify-end">
                                 <Button onClick={handleClose}>
                                     Done
@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import {
     ChevronLeft,
     Sliders,
@@ -7,8 +8,18 @@ import {
     Clock,
     Hash,
     Sparkles,
-    Trash2
+    Trash2,
+    Power,
+    Gauge,
+    Send,
+    Plus,
+    TrendingUp,
+    Pencil,
+    AudioWaveform,
+    Snowflake,
+    VolumeX
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { useProjectStore, useUIStore } from '@/lib/store';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,13 +28,177 @@ import { Slider } from '@/components/ui/slider';
 import {
     Select,
     SelectContent,
+    SelectGroup,
     SelectItem,
+    SelectLabel,
+    SelectSeparator,
     SelectTrigger,
     SelectValue,
 } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { SCALES, NOTES } from '@/lib/utils';
-import type { MusicalKey, MusicalScale, TrackType, TrackColor } from '@/types';
+import { getMasterBus } from '@/lib/audio/master-bus';
+import { SIDECHAIN_PATTERNS } from '@/lib/audio/sidechain';
+import { DELAY_DIVISIONS } from '@/lib/audio/effect-slots';
+import { PARAMETRIC_EQ_DEFAULT_FREQUENCIES, PARAMETRIC_EQ_MAX_BANDS, PARAMETRIC_EQ_MIN_BANDS } from '@/lib/audio/parametric-eq';
+import { getAudioTake } from '@/lib/audio/recording-manager';
+import { bounceClips, bounceTrack, freezeTrack, unfreezeTrack, type BounceMode } from '@/lib/audio/bounce';
+import { isTrackFrozen } from '@/lib/audio/freeze';
+import { getTempoMap } from '@/lib/audio/tempo-map';
+import { getWarpedLengthBars, WARP_MODES, MIN_PITCH_SHIFT, MAX_PITCH_SHIFT } from '@/lib/audio/time-stretch';
+import { SYNTH_PRESETS } from '@/lib/audio/synth-presets';
+import { samplerPresets, toSamplerInstrumentId, parseSamplerInstrumentId } from '@/lib/audio/user-sampler';
+import { userSynthPresets, toUserSynthInstrumentId } from '@/lib/audio/user-synth-presets';
+import { MidiLearnable } from './MidiLearnable';
+import { SynthEditorModal } from './SynthEditorModal';
+import type { Clip, MusicalKey, MusicalScale, Project, SamplerPreset, UserSynthPreset, Track, TrackType, TrackColor, TrackEffect, TrackEffectType, WarpMode } from '@/types';
+
+type ClipMacroKey = 'transpose' | 'humanize' | 'energy' | 'groove' | 'brightness' | 'space';
+
+const CLIP_MACROS: { key: ClipMacroKey; label: string; min: number; max: number; defaultValue: number }[] = [
+    { key: 'transpose', label: 'Transpose', min: -24, max: 24, defaultValue: 0 },
+    { key: 'humanize', label: 'Humanize', min: 0, max: 100, defaultValue: 0 },
+    { key: 'energy', label: 'Energy', min: 0, max: 100, defaultValue: 50 },
+    { key: 'groove', label: 'Groove', min: 0, max: 100, defaultValue: 50 },
+    { key: 'brightness', label: 'Brightness', min: 0, max: 100, defaultValue: 50 },
+    { key: 'space', label: 'Space', min: 0, max: 100, defaultValue: 50 },
+];
+
+const MASTER_EFFECT_LABELS: Partial<Record<TrackEffectType, string>> = {
+    eq: 'EQ',
+    compression: 'Glue Compressor',
+    widener: 'Stereo Width',
+    limiter: 'Limiter',
+};
+
+interface EffectControl {
+    param: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+    defaultValue: number;
+    log?: boolean;  // Slider moves logarithmically (frequencies)
+}
+
+const MASTER_EFFECT_CONTROLS: Partial<Record<TrackEffectType, EffectControl[]>> = {
+    eq: [
+        { param: 'low', label: 'Low', min: -12, max: 12, step: 0.5, unit: 'dB', defaultValue: 0 },
+        { param: 'mid', label: 'Mid', min: -12, max: 12, step: 0.5, unit: 'dB', defaultValue: 0 },
+        { param: 'high', label: 'High', min: -12, max: 12, step: 0.5, unit: 'dB', defaultValue: 0 },
+    ],
+    compression: [
+        { param: 'threshold', label: 'Threshold', min: -40, max: 0, step: 1, unit: 'dB', defaultValue: -18 },
+        { param: 'ratio', label: 'Ratio', min: 1, max: 10, step: 0.5, unit: ':1', defaultValue: 2 },
+    ],
+    widener: [
+        { param: 'width', label: 'Width', min: 0, max: 1, step: 0.01, unit: '', defaultValue: 0.5 },
+    ],
+    limiter: [
+        { param: 'ceiling', label: 'Ceiling', min: -12, max: 0, step: 0.1, unit: 'dB', defaultValue: -1 },
+    ],
+};
+
+const TRACK_EFFECT_LABELS: Record<TrackEffectType, string> = {
+    reverb: 'Reverb',
+    delay: 'Delay',
+    distortion: 'Distortion',
+    filter: 'Filter',
+    compression: 'Compressor',
+    eq: 'EQ Three',
+    limiter: 'Limiter',
+    widener: 'Stereo Widener',
+    'parametric-eq': 'Parametric EQ',
+    chorus: 'Chorus',
+    phaser: 'Phaser',
+    tremolo: 'Tremolo',
+    autopan: 'Auto Pan',
+    bitcrusher: 'Bitcrusher',
+    gate: 'Noise Gate',
+    pingpong: 'Ping Pong Delay',
+};
+
+// Effects with no wet/dry mix of their own
+const EFFECTS_WITHOUT_MIX: TrackEffectType[] = ['eq', 'parametric-eq', 'limiter', 'widener', 'gate'];
+
+// Sliders for effects past the original five (which have hand-built controls above)
+const TRACK_EFFECT_CONTROLS: Partial<Record<TrackEffectType, EffectControl[]>> = {
+    eq: MASTER_EFFECT_CONTROLS.eq,
+    limiter: MASTER_EFFECT_CONTROLS.limiter,
+    widener: MASTER_EFFECT_CONTROLS.widener,
+    chorus: [
+        { param: 'frequency', label: 'Rate', min: 0.1, max: 10, step: 0.1, unit: 'Hz', defaultValue: 1.5 },
+        { param: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, unit: '%', defaultValue: 0.7 },
+        { param: 'delayTime', label: 'Delay', min: 1, max: 20, step: 0.5, unit: 'ms', defaultValue: 3.5 },
+        { param: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, unit: '%', defaultValue: 0 },
+    ],
+    phaser: [
+        { param: 'frequency', label: 'Rate', min: 0.1, max: 10, step: 0.1, unit: 'Hz', defaultValue: 0.5 },
+        { param: 'octaves', label: 'Octaves', min: 1, max: 6, step: 0.5, unit: 'oct', defaultValue: 3 },
+        { param: 'baseFrequency', label: 'Base', min: 100, max: 2000, step: 1, unit: 'Hz', defaultValue: 350, log: true },
+        { param: 'Q', label: 'Resonance', min: 0.5, max: 20, step: 0.5, unit: '', defaultValue: 10 },
+    ],
+    tremolo: [
+        { param: 'frequency', label: 'Rate', min: 0.5, max: 20, step: 0.1, unit: 'Hz', defaultValue: 5 },
+        { param: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, unit: '%', defaultValue: 0.6 },
+        { param: 'spread', label: 'Stereo Spread', min: 0, max: 180, step: 1, unit: '°', defaultValue: 0 },
+    ],
+    autopan: [
+        { param: 'frequency', label: 'Rate', min: 0.1, max: 10, step: 0.1, unit: 'Hz', defaultValue: 1 },
+        { param: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, unit: '%', defaultValue: 1 },
+    ],
+    bitcrusher: [
+        { param: 'bits', label: 'Bits', min: 1, max: 16, step: 1, unit: 'bits', defaultValue: 4 },
+    ],
+    gate: [
+        { param: 'threshold', label: 'Threshold', min: -80, max: 0, step: 1, unit: 'dB', defaultValue: -40 },
+        { param: 'smoothing', label: 'Smoothing', min: 0.01, max: 0.5, step: 0.01, unit: 's', defaultValue: 0.1 },
+    ],
+    pingpong: [
+        { param: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, unit: '%', defaultValue: 0.4 },
+    ],
+};
+
+// Sentinel for an unsynced delay time
+const FREE_DELAY_TIME = 'free';
+
+function getParametricEQControls(bandCount: number): EffectControl[] {
+    return PARAMETRIC_EQ_DEFAULT_FREQUENCIES.slice(0, bandCount).flatMap((frequency, index) => {
+        const band = index + 1;
+        return [
+            { param: `band${band}Frequency`, label: `Band ${band} Freq`, min: 20, max: 20000, step: 1, unit: 'Hz', defaultValue: frequency, log: true },
+            { param: `band${band}Gain`, label: `Band ${band} Gain`, min: -18, max: 18, step: 0.5, unit: 'dB', defaultValue: 0 },
+            { param: `band${band}Q`, label: `Band ${band} Q`, min: 0.1, max: 10, step: 0.1, unit: '', defaultValue: 1 },
+        ];
+    });
+}
+
+function formatEffectValue(value: number, control: EffectControl): string {
+    switch (control.unit) {
+        case '%':
+            return `${Math.round(value * 100)}%`;
+        case 'Hz':
+            return value >= 1000 ? `${(value / 1000).toFixed(1)} kHz` : `${Number(value.toFixed(1))} Hz`;
+        case ':1':
+        case '°':
+            return `${Number(value.toFixed(1))}${control.unit}`;
+        default:
+            return `${Number(value.toFixed(2))}${control.unit ? ` ${control.unit}` : ''}`;
+    }
+}
+
+// Encode a compressor's sidechain params as a single select value
+function getSidechainValue(params: TrackEffect['params']): string {
+    if (params.sidechainSource === 'track' && params.sidechainTrackId) return `track:${params.sidechainTrackId}`;
+    if (params.sidechainSource === 'trigger') return `trigger:${params.sidechainPattern ?? SIDECHAIN_PATTERNS[0].id}`;
+    return 'none';
+}
+
+const TEMPO_METER_OPTIONS = ['4/4', '3/4', '6/8', '2/4', '5/4', '7/8', '9/8', '12/8'];
+
+// New tempo changes go this many bars after the last one
+const TEMPO_CHANGE_SPACING = 4;
 
 const TRACK_COLOR_OPTIONS: { value: TrackColor; label: string }[] = [
     { value: 'drums', label: 'Drums' },
@@ -38,20 +213,48 @@ const TRACK_TYPE_OPTIONS: { value: TrackType; label: string }[] = [
     { value: 'audio', label: 'Audio' },
     { value: 'midi', label: 'MIDI' },
     { value: 'drum', label: 'Drum' },
+    { value: 'bus', label: 'Bus' },
 ];
 
+type ClipWarpChanges = Partial<Pick<Clip, 'warpMode' | 'sourceBpm' | 'pitchShift'>>;
+
+// Apply warp settings, refitting the clip so its audio still fills it
+function updateClipWarp(project: Project, clip: Clip, changes: ClipWarpChanges) {
+    const updates: Partial<Clip> = { ...changes };
+    const take = clip.activeTakeId ? getAudioTake(clip.activeTakeId) : undefined;
+
+    if (take) {
+        updates.lengthBars = getWarpedLengthBars({ ...clip, ...changes }, take.duration, getTempoMap(project));
+    }
+
+    useProjectStore.getState().updateClip(clip.id, updates);
+}
+
 export function Inspector() {
     const project = useProjectStore((s) => s.project);
     const setKey = useProjectStore((s) => s.setKey);
     const setScale = useProjectStore((s) => s.setScale);
     const removeTrackEffect = useProjectStore((s) => s.removeTrackEffect);
     const updateTrackEffect = useProjectStore((s) => s.updateTrackEffect);
+    const updateMasterBus = useProjectStore((s) => s.updateMasterBus);
+    const updateMasterEffect = useProjectStore((s) => s.updateMasterEffect);
+    const addTrackSend = useProjectStore((s) => s.addTrackSend);
+    const updateTrackSend = useProjectStore((s) => s.updateTrackSend);
+    const removeTrackSend = useProjectStore((s) => s.removeTrackSend);
+    const addTempoChange = useProjectStore((s) => s.addTempoChange);
+    const updateTempoChange = useProjectStore((s) => s.updateTempoChange);
+    const removeTempoChange = useProjectStore((s) => s.removeTempoChange);
     const selectedTrackId = useUIStore((s) => s.selectedTrackId);
     const selectedClipId = useUIStore((s) => s.selectedClipId);
+    const selectedClipIds = useUIStore((s) => s.selectedClipIds);
     const toggleInspector = useUIStore((s) => s.toggleInspector);
 
     const selectedTrack = project?.tracks.find((t) => t.id === selectedTrackId);
     const selectedClip = project?.clips.find((c) => c.id === selectedClipId);
+    const master = project ? getMasterBus(project) : null;
+    const buses = project?.tracks.filter((t) => t.type === 'bus') ?? [];
+    const unusedBuses = buses.filter((bus) => !selectedTrack?.sends?.some((send) => send.busId === bus.id));
+    const tempoChanges = project?.tempoMap ?? [];
 
     return (
         <aside className="flex w-inspector flex-col border-l border-border bg-card">
@@ -117,8 +320,169 @@ export function Inspector() {
                             {project?.timeSignature[0]}/{project?.timeSignature[1]}
                         </div>
                     </div>
+
+                    {/* Tempo map: tempo and meter changes after bar 1 */}
+                    <div className="space-y-1.5">
+                        <Label className="text-xs text-muted-foreground">Tempo Map</Label>
+                        <div className="space-y-2">
+                            {tempoChanges.map((change) => (
+                                <div key={change.id} className="rounded-md bg-background border border-border p-2 space-y-1.5">
+                                    <div className="flex items-center gap-1">
+                                        <span className="text-[10px] text-muted-foreground">Bar</span>
+                                        <Input
+                                            type="number"
+                                            min={2}
+                                            value={change.bar + 1}
+                                            onChange={(e) => {
+                                                const bar = parseInt(e.target.value, 10);
+                                                if (!isNaN(bar)) updateTempoChange(change.id, { bar: bar - 1 });
+                                            }}
+                                            className="h-6 w-14 px-1.5 text-xs font-mono"
+                                        />
+                                        <div className="flex-1" />
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className={`h-6 w-6 ${change.ramp ? 'text-accent' : 'text-muted-foreground'}`}
+                                            onClick={() => updateTempoChange(change.id, { ramp: !change.ramp })}
+                                            title={change.ramp ? 'Ramp: tempo glides from the previous change' : 'Jump: tempo changes at this bar'}
+                                        >
+                                            <TrendingUp className="h-3 w-3" />
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-6 w-6 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                                            onClick={() => removeTempoChange(change.id)}
+                                        >
+                                            <Trash2 className="h-3 w-3" />
+                                        </Button>
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                        <Input
+                                            type="number"
+                                            min={20}
+                                            max={300}
+                                            value={change.bpm}
+                                            onChange={(e) => {
+                                                const bpm = parseFloat(e.target.value);
+                                                if (!isNaN(bpm)) updateTempoChange(change.id, { bpm });
+                                            }}
+                                            className="h-6 w-16 px-1.5 text-xs font-mono"
+                                        />
+                                        <span className="text-[10px] text-muted-foreground">BPM</span>
+                                        <div className="flex-1" />
+                                        <Select
+                                            value={change.timeSignature.join('/')}
+                                            onValueChange={(value) => {
+                                                const [num, denom] = value.split('/').map(Number);
+                                                updateTempoChange(change.id, { timeSignature: [num, denom] });
+                                            }}
+                                        >
+                                            <SelectTrigger className="h-6 w-16 text-xs font-mono">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {[...new Set([...TEMPO_METER_OPTIONS, change.timeSignature.join('/')])].map((ts) => (
+                                                    <SelectItem key={ts} value={ts}>
+                                                        {ts}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                </div>
+                            ))}
+
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="h-8 w-full text-xs text-muted-foreground"
+                                onClick={() => {
+                                    const lastBar = tempoChanges[tempoChanges.length - 1]?.bar ?? 0;
+                                    addTempoChange(lastBar + TEMPO_CHANGE_SPACING);
+                                }}
+                            >
+                                <Plus className="h-3 w-3 mr-1.5" />
+                                Add tempo change
+                            </Button>
+                        </div>
+                    </div>
                 </Section>
 
+                {/* Master bus section */}
+                {master && (
+                    <Section title="Master" icon={<Gauge className="h-4 w-4" />}>
+                        <div className="space-y-1.5">
+                            <div className="flex items-center justify-between">
+                                <Label className="text-xs text-muted-foreground">Volume</Label>
+                                <span className="text-[10px] font-mono">{Math.round(master.volume * 100)}%</span>
+                            </div>
+                            <Slider
+                                value={[master.volume * 100]}
+                                min={0}
+                                max={100}
+                                step={1}
+                                onValueChange={([v]) => updateMasterBus({ volume: v / 100 })}
+                                className="py-1"
+                            />
+                        </div>
+
+                        <div className="space-y-2">
+                            {master.effects.map((effect) => (
+                                <div
+                                    key={effect.id}
+                                    className="rounded-md bg-background border border-border overflow-hidden"
+                                >
+                                    <div className="flex items-center justify-between px-2 py-1 bg-muted/30 border-b border-border/50">
+                                        <span className={`text-xs font-medium ${effect.active ? '' : 'text-muted-foreground'}`}>
+                                            {MASTER_EFFECT_LABELS[effect.type] ?? effect.type}
+                                        </span>
+                                        <Button
+                                            variant="ghost"
+                                            size="icon"
+                                            className={`h-6 w-6 ${effect.active ? 'text-accent' : 'text-muted-foreground'}`}
+                                            onClick={() => updateMasterEffect(effect.id, { active: !effect.active })}
+                                            title={effect.active ? 'Bypass' : 'Enable'}
+                                        >
+                                            <Power className="h-3 w-3" />
+                                        </Button>
+                                    </div>
+
+                                    {effect.active && (
+                                        <div className="p-3 space-y-3">
+                                            {(MASTER_EFFECT_CONTROLS[effect.type] || []).map((control) => {
+                                                const value = effect.params[control.param] ?? control.defaultValue;
+                                                return (
+                                                    <div key={control.param} className="space-y-1.5">
+                                                        <div className="flex items-center justify-between">
+                                                            <Label className="text-[10px] text-muted-foreground">{control.label}</Label>
+                                                            <span className="text-[10px] font-mono">
+                                                                {control.unit ? `${value.toFixed(1)}${control.unit === ':1' ? '' : ' '}${control.unit}` : `${Math.round(value * 100)}%`}
+                                                            </span>
+                                                        </div>
+                                                        <Slider
+                                                            value={[value]}
+                                                            min={control.min}
+                                                            max={control.max}
+                                                            step={control.step}
+                                                            onValueChange={([v]) => {
+                                                                const newParams = { ...effect.params, [control.param]: v };
+                                                                updateMasterEffect(effect.id, { params: newParams });
+                                                            }}
+                                                            className="py-1"
+                                                        />
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </Section>
+                )}
+
                 {/* Selected track section */}
                 {selectedTrack && (
                     <Section title="Track" icon={<Music className="h-4 w-4" />}>
@@ -139,6 +503,7 @@ export function Inspector() {
                             <Label className="text-xs text-muted-foreground">Type</Label>
                             <Select
                                 value={selectedTrack.type}
+                                disabled={selectedTrack.type === 'bus'}
                                 onValueChange={(value) => {
                                     useProjectStore.getState().updateTrack(selectedTrack.id, {
                                         type: value as TrackType,
@@ -149,7 +514,8 @@ export function Inspector() {
                                     <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                    {TRACK_TYPE_OPTIONS.map((opt) => (
+                                    {/* Buses are created from the track list, not converted */}
+                                    {TRACK_TYPE_OPTIONS.filter((opt) => opt.value !== 'bus' || selectedTrack.type === 'bus').map((opt) => (
                                         <SelectItem key={opt.value} value={opt.value}>
                                             {opt.label}
                                         </SelectItem>
@@ -187,23 +553,47 @@ export function Inspector() {
                             </Select>
                         </div>
 
+                        {(selectedTrack.type === 'midi' || selectedTrack.type === 'drum') && (
+                            <div className="space-y-1.5">
+                                <Label className="text-xs text-muted-foreground">Instrument</Label>
+                                <InstrumentSelect
+                                    value={selectedTrack.instrumentPreset}
+                                    onChange={(instrumentPreset) => {
+                                        useProjectStore.getState().updateTrack(selectedTrack.id, { instrumentPreset });
+                                    }}
+                                />
+                            </div>
+                        )}
+
                         <div className="space-y-1.5">
                             <Label className="text-xs text-muted-foreground">
                                 Pan: {Math.round((selectedTrack.pan || 0) * 100)}%
                             </Label>
-                            <Slider
-                                value={[(selectedTrack.pan || 0) * 50 + 50]}
-                                min={0}
-                                max={100}
-                                step={1}
-                                onValueChange={([v]) => {
-                                    useProjectStore.getState().updateTrack(selectedTrack.id, {
-                                        pan: (v - 50) / 50,
-                                    });
-                                }}
-                                className="py-2"
-                            />
+                            <MidiLearnable target={{ kind: 'track', trackId: selectedTrack.id, target: 'pan' }}>
+                                <Slider
+                                    value={[(selectedTrack.pan || 0) * 50 + 50]}
+                                    min={0}
+                                    max={100}
+                                    step={1}
+                                    onValueChange={([v]) => {
+                                        useProjectStore.getState().updateTrack(selectedTrack.id, {
+                                            pan: (v - 50) / 50,
+                                        });
+                                    }}
+                                    className="py-2"
+                                />
+                            </MidiLearnable>
                         </div>
+
+                        {project && selectedTrack.type !== 'bus' && (
+                            <div className="space-y-1.5">
+                                <Label className="text-xs text-muted-foreground">Render</Label>
+                                <BounceControls
+                                    onBounce={(mode, onProgress) => bounceTrack(selectedTrack.id, mode, onProgress)}
+                                />
+                                <FreezeControls track={selectedTrack} project={project} />
+                            </div>
+                        )}
                     </Section>
                 )}
 
@@ -230,43 +620,58 @@ export function Inspector() {
                                                     </span>
                                                 </div>
                                                 <div className="min-w-0">
-                                                    <div className="text-xs font-medium truncate capitalize">
-                                                        {effect.type}
+                                                    <div className={`text-xs font-medium truncate ${effect.active ? '' : 'text-muted-foreground'}`}>
+                                                        {TRACK_EFFECT_LABELS[effect.type] ?? effect.type}
                                                     </div>
                                                 </div>
                                             </div>
-                                            <Button
-                                                variant="ghost"
-                                                size="icon"
-                                                className="h-6 w-6 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                                                onClick={() => removeTrackEffect(selectedTrack.id, effect.id)}
-                                            >
-                                                <Trash2 className="h-3 w-3" />
-                                            </Button>
+                                            <div className="flex items-center">
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className={`h-6 w-6 ${effect.active ? 'text-accent' : 'text-muted-foreground'}`}
+                                                    onClick={() => updateTrackEffect(selectedTrack.id, effect.id, { active: !effect.active })}
+                                                    title={effect.active ? 'Bypass' : 'Enable'}
+                                                >
+                                                    <Power className="h-3 w-3" />
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-6 w-6 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                                                    onClick={() => removeTrackEffect(selectedTrack.id, effect.id)}
+                                                >
+                                                    <Trash2 className="h-3 w-3" />
+                                                </Button>
+                                            </div>
                                         </div>
 
                                         {/* Effect Controls */}
                                         <div className="p-3 space-y-3">
                                             {/* Common Wet/Dry Control */}
-                                            <div className="space-y-1.5">
-                                                <div className="flex items-center justify-between">
-                                                    <Label className="text-[10px] text-muted-foreground">Mix (Wet)</Label>
-                                                    <span className="text-[10px] font-mono">
-                                                        {Math.round((effect.params.wet ?? 0.5) * 100)}%
-                                                    </span>
+                                            {!EFFECTS_WITHOUT_MIX.includes(effect.type) && (
+                                                <div className="space-y-1.5">
+                                                    <div className="flex items-center justify-between">
+                                                        <Label className="text-[10px] text-muted-foreground">Mix (Wet)</Label>
+                                                        <span className="text-[10px] font-mono">
+                                                            {Math.round((effect.params.wet ?? 0.5) * 100)}%
+                                                        </span>
+                                                    </div>
+                                                    <MidiLearnable target={{ kind: 'track', trackId: selectedTrack.id, target: `${effect.id}.wet` }}>
+                                                        <Slider
+                                                            value={[(effect.params.wet ?? 0.5) * 100]}
+                                                            min={0}
+                                                            max={100}
+                                                            step={1}
+                                                            onValueChange={([v]) => {
+                                                                const newParams = { ...effect.params, wet: v / 100 };
+                                                                updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
+                                                            }}
+                                                            className="py-1"
+                                                        />
+                                                    </MidiLearnable>
                                                 </div>
-                                                <Slider
-                                                    value={[(effect.params.wet ?? 0.5) * 100]}
-                                                    min={0}
-                                                    max={100}
-                                                    step={1}
-                                                    onValueChange={([v]) => {
-                                                        const newParams = { ...effect.params, wet: v / 100 };
-                                                        updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
-                                                    }}
-                                                    className="py-1"
-                                                />
-                                            </div>
+                                            )}
 
                                             {/* Specific Controls based on Type */}
                                             {effect.type === 'reverb' && (
@@ -275,17 +680,19 @@ export function Inspector() {
                                                         <Label className="text-[10px] text-muted-foreground">Decay</Label>
                                                         <span className="text-[10px] font-mono">{effect.params.decay ?? 1.5}s</span>
                                                     </div>
-                                                    <Slider
-                                                        value={[(effect.params.decay ?? 1.5) * 10]}
-                                                        min={1}
-                                                        max={100}
-                                                        step={1}
-                                                        onValueChange={([v]) => {
-                                                            const newParams = { ...effect.params, decay: v / 10 };
-                                                            updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
-                                                        }}
-                                                        className="py-1"
-                                                    />
+                                                    <MidiLearnable target={{ kind: 'track', trackId: selectedTrack.id, target: `${effect.id}.decay` }}>
+                                                        <Slider
+                                                            value={[(effect.params.decay ?? 1.5) * 10]}
+                                                            min={1}
+                                                            max={100}
+                                                            step={1}
+                                                            onValueChange={([v]) => {
+                                                                const newParams = { ...effect.params, decay: v / 10 };
+                                                                updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
+                                                            }}
+                                                            className="py-1"
+                                                        />
+                                                    </MidiLearnable>
                                                 </div>
                                             )}
 
@@ -295,17 +702,19 @@ export function Inspector() {
                                                         <Label className="text-[10px] text-muted-foreground">Feedback</Label>
                                                         <span className="text-[10px] font-mono">{Math.round((effect.params.feedback ?? 0.5) * 100)}%</span>
                                                     </div>
-                                                    <Slider
-                                                        value={[(effect.params.feedback ?? 0.5) * 100]}
-                                                        min={0}
-                                                        max={90}
-                                                        step={1}
-                                                        onValueChange={([v]) => {
-                                                            const newParams = { ...effect.params, feedback: v / 100 };
-                                                            updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
-                                                        }}
-                                                        className="py-1"
-                                                    />
+                                                    <MidiLearnable target={{ kind: 'track', trackId: selectedTrack.id, target: `${effect.id}.feedback` }}>
+                                                        <Slider
+                                                            value={[(effect.params.feedback ?? 0.5) * 100]}
+                                                            min={0}
+                                                            max={90}
+                                                            step={1}
+                                                            onValueChange={([v]) => {
+                                                                const newParams = { ...effect.params, feedback: v / 100 };
+                                                                updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
+                                                            }}
+                                                            className="py-1"
+                                                        />
+                                                    </MidiLearnable>
                                                 </div>
                                             )}
 
@@ -315,19 +724,103 @@ export function Inspector() {
                                                         <Label className="text-[10px] text-muted-foreground">Drive</Label>
                                                         <span className="text-[10px] font-mono">{Math.round((effect.params.distortion ?? 0.4) * 100)}%</span>
                                                     </div>
-                                                    <Slider
-                                                        value={[(effect.params.distortion ?? 0.4) * 100]}
-                                                        min={0}
-                                                        max={100}
-                                                        step={1}
-                                                        onValueChange={([v]) => {
-                                                            const newParams = { ...effect.params, distortion: v / 100 };
-                                                            updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
-                                                        }}
-                                                        className="py-1"
-                                                    />
+                                                    <MidiLearnable target={{ kind: 'track', trackId: selectedTrack.id, target: `${effect.id}.distortion` }}>
+                                                        <Slider
+                                                            value={[(effect.params.distortion ?? 0.4) * 100]}
+                                                            min={0}
+                                                            max={100}
+                                                            step={1}
+                                                            onValueChange={([v]) => {
+                                                                const newParams = { ...effect.params, distortion: v / 100 };
+                                                                updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
+                                                            }}
+                                                            className="py-1"
+                                                        />
+                                                    </MidiLearnable>
                                                 </div>
                                             )}
+
+                                            {effect.type === 'compression' && (
+                                                <>
+                                                    <div className="space-y-1.5">
+                                                        <div className="flex items-center justify-between">
+                                                            <Label className="text-[10px] text-muted-foreground">Threshold</Label>
+                                                            <span className="text-[10px] font-mono">{effect.params.threshold ?? -24} dB</span>
+                                                        </div>
+                                                        <MidiLearnable target={{ kind: 'track', trackId: selectedTrack.id, target: `${effect.id}.threshold` }}>
+                                                            <Slider
+                                                                value={[effect.params.threshold ?? -24]}
+                                                                min={-60}
+                                                                max={0}
+                                                                step={1}
+                                                                onValueChange={([v]) => {
+                                                                    const newParams = { ...effect.params, threshold: v };
+                                                                    updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
+                                                                }}
+                                                                className="py-1"
+                                                            />
+                                                        </MidiLearnable>
+                                                    </div>
+                                                    <div className="space-y-1.5">
+                                                        <div className="flex items-center justify-between">
+                                                            <Label className="text-[10px] text-muted-foreground">Ratio</Label>
+                                                            <span className="text-[10px] font-mono">{effect.params.ratio ?? 4}:1</span>
+                                                        </div>
+                                                        <MidiLearnable target={{ kind: 'track', trackId: selectedTrack.id, target: `${effect.id}.ratio` }}>
+                                                            <Slider
+                                                                value={[effect.params.ratio ?? 4]}
+                                                                min={1}
+                                                                max={20}
+                                                                step={0.5}
+                                                                onValueChange={([v]) => {
+                                                                    const newParams = { ...effect.params, ratio: v };
+                                                                    updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
+                                                                }}
+                                                                className="py-1"
+                                                            />
+                                                        </MidiLearnable>
+                                                    </div>
+                                                    <div className="space-y-1.5">
+                                                        <Label className="text-[10px] text-muted-foreground">Sidechain</Label>
+                                                        <Select
+                                                            value={getSidechainValue(effect.params)}
+                                                            onValueChange={(value) => {
+                                                                const [source, ref] = value.split(':');
+                                                                const newParams = {
+                                                                    ...effect.params,
+                                                                    sidechainSource: source,
+                                                                    sidechainTrackId: source === 'track' ? ref : undefined,
+                                                                    sidechainPattern: source === 'trigger' ? ref : undefined,
+                                                                };
+                                                                updateTrackEffect(selectedTrack.id, effect.id, { params: newParams });
+                                                            }}
+                                                        >
+                                                            <SelectTrigger className="h-7 text-xs">
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value="none" className="text-xs">Off (own input)</SelectItem>
+                                                                {project?.tracks.filter((t) => t.id !== selectedTrack.id).map((t) => (
+                                                                    <SelectItem key={t.id} value={`track:${t.id}`} className="text-xs">
+                                                                        Track: {t.name}
+                                                                    </SelectItem>
+                                                                ))}
+                                                                {SIDECHAIN_PATTERNS.map((pattern) => (
+                                                                    <SelectItem key={pattern.id} value={`trigger:${pattern.id}`} className="text-xs">
+                                                                        Trigger: {pattern.label}
+                                                                    </SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    </div>
+                                                </>
+                                            )}
+
+                                            <EffectRackControls
+                                                trackId={selectedTrack.id}
+                                                effect={effect}
+                                                onParamsChange={(params) => updateTrackEffect(selectedTrack.id, effect.id, { params })}
+                                            />
                                         </div>
                                     </div>
                                 ))}
@@ -336,6 +829,83 @@ export function Inspector() {
                     </Section>
                 )}
 
+                {/* Selected track sends */}
+                {selectedTrack && selectedTrack.type !== 'bus' && (
+                    <Section title="Sends" icon={<Send className="h-4 w-4" />}>
+                        {buses.length === 0 ? (
+                            <div className="text-xs text-muted-foreground text-center py-4 border-2 border-dashed border-muted rounded-md bg-muted/20">
+                                Add a bus track to share<br />effects between tracks
+                            </div>
+                        ) : (
+                            <div className="space-y-2">
+                                {(selectedTrack.sends || []).map((send) => {
+                                    const bus = buses.find((b) => b.id === send.busId);
+                                    if (!bus) return null;
+
+                                    return (
+                                        <div key={send.id} className="rounded-md bg-background border border-border p-2 space-y-1.5">
+                                            <div className="flex items-center justify-between gap-1">
+                                                <span className="text-xs font-medium truncate flex-1">{bus.name}</span>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    className={`h-6 px-1.5 text-[10px] font-mono ${send.preFader ? 'text-accent' : 'text-muted-foreground'}`}
+                                                    onClick={() => updateTrackSend(selectedTrack.id, send.id, { preFader: !send.preFader })}
+                                                    title={send.preFader ? 'Pre-fader: ignores track volume and pan' : 'Post-fader: follows track volume and pan'}
+                                                >
+                                                    {send.preFader ? 'PRE' : 'POST'}
+                                                </Button>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-6 w-6 text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                                                    onClick={() => removeTrackSend(selectedTrack.id, send.id)}
+                                                >
+                                                    <Trash2 className="h-3 w-3" />
+                                                </Button>
+                                            </div>
+                                            <div className="flex items-center gap-2">
+                                                <Slider
+                                                    value={[send.level * 100]}
+                                                    min={0}
+                                                    max={100}
+                                                    step={1}
+                                                    onValueChange={([v]) => updateTrackSend(selectedTrack.id, send.id, { level: v / 100 })}
+                                                    className="py-1 flex-1"
+                                                />
+                                                <span className="text-[10px] font-mono w-8 text-right">
+                                                    {Math.round(send.level * 100)}%
+                                                </span>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+
+                                {unusedBuses.length > 0 && (
+                                    <Select
+                                        value=""
+                                        onValueChange={(busId) => addTrackSend(selectedTrack.id, busId)}
+                                    >
+                                        <SelectTrigger className="h-8 text-xs">
+                                            <div className="flex items-center gap-1.5 text-muted-foreground">
+                                                <Plus className="h-3 w-3" />
+                                                Add send
+                                            </div>
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {unusedBuses.map((bus) => (
+                                                <SelectItem key={bus.id} value={bus.id}>
+                                                    {bus.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                )}
+                            </div>
+                        )}
+                    </Section>
+                )}
+
                 {/* Selected clip section */}
                 {selectedClip && (
                     <Section title="Clip" icon={<Clock className="h-4 w-4" />}>
@@ -352,6 +922,19 @@ export function Inspector() {
                             />
                         </div>
 
+                        {selectedClip.type !== 'audio' && !selectedClip.sliceKit && (
+                            <div className="space-y-1.5">
+                                <Label className="text-xs text-muted-foreground">Instrument</Label>
+                                <InstrumentSelect
+                                    value={selectedClip.instrumentPreset}
+                                    onChange={(instrumentPreset) => {
+                                        useProjectStore.getState().updateClip(selectedClip.id, { instrumentPreset });
+                                    }}
+                                    allowTrackDefault
+                                />
+                            </div>
+                        )}
+
                         <div className="grid grid-cols-2 gap-2">
                             <div className="space-y-1.5">
                                 <Label className="text-xs text-muted-foreground">Start (Bar)</Label>
@@ -382,6 +965,130 @@ export function Inspector() {
                                 />
                             </div>
                         </div>
+
+                        {/* Warp (audio clips) */}
+                        {project && selectedClip.type === 'audio' && (
+                            <>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div className="space-y-1.5">
+                                        <Label className="text-xs text-muted-foreground">Warp</Label>
+                                        <Select
+                                            value={selectedClip.warpMode ?? 'off'}
+                                            onValueChange={(v) => {
+                                                const tempoMap = getTempoMap(project);
+                                                updateClipWarp(project, selectedClip, {
+                                                    warpMode: v as WarpMode,
+                                                    // Assume the audio matches the current tempo until told otherwise
+                                                    sourceBpm: selectedClip.sourceBpm
+                                                        ?? tempoMap.getBpmAtBeat(tempoMap.barToBeat(selectedClip.startBar)),
+                                                });
+                                            }}
+                                        >
+                                            <SelectTrigger className="h-8">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {WARP_MODES.map((mode) => (
+                                                    <SelectItem key={mode.value} value={mode.value}>
+                                                        {mode.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </div>
+                                    <div className="space-y-1.5">
+                                        <Label className="text-xs text-muted-foreground">Source BPM</Label>
+                                        <Input
+                                            type="number"
+                                            value={selectedClip.sourceBpm ?? ''}
+                                            placeholder="—"
+                                            onChange={(e) => {
+                                                const bpm = parseFloat(e.target.value);
+                                                updateClipWarp(project, selectedClip, {
+                                                    sourceBpm: bpm > 0 ? bpm : undefined,
+                                                });
+                                            }}
+                                            min={20}
+                                            max={300}
+                                            disabled={(selectedClip.warpMode ?? 'off') === 'off'}
+                                            className="h-8 font-mono"
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="space-y-1.5">
+                                    <div className="flex items-center justify-between">
+                                        <Label className="text-xs text-muted-foreground">Pitch Shift</Label>
+                                        <span className="text-[10px] font-mono">
+                                            {(selectedClip.pitchShift ?? 0) > 0 ? '+' : ''}{selectedClip.pitchShift ?? 0} st
+                                        </span>
+                                    </div>
+                                    <Slider
+                                        value={[selectedClip.pitchShift ?? 0]}
+                                        min={MIN_PITCH_SHIFT}
+                                        max={MAX_PITCH_SHIFT}
+                                        step={1}
+                                        onValueChange={([v]) => {
+                                            updateClipWarp(project, selectedClip, { pitchShift: v });
+                                        }}
+                                        className="py-1"
+                                    />
+                                </div>
+                            </>
+                        )}
+
+                        <div className="space-y-1.5">
+                            <Label className="text-xs text-muted-foreground">
+                                {selectedClipIds.length > 1 ? `Render ${selectedClipIds.length} clips` : 'Render'}
+                            </Label>
+                            <BounceControls
+                                onBounce={(mode, onProgress) => bounceClips(
+                                    selectedClipIds.length > 0 ? selectedClipIds : [selectedClip.id],
+                                    mode,
+                                    onProgress
+                                )}
+                            />
+                            <Button
+                                variant={selectedClip.muted ? 'secondary' : 'outline'}
+                                size="sm"
+                                className="w-full h-8"
+                                onClick={() => {
+                                    useProjectStore.getState().updateClip(selectedClip.id, {
+                                        muted: !selectedClip.muted,
+                                    });
+                                }}
+                            >
+                                <VolumeX className="h-3.5 w-3.5" />
+                                {selectedClip.muted ? 'Unmute clip' : 'Mute clip'}
+                            </Button>
+                        </div>
+
+                        {/* Clip macros */}
+                        {CLIP_MACROS.map((macro) => {
+                            const value = selectedClip[macro.key] ?? macro.defaultValue;
+                            return (
+                                <div key={macro.key} className="space-y-1.5">
+                                    <div className="flex items-center justify-between">
+                                        <Label className="text-xs text-muted-foreground">{macro.label}</Label>
+                                        <span className="text-[10px] font-mono">
+                                            {macro.key === 'transpose' && value > 0 ? `+${value}` : value}
+                                        </span>
+                                    </div>
+                                    <Slider
+                                        value={[value]}
+                                        min={macro.min}
+                                        max={macro.max}
+                                        step={1}
+                                        onValueChange={([v]) => {
+                                            useProjectStore.getState().updateClip(selectedClip.id, {
+                                                [macro.key]: v,
+                                            });
+                                        }}
+                                        className="py-1"
+                                    />
+                                </div>
+                            );
+                        })}
                     </Section>
                 )}
 
@@ -423,6 +1130,287 @@ function Section({ title, icon, children }: SectionProps) {
     );
 }
 
+// Sentinel for "no clip override" (Radix Select can't use an empty value)
+const TRACK_DEFAULT_INSTRUMENT = '__track__';
+
+interface InstrumentSelectProps {
+    value: string | undefined;
+    onChange: (instrumentPreset: string | undefined) => void;
+    allowTrackDefault?: boolean;
+}
+
+function InstrumentSelect({ value, onChange, allowTrackDefault }: InstrumentSelectProps) {
+    const [samplers, setSamplers] = useState<SamplerPreset[]>(() => samplerPresets.getAll());
+    const [userPresets, setUserPresets] = useState<UserSynthPreset[]>(() => userSynthPresets.getAll());
+    const [editingId, setEditingId] = useState<string | null>(null);
+
+    useEffect(() => samplerPresets.onChange(() => setSamplers(samplerPresets.getAll())), []);
+    useEffect(() => userSynthPresets.onChange(() => setUserPresets(userSynthPresets.getAll())), []);
+
+    // Samplers have their own editor in the Browser
+    const canEdit = !!value && !parseSamplerInstrumentId(value);
+
+    return (
+        <div className="flex items-center gap-1">
+            <Select
+                value={value ?? (allowTrackDefault ? TRACK_DEFAULT_INSTRUMENT : undefined)}
+                onValueChange={(v) => onChange(v === TRACK_DEFAULT_INSTRUMENT ? undefined : v)}
+            >
+                <SelectTrigger className="h-8 flex-1">
+                    <SelectValue placeholder="Default" />
+                </SelectTrigger>
+                <SelectContent>
+                    {allowTrackDefault && (
+                        <>
+                            <SelectItem value={TRACK_DEFAULT_INSTRUMENT}>Track default</SelectItem>
+                            <SelectSeparator />
+                        </>
+                    )}
+                    {userPresets.length > 0 && (
+                        <>
+                            <SelectGroup>
+                                <SelectLabel className="text-xs">My Presets</SelectLabel>
+                                {userPresets.map((preset) => (
+                                    <SelectItem key={preset.id} value={toUserSynthInstrumentId(preset.id)}>
+                                        {preset.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectGroup>
+                            <SelectSeparator />
+                        </>
+                    )}
+                    {samplers.length > 0 && (
+                        <>
+                            <SelectGroup>
+                                <SelectLabel className="text-xs">My Samplers</SelectLabel>
+                                {samplers.map((preset) => (
+                                    <SelectItem key={preset.id} value={toSamplerInstrumentId(preset.id)}>
+                                        {preset.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectGroup>
+                            <SelectSeparator />
+                        </>
+                    )}
+                    {Object.values(SYNTH_PRESETS).map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>
+                            {preset.name}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                disabled={!canEdit}
+                onClick={() => setEditingId(value ?? null)}
+                title="Edit instrument"
+            >
+                <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <SynthEditorModal
+                instrumentId={editingId}
+                onClose={() => setEditingId(null)}
+                onSaved={onChange}
+            />
+        </div>
+    );
+}
+
+interface BounceControlsProps {
+    onBounce: (mode: BounceMode, onProgress: (progress: number) => void) => Promise<unknown>;
+}
+
+/**
+ * Render to a new audio track, replacing (muting) the source or alongside it
+ */
+function BounceControls({ onBounce }: BounceControlsProps) {
+    const [mode, setMode] = useState<BounceMode>('replace');
+    const [progress, setProgress] = useState<number | null>(null);
+
+    const handleBounce = async () => {
+        setProgress(0);
+        try {
+            await onBounce(mode, setProgress);
+            toast.success('Bounced to audio');
+        } catch (error) {
+            toast.error(`Bounce failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-1">
+            <Select value={mode} onValueChange={(v) => setMode(v as BounceMode)}>
+                <SelectTrigger className="h-8 flex-1">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="replace">Replace (mute source)</SelectItem>
+                    <SelectItem value="alongside">Alongside</SelectItem>
+                </SelectContent>
+            </Select>
+            <Button
+                variant="outline"
+                size="sm"
+                className="h-8 shrink-0"
+                disabled={progress !== null}
+                onClick={handleBounce}
+                title="Render through the instrument and effects to a new audio track"
+            >
+                <AudioWaveform className="h-3.5 w-3.5" />
+                {progress !== null ? `${progress}%` : 'Bounce'}
+            </Button>
+        </div>
+    );
+}
+
+interface FreezeControlsProps {
+    track: Track;
+    project: Project;
+}
+
+/**
+ * Freeze plays a render in place of the instrument and effects until the
+ * track is edited
+ */
+function FreezeControls({ track, project }: FreezeControlsProps) {
+    const [progress, setProgress] = useState<number | null>(null);
+    const frozen = isTrackFrozen(track, project);
+
+    const handleClick = async () => {
+        if (frozen) {
+            await unfreezeTrack(track.id);
+            return;
+        }
+
+        setProgress(0);
+        try {
+            await freezeTrack(track.id, setProgress);
+        } catch (error) {
+            toast.error(`Freeze failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <div className="space-y-1">
+            <Button
+                variant={frozen ? 'secondary' : 'outline'}
+                size="sm"
+                className="w-full h-8"
+                disabled={progress !== null}
+                onClick={handleClick}
+            >
+                <Snowflake className="h-3.5 w-3.5" />
+                {progress !== null ? `Freezing ${progress}%` : frozen ? 'Unfreeze' : 'Freeze track'}
+            </Button>
+            {track.freeze && !frozen && progress === null && (
+                <p className="text-[10px] text-muted-foreground">Edited since freezing, playing live</p>
+            )}
+        </div>
+    );
+}
+
+interface EffectRackControlsProps {
+    trackId: string;
+    effect: TrackEffect;
+    onParamsChange: (params: TrackEffect['params']) => void;
+}
+
+/**
+ * Delay time/sync, parametric EQ bands and the table-driven sliders
+ */
+function EffectRackControls({ trackId, effect, onParamsChange }: EffectRackControlsProps) {
+    const setParam = (param: string, value: unknown) => onParamsChange({ ...effect.params, [param]: value });
+    const isDelay = effect.type === 'delay' || effect.type === 'pingpong';
+    const bandCount = effect.params.bandCount ?? 4;
+
+    const controls = [
+        ...(isDelay && !effect.params.sync
+            ? [{ param: 'delayTime', label: 'Time', min: 0.01, max: 1, step: 0.01, unit: 's', defaultValue: 0.25 }]
+            : []),
+        ...(effect.type === 'parametric-eq' ? getParametricEQControls(bandCount) : []),
+        ...(TRACK_EFFECT_CONTROLS[effect.type] ?? []),
+    ];
+
+    return (
+        <>
+            {isDelay && (
+                <div className="space-y-1.5">
+                    <Label className="text-[10px] text-muted-foreground">Tempo Sync</Label>
+                    <Select
+                        value={effect.params.sync || FREE_DELAY_TIME}
+                        onValueChange={(value) => setParam('sync', value === FREE_DELAY_TIME ? undefined : value)}
+                    >
+                        <SelectTrigger className="h-7 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={FREE_DELAY_TIME} className="text-xs">Off (free time)</SelectItem>
+                            {DELAY_DIVISIONS.map((division) => (
+                                <SelectItem key={division.id} value={division.id} className="text-xs">
+                                    {division.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            )}
+
+            {effect.type === 'parametric-eq' && (
+                <div className="space-y-1.5">
+                    <Label className="text-[10px] text-muted-foreground">Bands</Label>
+                    <Select value={String(bandCount)} onValueChange={(value) => setParam('bandCount', Number(value))}>
+                        <SelectTrigger className="h-7 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {Array.from({ length: PARAMETRIC_EQ_MAX_BANDS - PARAMETRIC_EQ_MIN_BANDS + 1 }, (_, i) => PARAMETRIC_EQ_MIN_BANDS + i).map((count) => (
+                                <SelectItem key={count} value={String(count)} className="text-xs">
+                                    {count} bands
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            )}
+
+            {controls.map((control: EffectControl) => {
+                const value: number = effect.params[control.param] ?? control.defaultValue;
+                const toSlider = (v: number) => control.log
+                    ? Math.round((Math.log(v / control.min) / Math.log(control.max / control.min)) * 1000)
+                    : v;
+                const fromSlider = (v: number) => control.log
+                    ? Math.round(control.min * Math.pow(control.max / control.min, v / 1000))
+                    : v;
+
+                return (
+                    <div key={control.param} className="space-y-1.5">
+                        <div className="flex items-center justify-between">
+                            <Label className="text-[10px] text-muted-foreground">{control.label}</Label>
+                            <span className="text-[10px] font-mono">{formatEffectValue(value, control)}</span>
+                        </div>
+                        <MidiLearnable target={{ kind: 'track', trackId, target: `${effect.id}.${control.param}` }}>
+                            <Slider
+                                value={[toSlider(value)]}
+                                min={control.log ? 0 : control.min}
+                                max={control.log ? 1000 : control.max}
+                                step={control.log ? 1 : control.step}
+                                onValueChange={([v]) => setParam(control.param, fromSlider(v))}
+                                className="py-1"
+                            />
+                        </MidiLearnable>
+                    </div>
+                );
+            })}
+        </>
+    );
+}
+
 // Collapsed bar to show inspector
 export function InspectorCollapsedBar() {
     const toggleInspector = useUIStore((s) => s.toggleInspector);
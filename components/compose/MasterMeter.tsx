@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import {
+    Tooltip,
+    TooltipContent,
+    TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { usePlaybackStore } from '@/lib/store';
+import { playoutManager } from '@/lib/audio';
+import { METER_FLOOR_DB } from '@/lib/audio/master-meter';
+
+const METER_WIDTH = 96;
+const METER_HEIGHT = 14;
+const CHANNEL_GAP = 2;
+const PEAK_HOLD_MS = 1500;
+const CLIP_THRESHOLD_DB = -0.1;
+
+// Normalized meter position for a dB value
+function dbToPosition(db: number): number {
+    return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+function formatDb(db: number): string {
+    return db <= METER_FLOOR_DB ? '-∞' : db.toFixed(1);
+}
+
+/**
+ * Master output meter: stereo peak (bright) over RMS (solid) bars,
+ * with peak hold, clip indicator and momentary LUFS readout
+ */
+export function MasterMeter({ isAudioReady }: { isAudioReady: boolean }) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const peakTextRef = useRef<HTMLSpanElement>(null);
+    const lufsTextRef = useRef<HTMLSpanElement>(null);
+    const animationRef = useRef<number | null>(null);
+    const isPlaying = usePlaybackStore((s) => s.isPlaying);
+    const isRecording = usePlaybackStore((s) => s.isRecording);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !isAudioReady) return;
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const dpr = window.devicePixelRatio || 1;
+        canvas.width = METER_WIDTH * dpr;
+        canvas.height = METER_HEIGHT * dpr;
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+        const held = [{ db: METER_FLOOR_DB, at: 0 }, { db: METER_FLOOR_DB, at: 0 }];
+        let clipped = false;
+        const barHeight = (METER_HEIGHT - CHANNEL_GAP) / 2;
+
+        const draw = () => {
+            const levels = playoutManager.getMasterLevels();
+            const now = performance.now();
+
+            ctx.clearRect(0, 0, METER_WIDTH, METER_HEIGHT);
+
+            for (let ch = 0; ch < 2; ch++) {
+                const y = ch * (barHeight + CHANNEL_GAP);
+                const peakDb = levels?.peakDb[ch] ?? METER_FLOOR_DB;
+                const rmsDb = levels?.rmsDb[ch] ?? METER_FLOOR_DB;
+
+                if (peakDb >= held[ch].db || now - held[ch].at > PEAK_HOLD_MS) {
+                    held[ch] = { db: peakDb, at: now };
+                }
+                if (peakDb >= CLIP_THRESHOLD_DB) clipped = true;
+
+                // Track
+                ctx.fillStyle = 'hsl(240 4% 16% / 0.6)';
+                ctx.fillRect(0, y, METER_WIDTH, barHeight);
+
+                // Peak (translucent) and RMS (solid)
+                ctx.fillStyle = 'hsl(142 70% 45% / 0.45)';
+                ctx.fillRect(0, y, dbToPosition(peakDb) * METER_WIDTH, barHeight);
+                ctx.fillStyle = rmsDb > -6 ? 'hsl(36 100% 50%)' : 'hsl(142 70% 45%)';
+                ctx.fillRect(0, y, dbToPosition(rmsDb) * METER_WIDTH, barHeight);
+
+                // Peak hold tick
+                ctx.fillStyle = held[ch].db >= CLIP_THRESHOLD_DB ? 'hsl(0 84% 60%)' : 'hsl(0 0% 90%)';
+                ctx.fillRect(Math.min(METER_WIDTH - 1, dbToPosition(held[ch].db) * METER_WIDTH), y, 1, barHeight);
+            }
+
+            if (peakTextRef.current) {
+                peakTextRef.current.textContent = formatDb(Math.max(held[0].db, held[1].db));
+                peakTextRef.current.style.color = clipped ? 'hsl(0 84% 60%)' : '';
+            }
+            if (lufsTextRef.current) {
+                lufsTextRef.current.textContent = formatDb(levels?.lufs ?? METER_FLOOR_DB);
+            }
+
+            animationRef.current = requestAnimationFrame(draw);
+        };
+
+        draw();
+
+        return () => {
+            if (animationRef.current) {
+                cancelAnimationFrame(animationRef.current);
+            }
+        };
+    }, [isAudioReady, isPlaying, isRecording]);
+
+    return (
+        <Tooltip>
+            <TooltipTrigger asChild>
+                <div className="flex items-center gap-2 px-2 py-1 rounded-md bg-background border border-border/50 cursor-default">
+                    <canvas
+                        ref={canvasRef}
+                        style={{ width: METER_WIDTH, height: METER_HEIGHT }}
+                    />
+                    <div className="flex flex-col leading-none font-mono text-[9px] tabular-nums text-muted-foreground">
+                        <span>
+                            <span ref={peakTextRef}>-∞</span> dB
+                        </span>
+                        <span>
+                            <span ref={lufsTextRef}>-∞</span> LUFS
+                        </span>
+                    </div>
+                </div>
+            </TooltipTrigger>
+            <TooltipContent side="bottom">
+                <p>Master: Peak / RMS (dBFS), Momentary Loudness (LUFS)</p>
+            </TooltipContent>
+        </Tooltip>
+    );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Piano, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+    Tooltip,
+    TooltipContent,
+    TooltipTrigger,
+} from '@/components/ui/tooltip';
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { MidiMappingsModal } from './MidiMappingsModal';
+import { useUIStore } from '@/lib/store';
+import { midiInput, ALL_MIDI_INPUTS, type MidiInputDevice, type MidiInputStatus } from '@/lib/audio';
+import type { Track } from '@/types';
+
+// Select value for "no input" (Radix Select values can't be empty)
+const NO_MIDI_INPUT = 'none';
+
+// Activity light stays lit this long after a note
+const ACTIVITY_HOLD_MS = 120;
+
+const STATUS_TEXT: Record<MidiInputStatus, string> = {
+    idle: 'Connecting to MIDI…',
+    unsupported: 'This browser does not support Web MIDI. Try Chrome or Edge.',
+    denied: 'MIDI access was blocked. Allow it in your browser settings.',
+    ready: '',
+};
+
+interface MidiInputMenuProps {
+    isAudioReady: boolean;
+    armedTrack?: Track;
+}
+
+/**
+ * MIDI input device picker with an activity light, MIDI learn toggle and
+ * mapping editor. Also keeps live monitoring pointed at the armed
+ * MIDI/drum track.
+ */
+export function MidiInputMenu({ isAudioReady, armedTrack }: MidiInputMenuProps) {
+    const [status, setStatus] = useState<MidiInputStatus>(midiInput.getStatus());
+    const [devices, setDevices] = useState<MidiInputDevice[]>([]);
+    const [selectedId, setSelectedId] = useState<string | null>(midiInput.getSelectedDeviceId());
+    const [isActive, setIsActive] = useState(false);
+    const [showMappings, setShowMappings] = useState(false);
+    const midiLearnActive = useUIStore((s) => s.midiLearnActive);
+    const setMidiLearnActive = useUIStore((s) => s.setMidiLearnActive);
+    const mappingCount = useUIStore((s) => s.midiMappings.length);
+
+    // Connect once audio is running so monitoring can start right away
+    useEffect(() => {
+        if (!isAudioReady) return;
+
+        const sync = () => {
+            setStatus(midiInput.getStatus());
+            setDevices(midiInput.getDevices());
+            setSelectedId(midiInput.getSelectedDeviceId());
+        };
+
+        const unsubscribe = midiInput.onChange(sync);
+        midiInput.initialize().then(sync);
+        return unsubscribe;
+    }, [isAudioReady]);
+
+    // Flash on incoming notes
+    useEffect(() => {
+        let timeoutId: ReturnType<typeof setTimeout> | null = null;
+        const unsubscribe = midiInput.onMessage((message) => {
+            if (message.type !== 'noteOn') return;
+            setIsActive(true);
+            if (timeoutId) clearTimeout(timeoutId);
+            timeoutId = setTimeout(() => setIsActive(false), ACTIVITY_HOLD_MS);
+        });
+
+        return () => {
+            unsubscribe();
+            if (timeoutId) clearTimeout(timeoutId);
+        };
+    }, []);
+
+    // Monitor the armed track's instrument
+    useEffect(() => {
+        if (!isAudioReady) return;
+        midiInput.setMonitorTrack(armedTrack ?? null);
+    }, [isAudioReady, armedTrack]);
+
+    useEffect(() => {
+        return () => midiInput.setMonitorTrack(null);
+    }, []);
+
+    const selectedValue = selectedId === null ? NO_MIDI_INPUT : selectedId;
+    const hasInput = status === 'ready' && selectedId !== null && devices.some((d) => d.connected);
+
+    return (
+        <>
+            {midiLearnActive && (
+                <button
+                    onClick={() => setMidiLearnActive(false)}
+                    className="animate-pulse rounded bg-accent/20 px-2 py-0.5 text-xs font-medium text-accent"
+                    title="Stop MIDI learn"
+                >
+                    MIDI Learn · Done
+                </button>
+            )}
+            <Popover>
+                <Tooltip>
+                    <TooltipTrigger asChild>
+                        <PopoverTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                size="icon-sm"
+                                className={`relative ${midiLearnActive ? 'text-accent' : hasInput ? 'text-foreground' : 'text-muted-foreground'}`}
+                            >
+                                <Piano className="h-4 w-4" />
+                                {hasInput && (
+                                    <span
+                                        className={`absolute right-1 top-1 h-1.5 w-1.5 rounded-full transition-colors ${isActive ? 'bg-accent' : 'bg-muted-foreground/40'}`}
+                                    />
+                                )}
+                            </Button>
+                        </PopoverTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent side="bottom">
+                        <p>MIDI Input</p>
+                    </TooltipContent>
+                </Tooltip>
+                <PopoverContent className="w-64 p-4" align="end">
+                    <div className="space-y-3">
+                        <h4 className="font-medium text-sm">MIDI Input</h4>
+
+                        {status === 'ready' ? (
+                            <Select
+                                value={selectedValue}
+                                onValueChange={(v) => midiInput.selectDevice(v === NO_MIDI_INPUT ? null : v)}
+                            >
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL_MIDI_INPUTS} className="text-xs">All inputs</SelectItem>
+                                    {devices.map((device) => (
+                                        <SelectItem key={device.id} value={device.id} className="text-xs">
+                                            {device.name}{device.connected ? '' : ' (disconnected)'}
+                                        </SelectItem>
+                                    ))}
+                                    <SelectItem value={NO_MIDI_INPUT} className="text-xs">None</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        ) : (
+                            <p className="text-xs text-muted-foreground">{STATUS_TEXT[status]}</p>
+                        )}
+
+                        {status === 'ready' && devices.length === 0 && (
+                            <p className="text-xs text-muted-foreground">No MIDI devices found. Connect one to play.</p>
+                        )}
+
+                        <p className="text-xs text-muted-foreground">
+                            {armedTrack && armedTrack.type !== 'audio'
+                                ? `Playing through ${armedTrack.name}. Press record to capture notes.`
+                                : 'Arm a MIDI or drum track to play and record.'}
+                        </p>
+
+                        <div className="flex items-center gap-2 border-t border-border pt-3">
+                            <Button
+                                variant={midiLearnActive ? 'default' : 'outline'}
+                                size="sm"
+                                className="flex-1 text-xs"
+                                disabled={status !== 'ready'}
+                                onClick={() => setMidiLearnActive(!midiLearnActive)}
+                            >
+                                {midiLearnActive ? 'Stop Learning' : 'MIDI Learn'}
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-xs"
+                                onClick={() => setShowMappings(true)}
+                                title="Edit MIDI mappings"
+                            >
+                                <SlidersHorizontal className="h-3.5 w-3.5 mr-1" />
+                                {mappingCount}
+                            </Button>
+                        </div>
+                    </div>
+                </PopoverContent>
+            </Popover>
+
+            <MidiMappingsModal isOpen={showMappings} onClose={() => setShowMappings(false)} />
+        </>
+    );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useUIStore } from '@/lib/store';
+import { isSameMidiTarget, type MidiMappingTarget } from '@/lib/audio/midi-learn';
+import { cn } from '@/lib/utils';
+
+interface MidiLearnableProps {
+    target: MidiMappingTarget;
+    children: ReactNode;
+    className?: string;
+}
+
+/**
+ * Wraps a control that can be bound to a MIDI CC. In learn mode the
+ * control is outlined and a click picks it (instead of operating it);
+ * the next CC received is then mapped to it.
+ */
+export function MidiLearnable({ target, children, className }: MidiLearnableProps) {
+    const learnActive = useUIStore((s) => s.midiLearnActive);
+    const isPending = useUIStore((s) => !!s.midiLearnTarget && isSameMidiTarget(s.midiLearnTarget, target));
+    const mapping = useUIStore((s) => s.midiMappings.find((m) => isSameMidiTarget(m.target, target)));
+    const setMidiLearnTarget = useUIStore((s) => s.setMidiLearnTarget);
+
+    if (!learnActive) {
+        return <div className={className}>{children}</div>;
+    }
+
+    const pick = (e: React.SyntheticEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setMidiLearnTarget(isPending ? null : target);
+    };
+
+    return (
+        <div
+            className={cn(
+                'relative cursor-pointer rounded-sm ring-1',
+                isPending ? 'animate-pulse ring-accent' : mapping ? 'ring-accent/70' : 'ring-muted-foreground/50',
+                className
+            )}
+            onPointerDownCapture={pick}
+            onMouseDownCapture={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+            }}
+            onClickCapture={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+            }}
+            title={isPending
+                ? 'Move a knob or fader on your controller'
+                : mapping
+                    ? `Mapped to CC ${mapping.controller} (channel ${mapping.channel + 1}) — click to relearn`
+                    : 'Click, then move a control on your MIDI device'}
+        >
+            {children}
+            {mapping && !isPending && (
+                <span className="pointer-events-none absolute -right-1 -top-2 rounded bg-accent px-0.5 text-[8px] font-bold leading-tight text-accent-foreground">
+                    {mapping.controller}
+                </span>
+            )}
+        </div>
+    );
+}
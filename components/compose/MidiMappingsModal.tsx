@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect } from 'react';
+import { X, Piano, Trash2, RotateCcw } from 'lucide-react';
+import { useProjectStore, useUIStore, selectMidiMappings } from '@/lib/store';
+import { getMidiTargetLabel, type MidiMapping } from '@/lib/audio/midi-learn';
+
+// ============================================
+// Types
+// ============================================
+
+interface MidiMappingsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// ============================================
+// Mapping Row Component
+// ============================================
+
+function MappingRow({ mapping, label }: { mapping: MidiMapping; label: string | null }) {
+    const updateMidiMapping = useUIStore((s) => s.updateMidiMapping);
+    const removeMidiMapping = useUIStore((s) => s.removeMidiMapping);
+
+    const handleRangeChange = (key: 'min' | 'max', value: string) => {
+        const parsed = parseFloat(value);
+        if (Number.isFinite(parsed)) {
+            updateMidiMapping(mapping.id, { [key]: parsed });
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-3 py-1.5 group">
+            <kbd className="px-2 py-0.5 text-xs font-mono rounded bg-muted border border-border text-muted-foreground whitespace-nowrap">
+                CC {mapping.controller} · Ch {mapping.channel + 1}
+            </kbd>
+            <span className={`flex-1 truncate text-sm ${label ? 'text-foreground' : 'text-muted-foreground italic'}`}>
+                {label ?? 'Missing control'}
+            </span>
+            {mapping.target.kind === 'track' && (
+                <div className="flex items-center gap-1">
+                    <input
+                        type="number"
+                        value={mapping.min}
+                        step="any"
+                        onChange={(e) => handleRangeChange('min', e.target.value)}
+                        className="w-16 h-7 px-1.5 text-xs font-mono bg-background border border-border rounded"
+                        title="Value at CC 0"
+                    />
+                    <span className="text-xs text-muted-foreground">–</span>
+                    <input
+                        type="number"
+                        value={mapping.max}
+                        step="any"
+                        onChange={(e) => handleRangeChange('max', e.target.value)}
+                        className="w-16 h-7 px-1.5 text-xs font-mono bg-background border border-border rounded"
+                        title="Value at CC 127"
+                    />
+                </div>
+            )}
+            <button
+                onClick={() => removeMidiMapping(mapping.id)}
+                className="p-1 rounded hover:bg-muted transition-colors opacity-0 group-hover:opacity-100"
+                title="Remove mapping"
+            >
+                <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+            </button>
+        </div>
+    );
+}
+
+// ============================================
+// Main Modal Component
+// ============================================
+
+export function MidiMappingsModal({ isOpen, onClose }: MidiMappingsModalProps) {
+    const project = useProjectStore((s) => s.project);
+    const mappings = useUIStore(selectMidiMappings);
+    const clearMidiMappings = useUIStore((s) => s.clearMidiMappings);
+
+    // Close on Escape
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, onClose]);
+
+    if (!isOpen || !project) return null;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            onClick={(e) => {
+                if (e.target === e.currentTarget) onClose();
+            }}
+        >
+            <div className="bg-background border border-border rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[80vh] flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+                    <div className="flex items-center gap-3">
+                        <Piano className="w-5 h-5 text-primary" />
+                        <h2 className="text-lg font-semibold text-foreground">
+                            MIDI Mappings
+                        </h2>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {mappings.length > 0 && (
+                            <button
+                                onClick={clearMidiMappings}
+                                className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded hover:bg-muted transition-colors text-muted-foreground"
+                                title="Remove every mapping"
+                            >
+                                <RotateCcw className="w-3.5 h-3.5" />
+                                Clear All
+                            </button>
+                        )}
+                        <button
+                            onClick={onClose}
+                            className="p-1 rounded hover:bg-muted transition-colors"
+                        >
+                            <X className="w-5 h-5 text-muted-foreground" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 overflow-y-auto">
+                    {mappings.length === 0 ? (
+                        <p className="text-sm text-muted-foreground text-center py-6">
+                            No mappings yet.
+                        </p>
+                    ) : (
+                        <div className="space-y-1">
+                            {mappings.map((mapping) => (
+                                <MappingRow
+                                    key={mapping.id}
+                                    mapping={mapping}
+                                    label={getMidiTargetLabel(project, mapping.target)}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="px-6 py-4 border-t border-border">
+                    <p className="text-xs text-muted-foreground text-center">
+                        Turn on MIDI Learn, click a fader, knob or transport button, then move a control on your MIDI device
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,348 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, AudioWaveform, Plus, Trash2, Repeat } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { samplerPresets, createSamplerZone } from '@/lib/audio';
+import type { SamplerPreset, SamplerPlayMode, SamplerZone, UserSample } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+interface SamplerEditorModalProps {
+    preset: SamplerPreset | null;   // null = closed
+    samples: UserSample[];
+    onClose: () => void;
+}
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const PLAY_MODES: { value: SamplerPlayMode; label: string }[] = [
+    { value: 'gate', label: 'Gate' },
+    { value: 'one-shot', label: 'One-shot' },
+];
+
+const ENVELOPE_STAGES: { key: keyof SamplerPreset['envelope']; label: string; max: number }[] = [
+    { key: 'attack', label: 'Attack', max: 2 },
+    { key: 'decay', label: 'Decay', max: 2 },
+    { key: 'sustain', label: 'Sustain', max: 1 },
+    { key: 'release', label: 'Release', max: 5 },
+];
+
+const pitchToNoteName = (pitch: number) => `${NOTE_NAMES[pitch % 12]}${Math.floor(pitch / 12) - 1}`;
+
+const clampInt = (value: string, min: number, max: number, fallback: number) => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+};
+
+// ============================================
+// Zone Row Component
+// ============================================
+
+interface ZoneRowProps {
+    zone: SamplerZone;
+    samples: UserSample[];
+    loopAllowed: boolean;
+    onChange: (updates: Partial<SamplerZone>) => void;
+    onRemove: () => void;
+}
+
+function ZoneRow({ zone, samples, loopAllowed, onChange, onRemove }: ZoneRowProps) {
+    const sample = samples.find((s) => s.id === zone.sampleId);
+    const duration = sample?.duration ?? 0;
+
+    const numberField = (label: string, value: number, min: number, max: number, key: keyof SamplerZone, title?: string) => (
+        <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">{label}</Label>
+            <Input
+                type="number"
+                min={min}
+                max={max}
+                value={value}
+                onChange={(e) => onChange({ [key]: clampInt(e.target.value, min, max, value) })}
+                className="h-7 px-1.5 text-xs font-mono"
+                title={title}
+            />
+        </div>
+    );
+
+    const toggleLoop = () => {
+        onChange({ loop: zone.loop ? undefined : { start: 0, end: duration } });
+    };
+
+    const setLoopPoint = (key: 'start' | 'end', value: string) => {
+        const parsed = parseFloat(value);
+        if (!zone.loop || !Number.isFinite(parsed)) return;
+        onChange({ loop: { ...zone.loop, [key]: Math.min(duration, Math.max(0, parsed)) } });
+    };
+
+    return (
+        <div className="rounded-md border border-border bg-muted/20 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+                <Select value={zone.sampleId} onValueChange={(sampleId) => onChange({ sampleId, loop: undefined })}>
+                    <SelectTrigger className="h-7 flex-1 text-xs">
+                        <SelectValue placeholder="Missing sample" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {samples.map((s) => (
+                            <SelectItem key={s.id} value={s.id} className="text-xs">
+                                {s.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <button
+                    onClick={toggleLoop}
+                    disabled={!loopAllowed}
+                    className={`p-1.5 rounded transition-colors disabled:opacity-40 ${zone.loop ? 'bg-accent/20 text-accent' : 'text-muted-foreground hover:bg-muted'}`}
+                    title={loopAllowed ? 'Loop while the key is held' : 'Loops only play in Gate mode'}
+                >
+                    <Repeat className="w-3.5 h-3.5" />
+                </button>
+                <button
+                    onClick={onRemove}
+                    className="p-1.5 rounded hover:bg-muted transition-colors"
+                    title="Remove zone"
+                >
+                    <Trash2 className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-5 gap-2">
+                {numberField(`Root ${pitchToNoteName(zone.rootNote)}`, zone.rootNote, 0, 127, 'rootNote', 'Key that plays the sample at its own pitch')}
+                {numberField(`Low ${pitchToNoteName(zone.lowNote)}`, zone.lowNote, 0, zone.highNote, 'lowNote')}
+                {numberField(`High ${pitchToNoteName(zone.highNote)}`, zone.highNote, zone.lowNote, 127, 'highNote')}
+                {numberField('Vel low', zone.lowVelocity, 1, zone.highVelocity, 'lowVelocity')}
+                {numberField('Vel high', zone.highVelocity, zone.lowVelocity, 127, 'highVelocity')}
+            </div>
+
+            {zone.loop && loopAllowed && (
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="text-muted-foreground">Loop</span>
+                    <Input
+                        type="number"
+                        step={0.001}
+                        min={0}
+                        max={zone.loop.end}
+                        value={zone.loop.start}
+                        onChange={(e) => setLoopPoint('start', e.target.value)}
+                        className="h-7 w-24 px-1.5 text-xs font-mono"
+                        title="Loop start (seconds)"
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                        type="number"
+                        step={0.001}
+                        min={zone.loop.start}
+                        max={duration}
+                        value={zone.loop.end}
+                        onChange={(e) => setLoopPoint('end', e.target.value)}
+                        className="h-7 w-24 px-1.5 text-xs font-mono"
+                        title="Loop end (seconds)"
+                    />
+                    <span className="text-muted-foreground">of {duration.toFixed(3)}s</span>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================
+// Main Modal Component
+// ============================================
+
+export function SamplerEditorModal({ preset, samples, onClose }: SamplerEditorModalProps) {
+    const [draft, setDraft] = useState<SamplerPreset | null>(preset);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Start from the preset each time the modal opens
+    useEffect(() => {
+        setDraft(preset);
+    }, [preset]);
+
+    // Close on Escape
+    useEffect(() => {
+        if (!preset) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [preset, onClose]);
+
+    if (!preset || !draft) return null;
+
+    const update = (updates: Partial<SamplerPreset>) => setDraft({ ...draft, ...updates });
+
+    const updateZone = (zoneId: string, updates: Partial<SamplerZone>) => {
+        update({ zones: draft.zones.map((z) => (z.id === zoneId ? { ...z, ...updates } : z)) });
+    };
+
+    const addZone = () => {
+        if (samples.length === 0) return;
+        update({ zones: [...draft.zones, createSamplerZone(samples[0])] });
+    };
+
+    const handleSave = async () => {
+        if (!draft.name.trim()) {
+            toast.error('Give the sampler a name');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await samplerPresets.save({ ...draft, name: draft.name.trim() });
+            toast.success(`Saved "${draft.name.trim()}"`);
+            onClose();
+        } catch {
+            toast.error('Failed to save sampler');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            onClick={(e) => {
+                if (e.target === e.currentTarget) onClose();
+            }}
+        >
+            <div className="bg-background border border-border rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+                    <div className="flex items-center gap-3">
+                        <AudioWaveform className="w-5 h-5 text-primary" />
+                        <h2 className="text-lg font-semibold text-foreground">
+                            Sampler
+                        </h2>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded hover:bg-muted transition-colors"
+                    >
+                        <X className="w-5 h-5 text-muted-foreground" />
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 overflow-y-auto space-y-5">
+                    <div className="grid grid-cols-[1fr_10rem] gap-3">
+                        <div className="space-y-1.5">
+                            <Label className="text-xs text-muted-foreground">Name</Label>
+                            <Input
+                                value={draft.name}
+                                onChange={(e) => update({ name: e.target.value })}
+                                className="h-8 text-sm"
+                            />
+                        </div>
+                        <div className="space-y-1.5">
+                            <Label className="text-xs text-muted-foreground">Mode</Label>
+                            <Select value={draft.mode} onValueChange={(v) => update({ mode: v as SamplerPlayMode })}>
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {PLAY_MODES.map((m) => (
+                                        <SelectItem key={m.value} value={m.value} className="text-xs">
+                                            {m.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-4 gap-4">
+                        {ENVELOPE_STAGES.map(({ key, label, max }) => (
+                            <div key={key} className="space-y-1.5">
+                                <div className="flex items-center justify-between">
+                                    <Label className="text-xs text-muted-foreground">{label}</Label>
+                                    <span className="text-[10px] font-mono">
+                                        {key === 'sustain'
+                                            ? `${Math.round(draft.envelope.sustain * 100)}%`
+                                            : `${Math.round(draft.envelope[key] * 1000)}ms`}
+                                    </span>
+                                </div>
+                                <Slider
+                                    value={[draft.envelope[key]]}
+                                    min={0}
+                                    max={max}
+                                    step={key === 'sustain' ? 0.01 : 0.001}
+                                    onValueChange={([v]) => update({ envelope: { ...draft.envelope, [key]: v } })}
+                                    disabled={key === 'release' && draft.mode === 'one-shot'}
+                                    className="py-1"
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <Label className="text-xs text-muted-foreground">Zones</Label>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 gap-1.5 text-xs"
+                                onClick={addZone}
+                                disabled={samples.length === 0}
+                            >
+                                <Plus className="h-3.5 w-3.5" />
+                                Add Zone
+                            </Button>
+                        </div>
+
+                        {draft.zones.length === 0 ? (
+                            <p className="text-sm text-muted-foreground text-center py-6">
+                                {samples.length === 0
+                                    ? 'Import a sample in the Samples tab first.'
+                                    : 'No zones yet. Add one to map a sample to the keyboard.'}
+                            </p>
+                        ) : (
+                            draft.zones.map((zone) => (
+                                <ZoneRow
+                                    key={zone.id}
+                                    zone={zone}
+                                    samples={samples}
+                                    loopAllowed={draft.mode === 'gate'}
+                                    onChange={(updates) => updateZone(zone.id, updates)}
+                                    onRemove={() => update({ zones: draft.zones.filter((z) => z.id !== zone.id) })}
+                                />
+                            ))
+                        )}
+                    </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-border">
+                    <p className="text-xs text-muted-foreground">
+                        Overlapping zones play together. One-shot plays each sample through and ignores note length.
+                    </p>
+                    <div className="flex gap-2 shrink-0">
+                        <Button variant="ghost" size="sm" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                            Save
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
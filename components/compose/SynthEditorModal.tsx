@@ -0,0 +1,545 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import { X, SlidersHorizontal, Play, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    SYNTH_PRESETS,
+    changePatchVoice,
+    createSynthFromPatch,
+    waitForSynthReady,
+    type SynthType,
+} from '@/lib/audio/synth-presets';
+import {
+    userSynthPresets,
+    createUserSynthPreset,
+    parseUserSynthInstrumentId,
+    toUserSynthInstrumentId,
+    downloadSynthPreset,
+} from '@/lib/audio/user-synth-presets';
+import { INSTRUMENT_CATEGORIES } from '@/lib/browser';
+import type { SynthEnvelopePatch, SynthPatch, SynthPresetCategory, SynthVoiceType, UserSynthPreset } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+interface SynthEditorModalProps {
+    instrumentId: string | null;   // Factory or `user:` preset to start from; null = closed
+    onClose: () => void;
+    onSaved?: (instrumentId: string) => void;
+}
+
+type Draft = Pick<UserSynthPreset, 'name' | 'category' | 'patch'>;
+
+const VOICES: { value: SynthVoiceType; label: string }[] = [
+    { value: 'synth', label: 'Synth' },
+    { value: 'mono', label: 'Filter Synth' },
+    { value: 'fm', label: 'FM' },
+    { value: 'am', label: 'AM' },
+    { value: 'membrane', label: 'Membrane (drum)' },
+    { value: 'noise', label: 'Noise' },
+];
+
+const OSCILLATOR_TYPES = [
+    'sine', 'triangle', 'square', 'sawtooth', 'pulse',
+    'fatsine', 'fattriangle', 'fatsquare', 'fatsawtooth',
+];
+
+const MODULATION_TYPES = ['sine', 'triangle', 'square', 'sawtooth'];
+
+const FILTER_TYPES: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass', 'notch'];
+
+const NOISE_TYPES = ['white', 'pink', 'brown'] as const;
+
+// Pitch auditioned by Preview
+const PREVIEW_NOTE = 'C4';
+const PREVIEW_DRUM_NOTE = 'C2';
+
+const DEFAULT_ENVELOPE: SynthEnvelopePatch = { attack: 0.01, decay: 0.2, sustain: 0.5, release: 0.5 };
+
+const formatSeconds = (v: number) => (v < 1 ? `${Math.round(v * 1000)}ms` : `${v.toFixed(2)}s`);
+
+// ============================================
+// Controls
+// ============================================
+
+interface ParamSliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    format?: (value: number) => string;
+    onChange: (value: number) => void;
+}
+
+function ParamSlider({ label, value, min, max, step, format = String, onChange }: ParamSliderProps) {
+    return (
+        <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">{label}</Label>
+                <span className="text-[10px] font-mono">{format(value)}</span>
+            </div>
+            <Slider
+                value={[value]}
+                min={min}
+                max={max}
+                step={step}
+                onValueChange={([v]) => onChange(v)}
+                className="py-1"
+            />
+        </div>
+    );
+}
+
+function OptionSelect<T extends string>({ label, value, options, onChange }: {
+    label: string;
+    value: T;
+    options: readonly { value: T; label: string }[];
+    onChange: (value: T) => void;
+}) {
+    return (
+        <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">{label}</Label>
+            <Select value={value} onValueChange={(v) => onChange(v as T)}>
+                <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {options.map((opt) => (
+                        <SelectItem key={opt.value} value={opt.value} className="text-xs">
+                            {opt.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+        </div>
+    );
+}
+
+const toOptions = <T extends string>(values: readonly T[]) => values.map((value) => ({ value, label: value }));
+
+function EnvelopeControls({ title, envelope, onChange }: {
+    title: string;
+    envelope: SynthEnvelopePatch;
+    onChange: (envelope: SynthEnvelopePatch) => void;
+}) {
+    const set = (key: keyof SynthEnvelopePatch) => (value: number) => onChange({ ...envelope, [key]: value });
+
+    return (
+        <ParamGroup title={title}>
+            <div className="grid grid-cols-4 gap-4">
+                <ParamSlider label="Attack" value={envelope.attack} min={0} max={2} step={0.001} format={formatSeconds} onChange={set('attack')} />
+                <ParamSlider label="Decay" value={envelope.decay} min={0} max={4} step={0.001} format={formatSeconds} onChange={set('decay')} />
+                <ParamSlider label="Sustain" value={envelope.sustain} min={0} max={1} step={0.01} format={(v) => `${Math.round(v * 100)}%`} onChange={set('sustain')} />
+                <ParamSlider label="Release" value={envelope.release} min={0} max={5} step={0.001} format={formatSeconds} onChange={set('release')} />
+            </div>
+        </ParamGroup>
+    );
+}
+
+function ParamGroup({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+        <div className="space-y-3">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">{title}</h3>
+            {children}
+        </div>
+    );
+}
+
+// ============================================
+// Main Modal Component
+// ============================================
+
+export function SynthEditorModal({ instrumentId, onClose, onSaved }: SynthEditorModalProps) {
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [userPreset, setUserPreset] = useState<UserSynthPreset | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const previewSynthRef = useRef<SynthType | null>(null);
+
+    // Start from the chosen preset each time the modal opens
+    useEffect(() => {
+        if (!instrumentId) {
+            setDraft(null);
+            return;
+        }
+
+        const userPresetId = parseUserSynthInstrumentId(instrumentId);
+        const existing = userPresetId ? userSynthPresets.get(userPresetId) ?? null : null;
+        const factory = SYNTH_PRESETS[instrumentId];
+        const source = existing ?? factory ?? SYNTH_PRESETS['basic-synth'];
+
+        setUserPreset(existing);
+        setDraft({ name: source.name, category: source.category, patch: structuredClone(source.patch) });
+    }, [instrumentId]);
+
+    // Close on Escape
+    useEffect(() => {
+        if (!instrumentId) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [instrumentId, onClose]);
+
+    // Stop the preview synth when closing
+    useEffect(() => {
+        if (instrumentId) return;
+        previewSynthRef.current?.dispose();
+        previewSynthRef.current = null;
+    }, [instrumentId]);
+
+    if (!instrumentId || !draft) return null;
+
+    const { patch } = draft;
+    const updatePatch = (updates: Partial<SynthPatch>) => setDraft({ ...draft, patch: { ...patch, ...updates } });
+
+    const handlePreview = async () => {
+        await Tone.start();
+        previewSynthRef.current?.dispose();
+
+        const synth = createSynthFromPatch(patch).toDestination();
+        previewSynthRef.current = synth;
+        await waitForSynthReady(synth);
+
+        const note = patch.voice === 'membrane' || patch.voice === 'sampler' ? PREVIEW_DRUM_NOTE : PREVIEW_NOTE;
+        if (synth instanceof Tone.NoiseSynth) {
+            synth.triggerAttackRelease('8n');
+        } else {
+            synth.triggerAttackRelease(note, '4n');
+        }
+    };
+
+    const save = async (asNew: boolean) => {
+        const name = draft.name.trim();
+        if (!name) {
+            toast.error('Give the preset a name');
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const preset = userPreset && !asNew
+                ? { ...userPreset, name, category: draft.category, patch }
+                : createUserSynthPreset(name, draft.category, patch);
+            const saved = await userSynthPresets.save(preset);
+            toast.success(`Saved "${saved.name}"`);
+            onSaved?.(toUserSynthInstrumentId(saved.id));
+            onClose();
+        } catch {
+            toast.error('Failed to save preset');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const oscillator = patch.oscillator;
+    const oscillatorTypes = oscillator?.type === 'custom' ? [...OSCILLATOR_TYPES, 'custom'] : OSCILLATOR_TYPES;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            onClick={(e) => {
+                if (e.target === e.currentTarget) onClose();
+            }}
+        >
+            <div className="bg-background border border-border rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[85vh] flex flex-col">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-border">
+                    <div className="flex items-center gap-3">
+                        <SlidersHorizontal className="w-5 h-5 text-primary" />
+                        <h2 className="text-lg font-semibold text-foreground">
+                            Instrument Editor
+                        </h2>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" className="h-8 gap-1.5 text-xs" onClick={handlePreview}>
+                            <Play className="h-3.5 w-3.5" />
+                            Preview
+                        </Button>
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 gap-1.5 text-xs"
+                            onClick={() => downloadSynthPreset(draft)}
+                        >
+                            <Download className="h-3.5 w-3.5" />
+                            Export
+                        </Button>
+                        <button
+                            onClick={onClose}
+                            className="p-1 rounded hover:bg-muted transition-colors"
+                        >
+                            <X className="w-5 h-5 text-muted-foreground" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Content */}
+                <div className="p-6 overflow-y-auto space-y-6">
+                    <div className="grid grid-cols-[1fr_10rem_10rem] gap-3">
+                        <div className="space-y-1.5">
+                            <Label className="text-xs text-muted-foreground">Name</Label>
+                            <Input
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                className="h-8 text-sm"
+                            />
+                        </div>
+                        <OptionSelect
+                            label="Category"
+                            value={draft.category}
+                            options={INSTRUMENT_CATEGORIES.map((c) => ({ value: c.id as SynthPresetCategory, label: c.name }))}
+                            onChange={(category) => setDraft({ ...draft, category })}
+                        />
+                        {patch.voice === 'sampler' ? (
+                            <div className="space-y-1.5">
+                                <Label className="text-xs text-muted-foreground">Voice</Label>
+                                <p className="h-8 flex items-center text-xs text-muted-foreground">Sample kit</p>
+                            </div>
+                        ) : (
+                            <OptionSelect
+                                label="Voice"
+                                value={patch.voice}
+                                options={VOICES}
+                                onChange={(voice) => setDraft({ ...draft, patch: changePatchVoice(patch, voice) })}
+                            />
+                        )}
+                    </div>
+
+                    <ParamSlider
+                        label="Volume"
+                        value={patch.volume ?? 0}
+                        min={-40}
+                        max={6}
+                        step={0.5}
+                        format={(v) => `${v > 0 ? '+' : ''}${v} dB`}
+                        onChange={(volume) => updatePatch({ volume })}
+                    />
+
+                    {oscillator && (
+                        <ParamGroup title="Oscillator">
+                            <div className="grid grid-cols-3 gap-4">
+                                <OptionSelect
+                                    label="Wave"
+                                    value={oscillator.type}
+                                    options={toOptions(oscillatorTypes)}
+                                    onChange={(type) => updatePatch({
+                                        oscillator: type.startsWith('fat')
+                                            ? { type, spread: oscillator.spread ?? 20, count: oscillator.count ?? 3 }
+                                            : type === 'pulse'
+                                                ? { type, width: oscillator.width ?? 0.3 }
+                                                : type === 'custom'
+                                                    ? oscillator
+                                                    : { type },
+                                    })}
+                                />
+                                {oscillator.type.startsWith('fat') && (
+                                    <>
+                                        <ParamSlider
+                                            label="Spread"
+                                            value={oscillator.spread ?? 20}
+                                            min={0}
+                                            max={100}
+                                            step={1}
+                                            format={(v) => `${v} ct`}
+                                            onChange={(spread) => updatePatch({ oscillator: { ...oscillator, spread } })}
+                                        />
+                                        <ParamSlider
+                                            label="Voices"
+                                            value={oscillator.count ?? 3}
+                                            min={1}
+                                            max={8}
+                                            step={1}
+                                            onChange={(count) => updatePatch({ oscillator: { ...oscillator, count } })}
+                                        />
+                                    </>
+                                )}
+                                {oscillator.type === 'pulse' && (
+                                    <ParamSlider
+                                        label="Width"
+                                        value={oscillator.width ?? 0.5}
+                                        min={0.05}
+                                        max={0.95}
+                                        step={0.01}
+                                        format={(v) => `${Math.round(v * 100)}%`}
+                                        onChange={(width) => updatePatch({ oscillator: { ...oscillator, width } })}
+                                    />
+                                )}
+                            </div>
+                        </ParamGroup>
+                    )}
+
+                    {patch.noise && (
+                        <ParamGroup title="Noise">
+                            <div className="grid grid-cols-3 gap-4">
+                                <OptionSelect
+                                    label="Color"
+                                    value={patch.noise.type}
+                                    options={toOptions(NOISE_TYPES)}
+                                    onChange={(type) => updatePatch({ noise: { type } })}
+                                />
+                            </div>
+                        </ParamGroup>
+                    )}
+
+                    <EnvelopeControls
+                        title="Amp Envelope"
+                        envelope={patch.envelope ?? DEFAULT_ENVELOPE}
+                        onChange={(envelope) => updatePatch({ envelope })}
+                    />
+
+                    {patch.voice === 'mono' && (
+                        <>
+                            <ParamGroup title="Filter">
+                                <div className="grid grid-cols-4 gap-4">
+                                    <OptionSelect
+                                        label="Type"
+                                        value={patch.filter?.type ?? 'lowpass'}
+                                        options={toOptions(FILTER_TYPES)}
+                                        onChange={(type) => updatePatch({ filter: { Q: 1, rolloff: -12, ...patch.filter, type } })}
+                                    />
+                                    <ParamSlider
+                                        label="Resonance"
+                                        value={patch.filter?.Q ?? 1}
+                                        min={0}
+                                        max={20}
+                                        step={0.1}
+                                        onChange={(Q) => updatePatch({ filter: { type: 'lowpass', rolloff: -12, ...patch.filter, Q } })}
+                                    />
+                                    <ParamSlider
+                                        label="Cutoff"
+                                        value={patch.filterEnvelope?.baseFrequency ?? 300}
+                                        min={20}
+                                        max={5000}
+                                        step={10}
+                                        format={(v) => `${v} Hz`}
+                                        onChange={(baseFrequency) => updatePatch({
+                                            filterEnvelope: { ...DEFAULT_ENVELOPE, octaves: 3, ...patch.filterEnvelope, baseFrequency },
+                                        })}
+                                    />
+                                    <ParamSlider
+                                        label="Env Amount"
+                                        value={patch.filterEnvelope?.octaves ?? 3}
+                                        min={0}
+                                        max={7}
+                                        step={0.1}
+                                        format={(v) => `${v} oct`}
+                                        onChange={(octaves) => updatePatch({
+                                            filterEnvelope: { ...DEFAULT_ENVELOPE, baseFrequency: 300, ...patch.filterEnvelope, octaves },
+                                        })}
+                                    />
+                                </div>
+                            </ParamGroup>
+                            <EnvelopeControls
+                                title="Filter Envelope"
+                                envelope={patch.filterEnvelope ?? DEFAULT_ENVELOPE}
+                                onChange={(envelope) => updatePatch({
+                                    filterEnvelope: { baseFrequency: 300, octaves: 3, ...patch.filterEnvelope, ...envelope },
+                                })}
+                            />
+                        </>
+                    )}
+
+                    {(patch.voice === 'fm' || patch.voice === 'am') && (
+                        <>
+                            <ParamGroup title="Modulation">
+                                <div className="grid grid-cols-3 gap-4">
+                                    <OptionSelect
+                                        label="Wave"
+                                        value={patch.modulation?.type ?? 'sine'}
+                                        options={toOptions(MODULATION_TYPES)}
+                                        onChange={(type) => updatePatch({ modulation: { type } })}
+                                    />
+                                    <ParamSlider
+                                        label="Harmonicity"
+                                        value={patch.harmonicity ?? 1}
+                                        min={0.25}
+                                        max={12}
+                                        step={0.01}
+                                        onChange={(harmonicity) => updatePatch({ harmonicity })}
+                                    />
+                                    {patch.voice === 'fm' && (
+                                        <ParamSlider
+                                            label="Index"
+                                            value={patch.modulationIndex ?? 10}
+                                            min={0}
+                                            max={50}
+                                            step={0.1}
+                                            onChange={(modulationIndex) => updatePatch({ modulationIndex })}
+                                        />
+                                    )}
+                                </div>
+                            </ParamGroup>
+                            <EnvelopeControls
+                                title="Modulation Envelope"
+                                envelope={patch.modulationEnvelope ?? DEFAULT_ENVELOPE}
+                                onChange={(modulationEnvelope) => updatePatch({ modulationEnvelope })}
+                            />
+                        </>
+                    )}
+
+                    {patch.voice === 'membrane' && (
+                        <ParamGroup title="Pitch Sweep">
+                            <div className="grid grid-cols-2 gap-4">
+                                <ParamSlider
+                                    label="Pitch Decay"
+                                    value={patch.pitchDecay ?? 0.05}
+                                    min={0}
+                                    max={0.5}
+                                    step={0.001}
+                                    format={formatSeconds}
+                                    onChange={(pitchDecay) => updatePatch({ pitchDecay })}
+                                />
+                                <ParamSlider
+                                    label="Octaves"
+                                    value={patch.octaves ?? 4}
+                                    min={0.5}
+                                    max={8}
+                                    step={0.1}
+                                    onChange={(octaves) => updatePatch({ octaves })}
+                                />
+                            </div>
+                        </ParamGroup>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center justify-between gap-3 px-6 py-4 border-t border-border">
+                    <p className="text-xs text-muted-foreground">
+                        {userPreset ? 'Changes apply everywhere this preset is used.' : 'Factory presets are saved as a new user preset.'}
+                    </p>
+                    <div className="flex gap-2 shrink-0">
+                        <Button variant="ghost" size="sm" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        {userPreset && (
+                            <Button variant="outline" size="sm" onClick={() => save(true)} disabled={isSaving}>
+                                Save as New
+                            </Button>
+                        )}
+                        <Button size="sm" onClick={() => save(false)} disabled={isSaving}>
+                            {userPreset ? 'Save' : 'Save as User Preset'}
+                        </Button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
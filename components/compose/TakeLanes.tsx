@@ -0,0 +1,277 @@
+// ============================================
+// ComposeYogi — Take Lane Components
+// Expandable take sub-lanes under an audio track (header + comp editor)
+// ============================================
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Eraser } from 'lucide-react';
+import { useProjectStore } from '@/lib/store';
+import { Button } from '@/components/ui';
+import { getAudioTake } from '@/lib/audio';
+import { getCompSegments } from '@/lib/audio/comping';
+import { getTempoMap, type TempoMap } from '@/lib/audio/tempo-map';
+import type { Clip, Track } from '@/types';
+
+export const TAKE_LANE_HEIGHT = 28;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Audio clips on a track that hold more than one take
+ */
+export function getMultiTakeClips(clips: Clip[], trackId: string): Clip[] {
+    return clips.filter(
+        (c) => c.trackId === trackId && c.type === 'audio' && (c.audioTakeIds?.length ?? 0) > 1
+    );
+}
+
+/**
+ * Number of take rows a track needs (0 when nothing to comp)
+ */
+export function getTakeLaneCount(clips: Clip[], trackId: string): number {
+    return getMultiTakeClips(clips, trackId).reduce(
+        (max, c) => Math.max(max, c.audioTakeIds?.length ?? 0),
+        0
+    );
+}
+
+// Clip duration in seconds on the take timeline, from its trim start
+function getClipTakeSpan(clip: Clip, tempoMap: TempoMap): { start: number; end: number } {
+    const start = clip.trimStart || 0;
+    return { start, end: start + tempoMap.barsToDuration(clip.startBar, clip.lengthBars) };
+}
+
+// Take-timeline seconds -> timeline x
+function takeTimeToX(clip: Clip, time: number, tempoMap: TempoMap, pixelsPerBar: number): number {
+    const clipStartSeconds = tempoMap.barToSeconds(clip.startBar);
+    return tempoMap.secondsToBar(clipStartSeconds + time - (clip.trimStart || 0)) * pixelsPerBar;
+}
+
+// Timeline x -> take-timeline seconds
+function xToTakeTime(clip: Clip, x: number, tempoMap: TempoMap, pixelsPerBar: number): number {
+    const clipStartSeconds = tempoMap.barToSeconds(clip.startBar);
+    return tempoMap.barToSeconds(x / pixelsPerBar) - clipStartSeconds + (clip.trimStart || 0);
+}
+
+// ============================================
+// Lanes Header (track header column)
+// ============================================
+
+interface TakeLanesHeaderProps {
+    track: Track;
+    laneCount: number;
+}
+
+/**
+ * One row per take. Clicking a row plays that take whole on every
+ * multi-take clip of the track.
+ */
+export function TakeLanesHeader({ track, laneCount }: TakeLanesHeaderProps) {
+    const project = useProjectStore((s) => s.project);
+    const setActiveTake = useProjectStore((s) => s.setActiveTake);
+    const clearComp = useProjectStore((s) => s.clearComp);
+
+    if (!project) return null;
+    const clips = getMultiTakeClips(project.clips, track.id);
+    const hasComp = clips.some((c) => (c.compRegions?.length ?? 0) > 0);
+
+    const handleSelectTake = (index: number) => {
+        for (const clip of clips) {
+            const takeId = clip.audioTakeIds?.[index];
+            if (takeId) setActiveTake(clip.id, takeId);
+        }
+    };
+
+    return (
+        <div className="border-t border-border/50 bg-surface-elevated/50" onClick={(e) => e.stopPropagation()}>
+            {Array.from({ length: laneCount }, (_, index) => {
+                const isActive = clips.some((c) => c.activeTakeId === c.audioTakeIds?.[index]);
+                return (
+                    <div
+                        key={index}
+                        className="flex items-center gap-1 px-2"
+                        style={{ height: TAKE_LANE_HEIGHT }}
+                    >
+                        <button
+                            className={`flex-1 truncate text-left text-xs ${isActive ? 'text-accent' : 'text-muted-foreground hover:text-foreground'}`}
+                            onClick={() => handleSelectTake(index)}
+                            title="Use this take for the whole clip"
+                        >
+                            Take {index + 1}
+                        </button>
+                        {index === 0 && hasComp && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-5 w-5 text-muted-foreground hover:text-destructive"
+                                onClick={() => clips.forEach((c) => clearComp(c.id))}
+                                title="Clear comp"
+                            >
+                                <Eraser className="h-3 w-3" />
+                            </Button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+// ============================================
+// Lanes Editor (timeline area)
+// ============================================
+
+interface TakeLanesEditorProps {
+    track: Track;
+    laneCount: number;
+    top: number;
+    width: number;
+    pixelsPerBar: number;
+}
+
+interface SwipeState {
+    clipId: string;
+    takeId: string;
+    start: number;  // seconds on the take timeline
+    end: number;
+}
+
+/**
+ * Drag across a take to swipe that range into the comp; double-click a
+ * take to play it whole. Highlighted ranges are the ones heard.
+ */
+export function TakeLanesEditor({ track, laneCount, top, width, pixelsPerBar }: TakeLanesEditorProps) {
+    const project = useProjectStore((s) => s.project);
+    const paintCompRegion = useProjectStore((s) => s.paintCompRegion);
+    const setActiveTake = useProjectStore((s) => s.setActiveTake);
+
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [swipe, setSwipe] = useState<SwipeState | null>(null);
+
+    const tempoMap = project ? getTempoMap(project) : null;
+
+    // Convert a mouse event to a take time within a clip's visible span
+    const eventToTakeTime = useCallback((e: { clientX: number }, clip: Clip) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect || !tempoMap) return null;
+
+        const span = getClipTakeSpan(clip, tempoMap);
+        const time = xToTakeTime(clip, e.clientX - rect.left, tempoMap, pixelsPerBar);
+        return Math.max(span.start, Math.min(span.end, time));
+    }, [tempoMap, pixelsPerBar]);
+
+    // Commit swipes on mouse up so each one is a single undo step
+    useEffect(() => {
+        if (!swipe || !project) return;
+        const clip = project.clips.find((c) => c.id === swipe.clipId);
+        if (!clip) return;
+
+        const handleMouseMove = (e: MouseEvent) => {
+            const time = eventToTakeTime(e, clip);
+            if (time !== null) setSwipe({ ...swipe, end: time });
+        };
+
+        const handleMouseUp = () => {
+            paintCompRegion(swipe.clipId, swipe.takeId, swipe.start, swipe.end);
+            setSwipe(null);
+        };
+
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+    }, [swipe, project, eventToTakeTime, paintCompRegion]);
+
+    const handleTakeMouseDown = useCallback((e: React.MouseEvent, clip: Clip, takeId: string) => {
+        if (e.button !== 0) return;
+        e.stopPropagation();
+
+        const time = eventToTakeTime(e, clip);
+        if (time !== null) {
+            setSwipe({ clipId: clip.id, takeId, start: time, end: time });
+        }
+    }, [eventToTakeTime]);
+
+    if (!project || !tempoMap) return null;
+    const clips = getMultiTakeClips(project.clips, track.id);
+
+    return (
+        <div
+            ref={containerRef}
+            className="absolute left-0 border-b border-border/50 bg-surface/40"
+            style={{ top, height: laneCount * TAKE_LANE_HEIGHT, width }}
+        >
+            {clips.map((clip) => {
+                const span = getClipTakeSpan(clip, tempoMap);
+                const left = clip.startBar * pixelsPerBar;
+                const clipWidth = clip.lengthBars * pixelsPerBar;
+                const duration = Math.max(
+                    span.end,
+                    ...(clip.audioTakeIds || []).map((id) => getAudioTake(id)?.duration ?? 0)
+                );
+                const segments = getCompSegments(clip, duration);
+
+                return (clip.audioTakeIds || []).map((takeId, index) => {
+                    const heard = segments
+                        .filter((s) => s.takeId === takeId && s.end > span.start && s.start < span.end)
+                        .map((s) => ({
+                            start: Math.max(s.start, span.start),
+                            end: Math.min(s.end, span.end),
+                        }));
+
+                    return (
+                        <div
+                            key={`${clip.id}-${takeId}`}
+                            className="absolute cursor-text overflow-hidden rounded-sm border border-border/60 bg-muted/30"
+                            style={{
+                                left,
+                                width: clipWidth,
+                                top: index * TAKE_LANE_HEIGHT + 2,
+                                height: TAKE_LANE_HEIGHT - 4,
+                            }}
+                            onMouseDown={(e) => handleTakeMouseDown(e, clip, takeId)}
+                            onDoubleClick={(e) => {
+                                e.stopPropagation();
+                                setActiveTake(clip.id, takeId);
+                            }}
+                            title={`Take ${index + 1}`}
+                        >
+                            {heard.map((range) => (
+                                <div
+                                    key={range.start}
+                                    className="absolute top-0 h-full bg-accent/40"
+                                    style={{
+                                        left: takeTimeToX(clip, range.start, tempoMap, pixelsPerBar) - left,
+                                        width: (takeTimeToX(clip, range.end, tempoMap, pixelsPerBar) -
+                                            takeTimeToX(clip, range.start, tempoMap, pixelsPerBar)),
+                                    }}
+                                />
+                            ))}
+                            {swipe?.clipId === clip.id && swipe.takeId === takeId && (
+                                <div
+                                    className="absolute top-0 h-full border-x border-accent bg-accent/30"
+                                    style={{
+                                        left: takeTimeToX(clip, Math.min(swipe.start, swipe.end), tempoMap, pixelsPerBar) - left,
+                                        width: Math.abs(
+                                            takeTimeToX(clip, swipe.end, tempoMap, pixelsPerBar) -
+                                            takeTimeToX(clip, swipe.start, tempoMap, pixelsPerBar)
+                                        ),
+                                    }}
+                                />
+                            )}
+                            <span className="pointer-events-none absolute left-1 top-0.5 text-[10px] text-muted-foreground">
+                                {index + 1}
+                            </span>
+                        </div>
+                    );
+                });
+            })}
+        </div>
+    );
+}
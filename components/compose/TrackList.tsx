@@ -3,7 +3,18 @@
 import { useCallback, useRef, useEffect, useState } from 'react';
 import * as Tone from 'tone';
 import { useTheme } from 'next-themes';
-import { audioEngine } from '@/lib/audio';
+import { toast } from 'sonner';
+import {
+    audioEngine,
+    getTempoMap,
+    getWarpedDuration,
+    getWarpedLengthBars,
+    getKeyShift,
+    getNearestTempo,
+    isTempoMatched,
+    isTrackFrozen,
+    type TempoMap,
+} from '@/lib/audio';
 import { loadSampleAsAudioTake, loadUserSampleAsAudioTake } from '@/lib/audio/sample-loader';
 import {
     DndContext,
@@ -29,7 +40,10 @@ import {
     Trash2,
     Plus,
     GripVertical,
-    Mic
+    Mic,
+    Activity,
+    Layers,
+    Snowflake
 } from 'lucide-react';
 import { useProjectStore, useUIStore, usePlaybackStore } from '@/lib/store';
 import { playbackRefs } from '@/lib/store/playback';
@@ -42,12 +56,16 @@ import {
 } from '@/components/ui/tooltip';
 import { DraggableClip } from './DraggableClip';
 import { LoopBraces } from './LoopBraces';
-import type { Track, TrackColor } from '@/types';
+import { AutomationLaneEditor, AutomationLaneHeader, AUTOMATION_LANE_HEIGHT } from './AutomationLane';
+import { MidiLearnable } from './MidiLearnable';
+import { TakeLanesEditor, TakeLanesHeader, TAKE_LANE_HEIGHT, getTakeLaneCount } from './TakeLanes';
+import type { AutomationTarget, Clip, Track, TrackColor } from '@/types';
 
 const TRACK_HEIGHT = 80;
 const TRACK_HEADER_WIDTH = 180;
 const RULER_HEIGHT = 24;
 const DEFAULT_PROJECT_BARS = 32;
+const MIN_TIMELINE_SECONDS = 300;
 
 const TRACK_HEADER_COLORS: Record<TrackColor, string> = {
     drums: '#ef4444',
@@ -64,8 +82,49 @@ const FX_ABBR: Record<string, string> = {
     distortion: 'DIST',
     filter: 'FILT',
     compression: 'COMP',
+    eq: 'EQ',
+    limiter: 'LIM',
+    widener: 'WIDE',
 };
 
+/**
+ * After a user sample with a detected tempo/key lands, offer to stretch
+ * and transpose it to the project's
+ */
+function offerSampleMatch(clipId: string, takeDuration: number, sampleBpm?: number, sampleKey?: string) {
+    const project = useProjectStore.getState().project;
+    if (!project || (!sampleBpm && !sampleKey)) return;
+
+    const changes: Partial<Clip> = {};
+    if (sampleBpm && !isTempoMatched(sampleBpm, project.bpm)) {
+        changes.warpMode = 'stretch';
+        changes.sourceBpm = getNearestTempo(sampleBpm, project.bpm);
+    }
+    const keyShift = sampleKey ? getKeyShift(sampleKey, project.key, project.scale) : null;
+    if (keyShift) {
+        changes.pitchShift = keyShift;
+    }
+    if (Object.keys(changes).length === 0) return;
+
+    const detected = [sampleBpm && `${sampleBpm} BPM`, sampleKey].filter(Boolean).join(', ');
+    toast(`Sample is ${detected}`, {
+        description: `Match the project (${project.bpm} BPM, ${project.key} ${project.scale})?`,
+        action: {
+            label: 'Match',
+            onClick: () => {
+                const state = useProjectStore.getState();
+                const clip = state.project?.clips.find((c) => c.id === clipId);
+                if (!clip || !state.project) return;
+
+                state.updateClip(clipId, {
+                    ...changes,
+                    lengthBars: getWarpedLengthBars({ ...clip, ...changes }, takeDuration, getTempoMap(state.project)),
+                });
+            },
+        },
+    });
+}
+
 // Demo notes for different instrument types (startBeat is relative to clip start)
 // MIDI pitch: C4 = 60, C3 = 48, etc.
 function getDemoNotesForInstrument(instrumentId: string): Array<{ pitch: number; startBeat: number; duration: number; velocity: number }> {
@@ -723,6 +782,10 @@ export function TrackList() {
     const scrollX = useUIStore((s) => s.scrollX);
     const setScrollX = useUIStore((s) => s.setScrollX);
     const setScrollY = useUIStore((s) => s.setScrollY);
+    const automationLanes = useUIStore((s) => s.automationLanes);
+    const toggleAutomationLane = useUIStore((s) => s.toggleAutomationLane);
+    const takeLanes = useUIStore((s) => s.takeLanes);
+    const toggleTakeLanes = useUIStore((s) => s.toggleTakeLanes);
 
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const rulerCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -733,9 +796,13 @@ export function TrackList() {
     const playheadRef = useRef<HTMLDivElement>(null);
     const animationRef = useRef<number>(0);
 
+    // The timeline is linear in bars; beats subdivide each bar by its own meter
     const beatsPerBar = project?.timeSignature[0] || 4;
     const pixelsPerBeat = zoom / beatsPerBar;
-    const projectLengthBeats = DEFAULT_PROJECT_BARS * beatsPerBar;
+    const tempoMap = project ? getTempoMap(project) : null;
+    const timelineBars = tempoMap
+        ? Math.max(DEFAULT_PROJECT_BARS, Math.ceil(tempoMap.secondsToBar(MIN_TIMELINE_SECONDS)))
+        : DEFAULT_PROJECT_BARS;
 
     // DnD sensors for track reordering
     const sensors = useSensors(
@@ -789,42 +856,57 @@ export function TrackList() {
         const beatColor = isDark ? 'hsl(0 0% 30%)' : 'hsl(0 0% 70%)';
         const textColor = isDark ? 'hsl(0 0% 60%)' : 'hsl(0 0% 40%)';
         const borderColor = isDark ? 'hsl(0 0% 20%)' : 'hsl(0 0% 85%)';
+        const tempoMarkerColor = 'hsl(36 100% 50%)';
 
         // Background
         ctx.fillStyle = bgColor;
         ctx.fillRect(0, 0, width, height);
 
-        const bpb = project.timeSignature[0];
-        const totalBeats = Math.max(projectLengthBeats, Math.ceil(300 * (project.bpm / 60)));
+        const tempoMap = getTempoMap(project);
 
-        for (let beat = 0; beat <= totalBeats; beat++) {
-            const x = beat * pixelsPerBeat;
-            if (x > width) break;
+        for (let bar = 0; bar <= timelineBars; bar++) {
+            const barX = bar * zoom;
+            if (barX > width) break;
 
-            const isDownbeat = beat % bpb === 0;
-            const barNumber = Math.floor(beat / bpb) + 1;
+            const bpb = tempoMap.getBeatsPerBarAt(bar);
+            for (let beat = 0; beat < bpb; beat++) {
+                const x = barX + (beat * zoom) / bpb;
+                const isDownbeat = beat === 0;
 
-            ctx.beginPath();
-            ctx.moveTo(x, height);
-            ctx.lineTo(x, isDownbeat ? height - 12 : height - 6);
-            ctx.strokeStyle = isDownbeat ? downbeatColor : beatColor;
-            ctx.lineWidth = 1;
-            ctx.stroke();
-
-            if (isDownbeat) {
-                ctx.fillStyle = textColor;
-                ctx.font = '10px system-ui';
-                ctx.fillText(`${barNumber}`, x + 4, 12);
+                ctx.beginPath();
+                ctx.moveTo(x, height);
+                ctx.lineTo(x, isDownbeat ? height - 12 : height - 6);
+                ctx.strokeStyle = isDownbeat ? downbeatColor : beatColor;
+                ctx.lineWidth = 1;
+                ctx.stroke();
             }
+
+            ctx.fillStyle = textColor;
+            ctx.font = '10px system-ui';
+            ctx.fillText(`${bar + 1}`, barX + 4, 12);
         }
 
+        // Tempo and meter change markers
+        ctx.fillStyle = tempoMarkerColor;
+        ctx.font = '9px system-ui';
+        tempoMap.segments.forEach((segment, index) => {
+            if (index === 0) return;
+            const previous = tempoMap.segments[index - 1];
+            const meterChanged = segment.timeSignature.join('/') !== previous.timeSignature.join('/');
+            const label = [
+                meterChanged ? segment.timeSignature.join('/') : null,
+                `${previous.startBpm !== previous.endBpm ? '↗' : '♩'}${Math.round(segment.startBpm)}`,
+            ].filter(Boolean).join(' ');
+            ctx.fillText(label, segment.startBar * zoom + 20, 12);
+        });
+
         ctx.beginPath();
         ctx.moveTo(0, height - 0.5);
         ctx.lineTo(width, height - 0.5);
         ctx.strokeStyle = borderColor;
         ctx.lineWidth = 1;
         ctx.stroke();
-    }, [project, pixelsPerBeat, projectLengthBeats, resolvedTheme]);
+    }, [project, zoom, timelineBars, resolvedTheme]);
 
     // Update playhead position (during playback AND recording)
     useEffect(() => {
@@ -842,8 +924,7 @@ export function TrackList() {
                 time = playbackRefs.currentTimeRef.current;
             }
 
-            const beatsElapsed = (time / 60) * project.bpm;
-            const absoluteX = beatsElapsed * pixelsPerBeat;
+            const absoluteX = getTempoMap(project).secondsToBar(time) * zoom;
 
             playheadRef.current.style.transform = `translate3d(${absoluteX}px, 0, 0)`;
 
@@ -877,7 +958,7 @@ export function TrackList() {
                 cancelAnimationFrame(animationRef.current);
             }
         };
-    }, [isPlaying, isRecording, positionVersion, project, pixelsPerBeat]);
+    }, [isPlaying, isRecording, positionVersion, project, zoom]);
 
     // Redraw ruler on changes
     useEffect(() => {
@@ -897,15 +978,13 @@ export function TrackList() {
         // Since the canvas spans the full content width and scrolls with the container,
         // we don't need to add scrollLeft - the click position is already correct
         const x = e.clientX - rect.left;
-        const beat = x / pixelsPerBeat;
-        const secondsPerBeat = 60 / project.bpm;
-        const time = Math.max(0, beat * secondsPerBeat);
+        const time = Math.max(0, getTempoMap(project).barToSeconds(x / zoom));
 
         // Update store and ref (seekTo increments positionVersion to trigger playhead update)
         seekTo(time);
         // Seek the audio engine so playback starts from this position
         audioEngine.seek(time);
-    }, [project, pixelsPerBeat, seekTo]);
+    }, [project, zoom, seekTo]);
 
     // Apply scrollX state to container
     useEffect(() => {
@@ -968,6 +1047,11 @@ export function TrackList() {
         addTrack('midi', `Track ${(project?.tracks.length || 0) + 1}`);
     }, [addTrack, project?.tracks.length]);
 
+    const handleAddBus = useCallback(() => {
+        const busCount = project?.tracks.filter((t) => t.type === 'bus').length || 0;
+        addTrack('bus', `Bus ${String.fromCharCode(65 + (busCount % 26))}`, 'fx');
+    }, [addTrack, project?.tracks]);
+
     const handleMuteToggle = useCallback((track: Track) => {
         updateTrack(track.id, { muted: !track.muted });
     }, [updateTrack]);
@@ -994,9 +1078,22 @@ export function TrackList() {
 
     if (!project) return null;
 
-    const contentWidth = Math.max(projectLengthBeats, Math.ceil(300 * (project.bpm / 60))) * pixelsPerBeat;
+    const contentWidth = timelineBars * zoom;
     const trackIds = project.tracks.map((t) => t.id);
 
+    // Row heights grow when a track's take or automation lanes are open
+    const takeLaneCounts = project.tracks.map((t) => getTakeLaneCount(project.clips, t.id));
+    const openTakeLaneCounts = project.tracks.map((t, i) => (takeLanes[t.id] ? takeLaneCounts[i] : 0));
+    const trackHeights = project.tracks.map((t, i) =>
+        TRACK_HEIGHT +
+        openTakeLaneCounts[i] * TAKE_LANE_HEIGHT +
+        (automationLanes[t.id] ? AUTOMATION_LANE_HEIGHT : 0)
+    );
+    const trackTops = trackHeights.map((_, i) =>
+        trackHeights.slice(0, i).reduce((sum, h) => sum + h, 0)
+    );
+    const tracksHeight = trackHeights.reduce((sum, h) => sum + h, 0);
+
     return (
         <div className="flex flex-1 overflow-hidden">
             {/* Track headers column (fixed left) */}
@@ -1018,27 +1115,44 @@ export function TrackList() {
                 >
                     <SortableContext items={trackIds} strategy={verticalListSortingStrategy}>
                         <div className="flex-1 overflow-y-auto overflow-x-hidden">
-                            {project.tracks.map((track) => (
+                            {project.tracks.map((track, index) => (
                                 <SortableTrackHeader
                                     key={track.id}
                                     track={track}
                                     isSelected={selectedTrackId === track.id}
+                                    isFrozen={isTrackFrozen(track, project)}
                                     onSelect={() => selectTrack(track.id)}
                                     onMuteToggle={() => handleMuteToggle(track)}
                                     onSoloToggle={() => handleSoloToggle(track)}
                                     onArmToggle={() => handleArmToggle(track)}
                                     onVolumeChange={(v) => handleVolumeChange(track, v)}
                                     onDelete={() => handleDeleteTrack(track.id)}
+                                    automationTarget={automationLanes[track.id]}
+                                    onAutomationToggle={() => toggleAutomationLane(track.id)}
+                                    takeLaneCount={openTakeLaneCounts[index]}
+                                    onTakeLanesToggle={takeLaneCounts[index] > 0
+                                        ? () => toggleTakeLanes(track.id)
+                                        : undefined}
                                 />
                             ))}
 
-                            <button
-                                onClick={handleAddTrack}
-                                className="flex w-full items-center justify-center gap-2 border-b border-border py-4 text-sm text-muted-foreground transition-colors hover:bg-surface-elevated hover:text-foreground"
-                            >
-                                <Plus className="h-4 w-4" />
-                                Add Track
-                            </button>
+                            <div className="flex border-b border-border">
+                                <button
+                                    onClick={handleAddTrack}
+                                    className="flex flex-1 items-center justify-center gap-2 py-4 text-sm text-muted-foreground transition-colors hover:bg-surface-elevated hover:text-foreground"
+                                >
+                                    <Plus className="h-4 w-4" />
+                                    Add Track
+                                </button>
+                                <button
+                                    onClick={handleAddBus}
+                                    className="flex items-center justify-center gap-1 border-l border-border px-3 py-4 text-sm text-muted-foreground transition-colors hover:bg-surface-elevated hover:text-foreground"
+                                    title="Add a bus track for shared effects (send/return)"
+                                >
+                                    <Plus className="h-3 w-3" />
+                                    Bus
+                                </button>
+                            </div>
                         </div>
                     </SortableContext>
                 </DndContext>
@@ -1056,7 +1170,7 @@ export function TrackList() {
                     className="relative"
                     style={{
                         width: contentWidth,
-                        minHeight: `${RULER_HEIGHT + project.tracks.length * TRACK_HEIGHT + 100}px`,
+                        minHeight: `${RULER_HEIGHT + tracksHeight + 100}px`,
                     }}
                 >
                     {/* Sticky ruler (stays at top while scrolling vertically) */}
@@ -1081,11 +1195,10 @@ export function TrackList() {
                     <div className="relative">
                         {/* Grid lines */}
                         <GridLines
-                            bpm={project.bpm}
-                            timeSignature={project.timeSignature}
-                            pixelsPerBeat={pixelsPerBeat}
-                            trackCount={project.tracks.length}
-                            projectLengthBeats={projectLengthBeats}
+                            tempoMap={getTempoMap(project)}
+                            pixelsPerBar={zoom}
+                            trackHeights={trackHeights}
+                            timelineBars={timelineBars}
                         />
 
                         {/* Track lanes */}
@@ -1093,13 +1206,38 @@ export function TrackList() {
                             <TrackLane
                                 key={track.id}
                                 track={track}
-                                index={index}
+                                top={trackTops[index]}
                                 pixelsPerBeat={pixelsPerBeat}
                                 beatsPerBar={beatsPerBar}
                                 isSelected={selectedTrackId === track.id}
                                 onSelect={() => selectTrack(track.id)}
                             />
                         ))}
+
+                        {/* Take lanes */}
+                        {project.tracks.map((track, index) => openTakeLaneCounts[index] > 0 && (
+                            <TakeLanesEditor
+                                key={`takes-${track.id}`}
+                                track={track}
+                                laneCount={openTakeLaneCounts[index]}
+                                top={trackTops[index] + TRACK_HEIGHT}
+                                width={contentWidth}
+                                pixelsPerBar={zoom}
+                            />
+                        ))}
+
+                        {/* Automation lanes */}
+                        {project.tracks.map((track, index) => automationLanes[track.id] && (
+                            <AutomationLaneEditor
+                                key={`automation-${track.id}`}
+                                track={track}
+                                target={automationLanes[track.id]}
+                                top={trackTops[index] + TRACK_HEIGHT + openTakeLaneCounts[index] * TAKE_LANE_HEIGHT}
+                                width={contentWidth}
+                                pixelsPerBeat={pixelsPerBeat}
+                                beatsPerBar={beatsPerBar}
+                            />
+                        ))}
                     </div>
 
                     {/* Single unified playhead (ruler + tracks) */}
@@ -1109,7 +1247,7 @@ export function TrackList() {
                         style={{
                             transform: 'translate3d(0, 0, 0)',
                             top: 0,
-                            height: `${RULER_HEIGHT + project.tracks.length * TRACK_HEIGHT}px`
+                            height: `${RULER_HEIGHT + tracksHeight}px`
                         }}
                     />
                 </div>
@@ -1131,6 +1269,11 @@ interface TrackHeaderProps {
     onArmToggle: () => void;
     onVolumeChange: (volume: number) => void;
     onDelete: () => void;
+    automationTarget?: AutomationTarget;
+    onAutomationToggle?: () => void;
+    takeLaneCount?: number;
+    onTakeLanesToggle?: () => void;
+    isFrozen?: boolean;
 }
 
 function _TrackHeader({
@@ -1288,6 +1431,16 @@ function SortableTrackHeader(props: TrackHeaderProps) {
                     <span className="flex-1 truncate text-sm font-medium">
                         {props.track.name}
                     </span>
+                    {props.isFrozen && (
+                        <span title="Frozen: playing a render until the track is edited">
+                            <Snowflake className="h-3 w-3 text-sky-400" />
+                        </span>
+                    )}
+                    {props.track.type === 'bus' && (
+                        <span className="text-[9px] font-bold px-1 rounded-[2px] bg-muted text-muted-foreground border border-border uppercase tracking-wider">
+                            Bus
+                        </span>
+                    )}
                     <Button
                         variant="ghost"
                         size="icon"
@@ -1332,7 +1485,7 @@ function SortableTrackHeader(props: TrackHeaderProps) {
                         <Headphones className="h-3.5 w-3.5" />
                     </Button>
 
-                    {props.track.type === 'audio' && (
+                    {props.track.type !== 'bus' && (
                         <Button
                             variant="ghost"
                             size="icon"
@@ -1347,16 +1500,51 @@ function SortableTrackHeader(props: TrackHeaderProps) {
                         </Button>
                     )}
 
-                    <input
-                        type="range"
-                        min={0}
-                        max={1}
-                        step={0.01}
-                        value={props.track.volume}
-                        onChange={(e) => props.onVolumeChange(parseFloat(e.target.value))}
-                        onClick={(e) => e.stopPropagation()}
-                        className="h-1 flex-1 cursor-pointer appearance-none rounded-full bg-muted [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary"
-                    />
+                    {props.onAutomationToggle && (
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className={`h-6 w-6 ${props.automationTarget ? 'text-accent' : 'text-muted-foreground'}`}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                props.onAutomationToggle?.();
+                            }}
+                            title={props.automationTarget ? 'Hide automation' : 'Show automation'}
+                        >
+                            <Activity className="h-3.5 w-3.5" />
+                        </Button>
+                    )}
+
+                    {props.onTakeLanesToggle && (
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className={`h-6 w-6 ${props.takeLaneCount ? 'text-accent' : 'text-muted-foreground'}`}
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                props.onTakeLanesToggle?.();
+                            }}
+                            title={props.takeLaneCount ? 'Hide takes' : 'Show takes'}
+                        >
+                            <Layers className="h-3.5 w-3.5" />
+                        </Button>
+                    )}
+
+                    <MidiLearnable
+                        target={{ kind: 'track', trackId: props.track.id, target: 'volume' }}
+                        className="flex flex-1 items-center"
+                    >
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            value={props.track.volume}
+                            onChange={(e) => props.onVolumeChange(parseFloat(e.target.value))}
+                            onClick={(e) => e.stopPropagation()}
+                            className="h-1 w-full cursor-pointer appearance-none rounded-full bg-muted [&::-webkit-slider-thumb]:h-3 [&::-webkit-slider-thumb]:w-3 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-primary"
+                        />
+                    </MidiLearnable>
                 </div>
 
                 {/* Active Effects Indicators */}
@@ -1395,20 +1583,28 @@ function SortableTrackHeader(props: TrackHeaderProps) {
                     </TooltipProvider>
                 )}
             </div>
+
+            {!!props.takeLaneCount && (
+                <TakeLanesHeader track={props.track} laneCount={props.takeLaneCount} />
+            )}
+
+            {props.automationTarget && (
+                <AutomationLaneHeader track={props.track} target={props.automationTarget} />
+            )}
         </div>
     );
 }
 
 interface TrackLaneProps {
     track: Track;
-    index: number;
+    top: number;
     pixelsPerBeat: number;
     beatsPerBar: number;
     isSelected: boolean;
     onSelect: () => void;
 }
 
-function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSelect }: TrackLaneProps) {
+function TrackLane({ track, top, pixelsPerBeat, beatsPerBar, isSelected, onSelect }: TrackLaneProps) {
     const project = useProjectStore((s) => s.project);
     const addClip = useProjectStore((s) => s.addClip);
     const updateClip = useProjectStore((s) => s.updateClip);
@@ -1431,6 +1627,7 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
     const handleDoubleClick = useCallback((e: React.MouseEvent) => {
         if (!project) return;
         if (e.target !== e.currentTarget) return; // Only on empty area
+        if (track.type === 'bus') return; // Buses only carry effects
 
         const rect = e.currentTarget.getBoundingClientRect();
         const x = e.clientX - rect.left;
@@ -1469,6 +1666,9 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
         try {
             const data = JSON.parse(e.dataTransfer.getData('application/json'));
 
+            // Buses only accept effects
+            if (track.type === 'bus' && data.type !== 'fx') return;
+
             // Calculate bar position from drop location
             const rect = e.currentTarget.getBoundingClientRect();
             const x = e.clientX - rect.left;
@@ -1493,15 +1693,22 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
                 selectClip(clip.id);
 
 
+                // Loops know their tempo, so they stretch to follow the project
+                const warp: Partial<Clip> = data.data.bpm
+                    ? { warpMode: 'stretch', sourceBpm: data.data.bpm }
+                    : {};
+
                 // 3. Load the audio data
                 loadSampleAsAudioTake(sampleUrl, sampleName, clip.id)
                     .then((take) => {
                         // 4. Update clip with correct duration and link to take
-                        const durationInBars = audioEngine.secondsToBar(take.duration);
+                        const duration = getWarpedDuration({ ...clip, ...warp }, take.duration, audioEngine.getTempoMap());
+                        const durationInBars = audioEngine.secondsToBarsAt(bar, duration);
                         // Use exact fractional bars for audio clips so visual width matches audio duration
                         const lengthBars = Math.max(0.25, durationInBars);
 
                         useProjectStore.getState().updateClip(clip.id, {
+                            ...warp,
                             audioTakeIds: [take.id],
                             activeTakeId: take.id,
                             lengthBars: lengthBars, // Auto-size to fit sample
@@ -1538,7 +1745,7 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
             } else if (data.type === 'fx') {
                 // Add effect to track
                 const preset = data.data;
-                addTrackEffect(track.id, preset.category, preset.id);
+                addTrackEffect(track.id, preset.type, preset.id, preset.params);
             } else if (data.type === 'user-sample') {
                 // Handle user-imported samples from IndexedDB
                 const sampleId = data.data.id;
@@ -1551,7 +1758,7 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
                 }
 
                 // 1. Create audio clip with estimated duration
-                const estimatedBars = audioEngine.secondsToBar(sampleDuration || 2);
+                const estimatedBars = audioEngine.secondsToBarsAt(bar, sampleDuration || 2);
                 const clip = addClip(track.id, 'audio', bar, Math.max(0.25, estimatedBars));
 
                 // 2. Set name immediately
@@ -1562,7 +1769,7 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
                 loadUserSampleAsAudioTake(sampleId, clip.id)
                     .then((take) => {
                         // 4. Update clip with correct duration and link to take
-                        const durationInBars = audioEngine.secondsToBar(take.duration);
+                        const durationInBars = audioEngine.secondsToBarsAt(bar, take.duration);
                         const lengthBars = Math.max(0.25, durationInBars);
 
                         useProjectStore.getState().updateClip(clip.id, {
@@ -1570,6 +1777,8 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
                             activeTakeId: take.id,
                             lengthBars: lengthBars,
                         });
+
+                        offerSampleMatch(clip.id, take.duration, data.data.bpm, data.data.key);
                     })
                     .catch((err) => {
                         console.error('[TrackLane] Failed to load user sample:', err);
@@ -1578,7 +1787,7 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
         } catch (err) {
             console.error('[TrackLane] Failed to parse drop data:', err);
         }
-    }, [track.id, track.color, pixelsPerBeat, beatsPerBar, addClip, updateClip, addNote, selectClip, openEditor, updateTrack, addTrackEffect]);
+    }, [track.id, track.type, track.color, pixelsPerBeat, beatsPerBar, addClip, updateClip, addNote, selectClip, openEditor, updateTrack, addTrackEffect]);
 
     if (!project) return null;
 
@@ -1587,10 +1796,10 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
     return (
         <div
             className={`absolute left-0 right-0 border-b border-border/50 transition-colors ${isSelected ? 'bg-accent/5' : ''
-                } ${track.muted ? 'opacity-50' : ''} ${isDragOver ? 'bg-accent/20 ring-1 ring-accent ring-inset' : ''
+                } ${track.type === 'bus' ? 'bg-muted/20' : ''} ${track.muted ? 'opacity-50' : ''} ${isDragOver ? 'bg-accent/20 ring-1 ring-accent ring-inset' : ''
                 }`}
             style={{
-                top: index * TRACK_HEIGHT,
+                top,
                 height: TRACK_HEIGHT,
             }}
             onClick={handleLaneClick}
@@ -1613,42 +1822,46 @@ function TrackLane({ track, index, pixelsPerBeat, beatsPerBar, isSelected, onSel
 }
 
 interface GridLinesProps {
-    bpm: number;
-    timeSignature: [number, number];
-    pixelsPerBeat: number;
-    trackCount: number;
-    projectLengthBeats: number;
+    tempoMap: TempoMap;
+    pixelsPerBar: number;
+    trackHeights: number[];
+    timelineBars: number;
 }
 
-function GridLines({ bpm, timeSignature, pixelsPerBeat, trackCount, projectLengthBeats }: GridLinesProps) {
-    const beatsPerBar = timeSignature[0];
-    const totalBeats = Math.max(projectLengthBeats, Math.ceil(300 * (bpm / 60)));
+function GridLines({ tempoMap, pixelsPerBar, trackHeights, timelineBars }: GridLinesProps) {
     const lines = [];
-    const totalHeight = trackCount * TRACK_HEIGHT;
+    const totalHeight = trackHeights.reduce((sum, h) => sum + h, 0);
 
-    // Vertical lines for beats/bars
-    for (let beat = 0; beat <= totalBeats; beat++) {
-        const isDownbeat = beat % beatsPerBar === 0;
-        const x = beat * pixelsPerBeat;
+    // Vertical lines for beats/bars, subdivided by each bar's meter
+    for (let bar = 0; bar <= timelineBars; bar++) {
+        const beatsPerBar = tempoMap.getBeatsPerBarAt(bar);
+        const beats = bar === timelineBars ? 1 : beatsPerBar;
 
-        lines.push(
-            <div
-                key={beat}
-                className={`grid-line ${isDownbeat ? 'downbeat' : 'bar'}`}
-                style={{ left: x, height: totalHeight }}
-            />
-        );
+        for (let beat = 0; beat < beats; beat++) {
+            const isDownbeat = beat === 0;
+            const x = (bar + beat / beatsPerBar) * pixelsPerBar;
+
+            lines.push(
+                <div
+                    key={`${bar}-${beat}`}
+                    className={`grid-line ${isDownbeat ? 'downbeat' : 'bar'}`}
+                    style={{ left: x, height: totalHeight }}
+                />
+            );
+        }
     }
 
     // Horizontal lines for track separators
-    for (let i = 0; i <= trackCount; i++) {
+    let separatorTop = 0;
+    for (let i = 0; i <= trackHeights.length; i++) {
         lines.push(
             <div
                 key={`h-${i}`}
                 className="absolute left-0 right-0 h-px bg-border/30"
-                style={{ top: i * TRACK_HEIGHT }}
+                style={{ top: separatorTop }}
             />
         );
+        separatorTop += trackHeights[i] ?? 0;
     }
 
     return (
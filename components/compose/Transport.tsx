@@ -29,13 +29,16 @@ import {
 import { KeyboardShortcutsModal } from './KeyboardShortcutsModal';
 import { ExportModal } from './ExportModal';
 import { ImportModal } from './ImportModal';
+import { MasterMeter } from './MasterMeter';
+import { MidiInputMenu } from './MidiInputMenu';
+import { MidiLearnable } from './MidiLearnable';
 import { useTheme } from 'next-themes';
 import { MusicWave } from '@/components/MusicWave';
 import { useProjectStore, usePlaybackStore, useUIStore } from '@/lib/store';
 import { playbackRefs } from '@/lib/store/playback';
-import { audioEngine, recordingManager } from '@/lib/audio';
+import { audioEngine, recordingManager, midiInput, getTempoMap } from '@/lib/audio';
 import { formatTime, formatBarsBeats } from '@/lib/utils';
-import { useShortcut } from '@/hooks';
+import { useShortcut, useMidiMappings } from '@/hooks';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Input } from '@/components/ui/input';
@@ -186,7 +189,11 @@ export function Transport({
 
         if (isRecording) {
             // Stop recording
-            await recordingManager.stopRecording();
+            if (midiInput.isRecording()) {
+                await midiInput.stopRecording();
+            } else {
+                await recordingManager.stopRecording();
+            }
         } else {
             // Start recording - need an armed track
             if (!armedTrack) {
@@ -194,6 +201,16 @@ export function Transport({
                 return;
             }
 
+            // MIDI and drum tracks record notes from the MIDI input
+            if (armedTrack.type !== 'audio') {
+                try {
+                    await midiInput.startRecording(armedTrack.id, countInBars);
+                } catch (error) {
+                    console.error('[Transport] Failed to start MIDI recording:', error);
+                }
+                return;
+            }
+
             // Initialize recorder on-demand if not ready
             if (!isRecorderReady) {
                 try {
@@ -221,6 +238,13 @@ export function Transport({
         }
     }, [isAudioReady, isRecording, armedTrack, countInBars, isRecorderReady]);
 
+    // Transport buttons mapped to MIDI controller buttons
+    useMidiMappings({
+        playPause: onPlayPause,
+        stop: onStop,
+        record: handleRecord,
+    });
+
     if (!project) return null;
 
     return (
@@ -301,66 +325,72 @@ export function Transport({
 
                     {/* Playback controls */}
                     <div className="flex items-center gap-0.5">
-                        <Tooltip>
-                            <TooltipTrigger asChild>
-                                <Button
-                                    variant={isPlaying ? "transport-active" : "transport"}
-                                    size="icon-sm"
-                                    onClick={onPlayPause}
-                                >
-                                    {isPlaying ? (
-                                        <Pause className="h-4 w-4" />
-                                    ) : (
-                                        <Play className="h-4 w-4" />
-                                    )}
-                                </Button>
-                            </TooltipTrigger>
-                            <TooltipContent side="bottom">
-                                <p>{isPlaying ? 'Pause' : 'Play'} <kbd className="ml-1 text-xs opacity-60">Space</kbd></p>
-                            </TooltipContent>
-                        </Tooltip>
-
-                        <Tooltip>
-                            <TooltipTrigger asChild>
-                                <Button
-                                    variant="transport"
-                                    size="icon-sm"
-                                    onClick={onStop}
-                                >
-                                    <Square className="h-3 w-3" />
-                                </Button>
-                            </TooltipTrigger>
-                            <TooltipContent side="bottom">
-                                <p>Stop</p>
-                            </TooltipContent>
-                        </Tooltip>
-
-                        <Tooltip>
-                            <TooltipTrigger asChild>
-                                <Button
-                                    variant={isRecording ? "transport-record-active" : "transport-record"}
-                                    size="icon-sm"
-                                    onClick={handleRecord}
-                                    disabled={!isAudioReady || (!isRecording && !armedTrack)}
-                                    className={isCountingIn ? 'animate-pulse' : ''}
-                                >
-                                    <Circle
-                                        className="h-3 w-3"
-                                        fill={isRecording ? 'currentColor' : 'none'}
-                                    />
-                                </Button>
-                            </TooltipTrigger>
-                            <TooltipContent side="bottom">
-                                <p>
-                                    {recorderError
-                                        ? recorderError
-                                        : armedTrack
-                                            ? `Record - ${armedTrack.name}`
-                                            : 'Arm a track to record'}
-                                    <kbd className="ml-1 text-xs opacity-60">R</kbd>
-                                </p>
-                            </TooltipContent>
-                        </Tooltip>
+                        <MidiLearnable target={{ kind: 'transport', action: 'playPause' }}>
+                            <Tooltip>
+                                <TooltipTrigger asChild>
+                                    <Button
+                                        variant={isPlaying ? "transport-active" : "transport"}
+                                        size="icon-sm"
+                                        onClick={onPlayPause}
+                                    >
+                                        {isPlaying ? (
+                                            <Pause className="h-4 w-4" />
+                                        ) : (
+                                            <Play className="h-4 w-4" />
+                                        )}
+                                    </Button>
+                                </TooltipTrigger>
+                                <TooltipContent side="bottom">
+                                    <p>{isPlaying ? 'Pause' : 'Play'} <kbd className="ml-1 text-xs opacity-60">Space</kbd></p>
+                                </TooltipContent>
+                            </Tooltip>
+                        </MidiLearnable>
+
+                        <MidiLearnable target={{ kind: 'transport', action: 'stop' }}>
+                            <Tooltip>
+                                <TooltipTrigger asChild>
+                                    <Button
+                                        variant="transport"
+                                        size="icon-sm"
+                                        onClick={onStop}
+                                    >
+                                        <Square className="h-3 w-3" />
+                                    </Button>
+                                </TooltipTrigger>
+                                <TooltipContent side="bottom">
+                                    <p>Stop</p>
+                                </TooltipContent>
+                            </Tooltip>
+                        </MidiLearnable>
+
+                        <MidiLearnable target={{ kind: 'transport', action: 'record' }}>
+                            <Tooltip>
+                                <TooltipTrigger asChild>
+                                    <Button
+                                        variant={isRecording ? "transport-record-active" : "transport-record"}
+                                        size="icon-sm"
+                                        onClick={handleRecord}
+                                        disabled={!isAudioReady || (!isRecording && !armedTrack)}
+                                        className={isCountingIn ? 'animate-pulse' : ''}
+                                    >
+                                        <Circle
+                                            className="h-3 w-3"
+                                            fill={isRecording ? 'currentColor' : 'none'}
+                                        />
+                                    </Button>
+                                </TooltipTrigger>
+                                <TooltipContent side="bottom">
+                                    <p>
+                                        {recorderError
+                                            ? recorderError
+                                            : armedTrack
+                                                ? `Record - ${armedTrack.name}`
+                                                : 'Arm a track to record'}
+                                        <kbd className="ml-1 text-xs opacity-60">R</kbd>
+                                    </p>
+                                </TooltipContent>
+                            </Tooltip>
+                        </MidiLearnable>
                     </div>
 
                     <Separator orientation="vertical" className="h-5 mx-1" />
@@ -426,7 +456,7 @@ export function Transport({
                         <TooltipTrigger asChild>
                             <div className="px-3 py-1.5 border-r border-border/50 cursor-default">
                                 <span className="font-mono text-sm tabular-nums text-foreground">
-                                    {formatBarsBeats(displayTime, project.bpm, project.timeSignature)}
+                                    {formatBarsBeats(displayTime, getTempoMap(project))}
                                 </span>
                             </div>
                         </TooltipTrigger>
@@ -448,6 +478,10 @@ export function Transport({
                     </Tooltip>
                 </div>
 
+                <div className="ml-2">
+                    <MasterMeter isAudioReady={isAudioReady} />
+                </div>
+
                 <Separator orientation="vertical" className="h-6 mx-4" />
 
                 {/* Tempo & Time Signature */}
@@ -663,6 +697,8 @@ export function Transport({
 
                 <Separator orientation="vertical" className="h-6" />
 
+                <MidiInputMenu isAudioReady={isAudioReady} armedTrack={armedTrack} />
+
                 <Tooltip>
                     <TooltipTrigger asChild>
                         <Button
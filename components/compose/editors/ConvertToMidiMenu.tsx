@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import { Music } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { useUIStore } from '@/lib/store';
+import {
+    convertClipToMidi,
+    AUDIO_TO_MIDI_MODES,
+    AUDIO_TO_MIDI_QUANTIZE,
+    type AudioToMidiMode,
+} from '@/lib/audio';
+import type { Clip } from '@/types';
+
+// ============================================
+// Convert to MIDI Menu
+// ============================================
+
+interface ConvertToMidiMenuProps {
+    clip: Clip;
+}
+
+export function ConvertToMidiMenu({ clip }: ConvertToMidiMenuProps) {
+    const openEditor = useUIStore((s) => s.openEditor);
+
+    const [open, setOpen] = useState(false);
+    const [mode, setMode] = useState<AudioToMidiMode>('melody');
+    const [quantize, setQuantize] = useState(0.25);
+    const [progress, setProgress] = useState<number | null>(null);
+
+    const isConverting = progress !== null;
+
+    const convert = async () => {
+        setProgress(0);
+        try {
+            const newClip = await convertClipToMidi(clip.id, { mode, quantize, onProgress: setProgress });
+
+            if (!newClip) {
+                toast.error(mode === 'drums' ? 'No drum hits found' : 'No notes found', {
+                    description: mode === 'drums'
+                        ? 'Try Melody mode for pitched audio.'
+                        : 'Melody mode needs a single voice or instrument. Try Drums mode for beats.',
+                });
+                return;
+            }
+
+            setOpen(false);
+            toast.success(`Converted "${clip.name}" to MIDI`, {
+                description: `${newClip.notes?.length ?? 0} ${mode === 'drums' ? 'hits' : 'notes'} on a new track`,
+                action: { label: 'Open', onClick: () => openEditor(newClip.id) },
+            });
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            toast.error(`Failed to convert to MIDI: ${message}`);
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    return (
+        <Popover open={open} onOpenChange={(next) => !isConverting && setOpen(next)}>
+            <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs">
+                    <Music className="h-3.5 w-3.5" />
+                    Convert to MIDI
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 p-4" align="end">
+                <div className="space-y-3">
+                    <h4 className="font-medium text-sm">Convert to MIDI</h4>
+
+                    <div className="space-y-1">
+                        <span className="text-xs text-muted-foreground">Mode</span>
+                        <Select value={mode} onValueChange={(v) => setMode(v as AudioToMidiMode)} disabled={isConverting}>
+                            <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {AUDIO_TO_MIDI_MODES.map((m) => (
+                                    <SelectItem key={m.value} value={m.value} className="text-xs">
+                                        {m.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <div className="space-y-1">
+                        <span className="text-xs text-muted-foreground">Quantize</span>
+                        <Select value={String(quantize)} onValueChange={(v) => setQuantize(Number(v))} disabled={isConverting}>
+                            <SelectTrigger className="h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {AUDIO_TO_MIDI_QUANTIZE.map((q) => (
+                                    <SelectItem key={q.value} value={String(q.value)} className="text-xs">
+                                        {q.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">
+                        {mode === 'drums'
+                            ? 'Hits become kick, snare and hi-hat notes on a new drum track.'
+                            : 'Tracks a single voice or instrument into notes on a new MIDI track.'}
+                    </p>
+
+                    <Button size="sm" className="w-full text-xs" onClick={convert} disabled={isConverting}>
+                        {isConverting ? `Detecting notes... ${progress}%` : 'Convert'}
+                    </Button>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
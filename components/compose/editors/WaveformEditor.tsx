@@ -1,6 +1,6 @@
 'use client';
 
-import { useCallback, useRef, useState, useEffect } from 'react';
+import { useCallback, useMemo, useRef, useState, useEffect } from 'react';
 import {
     ZoomIn,
     ZoomOut,
@@ -10,10 +10,22 @@ import {
     RotateCcw,
     Volume2,
     X,
-    Repeat
+    Repeat,
+    Slice
 } from 'lucide-react';
-import { useProjectStore } from '@/lib/store';
-import { getAudioTake, audioEngine } from '@/lib/audio';
+import { toast } from 'sonner';
+import { useProjectStore, useUIStore } from '@/lib/store';
+import {
+    getAudioTake,
+    audioEngine,
+    detectTransients,
+    getSlicePoints,
+    getSliceRegions,
+    splitClipAtSlices,
+    sliceClipToSampler,
+    DEFAULT_SLICE_SENSITIVITY,
+    MAX_SLICES,
+} from '@/lib/audio';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import {
@@ -21,7 +33,8 @@ import {
     TooltipContent,
     TooltipTrigger,
 } from '@/components/ui/tooltip';
-import type { Clip } from '@/types';
+import { ConvertToMidiMenu } from './ConvertToMidiMenu';
+import type { AudioTransient, Clip } from '@/types';
 import * as Tone from 'tone';
 
 // ============================================
@@ -44,6 +57,7 @@ interface TrimHandles {
 export function WaveformEditor({ clip }: WaveformEditorProps) {
     const project = useProjectStore((s) => s.project);
     const updateClip = useProjectStore((s) => s.updateClip);
+    const openEditor = useUIStore((s) => s.openEditor);
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -89,6 +103,12 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
     const [isLooping, setIsLooping] = useState(false);
     const playbackRef = useRef<number | null>(null);
 
+    // Slicing: candidates are found once per take, sensitivity filters them
+    const [showSlices, setShowSlices] = useState(false);
+    const [transients, setTransients] = useState<AudioTransient[] | null>(null);
+    const [isDetecting, setIsDetecting] = useState(false);
+    const [sensitivity, setSensitivity] = useState(DEFAULT_SLICE_SENSITIVITY);
+
     // Calculate dimensions
     const bpm = project?.bpm || 120;
     const beatsPerBar = project?.timeSignature[0] || 4;
@@ -151,6 +171,48 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [clip.activeTakeId]);
 
+    // New take, new transients
+    useEffect(() => {
+        setTransients(null);
+    }, [clip.activeTakeId]);
+
+    // Find transients the first time slicing is shown
+    useEffect(() => {
+        if (!showSlices || !audioBuffer || transients) return;
+
+        let cancelled = false;
+        setIsDetecting(true);
+
+        detectTransients(audioBuffer)
+            .then((result) => {
+                if (!cancelled) setTransients(result);
+            })
+            .catch((err) => {
+                if (cancelled) return;
+                console.error('[WaveformEditor] Failed to find transients:', err);
+                toast.error('Failed to find transients');
+                setShowSlices(false);
+            })
+            .finally(() => {
+                if (!cancelled) setIsDetecting(false);
+            });
+
+        return () => {
+            cancelled = true;
+            setIsDetecting(false);
+        };
+    }, [showSlices, audioBuffer, transients]);
+
+    const slicePoints = useMemo(() => {
+        if (!showSlices || !transients || !audioBuffer) return [];
+        return getSlicePoints(
+            transients,
+            sensitivity,
+            trimHandles.startOffset,
+            audioBuffer.duration - trimHandles.endOffset
+        );
+    }, [showSlices, transients, audioBuffer, sensitivity, trimHandles]);
+
     // Draw waveform
     useEffect(() => {
         if (!canvasRef.current || !audioBuffer) return;
@@ -283,6 +345,26 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
             ctx.strokeRect(selLeft, 0, selWidth, displayHeight);
         }
 
+        // Slice markers
+        if (slicePoints.length > 0) {
+            ctx.strokeStyle = '#facc15';
+            ctx.fillStyle = '#facc15';
+            ctx.lineWidth = 1;
+            for (const t of slicePoints) {
+                const x = (t / duration) * displayWidth;
+                ctx.beginPath();
+                ctx.moveTo(x, 0);
+                ctx.lineTo(x, displayHeight);
+                ctx.stroke();
+
+                ctx.beginPath();
+                ctx.moveTo(x, 0);
+                ctx.lineTo(x + 6, 0);
+                ctx.lineTo(x, 6);
+                ctx.fill();
+            }
+        }
+
         // Time markers
         ctx.fillStyle = '#666';
         ctx.font = '10px system-ui';
@@ -306,7 +388,7 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
             ctx.stroke();
         }
 
-    }, [audioBuffer, zoom, trimHandles, fadeIn, fadeOut, playheadPosition, selection]);
+    }, [audioBuffer, zoom, trimHandles, fadeIn, fadeOut, playheadPosition, selection, slicePoints]);
 
     // Handle trim drag and region selection
     const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -380,7 +462,7 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
             // Calculate new lengthBars based on trimmed duration
             const sourceDuration = audioBuffer.duration;
             const trimmedDuration = sourceDuration - currentTrimHandles.startOffset - currentTrimHandles.endOffset;
-            const newLengthBars = audioEngine.secondsToBar(trimmedDuration);
+            const newLengthBars = audioEngine.secondsToBarsAt(clip.startBar, trimmedDuration);
 
             updateClip(clip.id, {
                 trimStart: currentTrimHandles.startOffset,
@@ -402,7 +484,7 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
                 setSelection(null);
             }
         }
-    }, [isDraggingTrim, isSelecting, selection, audioBuffer, clip.id, updateClip]);
+    }, [isDraggingTrim, isSelecting, selection, audioBuffer, clip.id, clip.startBar, updateClip]);
 
     // Stop playback
     const stopPlayback = useCallback(() => {
@@ -511,7 +593,7 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
 
         // Calculate new lengthBars based on trimmed duration
         const trimmedDuration = end - start; // selection range is the new duration
-        const newLengthBars = audioEngine.secondsToBar(trimmedDuration);
+        const newLengthBars = audioEngine.secondsToBarsAt(clip.startBar, trimmedDuration);
 
         setTrimHandles({
             startOffset: newStart,
@@ -523,7 +605,7 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
             lengthBars: Math.max(0.25, newLengthBars), // Update visual width
         });
         setSelection(null);
-    }, [selection, audioBuffer, clip.id, updateClip]);
+    }, [selection, audioBuffer, clip.id, clip.startBar, updateClip]);
 
     // Clear selection
     const clearSelection = useCallback(() => {
@@ -536,7 +618,7 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
         if (!audioBuffer) return;
 
         // Calculate lengthBars for full audio duration (no trim)
-        const newLengthBars = audioEngine.secondsToBar(audioBuffer.duration);
+        const newLengthBars = audioEngine.secondsToBarsAt(clip.startBar, audioBuffer.duration);
 
         setTrimHandles({ startOffset: 0, endOffset: 0 });
         setFadeIn(0);
@@ -550,9 +632,40 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
             fadeOut: 0,
             lengthBars: Math.max(0.25, newLengthBars), // Restore full width
         });
-    }, [clip.id, updateClip, audioBuffer]);
+    }, [clip.id, clip.startBar, updateClip, audioBuffer]);
 
     // Zoom controls
+    // Split into one audio clip per slice
+    const splitAtSlices = useCallback(() => {
+        if (!audioBuffer || slicePoints.length === 0) return;
+
+        const pieces = splitClipAtSlices(clip.id, slicePoints, audioBuffer.duration);
+        setShowSlices(false);
+        toast.success(`Split "${clip.name}" into ${pieces.length} clips`);
+    }, [audioBuffer, slicePoints, clip.id, clip.name]);
+
+    // New MIDI track that plays the slices
+    const slicesToSampler = useCallback(async () => {
+        if (!audioBuffer) return;
+
+        const regions = getSliceRegions(
+            slicePoints,
+            trimHandles.startOffset,
+            audioBuffer.duration - trimHandles.endOffset
+        );
+
+        try {
+            const newClip = await sliceClipToSampler(clip.id, regions);
+            toast.success(`Created ${regions.length} slices on a new track`, {
+                description: 'Each slice plays on its own note from C1 up.',
+                action: { label: 'Open', onClick: () => openEditor(newClip.id) },
+            });
+        } catch (err) {
+            const message = err instanceof Error ? err.message : 'Unknown error';
+            toast.error(`Failed to create slices: ${message}`);
+        }
+    }, [audioBuffer, slicePoints, trimHandles, clip.id, openEditor]);
+
     const zoomIn = () => setZoom((z) => Math.min(z * 1.5, 10));
     const zoomOut = () => setZoom((z) => Math.max(z / 1.5, 1));
 
@@ -704,6 +817,22 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
 
                 <div className="h-4 w-px bg-border" />
 
+                {/* Slicing */}
+                <Tooltip>
+                    <TooltipTrigger asChild>
+                        <Button
+                            variant={showSlices ? 'default' : 'ghost'}
+                            size="icon-sm"
+                            onClick={() => setShowSlices(!showSlices)}
+                        >
+                            <Slice className="h-3.5 w-3.5" />
+                        </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Slice at Transients</TooltipContent>
+                </Tooltip>
+
+                <ConvertToMidiMenu clip={clip} />
+
                 {/* Reset */}
                 <Tooltip>
                     <TooltipTrigger asChild>
@@ -728,6 +857,68 @@ export function WaveformEditor({ clip }: WaveformEditorProps) {
                 </div>
             </div>
 
+            {/* Slice bar */}
+            {showSlices && (
+                <div className="flex items-center gap-3 border-b border-border bg-surface px-3 py-1.5">
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground">Sensitivity:</span>
+                        <Slider
+                            value={[sensitivity]}
+                            onValueChange={([v]) => setSensitivity(v)}
+                            min={0}
+                            max={100}
+                            step={1}
+                            className="w-28"
+                        />
+                        <span className="w-8 text-xs text-muted-foreground">{sensitivity}%</span>
+                    </div>
+
+                    <div className="h-4 w-px bg-border" />
+
+                    <span className="text-xs text-muted-foreground">
+                        {isDetecting ? 'Finding transients...' : `${slicePoints.length + 1} slices`}
+                    </span>
+
+                    <div className="flex-1" />
+
+                    <Tooltip>
+                        <TooltipTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={splitAtSlices}
+                                disabled={isDetecting || slicePoints.length === 0}
+                                className="h-7 gap-1.5 text-xs"
+                            >
+                                <Scissors className="h-3.5 w-3.5" />
+                                Split Clip
+                            </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>Split into one audio clip per slice</TooltipContent>
+                    </Tooltip>
+
+                    <Tooltip>
+                        <TooltipTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={slicesToSampler}
+                                disabled={isDetecting || slicePoints.length + 1 > MAX_SLICES}
+                                className="h-7 gap-1.5 text-xs"
+                            >
+                                <Slice className="h-3.5 w-3.5" />
+                                Slices to MIDI
+                            </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                            {slicePoints.length + 1 > MAX_SLICES
+                                ? `Too many slices (max ${MAX_SLICES}); lower the sensitivity`
+                                : 'New track with a sampler of the slices and a MIDI clip that plays them'}
+                        </TooltipContent>
+                    </Tooltip>
+                </div>
+            )}
+
             {/* Waveform display */}
             <div
                 ref={containerRef}
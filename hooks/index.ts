@@ -5,3 +5,4 @@ export { useOfflineStatus } from './useOfflineStatus';
 export { useAutosave } from './useAutosave';
 export { useClipDrag } from './useClipDrag';
 export { useShortcut, useLoadKeyBindings, usePersistKeyBindings } from './useShortcuts';
+export { useLoadMidiMappings, usePersistMidiMappings, useMidiMappings } from './useMidiLearn';
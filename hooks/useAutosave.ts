@@ -8,7 +8,7 @@
 
 import { useEffect, useState, useCallback, useRef } from 'react';
 import { autosaveManager, SaveStatus } from '@/lib/persistence/autosave';
-import { useProjectStore } from '@/lib/store';
+import { useProjectStore, withExportCover } from '@/lib/store';
 
 interface UseAutosaveOptions {
     enabled?: boolean;
@@ -29,8 +29,10 @@ export function useAutosave(options: UseAutosaveOptions = {}): UseAutosaveReturn
     const [status, setStatus] = useState<SaveStatus>('idle');
     const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
     const previousProjectRef = useRef<string | null>(null);
+    const previousCoverRef = useRef<string | null>(null);
 
     const project = useProjectStore((s) => s.project);
+    const exportCover = useProjectStore((s) => s.exportCover);
 
     // Configure autosave manager
     useEffect(() => {
@@ -71,16 +73,20 @@ export function useAutosave(options: UseAutosaveOptions = {}): UseAutosaveReturn
             key: project.key,
             scale: project.scale,
             timeSignature: project.timeSignature,
+            tempoMap: project.tempoMap,
+            master: project.master,
             tracks: project.tracks,
             clips: project.clips,
+            exportMetadata: project.exportMetadata,
         });
 
-        // Skip if project hasn't actually changed
-        if (projectJson === previousProjectRef.current) {
+        // Skip if project hasn't actually changed (the cover is compared by reference)
+        if (projectJson === previousProjectRef.current && exportCover === previousCoverRef.current) {
             return;
         }
 
         previousProjectRef.current = projectJson;
+        previousCoverRef.current = exportCover;
 
         // Don't save on first render (initial load)
         if (lastSavedAt === null && status === 'idle') {
@@ -89,8 +95,8 @@ export function useAutosave(options: UseAutosaveOptions = {}): UseAutosaveReturn
         }
 
         // Schedule autosave
-        autosaveManager.scheduleProjectSave(project);
-    }, [project, enabled, lastSavedAt, status]);
+        autosaveManager.scheduleProjectSave(withExportCover(project, exportCover));
+    }, [project, exportCover, enabled, lastSavedAt, status]);
 
     // Save before page unload
     useEffect(() => {
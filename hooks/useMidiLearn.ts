@@ -0,0 +1,104 @@
+// ============================================
+// ComposeYogi — MIDI Learn Hooks
+// Loads, persists and applies CC mappings
+// ============================================
+
+import { useEffect, useRef } from 'react';
+import { useProjectStore, useUIStore, selectMidiMappings, selectMidiMappingsLoaded } from '@/lib/store';
+import { midiInput } from '@/lib/audio';
+import {
+    applyTrackTargetValue,
+    createMidiMapping,
+    loadMidiMappings,
+    saveMidiMappings,
+    scaleMidiValue,
+    MIDI_BUTTON_THRESHOLD,
+    type MidiTransportAction,
+} from '@/lib/audio/midi-learn';
+import { createLogger } from '@/lib/logger';
+
+const logger = createLogger('useMidiLearn');
+
+// ============================================
+// Hook to load MIDI mappings from IndexedDB on mount
+// ============================================
+
+export function useLoadMidiMappings() {
+    const setMidiMappings = useUIStore((s) => s.setMidiMappings);
+
+    useEffect(() => {
+        loadMidiMappings().then((mappings) => {
+            setMidiMappings(mappings);
+            logger.debug('MIDI mappings loaded into store', { count: mappings.length });
+        });
+    }, [setMidiMappings]);
+}
+
+// ============================================
+// Hook to persist MIDI mappings when they change
+// ============================================
+
+export function usePersistMidiMappings() {
+    const mappings = useUIStore(selectMidiMappings);
+    const loaded = useUIStore(selectMidiMappingsLoaded);
+
+    useEffect(() => {
+        // Don't save until initial load completes (avoid overwriting with an empty list)
+        if (!loaded) return;
+        saveMidiMappings(mappings);
+    }, [mappings, loaded]);
+}
+
+// ============================================
+// Hook to learn and apply CC mappings
+// ============================================
+
+/**
+ * Route incoming CC messages: bind them to the control waiting in learn
+ * mode, otherwise drive every mapped control. Transport actions fire
+ * once per press (when the CC rises past the button threshold).
+ */
+export function useMidiMappings(transportActions: Record<MidiTransportAction, () => void>) {
+    const actionsRef = useRef(transportActions);
+    actionsRef.current = transportActions;
+
+    useEffect(() => {
+        // Last value per mapping, to detect button presses
+        const lastValues = new Map<string, number>();
+
+        return midiInput.onMessage((message) => {
+            if (message.type !== 'controlChange') return;
+
+            const ui = useUIStore.getState();
+            const project = useProjectStore.getState().project;
+            if (!project) return;
+
+            if (ui.midiLearnActive && ui.midiLearnTarget) {
+                const mapping = createMidiMapping(project, ui.midiLearnTarget, message.channel, message.controller);
+                if (mapping) {
+                    ui.learnMidiMapping(mapping);
+                    logger.info('Learned MIDI mapping', { channel: mapping.channel, controller: mapping.controller });
+                }
+                return;
+            }
+
+            for (const mapping of ui.midiMappings) {
+                if (mapping.channel !== message.channel || mapping.controller !== message.controller) continue;
+
+                if (mapping.target.kind === 'transport') {
+                    const previous = lastValues.get(mapping.id) ?? 0;
+                    lastValues.set(mapping.id, message.value);
+                    if (message.value >= MIDI_BUTTON_THRESHOLD && previous < MIDI_BUTTON_THRESHOLD) {
+                        actionsRef.current[mapping.target.action]();
+                    }
+                } else {
+                    applyTrackTargetValue(
+                        mapping.target.trackId,
+                        mapping.target.target,
+                        scaleMidiValue(mapping, message.value)
+                    );
+                }
+            }
+        });
+    }, []);
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { createWavMetadataChunks, getDefaultExportMetadata } from '../audio-metadata';
+import { createFixtureProject } from '../../../test/fixtures';
+
+// Coding history, the text after bext's fixed 602 bytes and 8-byte chunk header
+const readCodingHistory = (bitDepth: number) => {
+    const chunks = createWavMetadataChunks(getDefaultExportMetadata(createFixtureProject()), {
+        sampleRate: 48000,
+        bitDepth,
+        channels: 2,
+    });
+    const bext = chunks.find((chunk) => new TextDecoder('latin1').decode(chunk.subarray(0, 4)) === 'bext')!;
+    return new TextDecoder('latin1').decode(bext.subarray(8 + 602)).replace(/\0+$/, '');
+};
+
+describe('bext coding history', () => {
+    it.each([16, 24])('marks %i-bit exports as PCM', (bitDepth) => {
+        expect(readCodingHistory(bitDepth)).toBe(`A=PCM,F=48000,W=${bitDepth},M=stereo,T=ComposeYogi\r\n`);
+    });
+
+    it('marks 32-bit exports as IEEE float', () => {
+        expect(readCodingHistory(32)).toBe('A=IEEE_FLOAT,F=48000,W=32,M=stereo,T=ComposeYogi\r\n');
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { AutomationCurve, AutomationPoint } from '@/types';
+import {
+    getAutomationTargets,
+    getAutomationValueAt,
+    getStaticTargetValue,
+    scheduleAutomation,
+    type AutomatableParam,
+} from '../automation';
+import { createEffect, createTrack } from '../../../test/fixtures';
+
+const point = (bar: number, value: number, curve: AutomationCurve = 'linear'): AutomationPoint =>
+    ({ id: `point-${bar}`, bar, value, curve });
+
+/**
+ * Param that records what is scheduled on it
+ */
+function createRecordingParam() {
+    const events: [string, number, number][] = [];
+    const param: AutomatableParam = {
+        setValueAtTime: (value, time) => events.push(['set', value, time]),
+        linearRampToValueAtTime: (value, time) => events.push(['linear', value, time]),
+        exponentialRampToValueAtTime: (value, time) => events.push(['exponential', value, time]),
+        cancelScheduledValues: () => undefined,
+    };
+    return { param, events };
+}
+
+describe('automation envelopes', () => {
+    it('holds the first value before the first point and the last after the last', () => {
+        const points = [point(2, 0.2), point(4, 0.8)];
+
+        expect(getAutomationValueAt(points, -1)).toBe(0.2);
+        expect(getAutomationValueAt(points, 2)).toBe(0.2);
+        expect(getAutomationValueAt(points, 4)).toBe(0.8);
+        expect(getAutomationValueAt(points, 100)).toBe(0.8);
+        expect(getAutomationValueAt([], 1)).toBe(0);
+    });
+
+    it('interpolates by the curve of the point each segment arrives at', () => {
+        // Linear into bar 2, exponential into bar 4, a step into bar 6
+        const points = [point(0, 0.2), point(2, 0.6), point(4, 2.4, 'exponential'), point(6, 0.1, 'step')];
+
+        expect(getAutomationValueAt(points, 1)).toBeCloseTo(0.4, 9);
+        expect(getAutomationValueAt(points, 0.5)).toBeCloseTo(0.3, 9);
+        // Equal ratios per equal time: 0.6 → 1.2 → 2.4
+        expect(getAutomationValueAt(points, 3)).toBeCloseTo(1.2, 9);
+        expect(getAutomationValueAt(points, 3.5)).toBeCloseTo(0.6 * 4 ** 0.75, 9);
+        // Steps hold until the point
+        expect(getAutomationValueAt(points, 5.99)).toBe(2.4);
+        expect(getAutomationValueAt(points, 6)).toBe(0.1);
+    });
+
+    it('ramps linearly into an exponential point that crosses zero', () => {
+        const points = [point(0, -1), point(2, 1, 'exponential')];
+        expect(getAutomationValueAt(points, 0.5)).toBeCloseTo(-0.5, 9);
+    });
+
+    it('sorts points given out of order', () => {
+        const sorted = [point(0, 0), point(1, 1), point(3, 0, 'step'), point(4, 0.5)];
+        const shuffled = [sorted[2], sorted[0], sorted[3], sorted[1]];
+
+        for (const bar of [-1, 0, 0.5, 1, 2, 3, 3.5, 5]) {
+            expect(getAutomationValueAt(shuffled, bar)).toBe(getAutomationValueAt(sorted, bar));
+        }
+        expect(getAutomationValueAt(shuffled, 0.5)).toBeCloseTo(0.5, 9);
+    });
+});
+
+describe('automation targets', () => {
+    const track = createTrack('keys', {
+        volume: 0.7,
+        pan: -0.25,
+        effects: [createEffect('fx-1', 'filter', { frequency: 800, Q: 2 }), createEffect('fx-2', 'eq', { low: -3 })],
+    });
+
+    it('gives volume, pan and effect params their own ranges', () => {
+        const ranges = Object.fromEntries(getAutomationTargets(track).map(({ target, min, max }) => [target, [min, max]]));
+
+        expect(ranges).toEqual({
+            volume: [0, 1],
+            pan: [-1, 1],
+            'fx-1.frequency': [20, 20000],
+            'fx-1.Q': [0.1, 20],
+            'fx-2.low': [-24, 12],
+            'fx-2.mid': [-24, 12],
+            'fx-2.high': [-24, 12],
+        });
+    });
+
+    it('reads the value each target has without automation', () => {
+        expect(getStaticTargetValue(track, 'volume')).toBe(0.7);
+        expect(getStaticTargetValue(track, 'pan')).toBe(-0.25);
+        expect(getStaticTargetValue(track, 'fx-1.frequency')).toBe(800);
+        // Unset params read as zero
+        expect(getStaticTargetValue(track, 'fx-2.mid')).toBe(0);
+    });
+
+    it('schedules values in target units at their transport times', () => {
+        const { param, events } = createRecordingParam();
+        const points = [point(0, 200), point(2, 8000, 'exponential'), point(3, 20, 'step')];
+
+        // Two seconds a bar, playing from bar 1 at context time 10
+        scheduleAutomation(param, points, 10, 1, (bars) => bars * 2);
+
+        expect(events).toEqual([
+            ['set', expect.closeTo(200 * 40 ** 0.5, 6), 10],
+            ['exponential', 8000, 12],
+            ['set', 20, 14],
+        ]);
+    });
+
+    it('schedules pan through zero with a linear ramp', () => {
+        const { param, events } = createRecordingParam();
+        scheduleAutomation(param, [point(0, -1), point(1, 1, 'exponential')], 0, 0, (bars) => bars);
+
+        expect(events).toEqual([['set', -1, 0], ['linear', 1, 1]]);
+    });
+});
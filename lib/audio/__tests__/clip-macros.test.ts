@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { Clip, Note } from '@/types';
+import { applyClipMacrosToNotes } from '../clip-macros';
+import { createClip, createNotes } from '../../../test/fixtures';
+
+// Eighths and sixteenths across two bars, at a spread of velocities
+const NOTES: Note[] = Array.from({ length: 32 }, (_, i) => ({
+    id: `n${i}`,
+    pitch: 48 + (i % 12),
+    startBeat: i * 0.25,
+    duration: 0.25,
+    velocity: 1 + ((i * 37) % 127),
+}));
+
+const createMacroClip = (overrides: Partial<Clip> = {}) => createClip('clip-1', 'keys', { notes: NOTES, ...overrides });
+
+describe('clip macros', () => {
+    it('returns the notes unchanged when every macro is neutral', () => {
+        expect(applyClipMacrosToNotes(createMacroClip(), NOTES)).toEqual(NOTES);
+        expect(applyClipMacrosToNotes(createMacroClip({
+            transpose: 0, humanize: 0, energy: 50, groove: 50, brightness: 50, space: 50,
+        }), NOTES)).toEqual(NOTES);
+    });
+
+    it('gives identical notes for the same clip and settings', () => {
+        const macros = { humanize: 80, energy: 20, groove: 70, transpose: 3 };
+        const first = applyClipMacrosToNotes(createMacroClip(macros), NOTES);
+        const second = applyClipMacrosToNotes(structuredClone(createMacroClip(macros)), structuredClone(NOTES));
+
+        expect(second).toEqual(first);
+        // Low energy drops some off-grid notes, but not all of them
+        expect(first.length).toBeLessThan(NOTES.length);
+        expect(first.length).toBeGreaterThan(NOTES.length / 2);
+    });
+
+    it('seeds humanize from the clip, so another clip varies differently', () => {
+        const first = applyClipMacrosToNotes(createMacroClip({ humanize: 100 }), NOTES);
+        const other = applyClipMacrosToNotes(createMacroClip({ id: 'clip-2', humanize: 100 }), NOTES);
+
+        expect(other).not.toEqual(first);
+        expect(other.map((note) => note.id)).toEqual(first.map((note) => note.id));
+    });
+
+    it('keeps velocity, timing and pitch in range at the extremes', () => {
+        const loud = applyClipMacrosToNotes(createMacroClip({ humanize: 100, energy: 100, transpose: 24 }), NOTES);
+        const quiet = applyClipMacrosToNotes(createMacroClip({ humanize: 100, energy: 0, transpose: -60 }), NOTES);
+
+        for (const note of [...loud, ...quiet]) {
+            expect(Number.isInteger(note.velocity)).toBe(true);
+            expect(note.velocity).toBeGreaterThanOrEqual(1);
+            expect(note.velocity).toBeLessThanOrEqual(127);
+            expect(note.startBeat).toBeGreaterThanOrEqual(0);
+            expect(note.pitch).toBeGreaterThanOrEqual(0);
+            expect(note.pitch).toBeLessThanOrEqual(127);
+        }
+        expect(loud.some((note) => note.velocity === 127)).toBe(true);
+        // Halving the softest velocity still sounds
+        const softest = NOTES.map((note) => ({ ...note, velocity: 1 }));
+        expect(applyClipMacrosToNotes(createMacroClip({ energy: 0 }), softest).every((note) => note.velocity === 1)).toBe(true);
+        // Full humanize moves a note at most 0.04 beats
+        loud.forEach((note, i) => expect(Math.abs(note.startBeat - NOTES[i].startBeat)).toBeLessThanOrEqual(0.04));
+    });
+
+    it('leaves drum pitches alone when transposing', () => {
+        const drums = createNotes(36, 4);
+        const notes = applyClipMacrosToNotes(createMacroClip({ type: 'drum', transpose: 5 }), drums);
+        expect(notes.map((note) => note.pitch)).toEqual([36, 36, 36, 36]);
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type { CompRegion } from '@/types';
+import { getCompSegments, paintCompRegion } from '../comping';
+import { splitLoopPasses } from '../recorder';
+import { createClip } from '../../../test/fixtures';
+import { FakeAudioBuffer } from '../../../test/fake-web-audio';
+
+// Regions without their ids, which painting regenerates when it splits
+const describeRegions = (regions: CompRegion[]) => regions.map(({ takeId, start, end }) => ({ takeId, start, end }));
+
+const paint = (regions: CompRegion[], takeId: string, start: number, end: number) =>
+    paintCompRegion(regions, 'base', takeId, start, end);
+
+describe('comp painting', () => {
+    it('cuts back regions a new paint overlaps', () => {
+        let regions = paint([], 'a', 1, 3);
+        regions = paint(regions, 'b', 2, 4);
+
+        expect(describeRegions(regions)).toEqual([
+            { takeId: 'a', start: 1, end: 2 },
+            { takeId: 'b', start: 2, end: 4 },
+        ]);
+    });
+
+    it('splits a region painted over in its middle', () => {
+        const regions = paint(paint([], 'a', 0, 3), 'b', 1, 2);
+
+        expect(describeRegions(regions)).toEqual([
+            { takeId: 'a', start: 0, end: 1 },
+            { takeId: 'b', start: 1, end: 2 },
+            { takeId: 'a', start: 2, end: 3 },
+        ]);
+        expect(new Set(regions.map((r) => r.id)).size).toBe(3);
+    });
+
+    it('paints across the boundary between two takes', () => {
+        let regions = paint(paint([], 'a', 0, 2), 'b', 2, 4);
+        regions = paint(regions, 'c', 1, 3);
+
+        expect(describeRegions(regions)).toEqual([
+            { takeId: 'a', start: 0, end: 1 },
+            { takeId: 'c', start: 1, end: 3 },
+            { takeId: 'b', start: 3, end: 4 },
+        ]);
+    });
+
+    it('merges touching paints of one take and erases with the base take', () => {
+        let regions = paint(paint([], 'a', 0, 1), 'a', 1, 2);
+        expect(describeRegions(regions)).toEqual([{ takeId: 'a', start: 0, end: 2 }]);
+
+        regions = paint(regions, 'base', 0.5, 1.5);
+        expect(describeRegions(regions)).toEqual([
+            { takeId: 'a', start: 0, end: 0.5 },
+            { takeId: 'a', start: 1.5, end: 2 },
+        ]);
+    });
+
+    it('ignores clicks and drops the slivers a paint leaves behind', () => {
+        const regions = paint([], 'a', 0, 1);
+
+        expect(paint(regions, 'b', 0.5, 0.51)).toBe(regions);
+        expect(describeRegions(paint(regions, 'b', 0.01, 2))).toEqual([{ takeId: 'b', start: 0.01, end: 2 }]);
+    });
+});
+
+describe('comp segments', () => {
+    const createCompClip = (compRegions: CompRegion[]) => createClip('vocal', 'vox', {
+        type: 'audio',
+        activeTakeId: 'base',
+        audioTakeIds: ['base', 'a', 'b'],
+        compRegions,
+    });
+
+    it('fills gaps with the active take and clamps regions to the clip', () => {
+        const clip = createCompClip(paint(paint([], 'a', 1, 2), 'b', 3, 10));
+
+        expect(getCompSegments(clip, 4)).toEqual([
+            { takeId: 'base', start: 0, end: 1 },
+            { takeId: 'a', start: 1, end: 2 },
+            { takeId: 'base', start: 2, end: 3 },
+            { takeId: 'b', start: 3, end: 4 },
+        ]);
+    });
+
+    it('plays the active take where a region names a deleted take', () => {
+        const clip = createCompClip([
+            { id: 'r1', takeId: 'gone', start: 0, end: 1 },
+            { id: 'r2', takeId: 'a', start: 1, end: 2 },
+        ]);
+
+        expect(getCompSegments(clip, 3)).toEqual([
+            { takeId: 'base', start: 0, end: 1 },
+            { takeId: 'a', start: 1, end: 2 },
+            { takeId: 'base', start: 2, end: 3 },
+        ]);
+    });
+
+    it('is one segment of the active take without regions', () => {
+        expect(getCompSegments(createCompClip([]), 5)).toEqual([{ takeId: 'base', start: 0, end: 5 }]);
+    });
+});
+
+describe('loop recording passes', () => {
+    // A thousand samples a second, each holding its own index plus one
+    const SAMPLE_RATE = 1000;
+    const LOOP = { startTime: 1, endTime: 3, enabled: true };
+
+    function createRecording(seconds: number): AudioBuffer {
+        const buffer = new FakeAudioBuffer({ length: seconds * SAMPLE_RATE, numberOfChannels: 2, sampleRate: SAMPLE_RATE });
+        for (let ch = 0; ch < 2; ch++) {
+            buffer.getChannelData(ch).forEach((_, i, data) => { data[i] = i + 1; });
+        }
+        return buffer as unknown as AudioBuffer;
+    }
+
+    it('drops the count-in and pads a partial last pass with silence', () => {
+        // Half a second of count-in, two full passes and one more second
+        const passes = splitLoopPasses(createRecording(5.5), 0.5, LOOP);
+
+        expect(passes).toHaveLength(3);
+        for (const pass of passes) {
+            expect(pass.length).toBe(2000);
+            expect(pass.numberOfChannels).toBe(2);
+        }
+        expect(passes[0].getChannelData(0)[0]).toBe(501);
+        expect(passes[1].getChannelData(1)[0]).toBe(2501);
+        expect(passes[2].getChannelData(0)[999]).toBe(5500);
+        expect(passes[2].getChannelData(0)[1000]).toBe(0);
+    });
+
+    it('drops a last pass shorter than a stop overrun', () => {
+        const passes = splitLoopPasses(createRecording(4.8), 0.5, LOOP);
+
+        expect(passes).toHaveLength(2);
+        expect(passes[1].getChannelData(0)[1999]).toBe(4500);
+    });
+
+    it('pads a recording started mid-loop at the front of its first pass', () => {
+        const passes = splitLoopPasses(createRecording(3), 2, LOOP);
+
+        expect(passes).toHaveLength(2);
+        expect(passes[0].getChannelData(0)[999]).toBe(0);
+        expect(passes[0].getChannelData(0)[1000]).toBe(1);
+        expect(passes[1].getChannelData(0)[0]).toBe(1001);
+    });
+
+    it('finds no passes when recording started after the loop end', () => {
+        expect(splitLoopPasses(createRecording(2), 3.5, LOOP)).toEqual([]);
+    });
+});
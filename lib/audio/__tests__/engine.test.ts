@@ -0,0 +1,61 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import * as Tone from 'tone';
+import { audioEngine } from '../engine';
+import type { FakeBaseAudioContext } from '../../../test/fake-web-audio';
+
+/**
+ * Drive the transport the way the context's ticker would.
+ * Call right after playback starts; runTo takes seconds of playback since.
+ */
+function createTransportClock() {
+    const context = Tone.getContext();
+    const raw = context.rawContext as unknown as FakeBaseAudioContext;
+    const startedAt = Tone.now();  // The transport starts a look-ahead after play()
+
+    return {
+        runTo(elapsed: number): void {
+            const end = startedAt + elapsed;
+            while (raw.currentTime < end) {
+                raw.currentTime = Math.min(raw.currentTime + 0.01, end);
+                context.emit('tick');
+            }
+        },
+    };
+}
+
+describe('metronome', () => {
+    beforeAll(async () => {
+        await audioEngine.initialize();
+    });
+
+    afterEach(() => {
+        audioEngine.stop();
+        audioEngine.stopMetronome();
+        vi.restoreAllMocks();
+    });
+
+    it('schedules clicks a few bars ahead rather than the whole song', () => {
+        const schedule = vi.spyOn(Tone.getTransport(), 'schedule');
+        audioEngine.startMetronome();
+
+        expect(schedule.mock.calls.length).toBeGreaterThan(0);
+        expect(schedule.mock.calls.length).toBeLessThanOrEqual(16);
+    });
+
+    it('clicks anywhere on the timeline, accenting each downbeat', () => {
+        // Frequencies by click time; the stepped clock can hand Tone the
+        // same tick at the end of one step and the start of the next
+        const clicks = new Map<number, number>();
+        vi.spyOn(Tone.Synth.prototype, 'triggerAttackRelease').mockImplementation(function (this: Tone.Synth, frequency, _duration, time) {
+            clicks.set(Math.round(Number(time) * 1000), Number(frequency));
+            return this;
+        });
+        audioEngine.startMetronome();
+
+        // Far past any fixed horizon; 120 bpm in 4/4 clicks every half second
+        audioEngine.play(audioEngine.barToSeconds(2000));
+        createTransportClock().runTo(4.2);
+
+        expect([...clicks.values()]).toEqual([1000, 800, 800, 800, 1000, 800, 800, 800, 1000]);
+    });
+});
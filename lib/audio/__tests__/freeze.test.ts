@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Project, UserSynthPreset } from '@/types';
+import { getFreezeSignature } from '../freeze';
+import { toUserSynthInstrumentId, userSynthPresets } from '../user-synth-presets';
+import { createFixtureProject } from '../../../test/fixtures';
+
+const signatureOf = (project: Project, trackId: string) =>
+    getFreezeSignature(project.tracks.find((track) => track.id === trackId)!, project);
+
+// Shift every kick one beat later
+const moveKicks = (project: Project): Project => ({
+    ...project,
+    clips: project.clips.map((clip) => clip.trackId !== 'drums' ? clip : {
+        ...clip,
+        notes: clip.notes?.map((note) => note.pitch === 36 ? { ...note, startBeat: note.startBeat + 1 } : note),
+    }),
+});
+
+// Stand-in for a user preset saved at the given time
+const mockUserPreset = (updatedAt: number) =>
+    vi.spyOn(userSynthPresets, 'get').mockReturnValue({ id: 'pad', updatedAt } as UserSynthPreset);
+
+describe('freeze signature', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('goes stale when the track keying a sidechain changes', () => {
+        const project = createFixtureProject();
+        expect(signatureOf(moveKicks(project), 'bass')).not.toBe(signatureOf(project, 'bass'));
+    });
+
+    it('ignores other tracks when nothing keys the track', () => {
+        const project = createFixtureProject();
+        expect(signatureOf(moveKicks(project), 'keys')).toBe(signatureOf(project, 'keys'));
+    });
+
+    it('ignores mute and solo on the key track', () => {
+        const project = createFixtureProject();
+        const muted: Project = {
+            ...project,
+            tracks: project.tracks.map((track) => track.id === 'drums' ? { ...track, muted: true } : track),
+        };
+        expect(signatureOf(muted, 'bass')).toBe(signatureOf(project, 'bass'));
+    });
+
+    it('goes stale when a user preset the track plays is edited', () => {
+        const base = createFixtureProject();
+        const project: Project = {
+            ...base,
+            tracks: base.tracks.map((track) => track.id === 'keys'
+                ? { ...track, instrumentPreset: toUserSynthInstrumentId('pad') }
+                : track),
+        };
+
+        mockUserPreset(1);
+        const signature = signatureOf(project, 'keys');
+        mockUserPreset(2);
+        expect(signatureOf(project, 'keys')).not.toBe(signature);
+    });
+
+    it('goes stale when a user preset a clip overrides with is edited', () => {
+        const base = createFixtureProject();
+        const project: Project = {
+            ...base,
+            clips: base.clips.map((clip) => clip.trackId === 'keys'
+                ? { ...clip, instrumentPreset: toUserSynthInstrumentId('pad') }
+                : clip),
+        };
+
+        mockUserPreset(1);
+        const signature = signatureOf(project, 'keys');
+        mockUserPreset(2);
+        expect(signatureOf(project, 'keys')).not.toBe(signature);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { getPeak, measureLoudness, normalizeAudioBuffer } from '../loudness';
+import { DEFAULT_LIMITER_CEILING } from '../master-bus';
+import { FakeAudioBuffer } from '../../../test/fake-web-audio';
+
+const SAMPLE_RATE = 48000;
+
+/**
+ * Five seconds of a 1 kHz sine at a peak level in dBFS
+ */
+function createSine(peakDb: number, numberOfChannels = 1): AudioBuffer {
+    const buffer = new FakeAudioBuffer({ length: SAMPLE_RATE * 5, numberOfChannels, sampleRate: SAMPLE_RATE });
+    const amplitude = 10 ** (peakDb / 20);
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+        const data = buffer.getChannelData(ch);
+        for (let i = 0; i < data.length; i++) {
+            data[i] = amplitude * Math.sin((2 * Math.PI * 1000 * i) / SAMPLE_RATE);
+        }
+    }
+    return buffer as unknown as AudioBuffer;
+}
+
+const toDb = (value: number) => 20 * Math.log10(value);
+
+describe('integrated loudness', () => {
+    // BS.1770: a 0 dBFS 1 kHz sine in one channel reads -3.01 LKFS
+    it('reads a 1 kHz sine at its reference level', () => {
+        expect(measureLoudness(createSine(0))).toBeCloseTo(-3.01, 1);
+        expect(measureLoudness(createSine(-20))).toBeCloseTo(-23.01, 1);
+    });
+
+    it('sums the power of both stereo channels', () => {
+        expect(measureLoudness(createSine(-20, 2))).toBeCloseTo(-20, 1);
+    });
+
+    it('reads silence and sub-block buffers as -Infinity', () => {
+        const silence = new FakeAudioBuffer({ length: SAMPLE_RATE, sampleRate: SAMPLE_RATE }) as unknown as AudioBuffer;
+        const short = new FakeAudioBuffer({ length: SAMPLE_RATE * 0.3, sampleRate: SAMPLE_RATE }) as unknown as AudioBuffer;
+        short.getChannelData(0).fill(0.5);
+
+        expect(measureLoudness(silence)).toBe(-Infinity);
+        expect(measureLoudness(short)).toBe(-Infinity);
+    });
+});
+
+describe('normalization', () => {
+    it('scales to a peak target', () => {
+        const buffer = createSine(-12);
+        const result = normalizeAudioBuffer(buffer, { mode: 'peak', target: -1 });
+
+        expect(result.gainDb).toBeCloseTo(11, 3);
+        expect(toDb(getPeak(buffer))).toBeCloseTo(-1, 3);
+    });
+
+    it('reaches a loudness target when the peaks allow it', () => {
+        const buffer = createSine(-30);
+        const result = normalizeAudioBuffer(buffer, { mode: 'lufs', target: -14 });
+
+        expect(result.limited).toBe(false);
+        expect(result.loudness).toBeCloseTo(-14, 3);
+        expect(measureLoudness(buffer)).toBeCloseTo(-14, 1);
+    });
+
+    it('reports a loudness target held back by the peak ceiling', () => {
+        // A quiet sine under one loud click
+        const buffer = createSine(-40);
+        buffer.getChannelData(0)[SAMPLE_RATE] = 0.9;
+        const result = normalizeAudioBuffer(buffer, { mode: 'lufs', target: -14 });
+
+        expect(result.limited).toBe(true);
+        expect(result.loudness).toBeLessThan(-14);
+        expect(result.loudness).toBeCloseTo(measureLoudness(buffer), 1);
+        expect(toDb(getPeak(buffer))).toBeCloseTo(DEFAULT_LIMITER_CEILING, 3);
+    });
+});
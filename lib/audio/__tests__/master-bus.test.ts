@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as Tone from 'tone';
+import type { MasterBus, TrackEffect } from '@/types';
+import { createDefaultMasterBus } from '../master-bus';
+import { RenderGraph } from '../render-graph';
+import { FakeAudioNode, traceNode, type FakeBaseAudioContext } from '../../../test/fake-web-audio';
+import { createEffect } from '../../../test/fixtures';
+
+const getFakeContext = () => Tone.getContext().rawContext as unknown as FakeBaseAudioContext;
+
+const updateEffect = (master: MasterBus, type: TrackEffect['type'], changes: Partial<TrackEffect>): MasterBus => ({
+    ...master,
+    effects: master.effects.map((effect) => effect.type === type ? { ...effect, ...changes } : effect),
+});
+
+describe('master chain', () => {
+    let graph: RenderGraph;
+    let master: MasterBus;
+
+    beforeEach(() => {
+        graph = new RenderGraph(Tone.getDestination());
+        master = createDefaultMasterBus();
+        graph.setMasterBus(master);
+    });
+
+    afterEach(() => {
+        graph.dispose();
+        vi.restoreAllMocks();
+    });
+
+    it('ramps edited params without rebuilding or disconnecting the chain', () => {
+        const nodes = getFakeContext().nodes.length;
+        const disconnect = vi.spyOn(FakeAudioNode.prototype, 'disconnect');
+
+        const ceiling = -3;
+        graph.setMasterBus(updateEffect(master, 'limiter', { params: { ceiling } }));
+
+        expect(disconnect).not.toHaveBeenCalled();
+        expect(getFakeContext().nodes.length).toBe(nodes);
+
+        const limiter = getFakeContext().nodes.findLast((node) => node.kind === 'DynamicsCompressor')!;
+        expect(limiter.getParams().threshold.events.at(-1)).toContain(`(${ceiling},`);
+    });
+
+    it('crossfades bypass without rebuilding or disconnecting the chain', () => {
+        const nodes = getFakeContext().nodes.length;
+        const disconnect = vi.spyOn(FakeAudioNode.prototype, 'disconnect');
+
+        graph.setMasterBus(updateEffect(master, 'compression', { active: true }));
+        graph.setMasterBus(updateEffect(master, 'limiter', { active: false }));
+
+        expect(disconnect).not.toHaveBeenCalled();
+        expect(getFakeContext().nodes.length).toBe(nodes);
+    });
+
+    it('rewires added and reordered effects into the chain', () => {
+        const nodes = getFakeContext().nodes.length;
+        const withReverb = { ...master, effects: [...master.effects, createEffect('master-verb', 'reverb', { decay: 1 })] };
+
+        graph.setMasterBus(withReverb);
+        expect(getFakeContext().nodes.length).toBeGreaterThan(nodes);
+        expect(traceNode(getFakeContext().destination)).toContain('Convolver');
+
+        const created = getFakeContext().nodes.length;
+        graph.setMasterBus({ ...withReverb, effects: [...withReverb.effects].reverse() });
+        expect(getFakeContext().nodes.length).toBe(created);
+        expect(traceNode(getFakeContext().destination)).toContain('Convolver');
+    });
+});
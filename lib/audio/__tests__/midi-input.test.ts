@@ -0,0 +1,177 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as Tone from 'tone';
+import type { Project } from '@/types';
+import { useProjectStore } from '@/lib/store/project';
+import { usePlaybackStore, playbackRefs } from '@/lib/store/playback';
+import { audioEngine } from '../engine';
+import { midiInput, parseMidiMessage } from '../midi-input';
+import { createFixtureProject, createTrack } from '../../../test/fixtures';
+import type { FakeBaseAudioContext } from '../../../test/fake-web-audio';
+
+// Device settings live in IndexedDB
+vi.mock('@/lib/persistence', () => ({
+    getSetting: async <T,>(_key: string, fallback: T) => fallback,
+    setSetting: async () => undefined,
+}));
+
+// One MIDI keyboard; send() delivers a message as the browser would
+function createFakeMidiAccess() {
+    const input = {
+        id: 'keyboard',
+        name: 'Keyboard',
+        manufacturer: 'Test',
+        state: 'connected',
+        onmidimessage: null as ((event: { data: Uint8Array; timeStamp: number }) => void) | null,
+    };
+    const access = { inputs: new Map([[input.id, input]]), outputs: new Map(), onstatechange: null };
+    const send = (...data: number[]) => input.onmidimessage?.({ data: new Uint8Array(data), timeStamp: performance.now() });
+    return { access: access as unknown as MIDIAccess, send };
+}
+
+/**
+ * Drive the transport the way the context's ticker would, so loops wrap.
+ * Call right after playback starts; runTo takes seconds of playback since.
+ */
+function createTransportClock() {
+    const context = Tone.getContext();
+    const raw = context.rawContext as unknown as FakeBaseAudioContext;
+    const startedAt = Tone.now();  // The transport starts a look-ahead after play()
+
+    return {
+        runTo(elapsed: number): void {
+            const end = startedAt + elapsed;
+            while (raw.currentTime < end) {
+                raw.currentTime = Math.min(raw.currentTime + 0.01, end);
+                context.emit('tick');
+            }
+        },
+    };
+}
+
+// 120 bpm in 4/4 throughout: a beat is half a second, a bar two seconds
+function createRecordingProject(): Project {
+    const project = createFixtureProject();
+    return { ...project, tempoMap: undefined, tracks: [...project.tracks, createTrack('rec', { order: 5 })] };
+}
+
+const getRecordedClips = () => useProjectStore.getState().project!.clips.filter((clip) => clip.trackId === 'rec');
+
+describe('parseMidiMessage', () => {
+    it('decodes notes and controllers on any channel', () => {
+        expect(parseMidiMessage(new Uint8Array([0x93, 60, 100]))).toEqual({ type: 'noteOn', channel: 3, pitch: 60, velocity: 100 });
+        expect(parseMidiMessage(new Uint8Array([0x80, 60, 64]))).toEqual({ type: 'noteOff', channel: 0, pitch: 60 });
+        expect(parseMidiMessage(new Uint8Array([0xb1, 64, 127]))).toEqual({ type: 'controlChange', channel: 1, controller: 64, value: 127 });
+    });
+
+    it('reads note-on with velocity 0 as note-off', () => {
+        expect(parseMidiMessage(new Uint8Array([0x90, 62, 0]))).toEqual({ type: 'noteOff', channel: 0, pitch: 62 });
+    });
+
+    it('ignores short, system and unsupported messages', () => {
+        expect(parseMidiMessage(null)).toBeNull();
+        expect(parseMidiMessage(new Uint8Array([0x90, 60]))).toBeNull();
+        expect(parseMidiMessage(new Uint8Array([0xf8, 0, 0]))).toBeNull();
+        expect(parseMidiMessage(new Uint8Array([0xe0, 0, 64]))).toBeNull();
+    });
+});
+
+describe('MIDI recording', () => {
+    let send: ReturnType<typeof createFakeMidiAccess>['send'];
+
+    beforeAll(async () => {
+        await audioEngine.initialize();
+    });
+
+    beforeEach(async () => {
+        // Events arrive as they are sent, however long the test takes to run
+        vi.spyOn(performance, 'now').mockReturnValue(1000);
+
+        const midi = createFakeMidiAccess();
+        send = midi.send;
+        await midiInput.initialize(midi.access);
+
+        useProjectStore.getState().loadProject(createRecordingProject());
+        usePlaybackStore.setState({ loopEnabled: false, loopStartBar: 0, loopEndBar: 4 });
+        audioEngine.setLoop(false);
+    });
+
+    afterEach(async () => {
+        await midiInput.stopRecording();
+        midiInput.dispose();
+        vi.restoreAllMocks();
+    });
+
+    it('anchors the clip where playback starts, not at the old playhead', async () => {
+        // Stopped with the playhead parked at bar 2; recording plays from the top
+        playbackRefs.currentTimeRef.current = 4;
+        await midiInput.startRecording('rec');
+        const clock = createTransportClock();
+
+        clock.runTo(1);
+        send(0x90, 60, 100);
+        clock.runTo(1.5);
+        send(0x80, 60, 0);
+
+        const [clip] = getRecordedClips();
+        expect(clip.startBar).toBe(0);
+        expect(clip.notes).toHaveLength(1);
+        expect(clip.notes![0]).toMatchObject({ pitch: 60, velocity: 100 });
+        expect(clip.notes![0].startBeat).toBeCloseTo(2, 2);
+        expect(clip.notes![0].duration).toBeCloseTo(1, 2);
+    });
+
+    it('commits notes still held when recording stops', async () => {
+        await midiInput.startRecording('rec');
+        const clock = createTransportClock();
+
+        clock.runTo(0.5);
+        send(0x90, 64, 90);
+        send(0x90, 67, 80);
+        clock.runTo(3);
+        send(0x80, 67, 0);
+        clock.runTo(5);
+        await midiInput.stopRecording();
+
+        const notes = getRecordedClips()[0].notes!;
+        expect(notes.map((note) => note.pitch).sort()).toEqual([64, 67]);
+        expect(notes.find((note) => note.pitch === 67)!.duration).toBeCloseTo(5, 2);
+        expect(notes.find((note) => note.pitch === 64)!.duration).toBeCloseTo(9, 2);
+        // The free-running clip grows to cover the held note
+        expect(getRecordedClips()[0].lengthBars).toBe(3);
+    });
+
+    it('overdubs loop passes into one clip spanning the loop', async () => {
+        // Bar 1 to 2 is 2s to 4s
+        usePlaybackStore.setState({ loopEnabled: true, loopStartBar: 1, loopEndBar: 2 });
+        audioEngine.setLoop(true, 1, 2);
+        await midiInput.startRecording('rec');
+        const clock = createTransportClock();
+
+        // First pass
+        clock.runTo(0.5);
+        send(0x90, 60, 100);
+        clock.runTo(1);
+        send(0x80, 60, 0);
+
+        // Held across the loop point, released on the second pass
+        clock.runTo(1.5);
+        send(0x90, 62, 100);
+        clock.runTo(2.25);
+        send(0x80, 62, 0);
+
+        // Second pass
+        send(0x90, 64, 100);
+        clock.runTo(2.75);
+        send(0x80, 64, 0);
+
+        const clips = getRecordedClips();
+        expect(clips).toHaveLength(1);
+        expect(clips[0]).toMatchObject({ startBar: 1, lengthBars: 1 });
+
+        const notes = [...clips[0].notes!].sort((a, b) => a.startBeat - b.startBeat);
+        expect(notes.map((note) => note.pitch)).toEqual([64, 60, 62]);
+        expect(notes.map((note) => note.startBeat)).toEqual([0.5, 1, 3].map((beat) => expect.closeTo(beat, 2)));
+        // The note held over the loop point ends at the loop end
+        expect(notes[2].duration).toBeCloseTo(1, 2);
+    });
+});
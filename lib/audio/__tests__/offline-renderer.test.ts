@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { Project } from '@/types';
+import { exportProjectStems, renderProjectToAudioBuffer } from '../offline-renderer';
+import { getLastRender, traceParamsDrivenBy } from '../../../test/fake-web-audio';
+import { createFixtureProject } from '../../../test/fixtures';
+
+const DURATION = 12;
+
+// Duck gain driven by the WaveShaper gain computer of track-keyed sidechains
+const traceDucking = () =>
+    traceParamsDrivenBy(getLastRender(), 'WaveShaper').filter((trace) => trace.startsWith('Gain.gain'));
+
+describe('stem export', () => {
+    it('ducks a track-keyed stem exactly as in the mix', async () => {
+        const project: Project = createFixtureProject();
+
+        await renderProjectToAudioBuffer(project, undefined, { duration: DURATION });
+        const mix = traceDucking();
+
+        await exportProjectStems(project, undefined, { trackIds: ['bass'], duration: DURATION });
+        const stem = traceDucking();
+
+        expect(mix).toHaveLength(1);
+        expect(stem).toEqual(mix);
+    });
+
+    it('ducks the stem while the key track is muted', async () => {
+        const fixture = createFixtureProject();
+        const project: Project = {
+            ...fixture,
+            tracks: fixture.tracks.map((track) => ({ ...track, muted: track.id === 'drums' })),
+        };
+
+        await renderProjectToAudioBuffer(fixture, undefined, { duration: DURATION });
+        const mix = traceDucking();
+
+        await exportProjectStems(project, undefined, { trackIds: ['bass'], duration: DURATION });
+        expect(traceDucking()).toEqual(mix);
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { Clip, Project, Track } from '@/types';
+import { diffProjects } from '../project-diff';
+import { createClip, createEffect, createFixtureProject, createTrack } from '../../../test/fixtures';
+
+const updateTrack = (project: Project, trackId: string, changes: Partial<Track>): Project => ({
+    ...project,
+    tracks: project.tracks.map((track) => track.id === trackId ? { ...track, ...changes } : track),
+});
+
+const updateClip = (project: Project, clipId: string, changes: Partial<Clip>): Project => ({
+    ...project,
+    clips: project.clips.map((clip) => clip.id === clipId ? { ...clip, ...changes } : clip),
+});
+
+describe('diffProjects', () => {
+    const project = createFixtureProject();
+
+    it('schedules the whole project with nothing to diff against', () => {
+        expect(diffProjects(null, project)).toEqual([{ type: 'schedule-project' }]);
+    });
+
+    it('returns nothing for an unchanged snapshot', () => {
+        expect(diffProjects(project, project)).toEqual([]);
+        expect(diffProjects(project, { ...project, updatedAt: 1 })).toEqual([]);
+    });
+
+    describe('timing', () => {
+        it.each<[string, Partial<Project>]>([
+            ['tempo', { bpm: 90 }],
+            ['time signature', { timeSignature: [3, 4] }],
+            ['tempo map', { tempoMap: [] }],
+            ['project', { id: 'other' }],
+        ])('reschedules everything when the %s changes', (_, changes) => {
+            expect(diffProjects(project, { ...project, ...changes })).toEqual([{ type: 'schedule-project' }]);
+        });
+    });
+
+    describe('clips', () => {
+        it('schedules an added clip', () => {
+            const next = { ...project, clips: [...project.clips, createClip('bass-3', 'bass', { startBar: 1 })] };
+            expect(diffProjects(project, next)).toEqual([{ type: 'schedule-clip', clipId: 'bass-3' }]);
+        });
+
+        it('unschedules a removed clip', () => {
+            const next = { ...project, clips: project.clips.filter((clip) => clip.id !== 'bass-2') };
+            expect(diffProjects(project, next)).toEqual([{ type: 'unschedule-clip', clipId: 'bass-2' }]);
+        });
+
+        it('reschedules a moved clip', () => {
+            expect(diffProjects(project, updateClip(project, 'bass-1', { startBar: 1 })))
+                .toEqual([{ type: 'schedule-clip', clipId: 'bass-1' }]);
+        });
+
+        it('reschedules a clip whose notes or macros were edited', () => {
+            const notes = project.clips.find((clip) => clip.id === 'lead-1')!.notes!.slice(1);
+            expect(diffProjects(project, updateClip(project, 'lead-1', { notes })))
+                .toEqual([{ type: 'schedule-clip', clipId: 'lead-1' }]);
+            expect(diffProjects(project, updateClip(project, 'keys-1', { brightness: 20 })))
+                .toEqual([{ type: 'schedule-clip', clipId: 'keys-1' }]);
+        });
+
+        it('unschedules a muted clip and reschedules it when unmuted', () => {
+            const muted = updateClip(project, 'lead-1', { muted: true });
+            expect(diffProjects(project, muted)).toEqual([{ type: 'unschedule-clip', clipId: 'lead-1' }]);
+            expect(diffProjects(muted, project)).toEqual([{ type: 'schedule-clip', clipId: 'lead-1' }]);
+        });
+
+        it('moves the timeline when the project end changes', () => {
+            const next = updateClip(project, 'lead-1', { startBar: 6 });
+            expect(diffProjects(project, next)).toEqual([
+                { type: 'schedule-clip', clipId: 'lead-1' },
+                { type: 'timeline' },
+            ]);
+        });
+
+        it('reschedules a track\'s clips when its instrument changes', () => {
+            expect(diffProjects(project, updateTrack(project, 'bass', { instrumentPreset: 'sub-bass' }))).toEqual([
+                { type: 'schedule-clip', clipId: 'bass-1' },
+                { type: 'schedule-clip', clipId: 'bass-2' },
+            ]);
+        });
+    });
+
+    describe('tracks', () => {
+        it('updates the mix for volume, pan, solo and sends', () => {
+            expect(diffProjects(project, updateTrack(project, 'keys', { volume: 0.5 }))).toEqual([{ type: 'track-mix' }]);
+            expect(diffProjects(project, updateTrack(project, 'keys', { pan: 0.5 }))).toEqual([{ type: 'track-mix' }]);
+            expect(diffProjects(project, updateTrack(project, 'keys', { solo: true }))).toEqual([{ type: 'track-mix' }]);
+            expect(diffProjects(project, updateTrack(project, 'keys', { sends: [] }))).toEqual([{ type: 'track-mix' }]);
+        });
+
+        it('unschedules the clips of a muted track', () => {
+            expect(diffProjects(project, updateTrack(project, 'lead', { muted: true }))).toEqual([
+                { type: 'track-mix' },
+                { type: 'unschedule-clip', clipId: 'lead-1' },
+            ]);
+        });
+
+        it('keeps a muted sidechain key track scheduled', () => {
+            expect(diffProjects(project, updateTrack(project, 'drums', { muted: true }))).toEqual([{ type: 'track-mix' }]);
+        });
+
+        it('updates only the effects of a track whose inserts changed', () => {
+            const effects = [...project.tracks.find((track) => track.id === 'keys')!.effects!, createEffect('keys-eq', 'eq')];
+            expect(diffProjects(project, updateTrack(project, 'keys', { effects })))
+                .toEqual([{ type: 'track-effects', trackId: 'keys' }]);
+        });
+
+        it('updates only the automation of a track whose lanes changed', () => {
+            expect(diffProjects(project, updateTrack(project, 'bass', { automation: [] })))
+                .toEqual([{ type: 'track-automation', trackId: 'bass' }]);
+        });
+
+        it('updates the mix and schedules clips of an added track', () => {
+            const next = {
+                ...project,
+                tracks: [...project.tracks, createTrack('lead-2', { effects: [createEffect('lead-2-eq', 'eq')] })],
+                clips: [...project.clips, createClip('lead-2-1', 'lead-2', { startBar: 1 })],
+            };
+            expect(diffProjects(project, next)).toEqual([
+                { type: 'track-effects', trackId: 'lead-2' },
+                { type: 'track-mix' },
+                { type: 'schedule-clip', clipId: 'lead-2-1' },
+            ]);
+        });
+
+        it('unschedules the clips of a deleted track', () => {
+            const next = {
+                ...project,
+                tracks: project.tracks.filter((track) => track.id !== 'lead'),
+                clips: project.clips.filter((clip) => clip.trackId !== 'lead'),
+            };
+            expect(diffProjects(project, next)).toEqual([
+                { type: 'track-mix' },
+                { type: 'unschedule-clip', clipId: 'lead-1' },
+            ]);
+        });
+    });
+
+    describe('master bus', () => {
+        it('updates the master for volume and effect changes', () => {
+            const master = project.master!;
+            expect(diffProjects(project, { ...project, master: { ...master, volume: 0.5 } }))
+                .toEqual([{ type: 'master-bus' }]);
+
+            const effects = master.effects.map((effect, i) => i === 0 ? { ...effect, active: false } : effect);
+            expect(diffProjects(project, { ...project, master: { ...master, effects } }))
+                .toEqual([{ type: 'master-bus' }]);
+        });
+    });
+});
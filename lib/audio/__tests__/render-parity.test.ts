@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as Tone from 'tone';
+import type { Project } from '@/types';
+import { playoutManager } from '../playout';
+import { renderProjectToAudioBuffer } from '../offline-renderer';
+import { getLastRender, traceRender } from '../../../test/fake-web-audio';
+import { createFixtureProject } from '../../../test/fixtures';
+
+const DURATION = 12;
+
+/**
+ * Play a project through PlayoutManager, as the transport would live,
+ * and trace what reaches the output
+ */
+async function traceLivePlayout(project: Project): Promise<string> {
+    await Tone.Offline(async ({ transport }) => {
+        transport.bpm.value = project.bpm;
+        transport.timeSignature = project.timeSignature;
+
+        await playoutManager.initialize();
+        await playoutManager.scheduleProject(project);
+        await playoutManager.ready();
+
+        transport.start(0);
+    }, DURATION);
+
+    return traceRender(getLastRender());
+}
+
+async function traceExport(project: Project): Promise<string> {
+    await renderProjectToAudioBuffer(project, undefined, { duration: DURATION });
+    return traceRender(getLastRender());
+}
+
+describe('live playout and export parity', () => {
+    afterEach(() => playoutManager.dispose());
+
+    it('renders the fixture project identically both ways', async () => {
+        const project = createFixtureProject();
+
+        const live = await traceLivePlayout(project);
+        const exported = await traceExport(project);
+
+        // Notes were triggered, so the trace covers the scheduled song
+        expect(live).toContain('linearRampToValueAtTime');
+        expect(exported).toBe(live);
+    });
+
+    it('follows mute and solo the same way', async () => {
+        const fixture = createFixtureProject();
+        const project: Project = {
+            ...fixture,
+            tracks: fixture.tracks.map((track) => ({
+                ...track,
+                solo: track.id === 'bass',
+                muted: track.id === 'lead',
+            })),
+        };
+
+        expect(await traceExport(project)).toBe(await traceLivePlayout(project));
+    });
+});
@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { resampleAudioBuffer } from '../resampler';
+import { FakeAudioBuffer } from '../../../test/fake-web-audio';
+
+function createBuffer(length: number, sampleRate: number, sample: (i: number) => number): AudioBuffer {
+    const buffer = new FakeAudioBuffer({ length, numberOfChannels: 2, sampleRate });
+    for (let ch = 0; ch < 2; ch++) {
+        const data = buffer.getChannelData(ch);
+        for (let i = 0; i < length; i++) data[i] = sample(i);
+    }
+    return buffer as unknown as AudioBuffer;
+}
+
+// Samples far enough from either end that the filter sees a full window
+const getMiddle = (buffer: AudioBuffer, ch: number) =>
+    buffer.getChannelData(ch).subarray(Math.round(buffer.length * 0.25), Math.round(buffer.length * 0.75));
+
+describe('resampler', () => {
+    beforeAll(() => {
+        // The resampler builds its output the way a page does
+        vi.stubGlobal('AudioBuffer', FakeAudioBuffer);
+    });
+
+    afterAll(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('returns the buffer itself when the rate already matches', async () => {
+        const buffer = createBuffer(100, 48000, () => 0.5);
+        expect(await resampleAudioBuffer(buffer, 48000)).toBe(buffer);
+    });
+
+    it.each([
+        [44100, 48000, 44100, 48000],
+        [48000, 44100, 4800, 4410],
+        [48000, 96000, 1001, 2002],
+        [96000, 44100, 9600, 4410],
+    ])('converts %i Hz to %i Hz with the scaled length', async (from, to, length, expected) => {
+        const output = await resampleAudioBuffer(createBuffer(length, from, () => 0), to);
+
+        expect(output.sampleRate).toBe(to);
+        expect(output.length).toBe(expected);
+        expect(output.numberOfChannels).toBe(2);
+    });
+
+    it.each([[44100, 48000], [48000, 44100], [96000, 44100]])('passes DC at unity gain from %i Hz to %i Hz', async (from, to) => {
+        const output = await resampleAudioBuffer(createBuffer(from / 10, from, () => 0.5), to);
+
+        for (let ch = 0; ch < 2; ch++) {
+            for (const sample of getMiddle(output, ch)) {
+                expect(sample).toBeCloseTo(0.5, 3);
+            }
+        }
+    });
+
+    it('reports progress up to 100', async () => {
+        const progress: number[] = [];
+        await resampleAudioBuffer(createBuffer(4410, 44100, () => 0), 48000, (p) => progress.push(p));
+        expect(progress.at(-1)).toBe(100);
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import * as Tone from 'tone';
+import type { Project, Track } from '@/types';
+import { getAutomationTargets } from '../automation';
+import { EffectSlot } from '../effect-slots';
+import { getMidiLearnTargets } from '../midi-learn';
+import { renderProjectToAudioBuffer } from '../offline-renderer';
+import { SidechainCompressor, getSidechainKeyTrackIds } from '../sidechain';
+import { getLastRender, traceParamsDrivenBy, type FakeBaseAudioContext } from '../../../test/fake-web-audio';
+import { createEffect, createFixtureProject, createTrack } from '../../../test/fixtures';
+
+/**
+ * Render a project and trace the gain reduction of track-keyed sidechain
+ * compressors: the duck gain their WaveShaper gain computer drives
+ */
+async function traceDucking(project: Project): Promise<string[]> {
+    await renderProjectToAudioBuffer(project, undefined, { duration: 12 });
+    return traceParamsDrivenBy(getLastRender(), 'WaveShaper').filter((trace) => trace.startsWith('Gain.gain'));
+}
+
+function withTracks(project: Project, update: (track: Track) => Partial<Track>): Project {
+    return { ...project, tracks: project.tracks.map((track) => ({ ...track, ...update(track) })) };
+}
+
+describe('sidechain keys', () => {
+    it('lists tracks keying a compressor on another track', () => {
+        expect(getSidechainKeyTrackIds(createFixtureProject().tracks)).toEqual(new Set(['drums']));
+    });
+
+    it('keeps ducking when the key track is muted', async () => {
+        const project = createFixtureProject();
+        const ducking = await traceDucking(project);
+
+        expect(ducking).toHaveLength(1);
+        expect(ducking[0]).toContain('Oscillator');
+        expect(await traceDucking(withTracks(project, (track) => ({ muted: track.id === 'drums' })))).toEqual(ducking);
+    });
+
+    it('keeps ducking when another track is soloed', async () => {
+        const project = createFixtureProject();
+        const ducking = await traceDucking(project);
+
+        expect(await traceDucking(withTracks(project, (track) => ({ solo: track.id === 'bass' })))).toEqual(ducking);
+    });
+});
+
+describe('sidechain compressor settings', () => {
+    const getGainCurve = () => {
+        const context = Tone.getContext().rawContext as unknown as FakeBaseAudioContext;
+        return context.nodes.findLast((node) => node.kind === 'WaveShaper')!.describeSettings().join();
+    };
+
+    it('updates threshold and ratio in place, keeping the node and its key', () => {
+        const effect = createEffect('duck', 'compression', { sidechainSource: 'trigger', threshold: -24, ratio: 4 });
+        const slot = EffectSlot.create(effect)!;
+        const node = slot.node;
+        const curve = getGainCurve();
+
+        expect(node).toBeInstanceOf(SidechainCompressor);
+        expect(slot.update({ ...effect, params: { ...effect.params, threshold: -12, ratio: 8 } })).toBe(false);
+        expect(slot.node).toBe(node);
+        expect(getGainCurve()).not.toBe(curve);
+
+        slot.dispose();
+    });
+
+    it('replaces the node when the sidechain is removed', () => {
+        const effect = createEffect('duck', 'compression', { sidechainSource: 'trigger' });
+        const slot = EffectSlot.create(effect)!;
+
+        expect(slot.update({ ...effect, params: { sidechainSource: 'none' } })).toBe(true);
+        expect(slot.node).not.toBeInstanceOf(SidechainCompressor);
+
+        slot.dispose();
+    });
+});
+
+describe('sidechain compressor targets', () => {
+    const track = createTrack('pad', {
+        effects: [
+            createEffect('comp', 'compression'),
+            createEffect('duck', 'compression', { sidechainSource: 'trigger' }),
+        ],
+    });
+
+    it('offers no automation for threshold and ratio baked into the gain curve', () => {
+        const targets = getAutomationTargets(track).map((option) => option.target);
+        expect(targets).toEqual(expect.arrayContaining(['comp.threshold', 'comp.ratio']));
+        expect(targets).not.toContain('duck.threshold');
+        expect(targets).not.toContain('duck.ratio');
+    });
+
+    it('still lets a controller move them', () => {
+        const targets = getMidiLearnTargets(track).map((option) => option.target);
+        expect(targets).toEqual(expect.arrayContaining(['duck.threshold', 'duck.ratio']));
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import type { Project, TempoChange } from '@/types';
+import { exportProjectToMidi } from '../export';
+import { importMidiFile } from '../project-io';
+import { TempoMap } from '../tempo-map';
+import { createClip, createFixtureProject } from '../../../test/fixtures';
+
+const change = (bar: number, bpm: number, timeSignature: [number, number], ramp = false): TempoChange =>
+    ({ id: `tempo-${bar}`, bar, bpm, timeSignature, ramp });
+
+// 120 bpm in 4/4, then 3/4 from bar 2 ramping from 60 to arrive at 120 on bar 4
+const createMap = () => new TempoMap(120, [4, 4], [
+    change(2, 60, [3, 4]),
+    change(4, 120, [3, 4], true),
+]);
+
+describe('tempo map conversions', () => {
+    it('converts bars to seconds across meter and tempo changes', () => {
+        const map = createMap();
+
+        expect(map.barToSeconds(1)).toBeCloseTo(2, 9);
+        expect(map.barToSeconds(2)).toBeCloseTo(4, 9);
+        expect(map.barToBeat(3)).toBe(11);
+        // Bars 2-4 ramp 60 → 120 bpm over 6 beats: ∫ 60 / (60 + 10b) db = 6·ln 2
+        expect(map.barToSeconds(4)).toBeCloseTo(4 + 6 * Math.log(2), 9);
+        expect(map.barsToDuration(4, 1)).toBeCloseTo(1.5, 9);
+    });
+
+    it('round-trips seconds and bars through every segment', () => {
+        const map = createMap();
+
+        for (const bar of [0, 0.5, 1.75, 2, 2.4, 3, 3.9, 4, 5.25, 10]) {
+            expect(map.secondsToBar(map.barToSeconds(bar))).toBeCloseTo(bar, 9);
+        }
+        for (const seconds of [0, 1, 3.99, 4.5, 7.2, 9, 12.5, 30]) {
+            expect(map.barToSeconds(map.secondsToBar(seconds))).toBeCloseTo(seconds, 9);
+        }
+    });
+
+    it('extrapolates the first segment before bar 0', () => {
+        const map = createMap();
+        expect(map.barToSeconds(-1)).toBeCloseTo(-2, 9);
+        expect(map.secondsToBar(-1)).toBeCloseTo(-0.5, 9);
+    });
+
+    it('reads the meter in effect at a bar', () => {
+        const map = createMap();
+
+        expect(map.getBeatsPerBarAt(0)).toBe(4);
+        expect(map.getBeatsPerBarAt(1.99)).toBe(4);
+        expect(map.getBeatsPerBarAt(2)).toBe(3);
+        expect(map.getBeatsPerBarAt(100)).toBe(3);
+        expect(new TempoMap(90, [7, 8]).getBeatsPerBarAt(0)).toBe(7);
+    });
+
+    it('lets a change at bar 0 replace the project defaults', () => {
+        const map = new TempoMap(120, [4, 4], [change(0, 60, [6, 8])]);
+
+        expect(map.isConstant).toBe(true);
+        expect(map.getBeatsPerBarAt(0)).toBe(6);
+        expect(map.barToSeconds(1)).toBeCloseTo(6, 9);
+    });
+});
+
+describe('tempo map MIDI round trip', () => {
+    async function roundTrip(project: Project): Promise<Project> {
+        const bytes = exportProjectToMidi(project).toArray();
+        const result = await importMidiFile(new File([bytes as BlobPart], 'song.mid'));
+        expect(result.success).toBe(true);
+        return result.project!;
+    }
+
+    const createProject = (tempoMap: TempoChange[]): Project => ({
+        ...createFixtureProject(),
+        tracks: createFixtureProject().tracks.filter((track) => track.id === 'keys'),
+        // One note on the second beat of bar 3
+        clips: [createClip('keys-1', 'keys', {
+            startBar: 3,
+            lengthBars: 1,
+            notes: [{ id: 'n', pitch: 60, startBeat: 1, duration: 1, velocity: 100 }],
+        })],
+        tempoMap,
+    });
+
+    it('keeps tempo and meter changes, with beats rescaled from quarter notes', async () => {
+        const project = createProject([change(2, 180, [6, 8]), change(4, 100, [4, 4])]);
+        const imported = await roundTrip(project);
+
+        expect(imported.bpm).toBe(120);
+        expect(imported.timeSignature).toEqual([4, 4]);
+        expect(imported.tempoMap!.map(({ bar, bpm, timeSignature, ramp }) => ({ bar, bpm, timeSignature, ramp })))
+            .toEqual(project.tempoMap!.map(({ bar, bpm, timeSignature, ramp }) => ({ bar, bpm, timeSignature, ramp })));
+    });
+
+    it('places notes at the same time after a round trip', async () => {
+        const project = createProject([change(2, 180, [6, 8]), change(4, 100, [4, 4])]);
+        const imported = await roundTrip(project);
+
+        const noteSeconds = (p: Project) => {
+            const map = TempoMap.fromProject(p);
+            const clip = p.clips[0];
+            return map.beatToSeconds(map.barToBeat(clip.startBar) + clip.notes![0].startBeat);
+        };
+        expect(noteSeconds(imported)).toBeCloseTo(noteSeconds(project), 6);
+    });
+
+    it('keeps bar times across a ramp written as per-beat tempo events', async () => {
+        const project = createProject([change(2, 60, [4, 4], true)]);
+        const original = TempoMap.fromProject(project);
+        const imported = TempoMap.fromProject(await roundTrip(project));
+
+        for (const bar of [0, 1, 1.5, 2, 3, 5]) {
+            expect(imported.barToSeconds(bar)).toBeCloseTo(original.barToSeconds(bar), 2);
+        }
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as Tone from 'tone';
+import type { SamplerPlayMode, SamplerPreset, SamplerZone } from '@/types';
+import { UserSampler } from '../user-sampler';
+import type { FakeBaseAudioContext } from '../../../test/fake-web-audio';
+
+// Every sample is a tenth of a second of silence
+vi.mock('../sample-import', () => ({
+    getUserSampleAudioBuffer: async () => Tone.getContext().createBuffer(1, 4410, 44100),
+}));
+
+const ZONE = { sampleId: 'sample', rootNote: 60, lowNote: 0, highNote: 127, lowVelocity: 1, highVelocity: 127 };
+
+function createPreset(mode: SamplerPlayMode, zones: SamplerZone[]): SamplerPreset {
+    return {
+        id: 'preset',
+        name: 'Preset',
+        zones,
+        envelope: { attack: 0.001, decay: 0.01, sustain: 1, release: 0.01 },
+        mode,
+        createdAt: 0,
+        updatedAt: 0,
+    };
+}
+
+const getFakeContext = () => Tone.getContext().rawContext as unknown as FakeBaseAudioContext;
+
+/**
+ * Play every sample source created since `fromNode` to its end, as the
+ * browser does when a buffer runs out
+ */
+function playSamplesOut(fromNode: number): void {
+    getFakeContext().nodes.slice(fromNode)
+        .filter((node) => node.kind === 'BufferSource')
+        .forEach((node) => node.onended?.());
+}
+
+describe('user sampler voices', () => {
+    it('drops a note whose samples ran out, so the next note-off finds the right voice', async () => {
+        // Soft notes play a short sample through, hard ones loop until released
+        const sampler = new UserSampler(createPreset('gate', [
+            { id: 'soft', ...ZONE, highVelocity: 63 },
+            { id: 'hard', ...ZONE, lowVelocity: 64, loop: { start: 0, end: 0.05 } },
+        ]));
+        await sampler.ready;
+
+        const firstNode = getFakeContext().nodes.length;
+        sampler.triggerAttack('C4', Tone.now(), 0.2);
+        playSamplesOut(firstNode);
+        expect(sampler.getVoiceCount()).toBe(0);
+
+        sampler.triggerAttack('C4', Tone.now(), 1);
+        expect(sampler.getVoiceCount()).toBe(1);
+        sampler.triggerRelease('C4', Tone.now());
+        expect(sampler.getVoiceCount()).toBe(0);
+
+        sampler.dispose();
+    });
+
+    it('lets one-shots play out and forgets them when they end', async () => {
+        // Two layers on every key
+        const sampler = new UserSampler(createPreset('one-shot', [{ id: 'a', ...ZONE }, { id: 'b', ...ZONE }]));
+        await sampler.ready;
+
+        const firstNode = getFakeContext().nodes.length;
+        for (const note of ['C4', 'C4', 'E4']) {
+            sampler.triggerAttack(note, Tone.now());
+            sampler.triggerRelease(note, Tone.now());
+        }
+        expect(sampler.getVoiceCount()).toBe(6);
+
+        playSamplesOut(firstNode);
+        expect(sampler.getVoiceCount()).toBe(0);
+
+        sampler.dispose();
+    });
+
+    it('stops one-shots on releaseAll', async () => {
+        const sampler = new UserSampler(createPreset('one-shot', [{ id: 'a', ...ZONE }]));
+        await sampler.ready;
+
+        sampler.triggerAttack('C4', Tone.now());
+        sampler.releaseAll(Tone.now());
+        expect(sampler.getVoiceCount()).toBe(0);
+
+        sampler.dispose();
+    });
+});
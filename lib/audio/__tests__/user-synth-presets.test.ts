@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { SynthPatch } from '@/types';
+import { SYNTH_PRESETS } from '../synth-presets';
+import { readSynthPresetFile } from '../user-synth-presets';
+
+const ENVELOPE = { attack: 0.01, decay: 0.2, sustain: 0.5, release: 0.8 };
+
+function createPresetFile(patch: unknown, category: unknown = 'lead'): File {
+    const data = { format: 'composeyogi-synth-preset', version: 1, preset: { name: 'Shared', category, patch } };
+    return new File([JSON.stringify(data)], 'shared.cysynth.json');
+}
+
+describe('synth preset files', () => {
+    it('reads every built-in patch', async () => {
+        for (const { category, patch } of Object.values(SYNTH_PRESETS)) {
+            const preset = await readSynthPresetFile(createPresetFile(patch, category));
+            expect(preset.patch).toEqual(patch);
+        }
+    });
+
+    it('rejects unknown voices and categories', async () => {
+        await expect(readSynthPresetFile(createPresetFile({ voice: 'wavetable', envelope: ENVELOPE })))
+            .rejects.toThrow('Preset has an unknown voice type');
+        await expect(readSynthPresetFile(createPresetFile({ voice: 'synth', oscillator: { type: 'sine' }, envelope: ENVELOPE }, 'guitar')))
+            .rejects.toThrow('Preset has an unknown category');
+    });
+
+    it('requires an oscillator and envelope for the voices that play them', async () => {
+        await expect(readSynthPresetFile(createPresetFile({ voice: 'fm', envelope: ENVELOPE })))
+            .rejects.toThrow('Preset has a missing or invalid oscillator');
+        await expect(readSynthPresetFile(createPresetFile({ voice: 'synth', oscillator: { type: 'sine' } })))
+            .rejects.toThrow('Preset has a missing or invalid envelope');
+        await expect(readSynthPresetFile(createPresetFile({ voice: 'noise', noise: { type: 'pink' } })))
+            .rejects.toThrow('Preset has a missing or invalid envelope');
+
+        // The sampler has neither of its own
+        const sampler = await readSynthPresetFile(createPresetFile({ voice: 'sampler', urls: { C4: 'c4.mp3' } }));
+        expect(sampler.patch.voice).toBe('sampler');
+    });
+
+    it('rejects values out of range', async () => {
+        const synth = (patch: Partial<SynthPatch>) =>
+            readSynthPresetFile(createPresetFile({ voice: 'synth', oscillator: { type: 'sine' }, envelope: ENVELOPE, ...patch }));
+
+        await expect(synth({ envelope: { ...ENVELOPE, sustain: 1.5 } })).rejects.toThrow('envelope');
+        await expect(synth({ envelope: { ...ENVELOPE, attack: -1 } })).rejects.toThrow('envelope');
+        await expect(synth({ oscillator: { type: 'pulse', width: 2 } })).rejects.toThrow('oscillator');
+        await expect(synth({ oscillator: { type: 'supersaw' } })).rejects.toThrow('oscillator');
+        await expect(synth({ volume: Number.NaN })).rejects.toThrow('volume');
+        await expect(synth({ harmonicity: 0 })).rejects.toThrow('modulation');
+        await expect(synth({ noise: { type: 'blue' as 'white' } })).rejects.toThrow('noise type');
+        await expect(synth({ filter: { type: 'lowpass', Q: 1, rolloff: -36 as -24 } })).rejects.toThrow('filter');
+    });
+});
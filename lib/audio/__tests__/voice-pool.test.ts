@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as Tone from 'tone';
+import type { Clip, Project } from '@/types';
+import { DEMO_TEMPLATES } from '@/lib/templates/demo-templates';
+import { loadDemoTemplate } from '@/lib/templates/loader';
+import { RenderGraph } from '../render-graph';
+import { createClip, createFixtureProject, createNotes } from '../../../test/fixtures';
+
+// Raise the first note of a clip by a semitone
+const editFirstNote = (project: Project, clipId: string): Project => ({
+    ...project,
+    clips: project.clips.map((clip) => clip.id !== clipId ? clip : {
+        ...clip,
+        notes: clip.notes?.map((note, i) => i === 0 ? { ...note, pitch: note.pitch + 1 } : note),
+    }),
+});
+
+const withClips = (project: Project, ...clips: Clip[]): Project => ({ ...project, clips: [...project.clips, ...clips] });
+
+describe('voice pool', () => {
+    let graph: RenderGraph;
+    // Sampler presets fetch their samples; serve a short silent file and count the requests
+    const fetchSample = vi.fn(async () => new Response(new Float32Array(64).buffer));
+
+    beforeEach(() => {
+        vi.stubGlobal('fetch', fetchSample);
+        graph = new RenderGraph(Tone.getDestination());
+    });
+
+    afterEach(() => {
+        graph.dispose();
+        fetchSample.mockClear();
+        vi.unstubAllGlobals();
+    });
+
+    describe.each(DEMO_TEMPLATES.map((template) => template.id))('play start on %s', (id) => {
+        const project = loadDemoTemplate(id)!;
+        const noteTracks = new Set(project.clips.filter((clip) => clip.notes?.length).map((clip) => clip.trackId));
+
+        it('builds one voice per instrument track', async () => {
+            await graph.scheduleProject(project);
+            expect(graph.getVoiceCount()).toBe(noteTracks.size);
+        });
+
+        it('replays a note edit without building or reloading instruments', async () => {
+            await graph.scheduleProject(project);
+            fetchSample.mockClear();
+
+            await graph.scheduleProject(editFirstNote(project, project.clips[0].id));
+            expect(fetchSample).not.toHaveBeenCalled();
+            expect(graph.getVoiceCount()).toBe(noteTracks.size);
+        });
+    });
+
+    describe('sharing', () => {
+        const project = createFixtureProject();
+        const bassClip = (id: string, startBar: number, overrides: Partial<Clip> = {}) =>
+            createClip(id, 'bass', { startBar, lengthBars: 1, notes: createNotes(40, 4), ...overrides });
+
+        it('plays every clip of a track through one voice', async () => {
+            await graph.scheduleProject(project);
+            const voices = graph.getVoiceCount();
+
+            await graph.scheduleProject(withClips(project, bassClip('bass-3', 4), bassClip('bass-4', 5)));
+            expect(graph.getVoiceCount()).toBe(voices);
+        });
+
+        it('gives a clip overlapping the others its own voice', async () => {
+            await graph.scheduleProject(project);
+            const voices = graph.getVoiceCount();
+
+            await graph.scheduleProject(withClips(project, bassClip('bass-3', 1)));
+            expect(graph.getVoiceCount()).toBe(voices + 1);
+        });
+
+        it('gives a clip with its own brightness or space its own voice', async () => {
+            await graph.scheduleProject(project);
+            const voices = graph.getVoiceCount();
+
+            await graph.scheduleProject(withClips(project, bassClip('bass-3', 4, { brightness: 20 })));
+            expect(graph.getVoiceCount()).toBe(voices + 1);
+        });
+
+        it('lets go of voices no clip plays any more', async () => {
+            await graph.scheduleProject(withClips(project, bassClip('bass-3', 1)));
+            const voices = graph.getVoiceCount();
+
+            await graph.scheduleProject(project);
+            expect(graph.getVoiceCount()).toBe(voices - 1);
+        });
+    });
+});
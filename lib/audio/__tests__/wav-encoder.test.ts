@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAudioBufferToWav, type WavBitDepth } from '../wav-encoder';
+import { FakeAudioBuffer } from '../../../test/fake-web-audio';
+
+function createBuffer(channels: number[][], sampleRate = 48000): AudioBuffer {
+    const buffer = new FakeAudioBuffer({ length: channels[0].length, numberOfChannels: channels.length, sampleRate });
+    channels.forEach((samples, ch) => buffer.getChannelData(ch).set(samples));
+    return buffer as unknown as AudioBuffer;
+}
+
+async function encode(buffer: AudioBuffer, bitDepth: WavBitDepth, dither = false): Promise<DataView> {
+    const blob = encodeAudioBufferToWav(buffer, { bitDepth, dither });
+    return new DataView(await blob.arrayBuffer());
+}
+
+const readString = (view: DataView, offset: number, length: number) =>
+    String.fromCharCode(...new Uint8Array(view.buffer, offset, length));
+
+describe('wav header', () => {
+    it.each([16, 24] as const)('writes a %i-bit PCM fmt chunk', async (bitDepth) => {
+        const view = await encode(createBuffer([[0, 0, 0], [0, 0, 0]]), bitDepth);
+        const blockAlign = 2 * (bitDepth / 8);
+
+        expect(readString(view, 0, 4)).toBe('RIFF');
+        expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+        expect(readString(view, 8, 8)).toBe('WAVEfmt ');
+        expect(view.getUint32(16, true)).toBe(16);
+        expect(view.getUint16(20, true)).toBe(1);                  // PCM
+        expect(view.getUint16(22, true)).toBe(2);
+        expect(view.getUint32(24, true)).toBe(48000);
+        expect(view.getUint32(28, true)).toBe(48000 * blockAlign);
+        expect(view.getUint16(32, true)).toBe(blockAlign);
+        expect(view.getUint16(34, true)).toBe(bitDepth);
+        expect(readString(view, 36, 4)).toBe('data');
+        expect(view.getUint32(40, true)).toBe(3 * blockAlign);
+        expect(view.byteLength).toBe(44 + 3 * blockAlign);
+    });
+
+    it('writes 32-bit float with the extended fmt chunk and a fact chunk', async () => {
+        const view = await encode(createBuffer([[0.25, -1.5, 1]]), 32);
+
+        expect(view.getUint32(16, true)).toBe(18);
+        expect(view.getUint16(20, true)).toBe(3);                  // IEEE float
+        expect(view.getUint32(28, true)).toBe(48000 * 4);
+        expect(view.getUint16(32, true)).toBe(4);
+        expect(view.getUint16(34, true)).toBe(32);
+        expect(view.getUint16(36, true)).toBe(0);                  // cbSize
+        expect(readString(view, 38, 4)).toBe('fact');
+        expect(view.getUint32(42, true)).toBe(4);
+        expect(view.getUint32(46, true)).toBe(3);                  // Sample frames
+        expect(readString(view, 50, 4)).toBe('data');
+        expect(view.getUint32(54, true)).toBe(12);
+
+        // Float samples are stored as they are, unclipped
+        expect([0, 1, 2].map((i) => view.getFloat32(58 + i * 4, true))).toEqual([0.25, -1.5, 1]);
+    });
+});
+
+describe('wav samples', () => {
+    it('packs 24-bit samples little-endian and clips out-of-range values', async () => {
+        const view = await encode(createBuffer([[0.5, -1, 1.5, -2, -1 / 8388608]]), 24);
+        const bytes = Array.from(new Uint8Array(view.buffer, 44, 15));
+
+        expect(bytes).toEqual([
+            0x00, 0x00, 0x40,   // 0.5 → 0x400000
+            0x00, 0x00, 0x80,   // -1 → -0x800000
+            0xFF, 0xFF, 0x7F,   // 1.5 clips to 0x7FFFFF
+            0x00, 0x00, 0x80,   // -2 clips to -0x800000
+            0xFF, 0xFF, 0xFF,   // -1 LSB
+        ]);
+    });
+
+    it('dithers 16-bit samples within one LSB without biasing them', async () => {
+        const count = 20000;
+        const view = await encode(createBuffer([new Array(count).fill(1000.25 / 32768)]), 16, true);
+
+        let sum = 0;
+        for (let i = 0; i < count; i++) {
+            const value = view.getInt16(44 + i * 2, true);
+            expect(Math.abs(value - 1000)).toBeLessThanOrEqual(1);
+            sum += value;
+        }
+        expect(sum / count).toBeCloseTo(1000.25, 1);
+    });
+
+    it('rounds without dither when it is off', async () => {
+        const view = await encode(createBuffer([[1000.4 / 32768, -1000.6 / 32768]]), 16);
+        expect([view.getInt16(44, true), view.getInt16(46, true)]).toEqual([1000, -1001]);
+    });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, type ZipEntry } from '../zip-writer';
+
+describe('zip writer', () => {
+    it('stores entries with a central directory that points back at them', async () => {
+        const entries = [
+            { name: 'a.wav', data: new Uint8Array([1, 2, 3]) },
+            { name: 'stems/b.wav', data: new Uint8Array([4, 5]) },
+        ];
+        const view = new DataView(await createZip(entries).arrayBuffer());
+
+        // End of central directory record
+        const end = view.byteLength - 22;
+        expect(view.getUint32(end, true)).toBe(0x06054B50);
+        expect(view.getUint16(end + 10, true)).toBe(2);
+        const centralOffset = view.getUint32(end + 16, true);
+        expect(centralOffset).toBe(30 + 5 + 3 + 30 + 11 + 2);
+        expect(view.getUint32(end + 12, true)).toBe(end - centralOffset);
+
+        // Second central header: size and local header offset
+        const second = centralOffset + 46 + 5;
+        expect(view.getUint32(second, true)).toBe(0x02014B50);
+        expect(view.getUint32(second + 24, true)).toBe(2);
+        expect(view.getUint32(second + 42, true)).toBe(30 + 5 + 3);
+    });
+
+    it('refuses archives whose sizes overflow 32-bit fields', () => {
+        // Only the length is read before the limit is checked
+        const huge = { length: 2 ** 31 } as Uint8Array;
+        const entries: ZipEntry[] = [{ name: 'a.wav', data: huge }, { name: 'b.wav', data: huge }];
+
+        expect(() => createZip(entries)).toThrow('too large for a ZIP archive');
+    });
+
+    it('refuses more files than the directory can count', () => {
+        const entries = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}.wav`, data: new Uint8Array(0) }));
+        expect(() => createZip(entries)).toThrow('Too many files');
+    });
+});
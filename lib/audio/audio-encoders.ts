@@ -0,0 +1,223 @@
+// ============================================
+// ComposeYogi — Audio Encoders
+// Pluggable compressed export formats; the built-in MP3,
+// FLAC and Ogg Opus encoders run in a Web Worker
+// ============================================
+
+import { createLogger } from '@/lib/logger';
+import type { AudioEncoderFormat, AudioEncoderWorkerMessage, AudioEncoderWorkerResponse } from '@/types';
+import { createId3Tag, type ResolvedExportMetadata } from './audio-metadata';
+import { MP3_QUALITY_PRESETS } from './mp3-encoder';
+import { resampleAudioBuffer } from './resampler';
+
+const log = createLogger('AudioEncoders');
+
+// ============================================
+// Types
+// ============================================
+
+export interface EncoderQuality {
+    value: number;
+    label: string;
+}
+
+export interface EncodeOptions {
+    dither?: boolean;     // TPDF dither when quantizing to fewer bits (lossless formats)
+}
+
+export interface ExportEncoder {
+    id: string;
+    label: string;
+    description: string;
+    extension: string;
+    mimeType: string;
+    qualities: EncoderQuality[];
+    defaultQuality: number;
+    sampleRate?: number;            // Input rate the format requires; buffers are resampled to it
+    isSupported: () => boolean;
+    encode: (
+        buffer: AudioBuffer,
+        quality: number,
+        onProgress?: (progress: number) => void,
+        options?: EncodeOptions
+    ) => Promise<Blob>;
+    addMetadata?: (blob: Blob, metadata: ResolvedExportMetadata) => Promise<Blob>;    // Tag an encoded file
+}
+
+// ============================================
+// Registry
+// ============================================
+
+const encoders = new Map<string, ExportEncoder>();
+
+/**
+ * Add an export format. Registering an existing id replaces it.
+ */
+export function registerExportEncoder(encoder: ExportEncoder): void {
+    encoders.set(encoder.id, encoder);
+}
+
+/**
+ * Every registered format, in registration order
+ */
+export function getExportEncoders(): ExportEncoder[] {
+    return [...encoders.values()];
+}
+
+export function getExportEncoder(id: string): ExportEncoder | undefined {
+    return encoders.get(id);
+}
+
+/**
+ * Encode with a registered format, resampling first when the format
+ * needs a fixed rate. Progress is reported 0-100.
+ */
+export async function encodeAudioBuffer(
+    buffer: AudioBuffer,
+    encoderId: string,
+    quality?: number,
+    onProgress?: (progress: number) => void,
+    options: EncodeOptions = {}
+): Promise<Blob> {
+    const encoder = getExportEncoder(encoderId);
+    if (!encoder) {
+        throw new Error(`Unknown export format: ${encoderId}`);
+    }
+    if (!encoder.isSupported()) {
+        throw new Error(`${encoder.label} export is not supported in this browser`);
+    }
+
+    let input = buffer;
+    let encodeStart = 0;
+    if (encoder.sampleRate && encoder.sampleRate !== buffer.sampleRate) {
+        encodeStart = 30;
+        input = await resampleAudioBuffer(buffer, encoder.sampleRate, (p) => {
+            onProgress?.(Math.round(p * 0.3));
+        });
+    }
+
+    return encoder.encode(input, quality ?? encoder.defaultQuality, (p) => {
+        onProgress?.(encodeStart + Math.round(p * (1 - encodeStart / 100)));
+    }, options);
+}
+
+// ============================================
+// Worker Encoding
+// ============================================
+
+/**
+ * Run one of the worker's formats over a buffer
+ */
+function encodeInWorker(
+    format: AudioEncoderFormat,
+    mimeType: string,
+    buffer: AudioBuffer,
+    quality: number,
+    onProgress?: (progress: number) => void,
+    options: EncodeOptions = {}
+): Promise<Blob> {
+    if (typeof Worker === 'undefined') {
+        return Promise.reject(new Error('Web Workers are not supported'));
+    }
+
+    const channelData: Float32Array[] = [];
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        channelData.push(buffer.getChannelData(ch).slice());
+    }
+
+    log.info(`Encoding ${format}: ${buffer.numberOfChannels}ch, ${buffer.sampleRate}Hz, ${buffer.length} samples`);
+
+    return new Promise((resolve, reject) => {
+        const worker = new Worker('/workers/audio-encoder-worker.js');
+        const jobId = `encode_${format}_${Date.now()}`;
+
+        worker.onmessage = (e: MessageEvent<AudioEncoderWorkerResponse>) => {
+            const { type, progress, bytes, error } = e.data;
+
+            switch (type) {
+                case 'progress':
+                    onProgress?.(progress ?? 0);
+                    break;
+                case 'result':
+                    worker.terminate();
+                    resolve(new Blob([bytes ?? new ArrayBuffer(0)], { type: mimeType }));
+                    break;
+                case 'error':
+                    worker.terminate();
+                    reject(new Error(error ?? 'Unknown error'));
+                    break;
+            }
+        };
+
+        worker.onerror = (e) => {
+            worker.terminate();
+            reject(new Error(e.message || 'Encoder worker crashed'));
+        };
+
+        const message: AudioEncoderWorkerMessage = {
+            type: 'encode',
+            jobId,
+            data: { format, channelData, sampleRate: buffer.sampleRate, quality, dither: options.dither },
+        };
+        worker.postMessage(message, channelData.map((channel) => channel.buffer));
+    });
+}
+
+// ============================================
+// Built-in Encoders
+// ============================================
+
+const hasWorker = () => typeof Worker !== 'undefined';
+
+registerExportEncoder({
+    id: 'mp3',
+    label: 'MP3',
+    description: 'Compressed, smaller file size',
+    extension: 'mp3',
+    mimeType: 'audio/mp3',
+    qualities: Object.entries(MP3_QUALITY_PRESETS).map(([kbps, preset]) => ({
+        value: Number(kbps),
+        label: preset.label,
+    })),
+    defaultQuality: 192,
+    isSupported: hasWorker,
+    encode: (buffer, quality, onProgress) => encodeInWorker('mp3', 'audio/mp3', buffer, quality, onProgress),
+    // ID3v2 goes at the very start of the file, ahead of the first frame
+    addMetadata: async (blob, metadata) => new Blob([createId3Tag(metadata) as BlobPart, blob], { type: blob.type }),
+});
+
+registerExportEncoder({
+    id: 'flac',
+    label: 'FLAC',
+    description: 'Lossless, smaller than WAV',
+    extension: 'flac',
+    mimeType: 'audio/flac',
+    qualities: [
+        { value: 16, label: '16-bit' },
+        { value: 24, label: '24-bit' },
+    ],
+    defaultQuality: 16,
+    isSupported: hasWorker,
+    encode: (buffer, quality, onProgress, options) =>
+        encodeInWorker('flac', 'audio/flac', buffer, quality, onProgress, options),
+});
+
+// Opus runs at 48 kHz and needs the browser's WebCodecs encoder
+registerExportEncoder({
+    id: 'opus',
+    label: 'Ogg Opus',
+    description: 'Efficient lossy codec for streaming and sharing',
+    extension: 'opus',
+    mimeType: 'audio/ogg; codecs=opus',
+    qualities: [
+        { value: 96, label: 'Standard (96 kbps)' },
+        { value: 128, label: 'High (128 kbps)' },
+        { value: 192, label: 'Very high (192 kbps)' },
+        { value: 256, label: 'Maximum (256 kbps)' },
+    ],
+    defaultQuality: 128,
+    sampleRate: 48000,
+    isSupported: () => hasWorker() && typeof AudioEncoder !== 'undefined',
+    encode: (buffer, quality, onProgress) =>
+        encodeInWorker('opus', 'audio/ogg; codecs=opus', buffer, quality, onProgress),
+});
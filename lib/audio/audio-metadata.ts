@@ -0,0 +1,314 @@
+// ============================================
+// ComposeYogi — Audio Metadata
+// ID3v2 tags for MP3; RIFF INFO, bext and iXML chunks for WAV
+// ============================================
+
+import type { ExportMetadata, Project } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+export type ResolvedExportMetadata = Required<Omit<ExportMetadata, 'cover'>> & Pick<ExportMetadata, 'cover'>;
+
+export interface WavMetadataFormat {
+    sampleRate: number;
+    bitDepth: number;      // 32 is IEEE float, as in the WAV encoder
+    channels: number;
+    loudness?: number;     // Integrated LUFS, written to bext
+}
+
+const SOFTWARE = 'ComposeYogi';
+const COVER_MAX_SIZE = 600;     // px, longest side
+const COVER_QUALITY = 0.85;
+
+// ============================================
+// Defaults
+// ============================================
+
+/**
+ * Key in the short form tag readers expect ("A", "F#m")
+ */
+function formatKey(project: Project): string {
+    return `${project.key}${project.scale === 'minor' ? 'm' : ''}`;
+}
+
+/**
+ * Field values pre-filled from the project
+ */
+export function getDefaultExportMetadata(project: Project): ResolvedExportMetadata {
+    return {
+        title: project.name,
+        artist: '',
+        album: '',
+        genre: '',
+        bpm: String(Math.round(project.bpm)),
+        key: formatKey(project),
+        year: String(new Date().getFullYear()),
+        comment: '',
+    };
+}
+
+/**
+ * The project's stored fields over its defaults
+ */
+export function resolveExportMetadata(project: Project): ResolvedExportMetadata {
+    return { ...getDefaultExportMetadata(project), ...project.exportMetadata };
+}
+
+// ============================================
+// Cover Image
+// ============================================
+
+/**
+ * Read an image file as a JPEG data URL no larger than COVER_MAX_SIZE,
+ * small enough to keep in the project and embed in every export
+ */
+export async function readCoverImage(file: File): Promise<string> {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, COVER_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not read image');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    return canvas.toDataURL('image/jpeg', COVER_QUALITY);
+}
+
+function dataUrlToBytes(dataUrl: string): { mimeType: string; bytes: Uint8Array } | null {
+    const match = /^data:([^;,]+);base64,(.*)$/.exec(dataUrl);
+    if (!match) return null;
+
+    const binary = atob(match[2]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { mimeType: match[1], bytes };
+}
+
+// ============================================
+// Byte Helpers
+// ============================================
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+function latin1(text: string, length?: number): Uint8Array {
+    const bytes = new Uint8Array(length ?? text.length);
+    for (let i = 0; i < Math.min(bytes.length, text.length); i++) {
+        const code = text.charCodeAt(i);
+        bytes[i] = code < 256 ? code : 0x3F;   // '?'
+    }
+    return bytes;
+}
+
+// UTF-16 with a byte order mark, as ID3v2.3 encoding 1 expects
+function utf16(text: string): Uint8Array {
+    const bytes = new Uint8Array(2 + text.length * 2);
+    bytes[0] = 0xFF;
+    bytes[1] = 0xFE;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        bytes[2 + i * 2] = code & 0xFF;
+        bytes[3 + i * 2] = code >> 8;
+    }
+    return bytes;
+}
+
+// ============================================
+// ID3v2.3
+// ============================================
+
+function id3Frame(id: string, body: Uint8Array): Uint8Array {
+    const frame = new Uint8Array(10 + body.length);
+    const view = new DataView(frame.buffer);
+    frame.set(latin1(id), 0);
+    view.setUint32(4, body.length);
+    frame.set(body, 10);
+    return frame;
+}
+
+function id3TextFrame(id: string, text: string): Uint8Array {
+    return id3Frame(id, concat([new Uint8Array([1]), utf16(text)]));
+}
+
+/**
+ * An ID3v2.3 tag (widest player support) with text frames for every
+ * filled field and the cover as the front-cover picture
+ */
+export function createId3Tag(metadata: ResolvedExportMetadata): Uint8Array {
+    const frames: Uint8Array[] = [];
+    const text: [string, string][] = [
+        ['TIT2', metadata.title],
+        ['TPE1', metadata.artist],
+        ['TALB', metadata.album],
+        ['TCON', metadata.genre],
+        ['TBPM', metadata.bpm],
+        ['TKEY', metadata.key],
+        ['TYER', metadata.year],
+        ['TSSE', SOFTWARE],
+    ];
+    for (const [id, value] of text) {
+        if (value) frames.push(id3TextFrame(id, value));
+    }
+
+    if (metadata.comment) {
+        frames.push(id3Frame('COMM', concat([
+            new Uint8Array([1]),
+            latin1('eng'),
+            utf16(''), new Uint8Array([0, 0]),      // Empty description
+            utf16(metadata.comment),
+        ])));
+    }
+
+    const cover = metadata.cover ? dataUrlToBytes(metadata.cover) : null;
+    if (cover) {
+        frames.push(id3Frame('APIC', concat([
+            new Uint8Array([0]),
+            latin1(cover.mimeType), new Uint8Array([0]),
+            new Uint8Array([3, 0]),                 // Front cover, empty description
+            cover.bytes,
+        ])));
+    }
+
+    const body = concat(frames);
+    const header = new Uint8Array(10);
+    header.set(latin1('ID3'), 0);
+    header[3] = 3;                                  // v2.3.0
+    // Tag size is syncsafe: 7 bits per byte
+    header[6] = (body.length >> 21) & 0x7F;
+    header[7] = (body.length >> 14) & 0x7F;
+    header[8] = (body.length >> 7) & 0x7F;
+    header[9] = body.length & 0x7F;
+
+    return concat([header, body]);
+}
+
+// ============================================
+// RIFF Chunks
+// ============================================
+
+function riffChunk(id: string, data: Uint8Array): Uint8Array {
+    const padded = data.length % 2;
+    const chunk = new Uint8Array(8 + data.length + padded);
+    chunk.set(latin1(id), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+}
+
+function createInfoChunk(metadata: ResolvedExportMetadata): Uint8Array {
+    const encoder = new TextEncoder();
+    const fields: [string, string][] = [
+        ['INAM', metadata.title],
+        ['IART', metadata.artist],
+        ['IPRD', metadata.album],
+        ['IGNR', metadata.genre],
+        ['ICRD', metadata.year],
+        ['ICMT', metadata.comment],
+        ['ISFT', SOFTWARE],
+    ];
+
+    const entries = fields
+        .filter(([, value]) => value)
+        .map(([id, value]) => riffChunk(id, concat([encoder.encode(value), new Uint8Array([0])])));
+
+    return riffChunk('LIST', concat([latin1('INFO'), ...entries]));
+}
+
+/**
+ * Broadcast Wave extension (EBU Tech 3285 v2): description, origination
+ * stamp, integrated loudness and coding history
+ */
+function createBextChunk(metadata: ResolvedExportMetadata, format: WavMetadataFormat): Uint8Array {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const description = [metadata.title, metadata.artist].filter(Boolean).join(' - ');
+    const channels = format.channels === 1 ? 'mono' : 'stereo';
+    const coding = format.bitDepth === 32 ? 'IEEE_FLOAT' : 'PCM';
+    const history = `A=${coding},F=${format.sampleRate},W=${format.bitDepth},M=${channels},T=${SOFTWARE}\r\n`;
+
+    const fixed = new Uint8Array(602);
+    const view = new DataView(fixed.buffer);
+    fixed.set(latin1(description, 256), 0);
+    fixed.set(latin1(SOFTWARE, 32), 256);
+    fixed.set(latin1('', 32), 288);                 // Originator reference
+    fixed.set(latin1(`${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`), 320);
+    fixed.set(latin1(`${pad(now.getHours())}:${pad(now.getMinutes())}:${pad(now.getSeconds())}`), 330);
+    // Time reference (338-345) and UMID (348-411) stay zero
+    view.setUint16(346, 2, true);                   // Version
+
+    // Loudness fields in 1/100 LU; 0x7FFF marks values not measured
+    const loudness = format.loudness !== undefined && Number.isFinite(format.loudness)
+        ? Math.round(format.loudness * 100)
+        : 0x7FFF;
+    view.setInt16(412, loudness, true);
+    for (let offset = 414; offset <= 420; offset += 2) {
+        view.setInt16(offset, 0x7FFF, true);
+    }
+
+    return riffChunk('bext', concat([fixed, latin1(history)]));
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * iXML has no music fields, so tempo and key go in USER alongside the
+ * tags, one NAME=value per line
+ */
+function createIxmlChunk(metadata: ResolvedExportMetadata): Uint8Array {
+    const user = [
+        ['TITLE', metadata.title],
+        ['ARTIST', metadata.artist],
+        ['ALBUM', metadata.album],
+        ['GENRE', metadata.genre],
+        ['BPM', metadata.bpm],
+        ['KEY', metadata.key],
+        ['YEAR', metadata.year],
+    ]
+        .filter(([, value]) => value)
+        .map(([name, value]) => `${name}=${value}`)
+        .join('\n');
+
+    const xml = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<BWFXML>',
+        '  <IXML_VERSION>2.10</IXML_VERSION>',
+        `  <PROJECT>${escapeXml(metadata.album || metadata.title)}</PROJECT>`,
+        `  <NOTE>${escapeXml(metadata.comment)}</NOTE>`,
+        `  <USER>${escapeXml(user)}</USER>`,
+        '</BWFXML>',
+    ].join('\n');
+
+    return riffChunk('iXML', new TextEncoder().encode(xml));
+}
+
+/**
+ * Chunks to place ahead of a WAV's data: RIFF INFO, bext and iXML, plus
+ * an "id3 " chunk so players that read tags from WAV show the cover
+ */
+export function createWavMetadataChunks(metadata: ResolvedExportMetadata, format: WavMetadataFormat): Uint8Array[] {
+    return [
+        createInfoChunk(metadata),
+        createBextChunk(metadata, format),
+        createIxmlChunk(metadata),
+        riffChunk('id3 ', createId3Tag(metadata)),
+    ];
+}
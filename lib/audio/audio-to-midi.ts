@@ -0,0 +1,254 @@
+// ============================================
+// ComposeYogi — Audio to MIDI
+// Turns an audio clip's take into notes: pitch tracking for melodies,
+// hit detection for drums
+// ============================================
+
+import * as Tone from 'tone';
+import { v4 as uuid } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import { useProjectStore } from '@/lib/store/project';
+import { getAudioTake } from './recording-manager';
+import { getTempoMap, type TempoMap } from './tempo-map';
+import { getWarpPlan } from './time-stretch';
+import type { AudioToMidiEvent, AudioToMidiWorkerResponse, Clip, Note, TrackColor } from '@/types';
+
+const log = createLogger('AudioToMidi');
+
+// ============================================
+// Types
+// ============================================
+
+export type AudioToMidiMode = 'melody' | 'drums';
+
+export interface AudioToMidiOptions {
+    mode: AudioToMidiMode;
+    quantize: number;       // Grid in beats (0 = off)
+    onProgress?: (progress: number) => void;
+}
+
+type DetectedNote = Omit<Note, 'id'>;
+
+export const AUDIO_TO_MIDI_MODES: { value: AudioToMidiMode; label: string }[] = [
+    { value: 'melody', label: 'Melody' },
+    { value: 'drums', label: 'Drums' },
+];
+
+export const AUDIO_TO_MIDI_QUANTIZE: { value: number; label: string }[] = [
+    { value: 0, label: 'Off' },
+    { value: 0.5, label: '1/8' },
+    { value: 0.25, label: '1/16' },
+    { value: 0.125, label: '1/32' },
+];
+
+// GM pitches of the Drum Sequencer's kick, snare and hats
+const DRUM_PITCHES: Record<NonNullable<AudioToMidiEvent['sound']>, number> = {
+    kick: 36,
+    snare: 38,
+    closedHat: 42,
+    openHat: 46,
+};
+
+// Note lengths (beats) when quantize is off
+const MIN_NOTE_BEATS = 0.0625;
+const DRUM_NOTE_BEATS = 0.25;
+
+// Melodies centred below this (C3) land on a bass track
+const BASS_PITCH_CEILING = 48;
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * Detect notes in an audio clip's active take. Only the part the clip
+ * plays (after trims) is analysed, and warping is applied, so notes
+ * line up with what's heard. Positions are in beats from the clip start.
+ */
+export async function detectClipNotes(clip: Clip, options: AudioToMidiOptions): Promise<DetectedNote[]> {
+    const project = useProjectStore.getState().project;
+    if (!project) throw new Error('No project loaded');
+    if (!clip.activeTakeId) throw new Error('Clip has no audio');
+
+    const take = getAudioTake(clip.activeTakeId);
+    if (!take) throw new Error('Audio take not found');
+
+    const audioBuffer = await Tone.getContext().rawContext.decodeAudioData(take.audioData.slice().buffer);
+
+    const from = Math.floor((clip.trimStart || 0) * audioBuffer.sampleRate);
+    const to = Math.max(from, audioBuffer.length - Math.floor((clip.trimEnd || 0) * audioBuffer.sampleRate));
+    const channelData: Float32Array[] = [];
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+        channelData.push(audioBuffer.getChannelData(ch).slice(from, to));
+    }
+
+    const events = await runDetection(channelData, audioBuffer.sampleRate, options);
+    const notes = eventsToNotes(events, clip, audioBuffer.duration, getTempoMap(project), options);
+
+    log.debug('Detected notes', { clipId: clip.id, mode: options.mode, events: events.length, notes: notes.length });
+    return notes;
+}
+
+function runDetection(
+    channelData: Float32Array[],
+    sampleRate: number,
+    options: AudioToMidiOptions
+): Promise<AudioToMidiEvent[]> {
+    if (typeof Worker === 'undefined') {
+        return Promise.reject(new Error('Web Workers are not supported'));
+    }
+
+    return new Promise((resolve, reject) => {
+        const worker = new Worker('/workers/audio-to-midi-worker.js');
+        const jobId = `to_midi_${Date.now()}`;
+
+        worker.onmessage = (e: MessageEvent<AudioToMidiWorkerResponse>) => {
+            const { type, progress, events, error } = e.data;
+
+            switch (type) {
+                case 'progress':
+                    options.onProgress?.(progress ?? 0);
+                    break;
+                case 'result':
+                    worker.terminate();
+                    resolve(events ?? []);
+                    break;
+                case 'error':
+                    worker.terminate();
+                    reject(new Error(error ?? 'Unknown error'));
+                    break;
+            }
+        };
+
+        worker.onerror = (e) => {
+            worker.terminate();
+            reject(new Error(e.message || 'Audio-to-MIDI worker crashed'));
+        };
+
+        worker.postMessage(
+            { type: 'convert', jobId, data: { channelData, sampleRate, mode: options.mode } },
+            channelData.map((channel) => channel.buffer)
+        );
+    });
+}
+
+/**
+ * Place detected events on the clip's beat grid. Events are timed from
+ * the trimmed start of the take; warping scales them onto the timeline
+ * and shifts melody pitches with the warp.
+ */
+function eventsToNotes(
+    events: AudioToMidiEvent[],
+    clip: Clip,
+    sourceDuration: number,
+    tempoMap: TempoMap,
+    options: AudioToMidiOptions
+): DetectedNote[] {
+    const plan = getWarpPlan(clip, sourceDuration, tempoMap);
+    const transpose = Math.round(12 * Math.log2(plan.resample));
+
+    const clipStartBeat = tempoMap.barToBeat(clip.startBar);
+    const clipStartSeconds = tempoMap.beatToSeconds(clipStartBeat);
+    const clipBeats = tempoMap.barToBeat(clip.startBar + clip.lengthBars) - clipStartBeat;
+
+    const grid = options.quantize;
+    const toBeat = (seconds: number) =>
+        tempoMap.secondsToBeat(clipStartSeconds + seconds * plan.timeScale) - clipStartBeat;
+    const snap = (beat: number) => (grid > 0 ? Math.round(beat / grid) * grid : beat);
+
+    const notes: DetectedNote[] = [];
+    const seen = new Set<string>();
+
+    for (const event of events) {
+        const startBeat = snap(toBeat(event.start));
+        if (startBeat < 0 || startBeat >= clipBeats) continue;
+
+        let pitch: number;
+        let duration: number;
+
+        if (options.mode === 'drums') {
+            if (!event.sound) continue;
+            pitch = DRUM_PITCHES[event.sound];
+            duration = grid || DRUM_NOTE_BEATS;
+        } else {
+            if (event.pitch === undefined) continue;
+            pitch = event.pitch + transpose;
+            duration = Math.max(grid || MIN_NOTE_BEATS, snap(toBeat(event.end)) - startBeat);
+        }
+
+        if (pitch < 0 || pitch > 127) continue;
+
+        // Quantizing can stack two hits on one step; keep the first
+        const key = `${pitch}:${startBeat}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        notes.push({
+            pitch,
+            startBeat,
+            duration: Math.min(duration, clipBeats - startBeat),
+            velocity: Math.max(1, Math.min(127, event.velocity)),
+        });
+    }
+
+    if (options.mode === 'drums') return notes;
+
+    // Melodies are monophonic: cut each note off where the next one starts
+    notes.sort((a, b) => a.startBeat - b.startBeat);
+    const melody: DetectedNote[] = [];
+    for (const note of notes) {
+        const previous = melody[melody.length - 1];
+        if (previous?.startBeat === note.startBeat) continue;
+        if (previous) previous.duration = Math.min(previous.duration, note.startBeat - previous.startBeat);
+        melody.push(note);
+    }
+    return melody;
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+/**
+ * Convert an audio clip to a new MIDI (or drum) clip on a new track
+ * right below the source, at the same position and length. Resolves to
+ * the new clip, or null if nothing was detected.
+ */
+export async function convertClipToMidi(clipId: string, options: AudioToMidiOptions): Promise<Clip | null> {
+    const project = useProjectStore.getState().project;
+    const clip = project?.clips.find((c) => c.id === clipId);
+    if (!project || !clip || clip.type !== 'audio') throw new Error('Audio clip not found');
+
+    const notes = await detectClipNotes(clip, options);
+    if (notes.length === 0) return null;
+
+    // The project may have changed while detecting
+    const store = useProjectStore.getState();
+    const sourceTrack = store.project?.tracks.find((t) => t.id === clip.trackId);
+    if (!store.project || !sourceTrack) throw new Error('Source track was removed');
+
+    const isDrums = options.mode === 'drums';
+    const trackType = isDrums ? 'drum' : 'midi';
+    const track = store.addTrack(trackType, `${sourceTrack.name} (MIDI)`, getTrackColor(notes, isDrums));
+
+    // Move the new track just below its source
+    const ordered = [...store.project.tracks].sort((a, b) => a.order - b.order).map((t) => t.id);
+    ordered.splice(ordered.indexOf(sourceTrack.id) + 1, 0, track.id);
+    store.reorderTracks(ordered);
+
+    const newClip = store.addClip(track.id, trackType, clip.startBar, clip.lengthBars);
+    const updates: Partial<Clip> = {
+        name: `${clip.name} (MIDI)`,
+        notes: notes.map((note) => ({ id: uuid(), ...note })),
+    };
+    store.updateClip(newClip.id, updates);
+
+    log.info('Converted clip to MIDI', { clipId, newClipId: newClip.id, notes: notes.length });
+    return { ...newClip, ...updates };
+}
+
+function getTrackColor(notes: DetectedNote[], isDrums: boolean): TrackColor {
+    if (isDrums) return 'drums';
+    const pitches = notes.map((n) => n.pitch).sort((a, b) => a - b);
+    return pitches[Math.floor(pitches.length / 2)] < BASS_PITCH_CEILING ? 'bass' : 'melody';
+}
@@ -0,0 +1,285 @@
+// ============================================
+// ComposeYogi — Automation
+// Breakpoint envelopes for track volume, pan and effect parameters
+// ============================================
+
+import type {
+    AutomationLane,
+    AutomationPoint,
+    AutomationTarget,
+    Track,
+    TrackEffect,
+    TrackEffectType,
+} from '@/types';
+import { getSidechainSource } from './sidechain';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Subset of the Tone.Param / Tone.Signal API used to schedule envelopes
+ */
+export interface AutomatableParam {
+    setValueAtTime(value: number, time: number): unknown;
+    linearRampToValueAtTime(value: number, endTime: number): unknown;
+    exponentialRampToValueAtTime(value: number, endTime: number): unknown;
+    cancelScheduledValues(time: number): unknown;
+}
+
+export type ParsedAutomationTarget =
+    | { kind: 'volume' }
+    | { kind: 'pan' }
+    | { kind: 'effect'; effectId: string; param: string };
+
+export interface AutomationParamSpec {
+    param: string;
+    label: string;
+    min: number;
+    max: number;
+}
+
+export interface AutomationTargetOption {
+    target: AutomationTarget;
+    label: string;
+    min: number;
+    max: number;
+}
+
+// ============================================
+// Target Definitions
+// ============================================
+
+const VOLUME_SPEC = { label: 'Volume', min: 0, max: 1 };
+const PAN_SPEC = { label: 'Pan', min: -1, max: 1 };
+
+/**
+ * Effect parameters backed by a Tone.Param/Signal (and so automatable)
+ */
+export const AUTOMATABLE_EFFECT_PARAMS: Record<TrackEffectType, AutomationParamSpec[]> = {
+    reverb: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+    ],
+    delay: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+        { param: 'delayTime', label: 'Time', min: 0, max: 1 },
+        { param: 'feedback', label: 'Feedback', min: 0, max: 0.9 },
+    ],
+    distortion: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+    ],
+    filter: [
+        { param: 'frequency', label: 'Cutoff', min: 20, max: 20000 },
+        { param: 'Q', label: 'Resonance', min: 0.1, max: 20 },
+    ],
+    compression: [
+        { param: 'threshold', label: 'Threshold', min: -60, max: 0 },
+        { param: 'ratio', label: 'Ratio', min: 1, max: 20 },
+    ],
+    eq: [
+        { param: 'low', label: 'Low', min: -24, max: 12 },
+        { param: 'mid', label: 'Mid', min: -24, max: 12 },
+        { param: 'high', label: 'High', min: -24, max: 12 },
+    ],
+    limiter: [],
+    widener: [
+        { param: 'width', label: 'Width', min: 0, max: 1 },
+    ],
+    'parametric-eq': [1, 2, 3, 4, 5].map((band) => (
+        { param: `band${band}Gain`, label: `Band ${band} Gain`, min: -18, max: 18 }
+    )),
+    chorus: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+        { param: 'frequency', label: 'Rate', min: 0.1, max: 10 },
+        { param: 'feedback', label: 'Feedback', min: 0, max: 0.9 },
+    ],
+    phaser: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+        { param: 'frequency', label: 'Rate', min: 0.1, max: 10 },
+        { param: 'Q', label: 'Resonance', min: 0.1, max: 20 },
+    ],
+    tremolo: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+        { param: 'frequency', label: 'Rate', min: 0.1, max: 20 },
+        { param: 'depth', label: 'Depth', min: 0, max: 1 },
+    ],
+    autopan: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+        { param: 'frequency', label: 'Rate', min: 0.1, max: 20 },
+        { param: 'depth', label: 'Depth', min: 0, max: 1 },
+    ],
+    bitcrusher: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+        { param: 'bits', label: 'Bits', min: 1, max: 16 },
+    ],
+    gate: [],
+    pingpong: [
+        { param: 'wet', label: 'Mix', min: 0, max: 1 },
+        { param: 'delayTime', label: 'Time', min: 0, max: 1 },
+        { param: 'feedback', label: 'Feedback', min: 0, max: 0.9 },
+    ],
+};
+
+// Exponential ramps need strictly positive endpoints
+const EXPONENTIAL_FLOOR = 0.0001;
+
+export function parseAutomationTarget(target: AutomationTarget): ParsedAutomationTarget {
+    if (target === 'volume') return { kind: 'volume' };
+    if (target === 'pan') return { kind: 'pan' };
+
+    const dot = target.indexOf('.');
+    return {
+        kind: 'effect',
+        effectId: target.slice(0, dot),
+        param: target.slice(dot + 1),
+    };
+}
+
+/**
+ * Automatable params of one effect. A sidechained compressor bakes threshold
+ * and ratio into its gain curve rather than exposing them as signals, so it
+ * has none.
+ */
+export function getAutomatableParams(effect: TrackEffect): AutomationParamSpec[] {
+    if (getSidechainSource(effect) !== 'none') return [];
+    return AUTOMATABLE_EFFECT_PARAMS[effect.type] || [];
+}
+
+/**
+ * List every automatable target on a track (volume, pan, then effect params)
+ */
+export function getAutomationTargets(track: Track): AutomationTargetOption[] {
+    const options: AutomationTargetOption[] = [
+        { target: 'volume', ...VOLUME_SPEC },
+        { target: 'pan', ...PAN_SPEC },
+    ];
+
+    (track.effects || []).forEach((effect, index) => {
+        for (const spec of getAutomatableParams(effect)) {
+            options.push({
+                target: `${effect.id}.${spec.param}`,
+                label: `${index + 1}. ${effect.type} ${spec.label}`,
+                min: spec.min,
+                max: spec.max,
+            });
+        }
+    });
+
+    return options;
+}
+
+/**
+ * The value a target has when no automation is playing
+ */
+export function getStaticTargetValue(track: Track, target: AutomationTarget): number {
+    const parsed = parseAutomationTarget(target);
+    switch (parsed.kind) {
+        case 'volume':
+            return track.volume;
+        case 'pan':
+            return track.pan;
+        case 'effect': {
+            const effect = track.effects?.find((e) => e.id === parsed.effectId);
+            const value = effect?.params[parsed.param];
+            return typeof value === 'number' ? value : 0;
+        }
+    }
+}
+
+// ============================================
+// Envelope Evaluation
+// ============================================
+
+/**
+ * Enabled lanes with at least one point
+ */
+export function getActiveAutomationLanes(track: Track): AutomationLane[] {
+    return (track.automation || []).filter((lane) => lane.enabled && lane.points.length > 0);
+}
+
+export function sortAutomationPoints(points: AutomationPoint[]): AutomationPoint[] {
+    return [...points].sort((a, b) => a.bar - b.bar);
+}
+
+/**
+ * Evaluate an envelope at a position in bars.
+ * Each point's curve describes the segment arriving at it.
+ */
+export function getAutomationValueAt(points: AutomationPoint[], bar: number): number {
+    const sorted = sortAutomationPoints(points);
+    if (sorted.length === 0) return 0;
+    if (bar <= sorted[0].bar) return sorted[0].value;
+
+    for (let i = 1; i < sorted.length; i++) {
+        const next = sorted[i];
+        if (bar >= next.bar) continue;
+
+        const prev = sorted[i - 1];
+        const t = (bar - prev.bar) / (next.bar - prev.bar);
+
+        switch (next.curve) {
+            case 'step':
+                return prev.value;
+            case 'exponential':
+                if (prev.value > 0 && next.value > 0) {
+                    return prev.value * Math.pow(next.value / prev.value, t);
+                }
+                return prev.value + (next.value - prev.value) * t;
+            case 'linear':
+            default:
+                return prev.value + (next.value - prev.value) * t;
+        }
+    }
+
+    return sorted[sorted.length - 1].value;
+}
+
+// ============================================
+// Scheduling
+// ============================================
+
+/**
+ * Schedule an envelope onto a param, starting playback at `fromBar`.
+ *
+ * @param time - Context time that corresponds to `fromBar`
+ * @param barsToSeconds - Converts a bar position to transport seconds
+ */
+export function scheduleAutomation(
+    param: AutomatableParam,
+    points: AutomationPoint[],
+    time: number,
+    fromBar: number,
+    barsToSeconds: (bars: number) => number
+): void {
+    const sorted = sortAutomationPoints(points);
+    const fromSeconds = barsToSeconds(fromBar);
+
+    param.cancelScheduledValues(time);
+    param.setValueAtTime(getAutomationValueAt(sorted, fromBar), time);
+
+    let previousValue = getAutomationValueAt(sorted, fromBar);
+    for (const point of sorted) {
+        if (point.bar <= fromBar) continue;
+
+        const pointTime = time + barsToSeconds(point.bar) - fromSeconds;
+
+        switch (point.curve) {
+            case 'step':
+                param.setValueAtTime(point.value, pointTime);
+                break;
+            case 'exponential':
+                if (previousValue > 0 && point.value > 0) {
+                    param.exponentialRampToValueAtTime(Math.max(EXPONENTIAL_FLOOR, point.value), pointTime);
+                } else {
+                    param.linearRampToValueAtTime(point.value, pointTime);
+                }
+                break;
+            case 'linear':
+            default:
+                param.linearRampToValueAtTime(point.value, pointTime);
+                break;
+        }
+
+        previousValue = point.value;
+    }
+}
@@ -0,0 +1,281 @@
+// ============================================
+// ComposeYogi — Bounce & Freeze
+// Render a track or clips through their instrument and
+// inserts to audio, as a new clip or as a track freeze
+// ============================================
+
+import { v4 as uuid } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import { useProjectStore } from '@/lib/store/project';
+import { autosaveManager, deleteAudioTake as deleteStoredAudioTake } from '@/lib/persistence';
+import { deleteAudioTake, registerAudioTake } from './recording-manager';
+import { getFreezeClipId, getFreezeSignature } from './freeze';
+import { renderProjectToAudioBuffer, type ProgressCallback } from './offline-renderer';
+import { getTempoMap } from './tempo-map';
+import { encodeAudioBufferToWav } from './wav-encoder';
+import type { AudioTake, Clip, Project, Track } from '@/types';
+
+const log = createLogger('Bounce');
+
+// ============================================
+// Types
+// ============================================
+
+// Replace mutes the source (track or clips) so it can be brought back;
+// alongside leaves it playing
+export type BounceMode = 'replace' | 'alongside';
+
+// Room for reverb and delay tails after the last clip
+const BOUNCE_TAIL_SECONDS = 2;
+
+// Space macro level at which a clip sends nothing to the shared reverb
+const NEUTRAL_SPACE = 50;
+
+interface TrackRender {
+    audioData: Uint8Array;
+    sampleRate: number;
+    duration: number;
+    startBar: number;
+    lengthBars: number;
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+/**
+ * Copy of the project in which only the given clips of one track are heard,
+ * through the track's instrument and inserts but before its fader: volume,
+ * pan, sends and the master are left to whatever plays the render back.
+ * Other tracks are silenced by solo; tracks keying its sidechains still
+ * play into their key taps, which sit ahead of mute and solo, so the render
+ * ducks as it does in the mix.
+ */
+function getBounceProject(project: Project, trackId: string, clipIds: string[]): Project {
+    return {
+        ...project,
+        tracks: project.tracks.map((track) => {
+            if (track.id !== trackId) return { ...track, solo: false };
+
+            return {
+                ...track,
+                solo: true,
+                muted: false,
+                volume: 1,
+                pan: 0,
+                sends: [],
+                automation: track.automation?.filter((lane) => lane.target !== 'volume' && lane.target !== 'pan'),
+                freeze: undefined,
+            };
+        }),
+        clips: project.clips.flatMap((clip) => {
+            if (clip.trackId === trackId) return clipIds.includes(clip.id) ? [clip] : [];
+            // Space sends reach the shared reverb ahead of solo, so keep other clips out of it
+            return (clip.space ?? NEUTRAL_SPACE) > NEUTRAL_SPACE ? [{ ...clip, space: NEUTRAL_SPACE }] : [clip];
+        }),
+        master: { volume: 1, effects: [] },
+    };
+}
+
+/**
+ * Render clips of one track from the first clip's start, plus a tail,
+ * into a 32-bit float take. Pre-fader renders can run past 0 dBFS, so
+ * they are kept unclipped.
+ */
+async function renderTrackClips(
+    project: Project,
+    track: Track,
+    clips: Clip[],
+    onProgress?: ProgressCallback
+): Promise<TrackRender> {
+    const startBar = Math.min(...clips.map((clip) => clip.startBar));
+    const endBar = Math.max(...clips.map((clip) => clip.startBar + clip.lengthBars));
+
+    const buffer = await renderProjectToAudioBuffer(
+        getBounceProject(project, track.id, clips.map((clip) => clip.id)),
+        onProgress,
+        { range: { startBar, endBar }, tailSeconds: BOUNCE_TAIL_SECONDS }
+    );
+
+    const wav = encodeAudioBufferToWav(buffer, { bitDepth: 32 });
+    const tempoMap = getTempoMap(project);
+
+    return {
+        audioData: new Uint8Array(await wav.arrayBuffer()),
+        sampleRate: buffer.sampleRate,
+        duration: buffer.duration,
+        startBar,
+        lengthBars: tempoMap.secondsToBar(tempoMap.barToSeconds(startBar) + buffer.duration) - startBar,
+    };
+}
+
+async function storeTake(render: TrackRender, clipId: string): Promise<AudioTake> {
+    const take: AudioTake = {
+        id: uuid(),
+        clipId,
+        audioData: render.audioData,
+        sampleRate: render.sampleRate,
+        duration: render.duration,
+        peaks: {},             // Generated on demand
+        createdAt: Date.now(),
+    };
+
+    registerAudioTake(take);
+    await autosaveManager.saveAudioTakeImmediate(take);
+    return take;
+}
+
+async function discardTake(takeId: string): Promise<void> {
+    deleteAudioTake(takeId);
+    await deleteStoredAudioTake(takeId);
+}
+
+// ============================================
+// Bounce
+// ============================================
+
+/**
+ * Put a render of the clips on a new audio track below their source. The
+ * new track takes over the source's volume, pan, sends and their
+ * automation, so the bounce sounds the same through its fader.
+ */
+async function bounceTrackClips(
+    project: Project,
+    source: Track,
+    clips: Clip[],
+    onProgress?: ProgressCallback
+): Promise<Clip> {
+    const render = await renderTrackClips(project, source, clips, onProgress);
+    const store = useProjectStore.getState();
+
+    const track = store.addTrack('audio', `${source.name} (Bounced)`, source.color);
+    store.updateTrack(track.id, {
+        volume: source.volume,
+        pan: source.pan,
+        sends: source.sends?.map((send) => ({ ...send, id: uuid() })),
+        automation: source.automation
+            ?.filter((lane) => lane.target === 'volume' || lane.target === 'pan')
+            .map((lane) => ({ ...lane, id: uuid() })),
+    });
+
+    // Move the new track just below its source
+    const ordered = [...useProjectStore.getState().project!.tracks]
+        .sort((a, b) => a.order - b.order)
+        .map((t) => t.id)
+        .filter((id) => id !== track.id);
+    ordered.splice(ordered.indexOf(source.id) + 1, 0, track.id);
+    store.reorderTracks(ordered);
+
+    const clip = store.addClip(track.id, 'audio', render.startBar, render.lengthBars);
+    const take = await storeTake(render, clip.id);
+    const updates: Partial<Clip> = {
+        name: clips.length === 1 ? `${clips[0].name} (Bounced)` : `${source.name} (Bounced)`,
+        audioTakeIds: [take.id],
+        activeTakeId: take.id,
+    };
+    store.updateClip(clip.id, updates);
+
+    return { ...clip, ...updates };
+}
+
+/**
+ * Bounce a whole track to audio. Replace mutes the source track.
+ */
+export async function bounceTrack(trackId: string, mode: BounceMode, onProgress?: ProgressCallback): Promise<Clip> {
+    const project = useProjectStore.getState().project;
+    const track = project?.tracks.find((t) => t.id === trackId);
+    if (!project || !track) throw new Error('Track not found');
+    if (track.type === 'bus') throw new Error('Bus tracks have no clips to bounce');
+
+    const clips = project.clips.filter((clip) => clip.trackId === trackId && !clip.muted);
+    if (clips.length === 0) throw new Error('Track has no clips to bounce');
+
+    const bounced = await bounceTrackClips(project, track, clips, onProgress);
+    if (mode === 'replace') {
+        useProjectStore.getState().updateTrack(trackId, { muted: true });
+    }
+
+    log.info('Bounced track', { trackId, mode, clips: clips.length });
+    return bounced;
+}
+
+/**
+ * Bounce clips to audio, one new track per source track. Replace mutes
+ * the source clips.
+ */
+export async function bounceClips(clipIds: string[], mode: BounceMode, onProgress?: ProgressCallback): Promise<Clip[]> {
+    const project = useProjectStore.getState().project;
+    if (!project) throw new Error('No project loaded');
+
+    const clips = project.clips.filter((clip) => clipIds.includes(clip.id));
+    const tracks = project.tracks.filter((track) =>
+        track.type !== 'bus' && clips.some((clip) => clip.trackId === track.id)
+    );
+    if (tracks.length === 0) throw new Error('No clips to bounce');
+
+    const bounced: Clip[] = [];
+    for (let i = 0; i < tracks.length; i++) {
+        const trackClips = clips.filter((clip) => clip.trackId === tracks[i].id);
+        bounced.push(await bounceTrackClips(project, tracks[i], trackClips, (p) => {
+            onProgress?.(Math.round(((i + p / 100) / tracks.length) * 100));
+        }));
+    }
+
+    if (mode === 'replace') {
+        const store = useProjectStore.getState();
+        clips.forEach((clip) => store.updateClip(clip.id, { muted: true }));
+    }
+
+    log.info('Bounced clips', { clips: clips.length, tracks: tracks.length, mode });
+    return bounced;
+}
+
+// ============================================
+// Freeze
+// ============================================
+
+/**
+ * Render a track in place. Until the track is edited, playout and export
+ * play the render instead of running its instrument and inserts; its
+ * fader, pan and sends stay live.
+ */
+export async function freezeTrack(trackId: string, onProgress?: ProgressCallback): Promise<void> {
+    const project = useProjectStore.getState().project;
+    const track = project?.tracks.find((t) => t.id === trackId);
+    if (!project || !track) throw new Error('Track not found');
+    if (track.type === 'bus') throw new Error('Bus tracks cannot be frozen');
+
+    const clips = project.clips.filter((clip) => clip.trackId === trackId && !clip.muted);
+    if (clips.length === 0) throw new Error('Track has no clips to freeze');
+
+    const render = await renderTrackClips(project, track, clips, onProgress);
+    const take = await storeTake(render, getFreezeClipId(trackId));
+
+    // Signed with the project the render was made from; edits made while
+    // rendering leave the freeze stale, so the track keeps playing live
+    const previous = useProjectStore.getState().project?.tracks.find((t) => t.id === trackId)?.freeze;
+    useProjectStore.getState().updateTrack(trackId, {
+        freeze: {
+            takeId: take.id,
+            startBar: render.startBar,
+            lengthBars: render.lengthBars,
+            signature: getFreezeSignature(track, project),
+        },
+    });
+    if (previous) await discardTake(previous.takeId);
+
+    log.info('Froze track', { trackId, clips: clips.length, seconds: render.duration });
+}
+
+/**
+ * Go back to playing a track live and drop its render
+ */
+export async function unfreezeTrack(trackId: string): Promise<void> {
+    const track = useProjectStore.getState().project?.tracks.find((t) => t.id === trackId);
+    if (!track?.freeze) return;
+
+    useProjectStore.getState().updateTrack(trackId, { freeze: undefined });
+    await discardTake(track.freeze.takeId);
+
+    log.info('Unfroze track', { trackId });
+}
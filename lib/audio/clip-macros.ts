@@ -0,0 +1,263 @@
+// ============================================
+// ComposeYogi — Clip Macros
+// Maps clip macro values to note transforms and per-clip processing
+// ============================================
+
+import * as Tone from 'tone';
+import type { Clip, Note } from '@/types';
+
+// ============================================
+// Types & Constants
+// ============================================
+
+export interface ClipMacroValues {
+    transpose: number;     // semitones
+    humanize: number;      // 0-100
+    energy: number;        // 0-100, 50 = neutral
+    groove: number;        // 0-100, 50 = straight
+    brightness: number;    // 0-100, 50 = neutral
+    space: number;         // 0-100, 50 = neutral
+}
+
+export interface ClipMacroChain {
+    input: Tone.ToneAudioNode;
+    nodes: Tone.ToneAudioNode[];
+}
+
+/** Value at which energy, groove, brightness and space leave the clip untouched */
+export const MACRO_NEUTRAL = 50;
+
+// Humanize at 100%: ±0.04 beats timing, ±16 velocity
+const MAX_HUMANIZE_BEATS = 0.04;
+const MAX_HUMANIZE_VELOCITY = 16;
+
+// Brightness: lowpass sweep below neutral, high shelf boost above
+const MIN_BRIGHTNESS_CUTOFF = 300;
+const MAX_BRIGHTNESS_CUTOFF = 20000;
+const BRIGHTNESS_SHELF_FREQUENCY = 2500;
+const MAX_BRIGHTNESS_SHELF_DB = 9;
+
+// Space: shared reverb return fed by per-clip sends
+const SPACE_REVERB_DECAY = 3.5;
+
+const GRID_EPSILON = 0.001;
+
+// ============================================
+// Macro Values
+// ============================================
+
+/**
+ * Read a clip's macro values, filling in neutral defaults for clips
+ * created before macros existed (templates, MIDI imports)
+ */
+export function getClipMacros(clip: Clip): ClipMacroValues {
+    return {
+        transpose: clip.transpose ?? 0,
+        humanize: clamp(clip.humanize ?? 0, 0, 100),
+        energy: clamp(clip.energy ?? MACRO_NEUTRAL, 0, 100),
+        groove: clamp(clip.groove ?? MACRO_NEUTRAL, 0, 100),
+        brightness: clamp(clip.brightness ?? MACRO_NEUTRAL, 0, 100),
+        space: clamp(clip.space ?? MACRO_NEUTRAL, 0, 100),
+    };
+}
+
+/**
+ * Velocity multiplier for the energy macro (0.5x at 0, 1.5x at 100)
+ */
+export function getEnergyGain(energy: number): number {
+    return 0.5 + energy / 100;
+}
+
+// ============================================
+// Note Transforms
+// ============================================
+
+/**
+ * Apply transpose, energy, groove and humanize to a clip's notes.
+ * Randomness is seeded from clip and note IDs so live playout and
+ * offline export produce identical results.
+ */
+export function applyClipMacrosToNotes(clip: Clip, notes: Note[]): Note[] {
+    const macros = getClipMacros(clip);
+    const velocityScale = getEnergyGain(macros.energy);
+    const swing = (macros.groove - MACRO_NEUTRAL) / MACRO_NEUTRAL; // -1 to 1
+    const dropChance = macros.energy < MACRO_NEUTRAL
+        ? (MACRO_NEUTRAL - macros.energy) / MACRO_NEUTRAL
+        : 0;
+
+    // Swing 16ths if the clip uses them, otherwise swing 8ths
+    const hasSixteenths = notes.some((n) => isOnGrid(n.startBeat - 0.25, 0.5));
+    const swingUnit = hasSixteenths ? 0.25 : 0.5;
+
+    const result: Note[] = [];
+
+    for (const note of notes) {
+        const random = createSeededRandom(`${clip.id}:${note.id}`);
+
+        // Energy: thin out notes off the 8th grid at low energy
+        if (dropChance > 0 && !isOnGrid(note.startBeat, 0.5) && random() < dropChance) {
+            continue;
+        }
+
+        let startBeat = note.startBeat;
+        let velocity = note.velocity * velocityScale;
+
+        // Groove: push off-beats late (swing) or early (rush)
+        if (swing !== 0 && isOnGrid(note.startBeat - swingUnit, swingUnit * 2)) {
+            startBeat += swing * (swingUnit / 3);
+        }
+
+        // Humanize: small timing and velocity jitter
+        if (macros.humanize > 0) {
+            const amount = macros.humanize / 100;
+            startBeat += (random() * 2 - 1) * MAX_HUMANIZE_BEATS * amount;
+            velocity += (random() * 2 - 1) * MAX_HUMANIZE_VELOCITY * amount;
+        }
+
+        // Transpose: drum pitches select sounds, so only melodic clips shift
+        const pitch = clip.type === 'drum'
+            ? note.pitch
+            : clamp(note.pitch + macros.transpose, 0, 127);
+
+        result.push({
+            ...note,
+            pitch,
+            startBeat: Math.max(0, startBeat),
+            velocity: Math.round(clamp(velocity, 1, 127)),
+        });
+    }
+
+    return result;
+}
+
+// ============================================
+// Per-clip Processing
+// ============================================
+
+/**
+ * Identity of the chain createClipMacroChain builds for a note clip (its
+ * transpose and energy are applied to the notes instead). Note clips with
+ * equal keys can play through one chain.
+ */
+export function getClipToneKey(clip: Clip): string {
+    const { brightness, space } = getClipMacros(clip);
+    return `${brightness}/${space}`;
+}
+
+/**
+ * Create the shared reverb return that clip "space" sends feed into.
+ * Callers must await generate() before rendering offline.
+ */
+export function createSpaceReturn(): Tone.Reverb {
+    return new Tone.Reverb({
+        decay: SPACE_REVERB_DECAY,
+        preDelay: 0.02,
+        wet: 1,
+    });
+}
+
+/**
+ * Build the per-clip node chain for brightness and space (plus transpose and
+ * energy for audio clips, which have no notes to rewrite).
+ *
+ * Source -> chain.input -> ... -> destination, with an optional send from the
+ * end of the chain into the shared space return. Returns the destination as
+ * input when every macro is neutral.
+ */
+export function createClipMacroChain(
+    clip: Clip,
+    destination: Tone.ToneAudioNode,
+    spaceReturn: Tone.ToneAudioNode | null
+): ClipMacroChain {
+    const macros = getClipMacros(clip);
+    const nodes: Tone.ToneAudioNode[] = [];
+
+    if (clip.type === 'audio') {
+        if (macros.transpose !== 0) {
+            nodes.push(new Tone.PitchShift({ pitch: macros.transpose }));
+        }
+        if (macros.energy !== MACRO_NEUTRAL) {
+            nodes.push(new Tone.Gain(getEnergyGain(macros.energy)));
+        }
+    }
+
+    if (macros.brightness < MACRO_NEUTRAL) {
+        const ratio = macros.brightness / MACRO_NEUTRAL;
+        nodes.push(new Tone.Filter({
+            type: 'lowpass',
+            frequency: MIN_BRIGHTNESS_CUTOFF * Math.pow(MAX_BRIGHTNESS_CUTOFF / MIN_BRIGHTNESS_CUTOFF, ratio),
+            Q: 0.7,
+        }));
+    } else if (macros.brightness > MACRO_NEUTRAL) {
+        nodes.push(new Tone.Filter({
+            type: 'highshelf',
+            frequency: BRIGHTNESS_SHELF_FREQUENCY,
+            gain: ((macros.brightness - MACRO_NEUTRAL) / MACRO_NEUTRAL) * MAX_BRIGHTNESS_SHELF_DB,
+        }));
+    }
+
+    // Space below neutral narrows the clip towards mono (0.5 = unchanged width)
+    if (macros.space < MACRO_NEUTRAL) {
+        nodes.push(new Tone.StereoWidener(macros.space / 100));
+    }
+
+    // Space above neutral sends to the shared reverb
+    const sendLevel = macros.space > MACRO_NEUTRAL
+        ? (macros.space - MACRO_NEUTRAL) / MACRO_NEUTRAL
+        : 0;
+    if (sendLevel > 0 && spaceReturn && nodes.length === 0) {
+        // Need a tap point for the send
+        nodes.push(new Tone.Gain(1));
+    }
+
+    if (nodes.length === 0) {
+        return { input: destination, nodes };
+    }
+
+    for (let i = 0; i < nodes.length - 1; i++) {
+        nodes[i].connect(nodes[i + 1]);
+    }
+    const output = nodes[nodes.length - 1];
+    output.connect(destination);
+
+    if (sendLevel > 0 && spaceReturn) {
+        const send = new Tone.Gain(sendLevel);
+        output.connect(send);
+        send.connect(spaceReturn);
+        nodes.push(send);
+    }
+
+    return { input: nodes[0], nodes };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, value));
+}
+
+function isOnGrid(beat: number, grid: number): boolean {
+    const remainder = ((beat % grid) + grid) % grid;
+    return remainder < GRID_EPSILON || grid - remainder < GRID_EPSILON;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) seeded from a string hash
+ */
+function createSeededRandom(seed: string): () => number {
+    let h = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+        h = (h << 13) | (h >>> 19);
+    }
+
+    let state = h >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
@@ -0,0 +1,141 @@
+// ============================================
+// ComposeYogi — Take Comping
+// Composite playback from ranges of a clip's takes
+// ============================================
+
+import { v4 as uuid } from 'uuid';
+import type { Clip, CompRegion } from '@/types';
+
+// ============================================
+// Types & Constants
+// ============================================
+
+/** A stretch of the comp played from one take */
+export interface CompSegment {
+    takeId: string;
+    start: number;  // seconds on the take timeline
+    end: number;
+}
+
+// Regions shorter than this are dropped (an accidental click, not a swipe)
+export const MIN_COMP_REGION_SECONDS = 0.02;
+
+// Crossfade applied at each boundary between two takes
+export const COMP_CROSSFADE_SECONDS = 0.005;
+
+// ============================================
+// Comp Resolution
+// ============================================
+
+/**
+ * Resolve a clip's comp into back-to-back segments covering [0, duration).
+ * Gaps between regions play the active take; a clip without regions is a
+ * single segment of its active take.
+ */
+export function getCompSegments(clip: Clip, duration: number): CompSegment[] {
+    const baseTakeId = clip.activeTakeId;
+    const takeIds = new Set(clip.audioTakeIds || []);
+    const regions = (clip.compRegions || [])
+        .filter((r) => takeIds.has(r.takeId) && r.end > r.start)
+        .sort((a, b) => a.start - b.start);
+
+    const segments: CompSegment[] = [];
+    const push = (takeId: string | undefined, start: number, end: number) => {
+        if (!takeId || end - start <= 0) return;
+
+        const last = segments[segments.length - 1];
+        if (last && last.takeId === takeId && Math.abs(last.end - start) < 1e-9) {
+            last.end = end;
+        } else {
+            segments.push({ takeId, start, end });
+        }
+    };
+
+    let cursor = 0;
+    for (const region of regions) {
+        const start = Math.max(cursor, Math.min(duration, region.start));
+        const end = Math.min(duration, region.end);
+        if (end <= start) continue;
+
+        push(baseTakeId, cursor, start);
+        push(region.takeId, start, end);
+        cursor = end;
+    }
+    push(baseTakeId, cursor, duration);
+
+    return segments;
+}
+
+/**
+ * Take heard at a time on the take timeline
+ */
+export function getCompTakeAt(clip: Clip, time: number): string | undefined {
+    const region = clip.compRegions?.find((r) => time >= r.start && time < r.end);
+    return region?.takeId ?? clip.activeTakeId;
+}
+
+/**
+ * True when the clip plays more than one take
+ */
+export function isComped(clip: Clip): boolean {
+    return (clip.compRegions?.length ?? 0) > 0;
+}
+
+// ============================================
+// Comp Editing
+// ============================================
+
+/**
+ * Paint [start, end) of a take into a comp. Overlapped regions are cut
+ * back or split, ranges of the base take need no region, and touching
+ * regions of the same take are merged.
+ */
+export function paintCompRegion(
+    regions: CompRegion[],
+    baseTakeId: string | undefined,
+    takeId: string,
+    start: number,
+    end: number
+): CompRegion[] {
+    const from = Math.max(0, Math.min(start, end));
+    const to = Math.max(start, end);
+    if (to - from < MIN_COMP_REGION_SECONDS) return regions;
+
+    const next: CompRegion[] = [];
+    for (const region of regions) {
+        if (region.end <= from || region.start >= to) {
+            next.push(region);
+            continue;
+        }
+        if (region.start < from) {
+            next.push({ ...region, end: from });
+        }
+        if (region.end > to) {
+            next.push({ ...region, id: uuid(), start: to });
+        }
+    }
+
+    if (takeId !== baseTakeId) {
+        next.push({ id: uuid(), takeId, start: from, end: to });
+    }
+
+    return mergeCompRegions(next);
+}
+
+/**
+ * Sort regions, merge touching ones from the same take and drop slivers
+ */
+function mergeCompRegions(regions: CompRegion[]): CompRegion[] {
+    const merged: CompRegion[] = [];
+
+    for (const region of [...regions].sort((a, b) => a.start - b.start)) {
+        const last = merged[merged.length - 1];
+        if (last && last.takeId === region.takeId && region.start - last.end < 1e-6) {
+            last.end = Math.max(last.end, region.end);
+        } else {
+            merged.push({ ...region });
+        }
+    }
+
+    return merged.filter((r) => r.end - r.start >= MIN_COMP_REGION_SECONDS);
+}
@@ -0,0 +1,395 @@
+// ============================================
+// ComposeYogi — Effect Slots
+// Track effect nodes that update in place, with crossfaded
+// bypass so edits during playback don't click or drop tails
+// ============================================
+
+import * as Tone from 'tone';
+import type { TrackEffect } from '@/types';
+import { createLogger } from '@/lib/logger';
+import { DEFAULT_LIMITER_CEILING } from './master-bus';
+import { SidechainCompressor, getSidechainSource } from './sidechain';
+import { PARAMETRIC_EQ_DEFAULT_FREQUENCIES, ParametricEQ } from './parametric-eq';
+
+const logger = createLogger('EffectSlots');
+
+// Parameter ramps and bypass crossfades, short enough to feel immediate
+const PARAM_RAMP_SECONDS = 0.05;
+const BYPASS_CROSSFADE_SECONDS = 0.03;
+
+// ============================================
+// Tempo Sync
+// ============================================
+
+export interface DelayDivision {
+    id: string;
+    label: string;
+    beats: number;
+}
+
+export const DELAY_DIVISIONS: DelayDivision[] = [
+    { id: '1/4', label: '1/4', beats: 1 },
+    { id: '1/4d', label: '1/4 dotted', beats: 1.5 },
+    { id: '1/4t', label: '1/4 triplet', beats: 2 / 3 },
+    { id: '1/8', label: '1/8', beats: 0.5 },
+    { id: '1/8d', label: '1/8 dotted', beats: 0.75 },
+    { id: '1/8t', label: '1/8 triplet', beats: 1 / 3 },
+    { id: '1/16', label: '1/16', beats: 0.25 },
+    { id: '1/2', label: '1/2', beats: 2 },
+];
+
+/**
+ * Delay time in seconds: the synced division at the project tempo, or the
+ * free time. Param `sync` holds a DELAY_DIVISIONS id when synced.
+ */
+export function getDelayTime(params: TrackEffect['params'], bpm: number): number {
+    const division = DELAY_DIVISIONS.find((d) => d.id === params.sync);
+    return division ? (division.beats * 60) / bpm : params.delayTime ?? 0.25;
+}
+
+const isTempoSynced = (effect: TrackEffect) =>
+    (effect.type === 'delay' || effect.type === 'pingpong') && !!effect.params.sync;
+
+// ============================================
+// Effect Nodes
+// ============================================
+
+/**
+ * Create the Tone node for a track effect. Reverbs generate their impulse
+ * asynchronously; await RenderGraph.ready() before offline rendering.
+ */
+export function createEffectNode(effect: TrackEffect, bpm: number = 120): Tone.ToneAudioNode | null {
+    try {
+        switch (effect.type) {
+            case 'reverb':
+                return new Tone.Reverb({
+                    decay: effect.params.decay ?? 1.5,
+                    preDelay: 0.01,
+                    wet: effect.params.wet ?? 0.5,
+                });
+            case 'delay':
+                return new Tone.FeedbackDelay({
+                    delayTime: getDelayTime(effect.params, bpm),
+                    feedback: effect.params.feedback ?? 0.5,
+                    wet: effect.params.wet ?? 0.5,
+                });
+            case 'distortion':
+                return new Tone.Distortion({
+                    distortion: effect.params.distortion ?? 0.4,
+                    wet: effect.params.wet ?? 0.5,
+                });
+            case 'filter':
+                return new Tone.Filter({
+                    frequency: effect.params.frequency ?? 1000,
+                    type: effect.params.filterType ?? 'lowpass',
+                    Q: effect.params.Q ?? 1,
+                });
+            case 'compression':
+                if (getSidechainSource(effect) !== 'none') {
+                    // Keyed by another track or a trigger pattern; RenderGraph wires the key
+                    return new SidechainCompressor({
+                        threshold: effect.params.threshold ?? -24,
+                        ratio: effect.params.ratio ?? 4,
+                        attack: effect.params.attack ?? 0.01,
+                        release: effect.params.release ?? 0.15,
+                    });
+                }
+                return new Tone.Compressor({
+                    threshold: effect.params.threshold ?? -30,
+                    ratio: effect.params.ratio ?? 12,
+                    attack: effect.params.attack ?? 0.003,
+                    release: effect.params.release ?? 0.25,
+                });
+            case 'eq':
+                return new Tone.EQ3({
+                    low: effect.params.low ?? 0,
+                    mid: effect.params.mid ?? 0,
+                    high: effect.params.high ?? 0,
+                    lowFrequency: effect.params.lowFrequency ?? 250,
+                    highFrequency: effect.params.highFrequency ?? 4000,
+                });
+            case 'limiter':
+                return new Tone.Limiter(effect.params.ceiling ?? DEFAULT_LIMITER_CEILING);
+            case 'widener':
+                return new Tone.StereoWidener(effect.params.width ?? 0.5);
+            case 'parametric-eq': {
+                const eq = new ParametricEQ({ bandCount: effect.params.bandCount ?? 4 });
+                updateEffectNode(eq, effect, null, new Set());
+                return eq;
+            }
+            case 'chorus':
+                // LFO effects must be started or they sit still
+                return new Tone.Chorus({
+                    frequency: effect.params.frequency ?? 1.5,
+                    delayTime: effect.params.delayTime ?? 3.5,
+                    depth: effect.params.depth ?? 0.7,
+                    feedback: effect.params.feedback ?? 0,
+                    wet: effect.params.wet ?? 0.5,
+                }).start();
+            case 'phaser':
+                return new Tone.Phaser({
+                    frequency: effect.params.frequency ?? 0.5,
+                    octaves: effect.params.octaves ?? 3,
+                    baseFrequency: effect.params.baseFrequency ?? 350,
+                    Q: effect.params.Q ?? 10,
+                    wet: effect.params.wet ?? 0.5,
+                });
+            case 'tremolo':
+                return new Tone.Tremolo({
+                    frequency: effect.params.frequency ?? 5,
+                    depth: effect.params.depth ?? 0.6,
+                    spread: effect.params.spread ?? 0,
+                    wet: effect.params.wet ?? 1,
+                }).start();
+            case 'autopan':
+                return new Tone.AutoPanner({
+                    frequency: effect.params.frequency ?? 1,
+                    depth: effect.params.depth ?? 1,
+                    wet: effect.params.wet ?? 1,
+                }).start();
+            case 'bitcrusher': {
+                const crusher = new Tone.BitCrusher({ bits: effect.params.bits ?? 4 });
+                crusher.wet.value = effect.params.wet ?? 1;
+                return crusher;
+            }
+            case 'gate':
+                return new Tone.Gate({
+                    threshold: effect.params.threshold ?? -40,
+                    smoothing: effect.params.smoothing ?? 0.1,
+                });
+            case 'pingpong':
+                return new Tone.PingPongDelay({
+                    delayTime: getDelayTime(effect.params, bpm),
+                    feedback: effect.params.feedback ?? 0.4,
+                    wet: effect.params.wet ?? 0.4,
+                });
+            default:
+                return null;
+        }
+    } catch (error) {
+        logger.error('Error creating effect', { type: effect.type, error });
+        return null;
+    }
+}
+
+// Tone params and signals of any unit
+interface RampableParam {
+    rampTo(value: number, rampTime: number): unknown;
+}
+
+/**
+ * What decides the node class. Anything else is updated in place.
+ */
+function getNodeKey(effect: TrackEffect): string {
+    if (effect.type === 'compression' && getSidechainSource(effect) !== 'none') return 'sidechain';
+    return effect.type;
+}
+
+/**
+ * Ramp a node's parameters to an effect's values. Automated parameters
+ * (by param name) are left to their envelopes.
+ */
+function updateEffectNode(
+    node: Tone.ToneAudioNode,
+    effect: TrackEffect,
+    previous: TrackEffect | null,
+    automated: Set<string>,
+    bpm: number = 120
+): void {
+    const { params } = effect;
+    const changed = (name: string) => params[name] !== previous?.params[name];
+    const ramp = (param: RampableParam, name: string, value: number) => {
+        if (!automated.has(name)) param.rampTo(value, PARAM_RAMP_SECONDS);
+    };
+
+    if (node instanceof Tone.Reverb) {
+        ramp(node.wet, 'wet', params.wet ?? 0.5);
+        // A new decay means a new impulse; only regenerate when it moved
+        if (changed('decay')) node.decay = params.decay ?? 1.5;
+    } else if (node instanceof Tone.FeedbackDelay) {
+        ramp(node.wet, 'wet', params.wet ?? 0.5);
+        ramp(node.delayTime, 'delayTime', getDelayTime(params, bpm));
+        ramp(node.feedback, 'feedback', params.feedback ?? 0.5);
+    } else if (node instanceof Tone.Distortion) {
+        ramp(node.wet, 'wet', params.wet ?? 0.5);
+        if (changed('distortion')) node.distortion = params.distortion ?? 0.4;
+    } else if (node instanceof Tone.Filter) {
+        ramp(node.frequency, 'frequency', params.frequency ?? 1000);
+        ramp(node.Q, 'Q', params.Q ?? 1);
+        if (changed('filterType')) node.type = params.filterType ?? 'lowpass';
+    } else if (node instanceof SidechainCompressor) {
+        // Threshold and ratio are baked into its gain curve, so they step rather than ramp
+        if (['threshold', 'ratio', 'attack', 'release'].some(changed)) {
+            node.set({
+                threshold: params.threshold ?? -24,
+                ratio: params.ratio ?? 4,
+                attack: params.attack ?? 0.01,
+                release: params.release ?? 0.15,
+            });
+        }
+    } else if (node instanceof Tone.Compressor) {
+        ramp(node.threshold, 'threshold', params.threshold ?? -30);
+        ramp(node.ratio, 'ratio', params.ratio ?? 12);
+        ramp(node.attack, 'attack', params.attack ?? 0.003);
+        ramp(node.release, 'release', params.release ?? 0.25);
+    } else if (node instanceof Tone.EQ3) {
+        ramp(node.low, 'low', params.low ?? 0);
+        ramp(node.mid, 'mid', params.mid ?? 0);
+        ramp(node.high, 'high', params.high ?? 0);
+        ramp(node.lowFrequency, 'lowFrequency', params.lowFrequency ?? 250);
+        ramp(node.highFrequency, 'highFrequency', params.highFrequency ?? 4000);
+    } else if (node instanceof Tone.Limiter) {
+        ramp(node.threshold, 'threshold', params.ceiling ?? DEFAULT_LIMITER_CEILING);
+    } else if (node instanceof Tone.StereoWidener) {
+        ramp(node.width, 'width', params.width ?? 0.5);
+    } else if (node instanceof ParametricEQ) {
+        if (changed('bandCount')) node.bandCount = params.bandCount ?? 4;
+        PARAMETRIC_EQ_DEFAULT_FREQUENCIES.forEach((frequency, index) => {
+            const band = index + 1;
+            const active = index < node.bandCount;
+            ramp(node[`band${band}Gain` as `band${1 | 2 | 3 | 4 | 5}Gain`], `band${band}Gain`, active ? params[`band${band}Gain`] ?? 0 : 0);
+            ramp(node[`band${band}Frequency` as `band${1 | 2 | 3 | 4 | 5}Frequency`], `band${band}Frequency`, params[`band${band}Frequency`] ?? frequency);
+            ramp(node[`band${band}Q` as `band${1 | 2 | 3 | 4 | 5}Q`], `band${band}Q`, params[`band${band}Q`] ?? 1);
+        });
+    } else if (node instanceof Tone.Chorus) {
+        ramp(node.wet, 'wet', params.wet ?? 0.5);
+        ramp(node.frequency, 'frequency', params.frequency ?? 1.5);
+        ramp(node.feedback, 'feedback', params.feedback ?? 0);
+        if (changed('depth')) node.depth = params.depth ?? 0.7;
+        if (changed('delayTime')) node.delayTime = params.delayTime ?? 3.5;
+    } else if (node instanceof Tone.Phaser) {
+        ramp(node.wet, 'wet', params.wet ?? 0.5);
+        ramp(node.frequency, 'frequency', params.frequency ?? 0.5);
+        ramp(node.Q, 'Q', params.Q ?? 10);
+        if (changed('octaves')) node.octaves = params.octaves ?? 3;
+        if (changed('baseFrequency')) node.baseFrequency = params.baseFrequency ?? 350;
+    } else if (node instanceof Tone.Tremolo) {
+        ramp(node.wet, 'wet', params.wet ?? 1);
+        ramp(node.frequency, 'frequency', params.frequency ?? 5);
+        ramp(node.depth, 'depth', params.depth ?? 0.6);
+        if (changed('spread')) node.spread = params.spread ?? 0;
+    } else if (node instanceof Tone.AutoPanner) {
+        ramp(node.wet, 'wet', params.wet ?? 1);
+        ramp(node.frequency, 'frequency', params.frequency ?? 1);
+        ramp(node.depth, 'depth', params.depth ?? 1);
+    } else if (node instanceof Tone.BitCrusher) {
+        ramp(node.wet, 'wet', params.wet ?? 1);
+        ramp(node.bits, 'bits', params.bits ?? 4);
+    } else if (node instanceof Tone.Gate) {
+        if (changed('threshold')) node.threshold = params.threshold ?? -40;
+        if (changed('smoothing')) node.smoothing = params.smoothing ?? 0.1;
+    } else if (node instanceof Tone.PingPongDelay) {
+        ramp(node.wet, 'wet', params.wet ?? 0.4);
+        ramp(node.delayTime, 'delayTime', getDelayTime(params, bpm));
+        ramp(node.feedback, 'feedback', params.feedback ?? 0.4);
+    }
+}
+
+// ============================================
+// Effect Slot
+// ============================================
+
+/**
+ * One track effect in the insert chain:
+ *
+ * input -> node -> wet -+-> output
+ * input ---------> dry -+
+ *
+ * Bypass crossfades wet and dry rather than reconnecting, so tails ring
+ * out and nothing clicks. The node is only replaced when its class would
+ * change (see getNodeKey).
+ */
+export class EffectSlot {
+    readonly input: Tone.Gain;
+    readonly output: Tone.Gain;
+
+    private readonly dry: Tone.Gain;
+    private readonly wet: Tone.Gain;
+    private effect: TrackEffect;
+    private nodeKey: string;
+    private currentNode: Tone.ToneAudioNode;
+    private bpm: number;
+
+    private constructor(effect: TrackEffect, node: Tone.ToneAudioNode, bpm: number) {
+        this.effect = effect;
+        this.bpm = bpm;
+        this.nodeKey = getNodeKey(effect);
+        this.currentNode = node;
+
+        this.input = new Tone.Gain(1);
+        this.output = new Tone.Gain(1);
+        this.dry = new Tone.Gain(effect.active ? 0 : 1);
+        this.wet = new Tone.Gain(effect.active ? 1 : 0);
+
+        this.input.connect(this.dry);
+        this.dry.connect(this.output);
+        this.input.connect(node);
+        node.connect(this.wet);
+        this.wet.connect(this.output);
+    }
+
+    /**
+     * Slot for an effect, or null if its node could not be created
+     */
+    static create(effect: TrackEffect, bpm: number = 120): EffectSlot | null {
+        const node = createEffectNode(effect, bpm);
+        return node ? new EffectSlot(effect, node, bpm) : null;
+    }
+
+    get node(): Tone.ToneAudioNode {
+        return this.currentNode;
+    }
+
+    /**
+     * Apply an edited effect. Returns true if the node was replaced, so
+     * automation and sidechain keys need attaching again.
+     */
+    update(effect: TrackEffect, automated: Set<string> = new Set()): boolean {
+        const previous = this.effect;
+        this.effect = effect;
+
+        if (effect.active !== previous.active) {
+            this.dry.gain.rampTo(effect.active ? 0 : 1, BYPASS_CROSSFADE_SECONDS);
+            this.wet.gain.rampTo(effect.active ? 1 : 0, BYPASS_CROSSFADE_SECONDS);
+        }
+
+        const nodeKey = getNodeKey(effect);
+        if (nodeKey === this.nodeKey) {
+            updateEffectNode(this.currentNode, effect, previous, automated, this.bpm);
+            return false;
+        }
+
+        const node = createEffectNode(effect, this.bpm);
+        if (!node) return false;
+
+        this.input.disconnect(this.currentNode);
+        this.currentNode.dispose();
+
+        this.input.connect(node);
+        node.connect(this.wet);
+        this.currentNode = node;
+        this.nodeKey = nodeKey;
+        return true;
+    }
+
+    /**
+     * Follow a tempo change with tempo-synced delay times
+     */
+    setBpm(bpm: number): void {
+        if (bpm === this.bpm) return;
+        this.bpm = bpm;
+
+        const node = this.currentNode;
+        if (isTempoSynced(this.effect) && (node instanceof Tone.FeedbackDelay || node instanceof Tone.PingPongDelay)) {
+            node.delayTime.rampTo(getDelayTime(this.effect.params, bpm), PARAM_RAMP_SECONDS);
+        }
+    }
+
+    dispose(): void {
+        this.input.dispose();
+        this.currentNode.dispose();
+        this.dry.dispose();
+        this.wet.dispose();
+        this.output.dispose();
+    }
+}
@@ -6,9 +6,15 @@
 import * as Tone from 'tone';
 import { playbackRefs } from '@/lib/store/playback';
 import { createLogger } from '@/lib/logger';
+import { TempoMap } from './tempo-map';
 
 const logger = createLogger('AudioEngine');
 
+// Metronome clicks are scheduled from the tempo map this many bars ahead
+// of the playhead, topped up on a repeating transport event
+const METRONOME_LOOKAHEAD_BARS = 2;
+const METRONOME_REFILL_SECONDS = 0.5;
+
 // ============================================
 // Types
 // ============================================
@@ -37,7 +43,9 @@ class AudioEngine {
     private isInitialized = false;
     private scheduledEvents: Map<string, ScheduledEvent> = new Map();
     private metronome: Tone.Synth | null = null;
-    private metronomeLoop: Tone.Loop | null = null;
+    private metronomeBars = new Map<number, number[]>();     // Click event ids by bar
+    private metronomeRefillId: number | null = null;
+    private tempoMap = new TempoMap(120, [4, 4]);
     private onBeatCallback: ((bar: number, beat: number) => void) | null = null;
 
     // ============================================
@@ -97,6 +105,7 @@ class AudioEngine {
 
         // Set transport position before starting
         transport.seconds = playFromTime;
+        if (this.metronomeRunning) this.scheduleMetronomeAhead();
         transport.start();
     }
 
@@ -120,6 +129,7 @@ class AudioEngine {
 
         transport.seconds = Math.max(0, timeInSeconds);
         playbackRefs.currentTimeRef.current = transport.seconds;
+        if (this.metronomeRunning) this.scheduleMetronomeAhead();
 
         if (playbackRefs.isPlayingRef.current) {
             playbackRefs.playbackStartTimeRef.current = Tone.getContext().currentTime;
@@ -149,6 +159,24 @@ class AudioEngine {
         Tone.getTransport().timeSignature = [numerator, denominator];
     }
 
+    /**
+     * Set the tempo map used for every bar/second conversion. The transport
+     * runs in seconds, so tempo and meter changes never touch its bpm.
+     */
+    setTempoMap(map: TempoMap): void {
+        if (map.key === this.tempoMap.key) return;
+        this.tempoMap = map;
+
+        if (this.metronomeRunning) {
+            this.clearMetronomeClicks();
+            this.startMetronomeClicks();
+        }
+    }
+
+    getTempoMap(): TempoMap {
+        return this.tempoMap;
+    }
+
     setLoop(enabled: boolean, startBar?: number, endBar?: number): void {
         const transport = Tone.getTransport();
         transport.loop = enabled;
@@ -158,6 +186,7 @@ class AudioEngine {
             transport.loopEnd = this.barToSeconds(endBar);
         }
 
+        if (this.metronomeRunning) this.scheduleMetronomeAhead();
     }
 
     // ============================================
@@ -172,36 +201,12 @@ class AudioEngine {
         // Set volume (convert 0-1 to dB)
         this.metronome.volume.value = Tone.gainToDb(volume) - 6;
 
-        // Create metronome loop
-        this.metronomeLoop = new Tone.Loop((time) => {
-            const transport = Tone.getTransport();
-
-            // Only play if transport is actually running
-            if (transport.state !== 'started') return;
-
-            const position = transport.position.toString();
-            const [bar, beat] = position.split(':').map(Number);
-
-            // Accent on beat 1
-            const freq = beat === 0 ? 1000 : 800;
-            this.metronome?.triggerAttackRelease(freq, '32n', time);
-
-            // Callback for UI updates
-            if (this.onBeatCallback) {
-                this.onBeatCallback(bar, beat);
-            }
-        }, '4n');
-
-        this.metronomeLoop.start(0);
+        this.startMetronomeClicks();
         this.metronomeRunning = true;
     }
 
     stopMetronome(): void {
-        if (this.metronomeLoop) {
-            this.metronomeLoop.stop();
-            this.metronomeLoop.dispose();
-            this.metronomeLoop = null;
-        }
+        this.clearMetronomeClicks();
         this.metronomeRunning = false;
     }
 
@@ -215,6 +220,77 @@ class AudioEngine {
         this.onBeatCallback = callback;
     }
 
+    private startMetronomeClicks(): void {
+        this.scheduleMetronomeAhead();
+        this.metronomeRefillId = Tone.getTransport().scheduleRepeat(
+            () => this.scheduleMetronomeAhead(),
+            METRONOME_REFILL_SECONDS,
+            0
+        );
+    }
+
+    /**
+     * Make sure the bars just ahead of the playhead click, and the start
+     * of the loop it will wrap back to
+     */
+    private scheduleMetronomeAhead(): void {
+        const transport = Tone.getTransport();
+        const fromBar = Math.floor(this.secondsToBar(transport.seconds) + 1e-6);
+        this.scheduleMetronomeBars(fromBar, fromBar + METRONOME_LOOKAHEAD_BARS);
+
+        if (transport.loop) {
+            const loopStartBar = Math.floor(this.secondsToBar(Tone.Time(transport.loopStart).toSeconds()) + 1e-6);
+            this.scheduleMetronomeBars(loopStartBar, loopStartBar + METRONOME_LOOKAHEAD_BARS);
+        }
+    }
+
+    /**
+     * Schedule one click per beat from the tempo map, so meter changes move
+     * the accent and ramps speed the clicks up or down. Bars already
+     * scheduled are left alone.
+     */
+    private scheduleMetronomeBars(fromBar: number, toBar: number): void {
+        const transport = Tone.getTransport();
+
+        for (let bar = Math.max(0, fromBar); bar < toBar; bar++) {
+            if (this.metronomeBars.has(bar)) continue;
+
+            const barStartBeat = this.tempoMap.barToBeat(bar);
+            const beatsPerBar = this.tempoMap.getBeatsPerBarAt(bar);
+            const eventIds: number[] = [];
+
+            for (let beat = 0; beat < beatsPerBar; beat++) {
+                const eventId = transport.schedule((time) => {
+                    // Only play if transport is actually running
+                    if (transport.state !== 'started') return;
+
+                    // Accent on beat 1
+                    const freq = beat === 0 ? 1000 : 800;
+                    this.metronome?.triggerAttackRelease(freq, '32n', time);
+
+                    // Callback for UI updates
+                    if (this.onBeatCallback) {
+                        this.onBeatCallback(bar, beat);
+                    }
+                }, this.tempoMap.beatToSeconds(barStartBeat + beat));
+
+                eventIds.push(eventId);
+            }
+            this.metronomeBars.set(bar, eventIds);
+        }
+    }
+
+    private clearMetronomeClicks(): void {
+        const transport = Tone.getTransport();
+        this.metronomeBars.forEach((eventIds) => eventIds.forEach((eventId) => transport.clear(eventId)));
+        this.metronomeBars.clear();
+
+        if (this.metronomeRefillId !== null) {
+            transport.clear(this.metronomeRefillId);
+            this.metronomeRefillId = null;
+        }
+    }
+
     // ============================================
     // Time Utilities
     // ============================================
@@ -233,34 +309,35 @@ class AudioEngine {
     }
 
     getCurrentBeat(): number {
-        const transport = Tone.getTransport();
-        const position = transport.position.toString();
-        const parts = position.split(':');
-        return parts.length > 1 ? parseInt(parts[1], 10) : 0;
+        const bar = this.getCurrentBar();
+        const beat = this.tempoMap.barToBeat(bar) - this.tempoMap.barToBeat(Math.floor(bar));
+        return Math.floor(beat + 1e-6);
     }
 
     barToSeconds(bar: number): number {
-        const bpm = this.getBpm();
-        const beatsPerBar = Tone.getTransport().timeSignature as number;
-        const secondsPerBeat = 60 / bpm;
-        return bar * beatsPerBar * secondsPerBeat;
+        return this.tempoMap.barToSeconds(bar);
     }
 
     secondsToBar(seconds: number): number {
-        const bpm = this.getBpm();
-        const beatsPerBar = Tone.getTransport().timeSignature as number;
-        const secondsPerBeat = 60 / bpm;
-        return seconds / (beatsPerBar * secondsPerBeat);
+        return this.tempoMap.secondsToBar(seconds);
+    }
+
+    /** Duration in seconds of a span of bars starting at startBar */
+    barsToSecondsAt(startBar: number, bars: number): number {
+        return this.tempoMap.barsToDuration(startBar, bars);
+    }
+
+    /** Span in bars of a duration starting at startBar */
+    secondsToBarsAt(startBar: number, seconds: number): number {
+        return this.tempoMap.durationToBars(startBar, seconds);
     }
 
     beatsToSeconds(beats: number): number {
-        const bpm = this.getBpm();
-        return (beats * 60) / bpm;
+        return this.tempoMap.beatToSeconds(beats);
     }
 
     secondsToBeats(seconds: number): number {
-        const bpm = this.getBpm();
-        return (seconds * bpm) / 60;
+        return this.tempoMap.secondsToBeat(seconds);
     }
 
     // ============================================
@@ -280,7 +357,7 @@ class AudioEngine {
         const eventId = transport.schedule((time) => {
             synth.triggerAttackRelease(
                 note,
-                this.beatsToSeconds(duration),
+                this.beatsToSeconds(this.secondsToBeats(startTime) + duration) - startTime,
                 time,
                 velocity
             );
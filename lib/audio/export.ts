@@ -5,6 +5,7 @@
 
 import { Midi } from '@tonejs/midi';
 import type { Project, Clip, Track } from '@/types';
+import { getTempoMap, getTicksPerBeat, type TempoMap } from './tempo-map';
 
 // ============================================
 // Constants
@@ -25,14 +26,11 @@ const _TICKS_PER_QUARTER = 480;
  */
 export function exportProjectToMidi(project: Project): Midi {
     const midi = new Midi();
+    const tempoMap = getTempoMap(project);
+    const ppq = midi.header.ppq;
 
     // Set header info
-    midi.header.setTempo(project.bpm);
-    midi.header.timeSignatures.push({
-        ticks: 0,
-        timeSignature: [project.timeSignature[0], project.timeSignature[1]],
-        measures: 0,
-    });
+    writeTempoMap(midi, tempoMap);
     midi.header.name = project.name;
 
     // Create a map of trackId -> track for quick lookup
@@ -85,18 +83,17 @@ export function exportProjectToMidi(project: Project): Midi {
         for (const clip of clips) {
             if (!clip.notes || clip.notes.length === 0) continue;
 
-            // Convert clip position to seconds
-            const clipStartSeconds = barToSeconds(clip.startBar, project.bpm, project.timeSignature[0]);
+            // Notes are placed in ticks so tempo changes stay in the header
+            const clipStartBeat = tempoMap.barToBeat(clip.startBar);
 
             for (const note of clip.notes) {
-                // Convert note timing
-                const noteStartSeconds = clipStartSeconds + beatToSeconds(note.startBeat, project.bpm);
-                const noteDurationSeconds = beatToSeconds(note.duration, project.bpm);
+                const startTicks = tempoMap.beatToTicks(clipStartBeat + note.startBeat, ppq);
+                const endTicks = tempoMap.beatToTicks(clipStartBeat + note.startBeat + note.duration, ppq);
 
                 midiTrack.addNote({
                     midi: note.pitch,
-                    time: noteStartSeconds,
-                    duration: noteDurationSeconds,
+                    ticks: Math.round(startTicks),
+                    durationTicks: Math.max(1, Math.round(endTicks - startTicks)),
                     velocity: note.velocity / 127, // Normalize to 0-1
                 });
             }
@@ -138,19 +135,46 @@ export function downloadProjectAsMidi(project: Project): void {
 // ============================================
 
 /**
- * Convert bar number to seconds
+ * Write tempo and time signature events. MIDI tempo has no ramps, so
+ * ramps become one tempo event per beat, each holding that beat's
+ * average tempo so beat boundaries land at the same times.
  */
-function barToSeconds(bar: number, bpm: number, beatsPerBar: number): number {
-    const secondsPerBeat = 60 / bpm;
-    return bar * beatsPerBar * secondsPerBeat;
-}
+function writeTempoMap(midi: Midi, tempoMap: TempoMap): void {
+    const ppq = midi.header.ppq;
+    midi.header.tempos = [];
+    midi.header.timeSignatures = [];
+
+    const pushTempo = (ticks: number, quarterBpm: number) => {
+        const last = midi.header.tempos[midi.header.tempos.length - 1];
+        if (last && Math.abs(last.bpm - quarterBpm) < 1e-6) return;
+        midi.header.tempos.push({ ticks: Math.round(ticks), bpm: quarterBpm });
+    };
+
+    for (const segment of tempoMap.segments) {
+        const ticksPerBeat = getTicksPerBeat(segment, ppq);
+        const startTicks = tempoMap.beatToTicks(segment.startBeat, ppq);
+        // MIDI tempo counts quarter notes; ours counts 1/denominator notes
+        const toQuarterBpm = (bpm: number) => (bpm * 4) / segment.timeSignature[1];
+
+        midi.header.timeSignatures.push({
+            ticks: Math.round(startTicks),
+            timeSignature: [...segment.timeSignature],
+            measures: segment.startBar,
+        });
+
+        if (segment.startBpm === segment.endBpm) {
+            pushTempo(startTicks, toQuarterBpm(segment.startBpm));
+            continue;
+        }
 
-/**
- * Convert beats to seconds
- */
-function beatToSeconds(beats: number, bpm: number): number {
-    const secondsPerBeat = 60 / bpm;
-    return beats * secondsPerBeat;
+        for (let beat = 0; beat < segment.lengthBeats; beat++) {
+            const from = segment.startBeat + beat;
+            const beatSeconds = tempoMap.beatToSeconds(from + 1) - tempoMap.beatToSeconds(from);
+            pushTempo(startTicks + beat * ticksPerBeat, toQuarterBpm(60 / beatSeconds));
+        }
+    }
+
+    midi.header.update();
 }
 
 /**
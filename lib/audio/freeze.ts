@@ -0,0 +1,146 @@
+// ============================================
+// ComposeYogi — Track Freeze
+// Frozen tracks play a render of their instrument and inserts;
+// playout and export see them through getPlaybackProject
+// ============================================
+
+import type { AutomationTarget, Clip, Project, Track } from '@/types';
+import { parseAutomationTarget } from './automation';
+import { getAudioTake } from './recording-manager';
+import { getTrackInstrumentId } from './render-graph';
+import { getSidechainKeyTrackIds } from './sidechain';
+import { getInstrumentCacheKey } from './synth-presets';
+
+// ============================================
+// Signatures
+// ============================================
+
+/**
+ * Id of the audio clip that stands in for a frozen track's clips. The
+ * freeze take is stored against it.
+ */
+export function getFreezeClipId(trackId: string): string {
+    return `freeze-${trackId}`;
+}
+
+// Volume and pan stay live on a frozen track; every other lane is printed
+const isMixLane = (target: AutomationTarget) => parseAutomationTarget(target).kind !== 'effect';
+
+/**
+ * 53-bit string hash (cyrb53), enough to tell renders apart without
+ * storing the clips they came from
+ */
+function hashString(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ code, 2654435761);
+        h2 = Math.imul(h2 ^ code, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Hash of everything a freeze render depends on: the track's clips,
+ * instrument, inserts and their automation, the tracks keying its
+ * sidechains, and the project timing. Volume, pan, sends, mute and solo
+ * are applied live and left out.
+ */
+export function getFreezeSignature(track: Track, project: Project): string {
+    const keyTracks = project.tracks.filter((other) => getSidechainKeyTrackIds([track]).has(other.id));
+
+    return hashString(JSON.stringify({
+        clips: getSignatureClips(track, project),
+        instrument: getInstrumentCacheKey(getTrackInstrumentId(track)),
+        type: track.type,
+        effects: track.effects,
+        automation: track.automation?.filter((lane) => !isMixLane(lane.target)),
+        // Left out when nothing keys the track, so those freezes keep their signature
+        keys: keyTracks.length > 0 ? keyTracks.map((key) => ({
+            clips: getSignatureClips(key, project),
+            instrument: getInstrumentCacheKey(getTrackInstrumentId(key)),
+            effects: key.effects,
+            automation: key.automation?.filter((lane) => !isMixLane(lane.target)),
+        })) : undefined,
+        timing: { bpm: project.bpm, timeSignature: project.timeSignature, tempoMap: project.tempoMap },
+    }));
+}
+
+/**
+ * A track's clips with preset overrides resolved to their cache keys, so
+ * editing a user preset they play invalidates the freeze
+ */
+function getSignatureClips(track: Track, project: Project): Clip[] {
+    return project.clips
+        .filter((clip) => clip.trackId === track.id)
+        .map((clip) => clip.instrumentPreset
+            ? { ...clip, instrumentPreset: getInstrumentCacheKey(clip.instrumentPreset) }
+            : clip);
+}
+
+/**
+ * Whether a track plays its freeze: the render exists and the track has
+ * not been edited since it was made
+ */
+export function isTrackFrozen(track: Track, project: Project): boolean {
+    return !!track.freeze
+        && !!getAudioTake(track.freeze.takeId)
+        && track.freeze.signature === getFreezeSignature(track, project);
+}
+
+// ============================================
+// Playback Project
+// ============================================
+
+const playbackProjects = new WeakMap<Project, Project>();
+
+/**
+ * The project as it should be heard: each frozen track's clips are
+ * replaced by one audio clip of its render, and its inserts and insert
+ * automation are dropped since they are printed into that render.
+ * Returns the project itself when nothing is frozen.
+ */
+export function getPlaybackProject(project: Project): Project {
+    const cached = playbackProjects.get(project);
+    if (cached) return cached;
+
+    const frozen = project.tracks.filter((track) => isTrackFrozen(track, project));
+    if (frozen.length === 0) {
+        playbackProjects.set(project, project);
+        return project;
+    }
+
+    const frozenIds = new Set(frozen.map((track) => track.id));
+    const freezeClips: Clip[] = frozen.map((track) => ({
+        id: getFreezeClipId(track.id),
+        trackId: track.id,
+        type: 'audio',
+        name: 'Frozen',
+        startBar: track.freeze!.startBar,
+        lengthBars: track.freeze!.lengthBars,
+        audioTakeIds: [track.freeze!.takeId],
+        activeTakeId: track.freeze!.takeId,
+    }));
+
+    const playback: Project = {
+        ...project,
+        tracks: project.tracks.map((track) => frozenIds.has(track.id)
+            ? {
+                ...track,
+                effects: [],
+                automation: track.automation?.filter((lane) => isMixLane(lane.target)),
+            }
+            : track
+        ),
+        clips: [
+            ...project.clips.filter((clip) => !frozenIds.has(clip.trackId)),
+            ...freezeClips,
+        ],
+    };
+
+    playbackProjects.set(project, playback);
+    return playback;
+}
@@ -4,6 +4,18 @@
 
 export { audioEngine, useAudioEngine } from './engine';
 export { playoutManager } from './playout';
+export { diffProjects, type PlayoutOp } from './project-diff';
+export { TempoMap, getTempoMap, type TempoSegment } from './tempo-map';
+export {
+    timeStretch,
+    getWarpPlan,
+    getWarpedDuration,
+    getWarpedLengthBars,
+    WARP_MODES,
+    MIN_PITCH_SHIFT,
+    MAX_PITCH_SHIFT,
+    type WarpPlan,
+} from './time-stretch';
 export { audioRecorder } from './recorder';
 export type { RecordingOptions, RecordedSegment, LoopBoundaries } from './recorder';
 export {
@@ -19,14 +31,63 @@ export {
     registerAudioTake,
     clearAudioTakes,
 } from './recording-manager';
+export {
+    midiInput,
+    parseMidiMessage,
+    ALL_MIDI_INPUTS,
+    type MidiInputDevice,
+    type MidiInputStatus,
+    type MidiMessage,
+} from './midi-input';
 export { exportProjectToMidi, downloadProjectAsMidi } from './export';
 export {
     exportProjectToWav,
     downloadProjectAsWav,
     downloadProjectAsMp3,
+    downloadProjectEncoded,
     renderProjectToAudioBuffer,
+    exportProjectStems,
+    downloadProjectStems,
+    getStemTracks,
+    getExportRange,
+    type ExportRange,
+    type ExportRangeMode,
+    type WavExportOptions,
+    type StemExportOptions,
+    type StemManifest,
 } from './offline-renderer';
+export { createZip, type ZipEntry } from './zip-writer';
+export { bounceTrack, bounceClips, freezeTrack, unfreezeTrack, type BounceMode } from './bounce';
+export { getPlaybackProject, isTrackFrozen } from './freeze';
+export { encodeAudioBufferToWav, WAV_BIT_DEPTH_PRESETS, type WavBitDepth } from './wav-encoder';
+export { resampleAudioBuffer, EXPORT_SAMPLE_RATES } from './resampler';
+export {
+    getPeak,
+    measureLoudness,
+    normalizeAudioBuffer,
+    NORMALIZE_PRESETS,
+    type NormalizeMode,
+    type NormalizeOptions,
+    type NormalizeResult,
+} from './loudness';
 export { encodeAudioBufferToMp3, MP3_QUALITY_PRESETS, type Mp3Quality } from './mp3-encoder';
+export {
+    registerExportEncoder,
+    getExportEncoders,
+    getExportEncoder,
+    encodeAudioBuffer,
+    type ExportEncoder,
+    type EncoderQuality,
+    type EncodeOptions,
+} from './audio-encoders';
+export {
+    getDefaultExportMetadata,
+    resolveExportMetadata,
+    readCoverImage,
+    createId3Tag,
+    createWavMetadataChunks,
+    type ResolvedExportMetadata,
+} from './audio-metadata';
 export {
     exportProjectToJSON,
     downloadProjectAsJSON,
@@ -55,3 +116,52 @@ export {
     type ImportOptions,
     type ValidationResult,
 } from './sample-import';
+export {
+    analyzeAudioBuffer,
+    parseSampleKey,
+    getKeyShift,
+    getNearestTempo,
+    isTempoMatched,
+    type SampleAnalysis,
+    type SampleKey,
+} from './sample-analysis';
+export {
+    detectClipNotes,
+    convertClipToMidi,
+    AUDIO_TO_MIDI_MODES,
+    AUDIO_TO_MIDI_QUANTIZE,
+    type AudioToMidiMode,
+    type AudioToMidiOptions,
+} from './audio-to-midi';
+export {
+    detectTransients,
+    getSlicePoints,
+    getSliceRegions,
+    splitClipAtSlices,
+    sliceClipToSampler,
+    DEFAULT_SLICE_SENSITIVITY,
+    MAX_SLICES,
+    type SliceRegion,
+} from './slicing';
+export {
+    samplerPresets,
+    UserSampler,
+    createUserSampler,
+    createSamplerPreset,
+    createSamplerZone,
+    toSamplerInstrumentId,
+    parseSamplerInstrumentId,
+    SAMPLER_INSTRUMENT_PREFIX,
+    DEFAULT_SAMPLER_ENVELOPE,
+    DEFAULT_ROOT_NOTE,
+} from './user-sampler';
+export {
+    userSynthPresets,
+    createUserSynthPreset,
+    toUserSynthInstrumentId,
+    parseUserSynthInstrumentId,
+    downloadSynthPreset,
+    readSynthPresetFile,
+    USER_SYNTH_INSTRUMENT_PREFIX,
+    SYNTH_PRESET_FILE_EXTENSION,
+} from './user-synth-presets';
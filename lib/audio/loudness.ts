@@ -0,0 +1,201 @@
+// ============================================
+// ComposeYogi — Loudness
+// Peak and integrated loudness (ITU-R BS.1770) for
+// export normalization
+// ============================================
+
+import { createLogger } from '@/lib/logger';
+import { DEFAULT_LIMITER_CEILING } from './master-bus';
+
+const logger = createLogger('Loudness');
+
+// ============================================
+// Types
+// ============================================
+
+export type NormalizeMode = 'none' | 'peak' | 'lufs';
+
+export interface NormalizeOptions {
+    mode: NormalizeMode;
+    target: number;    // dBFS for peak, LUFS for loudness
+}
+
+export interface NormalizeResult {
+    gainDb: number;
+    // Loudness mode only: where the mix landed, and whether the peak
+    // ceiling held it under the target
+    loudness?: number;
+    limited?: boolean;
+}
+
+export const NORMALIZE_PRESETS = {
+    none: { label: 'Off', target: 0 },
+    peak: { label: 'Peak', target: -1 },
+    lufs: { label: 'Loudness (LUFS)', target: -14 },
+} as const;
+
+// ============================================
+// Measurement
+// ============================================
+
+/**
+ * Highest absolute sample across all channels
+ */
+export function getPeak(buffer: AudioBuffer): number {
+    let peak = 0;
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        const data = buffer.getChannelData(ch);
+        for (let i = 0; i < data.length; i++) {
+            const value = Math.abs(data[i]);
+            if (value > peak) peak = value;
+        }
+    }
+    return peak;
+}
+
+interface Biquad {
+    b0: number; b1: number; b2: number;
+    a1: number; a2: number;
+}
+
+/**
+ * The two K-weighting stages (high shelf, then high pass), designed for
+ * the buffer's sample rate; at 48 kHz they match the spec's tables
+ */
+function getKWeighting(sampleRate: number): Biquad[] {
+    // Shelf: +4 dB above ~1.7 kHz
+    const shelfGain = 3.999843853973347;
+    const shelfQ = 0.7071752369554196;
+    const shelfFrequency = 1681.974450955533;
+    // High pass: ~38 Hz
+    const passQ = 0.5003270373238773;
+    const passFrequency = 38.13547087602444;
+
+    let K = Math.tan((Math.PI * shelfFrequency) / sampleRate);
+    const Vh = 10 ** (shelfGain / 20);
+    const Vb = Vh ** 0.4996667741545416;
+    let a0 = 1 + K / shelfQ + K * K;
+    const shelf: Biquad = {
+        b0: (Vh + (Vb * K) / shelfQ + K * K) / a0,
+        b1: (2 * (K * K - Vh)) / a0,
+        b2: (Vh - (Vb * K) / shelfQ + K * K) / a0,
+        a1: (2 * (K * K - 1)) / a0,
+        a2: (1 - K / shelfQ + K * K) / a0,
+    };
+
+    K = Math.tan((Math.PI * passFrequency) / sampleRate);
+    a0 = 1 + K / passQ + K * K;
+    const highPass: Biquad = {
+        b0: 1,
+        b1: -2,
+        b2: 1,
+        a1: (2 * (K * K - 1)) / a0,
+        a2: (1 - K / passQ + K * K) / a0,
+    };
+
+    return [shelf, highPass];
+}
+
+function applyBiquad(input: ArrayLike<number>, filter: Biquad): Float32Array {
+    const output = new Float32Array(input.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+        const x = input[i];
+        const y = filter.b0 * x + filter.b1 * x1 + filter.b2 * x2 - filter.a1 * y1 - filter.a2 * y2;
+        x2 = x1; x1 = x;
+        y2 = y1; y1 = y;
+        output[i] = y;
+    }
+    return output;
+}
+
+/**
+ * Integrated loudness in LUFS: K-weighted mean square over 400 ms blocks
+ * (75% overlap), gated at -70 LUFS and then 10 LU below the ungated mean.
+ * Returns -Infinity for silence.
+ */
+export function measureLoudness(buffer: AudioBuffer): number {
+    const filters = getKWeighting(buffer.sampleRate);
+    const blockSize = Math.round(buffer.sampleRate * 0.4);
+    const step = Math.round(buffer.sampleRate * 0.1);
+    if (buffer.length < blockSize) return -Infinity;
+
+    // Running sums of squares make each block's mean square O(1)
+    const weighted: Float64Array[] = [];
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        const filtered = filters.reduce<ArrayLike<number>>(
+            (data, filter) => applyBiquad(data, filter),
+            buffer.getChannelData(ch)
+        );
+        const cumulative = new Float64Array(filtered.length + 1);
+        for (let i = 0; i < filtered.length; i++) {
+            cumulative[i + 1] = cumulative[i] + filtered[i] * filtered[i];
+        }
+        weighted.push(cumulative);
+    }
+
+    // Stereo and mono channels are weighted 1.0; surround isn't exported
+    const blocks: number[] = [];
+    for (let start = 0; start + blockSize <= buffer.length; start += step) {
+        let power = 0;
+        for (const cumulative of weighted) {
+            power += (cumulative[start + blockSize] - cumulative[start]) / blockSize;
+        }
+        blocks.push(power);
+    }
+
+    const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    const absolute = blocks.filter((power) => toLufs(power) > -70);
+    if (absolute.length === 0) return -Infinity;
+
+    const relativeGate = toLufs(mean(absolute)) - 10;
+    const relative = absolute.filter((power) => toLufs(power) > relativeGate);
+    return toLufs(mean(relative));
+}
+
+// ============================================
+// Normalization
+// ============================================
+
+/**
+ * Scale a buffer in place to a peak or loudness target. Loudness gain is
+ * held back so peaks stay under the master limiter's ceiling; a quiet,
+ * peaky mix may land under its LUFS target rather than clip, which the
+ * result reports so the user can be told.
+ */
+export function normalizeAudioBuffer(buffer: AudioBuffer, options: NormalizeOptions): NormalizeResult {
+    if (options.mode === 'none') return { gainDb: 0 };
+
+    const peak = getPeak(buffer);
+    if (peak === 0) return { gainDb: 0 };
+
+    let result: NormalizeResult;
+    if (options.mode === 'peak') {
+        result = { gainDb: options.target - 20 * Math.log10(peak) };
+    } else {
+        const loudness = measureLoudness(buffer);
+        if (!Number.isFinite(loudness)) return { gainDb: 0 };
+
+        const headroom = DEFAULT_LIMITER_CEILING - 20 * Math.log10(peak);
+        const gainDb = Math.min(options.target - loudness, headroom);
+        result = { gainDb, loudness: loudness + gainDb, limited: gainDb < options.target - loudness };
+        if (result.limited) {
+            logger.warn('Loudness target limited by peak ceiling', {
+                loudness,
+                target: options.target,
+                reached: result.loudness,
+            });
+        }
+    }
+
+    const gain = 10 ** (result.gainDb / 20);
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        const data = buffer.getChannelData(ch);
+        for (let i = 0; i < data.length; i++) {
+            data[i] *= gain;
+        }
+    }
+    return result;
+}
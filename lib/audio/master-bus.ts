@@ -0,0 +1,70 @@
+// ============================================
+// ComposeYogi — Master Bus
+// Default master chain and helpers shared by playout and export
+// ============================================
+
+import { v4 as uuid } from 'uuid';
+import type { MasterBus, Project, TrackEffect } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_MASTER_VOLUME = 0.8;
+
+/** Limiter ceiling in dBFS; keeps exports clear of 0 dBFS after encoding */
+export const DEFAULT_LIMITER_CEILING = -1;
+
+// ============================================
+// Defaults
+// ============================================
+
+/**
+ * Create the default master chain: flat EQ, bypassed glue compressor and
+ * width, and an active limiter
+ */
+export function createDefaultMasterBus(): MasterBus {
+    const effects: TrackEffect[] = [
+        {
+            id: uuid(),
+            type: 'eq',
+            active: true,
+            params: { low: 0, mid: 0, high: 0, lowFrequency: 250, highFrequency: 4000 },
+        },
+        {
+            id: uuid(),
+            type: 'compression',
+            active: false,
+            params: { threshold: -18, ratio: 2, attack: 0.03, release: 0.2 },
+        },
+        {
+            id: uuid(),
+            type: 'widener',
+            active: false,
+            params: { width: 0.5 },
+        },
+        {
+            id: uuid(),
+            type: 'limiter',
+            active: true,
+            params: { ceiling: DEFAULT_LIMITER_CEILING },
+        },
+    ];
+
+    return { volume: DEFAULT_MASTER_VOLUME, effects };
+}
+
+// Shared fallback so projects saved before the master bus render consistently
+let fallbackMasterBus: MasterBus | null = null;
+
+/**
+ * Get a project's master bus, falling back to the default chain for
+ * projects created before it existed
+ */
+export function getMasterBus(project: Project): MasterBus {
+    if (project.master) return project.master;
+    if (!fallbackMasterBus) {
+        fallbackMasterBus = createDefaultMasterBus();
+    }
+    return fallbackMasterBus;
+}
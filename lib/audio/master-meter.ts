@@ -0,0 +1,99 @@
+// ============================================
+// ComposeYogi — Master Meter
+// Peak, RMS and momentary loudness (LUFS) for the master output
+// ============================================
+
+import * as Tone from 'tone';
+
+// ============================================
+// Types & Constants
+// ============================================
+
+export interface MasterLevels {
+    peakDb: [number, number];   // dBFS per channel
+    rmsDb: [number, number];    // dBFS per channel
+    lufs: number;               // Momentary loudness (LUFS)
+}
+
+/** Floor for displayed levels */
+export const METER_FLOOR_DB = -70;
+
+const LEVEL_WINDOW = 2048;
+
+// ~370 ms at 44.1 kHz; the analyser caps well short of a 400 ms window at 48 kHz+
+const LOUDNESS_WINDOW = 16384;
+
+// ITU-R BS.1770 K-weighting approximated with two biquads
+const K_SHELF_FREQUENCY = 1681;
+const K_SHELF_GAIN_DB = 4;
+const K_HIGHPASS_FREQUENCY = 38;
+
+// ============================================
+// Master Meter
+// ============================================
+
+export class MasterMeter {
+    readonly input: Tone.Gain;
+
+    private levelAnalyser: Tone.Analyser;
+    private kShelf: Tone.Filter;
+    private kHighpass: Tone.Filter;
+    private loudnessAnalyser: Tone.Analyser;
+
+    constructor() {
+        this.input = new Tone.Gain(1);
+
+        this.levelAnalyser = new Tone.Analyser({ type: 'waveform', size: LEVEL_WINDOW, channels: 2 });
+
+        this.kShelf = new Tone.Filter({ type: 'highshelf', frequency: K_SHELF_FREQUENCY, gain: K_SHELF_GAIN_DB });
+        this.kHighpass = new Tone.Filter({ type: 'highpass', frequency: K_HIGHPASS_FREQUENCY, Q: 0.5 });
+        this.loudnessAnalyser = new Tone.Analyser({ type: 'waveform', size: LOUDNESS_WINDOW, channels: 2 });
+
+        this.input.connect(this.levelAnalyser);
+        this.input.chain(this.kShelf, this.kHighpass, this.loudnessAnalyser);
+    }
+
+    getLevels(): MasterLevels {
+        const channels = this.levelAnalyser.getValue() as Float32Array[];
+        const peakDb: [number, number] = [METER_FLOOR_DB, METER_FLOOR_DB];
+        const rmsDb: [number, number] = [METER_FLOOR_DB, METER_FLOOR_DB];
+
+        channels.slice(0, 2).forEach((samples, ch) => {
+            let peak = 0;
+            let sumSquares = 0;
+            for (let i = 0; i < samples.length; i++) {
+                const abs = Math.abs(samples[i]);
+                if (abs > peak) peak = abs;
+                sumSquares += samples[i] * samples[i];
+            }
+            peakDb[ch] = toDb(peak);
+            rmsDb[ch] = toDb(Math.sqrt(sumSquares / samples.length));
+        });
+
+        // Momentary loudness: -0.691 + 10 log10(sum of K-weighted channel mean squares)
+        const weighted = this.loudnessAnalyser.getValue() as Float32Array[];
+        let power = 0;
+        for (const samples of weighted.slice(0, 2)) {
+            let sumSquares = 0;
+            for (let i = 0; i < samples.length; i++) {
+                sumSquares += samples[i] * samples[i];
+            }
+            power += sumSquares / samples.length;
+        }
+        const lufs = power > 0 ? Math.max(METER_FLOOR_DB, -0.691 + 10 * Math.log10(power)) : METER_FLOOR_DB;
+
+        return { peakDb, rmsDb, lufs };
+    }
+
+    dispose(): void {
+        this.input.dispose();
+        this.levelAnalyser.dispose();
+        this.kShelf.dispose();
+        this.kHighpass.dispose();
+        this.loudnessAnalyser.dispose();
+    }
+}
+
+function toDb(amplitude: number): number {
+    return amplitude > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(amplitude)) : METER_FLOOR_DB;
+}
@@ -0,0 +1,553 @@
+// ============================================
+// ComposeYogi — MIDI Input
+// Web MIDI devices, live monitoring and note recording
+// ============================================
+
+import * as Tone from 'tone';
+import { createLogger } from '@/lib/logger';
+import { audioEngine } from './engine';
+import { playoutManager } from './playout';
+import { createSynthForTrack } from './render-graph';
+import { getTempoMap } from './tempo-map';
+import type { SynthType } from './synth-presets';
+import { useProjectStore } from '@/lib/store/project';
+import { usePlaybackStore, playbackRefs } from '@/lib/store/playback';
+import { getSetting, setSetting } from '@/lib/persistence';
+import type { Clip, Track } from '@/types';
+
+const logger = createLogger('MidiInput');
+
+// ============================================
+// Types
+// ============================================
+
+export interface MidiInputDevice {
+    id: string;
+    name: string;
+    manufacturer: string;
+    connected: boolean;
+}
+
+export type MidiInputStatus = 'idle' | 'unsupported' | 'denied' | 'ready';
+
+export type MidiMessage =
+    | { type: 'noteOn'; channel: number; pitch: number; velocity: number }
+    | { type: 'noteOff'; channel: number; pitch: number }
+    | { type: 'controlChange'; channel: number; controller: number; value: number };
+
+type MidiMessageListener = (message: MidiMessage) => void;
+
+interface HeldNote {
+    position: number;  // transport seconds at note-on
+    velocity: number;
+}
+
+interface MidiRecordingSession {
+    trackId: string;
+    clipId: string;
+    loop: { startSeconds: number; endSeconds: number } | null;  // Set when loop recording
+    heldNotes: Map<number, HeldNote>;
+}
+
+/** Select value for listening to every connected input */
+export const ALL_MIDI_INPUTS = 'all';
+
+const SETTINGS_KEY = 'midiInputDevice';
+
+// Shortest recorded note, in beats (a 64th note in 4/4)
+const MIN_NOTE_BEATS = 1 / 16;
+
+// Length of one-shot notes for synths without a sustain stage
+const ONE_SHOT_DURATION = '16n';
+
+// ============================================
+// Message Parsing
+// ============================================
+
+/**
+ * Decode a raw MIDI message. Running status and system messages are
+ * ignored; note-on with velocity 0 is a note-off.
+ */
+export function parseMidiMessage(data: Uint8Array | null): MidiMessage | null {
+    if (!data || data.length < 3) return null;
+
+    const status = data[0] & 0xf0;
+    const channel = data[0] & 0x0f;
+
+    switch (status) {
+        case 0x90:
+            return data[2] > 0
+                ? { type: 'noteOn', channel, pitch: data[1], velocity: data[2] }
+                : { type: 'noteOff', channel, pitch: data[1] };
+        case 0x80:
+            return { type: 'noteOff', channel, pitch: data[1] };
+        case 0xb0:
+            return { type: 'controlChange', channel, controller: data[1], value: data[2] };
+        default:
+            return null;
+    }
+}
+
+// ============================================
+// MIDI Input Manager
+// ============================================
+
+class MidiInputManager {
+    private access: MIDIAccess | null = null;
+    private status: MidiInputStatus = 'idle';
+    private selectedDeviceId: string | null = ALL_MIDI_INPUTS;
+    private boundInputs: MIDIInput[] = [];
+    private changeListeners = new Set<() => void>();
+    private messageListeners = new Set<MidiMessageListener>();
+
+    // Live monitoring through the armed track
+    private monitorKey: string | null = null;  // Track id + instrument, to rebuild on change
+    private monitorSynth: SynthType | null = null;
+    private monitorHeld = new Set<number>();
+
+    private session: MidiRecordingSession | null = null;
+    private countInTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    // ========================================
+    // Initialization
+    // ========================================
+
+    /**
+     * Request MIDI access and start listening. Pass a MIDIAccess to use
+     * instead of navigator.requestMIDIAccess (e.g. a stand-in for tests).
+     */
+    async initialize(access?: MIDIAccess): Promise<MidiInputStatus> {
+        if (this.access) return this.status;
+
+        if (!access) {
+            if (typeof navigator === 'undefined' || !navigator.requestMIDIAccess) {
+                this.setStatus('unsupported');
+                return this.status;
+            }
+
+            try {
+                access = await navigator.requestMIDIAccess();
+            } catch (error) {
+                logger.warn('MIDI access denied', error);
+                this.setStatus('denied');
+                return this.status;
+            }
+        }
+
+        this.access = access;
+        this.access.onstatechange = () => {
+            this.bindInputs();
+            this.notifyChange();
+        };
+
+        this.selectedDeviceId = await getSetting<string | null>(SETTINGS_KEY, ALL_MIDI_INPUTS);
+        this.bindInputs();
+        this.setStatus('ready');
+
+        logger.info('MIDI ready', { inputs: this.getDevices().length });
+        return this.status;
+    }
+
+    dispose(): void {
+        this.cancelRecording();
+        this.setMonitorTrack(null);
+        this.unbindInputs();
+
+        if (this.access) {
+            this.access.onstatechange = null;
+            this.access = null;
+        }
+
+        this.status = 'idle';
+        this.changeListeners.clear();
+        this.messageListeners.clear();
+    }
+
+    // ========================================
+    // Devices
+    // ========================================
+
+    getStatus(): MidiInputStatus {
+        return this.status;
+    }
+
+    getDevices(): MidiInputDevice[] {
+        if (!this.access) return [];
+
+        return Array.from(this.access.inputs.values()).map((input) => ({
+            id: input.id,
+            name: input.name || 'MIDI Input',
+            manufacturer: input.manufacturer || '',
+            connected: input.state === 'connected',
+        }));
+    }
+
+    getSelectedDeviceId(): string | null {
+        return this.selectedDeviceId;
+    }
+
+    /**
+     * Listen to one input, every input (ALL_MIDI_INPUTS), or none (null)
+     */
+    selectDevice(deviceId: string | null): void {
+        this.selectedDeviceId = deviceId;
+        this.bindInputs();
+        this.notifyChange();
+
+        setSetting(SETTINGS_KEY, deviceId).catch((error) => {
+            logger.error('Failed to save MIDI input device', error);
+        });
+    }
+
+    /**
+     * Called when devices, the selection or the status change
+     */
+    onChange(listener: () => void): () => void {
+        this.changeListeners.add(listener);
+        return () => {
+            this.changeListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Called for every decoded message from the selected inputs
+     */
+    onMessage(listener: MidiMessageListener): () => void {
+        this.messageListeners.add(listener);
+        return () => {
+            this.messageListeners.delete(listener);
+        };
+    }
+
+    private bindInputs(): void {
+        this.unbindInputs();
+        if (!this.access || this.selectedDeviceId === null) return;
+
+        for (const input of this.access.inputs.values()) {
+            if (this.selectedDeviceId !== ALL_MIDI_INPUTS && input.id !== this.selectedDeviceId) continue;
+            input.onmidimessage = this.handleMidiMessage;
+            this.boundInputs.push(input);
+        }
+    }
+
+    private unbindInputs(): void {
+        this.boundInputs.forEach((input) => {
+            input.onmidimessage = null;
+        });
+        this.boundInputs = [];
+    }
+
+    private setStatus(status: MidiInputStatus): void {
+        this.status = status;
+        this.notifyChange();
+    }
+
+    private notifyChange(): void {
+        this.changeListeners.forEach((listener) => listener());
+    }
+
+    // ========================================
+    // Message Handling
+    // ========================================
+
+    private handleMidiMessage = (event: MIDIMessageEvent): void => {
+        const message = parseMidiMessage(event.data);
+        if (!message) return;
+
+        if (message.type === 'noteOn') {
+            this.monitorNoteOn(message.pitch, message.velocity);
+            this.recordNoteOn(message.pitch, message.velocity, event.timeStamp);
+        } else if (message.type === 'noteOff') {
+            this.monitorNoteOff(message.pitch);
+            this.recordNoteOff(message.pitch, event.timeStamp);
+        }
+
+        this.messageListeners.forEach((listener) => listener(message));
+    };
+
+    // ========================================
+    // Monitoring
+    // ========================================
+
+    /**
+     * Play incoming notes through a track's instrument and effects.
+     * Pass null to stop monitoring.
+     */
+    setMonitorTrack(track: Track | null): void {
+        const canMonitor = !!track && track.type !== 'audio' && track.type !== 'bus';
+        const key = canMonitor ? `${track.id}:${track.instrumentPreset ?? track.color}` : null;
+        if (key === this.monitorKey && (key === null || this.monitorSynth)) return;
+
+        this.disposeMonitorSynth();
+        this.monitorKey = key;
+        if (!track || !canMonitor) return;
+
+        const input = playoutManager.getTrackInput(track);
+        if (!input) return;
+
+        this.monitorSynth = createSynthForTrack(track);
+        this.monitorSynth.connect(input);
+        logger.debug('Monitoring track', { trackId: track.id });
+    }
+
+    private disposeMonitorSynth(): void {
+        if (!this.monitorSynth) return;
+
+        try {
+            if (this.monitorSynth instanceof Tone.PolySynth || this.monitorSynth instanceof Tone.Sampler) {
+                this.monitorSynth.releaseAll();
+            }
+        } finally {
+            this.monitorSynth.dispose();
+            this.monitorSynth = null;
+            this.monitorHeld.clear();
+        }
+    }
+
+    private monitorNoteOn(pitch: number, velocity: number): void {
+        const synth = this.monitorSynth;
+        if (!synth) return;
+
+        const now = Tone.now();
+        const frequency = Tone.Frequency(pitch, 'midi').toFrequency();
+        if (synth instanceof Tone.NoiseSynth) {
+            synth.triggerAttackRelease(ONE_SHOT_DURATION, now, velocity / 127);
+            return;
+        }
+
+        synth.triggerAttack(frequency, now, velocity / 127);
+        this.monitorHeld.add(pitch);
+    }
+
+    private monitorNoteOff(pitch: number): void {
+        const synth = this.monitorSynth;
+        if (!synth || !this.monitorHeld.delete(pitch)) return;
+
+        const now = Tone.now();
+        if (synth instanceof Tone.PolySynth || synth instanceof Tone.Sampler) {
+            synth.triggerRelease(Tone.Frequency(pitch, 'midi').toFrequency(), now);
+        } else if (!(synth instanceof Tone.NoiseSynth) && this.monitorHeld.size === 0) {
+            // Monophonic: release once the last held key is up
+            synth.triggerRelease(now);
+        }
+    }
+
+    // ========================================
+    // Recording
+    // ========================================
+
+    /**
+     * Record notes into a MIDI or drum track. With the loop on, passes are
+     * overdubbed into one clip spanning the loop; otherwise notes go into
+     * the clip under the playhead (or a new one) and it grows to fit.
+     */
+    async startRecording(trackId: string, countInBars: number = 0): Promise<void> {
+        if (this.session) {
+            logger.warn('Already recording');
+            return;
+        }
+
+        const playbackState = usePlaybackStore.getState();
+        const project = useProjectStore.getState().project;
+        if (!project) {
+            throw new Error('No project loaded');
+        }
+
+        const track = project.tracks.find((t) => t.id === trackId);
+        if (!track || track.type === 'audio' || track.type === 'bus') {
+            throw new Error('MIDI recording needs a MIDI or drum track');
+        }
+
+        // Handle count-in, leading up to the playhead (or the loop start)
+        if (countInBars > 0) {
+            usePlaybackStore.getState().setCountingIn(true);
+
+            const countInStartBar = (playbackState.loopEnabled
+                ? playbackState.loopStartBar
+                : audioEngine.secondsToBar(audioEngine.getCurrentTime())) - countInBars;
+            audioEngine.play(audioEngine.barToSeconds(countInStartBar));
+
+            const countInDuration = audioEngine.barsToSecondsAt(countInStartBar, countInBars) * 1000;
+
+            await new Promise<void>((resolve) => {
+                this.countInTimeoutId = setTimeout(() => {
+                    this.countInTimeoutId = null;
+                    usePlaybackStore.getState().setCountingIn(false);
+                    resolve();
+                }, countInDuration);
+            });
+        }
+
+        usePlaybackStore.getState().startRecording();
+
+        if (!playbackRefs.isPlayingRef.current) {
+            const initialPosition = playbackState.loopEnabled
+                ? audioEngine.barToSeconds(playbackState.loopStartBar)
+                : 0;
+            audioEngine.play(initialPosition);
+        }
+
+        // Anchor the clip where the running transport actually is, as RecordingManager does
+        const startBar = playbackState.loopEnabled
+            ? playbackState.loopStartBar
+            : audioEngine.secondsToBar(audioEngine.getCurrentTime());
+
+        const clip = this.getTargetClip(track, startBar, playbackState.loopEnabled
+            ? { startBar: playbackState.loopStartBar, endBar: playbackState.loopEndBar }
+            : null);
+
+        this.session = {
+            trackId,
+            clipId: clip.id,
+            loop: playbackState.loopEnabled
+                ? {
+                    startSeconds: audioEngine.barToSeconds(playbackState.loopStartBar),
+                    endSeconds: audioEngine.barToSeconds(playbackState.loopEndBar),
+                }
+                : null,
+            heldNotes: new Map(),
+        };
+
+        logger.info('MIDI recording started', { trackId, clipId: clip.id, startBar });
+    }
+
+    /**
+     * Stop recording, closing any held notes at the current position
+     */
+    async stopRecording(): Promise<void> {
+        if (this.countInTimeoutId) {
+            clearTimeout(this.countInTimeoutId);
+            this.countInTimeoutId = null;
+            usePlaybackStore.getState().setCountingIn(false);
+        }
+
+        const session = this.session;
+        if (session) {
+            const position = this.getTransportPosition();
+            session.heldNotes.forEach((held, pitch) => this.commitNote(session, pitch, held, position));
+            this.session = null;
+            logger.info('MIDI recording stopped', { clipId: session.clipId });
+        }
+
+        audioEngine.stop();
+        usePlaybackStore.getState().stopRecording();
+        usePlaybackStore.getState().stop();
+    }
+
+    /**
+     * Cancel a count-in or recording, dropping held notes
+     */
+    cancelRecording(): void {
+        if (this.countInTimeoutId) {
+            clearTimeout(this.countInTimeoutId);
+            this.countInTimeoutId = null;
+            usePlaybackStore.getState().setCountingIn(false);
+        }
+
+        if (this.session) {
+            this.session = null;
+            usePlaybackStore.getState().stopRecording();
+        }
+    }
+
+    isRecording(): boolean {
+        return this.session !== null;
+    }
+
+    /**
+     * Clip to record into: the loop's clip (or the clip covering the
+     * start) if the track has one, otherwise a new clip
+     */
+    private getTargetClip(track: Track, startBar: number, loop: { startBar: number; endBar: number } | null): Clip {
+        const projectStore = useProjectStore.getState();
+        const clips = projectStore.project?.clips.filter(
+            (c) => c.trackId === track.id && (c.type === 'midi' || c.type === 'drum')
+        ) ?? [];
+
+        if (loop) {
+            const existing = clips.find(
+                (c) => c.startBar <= loop.startBar && c.startBar + c.lengthBars >= loop.endBar
+            );
+            if (existing) return existing;
+            return projectStore.addClip(track.id, getClipType(track), loop.startBar, loop.endBar - loop.startBar);
+        }
+
+        const existing = clips.find((c) => c.startBar <= startBar && c.startBar + c.lengthBars > startBar);
+        if (existing) return existing;
+        return projectStore.addClip(track.id, getClipType(track), Math.floor(startBar), 1);
+    }
+
+    private recordNoteOn(pitch: number, velocity: number, timeStamp: number): void {
+        if (!this.session) return;
+        this.session.heldNotes.set(pitch, { position: this.getTransportPosition(timeStamp), velocity });
+    }
+
+    private recordNoteOff(pitch: number, timeStamp: number): void {
+        const session = this.session;
+        const held = session?.heldNotes.get(pitch);
+        if (!session || !held) return;
+
+        session.heldNotes.delete(pitch);
+        this.commitNote(session, pitch, held, this.getTransportPosition(timeStamp));
+    }
+
+    private commitNote(session: MidiRecordingSession, pitch: number, held: HeldNote, endPosition: number): void {
+        const projectStore = useProjectStore.getState();
+        const project = projectStore.project;
+        const clip = project?.clips.find((c) => c.id === session.clipId);
+        if (!project || !clip) return;
+
+        const tempoMap = getTempoMap(project);
+
+        // A note held across the loop point ends at the loop end
+        let end = endPosition;
+        if (session.loop && end < held.position) {
+            end = session.loop.endSeconds;
+        }
+
+        const clipStartBeat = tempoMap.barToBeat(clip.startBar);
+        const startBeat = tempoMap.secondsToBeat(held.position) - clipStartBeat;
+        const duration = Math.max(MIN_NOTE_BEATS, tempoMap.secondsToBeat(end) - tempoMap.secondsToBeat(held.position));
+        if (startBeat < 0) return;
+
+        projectStore.addNote(clip.id, {
+            pitch,
+            startBeat,
+            duration,
+            velocity: held.velocity,
+        });
+
+        // Grow a free-running clip to cover the note
+        if (!session.loop) {
+            const endBar = tempoMap.beatToBar(clipStartBeat + startBeat + duration);
+            const lengthBars = Math.ceil(endBar - clip.startBar);
+            if (lengthBars > clip.lengthBars) {
+                projectStore.updateClip(clip.id, { lengthBars });
+            }
+        }
+    }
+
+    /**
+     * Transport position (seconds) when an event happened. MIDI timestamps
+     * share performance.now()'s clock, so the age of the event is taken off
+     * the audio clock before asking the transport where it was.
+     */
+    private getTransportPosition(timeStamp?: number): number {
+        const transport = Tone.getTransport();
+        const context = Tone.getContext();
+        const age = timeStamp !== undefined && typeof performance !== 'undefined'
+            ? Math.max(0, (performance.now() - timeStamp) / 1000)
+            : 0;
+        return transport.getSecondsAtTime(Math.max(0, context.currentTime - age));
+    }
+}
+
+function getClipType(track: Track): 'midi' | 'drum' {
+    return track.type === 'drum' || track.color === 'drums' ? 'drum' : 'midi';
+}
+
+// ============================================
+// Singleton Export
+// ============================================
+
+export const midiInput = new MidiInputManager();
@@ -0,0 +1,216 @@
+// ============================================
+// ComposeYogi — MIDI Learn
+// CC mappings to mixer, effect and transport controls
+// ============================================
+
+import { v4 as uuid } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import { getSetting, setSetting } from '@/lib/persistence';
+import { useProjectStore } from '@/lib/store/project';
+import {
+    AUTOMATABLE_EFFECT_PARAMS,
+    getAutomatableParams,
+    getAutomationTargets,
+    parseAutomationTarget,
+    type AutomationParamSpec,
+    type AutomationTargetOption,
+} from './automation';
+import type { AutomationTarget, Project, Track, TrackEffect, TrackEffectType } from '@/types';
+
+const logger = createLogger('MidiLearn');
+
+// ============================================
+// Types
+// ============================================
+
+export type MidiTransportAction = 'playPause' | 'stop' | 'record';
+
+export type MidiMappingTarget =
+    | { kind: 'track'; trackId: string; target: AutomationTarget }
+    | { kind: 'transport'; action: MidiTransportAction };
+
+export interface MidiMapping {
+    id: string;
+    channel: number;       // 0-15
+    controller: number;    // CC number 0-127
+    target: MidiMappingTarget;
+    min: number;           // Value at CC 0
+    max: number;           // Value at CC 127
+}
+
+export const MIDI_TRANSPORT_ACTIONS: { action: MidiTransportAction; label: string }[] = [
+    { action: 'playPause', label: 'Play/Pause' },
+    { action: 'stop', label: 'Stop' },
+    { action: 'record', label: 'Record' },
+];
+
+// CC values at or above this press a transport button
+export const MIDI_BUTTON_THRESHOLD = 64;
+
+/**
+ * Effect parameters that can't be automated (they aren't Tone params) but
+ * are fine to move from a controller
+ */
+const EXTRA_EFFECT_PARAMS: Partial<Record<TrackEffectType, AutomationParamSpec[]>> = {
+    reverb: [{ param: 'decay', label: 'Decay', min: 0.1, max: 10 }],
+    distortion: [{ param: 'distortion', label: 'Drive', min: 0, max: 1 }],
+    'parametric-eq': [1, 2, 3, 4, 5].flatMap((band) => [
+        { param: `band${band}Frequency`, label: `Band ${band} Freq`, min: 20, max: 20000 },
+        { param: `band${band}Q`, label: `Band ${band} Q`, min: 0.1, max: 10 },
+    ]),
+    chorus: [
+        { param: 'depth', label: 'Depth', min: 0, max: 1 },
+        { param: 'delayTime', label: 'Delay', min: 1, max: 20 },
+    ],
+    phaser: [
+        { param: 'octaves', label: 'Octaves', min: 1, max: 6 },
+        { param: 'baseFrequency', label: 'Base', min: 100, max: 2000 },
+    ],
+    tremolo: [{ param: 'spread', label: 'Stereo Spread', min: 0, max: 180 }],
+    gate: [
+        { param: 'threshold', label: 'Threshold', min: -80, max: 0 },
+        { param: 'smoothing', label: 'Smoothing', min: 0.01, max: 0.5 },
+    ],
+};
+
+// ============================================
+// Targets
+// ============================================
+
+/**
+ * Params of an effect only a controller can move: the extras above plus any
+ * automation leaves out for this effect (a sidechained compressor's curve)
+ */
+function getExtraEffectParams(effect: TrackEffect): AutomationParamSpec[] {
+    const automatable = new Set(getAutomatableParams(effect).map((spec) => spec.param));
+    const unautomated = (AUTOMATABLE_EFFECT_PARAMS[effect.type] || []).filter((spec) => !automatable.has(spec.param));
+    return [...(EXTRA_EFFECT_PARAMS[effect.type] || []), ...unautomated];
+}
+
+/**
+ * Every control on a track a CC can drive: the automation targets plus
+ * the extra effect parameters above
+ */
+export function getMidiLearnTargets(track: Track): AutomationTargetOption[] {
+    const options = getAutomationTargets(track);
+
+    (track.effects || []).forEach((effect, index) => {
+        for (const spec of getExtraEffectParams(effect)) {
+            options.push({
+                target: `${effect.id}.${spec.param}`,
+                label: `${index + 1}. ${effect.type} ${spec.label}`,
+                min: spec.min,
+                max: spec.max,
+            });
+        }
+    });
+
+    return options;
+}
+
+export function isSameMidiTarget(a: MidiMappingTarget, b: MidiMappingTarget): boolean {
+    if (a.kind === 'transport') {
+        return b.kind === 'transport' && a.action === b.action;
+    }
+    return b.kind === 'track' && a.trackId === b.trackId && a.target === b.target;
+}
+
+/**
+ * Human-readable target name, or null when its track or effect is gone
+ */
+export function getMidiTargetLabel(project: Project, target: MidiMappingTarget): string | null {
+    if (target.kind === 'transport') {
+        return MIDI_TRANSPORT_ACTIONS.find((a) => a.action === target.action)?.label ?? null;
+    }
+
+    const track = project.tracks.find((t) => t.id === target.trackId);
+    const option = track && getMidiLearnTargets(track).find((o) => o.target === target.target);
+    return track && option ? `${track.name} — ${option.label}` : null;
+}
+
+/**
+ * Create a mapping for a learned CC. Track targets span their full
+ * automation range; transport targets are buttons.
+ */
+export function createMidiMapping(
+    project: Project,
+    target: MidiMappingTarget,
+    channel: number,
+    controller: number
+): MidiMapping | null {
+    let min = 0;
+    let max = 1;
+
+    if (target.kind === 'track') {
+        const track = project.tracks.find((t) => t.id === target.trackId);
+        const option = track && getMidiLearnTargets(track).find((o) => o.target === target.target);
+        if (!option) return null;
+        min = option.min;
+        max = option.max;
+    }
+
+    return { id: uuid(), channel, controller, target, min, max };
+}
+
+/**
+ * Scale a CC value (0-127) into a mapping's range
+ */
+export function scaleMidiValue(mapping: MidiMapping, value: number): number {
+    return mapping.min + (Math.max(0, Math.min(127, value)) / 127) * (mapping.max - mapping.min);
+}
+
+/**
+ * Set a track's volume, pan or effect parameter from a mapped control
+ */
+export function applyTrackTargetValue(trackId: string, target: AutomationTarget, value: number): void {
+    const projectStore = useProjectStore.getState();
+    const track = projectStore.project?.tracks.find((t) => t.id === trackId);
+    if (!track) return;
+
+    const parsed = parseAutomationTarget(target);
+    switch (parsed.kind) {
+        case 'volume':
+            projectStore.updateTrack(trackId, { volume: value });
+            break;
+        case 'pan':
+            projectStore.updateTrack(trackId, { pan: value });
+            break;
+        case 'effect': {
+            const effect = track.effects?.find((e) => e.id === parsed.effectId);
+            if (effect) {
+                projectStore.updateTrackEffect(trackId, effect.id, {
+                    params: { ...effect.params, [parsed.param]: value },
+                });
+            }
+            break;
+        }
+    }
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+const SETTINGS_KEY = 'midiMappings';
+
+/** Load MIDI mappings from IndexedDB */
+export async function loadMidiMappings(): Promise<MidiMapping[]> {
+    try {
+        const saved = await getSetting<MidiMapping[]>(SETTINGS_KEY, []);
+        logger.debug('Loaded MIDI mappings', { count: saved.length });
+        return saved;
+    } catch (err) {
+        logger.error('Failed to load MIDI mappings', err);
+        return [];
+    }
+}
+
+/** Save MIDI mappings to IndexedDB */
+export async function saveMidiMappings(mappings: MidiMapping[]): Promise<void> {
+    try {
+        await setSetting(SETTINGS_KEY, mappings);
+        logger.debug('Saved MIDI mappings', { count: mappings.length });
+    } catch (err) {
+        logger.error('Failed to save MIDI mappings', err);
+    }
+}
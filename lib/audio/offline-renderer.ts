@@ -1,573 +1,403 @@
 // ============================================
 // ComposeYogi — Offline Audio Renderer
-// Export project to WAV/MP3 with real-time progress
+// Export project to WAV, compressed formats and stems
+// with real-time progress
 // ============================================
 
 import * as Tone from 'tone';
-import type { Project, Track, Clip, TrackEffect } from '@/types';
-import { getAudioTake } from './recording-manager';
-import { createSynthFromPreset, waitForSynthReady, type SynthType } from './synth-presets';
-import { encodeAudioBufferToMp3, type Mp3Quality } from './mp3-encoder';
+import type { Project, Track } from '@/types';
+import { encodeAudioBuffer, getExportEncoder } from './audio-encoders';
+import { createWavMetadataChunks, resolveExportMetadata } from './audio-metadata';
+import { getPlaybackProject } from './freeze';
+import { measureLoudness, normalizeAudioBuffer, type NormalizeOptions, type NormalizeResult } from './loudness';
+import { getMasterBus } from './master-bus';
+import type { Mp3Quality } from './mp3-encoder';
+import { RenderGraph, getProjectEndBar } from './render-graph';
+import { resampleAudioBuffer } from './resampler';
+import { getTempoMap } from './tempo-map';
+import { encodeAudioBufferToWav, type WavEncoderOptions } from './wav-encoder';
+import { createZip, type ZipEntry } from './zip-writer';
 
 // ============================================
 // Types
 // ============================================
 
 export interface ExportOptions {
-    sampleRate?: number;
-    tailSeconds?: number;  // Extra time for reverb/delay tails
+    sampleRate?: number;            // Output rate; resampled from the render rate when different
+    tailSeconds?: number;           // Extra time for reverb/delay tails
+    duration?: number;              // Fixed render length in seconds, tail included
+    range?: ExportRange;            // Defaults to the whole song
+    normalize?: NormalizeOptions;
+    dither?: boolean;               // TPDF dither when quantizing to integer samples (WAV, FLAC)
+    onNormalize?: (result: NormalizeResult) => void;  // E.g. to warn when a LUFS target was capped
 }
 
-export type ProgressCallback = (progress: number) => void;
+export type WavExportOptions = ExportOptions & WavEncoderOptions;
 
-// ============================================
-// WAV Encoder (Pure JavaScript)
-// ============================================
+export type ExportRangeMode = 'song' | 'loop' | 'selection';
 
-/**
- * Convert AudioBuffer to WAV Blob
- * No external dependencies needed - WAV is just a header + PCM data
- */
-function audioBufferToWav(buffer: AudioBuffer): Blob {
-    const numChannels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const format = 1; // PCM
-    const bitDepth = 16;
-
-    // Interleave channels
-    const length = buffer.length * numChannels * (bitDepth / 8);
-    const arrayBuffer = new ArrayBuffer(44 + length);
-    const view = new DataView(arrayBuffer);
-
-    // WAV header
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + length, true);
-    writeString(view, 8, 'WAVE');
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // Subchunk1Size (16 for PCM)
-    view.setUint16(20, format, true);
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numChannels * (bitDepth / 8), true); // ByteRate
-    view.setUint16(32, numChannels * (bitDepth / 8), true); // BlockAlign
-    view.setUint16(34, bitDepth, true);
-    writeString(view, 36, 'data');
-    view.setUint32(40, length, true);
-
-    // Interleave and write samples
-    const channels: Float32Array[] = [];
-    for (let i = 0; i < numChannels; i++) {
-        channels.push(buffer.getChannelData(i));
-    }
-
-    let offset = 44;
-    for (let i = 0; i < buffer.length; i++) {
-        for (let ch = 0; ch < numChannels; ch++) {
-            const sample = Math.max(-1, Math.min(1, channels[ch][i]));
-            const int16 = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-            view.setInt16(offset, int16, true);
-            offset += 2;
-        }
-    }
+export interface ExportRange {
+    startBar: number;
+    endBar: number;
+    clipIds?: string[];   // Only these clips are rendered
+}
 
-    return new Blob([arrayBuffer], { type: 'audio/wav' });
+export interface StemExportOptions extends WavExportOptions {
+    trackIds?: string[];      // Defaults to every unmuted stem track
+    dry?: boolean;            // Bypass track effects and bus sends
+    includeMaster?: boolean;  // Print the master chain onto every stem
 }
 
-function writeString(view: DataView, offset: number, str: string): void {
-    for (let i = 0; i < str.length; i++) {
-        view.setUint8(offset + i, str.charCodeAt(i));
-    }
+export interface StemManifest {
+    project: string;
+    bpm: number;
+    key: string;
+    scale: string;
+    timeSignature: string;
+    tempoMap?: Project['tempoMap'];
+    sampleRate: number;
+    bitDepth: number;
+    startBar: number;     // 1-based, where every stem begins
+    lengthSeconds: number;
+    dry: boolean;
+    includeMaster: boolean;
+    stems: { file: string; trackId: string; trackName: string; trackType: Track['type'] }[];
 }
 
+export type ProgressCallback = (progress: number) => void;
+
 // ============================================
-// Timing Utilities
+// Main Export Function
 // ============================================
 
-function barsToSeconds(bars: number, bpm: number, beatsPerBar: number): number {
-    const beatsPerSecond = bpm / 60;
-    const secondsPerBeat = 1 / beatsPerSecond;
-    return bars * beatsPerBar * secondsPerBeat;
-}
-
-function beatsToSeconds(beats: number, bpm: number): number {
-    return (beats / bpm) * 60;
+/**
+ * Export project to WAV using Tone.Offline for proper offline rendering
+ * Tone.Offline handles context switching and transport synchronization correctly.
+ * The file is tagged with the project's export metadata.
+ */
+export async function exportProjectToWav(
+    project: Project,
+    onProgress?: ProgressCallback,
+    options: WavExportOptions = {}
+): Promise<Blob> {
+    const audioBuffer = await renderProjectToAudioBuffer(project, onProgress, options);
+    const chunks = createWavMetadataChunks(resolveExportMetadata(project), {
+        sampleRate: audioBuffer.sampleRate,
+        bitDepth: options.bitDepth ?? 16,
+        channels: audioBuffer.numberOfChannels,
+        loudness: measureLoudness(audioBuffer),
+    });
+    return encodeAudioBufferToWav(audioBuffer, { ...options, chunks });
 }
 
 // ============================================
-// Effect Creation (Mirrors playout.ts)
+// Download Helper
 // ============================================
 
-async function createEffectNode(effect: TrackEffect): Promise<Tone.ToneAudioNode | null> {
-    try {
-        switch (effect.type) {
-            case 'reverb':
-                const rev = new Tone.Reverb({
-                    decay: effect.params.decay || 1.5,
-                    preDelay: 0.01,
-                    wet: effect.params.wet || 0.5
-                });
-                // IMPORTANT: Wait for impulse response generation for offline rendering
-                await rev.generate();
-                return rev;
-            case 'delay':
-                return new Tone.FeedbackDelay({
-                    delayTime: effect.params.delayTime || 0.25,
-                    feedback: effect.params.feedback || 0.5,
-                    wet: effect.params.wet || 0.5
-                });
-            case 'distortion':
-                return new Tone.Distortion({
-                    distortion: effect.params.distortion || 0.4,
-                    wet: effect.params.wet || 0.5
-                });
-            case 'filter':
-                return new Tone.Filter({
-                    frequency: effect.params.frequency || 1000,
-                    type: effect.params.filterType || 'lowpass',
-                    Q: effect.params.Q || 1
-                });
-            case 'compression':
-                return new Tone.Compressor({
-                    threshold: effect.params.threshold || -30,
-                    ratio: effect.params.ratio || 12
-                });
-            default:
-                return null;
-        }
-    } catch (e) {
-        console.error('[OfflineRenderer] Error creating effect:', e);
-        return null;
-    }
+/**
+ * Export project and trigger browser download as WAV
+ */
+export async function downloadProjectAsWav(
+    project: Project,
+    onProgress?: ProgressCallback,
+    options: WavExportOptions = {}
+): Promise<void> {
+    const blob = await exportProjectToWav(project, onProgress, options);
+    downloadBlob(blob, `${sanitizeFilename(project.name)}.wav`);
 }
 
-// ============================================
-// Synth Selection (Mirrors playout.ts)
-// ============================================
+/**
+ * Export project and trigger browser download as MP3
+ */
+export async function downloadProjectAsMp3(
+    project: Project,
+    quality: Mp3Quality = 192,
+    onProgress?: ProgressCallback,
+    options: ExportOptions = {}
+): Promise<void> {
+    await downloadProjectEncoded(project, 'mp3', quality, onProgress, options);
+}
 
-function createSynthForTrack(track: Track): SynthType {
-    if (track.instrumentPreset) {
-        return createSynthFromPreset(track.instrumentPreset);
+/**
+ * Export project with a registered encoder (see audio-encoders) and
+ * trigger the download
+ */
+export async function downloadProjectEncoded(
+    project: Project,
+    encoderId: string,
+    quality?: number,
+    onProgress?: ProgressCallback,
+    options: ExportOptions = {}
+): Promise<void> {
+    const encoder = getExportEncoder(encoderId);
+    if (!encoder) {
+        throw new Error(`Unknown export format: ${encoderId}`);
     }
 
-    switch (track.color) {
-        case 'bass':
-            return createSynthFromPreset('synth-bass');
-        case 'keys':
-            return createSynthFromPreset('electric-piano');
-        case 'melody':
-            return createSynthFromPreset('saw-lead');
-        case 'drums':
-            return createSynthFromPreset('drum-synth');
-        case 'fx':
-            return createSynthFromPreset('warm-pad');
-        case 'vocals':
-        default:
-            return createSynthFromPreset('basic-synth');
-    }
+    // Step 1: Render audio (0-50% progress)
+    const renderProgress = (p: number) => onProgress?.(Math.round(p * 0.5));
+    const audioBuffer = await renderProjectToAudioBuffer(project, renderProgress, options);
+
+    // Step 2: Encode in the worker (50-100% progress)
+    const encodeProgress = (p: number) => onProgress?.(50 + Math.round(p * 0.5));
+    const encoded = await encodeAudioBuffer(audioBuffer, encoderId, quality, encodeProgress, { dither: options.dither });
+    const blob = encoder.addMetadata
+        ? await encoder.addMetadata(encoded, resolveExportMetadata(project))
+        : encoded;
+
+    downloadBlob(blob, `${sanitizeFilename(project.name)}.${encoder.extension}`);
 }
 
-// ============================================
-// Main Export Function
-// ============================================
+/**
+ * Export stems and trigger browser download as a ZIP
+ */
+export async function downloadProjectStems(
+    project: Project,
+    options: StemExportOptions = {},
+    onProgress?: ProgressCallback
+): Promise<void> {
+    const blob = await exportProjectStems(project, onProgress, options);
+    downloadBlob(blob, `${sanitizeFilename(project.name)}_stems.zip`);
+}
 
 /**
- * Export project to WAV using Tone.Offline for proper offline rendering
- * Tone.Offline handles context switching and transport synchronization correctly
+ * Render project to AudioBuffer (reusable for WAV and MP3)
+ * Builds the same RenderGraph as live playout inside the offline context,
+ * then resamples and normalizes when asked to
  */
-export async function exportProjectToWav(
+export async function renderProjectToAudioBuffer(
     project: Project,
     onProgress?: ProgressCallback,
     options: ExportOptions = {}
-): Promise<Blob> {
-    const {
-        tailSeconds = 2,
-    } = options;
-
-    // 1. Calculate total duration
-    const maxBar = project.clips.reduce((max, clip) => {
-        return Math.max(max, clip.startBar + clip.lengthBars);
-    }, 0);
-
-    const beatsPerBar = project.timeSignature[0];
-    const duration = barsToSeconds(maxBar, project.bpm, beatsPerBar) + tailSeconds;
+): Promise<AudioBuffer> {
+    const { range, sampleRate, normalize, onNormalize } = options;
+    // Frozen tracks render from their freeze, unless only some of their clips are wanted
+    const rendered = range?.clipIds
+        ? { ...project, clips: project.clips.filter((clip) => range.clipIds?.includes(clip.id)) }
+        : getPlaybackProject(project);
 
-    if (duration <= tailSeconds) {
+    if (rendered.clips.length === 0) {
         throw new Error('Project has no clips to export');
     }
 
+    // Calculate total duration (tempo changes included)
+    const duration = options.duration ?? getRenderDuration(project, options);
+    const offset = getTempoMap(project).barToSeconds(range?.startBar ?? 0);
+    const resample = !!sampleRate && sampleRate !== Tone.getContext().sampleRate;
+    const renderShare = resample ? 0.6 : 1;
+
     onProgress?.(0);
 
-    // 2. Use Tone.Offline for proper offline rendering
+    // Use Tone.Offline for proper offline rendering
     // This handles context switching and transport sync correctly
     const renderedBuffer = await Tone.Offline(async ({ transport }) => {
         // Set up transport
         transport.bpm.value = project.bpm;
         transport.timeSignature = project.timeSignature;
 
-        // Create master chain: masterGain -> limiter -> destination
-        const masterLimiter = new Tone.Limiter(-1);
-        masterLimiter.toDestination();
-
-        const masterGain = new Tone.Gain(0.8);
-        masterGain.connect(masterLimiter);
-
-        // Process each track
-        for (const track of project.tracks) {
-            if (track.muted) continue;
-
-            // Build track chain: input -> effects -> gain -> pan -> masterGain
-            const panner = new Tone.Panner(track.pan);
-            panner.connect(masterGain);
-
-            const gain = new Tone.Gain(track.volume);
-            gain.connect(panner);
-
-            // Build effects chain
-            let chainInput: Tone.ToneAudioNode = gain;
-            if (track.effects && track.effects.length > 0) {
-                const activeEffects = track.effects.filter(e => e.active);
-
-                const effectNodes: Tone.ToneAudioNode[] = [];
-                for (const effect of activeEffects) {
-                    const node = await createEffectNode(effect);
-                    if (node) {
-                        effectNodes.push(node);
-                    }
-                }
-
-                if (effectNodes.length > 0) {
-                    const entryGain = new Tone.Gain(1);
-                    let current: Tone.ToneAudioNode = entryGain;
-                    for (const effectNode of effectNodes) {
-                        current.connect(effectNode);
-                        current = effectNode;
-                    }
-                    current.connect(gain);
-                    chainInput = entryGain;
-                }
-            }
-
-            // Schedule clips for this track
-            const trackClips = project.clips.filter(c => c.trackId === track.id);
-
-            for (const clip of trackClips) {
-                const clipStartSeconds = barsToSeconds(clip.startBar, project.bpm, beatsPerBar);
-
-                if (clip.type === 'audio' && clip.activeTakeId) {
-                    await scheduleAudioClipForOffline(
-                        clip,
-                        chainInput,
-                        clipStartSeconds,
-                        project,
-                        transport
-                    );
-                } else if ((clip.type === 'midi' || clip.type === 'drum') && clip.notes) {
-                    await scheduleMidiClipForOffline(
-                        clip,
-                        track,
-                        chainInput,
-                        clipStartSeconds,
-                        project,
-                        transport
-                    );
-                }
-            }
-        }
+        const graph = new RenderGraph(Tone.getDestination());
+        await graph.scheduleProject(rendered);
 
-        // Start transport - Tone.Offline will handle the rendering
-        transport.start(0);
+        // IMPORTANT: Wait for reverb impulse responses before rendering
+        await graph.ready();
 
+        // Start transport - Tone.Offline will handle the rendering
+        transport.start(0, offset);
     }, duration);
 
-    onProgress?.(100);
+    onProgress?.(Math.round(renderShare * 100));
 
-    // 3. Convert to WAV (get the underlying AudioBuffer from ToneAudioBuffer)
-    const wavBlob = audioBufferToWav(renderedBuffer.get() as AudioBuffer);
-    return wavBlob;
-}
+    // Render at the context's rate so the mix matches playback, then convert
+    let buffer = renderedBuffer.get() as AudioBuffer;
+    if (resample) {
+        buffer = await resampleAudioBuffer(buffer, sampleRate, (p) => {
+            onProgress?.(Math.round((renderShare + (p / 100) * (1 - renderShare)) * 100));
+        });
+    }
 
-// ============================================
-// Audio Clip Scheduling (for Tone.Offline)
-// ============================================
+    if (normalize) {
+        onNormalize?.(normalizeAudioBuffer(buffer, normalize));
+    }
 
-async function scheduleAudioClipForOffline(
-    clip: Clip,
-    destination: Tone.ToneAudioNode,
-    startTime: number,
-    _project: Project,
-    _transport: typeof Tone.Transport
-): Promise<void> {
-    if (!clip.activeTakeId) return;
+    onProgress?.(100);
 
-    const take = getAudioTake(clip.activeTakeId);
-    if (!take) {
-        console.warn('[OfflineRenderer] AudioTake not found:', clip.activeTakeId);
-        return;
-    }
+    return buffer;
+}
 
-    try {
-        // Create a proper ArrayBuffer copy from Uint8Array
-        const arrayBuffer = new ArrayBuffer(take.audioData.byteLength);
-        new Uint8Array(arrayBuffer).set(take.audioData);
-
-        // Decode using the Tone.js context (works in offline context)
-        const audioCtx = Tone.getContext().rawContext;
-        const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-        const buffer = new Tone.ToneAudioBuffer(audioBuffer);
-
-        // Create player
-        const player = new Tone.Player(buffer);
-        player.connect(destination);
-
-        // Apply fades
-        player.fadeIn = clip.fadeIn || 0;
-        player.fadeOut = clip.fadeOut || 0;
-
-        // Calculate trim/duration
-        const trimStart = clip.trimStart || 0;
-        const trimEnd = clip.trimEnd || 0;
-        const sourceDuration = buffer.duration;
-        const playDuration = Math.max(0, sourceDuration - trimStart - trimEnd);
-
-        if (playDuration > 0) {
-            // Sync to transport and schedule
-            player.sync();
-            player.start(startTime, trimStart, playDuration);
-        }
-
-    } catch (error) {
-        console.error('[OfflineRenderer] Failed to schedule audio clip:', error);
+/**
+ * Length of the export range plus tail; the whole song from bar 1 by default
+ */
+function getRenderDuration(project: Project, options: ExportOptions): number {
+    const { tailSeconds = 2, range } = options;
+    const tempoMap = getTempoMap(project);
+
+    if (!range) {
+        return tempoMap.barToSeconds(getProjectEndBar(project)) + tailSeconds;
     }
+    return tempoMap.barToSeconds(range.endBar) - tempoMap.barToSeconds(range.startBar) + tailSeconds;
 }
 
-// ============================================
-// MIDI Clip Scheduling (for Tone.Offline)
-// ============================================
-
-async function scheduleMidiClipForOffline(
-    clip: Clip,
-    track: Track,
-    destination: Tone.ToneAudioNode,
-    startTime: number,
+/**
+ * Bars to export for a range mode: the loop braces, or the span of the
+ * selected clips (rendered on their own). Null when the mode has nothing
+ * to export, e.g. no clips selected.
+ */
+export function getExportRange(
     project: Project,
-    transport: typeof Tone.Transport
-): Promise<void> {
-    if (!clip.notes?.length) return;
-
-    // Prefer clip-level instrument preset, fall back to track
-    const synth = clip.instrumentPreset
-        ? createSynthFromPreset(clip.instrumentPreset)
-        : createSynthForTrack(track);
-    synth.connect(destination);
-
-    // Wait for synth to be ready (important for Sampler which loads async)
-    await waitForSynthReady(synth);
-
-    // Check if synth is polyphonic
-    const isPolyphonic = synth instanceof Tone.PolySynth || synth instanceof Tone.Sampler;
-
-    // Group notes by start time to handle concurrent notes for monophonic synths
-    const notesByTime = new Map<number, typeof clip.notes>();
-    for (const note of clip.notes) {
-        const noteOffsetSeconds = beatsToSeconds(note.startBeat, project.bpm);
-        const absoluteTime = startTime + noteOffsetSeconds;
-        const timeKey = Math.round(absoluteTime * 10000) / 10000;
-
-        if (!notesByTime.has(timeKey)) {
-            notesByTime.set(timeKey, []);
-        }
-        notesByTime.get(timeKey)!.push(note);
+    mode: ExportRangeMode,
+    context: { loopStartBar: number; loopEndBar: number; selectedClipIds: string[] }
+): ExportRange | null {
+    if (mode === 'song') {
+        const endBar = getProjectEndBar(project);
+        return endBar > 0 ? { startBar: 0, endBar } : null;
     }
 
-    // Schedule notes using the provided transport
-    for (const [timeKey, notes] of notesByTime) {
-        notes.forEach((note, index) => {
-            const noteDurationSeconds = beatsToSeconds(note.duration, project.bpm);
-            const offset = isPolyphonic ? 0 : index * 0.001;
-            const scheduledTime = timeKey + offset;
-
-            transport.schedule((time) => {
-                if (synth instanceof Tone.NoiseSynth) {
-                    // NoiseSynth has no pitch — just trigger duration and velocity
-                    synth.triggerAttackRelease(
-                        noteDurationSeconds,
-                        time,
-                        note.velocity / 127
-                    );
-                } else {
-                    synth.triggerAttackRelease(
-                        Tone.Frequency(note.pitch, 'midi').toFrequency(),
-                        noteDurationSeconds,
-                        time,
-                        note.velocity / 127
-                    );
-                }
-            }, scheduledTime);
-        });
+    if (mode === 'loop') {
+        return context.loopEndBar > context.loopStartBar
+            ? { startBar: context.loopStartBar, endBar: context.loopEndBar }
+            : null;
     }
+
+    const clips = project.clips.filter((clip) => context.selectedClipIds.includes(clip.id));
+    if (clips.length === 0) return null;
+
+    return {
+        startBar: Math.min(...clips.map((clip) => clip.startBar)),
+        endBar: Math.max(...clips.map((clip) => clip.startBar + clip.lengthBars)),
+        clipIds: clips.map((clip) => clip.id),
+    };
 }
 
 // ============================================
-// Download Helper
+// Stems
 // ============================================
 
 /**
- * Export project and trigger browser download as WAV
+ * Tracks that can be exported as stems. Buses are printed into the stems
+ * of the tracks that send to them rather than exported on their own.
  */
-export async function downloadProjectAsWav(
-    project: Project,
-    onProgress?: ProgressCallback
-): Promise<void> {
-    const blob = await exportProjectToWav(project, onProgress);
-
-    // Trigger download
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${sanitizeFilename(project.name)}.wav`;
-
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    URL.revokeObjectURL(url);
+export function getStemTracks(project: Project): Track[] {
+    return project.tracks.filter((track) => track.type !== 'bus');
 }
 
 /**
- * Export project and trigger browser download as MP3
+ * Copy of the project in which only one track is heard. The track is soloed
+ * rather than cut out, so buses it sends to keep working, and tracks keying
+ * its sidechains still play into their key taps (ahead of solo) without
+ * reaching the stem, so it ducks exactly as in the mix.
  */
-export async function downloadProjectAsMp3(
-    project: Project,
-    quality: Mp3Quality = 192,
-    onProgress?: ProgressCallback
-): Promise<void> {
-    // Step 1: Render audio (0-50% progress)
-    const renderProgress = (p: number) => onProgress?.(Math.round(p * 0.5));
-    const audioBuffer = await renderProjectToAudioBuffer(project, renderProgress);
-
-    // Step 2: Encode to MP3 (50-100% progress)
-    const encodeProgress = (p: number) => onProgress?.(50 + Math.round(p * 0.5));
-    const blob = await encodeAudioBufferToMp3(audioBuffer, {
-        quality,
-        onProgress: encodeProgress,
-    });
-
-    // Trigger download
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${sanitizeFilename(project.name)}.mp3`;
-
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    URL.revokeObjectURL(url);
+function getStemProject(project: Project, trackId: string, options: StemExportOptions): Project {
+    const { dry = false, includeMaster = true } = options;
+    const master = getMasterBus(project);
+
+    return {
+        ...project,
+        tracks: project.tracks.map((track) => {
+            if (track.id !== trackId) return { ...track, solo: false };
+
+            return {
+                ...track,
+                solo: true,
+                muted: false,
+                ...(dry && {
+                    effects: track.effects?.map((effect) => ({ ...effect, active: false })),
+                    sends: [],
+                    freeze: undefined,      // The freeze has the effects printed in
+                }),
+            };
+        }),
+        master: includeMaster ? master : { ...master, effects: [] },
+    };
 }
 
 /**
- * Render project to AudioBuffer (reusable for WAV and MP3)
+ * Render each selected track through its own chain into a ZIP of WAV files.
+ * Every stem starts at bar 1 (or the start of the export range) and shares
+ * one length, so they line up when dropped into another DAW. A manifest.json records the tempo,
+ * key and time signature.
  */
-export async function renderProjectToAudioBuffer(
+export async function exportProjectStems(
     project: Project,
     onProgress?: ProgressCallback,
-    options: ExportOptions = {}
-): Promise<AudioBuffer> {
-    const { tailSeconds = 2 } = options;
-
-    // Calculate total duration
-    const maxBar = project.clips.reduce((max, clip) => {
-        return Math.max(max, clip.startBar + clip.lengthBars);
-    }, 0);
-
-    const beatsPerBar = project.timeSignature[0];
-    const duration = barsToSeconds(maxBar, project.bpm, beatsPerBar) + tailSeconds;
+    options: StemExportOptions = {}
+): Promise<Blob> {
+    const { dry = false, includeMaster = true, bitDepth = 16 } = options;
+    const tracks = getStemTracks(project).filter((track) =>
+        options.trackIds ? options.trackIds.includes(track.id) : !track.muted
+    );
 
-    if (duration <= tailSeconds) {
+    if (tracks.length === 0) {
+        throw new Error('No tracks selected for stem export');
+    }
+    if (project.clips.length === 0) {
         throw new Error('Project has no clips to export');
     }
 
+    const duration = options.duration ?? getRenderDuration(project, options);
+    const entries: ZipEntry[] = [];
+    const stems: StemManifest['stems'] = [];
+    let sampleRate = 0;
+
     onProgress?.(0);
 
-    // Use Tone.Offline for proper offline rendering
-    const renderedBuffer = await Tone.Offline(async ({ transport }) => {
-        // Set up transport
-        transport.bpm.value = project.bpm;
-        transport.timeSignature = project.timeSignature;
+    for (let i = 0; i < tracks.length; i++) {
+        const track = tracks[i];
+        const stemProgress = (p: number) => onProgress?.(Math.round(((i + p / 100) / tracks.length) * 100));
+
+        const buffer = await renderProjectToAudioBuffer(
+            getStemProject(project, track.id, options),
+            stemProgress,
+            // Stems keep their relative levels, so they're never normalized
+            { ...options, duration, normalize: undefined }
+        );
+        sampleRate = buffer.sampleRate;
+
+        const file = `${String(i + 1).padStart(2, '0')}_${sanitizeFilename(track.name)}.wav`;
+        const wav = encodeAudioBufferToWav(buffer, options);
+        entries.push({ name: file, data: new Uint8Array(await wav.arrayBuffer()) });
+        stems.push({ file, trackId: track.id, trackName: track.name, trackType: track.type });
+    }
 
-        // Create master chain: masterGain -> limiter -> destination
-        const masterLimiter = new Tone.Limiter(-1);
-        masterLimiter.toDestination();
-
-        const masterGain = new Tone.Gain(0.8);
-        masterGain.connect(masterLimiter);
-
-        // Process each track
-        for (const track of project.tracks) {
-            if (track.muted) continue;
-
-            const panner = new Tone.Panner(track.pan);
-            panner.connect(masterGain);
-
-            const gain = new Tone.Gain(track.volume);
-            gain.connect(panner);
-
-            let chainInput: Tone.ToneAudioNode = gain;
-            if (track.effects && track.effects.length > 0) {
-                const activeEffects = track.effects.filter(e => e.active);
-
-                const effectNodes: Tone.ToneAudioNode[] = [];
-                for (const effect of activeEffects) {
-                    const node = await createEffectNode(effect);
-                    if (node) {
-                        effectNodes.push(node);
-                    }
-                }
-
-                if (effectNodes.length > 0) {
-                    const entryGain = new Tone.Gain(1);
-                    let current: Tone.ToneAudioNode = entryGain;
-                    for (const effectNode of effectNodes) {
-                        current.connect(effectNode);
-                        current = effectNode;
-                    }
-                    current.connect(gain);
-                    chainInput = entryGain;
-                }
-            }
-
-            const trackClips = project.clips.filter(c => c.trackId === track.id);
-
-            for (const clip of trackClips) {
-                const clipStartSeconds = barsToSeconds(clip.startBar, project.bpm, beatsPerBar);
-
-                if (clip.type === 'audio' && clip.activeTakeId) {
-                    await scheduleAudioClipForOffline(
-                        clip,
-                        chainInput,
-                        clipStartSeconds,
-                        project,
-                        transport
-                    );
-                } else if ((clip.type === 'midi' || clip.type === 'drum') && clip.notes) {
-                    await scheduleMidiClipForOffline(
-                        clip,
-                        track,
-                        chainInput,
-                        clipStartSeconds,
-                        project,
-                        transport
-                    );
-                }
-            }
-        }
-
-        transport.start(0);
-    }, duration);
+    const manifest: StemManifest = {
+        project: project.name,
+        bpm: project.bpm,
+        key: project.key,
+        scale: project.scale,
+        timeSignature: `${project.timeSignature[0]}/${project.timeSignature[1]}`,
+        ...(project.tempoMap?.length && { tempoMap: project.tempoMap }),
+        sampleRate,
+        bitDepth,
+        startBar: (options.range?.startBar ?? 0) + 1,
+        lengthSeconds: duration,
+        dry,
+        includeMaster,
+        stems,
+    };
+    entries.push({
+        name: 'manifest.json',
+        data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+    });
 
     onProgress?.(100);
 
-    return renderedBuffer.get() as AudioBuffer;
+    return createZip(entries);
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
 }
 
 /**
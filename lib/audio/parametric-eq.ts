@@ -0,0 +1,127 @@
+// ============================================
+// ComposeYogi — Parametric EQ
+// 3-5 band EQ: low shelf, peaking bands, high shelf
+// ============================================
+
+import * as Tone from 'tone';
+
+// ============================================
+// Bands
+// ============================================
+
+export const PARAMETRIC_EQ_MIN_BANDS = 3;
+export const PARAMETRIC_EQ_MAX_BANDS = 5;
+
+// Default centre frequencies for bands 1-5
+export const PARAMETRIC_EQ_DEFAULT_FREQUENCIES = [80, 400, 1500, 5000, 12000];
+
+export interface ParametricEQOptions extends Tone.ToneAudioNodeOptions {
+    bandCount: number;
+}
+
+/**
+ * Filter type of a band: the first band shelves the lows, the last active
+ * band shelves the highs, everything in between peaks
+ */
+export function getParametricBandType(index: number, bandCount: number): BiquadFilterType {
+    if (index === 0) return 'lowshelf';
+    if (index === bandCount - 1) return 'highshelf';
+    return 'peaking';
+}
+
+// ============================================
+// Parametric EQ Node
+// ============================================
+
+/**
+ * Five filters in series. Bands past bandCount are held at 0 dB (see
+ * EffectSlot), so the band count changes without rebuilding the node.
+ *
+ * Each band's gain, frequency and Q are exposed as `band<n>Gain`,
+ * `band<n>Frequency` and `band<n>Q` (n from 1), matching the effect's
+ * params so automation can reach them.
+ */
+export class ParametricEQ extends Tone.ToneAudioNode<ParametricEQOptions> {
+    readonly name: string = 'ParametricEQ';
+
+    readonly input: Tone.Filter;
+    readonly output: Tone.Filter;
+
+    readonly band1Gain: Tone.Signal<'decibels'>;
+    readonly band2Gain: Tone.Signal<'decibels'>;
+    readonly band3Gain: Tone.Signal<'decibels'>;
+    readonly band4Gain: Tone.Signal<'decibels'>;
+    readonly band5Gain: Tone.Signal<'decibels'>;
+    readonly band1Frequency: Tone.Signal<'frequency'>;
+    readonly band2Frequency: Tone.Signal<'frequency'>;
+    readonly band3Frequency: Tone.Signal<'frequency'>;
+    readonly band4Frequency: Tone.Signal<'frequency'>;
+    readonly band5Frequency: Tone.Signal<'frequency'>;
+    readonly band1Q: Tone.Signal<'positive'>;
+    readonly band2Q: Tone.Signal<'positive'>;
+    readonly band3Q: Tone.Signal<'positive'>;
+    readonly band4Q: Tone.Signal<'positive'>;
+    readonly band5Q: Tone.Signal<'positive'>;
+
+    private readonly bands: Tone.Filter[];
+    private activeBands: number;
+
+    constructor(options: Partial<ParametricEQOptions> = {}) {
+        super(options);
+
+        this.activeBands = clampBandCount(options.bandCount ?? 4);
+        this.bands = PARAMETRIC_EQ_DEFAULT_FREQUENCIES.map((frequency, index) => new Tone.Filter({
+            context: this.context,
+            type: getParametricBandType(index, this.activeBands),
+            frequency,
+            Q: 1,
+            gain: 0,
+        }));
+
+        this.input = this.bands[0];
+        this.output = this.bands[this.bands.length - 1];
+        Tone.connectSeries(...this.bands);
+
+        this.band1Gain = this.bands[0].gain;
+        this.band2Gain = this.bands[1].gain;
+        this.band3Gain = this.bands[2].gain;
+        this.band4Gain = this.bands[3].gain;
+        this.band5Gain = this.bands[4].gain;
+
+        this.band1Frequency = this.bands[0].frequency;
+        this.band2Frequency = this.bands[1].frequency;
+        this.band3Frequency = this.bands[2].frequency;
+        this.band4Frequency = this.bands[3].frequency;
+        this.band5Frequency = this.bands[4].frequency;
+
+        this.band1Q = this.bands[0].Q;
+        this.band2Q = this.bands[1].Q;
+        this.band3Q = this.bands[2].Q;
+        this.band4Q = this.bands[3].Q;
+        this.band5Q = this.bands[4].Q;
+    }
+
+    get bandCount(): number {
+        return this.activeBands;
+    }
+
+    /**
+     * Number of bands in use. Bands past it should be held at 0 dB.
+     */
+    set bandCount(count: number) {
+        this.activeBands = clampBandCount(count);
+        this.bands.forEach((band, index) => {
+            band.type = getParametricBandType(index, this.activeBands);
+        });
+    }
+
+    dispose(): this {
+        super.dispose();
+        this.bands.forEach((band) => band.dispose());
+        return this;
+    }
+}
+
+function clampBandCount(count: number): number {
+    return Math.max(PARAMETRIC_EQ_MIN_BANDS, Math.min(PARAMETRIC_EQ_MAX_BANDS, Math.round(count)));
+}
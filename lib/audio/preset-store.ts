@@ -0,0 +1,98 @@
+// ============================================
+// ComposeYogi — Preset Store
+// In-memory cache of user presets kept in IndexedDB, shared by the
+// sampler and synth preset managers
+// ============================================
+
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('PresetStore');
+
+// ============================================
+// Types
+// ============================================
+
+export interface StoredPreset {
+    id: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * IndexedDB access for one kind of preset
+ */
+export interface PresetStorage<T extends StoredPreset> {
+    list: () => Promise<T[]>;
+    save: (preset: T) => Promise<void>;
+    remove: (presetId: string) => Promise<void>;
+}
+
+// ============================================
+// Preset Store
+// ============================================
+
+export class PresetStore<T extends StoredPreset> {
+    private presets = new Map<string, T>();
+    private loading: Promise<void> | null = null;
+    private changeListeners = new Set<() => void>();
+
+    /**
+     * @param label Plural name for logs, e.g. 'Sampler presets'
+     */
+    constructor(private readonly label: string, private readonly storage: PresetStorage<T>) {}
+
+    /**
+     * Read presets from IndexedDB. Safe to call more than once.
+     */
+    load(): Promise<void> {
+        if (!this.loading) {
+            this.loading = this.storage.list()
+                .then((presets) => {
+                    presets.forEach((preset) => this.presets.set(preset.id, preset));
+                    log.info(`${this.label} loaded`, { count: presets.length });
+                    this.notifyChange();
+                })
+                .catch((error) => {
+                    log.error(`Failed to load ${this.label.toLowerCase()}`, error);
+                    this.loading = null;
+                });
+        }
+        return this.loading;
+    }
+
+    getAll(): T[] {
+        return Array.from(this.presets.values()).sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    get(presetId: string): T | undefined {
+        return this.presets.get(presetId);
+    }
+
+    async save(preset: T): Promise<T> {
+        const saved = { ...preset, updatedAt: Date.now() };
+        await this.storage.save(saved);
+        this.presets.set(saved.id, saved);
+        this.notifyChange();
+        return saved;
+    }
+
+    async remove(presetId: string): Promise<void> {
+        await this.storage.remove(presetId);
+        this.presets.delete(presetId);
+        this.notifyChange();
+    }
+
+    /**
+     * Called when presets are loaded, saved or removed
+     */
+    onChange(listener: () => void): () => void {
+        this.changeListeners.add(listener);
+        return () => {
+            this.changeListeners.delete(listener);
+        };
+    }
+
+    private notifyChange(): void {
+        this.changeListeners.forEach((listener) => listener());
+    }
+}
@@ -0,0 +1,115 @@
+// ============================================
+// ComposeYogi — Project Diff
+// Turns successive project snapshots into the smallest set
+// of playout operations
+// ============================================
+
+import type { Project, Track } from '@/types';
+import { getMasterBus } from './master-bus';
+import { getProjectEndBar, isClipScheduled } from './render-graph';
+import { getSidechainKeyTrackIds } from './sidechain';
+
+// ============================================
+// Types
+// ============================================
+
+export type PlayoutOp =
+    | { type: 'schedule-project' }                      // Nothing to diff against, or timing changed
+    | { type: 'schedule-clip'; clipId: string }         // Added, moved, notes edited, instrument changed
+    | { type: 'unschedule-clip'; clipId: string }       // Removed or muted, or its track was muted/deleted
+    | { type: 'timeline' }                              // Project end moved (pattern-driven events)
+    | { type: 'track-mix' }                             // Volume, pan, mute/solo, sends, tracks added/removed
+    | { type: 'track-effects'; trackId: string }
+    | { type: 'track-automation'; trackId: string }
+    | { type: 'master-bus' };
+
+// ============================================
+// Helpers
+// ============================================
+
+const isSame = <T,>(a: T, b: T): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+function getMixKey(track: Track): string {
+    return JSON.stringify([track.type, track.volume, track.pan, track.muted, track.solo, track.sends]);
+}
+
+// Color picks the default instrument when the track has no preset
+function hasInstrumentChanged(prev: Track | undefined, next: Track | undefined): boolean {
+    if (!prev || !next) return false;
+    return prev.instrumentPreset !== next.instrumentPreset
+        || (!next.instrumentPreset && prev.color !== next.color);
+}
+
+// ============================================
+// Diff
+// ============================================
+
+/**
+ * Operations that bring playout from `prev` to `next`. Store updates keep
+ * unchanged clips and tracks by reference, so most comparisons end there.
+ */
+export function diffProjects(prev: Project | null, next: Project): PlayoutOp[] {
+    if (
+        !prev
+        || prev.id !== next.id
+        || prev.bpm !== next.bpm
+        || !isSame(prev.timeSignature, next.timeSignature)
+        || !isSame(prev.tempoMap, next.tempoMap)
+    ) {
+        return [{ type: 'schedule-project' }];
+    }
+
+    const ops: PlayoutOp[] = [];
+    const prevTracks = new Map(prev.tracks.map((track) => [track.id, track]));
+    const nextTracks = new Map(next.tracks.map((track) => [track.id, track]));
+    const prevKeyTrackIds = getSidechainKeyTrackIds(prev.tracks);
+    const nextKeyTrackIds = getSidechainKeyTrackIds(next.tracks);
+
+    // Tracks
+    let mixChanged = prev.tracks.length !== next.tracks.length;
+    for (const track of next.tracks) {
+        const before = prevTracks.get(track.id);
+        if (before === track) continue;
+
+        if (!before || getMixKey(before) !== getMixKey(track)) mixChanged = true;
+        if (!isSame(before?.effects, track.effects)) ops.push({ type: 'track-effects', trackId: track.id });
+        if (!isSame(before?.automation, track.automation)) ops.push({ type: 'track-automation', trackId: track.id });
+    }
+    if (mixChanged) ops.push({ type: 'track-mix' });
+
+    if (!isSame(getMasterBus(prev), getMasterBus(next))) ops.push({ type: 'master-bus' });
+
+    // Clips
+    const prevClips = new Map(prev.clips.map((clip) => [clip.id, clip]));
+    const nextClipIds = new Set<string>();
+
+    for (const clip of next.clips) {
+        nextClipIds.add(clip.id);
+        const before = prevClips.get(clip.id);
+        const wasScheduled = !!before && isClipScheduled(before, prevTracks.get(before.trackId), prevKeyTrackIds);
+
+        if (!isClipScheduled(clip, nextTracks.get(clip.trackId), nextKeyTrackIds)) {
+            if (wasScheduled) ops.push({ type: 'unschedule-clip', clipId: clip.id });
+            continue;
+        }
+
+        const instrumentChanged = clip.type !== 'audio'
+            && hasInstrumentChanged(prevTracks.get(clip.trackId), nextTracks.get(clip.trackId));
+
+        if (!wasScheduled || instrumentChanged || !isSame(before, clip)) {
+            ops.push({ type: 'schedule-clip', clipId: clip.id });
+        }
+    }
+
+    for (const clip of prev.clips) {
+        if (!nextClipIds.has(clip.id) && isClipScheduled(clip, prevTracks.get(clip.trackId), prevKeyTrackIds)) {
+            ops.push({ type: 'unschedule-clip', clipId: clip.id });
+        }
+    }
+
+    if (Math.ceil(getProjectEndBar(prev)) !== Math.ceil(getProjectEndBar(next))) {
+        ops.push({ type: 'timeline' });
+    }
+
+    return ops;
+}
@@ -5,8 +5,10 @@
 
 import { Midi } from '@tonejs/midi';
 import { v4 as uuid } from 'uuid';
-import type { Project, Track, Clip, Note, AudioTake, TrackType, TrackColor, ClipType } from '@/types';
+import type { Project, Track, Clip, Note, AudioTake, TrackType, TrackColor, ClipType, TempoChange, CompRegion } from '@/types';
 import { createLogger } from '@/lib/logger';
+import { createDefaultMasterBus } from './master-bus';
+import { TempoMap } from './tempo-map';
 
 const logger = createLogger('ProjectIO');
 
@@ -179,6 +181,7 @@ export function importProjectFromJSON(jsonContent: string): ImportResult {
                 ...track,
                 id: newTrackId,
                 projectId: newProjectId,
+                freeze: undefined,     // Renders aren't exported; the track plays live until frozen again
             });
         }
 
@@ -202,6 +205,10 @@ export function importProjectFromJSON(jsonContent: string): ImportResult {
             });
 
             const activeTakeId = clip.activeTakeId ? idMap.get(clip.activeTakeId) : undefined;
+            const compRegions = clip.compRegions?.flatMap((region: CompRegion) => {
+                const takeId = idMap.get(region.takeId);
+                return takeId ? [{ ...region, takeId }] : [];
+            });
 
             project.clips.push({
                 ...clip,
@@ -209,6 +216,7 @@ export function importProjectFromJSON(jsonContent: string): ImportResult {
                 trackId: newTrackId,
                 audioTakeIds,
                 activeTakeId,
+                compRegions,
             });
         }
 
@@ -335,22 +343,25 @@ export async function importMidiFile(file: File): Promise<ImportResult> {
         const midi = new Midi(arrayBuffer);
 
         const projectId = uuid();
-        const bpm = midi.header.tempos[0]?.bpm || 120;
-        const timeSignature = midi.header.timeSignatures[0]?.timeSignature || [4, 4];
+        const ppq = midi.header.ppq;
+        const { bpm, timeSignature, tempoChanges } = readMidiTempoMap(midi);
 
         // Create project
         const project: Project = {
             id: projectId,
             name: midi.name || file.name.replace(/\.mid$/i, ''),
-            bpm: Math.round(bpm),
+            bpm,
             key: 'C',
             scale: 'minor',
-            timeSignature: [timeSignature[0], timeSignature[1]] as [number, number],
+            timeSignature,
             tracks: [],
             clips: [],
             createdAt: Date.now(),
             updatedAt: Date.now(),
+            master: createDefaultMasterBus(),
+            ...(tempoChanges.length > 0 && { tempoMap: tempoChanges }),
         };
+        const tempoMap = TempoMap.fromProject(project);
 
         const warnings: string[] = [];
 
@@ -385,8 +396,8 @@ export async function importMidiFile(file: File): Promise<ImportResult> {
             project.tracks.push(track);
 
             // Group notes into clips by finding gaps
-            const notes = [...midiTrack.notes].sort((a, b) => a.time - b.time);
-            const clips = groupNotesIntoClips(notes, bpm, timeSignature[0]);
+            const notes = [...midiTrack.notes].sort((a, b) => a.ticks - b.ticks);
+            const clips = groupNotesIntoClips(notes, tempoMap, ppq);
 
             for (const clipData of clips) {
                 const clipId = uuid();
@@ -406,11 +417,6 @@ export async function importMidiFile(file: File): Promise<ImportResult> {
             }
         }
 
-        // Warn if tempo changes detected
-        if (midi.header.tempos.length > 1) {
-            warnings.push(`MIDI file contains ${midi.header.tempos.length} tempo changes. Only the first tempo (${Math.round(bpm)} BPM) was used.`);
-        }
-
         logger.info(`Imported MIDI: ${project.name} (${project.tracks.length} tracks, ${project.clips.length} clips)`);
 
         return {
@@ -431,45 +437,117 @@ export async function importMidiFile(file: File): Promise<ImportResult> {
 // Helper Functions
 // ============================================
 
+/**
+ * Read the header's tempo and time signature events as a project tempo
+ * map. MIDI tempo counts quarter notes, so it is rescaled to the beat
+ * unit of the meter in effect.
+ */
+function readMidiTempoMap(midi: Midi): {
+    bpm: number;
+    timeSignature: [number, number];
+    tempoChanges: TempoChange[];
+} {
+    const ppq = midi.header.ppq;
+    const signatures = [...midi.header.timeSignatures].sort((a, b) => a.ticks - b.ticks);
+    const tempos = [...midi.header.tempos].sort((a, b) => a.ticks - b.ticks);
+
+    const first = signatures[0]?.ticks === 0 ? signatures[0].timeSignature : [4, 4];
+    const baseSignature: [number, number] = [first[0], first[1]];
+
+    // Meter changes land on whole bars
+    const meterChanges: TempoChange[] = [];
+    let bar = 0;
+    let barTicks = 0;
+    let signature = baseSignature;
+    for (const event of signatures) {
+        const ticksPerBar = ((ppq * 4) / signature[1]) * signature[0];
+        bar += Math.round((event.ticks - barTicks) / ticksPerBar);
+        barTicks = event.ticks;
+        signature = [event.timeSignature[0], event.timeSignature[1]];
+        meterChanges.push({ id: uuid(), bar, bpm: 120, timeSignature: signature, ramp: false });
+    }
+
+    // Place tempo events on the meter grid
+    const meterMap = new TempoMap(120, baseSignature, meterChanges);
+    const tempoPoints = tempos.map((event) => {
+        const pointBar = meterMap.beatToBar(meterMap.ticksToBeat(event.ticks, ppq));
+        const [, denominator] = meterMap.getTimeSignatureAt(pointBar);
+        return { bar: pointBar, quarterBpm: event.bpm, denominator };
+    });
+
+    const bpmAt = (atBar: number): number => {
+        let quarterBpm = 120;
+        for (const point of tempoPoints) {
+            if (point.bar > atBar + 1e-9) break;
+            quarterBpm = point.quarterBpm;
+        }
+        const [, denominator] = meterMap.getTimeSignatureAt(atBar);
+        return Math.round(((quarterBpm * denominator) / 4) * 100) / 100;
+    };
+
+    const bars = [...new Set([...meterChanges.map((c) => c.bar), ...tempoPoints.map((p) => p.bar)])]
+        .filter((b) => b > 0)
+        .sort((a, b) => a - b);
+
+    const baseBpm = bpmAt(0);
+    const tempoChanges: TempoChange[] = [];
+    let previous = { bpm: baseBpm, timeSignature: meterMap.getTimeSignatureAt(0) };
+
+    for (const changeBar of bars) {
+        const next = { bpm: bpmAt(changeBar), timeSignature: meterMap.getTimeSignatureAt(changeBar) };
+        if (next.bpm === previous.bpm && next.timeSignature.join('/') === previous.timeSignature.join('/')) {
+            continue;
+        }
+        tempoChanges.push({ id: uuid(), bar: changeBar, ...next, ramp: false });
+        previous = next;
+    }
+
+    return {
+        bpm: baseBpm,
+        timeSignature: meterMap.getTimeSignatureAt(0),
+        tempoChanges,
+    };
+}
+
+interface MidiNoteData {
+    ticks: number;
+    durationTicks: number;
+    midi: number;
+    velocity: number;
+}
+
 /**
  * Group MIDI notes into clips based on gaps in the note sequence
  */
 function groupNotesIntoClips(
-    midiNotes: Array<{ time: number; duration: number; midi: number; velocity: number }>,
-    bpm: number,
-    beatsPerBar: number
+    midiNotes: MidiNoteData[],
+    tempoMap: TempoMap,
+    ppq: number
 ): Array<{ startBar: number; lengthBars: number; notes: Note[] }> {
     if (midiNotes.length === 0) return [];
 
-    const secondsPerBeat = 60 / bpm;
-    const secondsPerBar = secondsPerBeat * beatsPerBar;
-    const gapThreshold = secondsPerBar * 2; // 2 bars of silence = new clip
+    const gapThreshold = 2; // 2 bars of silence = new clip
+    const toBar = (ticks: number) => tempoMap.beatToBar(tempoMap.ticksToBeat(ticks, ppq));
 
     const clips: Array<{ startBar: number; lengthBars: number; notes: Note[] }> = [];
-    let currentClipNotes: Array<{ time: number; duration: number; midi: number; velocity: number }> = [];
-    let clipStartTime = 0;
-    let lastNoteEnd = 0;
+    let currentClipNotes: MidiNoteData[] = [];
+    let lastNoteEndBar = 0;
 
     for (const note of midiNotes) {
         // Check for gap
-        if (currentClipNotes.length > 0 && note.time - lastNoteEnd > gapThreshold) {
+        if (currentClipNotes.length > 0 && toBar(note.ticks) - lastNoteEndBar > gapThreshold) {
             // Save current clip
-            clips.push(createClipFromNotes(currentClipNotes, clipStartTime, bpm, beatsPerBar));
+            clips.push(createClipFromNotes(currentClipNotes, tempoMap, ppq));
             currentClipNotes = [];
-            clipStartTime = note.time;
-        }
-
-        if (currentClipNotes.length === 0) {
-            clipStartTime = note.time;
         }
 
         currentClipNotes.push(note);
-        lastNoteEnd = Math.max(lastNoteEnd, note.time + note.duration);
+        lastNoteEndBar = Math.max(lastNoteEndBar, toBar(note.ticks + note.durationTicks));
     }
 
     // Save final clip
     if (currentClipNotes.length > 0) {
-        clips.push(createClipFromNotes(currentClipNotes, clipStartTime, bpm, beatsPerBar));
+        clips.push(createClipFromNotes(currentClipNotes, tempoMap, ppq));
     }
 
     return clips;
@@ -479,41 +557,36 @@ function groupNotesIntoClips(
  * Create a clip from a group of MIDI notes
  */
 function createClipFromNotes(
-    midiNotes: Array<{ time: number; duration: number; midi: number; velocity: number }>,
-    clipStartTime: number,
-    bpm: number,
-    beatsPerBar: number
+    midiNotes: MidiNoteData[],
+    tempoMap: TempoMap,
+    ppq: number
 ): { startBar: number; lengthBars: number; notes: Note[] } {
-    const secondsPerBeat = 60 / bpm;
-    const secondsPerBar = secondsPerBeat * beatsPerBar;
-
     // Calculate clip boundaries (snap to bar)
-    const startBar = Math.floor(clipStartTime / secondsPerBar);
-    const clipStartSeconds = startBar * secondsPerBar;
+    const firstBeat = tempoMap.ticksToBeat(midiNotes[0].ticks, ppq);
+    const startBar = Math.floor(tempoMap.beatToBar(firstBeat) + 1e-9);
+    const clipStartBeat = tempoMap.barToBeat(startBar);
 
-    let maxEndTime = 0;
+    let maxEndBeat = clipStartBeat;
     const notes: Note[] = [];
 
     for (const midiNote of midiNotes) {
-        // Convert time to beats relative to clip start
-        const relativeTime = midiNote.time - clipStartSeconds;
-        const startBeat = relativeTime / secondsPerBeat;
-        const durationBeats = midiNote.duration / secondsPerBeat;
+        // Convert ticks to beats relative to clip start
+        const noteBeat = tempoMap.ticksToBeat(midiNote.ticks, ppq);
+        const endBeat = tempoMap.ticksToBeat(midiNote.ticks + midiNote.durationTicks, ppq);
 
         notes.push({
             id: uuid(),
             pitch: midiNote.midi,
-            startBeat,
-            duration: durationBeats,
+            startBeat: noteBeat - clipStartBeat,
+            duration: endBeat - noteBeat,
             velocity: Math.round(midiNote.velocity * 127),
         });
 
-        maxEndTime = Math.max(maxEndTime, midiNote.time + midiNote.duration);
+        maxEndBeat = Math.max(maxEndBeat, endBeat);
     }
 
     // Calculate clip length (round up to nearest bar)
-    const clipDuration = maxEndTime - clipStartSeconds;
-    const lengthBars = Math.max(1, Math.ceil(clipDuration / secondsPerBar));
+    const lengthBars = Math.max(1, Math.ceil(tempoMap.beatToBar(maxEndBeat) - startBar - 1e-9));
 
     return { startBar, lengthBars, notes };
 }
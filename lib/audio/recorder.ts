@@ -39,6 +39,14 @@ export interface RecordedSegment {
     sampleRate: number;
     /** MIME type */
     mimeType: string;
+    /** Loop recording: one take per pass, each aligned to the loop start (last pass is the segment itself) */
+    loopTakes?: RecordedTake[];
+}
+
+export interface RecordedTake {
+    audioData: Uint8Array;
+    audioBuffer: AudioBuffer;
+    duration: number;
 }
 
 export interface LoopBoundaries {
@@ -51,6 +59,9 @@ export interface LoopBoundaries {
 }
 
 type RecorderState = 'inactive' | 'recording' | 'paused';
+
+// A pass shorter than this after the last wrap is discarded as a stop overrun
+const MIN_LOOP_PASS_SECONDS = 0.5;
 type RecorderCallback = (segment: RecordedSegment) => void;
 
 // ============================================
@@ -74,6 +85,57 @@ function getSupportedMimeType(): string {
     return ''; // Let browser choose
 }
 
+// ============================================
+// Loop Recording
+// ============================================
+
+/**
+ * Split a recording made while the transport looped into one buffer
+ * per pass. Every pass is a full loop long and starts at the loop
+ * start; audio before the loop (count-in) is dropped and a partial
+ * first pass is padded with silence.
+ */
+export function splitLoopPasses(
+    buffer: AudioBuffer,
+    startTime: number,
+    loop: LoopBoundaries
+): AudioBuffer[] {
+    const sampleRate = buffer.sampleRate;
+    const passLength = Math.round((loop.endTime - loop.startTime) * sampleRate);
+    if (passLength <= 0) return [];
+
+    // Loop position of the first recorded sample; starting past the
+    // loop end means the transport never wrapped
+    const offset = Math.round((startTime - loop.startTime) * sampleRate);
+    const skip = Math.max(0, -offset);
+    if (offset >= passLength || buffer.length <= skip) return [];
+
+    const endPosition = offset + buffer.length;
+
+    let passCount = Math.ceil(endPosition / passLength);
+    const lastPassSamples = endPosition - (passCount - 1) * passLength;
+    if (passCount > 1 && lastPassSamples < MIN_LOOP_PASS_SECONDS * sampleRate) {
+        passCount--;
+    }
+
+    const ctx = Tone.getContext().rawContext;
+    const passes = Array.from({ length: passCount }, () =>
+        ctx.createBuffer(buffer.numberOfChannels, passLength, sampleRate)
+    );
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const sourceData = buffer.getChannelData(channel);
+        for (let i = skip; i < buffer.length; i++) {
+            const position = offset + i;
+            const pass = Math.floor(position / passLength);
+            if (pass >= passCount) break;
+            passes[pass].getChannelData(channel)[position - pass * passLength] = sourceData[i];
+        }
+    }
+
+    return passes;
+}
+
 // ============================================
 // Audio Recorder Class
 // ============================================
@@ -266,23 +328,32 @@ class AudioRecorder {
                 adjustedStartTime = this.startTime - latencyOffset;
             }
 
-            // Auto-trim to loop boundaries if enabled
+            // Split loop recordings into one take per pass
+            let loopTakes: RecordedTake[] | undefined;
             if (this.loopBoundaries?.enabled) {
-                const trimResult = await this.trimToLoop(
-                    audioBuffer,
-                    adjustedStartTime,
-                    this.loopBoundaries
-                );
-                audioBuffer = trimResult.buffer;
-                adjustedStartTime = trimResult.startTime;
-                duration = trimResult.duration;
+                const passes = splitLoopPasses(audioBuffer, adjustedStartTime, this.loopBoundaries);
+                if (passes.length > 0) {
+                    loopTakes = [];
+                    for (const pass of passes) {
+                        const faded = this.applyFades(pass);
+                        loopTakes.push({
+                            audioBuffer: faded,
+                            audioData: await this.audioBufferToUint8Array(faded),
+                            duration: faded.duration,
+                        });
+                    }
+                    audioBuffer = passes[passes.length - 1];
+                    adjustedStartTime = this.loopBoundaries.startTime;
+                    duration = audioBuffer.duration;
+                }
             }
 
             // Apply fade-in and fade-out to prevent clicks
-            audioBuffer = this.applyFades(audioBuffer);
+            const lastTake = loopTakes?.[loopTakes.length - 1];
+            audioBuffer = lastTake ? lastTake.audioBuffer : this.applyFades(audioBuffer);
 
             // Convert to Uint8Array for IndexedDB storage
-            const audioData = await this.audioBufferToUint8Array(audioBuffer);
+            const audioData = lastTake ? lastTake.audioData : await this.audioBufferToUint8Array(audioBuffer);
 
             const segment: RecordedSegment = {
                 blob,
@@ -292,6 +363,7 @@ class AudioRecorder {
                 duration,
                 sampleRate: audioBuffer.sampleRate,
                 mimeType: this.mimeType || 'audio/webm',
+                loopTakes,
             };
 
             this.state = 'inactive';
@@ -315,62 +387,6 @@ class AudioRecorder {
     // Audio Processing
     // ========================================
 
-    /**
-     * Trim audio buffer to loop boundaries
-     */
-    private async trimToLoop(
-        buffer: AudioBuffer,
-        startTime: number,
-        loop: LoopBoundaries
-    ): Promise<{ buffer: AudioBuffer; startTime: number; duration: number }> {
-        const sampleRate = buffer.sampleRate;
-        const loopStartSample = Math.max(0, Math.floor((loop.startTime - startTime) * sampleRate));
-        const loopEndSample = Math.min(
-            buffer.length,
-            Math.floor((loop.endTime - startTime) * sampleRate)
-        );
-
-        // If recording started before loop, trim the beginning
-        // If recording extends past loop, trim the end
-        const trimStart = Math.max(0, loopStartSample);
-        const trimEnd = Math.min(buffer.length, loopEndSample);
-        const trimLength = trimEnd - trimStart;
-
-        if (trimLength <= 0) {
-            // Return original if trim would result in empty buffer
-            return {
-                buffer,
-                startTime: Math.max(startTime, loop.startTime),
-                duration: buffer.duration,
-            };
-        }
-
-        // Create trimmed buffer
-        const ctx = Tone.getContext().rawContext;
-        const trimmedBuffer = ctx.createBuffer(
-            buffer.numberOfChannels,
-            trimLength,
-            sampleRate
-        );
-
-        for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
-            const sourceData = buffer.getChannelData(channel);
-            const destData = trimmedBuffer.getChannelData(channel);
-            for (let i = 0; i < trimLength; i++) {
-                destData[i] = sourceData[trimStart + i];
-            }
-        }
-
-        // Adjust start time if we trimmed the beginning
-        const newStartTime = startTime + trimStart / sampleRate;
-
-        return {
-            buffer: trimmedBuffer,
-            startTime: Math.max(newStartTime, loop.startTime),
-            duration: trimLength / sampleRate,
-        };
-    }
-
     /**
      * Trim audio buffer to specified duration
      */
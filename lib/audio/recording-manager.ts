@@ -8,11 +8,12 @@ import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '@/lib/logger';
 
 const logger = createLogger('Recording');
-import { audioRecorder, RecordedSegment, LoopBoundaries } from './recorder';
+import { audioRecorder, RecordedSegment, RecordedTake, LoopBoundaries } from './recorder';
 import { audioEngine } from './engine';
 import { latencyCalibrator } from './latency-calibration';
 import { useProjectStore } from '@/lib/store/project';
 import { usePlaybackStore, playbackRefs } from '@/lib/store/playback';
+import { useUIStore } from '@/lib/store/ui';
 import { autosaveManager } from '@/lib/persistence';
 import type { Clip, AudioTake, PeaksCache } from '@/types';
 
@@ -25,6 +26,7 @@ interface RecordingSession {
     startBar: number;
     startTime: number;
     isActive: boolean;
+    loop: { startBar: number; endBar: number } | null;  // Set when loop recording
 }
 
 type RecordingCompleteCallback = (clip: Clip, take: AudioTake) => void;
@@ -147,7 +149,7 @@ class RecordingManager {
             audioEngine.play(audioEngine.barToSeconds(countInStartBar));
 
             // Wait for count-in to complete
-            const countInDuration = audioEngine.barToSeconds(countInBars) * 1000;
+            const countInDuration = audioEngine.barsToSecondsAt(countInStartBar, countInBars) * 1000;
 
             await new Promise<void>((resolve) => {
                 this.countInTimeoutId = setTimeout(() => {
@@ -180,6 +182,9 @@ class RecordingManager {
             startBar,
             startTime,
             isActive: true,
+            loop: playbackState.loopEnabled
+                ? { startBar: playbackState.loopStartBar, endBar: playbackState.loopEndBar }
+                : null,
         };
 
         logger.info('Recording started', { trackId, startBar, startTime });
@@ -260,7 +265,7 @@ class RecordingManager {
             return;
         }
 
-        const { trackId, startBar } = this.session;
+        const { trackId, startBar, loop } = this.session;
 
         const projectStore = useProjectStore.getState();
         const project = projectStore.project;
@@ -270,13 +275,19 @@ class RecordingManager {
             return;
         }
 
+        if (loop && segment.loopTakes?.length) {
+            this.completeLoopRecording(trackId, loop, segment.loopTakes);
+            return;
+        }
+
         // Calculate clip length in bars (use exact duration for audio clips)
-        const durationInBars = audioEngine.secondsToBar(segment.duration);
+        const clipStartBar = Math.max(0, Math.floor(startBar));
+        const durationInBars = audioEngine.secondsToBarsAt(clipStartBar, segment.duration);
         // Use exact fractional bars for audio clips so visual width matches audio duration
         const lengthBars = Math.max(0.25, durationInBars);
 
         // Create Clip via store method
-        const clip = projectStore.addClip(trackId, 'audio', Math.max(0, Math.floor(startBar)), lengthBars);
+        const clip = projectStore.addClip(trackId, 'audio', clipStartBar, lengthBars);
 
         // Create AudioTake
         const take: AudioTake = {
@@ -315,6 +326,67 @@ class RecordingManager {
 
     }
 
+    /**
+     * Stack each loop pass as a take on the clip covering the loop. A clip
+     * left by an earlier loop recording over the same range gains the new
+     * takes; the last pass becomes the active take and the comp is reset.
+     */
+    private completeLoopRecording(
+        trackId: string,
+        loop: { startBar: number; endBar: number },
+        passes: RecordedTake[]
+    ): void {
+        const projectStore = useProjectStore.getState();
+        const lengthBars = loop.endBar - loop.startBar;
+
+        const existing = projectStore.project?.clips.find((c) =>
+            c.trackId === trackId &&
+            c.type === 'audio' &&
+            c.startBar === loop.startBar &&
+            Math.abs(c.lengthBars - lengthBars) < 1e-6 &&
+            (c.audioTakeIds?.length ?? 0) > 0
+        );
+        const clip = existing ?? projectStore.addClip(trackId, 'audio', loop.startBar, lengthBars);
+
+        const takes: AudioTake[] = passes.map((pass) => ({
+            id: uuidv4(),
+            clipId: clip.id,
+            audioData: pass.audioData,
+            sampleRate: pass.audioBuffer.sampleRate,
+            duration: pass.duration,
+            peaks: {} as PeaksCache, // Will be generated by waveform worker
+            createdAt: Date.now(),
+        }));
+
+        for (const take of takes) {
+            audioTakesMap.set(take.id, take);
+            autosaveManager.saveAudioTakeImmediate(take).catch((err) => {
+                console.error('[RecordingManager] Failed to save audio take to IndexedDB:', err);
+            });
+        }
+
+        const lastTake = takes[takes.length - 1];
+        projectStore.updateClip(clip.id, {
+            audioTakeIds: [...(existing?.audioTakeIds || []), ...takes.map((t) => t.id)],
+            activeTakeId: lastTake.id,
+            compRegions: [],
+            name: existing?.name ?? `Loop Recording ${new Date().toLocaleTimeString()}`,
+        });
+
+        if (takes.length + (existing?.audioTakeIds?.length ?? 0) > 1) {
+            useUIStore.getState().showTakeLanes(trackId);
+        }
+
+        logger.info('Loop recording stacked', { clipId: clip.id, takes: takes.length });
+
+        if (this.onComplete) {
+            this.onComplete(clip, lastTake);
+        }
+
+        this.session = null;
+        this.onComplete = null;
+    }
+
     // ========================================
     // State Queries
     // ========================================
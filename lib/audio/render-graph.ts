@@ -0,0 +1,1002 @@
+// ============================================
+// ComposeYogi — Render Graph
+// Track chains, effects and clip scheduling shared by
+// live playout and offline export (Tone.Offline)
+// ============================================
+
+import * as Tone from 'tone';
+import type { AudioTake, AutomationLane, Clip, MasterBus, Project, SliceKit, Track, TrackEffect, TrackSend } from '@/types';
+import { createLogger } from '@/lib/logger';
+import { getAudioTake } from './recording-manager';
+import { createSynthFromPreset, getInstrumentCacheKey, type SynthType } from './synth-presets';
+import { applyClipMacrosToNotes, createClipMacroChain, createSpaceReturn, getClipToneKey } from './clip-macros';
+import {
+    getActiveAutomationLanes,
+    parseAutomationTarget,
+    scheduleAutomation,
+    type AutomatableParam,
+} from './automation';
+import { DEFAULT_MASTER_VOLUME, getMasterBus } from './master-bus';
+import { SidechainCompressor, getSidechainKeyTrackIds, getSidechainSource } from './sidechain';
+import { EffectSlot } from './effect-slots';
+import { TempoMap, getTempoMap } from './tempo-map';
+import { COMP_CROSSFADE_SECONDS, getCompSegments, isComped } from './comping';
+import { getWarpPlan, timeStretch, type WarpPlan } from './time-stretch';
+import { createSliceSampler } from './slicing';
+import { VoicePool, type Voice } from './voice-pool';
+
+const logger = createLogger('RenderGraph');
+
+// ============================================
+// Types
+// ============================================
+
+type Transport = ReturnType<typeof Tone.getTransport>;
+
+export interface ScheduledClip {
+    clipId: string;
+    player: Tone.Player | SynthType | null;
+    compPlayers: Tone.Player[];  // One per comp segment for comped audio clips
+    startBar: number;
+    lengthBars: number;
+    eventIds: number[];
+    macroNodes: Tone.ToneAudioNode[];
+    signature: string;           // Everything the schedule was built from; see getClipSignature
+}
+
+export interface TrackSendNode {
+    busId: string;
+    preFader: boolean;
+    gain: Tone.Gain;
+}
+
+export interface TrackChain {
+    input: Tone.Gain;
+    effects: Map<string, EffectSlot>;          // Keyed by TrackEffect.id, in chain order
+    key: Tone.Gain;                            // Sidechain key tap, ahead of mute/solo
+    mute: Tone.Gain;                           // Mute/solo, kept apart from automated volume
+    gain: Tone.Gain;
+    panner: Tone.Panner;
+    sends: Map<string, TrackSendNode>;         // Keyed by TrackSend.id
+}
+
+const DEFAULT_TRACK_VOLUME = 0.8;
+
+// Web Audio render quantum
+const RENDER_BLOCK_FRAMES = 128;
+
+// ============================================
+// Timing Utilities
+// ============================================
+
+/**
+ * Bar where the last clip ends
+ */
+export function getProjectEndBar(project: Project): number {
+    return project.clips.reduce((max, clip) => Math.max(max, clip.startBar + clip.lengthBars), 0);
+}
+
+// ============================================
+// Mix Helpers
+// ============================================
+
+/**
+ * Whether a track should be heard, taking mute and solo into account.
+ * A bus stays audible while any soloed track sends to it.
+ */
+export function isTrackAudible(track: Track, tracks: Track[]): boolean {
+    if (track.muted) return false;
+    const soloed = tracks.filter((t) => t.solo);
+    if (soloed.length === 0 || track.solo) return true;
+
+    return track.type === 'bus' && soloed.some((t) => getActiveSends(t, tracks).some((send) => send.busId === track.id));
+}
+
+/**
+ * Whether a clip is scheduled: it and its track are unmuted, or its track is
+ * muted but keys a sidechain (see getSidechainKeyTrackIds), since mute only
+ * silences the track after its key tap
+ */
+export function isClipScheduled(clip: Clip, track: Track | undefined, keyTrackIds: Set<string>): boolean {
+    return !!track && !clip.muted && (!track.muted || keyTrackIds.has(track.id));
+}
+
+/**
+ * Sends that can be routed: non-bus source, existing bus destination
+ */
+export function getActiveSends(track: Track, tracks: Track[]): TrackSend[] {
+    if (track.type === 'bus' || !track.sends) return [];
+    return track.sends.filter((send) =>
+        tracks.some((t) => t.id === send.busId && t.type === 'bus')
+    );
+}
+
+// ============================================
+// Synth Selection
+// ============================================
+
+/**
+ * Instrument a track plays when neither the clip nor a slice kit picks one
+ */
+export function getTrackInstrumentId(track: Track): string {
+    // First, check if track has a specific instrument preset
+    if (track.instrumentPreset) return track.instrumentPreset;
+
+    // Fallback: Use track color to determine synth type
+    // This provides sensible defaults based on musical role
+    switch (track.color) {
+        case 'bass':
+            return 'synth-bass';
+        case 'keys':
+            return 'electric-piano';
+        case 'melody':
+            return 'saw-lead';
+        case 'drums':
+            return 'drum-synth';
+        case 'fx':
+            return 'warm-pad';
+        case 'vocals':
+        default:
+            return 'basic-synth';
+    }
+}
+
+export function createSynthForTrack(track: Track): SynthType {
+    return createSynthFromPreset(getTrackInstrumentId(track));
+}
+
+/**
+ * Everything a clip's schedule depends on: the clip itself, the instrument
+ * it resolves to and the project timing. Equal signatures mean the existing
+ * schedule can be kept.
+ */
+function getClipSignature(clip: Clip, track: Track, project: Project): string {
+    const instrument = clip.sliceKit
+        ? 'slices'
+        : getInstrumentCacheKey(clip.instrumentPreset || getTrackInstrumentId(track));
+    const timing = { bpm: project.bpm, timeSignature: project.timeSignature, tempoMap: project.tempoMap };
+    return JSON.stringify({ clip, instrument, timing });
+}
+
+// ============================================
+// Effect Chains
+// ============================================
+
+/**
+ * Bring effect slots (by TrackEffect.id) in line with an effect list:
+ * existing slots ramp to new params and crossfade bypass, new effects get
+ * a slot and removed ones are disposed. `rewire` is set when the order of
+ * slots changed; `nodesReplaced` when a slot swapped its node.
+ */
+function updateEffectSlots(
+    current: Map<string, EffectSlot>,
+    effects: TrackEffect[],
+    bpm: number,
+    getAutomatedParams: (effectId: string) => Set<string> = () => new Set()
+): { slots: Map<string, EffectSlot>; rewire: boolean; nodesReplaced: boolean } {
+    const previousOrder = Array.from(current.keys());
+    const slots = new Map<string, EffectSlot>();
+    let nodesReplaced = false;
+
+    for (const effect of effects) {
+        const existing = current.get(effect.id);
+        if (existing) {
+            nodesReplaced = existing.update(effect, getAutomatedParams(effect.id)) || nodesReplaced;
+            slots.set(effect.id, existing);
+            continue;
+        }
+
+        const slot = EffectSlot.create(effect, bpm);
+        if (slot) slots.set(effect.id, slot);
+    }
+
+    // Drop slots for removed effects
+    current.forEach((slot, effectId) => {
+        if (!slots.has(effectId)) slot.dispose();
+    });
+
+    const order = Array.from(slots.keys());
+    const rewire = order.length !== previousOrder.length
+        || order.some((effectId, index) => effectId !== previousOrder[index]);
+
+    return { slots, rewire, nodesReplaced };
+}
+
+/**
+ * Wire input -> slots in order -> output, replacing the input's connections
+ */
+function connectEffectSlots(input: Tone.ToneAudioNode, slots: Map<string, EffectSlot>, output: Tone.InputNode): void {
+    input.disconnect();
+    let currentNode: Tone.ToneAudioNode = input;
+    slots.forEach((slot) => {
+        slot.output.disconnect();
+        currentNode.connect(slot.input);
+        currentNode = slot.output;
+    });
+    currentNode.connect(output);
+}
+
+// ============================================
+// Render Graph
+// ============================================
+
+/**
+ * Audio graph for a project, bound to the Tone context that is current when
+ * it is constructed — the realtime context for playout, or the offline
+ * context inside a Tone.Offline callback for export.
+ *
+ * clips -> [clip macros] -> track entry -> effects -> key -> mute -> gain -> panner -> master -> master effects -> output
+ *
+ * Sends tap the mute stage (pre-fader) or the panner (post-fader) and feed a
+ * bus track's entry; buses run the same chain into the master. Sidechain
+ * compressors are keyed from their source track's key tap, after its inserts
+ * but ahead of mute, solo and fader, so ducking does not depend on whether
+ * the source is heard (a muted kick, a soloed pad, a stem or a freeze).
+ *
+ * Track automation follows the transport: envelopes are (re)scheduled on
+ * start, seek and loop, and cancelled on stop/pause.
+ *
+ * Rescheduling is incremental: only clips whose signature changed are
+ * rebuilt. Note clips on a track share its instruments through a voice pool.
+ */
+export class RenderGraph {
+    private readonly context: Tone.BaseContext;
+    private readonly transport: Transport;
+    private readonly masterGain: Tone.Gain;
+    private readonly masterOutput: Tone.Gain;
+    private readonly spaceReturn: Tone.Reverb;
+
+    private masterEffects: Map<string, EffectSlot> = new Map();
+
+    private trackChains: Map<string, TrackChain> = new Map();
+    private scheduledClips: Map<string, ScheduledClip> = new Map();
+    private voicePool = new VoicePool();
+    private trackAutomation: Map<string, AutomationLane[]> = new Map();
+    private tempoMap = new TempoMap(120, [4, 4]);
+    private timelineBars = 0;  // Bars covered by pattern-driven events (sidechain triggers)
+
+    constructor(output: Tone.InputNode) {
+        this.context = Tone.getContext();
+        this.transport = Tone.getTransport();
+
+        this.masterOutput = new Tone.Gain(1);
+        this.masterOutput.connect(output);
+
+        this.masterGain = new Tone.Gain(DEFAULT_MASTER_VOLUME);
+        this.masterGain.connect(this.masterOutput);
+
+        // Shared reverb return for clip "space" macro sends
+        this.spaceReturn = createSpaceReturn();
+        this.spaceReturn.connect(this.masterGain);
+
+        this.transport.on('start', this.handleTransportStart);
+        this.transport.on('loopStart', this.handleTransportStart);
+        this.transport.on('stop', this.handleTransportStop);
+        this.transport.on('pause', this.handleTransportStop);
+    }
+
+    /**
+     * Resolve once every reverb impulse response has been generated
+     */
+    async ready(): Promise<void> {
+        const reverbs: Tone.Reverb[] = [this.spaceReturn];
+        this.masterEffects.forEach(({ node }) => {
+            if (node instanceof Tone.Reverb) reverbs.push(node);
+        });
+        this.trackChains.forEach((chain) => {
+            chain.effects.forEach(({ node }) => {
+                if (node instanceof Tone.Reverb) reverbs.push(node);
+            });
+        });
+        await Promise.all(reverbs.map((reverb) => reverb.ready));
+    }
+
+    dispose(): void {
+        this.transport.off('start', this.handleTransportStart);
+        this.transport.off('loopStart', this.handleTransportStart);
+        this.transport.off('stop', this.handleTransportStop);
+        this.transport.off('pause', this.handleTransportStop);
+
+        this.clearAllScheduled();
+        this.voicePool.dispose();
+
+        this.trackChains.forEach((chain) => this.disposeTrackChain(chain));
+        this.trackChains.clear();
+        this.trackAutomation.clear();
+
+        this.spaceReturn.dispose();
+        this.masterEffects.forEach((slot) => slot.dispose());
+        this.masterGain.dispose();
+        this.masterOutput.dispose();
+    }
+
+    // ========================================
+    // Master Bus
+    // ========================================
+
+    /**
+     * Apply master volume and bring the master chain in line with its effects.
+     * As with track inserts, slots update in place and the chain is only
+     * rewired when effects are added, removed or reordered.
+     */
+    setMasterBus(master: MasterBus, rampTime: number = 0.05): void {
+        this.masterGain.gain.rampTo(master.volume, rampTime);
+
+        const { slots, rewire } = updateEffectSlots(this.masterEffects, master.effects, this.getBpm());
+        this.masterEffects = slots;
+
+        if (rewire) {
+            connectEffectSlots(this.masterGain, slots, this.masterOutput);
+        }
+    }
+
+    // ========================================
+    // Track Signal Chain
+    // ========================================
+
+    getOrCreateTrackChain(track: Track): TrackChain {
+        const existing = this.trackChains.get(track.id);
+        if (existing) return existing;
+
+        const chain: TrackChain = {
+            input: new Tone.Gain(1),
+            effects: new Map(),
+            key: new Tone.Gain(1),
+            mute: new Tone.Gain(1),
+            gain: new Tone.Gain(track.volume ?? DEFAULT_TRACK_VOLUME),
+            panner: new Tone.Panner(track.pan ?? 0),
+            sends: new Map(),
+        };
+
+        // Default Chain: entry -> key -> mute -> gain -> panner -> master
+        chain.input.connect(chain.key);
+        chain.key.connect(chain.mute);
+        chain.mute.connect(chain.gain);
+        chain.gain.connect(chain.panner);
+        chain.panner.connect(this.masterGain);
+
+        this.trackChains.set(track.id, chain);
+
+        // Initialize effects if present
+        if (track.effects && track.effects.length > 0) {
+            this.setTrackEffects(track.id, track.effects);
+        }
+
+        return chain;
+    }
+
+    private disposeTrackChain(chain: TrackChain): void {
+        chain.input.dispose();
+        chain.effects.forEach((slot) => slot.dispose());
+        chain.key.dispose();
+        chain.mute.dispose();
+        chain.gain.dispose();
+        chain.panner.dispose();
+        chain.sends.forEach((send) => send.gain.dispose());
+    }
+
+    /**
+     * Bring a track's insert chain in line with its effects. Existing slots
+     * (by TrackEffect.id) ramp to new params and crossfade bypass; the chain
+     * is only rewired when effects are added, removed or reordered.
+     */
+    setTrackEffects(trackId: string, effects: TrackEffect[]): void {
+        const chain = this.trackChains.get(trackId);
+        if (!chain) return;
+
+        // Automated params stay with their envelopes
+        const automatedTargets = (this.trackAutomation.get(trackId) ?? []).map((lane) => parseAutomationTarget(lane.target));
+        const getAutomatedParams = (effectId: string) => new Set(automatedTargets.flatMap((target) =>
+            target.kind === 'effect' && target.effectId === effectId ? [target.param] : []
+        ));
+
+        const { slots, rewire, nodesReplaced } = updateEffectSlots(chain.effects, effects, this.getBpm(), getAutomatedParams);
+        chain.effects = slots;
+
+        if (rewire) {
+            connectEffectSlots(chain.input, slots, chain.key);
+        }
+
+        this.connectSidechains(trackId, effects);
+
+        // New effect nodes start from their static params; pick up automation again
+        if (rewire || nodesReplaced) {
+            this.refreshTrackAutomation(trackId);
+        }
+    }
+
+    /**
+     * Apply volume, pan, mute, solo and sends for every track in the project.
+     * Automated volume/pan are left to their envelopes.
+     */
+    applyTrackMix(tracks: Track[], rampTime: number = 0.05): void {
+        // Drop chains for tracks that no longer exist (e.g. a deleted bus)
+        this.trackChains.forEach((chain, trackId) => {
+            if (tracks.some((t) => t.id === trackId)) return;
+            this.disposeTrackChain(chain);
+            this.voicePool.disposeTrack(trackId);
+            this.trackChains.delete(trackId);
+            this.trackAutomation.delete(trackId);
+        });
+
+        // Create every chain first so sends and sidechains can reach their sources
+        tracks.forEach((track) => this.getOrCreateTrackChain(track));
+
+        for (const track of tracks) {
+            const chain = this.getOrCreateTrackChain(track);
+            const automated = new Set(getActiveAutomationLanes(track).map((lane) => lane.target));
+
+            chain.mute.gain.rampTo(isTrackAudible(track, tracks) ? 1 : 0, rampTime);
+            if (!automated.has('volume')) {
+                chain.gain.gain.rampTo(track.volume ?? DEFAULT_TRACK_VOLUME, rampTime);
+            }
+            if (!automated.has('pan')) {
+                chain.panner.pan.rampTo(track.pan ?? 0, rampTime);
+            }
+
+            this.setTrackSends(track, tracks, rampTime);
+            this.connectSidechains(track.id, track.effects || []);
+        }
+    }
+
+    /**
+     * Key each sidechain compressor on a track from its source track or
+     * trigger pattern. Sources that are missing (or the track itself) leave
+     * the compressor unkeyed.
+     */
+    private connectSidechains(trackId: string, effects: TrackEffect[]): void {
+        const chain = this.trackChains.get(trackId);
+        if (!chain) return;
+
+        for (const effect of effects) {
+            const node = chain.effects.get(effect.id)?.node;
+            if (!(node instanceof SidechainCompressor)) continue;
+
+            if (getSidechainSource(effect) === 'trigger') {
+                node.setTriggerPattern(
+                    this.transport,
+                    effect.params.sidechainPattern,
+                    this.tempoMap,
+                    this.timelineBars
+                );
+                continue;
+            }
+
+            const sourceId = effect.params.sidechainTrackId as string;
+            const source = sourceId !== trackId ? this.trackChains.get(sourceId) : undefined;
+            node.setKeySource(source?.key ?? null);
+        }
+    }
+
+    /**
+     * Route a track's sends to their buses. Level changes ramp in place;
+     * sends are only rewired when their bus or tap point changes.
+     */
+    setTrackSends(track: Track, tracks: Track[], rampTime: number = 0.05): void {
+        const chain = this.trackChains.get(track.id);
+        if (!chain) return;
+
+        const sends = getActiveSends(track, tracks);
+
+        chain.sends.forEach((node, sendId) => {
+            const send = sends.find((s) => s.id === sendId);
+            if (!send || send.busId !== node.busId || send.preFader !== node.preFader) {
+                node.gain.dispose();
+                chain.sends.delete(sendId);
+            }
+        });
+
+        for (const send of sends) {
+            const existing = chain.sends.get(send.id);
+            if (existing) {
+                existing.gain.gain.rampTo(send.level, rampTime);
+                continue;
+            }
+
+            const bus = this.trackChains.get(send.busId);
+            if (!bus) continue;
+
+            const gain = new Tone.Gain(send.level);
+            (send.preFader ? chain.mute : chain.panner).connect(gain);
+            gain.connect(bus.input);
+            chain.sends.set(send.id, { busId: send.busId, preFader: send.preFader, gain });
+        }
+    }
+
+    setTrackVolume(trackId: string, volume: number, rampTime: number = 0.05): void {
+        this.trackChains.get(trackId)?.gain.gain.rampTo(volume, rampTime);
+    }
+
+    setTrackPan(trackId: string, pan: number, rampTime: number = 0.05): void {
+        this.trackChains.get(trackId)?.panner.pan.rampTo(pan, rampTime);
+    }
+
+    // ========================================
+    // Automation
+    // ========================================
+
+    /**
+     * Replace a track's automation lanes, rescheduling them if playing
+     */
+    setTrackAutomation(track: Track): void {
+        this.trackAutomation.set(track.id, getActiveAutomationLanes(track));
+        this.refreshTrackAutomation(track.id);
+    }
+
+    private refreshTrackAutomation(trackId: string): void {
+        if (this.transport.state !== 'started') return;
+
+        const now = this.context.now();
+        this.scheduleTrackAutomation(trackId, now, this.transport.getSecondsAtTime(now));
+    }
+
+    private handleTransportStart = (time: number, offsetSeconds: number): void => {
+        this.trackAutomation.forEach((_, trackId) => {
+            this.scheduleTrackAutomation(trackId, time, offsetSeconds);
+        });
+    };
+
+    private handleTransportStop = (time: number): void => {
+        this.trackAutomation.forEach((lanes, trackId) => {
+            for (const lane of lanes) {
+                this.resolveAutomationParam(trackId, lane)?.cancelScheduledValues(time);
+            }
+        });
+    };
+
+    private scheduleTrackAutomation(trackId: string, time: number, offsetSeconds: number): void {
+        const lanes = this.trackAutomation.get(trackId);
+        if (!lanes) return;
+
+        const tempoMap = this.tempoMap;
+        const fromBar = tempoMap.secondsToBar(offsetSeconds);
+
+        for (const lane of lanes) {
+            const param = this.resolveAutomationParam(trackId, lane);
+            if (!param) continue;
+
+            scheduleAutomation(param, lane.points, time, fromBar, (bars) => tempoMap.barToSeconds(bars));
+        }
+    }
+
+    /**
+     * Find the Tone param an automation lane drives
+     */
+    private resolveAutomationParam(trackId: string, lane: AutomationLane): AutomatableParam | null {
+        const chain = this.trackChains.get(trackId);
+        if (!chain) return null;
+
+        const target = parseAutomationTarget(lane.target);
+        switch (target.kind) {
+            case 'volume':
+                return chain.gain.gain;
+            case 'pan':
+                return chain.panner.pan;
+            case 'effect': {
+                const node = chain.effects.get(target.effectId)?.node;
+                const param = node ? (node as unknown as Record<string, unknown>)[target.param] : null;
+                if (param instanceof Tone.Param || param instanceof Tone.Signal) {
+                    return param;
+                }
+                return null;
+            }
+        }
+    }
+
+    // ========================================
+    // Clip Scheduling
+    // ========================================
+
+    /**
+     * Schedule every unmuted clip on an unmuted track (or a muted one that
+     * keys a sidechain), then apply the track mix.
+     * Clips whose signature is unchanged keep their schedule; the rest are
+     * (re)built together. Returns false if isStale() reported a newer
+     * schedule mid-way.
+     */
+    async scheduleProject(project: Project, isStale: () => boolean = () => false): Promise<boolean> {
+        const startTime = performance.now();
+        this.setTimeline(project);
+        this.setMasterBus(getMasterBus(project), 0);
+
+        const changed: { clip: Clip; track: Track; signature: string }[] = [];
+        const wanted = new Set<string>();
+        const keyTrackIds = getSidechainKeyTrackIds(project.tracks);
+
+        for (const clip of project.clips) {
+            const track = project.tracks.find((t) => t.id === clip.trackId);
+            if (!track || !isClipScheduled(clip, track, keyTrackIds)) continue;
+
+            wanted.add(clip.id);
+            const signature = getClipSignature(clip, track, project);
+            if (this.scheduledClips.get(clip.id)?.signature !== signature) {
+                changed.push({ clip, track, signature });
+            }
+        }
+
+        // Drop clips that were removed or muted, or whose track was muted (and keys nothing)
+        const removed = this.getScheduledClipIds().filter((clipId) => !wanted.has(clipId));
+        removed.forEach((clipId) => this.unscheduleClip(clipId));
+
+        if (isStale()) return false;
+
+        // Voices load in parallel, so sampler-heavy projects don't wait on each clip in turn
+        await Promise.all(
+            changed.map(({ clip, track, signature }) => this.scheduleClip(clip, track, project, signature))
+        );
+
+        if (isStale()) return false;
+
+        // Anything the changed clips did not take back is no longer needed
+        this.voicePool.trim();
+
+        this.applyTrackMix(project.tracks, 0);
+
+        this.trackAutomation.clear();
+        for (const track of project.tracks) {
+            this.setTrackAutomation(track);
+        }
+
+        logger.debug('Scheduled project', {
+            scheduled: changed.length,
+            kept: wanted.size - changed.length,
+            removed: removed.length,
+            voices: this.voicePool.size,
+            ms: Math.round(performance.now() - startTime),
+        });
+
+        return true;
+    }
+
+    /**
+     * Pick up the project's tempo map and length. Pattern-driven events
+     * follow on the next applyTrackMix.
+     */
+    setTimeline(project: Project): void {
+        this.tempoMap = getTempoMap(project);
+        this.timelineBars = Math.ceil(getProjectEndBar(project)) + 1;
+
+        // Tempo-synced delays follow the opening tempo
+        const bpm = this.getBpm();
+        this.trackChains.forEach((chain) => chain.effects.forEach((slot) => slot.setBpm(bpm)));
+        this.masterEffects.forEach((slot) => slot.setBpm(bpm));
+    }
+
+    private getBpm(): number {
+        return this.tempoMap.getBpmAtBeat(0);
+    }
+
+    async scheduleClip(
+        clip: Clip,
+        track: Track,
+        project: Project,
+        signature: string = getClipSignature(clip, track, project)
+    ): Promise<void> {
+        // Remove any existing schedule for this clip
+        this.unscheduleClip(clip.id);
+
+        const chain = this.getOrCreateTrackChain(track);
+        const scheduled: ScheduledClip = {
+            clipId: clip.id,
+            player: null,
+            compPlayers: [],
+            startBar: clip.startBar,
+            lengthBars: clip.lengthBars,
+            eventIds: [],
+            macroNodes: [],
+            signature,
+        };
+
+        if (clip.type === 'audio' && clip.activeTakeId) {
+            // Clip macros (brightness, space, transpose, energy) sit before the track chain
+            const macroChain = createClipMacroChain(clip, chain.input, this.spaceReturn);
+            scheduled.macroNodes = macroChain.nodes;
+            await this.scheduleAudioClip(clip, macroChain.input, scheduled, project);
+        } else if ((clip.type === 'midi' || clip.type === 'drum') && clip.notes) {
+            // Note clips play through the macro chain of their (shared) voice
+            await this.scheduleMidiClip(clip, track, chain.input, scheduled, project);
+        }
+
+        // An overlapping schedule of the same clip may have finished while we awaited
+        this.unscheduleClip(clip.id);
+        this.scheduledClips.set(clip.id, scheduled);
+    }
+
+    /**
+     * Schedule an audio clip using its AudioTake data
+     */
+    private async scheduleAudioClip(
+        clip: Clip,
+        destination: Tone.ToneAudioNode,
+        scheduled: ScheduledClip,
+        project: Project
+    ): Promise<void> {
+        if (!clip.activeTakeId) return;
+
+        const take = getAudioTake(clip.activeTakeId);
+        if (!take) {
+            logger.warn('AudioTake not found', { takeId: clip.activeTakeId });
+            return;
+        }
+
+        try {
+            const sourceBuffer = await this.decodeTake(take);
+            const tempoMap = getTempoMap(project);
+            const clipStartSeconds = tempoMap.barToSeconds(clip.startBar);
+            const plan = getWarpPlan(clip, sourceBuffer.duration, tempoMap);
+
+            if (isComped(clip)) {
+                await this.scheduleCompSegments(clip, sourceBuffer, plan, clipStartSeconds, destination, scheduled);
+                return;
+            }
+
+            const { buffer, timeScale } = await this.warpTake(take.id, sourceBuffer, plan);
+
+            // Create player and set it to sync with transport
+            const player = new Tone.Player(buffer);
+            player.sync();
+            player.connect(destination);
+
+            // Apply fades (Tone.Player supports simple curves)
+            player.fadeIn = clip.fadeIn || 0;
+            player.fadeOut = clip.fadeOut || 0;
+
+            // Calculate trim/duration (trims are take seconds; the buffer may be warped)
+            const trimStart = (clip.trimStart || 0) * timeScale;
+            const trimEnd = (clip.trimEnd || 0) * timeScale;
+            const playDuration = Math.max(0, buffer.duration - trimStart - trimEnd);
+
+            if (playDuration > 0) {
+                player.start(clipStartSeconds, trimStart, playDuration);
+            }
+
+            scheduled.player = player;
+        } catch (error) {
+            logger.error('Failed to schedule audio clip', { clipId: clip.id, error });
+        }
+    }
+
+    /**
+     * Schedule a comped clip as one player per segment. The active take's
+     * length defines the clip timeline; take boundaries get a short
+     * overlapping crossfade, clip fades apply at the outer edges.
+     */
+    private async scheduleCompSegments(
+        clip: Clip,
+        baseBuffer: Tone.ToneAudioBuffer,
+        plan: WarpPlan,
+        clipStartSeconds: number,
+        destination: Tone.ToneAudioNode,
+        scheduled: ScheduledClip
+    ): Promise<void> {
+        const trimStart = clip.trimStart || 0;
+        const playEnd = baseBuffer.duration - (clip.trimEnd || 0);
+
+        const segments = getCompSegments(clip, baseBuffer.duration)
+            .map((segment) => ({
+                ...segment,
+                start: Math.max(segment.start, trimStart),
+                end: Math.min(segment.end, playEnd),
+            }))
+            .filter((segment) => segment.end > segment.start);
+
+        // Every take gets the base take's warp so they stay aligned
+        const buffers = new Map<string, { buffer: Tone.ToneAudioBuffer; timeScale: number }>([
+            [clip.activeTakeId!, await this.warpTake(clip.activeTakeId!, baseBuffer, plan)],
+        ]);
+
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i];
+            const isFirst = i === 0;
+            const isLast = i === segments.length - 1;
+
+            let warped = buffers.get(segment.takeId);
+            if (!warped) {
+                const take = getAudioTake(segment.takeId);
+                if (!take) {
+                    logger.warn('AudioTake not found', { takeId: segment.takeId });
+                    continue;
+                }
+                warped = await this.warpTake(take.id, await this.decodeTake(take), plan);
+                buffers.set(segment.takeId, warped);
+            }
+
+            // Segment times are take seconds; scale them onto the (warped) buffer
+            const { buffer, timeScale } = warped;
+            const start = segment.start * timeScale;
+            const segmentEnd = isLast ? segment.end : segment.end + COMP_CROSSFADE_SECONDS;
+
+            // Takes can be shorter than the base; play what exists
+            const end = Math.min(buffer.duration, segmentEnd * timeScale);
+            if (end <= start) continue;
+
+            const player = new Tone.Player(buffer);
+            player.sync();
+            player.connect(destination);
+            player.fadeIn = isFirst ? clip.fadeIn || 0 : COMP_CROSSFADE_SECONDS;
+            player.fadeOut = isLast ? clip.fadeOut || 0 : COMP_CROSSFADE_SECONDS;
+            player.start(clipStartSeconds + start - trimStart * timeScale, start, end - start);
+
+            scheduled.compPlayers.push(player);
+        }
+    }
+
+    /**
+     * Apply a clip's warp to a decoded take. timeScale maps take seconds
+     * onto the returned buffer (1 if the warp was skipped or failed).
+     */
+    private async warpTake(
+        takeId: string,
+        buffer: Tone.ToneAudioBuffer,
+        plan: WarpPlan
+    ): Promise<{ buffer: Tone.ToneAudioBuffer; timeScale: number }> {
+        const warped = await timeStretch.warp(takeId, buffer, plan);
+        return { buffer: warped, timeScale: warped === buffer ? 1 : plan.timeScale };
+    }
+
+    /**
+     * Decode a take with this graph's context (realtime or offline)
+     */
+    private async decodeTake(take: AudioTake): Promise<Tone.ToneAudioBuffer> {
+        // Create a proper ArrayBuffer copy from the Uint8Array
+        const arrayBuffer = new ArrayBuffer(take.audioData.byteLength);
+        new Uint8Array(arrayBuffer).set(take.audioData);
+
+        const audioBuffer = await this.context.rawContext.decodeAudioData(arrayBuffer);
+        return new Tone.ToneAudioBuffer(audioBuffer);
+    }
+
+    /**
+     * Sampler for a clip's slice kit, or null if its take is missing
+     */
+    private async createSliceSynth(kit: SliceKit): Promise<Tone.Sampler | null> {
+        const take = getAudioTake(kit.takeId);
+        if (!take) {
+            logger.warn('Slice take not found', { takeId: kit.takeId });
+            return null;
+        }
+
+        return createSliceSampler(await this.decodeTake(take), kit);
+    }
+
+    private async scheduleMidiClip(
+        clip: Clip,
+        track: Track,
+        destination: Tone.ToneAudioNode,
+        scheduled: ScheduledClip,
+        project: Project
+    ): Promise<void> {
+        if (!clip.notes?.length) return;
+
+        // Take a pooled voice: slices first, then clip-level instrument, then track.
+        // Clips with the same instrument and brightness/space share one voice and
+        // its macro chain. The pool waits for samplers to load before handing it over.
+        const sliceKit = clip.sliceKit;
+        const instrumentId = clip.instrumentPreset || getTrackInstrumentId(track);
+        const toneKey = getClipToneKey(clip);
+        const hold = { clipId: clip.id, startBar: clip.startBar, endBar: clip.startBar + clip.lengthBars };
+        const withMacros = (synth: SynthType | null): Voice | null => {
+            if (!synth) return null;
+            const macroChain = createClipMacroChain(clip, destination, this.spaceReturn);
+            synth.connect(macroChain.input);
+            return { synth, nodes: macroChain.nodes };
+        };
+
+        let synth = sliceKit
+            ? await this.voicePool.acquire(track.id, `slices:${JSON.stringify(sliceKit)}|${toneKey}`, hold,
+                async () => withMacros(await this.createSliceSynth(sliceKit)))
+            : null;
+        synth ??= await this.voicePool.acquire(track.id, `${getInstrumentCacheKey(instrumentId)}|${toneKey}`, hold,
+            () => withMacros(createSynthFromPreset(instrumentId)));
+        if (!synth) return;
+
+        scheduled.player = synth;
+
+        const tempoMap = getTempoMap(project);
+        const clipStartBeat = tempoMap.barToBeat(clip.startBar);
+
+        // Check if synth is polyphonic (PolySynth and Sampler can handle multiple notes at same time)
+        const isPolyphonic = synth instanceof Tone.PolySynth || synth instanceof Tone.Sampler;
+
+        // Apply transpose, energy, groove and humanize macros
+        const clipNotes = applyClipMacrosToNotes(clip, clip.notes);
+
+        // Group notes by start time to handle concurrent notes for monophonic synths
+        const notesByTime = new Map<number, typeof clipNotes>();
+        for (const note of clipNotes) {
+            const absoluteTime = tempoMap.beatToSeconds(clipStartBeat + note.startBeat);
+            // Round to avoid floating point issues
+            const timeKey = Math.round(absoluteTime * 10000) / 10000;
+
+            if (!notesByTime.has(timeKey)) {
+                notesByTime.set(timeKey, []);
+            }
+            notesByTime.get(timeKey)!.push(note);
+        }
+
+        // Concurrent notes on a monophonic synth are spread just over a render
+        // block apart. Offline, transport callbacks run up to a block late and
+        // are clamped to the block time, so closer notes would start together and throw.
+        const monophonicOffset = (RENDER_BLOCK_FRAMES * 1.5) / this.context.sampleRate;
+
+        // Schedule notes, adding tiny offsets for monophonic synths with concurrent notes
+        for (const [timeKey, notes] of notesByTime) {
+            notes.forEach((note, index) => {
+                const noteEndBeat = clipStartBeat + note.startBeat + note.duration;
+                const noteDurationSeconds = tempoMap.beatToSeconds(noteEndBeat) - timeKey;
+                const offset = isPolyphonic ? 0 : index * monophonicOffset;
+
+                const eventId = this.transport.schedule((time) => {
+                    if (synth instanceof Tone.NoiseSynth) {
+                        // NoiseSynth has no pitch — just trigger duration and velocity
+                        synth.triggerAttackRelease(noteDurationSeconds, time, note.velocity / 127);
+                    } else {
+                        synth.triggerAttackRelease(
+                            Tone.Frequency(note.pitch, 'midi').toFrequency(),
+                            noteDurationSeconds,
+                            time,
+                            note.velocity / 127
+                        );
+                    }
+                }, timeKey + offset);
+
+                scheduled.eventIds.push(eventId);
+            });
+        }
+    }
+
+    unscheduleClip(clipId: string): void {
+        const scheduled = this.scheduledClips.get(clipId);
+        if (!scheduled) return;
+
+        scheduled.eventIds.forEach((eventId) => this.transport.clear(eventId));
+
+        // Unsync and dispose players; synths go back to the voice pool
+        if (scheduled.player instanceof Tone.Player) {
+            try {
+                // Unsync first to detach from Transport checks that can cause RangeErrors
+                scheduled.player.unsync();
+                scheduled.player.stop();
+            } catch (error) {
+                logger.warn('Error stopping clip player', { clipId, error });
+            } finally {
+                // Always dispose to ensure disconnect
+                scheduled.player.dispose();
+            }
+        } else if (scheduled.player) {
+            this.voicePool.release(clipId);
+        }
+
+        scheduled.compPlayers.forEach((player) => {
+            try {
+                player.unsync();
+                player.stop();
+            } catch (error) {
+                logger.warn('Error stopping comp player', { clipId, error });
+            } finally {
+                player.dispose();
+            }
+        });
+
+        scheduled.macroNodes.forEach((node) => node.dispose());
+
+        this.scheduledClips.delete(clipId);
+    }
+
+    clearAllScheduled(): void {
+        this.scheduledClips.forEach((_, clipId) => {
+            this.unscheduleClip(clipId);
+        });
+    }
+
+    getScheduledClipIds(): string[] {
+        return Array.from(this.scheduledClips.keys());
+    }
+
+    /**
+     * Number of instruments held for note clips (playing and idle)
+     */
+    getVoiceCount(): number {
+        return this.voicePool.size;
+    }
+}
@@ -0,0 +1,123 @@
+// ============================================
+// ComposeYogi — Resampler
+// Band-limited sample rate conversion for exports
+// ============================================
+
+// ============================================
+// Constants
+// ============================================
+
+export const EXPORT_SAMPLE_RATES = [44100, 48000, 96000] as const;
+
+const ZERO_CROSSINGS = 32;        // Kernel half-width, in input samples at unity ratio
+const TABLE_RESOLUTION = 512;     // Kernel samples per input sample
+const KAISER_BETA = 9;            // ~90 dB stopband
+const CUTOFF = 0.95;              // Of the lower Nyquist, leaving room for the transition band
+const CHUNK_SIZE = 32768;         // Output samples between yields to the event loop
+
+// ============================================
+// Kernel
+// ============================================
+
+// Zeroth-order modified Bessel function, for the Kaiser window
+function besselI0(x: number): number {
+    let sum = 1;
+    let term = 1;
+    const half = x / 2;
+    for (let k = 1; k < 50; k++) {
+        term *= (half / k) * (half / k);
+        sum += term;
+        if (term < sum * 1e-12) break;
+    }
+    return sum;
+}
+
+/**
+ * One side of a Kaiser-windowed sinc low-pass, tabulated from 0 to
+ * `halfWidth` input samples
+ */
+function createKernel(cutoff: number, halfWidth: number): Float32Array {
+    const length = Math.ceil(halfWidth * TABLE_RESOLUTION) + 2;
+    const kernel = new Float32Array(length);
+    const norm = besselI0(KAISER_BETA);
+
+    for (let i = 0; i < length; i++) {
+        const x = i / TABLE_RESOLUTION;
+        if (x > halfWidth) break;
+
+        const ratio = x / halfWidth;
+        const window = besselI0(KAISER_BETA * Math.sqrt(1 - ratio * ratio)) / norm;
+        const arg = Math.PI * cutoff * x;
+        const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+        kernel[i] = cutoff * sinc * window;
+    }
+    return kernel;
+}
+
+// ============================================
+// Resampling
+// ============================================
+
+/**
+ * Convert a rendered buffer to another sample rate with a windowed-sinc
+ * filter. Downsampling narrows the filter to the target's Nyquist so
+ * nothing aliases. Yields between chunks so long renders keep the page
+ * responsive; progress is reported 0-100.
+ */
+export async function resampleAudioBuffer(
+    buffer: AudioBuffer,
+    targetRate: number,
+    onProgress?: (progress: number) => void
+): Promise<AudioBuffer> {
+    if (buffer.sampleRate === targetRate) return buffer;
+
+    const ratio = targetRate / buffer.sampleRate;
+    const cutoff = Math.min(1, ratio) * CUTOFF;
+    const halfWidth = ZERO_CROSSINGS / Math.min(1, ratio);
+    const kernel = createKernel(cutoff, halfWidth);
+    const taps = Math.ceil(halfWidth);
+
+    const length = Math.round(buffer.length * ratio);
+    const output = new AudioBuffer({
+        length,
+        numberOfChannels: buffer.numberOfChannels,
+        sampleRate: targetRate,
+    });
+
+    const total = length * buffer.numberOfChannels;
+    let done = 0;
+
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        const input = buffer.getChannelData(ch);
+        const out = output.getChannelData(ch);
+
+        for (let start = 0; start < length; start += CHUNK_SIZE) {
+            const end = Math.min(length, start + CHUNK_SIZE);
+
+            for (let n = start; n < end; n++) {
+                const position = n / ratio;
+                const center = Math.floor(position);
+                const from = Math.max(0, center - taps + 1);
+                const to = Math.min(input.length - 1, center + taps);
+
+                let sum = 0;
+                for (let i = from; i <= to; i++) {
+                    const index = Math.abs(position - i) * TABLE_RESOLUTION;
+                    const whole = Math.floor(index);
+                    if (whole + 1 >= kernel.length) continue;
+
+                    // Linear interpolation between tabulated kernel points
+                    const frac = index - whole;
+                    sum += input[i] * (kernel[whole] + (kernel[whole + 1] - kernel[whole]) * frac);
+                }
+                out[n] = sum;
+            }
+
+            done += end - start;
+            onProgress?.(Math.round((done / total) * 100));
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+    }
+
+    return output;
+}
@@ -0,0 +1,140 @@
+// ============================================
+// ComposeYogi — Sample Analysis
+// Tempo and key detection for imported samples, and matching them to a project
+// ============================================
+
+import { createLogger } from '@/lib/logger';
+import { NOTES } from '@/lib/utils';
+import type { MusicalKey, MusicalScale, SampleAnalysisWorkerResponse } from '@/types';
+
+const log = createLogger('SampleAnalysis');
+
+// ============================================
+// Types
+// ============================================
+
+export interface SampleAnalysis {
+    bpm?: number;
+    key?: string;      // "C", "F#", "Am"… (minor keys end in "m")
+}
+
+export interface SampleKey {
+    root: MusicalKey;
+    minor: boolean;
+}
+
+// Analysis runs on at most this much audio (from the start)
+const MAX_ANALYSIS_SECONDS = 60;
+
+// Scales whose tonic chord is minor
+const MINOR_SCALES: MusicalScale[] = ['minor', 'dorian', 'phrygian', 'locrian', 'blues'];
+
+// Tempos closer than this (percent) count as already matching
+const TEMPO_MATCH_TOLERANCE = 1;
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * Estimate a sample's tempo and key in a worker. Fields are left out
+ * when the estimate isn't confident (one-shots, unpitched drums).
+ */
+export function analyzeAudioBuffer(
+    audioBuffer: AudioBuffer,
+    onProgress?: (progress: number) => void
+): Promise<SampleAnalysis> {
+    if (typeof Worker === 'undefined') {
+        return Promise.resolve({});
+    }
+
+    const length = Math.min(audioBuffer.length, Math.floor(MAX_ANALYSIS_SECONDS * audioBuffer.sampleRate));
+    const channelData: Float32Array[] = [];
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+        channelData.push(audioBuffer.getChannelData(ch).slice(0, length));
+    }
+
+    return new Promise((resolve, reject) => {
+        const worker = new Worker('/workers/audio-analysis-worker.js');
+        const jobId = `analysis_${Date.now()}`;
+
+        worker.onmessage = (e: MessageEvent<SampleAnalysisWorkerResponse>) => {
+            const { type, progress, analysis, error } = e.data;
+
+            switch (type) {
+                case 'progress':
+                    onProgress?.(progress ?? 0);
+                    break;
+                case 'result':
+                    worker.terminate();
+                    log.debug('Analyzed sample', { ...analysis });
+                    resolve(analysis ?? {});
+                    break;
+                case 'error':
+                    worker.terminate();
+                    reject(new Error(error ?? 'Unknown error'));
+                    break;
+            }
+        };
+
+        worker.onerror = (e) => {
+            worker.terminate();
+            reject(new Error(e.message || 'Analysis worker crashed'));
+        };
+
+        worker.postMessage(
+            { type: 'analyze', jobId, data: { channelData, sampleRate: audioBuffer.sampleRate } },
+            channelData.map((channel) => channel.buffer)
+        );
+    });
+}
+
+// ============================================
+// Keys
+// ============================================
+
+export function parseSampleKey(key: string): SampleKey | null {
+    const minor = key.endsWith('m');
+    const root = (minor ? key.slice(0, -1) : key) as MusicalKey;
+    return NOTES.includes(root) ? { root, minor } : null;
+}
+
+/**
+ * Nearest transpose (-6..+5 semitones) that moves a sample's key onto the
+ * project's. Minor samples in major projects (and vice versa) go to the
+ * relative key so the notes still fit the scale.
+ */
+export function getKeyShift(sampleKey: string, projectKey: MusicalKey, projectScale: MusicalScale): number | null {
+    const parsed = parseSampleKey(sampleKey);
+    if (!parsed) return null;
+
+    const projectMinor = MINOR_SCALES.includes(projectScale);
+
+    let target = NOTES.indexOf(projectKey);
+    if (parsed.minor && !projectMinor) target += 9;    // Relative minor
+    if (!parsed.minor && projectMinor) target += 3;    // Relative major
+
+    const shift = (((target - NOTES.indexOf(parsed.root)) % 12) + 12) % 12;
+    return shift > 5 ? shift - 12 : shift;
+}
+
+// ============================================
+// Tempo
+// ============================================
+
+/**
+ * The detected tempo, or its half/double, whichever is closest to the
+ * project's. Detection can't always tell them apart, and stretching by
+ * the smallest amount sounds best.
+ */
+export function getNearestTempo(sampleBpm: number, projectBpm: number): number {
+    const candidates = [sampleBpm / 2, sampleBpm, sampleBpm * 2];
+    return candidates.reduce((best, bpm) =>
+        Math.abs(Math.log2(bpm / projectBpm)) < Math.abs(Math.log2(best / projectBpm)) ? bpm : best
+    );
+}
+
+export function isTempoMatched(sampleBpm: number, projectBpm: number): boolean {
+    const nearest = getNearestTempo(sampleBpm, projectBpm);
+    return (Math.abs(nearest - projectBpm) / projectBpm) * 100 < TEMPO_MATCH_TOLERANCE;
+}
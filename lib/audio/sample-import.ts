@@ -6,6 +6,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { createLogger } from '@/lib/logger';
 import { saveUserSample, listUserSamples, deleteUserSample, loadUserSample } from '@/lib/persistence/db';
+import { analyzeAudioBuffer, type SampleAnalysis } from './sample-analysis';
 import type { UserSample, PeaksCache } from '@/types';
 
 const log = createLogger('SampleImport');
@@ -73,7 +74,7 @@ export function validateAudioFile(file: File): ValidationResult {
 // ============================================
 
 export interface ImportProgress {
-    stage: 'reading' | 'decoding' | 'processing' | 'saving';
+    stage: 'reading' | 'decoding' | 'processing' | 'analyzing' | 'saving';
     progress: number;
 }
 
@@ -126,7 +127,19 @@ export async function importAudioFile(
     // Close audio context
     audioContext.close();
 
-    // Stage 4: Save to IndexedDB
+    // Stage 4: Detect tempo and key (best effort; the sample imports either way)
+    onProgress?.({ stage: 'analyzing', progress: 0 });
+    let analysis: SampleAnalysis = {};
+    try {
+        analysis = await analyzeAudioBuffer(audioBuffer, (p) => {
+            onProgress?.({ stage: 'analyzing', progress: p });
+        });
+    } catch (error) {
+        log.warn('Tempo/key detection failed', { name: file.name, error });
+    }
+    onProgress?.({ stage: 'analyzing', progress: 100 });
+
+    // Stage 5: Save to IndexedDB
     onProgress?.({ stage: 'saving', progress: 0 });
 
     const sample: UserSample = {
@@ -139,6 +152,8 @@ export async function importAudioFile(
         sampleRate: audioBuffer.sampleRate,
         duration: audioBuffer.duration,
         peaks,
+        bpm: analysis.bpm,
+        key: analysis.key,
         createdAt: Date.now(),
     };
 
@@ -150,6 +165,8 @@ export async function importAudioFile(
         name: sample.name,
         duration: sample.duration,
         sampleRate: sample.sampleRate,
+        bpm: sample.bpm,
+        key: sample.key,
     });
 
     return sample;
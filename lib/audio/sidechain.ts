@@ -0,0 +1,271 @@
+// ============================================
+// ComposeYogi — Sidechain Compression
+// Ducking driven by another track or a hidden trigger pattern
+// ============================================
+
+import * as Tone from 'tone';
+import type { Track, TrackEffect } from '@/types';
+import type { TempoMap } from './tempo-map';
+
+// ============================================
+// Types & Constants
+// ============================================
+
+type Transport = ReturnType<typeof Tone.getTransport>;
+
+/**
+ * Where a compressor's detector listens:
+ * its own input ('none'), another track, or a trigger pattern
+ */
+export type SidechainSource = 'none' | 'track' | 'trigger';
+
+export type SidechainPatternId = 'four-on-floor' | 'half-time' | 'downbeat' | 'eighths';
+
+export interface SidechainPattern {
+    id: SidechainPatternId;
+    label: string;
+    getBeats: (beatsPerBar: number) => number[];  // Trigger positions within a bar
+}
+
+export const SIDECHAIN_PATTERNS: SidechainPattern[] = [
+    {
+        id: 'four-on-floor',
+        label: 'Every Beat',
+        getBeats: (beatsPerBar) => Array.from({ length: beatsPerBar }, (_, i) => i),
+    },
+    {
+        id: 'half-time',
+        label: 'Every Other Beat',
+        getBeats: (beatsPerBar) => Array.from({ length: Math.ceil(beatsPerBar / 2) }, (_, i) => i * 2),
+    },
+    {
+        id: 'downbeat',
+        label: 'Downbeat',
+        getBeats: () => [0],
+    },
+    {
+        id: 'eighths',
+        label: 'Eighth Notes',
+        getBeats: (beatsPerBar) => Array.from({ length: beatsPerBar * 2 }, (_, i) => i / 2),
+    },
+];
+
+export interface SidechainCompressorOptions extends Tone.ToneAudioNodeOptions {
+    threshold: number;  // dBFS
+    ratio: number;
+    attack: number;     // seconds
+    release: number;    // seconds
+}
+
+// Resolution of the gain computer curve over the detector's [-1, 1] range
+const GAIN_CURVE_LENGTH = 4096;
+
+/**
+ * Read the sidechain source from a compression effect's params
+ */
+export function getSidechainSource(effect: TrackEffect): SidechainSource {
+    if (effect.type !== 'compression') return 'none';
+
+    const source = effect.params.sidechainSource;
+    if (source === 'track' && effect.params.sidechainTrackId) return 'track';
+    if (source === 'trigger') return 'trigger';
+    return 'none';
+}
+
+/**
+ * Tracks that key a sidechain compressor on another track. They keep
+ * playing into the key while muted or not soloed.
+ */
+export function getSidechainKeyTrackIds(tracks: Track[]): Set<string> {
+    const keyTrackIds = new Set<string>();
+    for (const track of tracks) {
+        for (const effect of track.effects ?? []) {
+            const sourceId = effect.params.sidechainTrackId;
+            if (getSidechainSource(effect) === 'track' && sourceId !== track.id) keyTrackIds.add(sourceId);
+        }
+    }
+    return keyTrackIds;
+}
+
+export function getSidechainPattern(id: string | undefined): SidechainPattern {
+    return SIDECHAIN_PATTERNS.find((p) => p.id === id) ?? SIDECHAIN_PATTERNS[0];
+}
+
+/**
+ * Static compressor curve: gain multiplier for a detector amplitude
+ */
+export function getSidechainGain(amplitude: number, threshold: number, ratio: number): number {
+    if (amplitude <= 0) return 1;
+
+    const over = 20 * Math.log10(amplitude) - threshold;
+    if (over <= 0) return 1;
+
+    const reductionDb = over * (1 - 1 / Math.max(1, ratio));
+    return Math.pow(10, -reductionDb / 20);
+}
+
+// ============================================
+// Sidechain Compressor
+// ============================================
+
+/**
+ * Compressor whose gain reduction is keyed by an external signal.
+ *
+ * key -> sidechain -> follower -> gain computer -> duck.gain
+ * input -> duck -> output
+ *
+ * The follower is symmetric, so its smoothing is the mean of attack and
+ * release. Trigger patterns skip the detector and schedule the same
+ * reduction a full-scale key would cause directly on the transport,
+ * bar by bar from the tempo map so meter and tempo changes are followed.
+ */
+export class SidechainCompressor extends Tone.ToneAudioNode<SidechainCompressorOptions> {
+    readonly name: string = 'SidechainCompressor';
+
+    readonly input: Tone.Gain;
+    readonly output: Tone.Gain;
+
+    /** Detector input; connect the key signal here */
+    readonly sidechain: Tone.Gain;
+
+    private readonly duck: Tone.Gain;
+    private readonly follower: Tone.Follower;
+    private readonly gainComputer: Tone.WaveShaper;
+    private readonly settings: Omit<SidechainCompressorOptions, 'context'>;
+
+    private keySource: Tone.ToneAudioNode | null = null;
+    private triggerTransport: Transport | null = null;
+    private triggerEventIds: number[] = [];
+    private triggerKey: string | null = null;
+
+    constructor(options: Partial<SidechainCompressorOptions> = {}) {
+        super(options);
+
+        this.settings = {
+            threshold: options.threshold ?? -24,
+            ratio: options.ratio ?? 4,
+            attack: options.attack ?? 0.01,
+            release: options.release ?? 0.15,
+        };
+
+        this.duck = this.input = this.output = new Tone.Gain({ context: this.context, gain: 1 });
+
+        this.sidechain = new Tone.Gain({ context: this.context });
+        this.follower = new Tone.Follower({
+            context: this.context,
+            smoothing: (this.settings.attack + this.settings.release) / 2,
+        });
+
+        const { threshold, ratio } = this.settings;
+        this.gainComputer = new Tone.WaveShaper({
+            context: this.context,
+            mapping: (amplitude) => getSidechainGain(amplitude, threshold, ratio),
+            length: GAIN_CURVE_LENGTH,
+        });
+
+        this.sidechain.chain(this.follower, this.gainComputer);
+    }
+
+    /**
+     * Change the compressor settings in place, keeping the key connection
+     * and any trigger pattern. Trigger events read the settings when they fire.
+     */
+    set(props: Partial<SidechainCompressorOptions>): this {
+        const { threshold, ratio, attack, release } = { ...this.settings, ...props };
+
+        if (threshold !== this.settings.threshold || ratio !== this.settings.ratio) {
+            this.gainComputer.setMap((amplitude) => getSidechainGain(amplitude, threshold, ratio), GAIN_CURVE_LENGTH);
+        }
+        if (attack !== this.settings.attack || release !== this.settings.release) {
+            this.follower.smoothing = (attack + release) / 2;
+        }
+
+        Object.assign(this.settings, { threshold, ratio, attack, release });
+        return this;
+    }
+
+    /**
+     * Key the detector from another node (or nothing). Replaces any
+     * trigger pattern.
+     */
+    setKeySource(source: Tone.ToneAudioNode | null): void {
+        this.clearTriggerPattern();
+        if (source === this.keySource) return;
+
+        if (this.keySource) {
+            try {
+                this.keySource.disconnect(this.sidechain);
+            } catch {
+                // Source was already disposed
+            }
+        }
+
+        this.keySource = source;
+        if (source) {
+            source.connect(this.sidechain);
+            // The gain computer takes over the duck gain (signals override the param value)
+            this.gainComputer.connect(this.duck.gain);
+        } else {
+            this.gainComputer.disconnect();
+            this.duck.gain.value = 1;
+        }
+    }
+
+    /**
+     * Duck on a per-bar pattern scheduled on the given transport for the
+     * first `lengthBars` bars of the tempo map
+     */
+    setTriggerPattern(
+        transport: Transport,
+        patternId: SidechainPatternId,
+        tempoMap: TempoMap,
+        lengthBars: number
+    ): void {
+        const pattern = getSidechainPattern(patternId);
+        const key = `${pattern.id}|${tempoMap.key}|${lengthBars}`;
+        if (this.triggerTransport === transport && this.triggerKey === key) return;
+
+        this.setKeySource(null);
+
+        this.triggerTransport = transport;
+        this.triggerKey = key;
+
+        for (let bar = 0; bar < lengthBars; bar++) {
+            const barStartBeat = tempoMap.barToBeat(bar);
+
+            for (const beat of pattern.getBeats(tempoMap.getBeatsPerBarAt(bar))) {
+                const eventId = transport.schedule((time) => {
+                    const { threshold, ratio, attack, release } = this.settings;
+                    const floorGain = getSidechainGain(1, threshold, ratio);
+                    this.duck.gain.setTargetAtTime(floorGain, time, attack / 3);
+                    this.duck.gain.setTargetAtTime(1, time + attack, release / 3);
+                }, tempoMap.beatToSeconds(barStartBeat + beat));
+
+                this.triggerEventIds.push(eventId);
+            }
+        }
+    }
+
+    private clearTriggerPattern(): void {
+        if (this.triggerTransport && this.triggerEventIds.length > 0) {
+            for (const eventId of this.triggerEventIds) {
+                this.triggerTransport.clear(eventId);
+            }
+            this.duck.gain.cancelScheduledValues(0);
+            this.duck.gain.value = 1;
+        }
+        this.triggerTransport = null;
+        this.triggerEventIds = [];
+        this.triggerKey = null;
+    }
+
+    dispose(): this {
+        super.dispose();
+        this.clearTriggerPattern();
+        this.duck.dispose();
+        this.sidechain.dispose();
+        this.follower.dispose();
+        this.gainComputer.dispose();
+        return this;
+    }
+}
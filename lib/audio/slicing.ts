@@ -0,0 +1,234 @@
+// ============================================
+// ComposeYogi — Slicing
+// Transient slicing of audio clips: split into clips, or play the slices
+// from a MIDI clip (REX-style)
+// ============================================
+
+import * as Tone from 'tone';
+import { v4 as uuid } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import { useProjectStore } from '@/lib/store/project';
+import { autosaveManager } from '@/lib/persistence';
+import { getAudioTake, registerAudioTake } from './recording-manager';
+import { getTempoMap } from './tempo-map';
+import { getWarpPlan } from './time-stretch';
+import type { AudioTake, AudioToMidiWorkerResponse, AudioTransient, Clip, Note, SliceKit } from '@/types';
+
+const log = createLogger('Slicing');
+
+// ============================================
+// Types
+// ============================================
+
+export type SliceRegion = SliceKit['slices'][number];
+
+export const DEFAULT_SLICE_SENSITIVITY = 50;
+
+// First slice plays on C1, like REX players and drum pads
+export const SLICE_ROOT_PITCH = 36;
+export const MAX_SLICES = 128 - SLICE_ROOT_PITCH;
+
+// Strength a transient needs at 0% sensitivity (100% keeps every candidate)
+const MAX_STRENGTH_THRESHOLD = 0.6;
+
+// Shortest slice kept (seconds)
+const MIN_SLICE_SECONDS = 0.03;
+
+const SLICE_VELOCITY = 100;
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * Find candidate slice points in a worker. Sensitivity is applied
+ * afterwards by getSlicePoints, so it can change without re-running.
+ */
+export function detectTransients(
+    audioBuffer: AudioBuffer,
+    onProgress?: (progress: number) => void
+): Promise<AudioTransient[]> {
+    if (typeof Worker === 'undefined') {
+        return Promise.reject(new Error('Web Workers are not supported'));
+    }
+
+    const channelData: Float32Array[] = [];
+    for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+        channelData.push(audioBuffer.getChannelData(ch).slice());
+    }
+
+    return new Promise((resolve, reject) => {
+        const worker = new Worker('/workers/audio-to-midi-worker.js');
+        const jobId = `transients_${Date.now()}`;
+
+        worker.onmessage = (e: MessageEvent<AudioToMidiWorkerResponse>) => {
+            const { type, progress, transients, error } = e.data;
+
+            switch (type) {
+                case 'progress':
+                    onProgress?.(progress ?? 0);
+                    break;
+                case 'result':
+                    worker.terminate();
+                    resolve(transients ?? []);
+                    break;
+                case 'error':
+                    worker.terminate();
+                    reject(new Error(error ?? 'Unknown error'));
+                    break;
+            }
+        };
+
+        worker.onerror = (e) => {
+            worker.terminate();
+            reject(new Error(e.message || 'Transient worker crashed'));
+        };
+
+        worker.postMessage(
+            { type: 'transients', jobId, data: { channelData, sampleRate: audioBuffer.sampleRate } },
+            channelData.map((channel) => channel.buffer)
+        );
+    });
+}
+
+/**
+ * Slice points (take seconds) strictly inside [from, to] for a
+ * sensitivity of 0-100
+ */
+export function getSlicePoints(
+    transients: AudioTransient[],
+    sensitivity: number,
+    from: number,
+    to: number
+): number[] {
+    const threshold = MAX_STRENGTH_THRESHOLD * (1 - sensitivity / 100);
+    const points: number[] = [];
+
+    for (const { time, strength } of transients) {
+        if (strength < threshold) continue;
+        if (time < from + MIN_SLICE_SECONDS || time > to - MIN_SLICE_SECONDS) continue;
+        if (points.length > 0 && time - points[points.length - 1] < MIN_SLICE_SECONDS) continue;
+        points.push(time);
+    }
+
+    return points;
+}
+
+export function getSliceRegions(points: number[], from: number, to: number): SliceRegion[] {
+    const bounds = [from, ...points, to];
+    return bounds.slice(0, -1).map((start, i) => ({ start, end: bounds[i + 1] }));
+}
+
+// ============================================
+// Split
+// ============================================
+
+/**
+ * Split an audio clip at slice points (take seconds). Returns the
+ * pieces in timeline order.
+ */
+export function splitClipAtSlices(clipId: string, points: number[], sourceDuration: number): Clip[] {
+    const store = useProjectStore.getState();
+    const clip = store.project?.clips.find((c) => c.id === clipId);
+    if (!store.project || !clip || clip.type !== 'audio') return [];
+
+    const tempoMap = getTempoMap(store.project);
+    const { timeScale } = getWarpPlan(clip, sourceDuration, tempoMap);
+    const trimStart = clip.trimStart || 0;
+
+    // Right to left, so the original clip keeps its id as the first piece
+    const pieces: Clip[] = [];
+    for (const point of [...points].sort((a, b) => b - a)) {
+        const bar = clip.startBar + tempoMap.durationToBars(clip.startBar, (point - trimStart) * timeScale);
+        const result = store.splitClip(clip.id, bar, { sourceDuration, timeScale });
+        if (result) pieces.unshift(result[1]);
+    }
+
+    const first = useProjectStore.getState().project?.clips.find((c) => c.id === clip.id);
+    if (first) pieces.unshift(first);
+
+    log.info('Split clip at slices', { clipId, pieces: pieces.length });
+    return pieces;
+}
+
+// ============================================
+// Slice Sampler
+// ============================================
+
+/**
+ * Put the slices on a new track below the source: a MIDI clip whose
+ * notes replay the original rhythm, one pitch per slice from
+ * SLICE_ROOT_PITCH up. The clip keeps its own copy of the take.
+ */
+export async function sliceClipToSampler(clipId: string, regions: SliceRegion[]): Promise<Clip> {
+    const store = useProjectStore.getState();
+    const project = store.project;
+    const clip = project?.clips.find((c) => c.id === clipId);
+    const sourceTrack = project?.tracks.find((t) => t.id === clip?.trackId);
+    if (!project || !clip || !sourceTrack || !clip.activeTakeId) throw new Error('Audio clip not found');
+    if (regions.length > MAX_SLICES) throw new Error(`Too many slices (max ${MAX_SLICES})`);
+
+    const sourceTake = getAudioTake(clip.activeTakeId);
+    if (!sourceTake) throw new Error('Audio take not found');
+
+    const tempoMap = getTempoMap(project);
+    const { timeScale } = getWarpPlan(clip, sourceTake.duration, tempoMap);
+    const clipStartBeat = tempoMap.barToBeat(clip.startBar);
+    const clipStartSeconds = tempoMap.beatToSeconds(clipStartBeat);
+    const clipBeats = tempoMap.barToBeat(clip.startBar + clip.lengthBars) - clipStartBeat;
+    const toBeat = (seconds: number) =>
+        tempoMap.secondsToBeat(clipStartSeconds + (seconds - (clip.trimStart || 0)) * timeScale) - clipStartBeat;
+
+    const notes: Note[] = regions
+        .map((region, i) => ({
+            id: uuid(),
+            pitch: SLICE_ROOT_PITCH + i,
+            startBeat: toBeat(region.start),
+            duration: toBeat(region.end) - toBeat(region.start),
+            velocity: SLICE_VELOCITY,
+        }))
+        .filter((note) => note.startBeat >= 0 && note.startBeat < clipBeats)
+        .map((note) => ({ ...note, duration: Math.min(note.duration, clipBeats - note.startBeat) }));
+
+    const track = store.addTrack('midi', `${sourceTrack.name} Slices`, sourceTrack.color);
+
+    // Move the new track just below its source
+    const ordered = [...project.tracks].sort((a, b) => a.order - b.order).map((t) => t.id);
+    ordered.splice(ordered.indexOf(sourceTrack.id) + 1, 0, track.id);
+    store.reorderTracks(ordered);
+
+    const newClip = store.addClip(track.id, 'midi', clip.startBar, clip.lengthBars);
+
+    const take: AudioTake = {
+        ...sourceTake,
+        id: uuid(),
+        clipId: newClip.id,
+        createdAt: Date.now(),
+    };
+    registerAudioTake(take);
+    await autosaveManager.saveAudioTakeImmediate(take);
+
+    const updates: Partial<Clip> = {
+        name: `${clip.name} Slices`,
+        audioTakeIds: [take.id],
+        sliceKit: { takeId: take.id, slices: regions, rootPitch: SLICE_ROOT_PITCH },
+        notes,
+    };
+    store.updateClip(newClip.id, updates);
+
+    log.info('Sliced clip to sampler', { clipId, newClipId: newClip.id, slices: regions.length });
+    return { ...newClip, ...updates };
+}
+
+/**
+ * Sampler that plays each slice of a decoded take on its own pitch
+ */
+export function createSliceSampler(buffer: Tone.ToneAudioBuffer, kit: SliceKit): Tone.Sampler {
+    const urls: Record<number, Tone.ToneAudioBuffer> = {};
+    kit.slices.forEach((slice, i) => {
+        const end = Math.min(slice.end, buffer.duration);
+        if (end > slice.start) urls[kit.rootPitch + i] = buffer.slice(slice.start, end);
+    });
+
+    return new Tone.Sampler({ urls, attack: 0, release: 0.05 });
+}
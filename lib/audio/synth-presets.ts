@@ -1,9 +1,15 @@
 // ============================================
 // ComposeYogi — Synth Presets
-// Tone.js synthesizer configurations
+// Factory patches and the Tone.js synths built from them
 // ============================================
 
 import * as Tone from 'tone';
+import { createLogger } from '@/lib/logger';
+import { UserSampler, createUserSampler, parseSamplerInstrumentId, samplerPresets } from './user-sampler';
+import { userSynthPresets, parseUserSynthInstrumentId } from './user-synth-presets';
+import type { SynthPatch, SynthPresetCategory, SynthVoiceType } from '@/types';
+
+const logger = createLogger('SynthPresets');
 
 // ============================================
 // Types
@@ -15,467 +21,561 @@ export type SynthType = Tone.PolySynth | Tone.MonoSynth | Tone.MembraneSynth | T
 export interface SynthPreset {
     id: string;
     name: string;
-    category: 'synth' | 'keys' | 'bass' | 'pad' | 'lead' | 'drums' | 'idiophones' | 'plucked-strings' | 'bowed-strings' | 'wind';
-    createSynth: () => SynthType;
+    category: SynthPresetCategory;
+    patch: SynthPatch;
+}
+
+// ============================================
+// Synth Factory
+// ============================================
+
+// Tone merges options over its defaults, and an undefined value would
+// replace the default, so only pass the fields a patch sets
+const definedOptions = <T,>(options: Record<string, unknown>): Partial<T> =>
+    Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+/**
+ * Build the Tone.js synth a patch describes. Tonal voices are wrapped in
+ * a PolySynth; membrane, noise and sampler voices are used directly.
+ */
+export function createSynthFromPatch(patch: SynthPatch): SynthType {
+    const { voice, volume = 0, oscillator, envelope } = patch;
+
+    switch (voice) {
+        case 'mono':
+            return new Tone.PolySynth(Tone.MonoSynth, definedOptions<Tone.MonoSynthOptions>({
+                volume,
+                oscillator,
+                envelope,
+                filter: patch.filter,
+                filterEnvelope: patch.filterEnvelope,
+            }));
+        case 'fm':
+            return new Tone.PolySynth(Tone.FMSynth, definedOptions<Tone.FMSynthOptions>({
+                volume,
+                oscillator,
+                envelope,
+                harmonicity: patch.harmonicity,
+                modulationIndex: patch.modulationIndex,
+                modulation: patch.modulation,
+                modulationEnvelope: patch.modulationEnvelope,
+            }));
+        case 'am':
+            return new Tone.PolySynth(Tone.AMSynth, definedOptions<Tone.AMSynthOptions>({
+                volume,
+                oscillator,
+                envelope,
+                harmonicity: patch.harmonicity,
+                modulation: patch.modulation,
+                modulationEnvelope: patch.modulationEnvelope,
+            }));
+        case 'membrane':
+            return new Tone.MembraneSynth(definedOptions<Tone.MembraneSynthOptions>({
+                volume,
+                oscillator,
+                envelope,
+                pitchDecay: patch.pitchDecay,
+                octaves: patch.octaves,
+            }));
+        case 'noise':
+            return new Tone.NoiseSynth(definedOptions<Tone.NoiseSynthOptions>({
+                volume,
+                noise: patch.noise,
+                envelope,
+            }));
+        case 'sampler':
+            return new Tone.Sampler(definedOptions<Tone.SamplerOptions>({
+                volume,
+                urls: patch.urls ?? {},
+                baseUrl: patch.baseUrl,
+                attack: envelope?.attack,
+                release: envelope?.release,
+            }));
+        case 'synth':
+        default:
+            return new Tone.PolySynth(Tone.Synth, definedOptions<Tone.SynthOptions>({
+                volume,
+                oscillator,
+                envelope,
+            }));
+    }
+}
+
+// Sections a voice reads beyond volume, oscillator and envelope, with
+// starting values for when a patch switches to that voice
+const VOICE_SECTIONS: Record<SynthVoiceType, Partial<SynthPatch>> = {
+    synth: {},
+    mono: {
+        filter: { type: 'lowpass', Q: 1, rolloff: -12 },
+        filterEnvelope: { attack: 0.01, decay: 0.2, sustain: 0.5, release: 0.3, baseFrequency: 300, octaves: 3 },
+    },
+    fm: {
+        harmonicity: 3,
+        modulationIndex: 10,
+        modulation: { type: 'sine' },
+        modulationEnvelope: { attack: 0.01, decay: 0.3, sustain: 0.5, release: 0.5 },
+    },
+    am: {
+        harmonicity: 2,
+        modulation: { type: 'sine' },
+        modulationEnvelope: { attack: 0.01, decay: 0.3, sustain: 0.5, release: 0.5 },
+    },
+    membrane: { pitchDecay: 0.05, octaves: 4 },
+    noise: { noise: { type: 'white' } },
+    sampler: {},
+};
+
+/**
+ * Same patch on another voice: shared sections are kept, the new voice's
+ * own sections are kept if present or filled with defaults
+ */
+export function changePatchVoice(patch: SynthPatch, voice: SynthVoiceType): SynthPatch {
+    const sections = Object.entries(VOICE_SECTIONS[voice]).map(([key, value]) =>
+        [key, patch[key as keyof SynthPatch] ?? structuredClone(value)]);
+
+    return {
+        voice,
+        volume: patch.volume,
+        oscillator: voice === 'noise' || voice === 'sampler' ? undefined : patch.oscillator ?? { type: 'triangle' },
+        envelope: patch.envelope,
+        ...Object.fromEntries(sections),
+    };
 }
 
 // ============================================
-// Synth Factory Functions
+// Factory Patches
 // ============================================
 
 // Keys & Pianos - Use PolySynth with basic Synth (works reliably)
-const createElectricPiano = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'sine' },
-        envelope: {
-            attack: 0.005,
-            decay: 0.8,
-            sustain: 0.2,
-            release: 1.2,
-        },
-    });
-};
-
-const createBrightPiano = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'triangle' },
-        envelope: {
-            attack: 0.005,
-            decay: 0.5,
-            sustain: 0.3,
-            release: 1.0,
-        },
-    });
+const electricPianoPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'sine' },
+    envelope: {
+        attack: 0.005,
+        decay: 0.8,
+        sustain: 0.2,
+        release: 1.2,
+    },
+};
+
+const brightPianoPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'triangle' },
+    envelope: {
+        attack: 0.005,
+        decay: 0.5,
+        sustain: 0.3,
+        release: 1.0,
+    },
 };
 
 // Bass - Use PolySynth wrapping MonoSynth for polyphony with filter envelope
-const createSubBass = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'sine' },
-        envelope: {
-            attack: 0.005,
-            decay: 0.5,
-            sustain: 0.8,
-            release: 0.3,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.1,
-            sustain: 1,
-            release: 0.3,
-            baseFrequency: 80,
-            octaves: 1,
-        },
-    });
-};
-
-const createSynthBass = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-            attack: 0.01,
-            decay: 0.3,
-            sustain: 0.4,
-            release: 0.2,
-        },
-        filterEnvelope: {
-            attack: 0.01,
-            decay: 0.2,
-            sustain: 0.3,
-            release: 0.2,
-            baseFrequency: 200,
-            octaves: 2.5,
-        },
-    });
+const subBassPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'sine' },
+    envelope: {
+        attack: 0.005,
+        decay: 0.5,
+        sustain: 0.8,
+        release: 0.3,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.1,
+        sustain: 1,
+        release: 0.3,
+        baseFrequency: 80,
+        octaves: 1,
+    },
+};
+
+const synthBassPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'sawtooth' },
+    envelope: {
+        attack: 0.01,
+        decay: 0.3,
+        sustain: 0.4,
+        release: 0.2,
+    },
+    filterEnvelope: {
+        attack: 0.01,
+        decay: 0.2,
+        sustain: 0.3,
+        release: 0.2,
+        baseFrequency: 200,
+        octaves: 2.5,
+    },
 };
 
 // Leads
-const createSawLead = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-            attack: 0.01,
-            decay: 0.2,
-            sustain: 0.6,
-            release: 0.3,
-        },
-    });
-};
-
-const createSquareLead = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'square' },
-        envelope: {
-            attack: 0.02,
-            decay: 0.15,
-            sustain: 0.5,
-            release: 0.4,
-        },
-    });
+const sawLeadPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'sawtooth' },
+    envelope: {
+        attack: 0.01,
+        decay: 0.2,
+        sustain: 0.6,
+        release: 0.3,
+    },
+};
+
+const squareLeadPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'square' },
+    envelope: {
+        attack: 0.02,
+        decay: 0.15,
+        sustain: 0.5,
+        release: 0.4,
+    },
 };
 
 // Pads
-const createWarmPad = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'sine' },
-        envelope: {
-            attack: 0.8,
-            decay: 0.5,
-            sustain: 0.9,
-            release: 2.0,
-        },
-    });
-};
-
-const createStringPad = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'fatsawtooth', spread: 20, count: 3 },
-        envelope: {
-            attack: 1.0,
-            decay: 0.3,
-            sustain: 0.8,
-            release: 2.5,
-        },
-    });
+const warmPadPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'sine' },
+    envelope: {
+        attack: 0.8,
+        decay: 0.5,
+        sustain: 0.9,
+        release: 2.0,
+    },
+};
+
+const stringPadPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'fatsawtooth', spread: 20, count: 3 },
+    envelope: {
+        attack: 1.0,
+        decay: 0.3,
+        sustain: 0.8,
+        release: 2.5,
+    },
 };
 
 // Keys - Organ (sustained drawbar harmonics)
-const createOrgan = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'custom', partials: [1, 0.8, 0.6, 0.4, 0.3, 0.2] },
-        envelope: {
-            attack: 0.01,
-            decay: 0.01,
-            sustain: 1.0,
-            release: 0.15,
-        },
-    });
+const organPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'custom', partials: [1, 0.8, 0.6, 0.4, 0.3, 0.2] },
+    envelope: {
+        attack: 0.01,
+        decay: 0.01,
+        sustain: 1.0,
+        release: 0.15,
+    },
 };
 
 // Keys - Clavinet (percussive, funky bite)
-const createClavinet = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'pulse' },
-        envelope: {
-            attack: 0.002,
-            decay: 0.3,
-            sustain: 0.1,
-            release: 0.15,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.15,
-            sustain: 0.1,
-            release: 0.1,
-            baseFrequency: 800,
-            octaves: 2,
-        },
-    });
+const clavinetPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'pulse' },
+    envelope: {
+        attack: 0.002,
+        decay: 0.3,
+        sustain: 0.1,
+        release: 0.15,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.15,
+        sustain: 0.1,
+        release: 0.1,
+        baseFrequency: 800,
+        octaves: 2,
+    },
 };
 
 // Bass - FM Bass (metallic, growly)
-const createFMBass = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 1,
-        modulationIndex: 8,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'square' },
-        envelope: {
-            attack: 0.01,
-            decay: 0.4,
-            sustain: 0.3,
-            release: 0.2,
-        },
-        modulationEnvelope: {
-            attack: 0.01,
-            decay: 0.2,
-            sustain: 0.1,
-            release: 0.2,
-        },
-    });
+const fMBassPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 1,
+    modulationIndex: 8,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'square' },
+    envelope: {
+        attack: 0.01,
+        decay: 0.4,
+        sustain: 0.3,
+        release: 0.2,
+    },
+    modulationEnvelope: {
+        attack: 0.01,
+        decay: 0.2,
+        sustain: 0.1,
+        release: 0.2,
+    },
 };
 
 // Bass - Pluck Bass (short pizzicato)
-const createPluckBass = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'triangle' },
-        envelope: {
-            attack: 0.005,
-            decay: 0.25,
-            sustain: 0.05,
-            release: 0.1,
-        },
-        filterEnvelope: {
-            attack: 0.002,
-            decay: 0.15,
-            sustain: 0.05,
-            release: 0.1,
-            baseFrequency: 300,
-            octaves: 3,
-        },
-    });
+const pluckBassPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'triangle' },
+    envelope: {
+        attack: 0.005,
+        decay: 0.25,
+        sustain: 0.05,
+        release: 0.1,
+    },
+    filterEnvelope: {
+        attack: 0.002,
+        decay: 0.15,
+        sustain: 0.05,
+        release: 0.1,
+        baseFrequency: 300,
+        octaves: 3,
+    },
 };
 
 // Leads - FM Lead (bell-like, metallic)
-const createFMLead = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 3,
-        modulationIndex: 10,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.01,
-            decay: 0.3,
-            sustain: 0.5,
-            release: 0.5,
-        },
-        modulationEnvelope: {
-            attack: 0.02,
-            decay: 0.4,
-            sustain: 0.2,
-            release: 0.3,
-        },
-    });
+const fMLeadPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 3,
+    modulationIndex: 10,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.01,
+        decay: 0.3,
+        sustain: 0.5,
+        release: 0.5,
+    },
+    modulationEnvelope: {
+        attack: 0.02,
+        decay: 0.4,
+        sustain: 0.2,
+        release: 0.3,
+    },
 };
 
 // Leads - Pulse Lead (PWM feel)
-const createPulseLead = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'pulse', width: 0.3 },
-        envelope: {
-            attack: 0.02,
-            decay: 0.15,
-            sustain: 0.7,
-            release: 0.3,
-        },
-    });
+const pulseLeadPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'pulse', width: 0.3 },
+    envelope: {
+        attack: 0.02,
+        decay: 0.15,
+        sustain: 0.7,
+        release: 0.3,
+    },
 };
 
 // Pads - Choir Pad (detuned voices, vocal-like)
-const createChoirPad = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.AMSynth, {
-        harmonicity: 2,
-        oscillator: { type: 'fatsine', spread: 30, count: 3 },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 1.2,
-            decay: 0.5,
-            sustain: 0.85,
-            release: 3.0,
-        },
-        modulationEnvelope: {
-            attack: 0.8,
-            decay: 0.3,
-            sustain: 0.7,
-            release: 2.0,
-        },
-    });
+const choirPadPatch: SynthPatch = {
+    voice: 'am',
+    harmonicity: 2,
+    oscillator: { type: 'fatsine', spread: 30, count: 3 },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 1.2,
+        decay: 0.5,
+        sustain: 0.85,
+        release: 3.0,
+    },
+    modulationEnvelope: {
+        attack: 0.8,
+        decay: 0.3,
+        sustain: 0.7,
+        release: 2.0,
+    },
 };
 
 // Pads - Glass Pad (crystalline shimmer)
-const createGlassPad = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 5,
-        modulationIndex: 4,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'triangle' },
-        envelope: {
-            attack: 0.6,
-            decay: 0.8,
-            sustain: 0.7,
-            release: 2.5,
-        },
-        modulationEnvelope: {
-            attack: 0.5,
-            decay: 0.6,
-            sustain: 0.3,
-            release: 2.0,
-        },
-    });
+const glassPadPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 5,
+    modulationIndex: 4,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'triangle' },
+    envelope: {
+        attack: 0.6,
+        decay: 0.8,
+        sustain: 0.7,
+        release: 2.5,
+    },
+    modulationEnvelope: {
+        attack: 0.5,
+        decay: 0.6,
+        sustain: 0.3,
+        release: 2.0,
+    },
 };
 
 // Synth - Pluck (short, harp/guitar-like)
-const createPluckSynth = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.4,
-            sustain: 0.0,
-            release: 0.2,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.25,
-            sustain: 0.0,
-            release: 0.15,
-            baseFrequency: 600,
-            octaves: 4,
-        },
-    });
+const pluckSynthPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'sawtooth' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.4,
+        sustain: 0.0,
+        release: 0.2,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.25,
+        sustain: 0.0,
+        release: 0.15,
+        baseFrequency: 600,
+        octaves: 4,
+    },
 };
 
 // Synth - Bell (FM bell harmonics)
-const createBellSynth = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 5.07,
-        modulationIndex: 14,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 2.0,
-            sustain: 0.0,
-            release: 1.5,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 1.5,
-            sustain: 0.0,
-            release: 1.0,
-        },
-    });
+const bellSynthPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 5.07,
+    modulationIndex: 14,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 2.0,
+        sustain: 0.0,
+        release: 1.5,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 1.5,
+        sustain: 0.0,
+        release: 1.0,
+    },
 };
 
 // Basic Synth
-const createBasicSynth = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'triangle' },
-        envelope: {
-            attack: 0.02,
-            decay: 0.1,
-            sustain: 0.5,
-            release: 0.4,
-        },
-    });
+const basicSynthPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'triangle' },
+    envelope: {
+        attack: 0.02,
+        decay: 0.1,
+        sustain: 0.5,
+        release: 0.4,
+    },
 };
 
 // Drum Sampler - Maps GM drum pitches to actual samples
 // GM Drum mapping: 36=kick, 38=snare, 42=closed hat, 46=open hat, 37=rim, 39=clap
-const createDrumSampler = (): Tone.Sampler => {
-    const sampler = new Tone.Sampler({
-        urls: {
-            // Kicks (GM: 35-36)
-            C1: 'kick-deep.wav',      // 36 - Kick
-            B0: 'kick-808.wav',       // 35 - Acoustic Bass Drum
-            // Snares (GM: 38-40)
-            D1: 'snare-crisp.wav',    // 38 - Snare
-            E1: 'snare-clap.wav',     // 40 - Electric Snare / Clap
-            // Rim (GM: 37)
-            'C#1': 'perc-rim.wav',    // 37 - Side Stick
-            // Hi-hats (GM: 42, 44, 46)
-            'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
-            'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
-            'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
-            // Shaker
-            'D#2': 'perc-shaker.wav',  // 51 - Ride Cymbal (using shaker)
-        },
-        baseUrl: '/samples/drums/',
-        release: 0.5,
-    });
-    return sampler;
+const drumSamplerPatch: SynthPatch = {
+    voice: 'sampler',
+    urls: {
+        // Kicks (GM: 35-36)
+        C1: 'kick-deep.wav',      // 36 - Kick
+        B0: 'kick-808.wav',       // 35 - Acoustic Bass Drum
+        // Snares (GM: 38-40)
+        D1: 'snare-crisp.wav',    // 38 - Snare
+        E1: 'snare-clap.wav',     // 40 - Electric Snare / Clap
+        // Rim (GM: 37)
+        'C#1': 'perc-rim.wav',    // 37 - Side Stick
+        // Hi-hats (GM: 42, 44, 46)
+        'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
+        'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
+        'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
+        // Shaker
+        'D#2': 'perc-shaker.wav',  // 51 - Ride Cymbal (using shaker)
+    },
+    baseUrl: '/samples/drums/',
+    envelope: { attack: 0, decay: 0, sustain: 1, release: 0.5 },
 };
 
 // Punchy Drum - Fully synthesized punchy kit with its own unique samples
-const createPunchyKit = (): Tone.Sampler => {
-    return new Tone.Sampler({
-        urls: {
-            C1: 'kick-punchy.wav',     // 36 - Kick (tight punchy)
-            B0: 'kick-sub.wav',        // 35 - Bass Drum (sub)
-            D1: 'snare-punchy.wav',    // 38 - Snare (punchy)
-            E1: 'snare-clap.wav',      // 40 - Clap
-            'C#1': 'perc-rim.wav',     // 37 - Rim shot
-            'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
-            'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
-            'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
-            'D#2': 'perc-shaker.wav',  // 51 - Shaker
-        },
-        baseUrl: '/samples/drums-punchy/',
-        release: 0.3,
-    });
+const punchyKitPatch: SynthPatch = {
+    voice: 'sampler',
+    urls: {
+        C1: 'kick-punchy.wav',     // 36 - Kick (tight punchy)
+        B0: 'kick-sub.wav',        // 35 - Bass Drum (sub)
+        D1: 'snare-punchy.wav',    // 38 - Snare (punchy)
+        E1: 'snare-clap.wav',      // 40 - Clap
+        'C#1': 'perc-rim.wav',     // 37 - Rim shot
+        'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
+        'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
+        'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
+        'D#2': 'perc-shaker.wav',  // 51 - Shaker
+    },
+    baseUrl: '/samples/drums-punchy/',
+    envelope: { attack: 0, decay: 0, sustain: 1, release: 0.3 },
 };
 
 // 808 Kit - Deep sub kick, clap snare, tight hats
-const create808Kit = (): Tone.Sampler => {
-    return new Tone.Sampler({
-        urls: {
-            C1: 'kick-808.wav',       // 36 - Kick (808)
-            B0: 'kick-808.wav',       // 35 - Bass Drum
-            D1: 'snare-clap.wav',     // 38 - Snare (clap)
-            E1: 'snare-clap.wav',     // 40 - Electric Snare
-            'C#1': 'perc-rim.wav',    // 37 - Side Stick
-            'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
-            'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
-            'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
-            'D#2': 'perc-shaker.wav',  // 51
-        },
-        baseUrl: '/samples/drums/',
-        release: 0.5,
-    });
+const kit808Patch: SynthPatch = {
+    voice: 'sampler',
+    urls: {
+        C1: 'kick-808.wav',       // 36 - Kick (808)
+        B0: 'kick-808.wav',       // 35 - Bass Drum
+        D1: 'snare-clap.wav',     // 38 - Snare (clap)
+        E1: 'snare-clap.wav',     // 40 - Electric Snare
+        'C#1': 'perc-rim.wav',    // 37 - Side Stick
+        'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
+        'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
+        'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
+        'D#2': 'perc-shaker.wav',  // 51
+    },
+    baseUrl: '/samples/drums/',
+    envelope: { attack: 0, decay: 0, sustain: 1, release: 0.5 },
 };
 
 // Acoustic Kit - Natural, punchy acoustic sounds
-const createAcousticKit = (): Tone.Sampler => {
-    return new Tone.Sampler({
-        urls: {
-            C1: 'kick-deep.wav',       // 36 - Kick (deep acoustic)
-            B0: 'kick-punchy.wav',     // 35 - Bass Drum (punchy)
-            D1: 'snare-crisp.wav',     // 38 - Snare (crisp acoustic)
-            E1: 'snare-crisp.wav',     // 40 - Electric Snare
-            'C#1': 'perc-rim.wav',     // 37 - Side Stick
-            'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
-            'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
-            'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
-            'D#2': 'perc-shaker.wav',  // 51
-        },
-        baseUrl: '/samples/drums/',
-        release: 0.5,
-    });
+const acousticKitPatch: SynthPatch = {
+    voice: 'sampler',
+    urls: {
+        C1: 'kick-deep.wav',       // 36 - Kick (deep acoustic)
+        B0: 'kick-punchy.wav',     // 35 - Bass Drum (punchy)
+        D1: 'snare-crisp.wav',     // 38 - Snare (crisp acoustic)
+        E1: 'snare-crisp.wav',     // 40 - Electric Snare
+        'C#1': 'perc-rim.wav',     // 37 - Side Stick
+        'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
+        'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
+        'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
+        'D#2': 'perc-shaker.wav',  // 51
+    },
+    baseUrl: '/samples/drums/',
+    envelope: { attack: 0, decay: 0, sustain: 1, release: 0.5 },
 };
 
 // Lo-Fi Kit - Muted, dusty character
-const createLoFiKit = (): Tone.Sampler => {
-    return new Tone.Sampler({
-        urls: {
-            C1: 'kick-deep.wav',       // 36 - Kick (muffled deep)
-            B0: 'kick-deep.wav',       // 35 - Bass Drum
-            D1: 'snare-lofi.wav',      // 38 - Snare (lo-fi)
-            E1: 'snare-clap.wav',      // 40 - Clap
-            'C#1': 'perc-rim.wav',     // 37 - Side Stick
-            'F#1': 'hihat-pedal.wav',  // 42 - Closed Hi-Hat (muted pedal)
-            'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
-            'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
-            'D#2': 'perc-shaker.wav',  // 51
-        },
-        baseUrl: '/samples/drums/',
-        release: 0.3,
-    });
+const loFiKitPatch: SynthPatch = {
+    voice: 'sampler',
+    urls: {
+        C1: 'kick-deep.wav',       // 36 - Kick (muffled deep)
+        B0: 'kick-deep.wav',       // 35 - Bass Drum
+        D1: 'snare-lofi.wav',      // 38 - Snare (lo-fi)
+        E1: 'snare-clap.wav',      // 40 - Clap
+        'C#1': 'perc-rim.wav',     // 37 - Side Stick
+        'F#1': 'hihat-pedal.wav',  // 42 - Closed Hi-Hat (muted pedal)
+        'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
+        'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
+        'D#2': 'perc-shaker.wav',  // 51
+    },
+    baseUrl: '/samples/drums/',
+    envelope: { attack: 0, decay: 0, sustain: 1, release: 0.3 },
 };
 
 // Electronic Kit - Punchy, tight, modern
-const createElectronicKit = (): Tone.Sampler => {
-    return new Tone.Sampler({
-        urls: {
-            C1: 'kick-punchy.wav',     // 36 - Kick (punchy)
-            B0: 'kick-808.wav',        // 35 - Bass Drum (808 sub)
-            D1: 'snare-clap.wav',      // 38 - Snare (clap)
-            E1: 'snare-crisp.wav',     // 40 - Electric Snare
-            'C#1': 'perc-rim.wav',     // 37 - Side Stick
-            'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
-            'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
-            'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
-            'D#2': 'perc-shaker.wav',  // 51
-        },
-        baseUrl: '/samples/drums/',
-        release: 0.4,
-    });
+const electronicKitPatch: SynthPatch = {
+    voice: 'sampler',
+    urls: {
+        C1: 'kick-punchy.wav',     // 36 - Kick (punchy)
+        B0: 'kick-808.wav',        // 35 - Bass Drum (808 sub)
+        D1: 'snare-clap.wav',      // 38 - Snare (clap)
+        E1: 'snare-crisp.wav',     // 40 - Electric Snare
+        'C#1': 'perc-rim.wav',     // 37 - Side Stick
+        'F#1': 'hihat-closed.wav', // 42 - Closed Hi-Hat
+        'G#1': 'hihat-pedal.wav',  // 44 - Pedal Hi-Hat
+        'A#1': 'hihat-open.wav',   // 46 - Open Hi-Hat
+        'D#2': 'perc-shaker.wav',  // 51
+    },
+    baseUrl: '/samples/drums/',
+    envelope: { attack: 0, decay: 0, sustain: 1, release: 0.4 },
 };
 
 /**
  * Wait for a synth to be ready (mainly for Sampler which loads async)
  */
 export async function waitForSynthReady(synth: SynthType): Promise<void> {
-    if (synth instanceof Tone.Sampler) {
+    if (synth instanceof UserSampler) {
+        // Samples are decoded from IndexedDB rather than fetched by Tone
+        await synth.ready;
+    } else if (synth instanceof Tone.Sampler) {
         // Wait for all buffers to load
         await Tone.loaded();
     }
@@ -487,157 +587,150 @@ export async function waitForSynthReady(synth: SynthType): Promise<void> {
 // ============================================
 
 // Chimes (Metal Pipe) — metallic, long ringing
-const createChimes = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 7,
-        modulationIndex: 12,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 3.0,
-            sustain: 0.0,
-            release: 2.0,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 2.0,
-            sustain: 0.0,
-            release: 1.5,
-        },
-    });
+const chimesPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 7,
+    modulationIndex: 12,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 3.0,
+        sustain: 0.0,
+        release: 2.0,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 2.0,
+        sustain: 0.0,
+        release: 1.5,
+    },
 };
 
 // Marimba — warm wooden mallet, moderate decay
-const createMarimba = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 4,
-        modulationIndex: 2,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.8,
-            sustain: 0.0,
-            release: 0.5,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 0.4,
-            sustain: 0.0,
-            release: 0.3,
-        },
-    });
+const marimbaPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 4,
+    modulationIndex: 2,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.8,
+        sustain: 0.0,
+        release: 0.5,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 0.4,
+        sustain: 0.0,
+        release: 0.3,
+    },
 };
 
 // Xylophone — bright, short, woody
-const createXylophone = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 5.07,
-        modulationIndex: 6,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.4,
-            sustain: 0.0,
-            release: 0.2,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 0.2,
-            sustain: 0.0,
-            release: 0.15,
-        },
-    });
+const xylophonePatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 5.07,
+    modulationIndex: 6,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.4,
+        sustain: 0.0,
+        release: 0.2,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 0.2,
+        sustain: 0.0,
+        release: 0.15,
+    },
 };
 
 // Vibraphone — sustained metallic, gentle vibrato feel
-const createVibraphone = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 3.01,
-        modulationIndex: 4,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 2.5,
-            sustain: 0.3,
-            release: 2.0,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 1.5,
-            sustain: 0.2,
-            release: 1.0,
-        },
-    });
+const vibraphonePatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 3.01,
+    modulationIndex: 4,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 2.5,
+        sustain: 0.3,
+        release: 2.0,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 1.5,
+        sustain: 0.2,
+        release: 1.0,
+    },
 };
 
 // Kalimba — thumb piano, delicate pluck
-const createKalimba = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 8,
-        modulationIndex: 2,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'triangle' },
-        envelope: {
-            attack: 0.001,
-            decay: 1.2,
-            sustain: 0.0,
-            release: 0.8,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 0.6,
-            sustain: 0.0,
-            release: 0.4,
-        },
-    });
+const kalimbaPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 8,
+    modulationIndex: 2,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'triangle' },
+    envelope: {
+        attack: 0.001,
+        decay: 1.2,
+        sustain: 0.0,
+        release: 0.8,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 0.6,
+        sustain: 0.0,
+        release: 0.4,
+    },
 };
 
 // Celeste — gentle, music-box-like bell
-const createCeleste = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 4,
-        modulationIndex: 6,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 1.8,
-            sustain: 0.0,
-            release: 1.2,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 1.0,
-            sustain: 0.0,
-            release: 0.8,
-        },
-    });
+const celestePatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 4,
+    modulationIndex: 6,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 1.8,
+        sustain: 0.0,
+        release: 1.2,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 1.0,
+        sustain: 0.0,
+        release: 0.8,
+    },
 };
 
 // Glockenspiel — very bright, metallic, high-pitched bell
-const createGlockenspiel = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 5.07,
-        modulationIndex: 18,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 1.5,
-            sustain: 0.0,
-            release: 1.0,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 0.8,
-            sustain: 0.0,
-            release: 0.6,
-        },
-    });
+const glockenspielPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 5.07,
+    modulationIndex: 18,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 1.5,
+        sustain: 0.0,
+        release: 1.0,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 0.8,
+        sustain: 0.0,
+        release: 0.6,
+    },
 };
 
 // ============================================
@@ -645,108 +738,103 @@ const createGlockenspiel = (): Tone.PolySynth => {
 // ============================================
 
 // Guitar — nylon-like pluck, warm
-const createGuitar = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'fatsawtooth', spread: 10, count: 2 },
-        envelope: {
-            attack: 0.002,
-            decay: 0.6,
-            sustain: 0.05,
-            release: 0.3,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.3,
-            sustain: 0.05,
-            release: 0.2,
-            baseFrequency: 400,
-            octaves: 3,
-        },
-    });
+const guitarPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'fatsawtooth', spread: 10, count: 2 },
+    envelope: {
+        attack: 0.002,
+        decay: 0.6,
+        sustain: 0.05,
+        release: 0.3,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.3,
+        sustain: 0.05,
+        release: 0.2,
+        baseFrequency: 400,
+        octaves: 3,
+    },
 };
 
 // Harp — gentle plucked string, longer decay
-const createHarp = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'triangle' },
-        envelope: {
-            attack: 0.001,
-            decay: 1.5,
-            sustain: 0.0,
-            release: 1.0,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.8,
-            sustain: 0.0,
-            release: 0.5,
-            baseFrequency: 500,
-            octaves: 3,
-        },
-    });
+const harpPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'triangle' },
+    envelope: {
+        attack: 0.001,
+        decay: 1.5,
+        sustain: 0.0,
+        release: 1.0,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.8,
+        sustain: 0.0,
+        release: 0.5,
+        baseFrequency: 500,
+        octaves: 3,
+    },
 };
 
 // Pizzicato — short orchestral pluck
-const createPizzicato = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.2,
-            sustain: 0.0,
-            release: 0.1,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.12,
-            sustain: 0.0,
-            release: 0.08,
-            baseFrequency: 500,
-            octaves: 3.5,
-        },
-    });
+const pizzicatoPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'sawtooth' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.2,
+        sustain: 0.0,
+        release: 0.1,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.12,
+        sustain: 0.0,
+        release: 0.08,
+        baseFrequency: 500,
+        octaves: 3.5,
+    },
 };
 
 // Ukulele — bright, small-bodied pluck
-const createUkulele = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'triangle' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.4,
-            sustain: 0.02,
-            release: 0.2,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.2,
-            sustain: 0.02,
-            release: 0.15,
-            baseFrequency: 800,
-            octaves: 2.5,
-        },
-    });
+const ukulelePatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'triangle' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.4,
+        sustain: 0.02,
+        release: 0.2,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.2,
+        sustain: 0.02,
+        release: 0.15,
+        baseFrequency: 800,
+        octaves: 2.5,
+    },
 };
 
 // Banjo — twangy, bright pluck
-const createBanjo = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'pulse', width: 0.15 },
-        envelope: {
-            attack: 0.001,
-            decay: 0.3,
-            sustain: 0.01,
-            release: 0.15,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.15,
-            sustain: 0.01,
-            release: 0.1,
-            baseFrequency: 1000,
-            octaves: 3,
-        },
-    });
+const banjoPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'pulse', width: 0.15 },
+    envelope: {
+        attack: 0.001,
+        decay: 0.3,
+        sustain: 0.01,
+        release: 0.15,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.15,
+        sustain: 0.01,
+        release: 0.1,
+        baseFrequency: 1000,
+        octaves: 3,
+    },
 };
 
 // ============================================
@@ -754,68 +842,63 @@ const createBanjo = (): Tone.PolySynth => {
 // ============================================
 
 // Violin — bright bowed string
-const createViolin = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'fatsawtooth', spread: 15, count: 3 },
-        envelope: {
-            attack: 0.15,
-            decay: 0.2,
-            sustain: 0.85,
-            release: 0.4,
-        },
-    });
+const violinPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'fatsawtooth', spread: 15, count: 3 },
+    envelope: {
+        attack: 0.15,
+        decay: 0.2,
+        sustain: 0.85,
+        release: 0.4,
+    },
 };
 
 // Cello — warm, rich bowed string
-const createCello = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'fatsawtooth', spread: 20, count: 3 },
-        envelope: {
-            attack: 0.2,
-            decay: 0.3,
-            sustain: 0.8,
-            release: 0.6,
-        },
-    });
+const celloPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'fatsawtooth', spread: 20, count: 3 },
+    envelope: {
+        attack: 0.2,
+        decay: 0.3,
+        sustain: 0.8,
+        release: 0.6,
+    },
 };
 
 // Double Bass — deep bowed string
-const createDoubleBass = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'fatsawtooth', spread: 12, count: 2 },
-        envelope: {
-            attack: 0.25,
-            decay: 0.3,
-            sustain: 0.75,
-            release: 0.5,
-        },
-    });
+const doubleBassPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'fatsawtooth', spread: 12, count: 2 },
+    envelope: {
+        attack: 0.25,
+        decay: 0.3,
+        sustain: 0.75,
+        release: 0.5,
+    },
 };
 
 // Tenor Violin (Viola) — mellow, between violin and cello
-const createTenorViolin = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'fatsawtooth', spread: 18, count: 3 },
-        envelope: {
-            attack: 0.18,
-            decay: 0.25,
-            sustain: 0.82,
-            release: 0.5,
-        },
-    });
+const tenorViolinPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'fatsawtooth', spread: 18, count: 3 },
+    envelope: {
+        attack: 0.18,
+        decay: 0.25,
+        sustain: 0.82,
+        release: 0.5,
+    },
 };
 
 // Fiddle — lively, brighter bowed string
-const createFiddle = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'fatsawtooth', spread: 10, count: 2 },
-        envelope: {
-            attack: 0.08,
-            decay: 0.15,
-            sustain: 0.8,
-            release: 0.3,
-        },
-    });
+const fiddlePatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'fatsawtooth', spread: 10, count: 2 },
+    envelope: {
+        attack: 0.08,
+        decay: 0.15,
+        sustain: 0.8,
+        release: 0.3,
+    },
 };
 
 // ============================================
@@ -823,92 +906,87 @@ const createFiddle = (): Tone.PolySynth => {
 // ============================================
 
 // Flute — pure, breathy tone
-const createFlute = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'sine' },
-        envelope: {
-            attack: 0.08,
-            decay: 0.1,
-            sustain: 0.85,
-            release: 0.3,
-        },
-    });
+const flutePatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'sine' },
+    envelope: {
+        attack: 0.08,
+        decay: 0.1,
+        sustain: 0.85,
+        release: 0.3,
+    },
 };
 
 // Piccolo — bright, higher-pitched flute
-const createPiccolo = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'sine' },
-        envelope: {
-            attack: 0.05,
-            decay: 0.08,
-            sustain: 0.9,
-            release: 0.25,
-        },
-    });
+const piccoloPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'sine' },
+    envelope: {
+        attack: 0.05,
+        decay: 0.08,
+        sustain: 0.9,
+        release: 0.25,
+    },
 };
 
 // Saxophone — rich, reedy tone with harmonics
-const createSaxophone = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'pulse', width: 0.35 },
-        envelope: {
-            attack: 0.05,
-            decay: 0.2,
-            sustain: 0.7,
-            release: 0.3,
-        },
-        filterEnvelope: {
-            attack: 0.03,
-            decay: 0.15,
-            sustain: 0.5,
-            release: 0.25,
-            baseFrequency: 400,
-            octaves: 2.5,
-        },
-    });
+const saxophonePatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'pulse', width: 0.35 },
+    envelope: {
+        attack: 0.05,
+        decay: 0.2,
+        sustain: 0.7,
+        release: 0.3,
+    },
+    filterEnvelope: {
+        attack: 0.03,
+        decay: 0.15,
+        sustain: 0.5,
+        release: 0.25,
+        baseFrequency: 400,
+        octaves: 2.5,
+    },
 };
 
 // Bassoon — dark, low woodwind
-const createBassoon = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-            attack: 0.06,
-            decay: 0.3,
-            sustain: 0.65,
-            release: 0.4,
-        },
-        filterEnvelope: {
-            attack: 0.04,
-            decay: 0.2,
-            sustain: 0.4,
-            release: 0.3,
-            baseFrequency: 150,
-            octaves: 2,
-        },
-    });
+const bassoonPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'sawtooth' },
+    envelope: {
+        attack: 0.06,
+        decay: 0.3,
+        sustain: 0.65,
+        release: 0.4,
+    },
+    filterEnvelope: {
+        attack: 0.04,
+        decay: 0.2,
+        sustain: 0.4,
+        release: 0.3,
+        baseFrequency: 150,
+        octaves: 2,
+    },
 };
 
 // Oboe — nasal, reedy, complex harmonics
-const createOboe = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'pulse', width: 0.25 },
-        envelope: {
-            attack: 0.04,
-            decay: 0.15,
-            sustain: 0.75,
-            release: 0.3,
-        },
-        filterEnvelope: {
-            attack: 0.03,
-            decay: 0.1,
-            sustain: 0.6,
-            release: 0.2,
-            baseFrequency: 600,
-            octaves: 2,
-        },
-    });
+const oboePatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'pulse', width: 0.25 },
+    envelope: {
+        attack: 0.04,
+        decay: 0.15,
+        sustain: 0.75,
+        release: 0.3,
+    },
+    filterEnvelope: {
+        attack: 0.03,
+        decay: 0.1,
+        sustain: 0.6,
+        release: 0.2,
+        baseFrequency: 600,
+        octaves: 2,
+    },
 };
 
 // ============================================
@@ -916,195 +994,184 @@ const createOboe = (): Tone.PolySynth => {
 // ============================================
 
 // Trumpet — bright, brassy
-const createTrumpet = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'square' },
-        envelope: {
-            attack: 0.04,
-            decay: 0.15,
-            sustain: 0.7,
-            release: 0.25,
-        },
-    });
+const trumpetPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'square' },
+    envelope: {
+        attack: 0.04,
+        decay: 0.15,
+        sustain: 0.7,
+        release: 0.25,
+    },
 };
 
 // Synth Drum Kit — punchier, more tonal variety than Classic Drum
-const createSynthDrumKit = (): Tone.MembraneSynth => {
-    return new Tone.MembraneSynth({
-        pitchDecay: 0.08,
-        octaves: 6,
-        oscillator: { type: 'triangle' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.25,
-            sustain: 0,
-            release: 0.08,
-        },
-    });
+const synthDrumKitPatch: SynthPatch = {
+    voice: 'membrane',
+    pitchDecay: 0.08,
+    octaves: 6,
+    oscillator: { type: 'triangle' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.25,
+        sustain: 0,
+        release: 0.08,
+    },
 };
 
 // Didgeridoo — deep droning buzz
-const createDidgeridoo = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-            attack: 0.1,
-            decay: 0.3,
-            sustain: 0.9,
-            release: 0.5,
-        },
-        filterEnvelope: {
-            attack: 0.08,
-            decay: 0.2,
-            sustain: 0.4,
-            release: 0.4,
-            baseFrequency: 80,
-            octaves: 1.5,
-        },
-    });
+const didgeridooPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'sawtooth' },
+    envelope: {
+        attack: 0.1,
+        decay: 0.3,
+        sustain: 0.9,
+        release: 0.5,
+    },
+    filterEnvelope: {
+        attack: 0.08,
+        decay: 0.2,
+        sustain: 0.4,
+        release: 0.4,
+        baseFrequency: 80,
+        octaves: 1.5,
+    },
 };
 
 // Vocal Synth — formant-like "ahh" articulation
-const createVocalSynth = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.AMSynth, {
-        harmonicity: 3,
-        oscillator: { type: 'fatsine', spread: 40, count: 3 },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.15,
-            decay: 0.4,
-            sustain: 0.7,
-            release: 0.8,
-        },
-        modulationEnvelope: {
-            attack: 0.1,
-            decay: 0.3,
-            sustain: 0.5,
-            release: 0.6,
-        },
-    });
+const vocalSynthPatch: SynthPatch = {
+    voice: 'am',
+    harmonicity: 3,
+    oscillator: { type: 'fatsine', spread: 40, count: 3 },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.15,
+        decay: 0.4,
+        sustain: 0.7,
+        release: 0.8,
+    },
+    modulationEnvelope: {
+        attack: 0.1,
+        decay: 0.3,
+        sustain: 0.5,
+        release: 0.6,
+    },
 };
 
 // Orchestra Hit — big stab chord
-const createOrchestraHit = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'fatsawtooth', spread: 30, count: 5 },
-        envelope: {
-            attack: 0.005,
-            decay: 0.6,
-            sustain: 0.0,
-            release: 0.4,
-        },
-    });
+const orchestraHitPatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'fatsawtooth', spread: 30, count: 5 },
+    envelope: {
+        attack: 0.005,
+        decay: 0.6,
+        sustain: 0.0,
+        release: 0.4,
+    },
 };
 
 // Guzheng — Chinese plucked zither with bright twang
-const createGuzheng = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'triangle' },
-        envelope: {
-            attack: 0.001,
-            decay: 1.8,
-            sustain: 0.0,
-            release: 1.2,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.5,
-            sustain: 0.0,
-            release: 0.4,
-            baseFrequency: 600,
-            octaves: 4,
-        },
-    });
+const guzhengPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'triangle' },
+    envelope: {
+        attack: 0.001,
+        decay: 1.8,
+        sustain: 0.0,
+        release: 1.2,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.5,
+        sustain: 0.0,
+        release: 0.4,
+        baseFrequency: 600,
+        octaves: 4,
+    },
 };
 
 // Legacy drum synth for fallback (simpler, no samples needed)
-const createDrumSynth = (): Tone.MembraneSynth => {
-    return new Tone.MembraneSynth({
-        pitchDecay: 0.05,
-        octaves: 4,
-        oscillator: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.4,
-            sustain: 0,
-            release: 0.1,
-        },
-    });
+const drumSynthPatch: SynthPatch = {
+    voice: 'membrane',
+    pitchDecay: 0.05,
+    octaves: 4,
+    oscillator: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.4,
+        sustain: 0,
+        release: 0.1,
+    },
 };
 
 // Bongos — high-pitched pair of hand drums, short tonal decay
-const createBongos = (): Tone.MembraneSynth => {
-    return new Tone.MembraneSynth({
-        pitchDecay: 0.03,
-        octaves: 3,
-        oscillator: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.15,
-            sustain: 0,
-            release: 0.05,
-        },
-    });
+const bongosPatch: SynthPatch = {
+    voice: 'membrane',
+    pitchDecay: 0.03,
+    octaves: 3,
+    oscillator: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.15,
+        sustain: 0,
+        release: 0.05,
+    },
 };
 
 // Wooden Block — sharp, clicky percussive crack
-const createWoodenBlock = (): Tone.MembraneSynth => {
-    return new Tone.MembraneSynth({
-        pitchDecay: 0.008,
-        octaves: 2,
-        oscillator: { type: 'square' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.06,
-            sustain: 0,
-            release: 0.02,
-        },
-    });
+const woodenBlockPatch: SynthPatch = {
+    voice: 'membrane',
+    pitchDecay: 0.008,
+    octaves: 2,
+    oscillator: { type: 'square' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.06,
+        sustain: 0,
+        release: 0.02,
+    },
 };
 
 // Harpsichord — bright, plucked-string keyboard with metallic twang
-const createHarpsichord = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.MonoSynth, {
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-            attack: 0.001,
-            decay: 1.2,
-            sustain: 0.0,
-            release: 0.6,
-        },
-        filterEnvelope: {
-            attack: 0.001,
-            decay: 0.3,
-            sustain: 0.0,
-            release: 0.3,
-            baseFrequency: 800,
-            octaves: 4,
-        },
-    });
+const harpsichordPatch: SynthPatch = {
+    voice: 'mono',
+    oscillator: { type: 'sawtooth' },
+    envelope: {
+        attack: 0.001,
+        decay: 1.2,
+        sustain: 0.0,
+        release: 0.6,
+    },
+    filterEnvelope: {
+        attack: 0.001,
+        decay: 0.3,
+        sustain: 0.0,
+        release: 0.3,
+        baseFrequency: 800,
+        octaves: 4,
+    },
 };
 
 // Steel Pan — bright, shimmery bell-like tones with metallic harmonics
-const createSteelPan = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 4,
-        modulationIndex: 3,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'triangle' },
-        envelope: {
-            attack: 0.001,
-            decay: 1.5,
-            sustain: 0.0,
-            release: 0.8,
-        },
-        modulationEnvelope: {
-            attack: 0.001,
-            decay: 0.8,
-            sustain: 0.0,
-            release: 0.5,
-        },
-    });
+const steelPanPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 4,
+    modulationIndex: 3,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'triangle' },
+    envelope: {
+        attack: 0.001,
+        decay: 1.5,
+        sustain: 0.0,
+        release: 0.8,
+    },
+    modulationEnvelope: {
+        attack: 0.001,
+        decay: 0.8,
+        sustain: 0.0,
+        release: 0.5,
+    },
 };
 
 // ============================================
@@ -1112,101 +1179,95 @@ const createSteelPan = (): Tone.PolySynth => {
 // ============================================
 
 // Square Wave — classic 8-bit / retro tone, hollow and buzzy
-const createSquareWave = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'square' },
-        envelope: {
-            attack: 0.01,
-            decay: 0.3,
-            sustain: 0.6,
-            release: 0.4,
-        },
-    });
+const squareWavePatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'square' },
+    envelope: {
+        attack: 0.01,
+        decay: 0.3,
+        sustain: 0.6,
+        release: 0.4,
+    },
 };
 
 // Triangle Wave — soft, mellow, almost flute-like pure tone
-const createTriangleWave = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'triangle' },
-        envelope: {
-            attack: 0.01,
-            decay: 0.3,
-            sustain: 0.7,
-            release: 0.4,
-        },
-    });
+const triangleWavePatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'triangle' },
+    envelope: {
+        attack: 0.01,
+        decay: 0.3,
+        sustain: 0.7,
+        release: 0.4,
+    },
 };
 
 // Sawtooth Wave — bright, buzzy, harmonically rich waveform
-const createSawtoothWave = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-            attack: 0.01,
-            decay: 0.3,
-            sustain: 0.6,
-            release: 0.4,
-        },
-    });
+const sawtoothWavePatch: SynthPatch = {
+    voice: 'synth',
+    oscillator: { type: 'sawtooth' },
+    envelope: {
+        attack: 0.01,
+        decay: 0.3,
+        sustain: 0.6,
+        release: 0.4,
+    },
 };
 
 // ============================================
 // Euphonium — warm, mellow low-brass PolySynth
 // ============================================
 
-const createEuphonium = (): Tone.PolySynth => {
-    return new Tone.PolySynth(Tone.FMSynth, {
-        harmonicity: 1.5,
-        modulationIndex: 2,
-        oscillator: { type: 'sine' },
-        modulation: { type: 'sine' },
-        envelope: {
-            attack: 0.08,
-            decay: 0.2,
-            sustain: 0.7,
-            release: 0.4,
-        },
-        modulationEnvelope: {
-            attack: 0.1,
-            decay: 0.3,
-            sustain: 0.5,
-            release: 0.3,
-        },
-    });
+const euphoniumPatch: SynthPatch = {
+    voice: 'fm',
+    harmonicity: 1.5,
+    modulationIndex: 2,
+    oscillator: { type: 'sine' },
+    modulation: { type: 'sine' },
+    envelope: {
+        attack: 0.08,
+        decay: 0.2,
+        sustain: 0.7,
+        release: 0.4,
+    },
+    modulationEnvelope: {
+        attack: 0.1,
+        decay: 0.3,
+        sustain: 0.5,
+        release: 0.3,
+    },
 };
 
 // ============================================
 // Taiko — deep resonant Japanese drum (no samples)
 // ============================================
 
-const createTaiko = (): Tone.MembraneSynth => {
-    return new Tone.MembraneSynth({
-        pitchDecay: 0.08,
-        octaves: 4,
-        oscillator: { type: 'sine' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.6,
-            sustain: 0,
-            release: 0.4,
-        },
-    });
+const taikoPatch: SynthPatch = {
+    voice: 'membrane',
+    pitchDecay: 0.08,
+    octaves: 4,
+    oscillator: { type: 'sine' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.6,
+        sustain: 0,
+        release: 0.4,
+    },
 };
 
 // ============================================
 // Maracas — shaker noise burst (no samples)
 // ============================================
 
-const createMaracas = (): Tone.NoiseSynth => {
-    return new Tone.NoiseSynth({
-        noise: { type: 'white' },
-        envelope: {
-            attack: 0.001,
-            decay: 0.05,
-            sustain: 0,
-            release: 0.02,
-        },
-    });
+const maracasPatch: SynthPatch = {
+    voice: 'noise',
+    noise: { type: 'white' },
+    envelope: {
+        attack: 0.001,
+        decay: 0.05,
+        sustain: 0,
+        release: 0.02,
+    },
 };
 
 // ============================================
@@ -1219,31 +1280,31 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'electric-piano',
         name: 'Electric Piano',
         category: 'keys',
-        createSynth: createElectricPiano,
+        patch: electricPianoPatch,
     },
     'bright-piano': {
         id: 'bright-piano',
         name: 'Bright Piano',
         category: 'keys',
-        createSynth: createBrightPiano,
+        patch: brightPianoPatch,
     },
     'harpsichord': {
         id: 'harpsichord',
         name: 'Harpsichord',
         category: 'keys',
-        createSynth: createHarpsichord,
+        patch: harpsichordPatch,
     },
     'organ': {
         id: 'organ',
         name: 'Organ',
         category: 'keys',
-        createSynth: createOrgan,
+        patch: organPatch,
     },
     'clavinet': {
         id: 'clavinet',
         name: 'Clavinet',
         category: 'keys',
-        createSynth: createClavinet,
+        patch: clavinetPatch,
     },
 
     // Bass
@@ -1251,25 +1312,25 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'sub-bass',
         name: 'Sub Bass',
         category: 'bass',
-        createSynth: createSubBass,
+        patch: subBassPatch,
     },
     'synth-bass': {
         id: 'synth-bass',
         name: 'Synth Bass',
         category: 'bass',
-        createSynth: createSynthBass,
+        patch: synthBassPatch,
     },
     'fm-bass': {
         id: 'fm-bass',
         name: 'FM Bass',
         category: 'bass',
-        createSynth: createFMBass,
+        patch: fMBassPatch,
     },
     'pluck-bass': {
         id: 'pluck-bass',
         name: 'Pluck Bass',
         category: 'bass',
-        createSynth: createPluckBass,
+        patch: pluckBassPatch,
     },
 
     // Leads
@@ -1277,25 +1338,25 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'saw-lead',
         name: 'Saw Lead',
         category: 'lead',
-        createSynth: createSawLead,
+        patch: sawLeadPatch,
     },
     'square-lead': {
         id: 'square-lead',
         name: 'Square Lead',
         category: 'lead',
-        createSynth: createSquareLead,
+        patch: squareLeadPatch,
     },
     'fm-lead': {
         id: 'fm-lead',
         name: 'FM Lead',
         category: 'lead',
-        createSynth: createFMLead,
+        patch: fMLeadPatch,
     },
     'pulse-lead': {
         id: 'pulse-lead',
         name: 'Pulse Lead',
         category: 'lead',
-        createSynth: createPulseLead,
+        patch: pulseLeadPatch,
     },
 
     // Pads
@@ -1303,25 +1364,25 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'warm-pad',
         name: 'Warm Pad',
         category: 'pad',
-        createSynth: createWarmPad,
+        patch: warmPadPatch,
     },
     'string-pad': {
         id: 'string-pad',
         name: 'String Pad',
         category: 'pad',
-        createSynth: createStringPad,
+        patch: stringPadPatch,
     },
     'choir-pad': {
         id: 'choir-pad',
         name: 'Choir Pad',
         category: 'pad',
-        createSynth: createChoirPad,
+        patch: choirPadPatch,
     },
     'glass-pad': {
         id: 'glass-pad',
         name: 'Glass Pad',
         category: 'pad',
-        createSynth: createGlassPad,
+        patch: glassPadPatch,
     },
 
     // Synths
@@ -1329,19 +1390,19 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'basic-synth',
         name: 'Basic Synth',
         category: 'synth',
-        createSynth: createBasicSynth,
+        patch: basicSynthPatch,
     },
     'pluck-synth': {
         id: 'pluck-synth',
         name: 'Pluck',
         category: 'synth',
-        createSynth: createPluckSynth,
+        patch: pluckSynthPatch,
     },
     'bell-synth': {
         id: 'bell-synth',
         name: 'Bell',
         category: 'idiophones',
-        createSynth: createBellSynth,
+        patch: bellSynthPatch,
     },
 
     // Idiophones / Pitched Percussion
@@ -1349,49 +1410,49 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'chimes',
         name: 'Chimes',
         category: 'idiophones',
-        createSynth: createChimes,
+        patch: chimesPatch,
     },
     'marimba': {
         id: 'marimba',
         name: 'Marimba',
         category: 'idiophones',
-        createSynth: createMarimba,
+        patch: marimbaPatch,
     },
     'xylophone': {
         id: 'xylophone',
         name: 'Xylophone',
         category: 'idiophones',
-        createSynth: createXylophone,
+        patch: xylophonePatch,
     },
     'vibraphone': {
         id: 'vibraphone',
         name: 'Vibraphone',
         category: 'idiophones',
-        createSynth: createVibraphone,
+        patch: vibraphonePatch,
     },
     'kalimba': {
         id: 'kalimba',
         name: 'Kalimba',
         category: 'idiophones',
-        createSynth: createKalimba,
+        patch: kalimbaPatch,
     },
     'celeste': {
         id: 'celeste',
         name: 'Celeste',
         category: 'idiophones',
-        createSynth: createCeleste,
+        patch: celestePatch,
     },
     'glockenspiel': {
         id: 'glockenspiel',
         name: 'Glockenspiel',
         category: 'idiophones',
-        createSynth: createGlockenspiel,
+        patch: glockenspielPatch,
     },
     'steel-pan': {
         id: 'steel-pan',
         name: 'Steel Pan',
         category: 'idiophones',
-        createSynth: createSteelPan,
+        patch: steelPanPatch,
     },
 
     // Plucked Strings
@@ -1399,31 +1460,31 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'guitar',
         name: 'Guitar',
         category: 'plucked-strings',
-        createSynth: createGuitar,
+        patch: guitarPatch,
     },
     'harp': {
         id: 'harp',
         name: 'Harp',
         category: 'plucked-strings',
-        createSynth: createHarp,
+        patch: harpPatch,
     },
     'pizzicato': {
         id: 'pizzicato',
         name: 'Pizzicato',
         category: 'plucked-strings',
-        createSynth: createPizzicato,
+        patch: pizzicatoPatch,
     },
     'ukulele': {
         id: 'ukulele',
         name: 'Ukulele',
         category: 'plucked-strings',
-        createSynth: createUkulele,
+        patch: ukulelePatch,
     },
     'banjo': {
         id: 'banjo',
         name: 'Banjo',
         category: 'plucked-strings',
-        createSynth: createBanjo,
+        patch: banjoPatch,
     },
 
     // Bowed Strings
@@ -1431,31 +1492,31 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'violin',
         name: 'Violin',
         category: 'bowed-strings',
-        createSynth: createViolin,
+        patch: violinPatch,
     },
     'cello': {
         id: 'cello',
         name: 'Cello',
         category: 'bowed-strings',
-        createSynth: createCello,
+        patch: celloPatch,
     },
     'double-bass': {
         id: 'double-bass',
         name: 'Double Bass',
         category: 'bowed-strings',
-        createSynth: createDoubleBass,
+        patch: doubleBassPatch,
     },
     'tenor-violin': {
         id: 'tenor-violin',
         name: 'Tenor Violin',
         category: 'bowed-strings',
-        createSynth: createTenorViolin,
+        patch: tenorViolinPatch,
     },
     'fiddle': {
         id: 'fiddle',
         name: 'Fiddle',
         category: 'bowed-strings',
-        createSynth: createFiddle,
+        patch: fiddlePatch,
     },
 
     // Wind (merged Woodwind + Brass)
@@ -1463,43 +1524,43 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'flute',
         name: 'Flute',
         category: 'wind',
-        createSynth: createFlute,
+        patch: flutePatch,
     },
     'piccolo': {
         id: 'piccolo',
         name: 'Piccolo',
         category: 'wind',
-        createSynth: createPiccolo,
+        patch: piccoloPatch,
     },
     'saxophone': {
         id: 'saxophone',
         name: 'Saxophone',
         category: 'wind',
-        createSynth: createSaxophone,
+        patch: saxophonePatch,
     },
     'bassoon': {
         id: 'bassoon',
         name: 'Bassoon',
         category: 'wind',
-        createSynth: createBassoon,
+        patch: bassoonPatch,
     },
     'oboe': {
         id: 'oboe',
         name: 'Oboe',
         category: 'wind',
-        createSynth: createOboe,
+        patch: oboePatch,
     },
     'trumpet': {
         id: 'trumpet',
         name: 'Trumpet',
         category: 'wind',
-        createSynth: createTrumpet,
+        patch: trumpetPatch,
     },
     'euphonium': {
         id: 'euphonium',
         name: 'Euphonium',
         category: 'wind',
-        createSynth: createEuphonium,
+        patch: euphoniumPatch,
     },
 
     // Additional instruments
@@ -1507,25 +1568,25 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'didgeridoo',
         name: 'Didgeridoo',
         category: 'wind',
-        createSynth: createDidgeridoo,
+        patch: didgeridooPatch,
     },
     'vocal-synth': {
         id: 'vocal-synth',
         name: 'Vocal Synth',
         category: 'synth',
-        createSynth: createVocalSynth,
+        patch: vocalSynthPatch,
     },
     'orchestra-hit': {
         id: 'orchestra-hit',
         name: 'Orchestra Hit',
         category: 'bowed-strings',
-        createSynth: createOrchestraHit,
+        patch: orchestraHitPatch,
     },
     'guzheng': {
         id: 'guzheng',
         name: 'Guzheng',
         category: 'plucked-strings',
-        createSynth: createGuzheng,
+        patch: guzhengPatch,
     },
 
     // Drums (special case)
@@ -1533,73 +1594,73 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'synth-drum-kit',
         name: 'Synth Drum Kit',
         category: 'drums',
-        createSynth: createSynthDrumKit,
+        patch: synthDrumKitPatch,
     },
     'drum-synth': {
         id: 'drum-synth',
         name: 'Classic Drum',
         category: 'drums',
-        createSynth: createDrumSynth,
+        patch: drumSynthPatch,
     },
     'drum-sampler': {
         id: 'drum-sampler',
         name: 'Drum Kit',
         category: 'drums',
-        createSynth: createDrumSampler,
+        patch: drumSamplerPatch,
     },
     'punchy-kit': {
         id: 'punchy-kit',
         name: 'Punchy Drum',
         category: 'drums',
-        createSynth: createPunchyKit,
+        patch: punchyKitPatch,
     },
     '808-kit': {
         id: '808-kit',
         name: '808 Kit',
         category: 'drums',
-        createSynth: create808Kit,
+        patch: kit808Patch,
     },
     'acoustic-kit': {
         id: 'acoustic-kit',
         name: 'Acoustic Kit',
         category: 'drums',
-        createSynth: createAcousticKit,
+        patch: acousticKitPatch,
     },
     'lofi-kit': {
         id: 'lofi-kit',
         name: 'Lo-Fi Kit',
         category: 'drums',
-        createSynth: createLoFiKit,
+        patch: loFiKitPatch,
     },
     'electronic-kit': {
         id: 'electronic-kit',
         name: 'Electronic Kit',
         category: 'drums',
-        createSynth: createElectronicKit,
+        patch: electronicKitPatch,
     },
     'bongos': {
         id: 'bongos',
         name: 'Bongos',
         category: 'drums',
-        createSynth: createBongos,
+        patch: bongosPatch,
     },
     'wooden-block': {
         id: 'wooden-block',
         name: 'Wooden Block',
         category: 'drums',
-        createSynth: createWoodenBlock,
+        patch: woodenBlockPatch,
     },
     'taiko': {
         id: 'taiko',
         name: 'Taiko',
         category: 'drums',
-        createSynth: createTaiko,
+        patch: taikoPatch,
     },
     'maracas': {
         id: 'maracas',
         name: 'Maracas',
         category: 'drums',
-        createSynth: createMaracas,
+        patch: maracasPatch,
     },
 
     // Basic Waveform Synths
@@ -1607,19 +1668,19 @@ export const SYNTH_PRESETS: Record<string, SynthPreset> = {
         id: 'square-wave',
         name: 'Square Wave',
         category: 'synth',
-        createSynth: createSquareWave,
+        patch: squareWavePatch,
     },
     'triangle-wave': {
         id: 'triangle-wave',
         name: 'Triangle Wave',
         category: 'synth',
-        createSynth: createTriangleWave,
+        patch: triangleWavePatch,
     },
     'sawtooth-wave': {
         id: 'sawtooth-wave',
         name: 'Sawtooth Wave',
         category: 'synth',
-        createSynth: createSawtoothWave,
+        patch: sawtoothWavePatch,
     },
 };
 
@@ -1635,15 +1696,46 @@ export function getSynthPreset(presetId: string): SynthPreset | undefined {
 }
 
 /**
- * Create a synth for a given preset ID
+ * Patch of a built-in or `user:<id>` preset
+ */
+export function getInstrumentPatch(presetId: string): SynthPatch | undefined {
+    const userPresetId = parseUserSynthInstrumentId(presetId);
+    if (userPresetId) return userSynthPresets.get(userPresetId)?.patch;
+    return SYNTH_PRESETS[presetId]?.patch;
+}
+
+/**
+ * Create a synth for a given preset ID: built-in, `user:<id>` or `sampler:<id>`
  * Falls back to basic synth if preset not found
  */
 export function createSynthFromPreset(presetId: string | undefined): SynthType {
-    if (presetId && SYNTH_PRESETS[presetId]) {
-        return SYNTH_PRESETS[presetId].createSynth();
+    if (presetId && parseSamplerInstrumentId(presetId)) {
+        const sampler = createUserSampler(presetId);
+        if (sampler) return sampler;
+    } else if (presetId) {
+        const patch = getInstrumentPatch(presetId);
+        if (patch) return createSynthFromPatch(patch);
     }
+
+    if (presetId) logger.warn('Preset not found, using basic synth', { presetId });
     // Default fallback
-    return createBasicSynth();
+    return createSynthFromPatch(basicSynthPatch);
+}
+
+/**
+ * Identity of the synth createSynthFromPreset would build. User presets
+ * include their last edit, so a saved change yields a new key.
+ */
+export function getInstrumentCacheKey(presetId: string | undefined): string {
+    if (!presetId) return 'basic-synth';
+
+    const samplerId = parseSamplerInstrumentId(presetId);
+    if (samplerId) return `${presetId}@${samplerPresets.get(samplerId)?.updatedAt ?? 0}`;
+
+    const userPresetId = parseUserSynthInstrumentId(presetId);
+    if (userPresetId) return `${presetId}@${userSynthPresets.get(userPresetId)?.updatedAt ?? 0}`;
+
+    return SYNTH_PRESETS[presetId] ? presetId : 'basic-synth';
 }
 
 /**
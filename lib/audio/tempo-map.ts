@@ -0,0 +1,301 @@
+// ============================================
+// ComposeYogi — Tempo Map
+// Bar/beat/second conversions across tempo and meter changes
+// ============================================
+
+import type { Project, TempoChange } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A stretch of the timeline with one meter. Tempo is constant unless the
+ * next change ramps, in which case it moves linearly (per beat) from
+ * startBpm to endBpm across the segment.
+ */
+export interface TempoSegment {
+    startBar: number;
+    startBeat: number;
+    startSeconds: number;
+    timeSignature: [number, number];
+    beatsPerBar: number;
+    startBpm: number;
+    endBpm: number;
+    lengthBeats: number;   // Infinity for the last segment
+}
+
+const MIN_BPM = 1;
+
+// ============================================
+// Tempo Map
+// ============================================
+
+/**
+ * Converts between bars, beats and seconds for a project's tempo map.
+ *
+ * Beats count the time signature's numerator unit, and bars count whole
+ * measures of whatever meter is active, so bar N always starts on a
+ * downbeat. Positions before bar 0 extrapolate the first segment.
+ */
+export class TempoMap {
+    readonly segments: TempoSegment[];
+
+    /** Identity for change detection; equal keys mean equal maps */
+    readonly key: string;
+
+    constructor(bpm: number, timeSignature: [number, number], changes: TempoChange[] = []) {
+        const sorted = [...changes].sort((a, b) => a.bar - b.bar);
+
+        // Changes at (or before) bar 0 replace the project defaults
+        let baseBpm = bpm;
+        let baseSignature = timeSignature;
+        for (const change of sorted) {
+            if (change.bar > 0) break;
+            baseBpm = change.bpm;
+            baseSignature = change.timeSignature;
+        }
+
+        const segments: TempoSegment[] = [createSegment(0, 0, 0, baseSignature, baseBpm)];
+
+        for (const change of sorted) {
+            if (change.bar <= 0) continue;
+
+            const previous = segments[segments.length - 1];
+            if (change.bar === previous.startBar) {
+                // Same bar: the later change wins
+                segments[segments.length - 1] = createSegment(
+                    previous.startBar, previous.startBeat, previous.startSeconds,
+                    change.timeSignature, change.bpm
+                );
+                continue;
+            }
+
+            previous.lengthBeats = (change.bar - previous.startBar) * previous.beatsPerBar;
+            previous.endBpm = change.ramp ? Math.max(MIN_BPM, change.bpm) : previous.startBpm;
+
+            segments.push(createSegment(
+                change.bar,
+                previous.startBeat + previous.lengthBeats,
+                previous.startSeconds + segmentSeconds(previous, previous.lengthBeats),
+                change.timeSignature,
+                change.bpm
+            ));
+        }
+
+        this.segments = segments;
+        this.key = segments
+            .map((s) => `${s.startBar}:${s.startBpm}>${s.endBpm}:${s.timeSignature.join('/')}`)
+            .join('|');
+    }
+
+    static fromProject(project: Pick<Project, 'bpm' | 'timeSignature' | 'tempoMap'>): TempoMap {
+        return new TempoMap(project.bpm, project.timeSignature, project.tempoMap);
+    }
+
+    /** True when there are no tempo or meter changes */
+    get isConstant(): boolean {
+        return this.segments.length === 1;
+    }
+
+    // ========================================
+    // Segment Lookup
+    // ========================================
+
+    getSegmentAtBar(bar: number): TempoSegment {
+        return findSegment(this.segments, (s) => s.startBar <= bar);
+    }
+
+    getSegmentAtBeat(beat: number): TempoSegment {
+        return findSegment(this.segments, (s) => s.startBeat <= beat);
+    }
+
+    getSegmentAtSeconds(seconds: number): TempoSegment {
+        return findSegment(this.segments, (s) => s.startSeconds <= seconds);
+    }
+
+    getTimeSignatureAt(bar: number): [number, number] {
+        return this.getSegmentAtBar(bar).timeSignature;
+    }
+
+    getBeatsPerBarAt(bar: number): number {
+        return this.getSegmentAtBar(bar).beatsPerBar;
+    }
+
+    /** Instantaneous tempo at a beat position */
+    getBpmAtBeat(beat: number): number {
+        const segment = this.getSegmentAtBeat(beat);
+        if (segment.startBpm === segment.endBpm) return segment.startBpm;
+
+        const progress = Math.max(0, Math.min(1, (beat - segment.startBeat) / segment.lengthBeats));
+        return segment.startBpm + (segment.endBpm - segment.startBpm) * progress;
+    }
+
+    // ========================================
+    // Conversions
+    // ========================================
+
+    barToBeat(bar: number): number {
+        const segment = this.getSegmentAtBar(bar);
+        return segment.startBeat + (bar - segment.startBar) * segment.beatsPerBar;
+    }
+
+    beatToBar(beat: number): number {
+        const segment = this.getSegmentAtBeat(beat);
+        return segment.startBar + (beat - segment.startBeat) / segment.beatsPerBar;
+    }
+
+    beatToSeconds(beat: number): number {
+        const segment = this.getSegmentAtBeat(beat);
+        return segment.startSeconds + segmentSeconds(segment, beat - segment.startBeat);
+    }
+
+    secondsToBeat(seconds: number): number {
+        const segment = this.getSegmentAtSeconds(seconds);
+        return segment.startBeat + segmentBeats(segment, seconds - segment.startSeconds);
+    }
+
+    barToSeconds(bar: number): number {
+        return this.beatToSeconds(this.barToBeat(bar));
+    }
+
+    secondsToBar(seconds: number): number {
+        return this.beatToBar(this.secondsToBeat(seconds));
+    }
+
+    /** Length in seconds of `bars` bars starting at `startBar` */
+    barsToDuration(startBar: number, bars: number): number {
+        return this.barToSeconds(startBar + bars) - this.barToSeconds(startBar);
+    }
+
+    /** Length in bars of `seconds` starting at `startBar` */
+    durationToBars(startBar: number, seconds: number): number {
+        return this.secondsToBar(this.barToSeconds(startBar) + seconds) - startBar;
+    }
+
+    // ========================================
+    // MIDI Ticks
+    // ========================================
+
+    /** MIDI tick position of a beat, at `ppq` ticks per quarter note */
+    beatToTicks(beat: number, ppq: number): number {
+        let ticks = 0;
+        for (let i = 0; i < this.segments.length; i++) {
+            const segment = this.segments[i];
+            const isLast = i === this.segments.length - 1 || beat < segment.startBeat + segment.lengthBeats;
+            if (isLast) {
+                return ticks + (beat - segment.startBeat) * getTicksPerBeat(segment, ppq);
+            }
+            ticks += segment.lengthBeats * getTicksPerBeat(segment, ppq);
+        }
+        return ticks;
+    }
+
+    /** Beat at a MIDI tick position, at `ppq` ticks per quarter note */
+    ticksToBeat(ticks: number, ppq: number): number {
+        let segmentTicks = 0;
+        for (let i = 0; i < this.segments.length; i++) {
+            const segment = this.segments[i];
+            const ticksPerBeat = getTicksPerBeat(segment, ppq);
+            const lengthTicks = segment.lengthBeats * ticksPerBeat;
+            if (i === this.segments.length - 1 || ticks < segmentTicks + lengthTicks) {
+                return segment.startBeat + (ticks - segmentTicks) / ticksPerBeat;
+            }
+            segmentTicks += lengthTicks;
+        }
+        return 0;
+    }
+}
+
+// ============================================
+// Cached Access
+// ============================================
+
+let cachedMap: TempoMap | null = null;
+let cachedInputs: [number, [number, number], TempoChange[] | undefined] | null = null;
+
+/**
+ * Tempo map for a project, reused while its tempo fields are unchanged
+ * (safe to call per animation frame)
+ */
+export function getTempoMap(project: Pick<Project, 'bpm' | 'timeSignature' | 'tempoMap'>): TempoMap {
+    if (
+        cachedMap &&
+        cachedInputs &&
+        cachedInputs[0] === project.bpm &&
+        cachedInputs[1] === project.timeSignature &&
+        cachedInputs[2] === project.tempoMap
+    ) {
+        return cachedMap;
+    }
+
+    cachedMap = TempoMap.fromProject(project);
+    cachedInputs = [project.bpm, project.timeSignature, project.tempoMap];
+    return cachedMap;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function createSegment(
+    startBar: number,
+    startBeat: number,
+    startSeconds: number,
+    timeSignature: [number, number],
+    bpm: number
+): TempoSegment {
+    const safeBpm = Math.max(MIN_BPM, bpm);
+    return {
+        startBar,
+        startBeat,
+        startSeconds,
+        timeSignature,
+        beatsPerBar: Math.max(1, timeSignature[0]),
+        startBpm: safeBpm,
+        endBpm: safeBpm,
+        lengthBeats: Infinity,
+    };
+}
+
+/** Ticks per beat; beats are 1/denominator notes and ppq counts quarters */
+export function getTicksPerBeat(segment: TempoSegment, ppq: number): number {
+    return (ppq * 4) / segment.timeSignature[1];
+}
+
+function findSegment(segments: TempoSegment[], startsBefore: (s: TempoSegment) => boolean): TempoSegment {
+    for (let i = segments.length - 1; i > 0; i--) {
+        if (startsBefore(segments[i])) return segments[i];
+    }
+    return segments[0];
+}
+
+// Ramp slope in bpm per beat (0 for constant tempo)
+function rampSlope(segment: TempoSegment): number {
+    if (segment.startBpm === segment.endBpm || !Number.isFinite(segment.lengthBeats)) return 0;
+    return (segment.endBpm - segment.startBpm) / segment.lengthBeats;
+}
+
+/**
+ * Seconds elapsed over `beats` beats from a segment's start.
+ * With tempo T(b) = T0 + k·b, time is ∫60/T db = (60/k)·ln(1 + k·b/T0).
+ */
+function segmentSeconds(segment: TempoSegment, beats: number): number {
+    const k = rampSlope(segment);
+    if (k === 0 || beats <= 0) return (beats * 60) / segment.startBpm;
+    return (60 / k) * Math.log(1 + (k * beats) / segment.startBpm);
+}
+
+/** Inverse of segmentSeconds */
+function segmentBeats(segment: TempoSegment, seconds: number): number {
+    const k = rampSlope(segment);
+    if (k === 0 || seconds <= 0) return (seconds * segment.startBpm) / 60;
+
+    const beats = (segment.startBpm * (Math.exp((seconds * k) / 60) - 1)) / k;
+    // Past a ramp's end the tempo holds at endBpm
+    if (beats > segment.lengthBeats) {
+        const rampSeconds = segmentSeconds(segment, segment.lengthBeats);
+        return segment.lengthBeats + ((seconds - rampSeconds) * segment.endBpm) / 60;
+    }
+    return beats;
+}
@@ -0,0 +1,279 @@
+// ============================================
+// ComposeYogi — Time-Stretch
+// Warp plans for audio clips and the worker that renders them
+// ============================================
+
+import * as Tone from 'tone';
+import { createLogger } from '@/lib/logger';
+import type { Clip, TimeStretchWorkerResponse, WarpMode } from '@/types';
+import type { TempoMap } from './tempo-map';
+
+const logger = createLogger('TimeStretch');
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * How to render a take for a clip. The worker first stretches the audio
+ * by `stretch` (duration only), then plays it back `resample` times
+ * faster (duration and pitch). Take seconds map to timeline seconds by
+ * `timeScale`.
+ */
+export interface WarpPlan {
+    stretch: number;
+    resample: number;
+    timeScale: number;
+}
+
+interface StretchJob {
+    resolve: (channelData: Float32Array[]) => void;
+    reject: (error: Error) => void;
+}
+
+interface CachedWarp {
+    channelData: Float32Array[];
+    sampleRate: number;
+}
+
+export const WARP_MODES: { value: WarpMode; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'repitch', label: 'Repitch' },
+    { value: 'stretch', label: 'Time-Stretch' },
+];
+
+export const MIN_PITCH_SHIFT = -24;
+export const MAX_PITCH_SHIFT = 24;
+
+const IDENTITY_PLAN: WarpPlan = { stretch: 1, resample: 1, timeScale: 1 };
+
+// Ratios closer than this to 1 are left alone
+const RATIO_EPSILON = 1e-4;
+
+// Rendered warps kept in memory (each is a full copy of a take)
+const MAX_CACHE_ENTRIES = 24;
+
+// ============================================
+// Warp Plans
+// ============================================
+
+/**
+ * Speed a take must play at for its beats to line up with the project
+ * tempo from the clip's start (1 when the clip doesn't follow tempo)
+ */
+export function getTempoRatio(clip: Clip, sourceDuration: number, tempoMap: TempoMap): number {
+    if (!clip.sourceBpm || (clip.warpMode ?? 'off') === 'off' || sourceDuration <= 0) return 1;
+
+    const sourceBeats = (sourceDuration * clip.sourceBpm) / 60;
+    const startBeat = tempoMap.barToBeat(clip.startBar);
+    const targetDuration = tempoMap.beatToSeconds(startBeat + sourceBeats) - tempoMap.beatToSeconds(startBeat);
+
+    return targetDuration > 0 ? sourceDuration / targetDuration : 1;
+}
+
+export function getWarpPlan(clip: Clip, sourceDuration: number, tempoMap: TempoMap): WarpPlan {
+    const tempoRatio = getTempoRatio(clip, sourceDuration, tempoMap);
+    const pitchRatio = Math.pow(2, (clip.pitchShift ?? 0) / 12);
+
+    let stretch = pitchRatio;
+    let resample = pitchRatio;
+
+    switch (clip.warpMode ?? 'off') {
+        case 'repitch':
+            // Speed and pitch follow tempo together; pitch shift rides on top
+            resample = tempoRatio * pitchRatio;
+            break;
+        case 'stretch':
+            stretch = pitchRatio / tempoRatio;
+            break;
+    }
+
+    if (isIdentityRatio(stretch) && isIdentityRatio(resample)) return IDENTITY_PLAN;
+    return { stretch, resample, timeScale: stretch / resample };
+}
+
+export function isIdentityWarp(plan: WarpPlan): boolean {
+    return isIdentityRatio(plan.stretch) && isIdentityRatio(plan.resample);
+}
+
+/**
+ * Timeline length of a clip's whole take once warped
+ */
+export function getWarpedDuration(clip: Clip, sourceDuration: number, tempoMap: TempoMap): number {
+    return sourceDuration * getWarpPlan(clip, sourceDuration, tempoMap).timeScale;
+}
+
+/**
+ * Bars a clip needs to show its trimmed take once warped
+ */
+export function getWarpedLengthBars(clip: Clip, sourceDuration: number, tempoMap: TempoMap): number {
+    const { timeScale } = getWarpPlan(clip, sourceDuration, tempoMap);
+    const heardSeconds = Math.max(0, sourceDuration - (clip.trimStart || 0) - (clip.trimEnd || 0)) * timeScale;
+    return Math.max(0.25, tempoMap.durationToBars(clip.startBar, heardSeconds));
+}
+
+function isIdentityRatio(ratio: number): boolean {
+    return Math.abs(ratio - 1) < RATIO_EPSILON;
+}
+
+// ============================================
+// Time-Stretch Manager
+// ============================================
+
+/**
+ * Renders warped takes in a worker and caches them per take, tempo and
+ * pitch, so replays and exports at the same tempo are instant.
+ */
+class TimeStretchManager {
+    private worker: Worker | null = null;
+    private jobs: Map<string, StretchJob> = new Map();
+    private jobCounter = 0;
+    private cache: Map<string, CachedWarp> = new Map();
+    private pending: Map<string, Promise<CachedWarp>> = new Map();
+
+    /**
+     * Warp a decoded take. Returns the input buffer when the plan is an
+     * identity, or when the worker isn't available.
+     */
+    async warp(takeId: string, buffer: Tone.ToneAudioBuffer, plan: WarpPlan): Promise<Tone.ToneAudioBuffer> {
+        if (isIdentityWarp(plan)) return buffer;
+
+        const key = `${takeId}:${buffer.sampleRate}:${plan.stretch.toFixed(5)}:${plan.resample.toFixed(5)}`;
+
+        try {
+            let warped = this.cache.get(key);
+            if (warped) {
+                // Refresh recency
+                this.cache.delete(key);
+                this.cache.set(key, warped);
+            } else {
+                let request = this.pending.get(key);
+                if (!request) {
+                    request = this.render(buffer, plan);
+                    this.pending.set(key, request);
+                }
+                try {
+                    warped = await request;
+                } finally {
+                    this.pending.delete(key);
+                }
+                this.remember(key, warped);
+            }
+
+            return toToneBuffer(warped);
+        } catch (error) {
+            logger.error('Time-stretch failed, playing unwarped', { takeId, error });
+            return buffer;
+        }
+    }
+
+    dispose(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.jobs.forEach((job) => job.reject(new Error('Time-stretch worker disposed')));
+        this.jobs.clear();
+        this.cache.clear();
+    }
+
+    private async render(buffer: Tone.ToneAudioBuffer, plan: WarpPlan): Promise<CachedWarp> {
+        const audioBuffer = buffer.get();
+        if (!audioBuffer) throw new Error('Buffer not loaded');
+
+        // Copies, since the worker takes ownership of what we send
+        const channelData: Float32Array[] = [];
+        for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+            channelData.push(audioBuffer.getChannelData(ch).slice());
+        }
+
+        const start = performance.now();
+        const result = await this.runJob(channelData, audioBuffer.sampleRate, plan);
+        logger.debug('Rendered warp', {
+            stretch: plan.stretch,
+            resample: plan.resample,
+            ms: Math.round(performance.now() - start),
+        });
+
+        return { channelData: result, sampleRate: audioBuffer.sampleRate };
+    }
+
+    private runJob(channelData: Float32Array[], sampleRate: number, plan: WarpPlan): Promise<Float32Array[]> {
+        const worker = this.getWorker();
+        const jobId = `stretch_${++this.jobCounter}`;
+
+        return new Promise((resolve, reject) => {
+            this.jobs.set(jobId, { resolve, reject });
+            worker.postMessage(
+                {
+                    type: 'warp',
+                    jobId,
+                    data: { channelData, sampleRate, stretch: plan.stretch, resample: plan.resample },
+                },
+                channelData.map((channel) => channel.buffer)
+            );
+        });
+    }
+
+    private getWorker(): Worker {
+        if (this.worker) return this.worker;
+        if (typeof Worker === 'undefined') {
+            throw new Error('Web Workers are not supported');
+        }
+
+        const worker = new Worker('/workers/time-stretch-worker.js');
+
+        worker.onmessage = (e: MessageEvent<TimeStretchWorkerResponse>) => {
+            const { type, jobId, channelData, error } = e.data;
+            const job = this.jobs.get(jobId);
+            if (!job) return;
+
+            switch (type) {
+                case 'result':
+                    this.jobs.delete(jobId);
+                    job.resolve(channelData ?? []);
+                    break;
+                case 'error':
+                    this.jobs.delete(jobId);
+                    job.reject(new Error(error ?? 'Unknown error'));
+                    break;
+            }
+        };
+
+        worker.onerror = (e) => {
+            logger.error('Worker error', e);
+            this.jobs.forEach((job) => job.reject(new Error('Time-stretch worker crashed')));
+            this.jobs.clear();
+            worker.terminate();
+            this.worker = null;
+        };
+
+        this.worker = worker;
+        return worker;
+    }
+
+    private remember(key: string, warped: CachedWarp): void {
+        this.cache.set(key, warped);
+        while (this.cache.size > MAX_CACHE_ENTRIES) {
+            const oldest = this.cache.keys().next().value;
+            if (oldest === undefined) break;
+            this.cache.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Wrap cached channel data in a fresh buffer (sources may not share one)
+ */
+function toToneBuffer(warped: CachedWarp): Tone.ToneAudioBuffer {
+    const length = warped.channelData[0]?.length ?? 0;
+    const audioBuffer = Tone.getContext().createBuffer(
+        warped.channelData.length,
+        Math.max(1, length),
+        warped.sampleRate
+    );
+    warped.channelData.forEach((channel, ch) => audioBuffer.getChannelData(ch).set(channel));
+
+    return new Tone.ToneAudioBuffer(audioBuffer);
+}
+
+// Export singleton instance
+export const timeStretch = new TimeStretchManager();
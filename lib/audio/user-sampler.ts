@@ -0,0 +1,304 @@
+// ============================================
+// ComposeYogi — User Sampler
+// Sampler instruments built from imported samples: key/velocity zones,
+// loop points, ADSR and one-shot or gate playback
+// ============================================
+
+import * as Tone from 'tone';
+import { v4 as uuid } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import { listSamplerPresets, saveSamplerPreset, deleteSamplerPreset } from '@/lib/persistence';
+import { PresetStore } from './preset-store';
+import { getUserSampleAudioBuffer } from './sample-import';
+import type { SamplerPreset, SamplerZone, UserSample } from '@/types';
+
+const log = createLogger('UserSampler');
+
+// ============================================
+// Instrument IDs
+// ============================================
+
+// Track/clip instrumentPreset values for user samplers are prefixed so
+// they never collide with the built-in SYNTH_PRESETS ids
+export const SAMPLER_INSTRUMENT_PREFIX = 'sampler:';
+
+export function toSamplerInstrumentId(presetId: string): string {
+    return `${SAMPLER_INSTRUMENT_PREFIX}${presetId}`;
+}
+
+/**
+ * Sampler preset id of an instrumentPreset value, or null for built-ins
+ */
+export function parseSamplerInstrumentId(instrumentId: string | undefined): string | null {
+    if (!instrumentId?.startsWith(SAMPLER_INSTRUMENT_PREFIX)) return null;
+    return instrumentId.slice(SAMPLER_INSTRUMENT_PREFIX.length);
+}
+
+// ============================================
+// Defaults
+// ============================================
+
+export const DEFAULT_SAMPLER_ENVELOPE: SamplerPreset['envelope'] = {
+    attack: 0.005,
+    decay: 0.1,
+    sustain: 1,
+    release: 0.3,
+};
+
+// Middle C, where most one-note samples are assumed to be pitched
+export const DEFAULT_ROOT_NOTE = 60;
+
+export function createSamplerZone(sample: Pick<UserSample, 'id'>, rootNote = DEFAULT_ROOT_NOTE): SamplerZone {
+    return {
+        id: uuid(),
+        sampleId: sample.id,
+        rootNote,
+        lowNote: 0,
+        highNote: 127,
+        lowVelocity: 1,
+        highVelocity: 127,
+    };
+}
+
+/**
+ * New preset playing one sample across the keyboard
+ */
+export function createSamplerPreset(name: string, samples: Pick<UserSample, 'id'>[] = []): SamplerPreset {
+    const now = Date.now();
+    return {
+        id: uuid(),
+        name,
+        zones: samples.map((sample) => createSamplerZone(sample)),
+        envelope: { ...DEFAULT_SAMPLER_ENVELOPE },
+        mode: 'gate',
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+// ============================================
+// Preset Manager
+// ============================================
+
+export const samplerPresets = new PresetStore<SamplerPreset>('Sampler presets', {
+    list: () => listSamplerPresets(),
+    save: (preset) => saveSamplerPreset(preset),
+    remove: (presetId) => deleteSamplerPreset(presetId),
+});
+
+// ============================================
+// Sample Buffers
+// ============================================
+
+// Decoded samples, shared by every sampler (user samples never change)
+const sampleBuffers = new Map<string, Promise<AudioBuffer | null>>();
+
+function loadSampleBuffer(sampleId: string): Promise<AudioBuffer | null> {
+    let buffer = sampleBuffers.get(sampleId);
+    if (!buffer) {
+        buffer = getUserSampleAudioBuffer(sampleId).catch((error) => {
+            log.error('Failed to decode sample', { sampleId, error });
+            sampleBuffers.delete(sampleId);
+            return null;
+        });
+        sampleBuffers.set(sampleId, buffer);
+    }
+    return buffer;
+}
+
+// ============================================
+// User Sampler
+// ============================================
+
+interface SamplerVoice {
+    source: Tone.ToneBufferSource;
+    gain: Tone.Gain;
+}
+
+/**
+ * Plays a SamplerPreset. Extends Tone.Sampler so playout, export and
+ * MIDI monitoring treat it like any other polyphonic sampler, but runs
+ * its own voices to get zones, loops and a full ADSR.
+ */
+export class UserSampler extends Tone.Sampler {
+    readonly name: string = 'UserSampler';
+
+    /** Resolves once every zone's sample is decoded */
+    readonly ready: Promise<void>;
+
+    private preset: SamplerPreset;
+    private buffers = new Map<string, Tone.ToneAudioBuffer>();
+
+    // Sounding notes by MIDI pitch; each trigger is a group of layered voices.
+    // One-shots ignore note-off, so they are only kept for releaseAll.
+    private voices = new Map<number, SamplerVoice[][]>();
+    private oneShots = new Set<SamplerVoice>();
+
+    constructor(preset: SamplerPreset) {
+        super({ urls: {} });
+        this.preset = preset;
+        this.ready = this.loadBuffers();
+    }
+
+    private async loadBuffers(): Promise<void> {
+        const sampleIds = new Set(this.preset.zones.map((zone) => zone.sampleId));
+        await Promise.all(Array.from(sampleIds).map(async (sampleId) => {
+            const buffer = await loadSampleBuffer(sampleId);
+            if (buffer) {
+                this.buffers.set(sampleId, new Tone.ToneAudioBuffer(buffer));
+            } else {
+                log.warn('Sampler zone sample not found', { preset: this.preset.name, sampleId });
+            }
+        }));
+    }
+
+    triggerAttack(notes: Tone.Unit.Frequency | Tone.Unit.Frequency[], time?: Tone.Unit.Time, velocity: Tone.Unit.NormalRange = 1): this {
+        const startTime = this.toSeconds(time);
+        const noteList = Array.isArray(notes) ? notes : [notes];
+        const midiVelocity = Math.max(1, Math.round(velocity * 127));
+
+        for (const note of noteList) {
+            const pitch = Math.round(Tone.Frequency(note).toMidi());
+            const group = this.preset.zones
+                .filter((zone) =>
+                    pitch >= zone.lowNote && pitch <= zone.highNote &&
+                    midiVelocity >= zone.lowVelocity && midiVelocity <= zone.highVelocity)
+                .map((zone) => this.startVoice(zone, pitch, startTime, velocity))
+                .filter((voice): voice is SamplerVoice => voice !== null);
+
+            if (this.preset.mode === 'one-shot') {
+                group.forEach((voice) => this.oneShots.add(voice));
+                continue;
+            }
+
+            if (group.length === 0) continue;
+            const groups = this.voices.get(pitch) ?? [];
+            groups.push(group);
+            this.voices.set(pitch, groups);
+        }
+
+        return this;
+    }
+
+    triggerRelease(notes: Tone.Unit.Frequency | Tone.Unit.Frequency[], time?: Tone.Unit.Time): this {
+        // One-shots play through; note-off does nothing
+        if (this.preset.mode === 'one-shot') return this;
+
+        const releaseTime = this.toSeconds(time);
+        const noteList = Array.isArray(notes) ? notes : [notes];
+
+        for (const note of noteList) {
+            const pitch = Math.round(Tone.Frequency(note).toMidi());
+            const group = this.voices.get(pitch)?.shift();
+            group?.forEach((voice) => this.releaseVoice(voice, releaseTime));
+        }
+
+        return this;
+    }
+
+    releaseAll(time?: Tone.Unit.Time): this {
+        const releaseTime = this.toSeconds(time);
+        this.getVoices().forEach((voice) => this.releaseVoice(voice, releaseTime));
+        this.voices.clear();
+        this.oneShots.clear();
+        return this;
+    }
+
+    /**
+     * Number of voices still sounding
+     */
+    getVoiceCount(): number {
+        return this.getVoices().length;
+    }
+
+    dispose(): this {
+        this.getVoices().forEach((voice) => {
+            voice.source.dispose();
+            voice.gain.dispose();
+        });
+        this.voices.clear();
+        this.oneShots.clear();
+        this.buffers.forEach((buffer) => buffer.dispose());
+        this.buffers.clear();
+        super.dispose();
+        return this;
+    }
+
+    private startVoice(zone: SamplerZone, pitch: number, time: number, velocity: number): SamplerVoice | null {
+        const buffer = this.buffers.get(zone.sampleId);
+        if (!buffer?.loaded) return null;
+
+        const { attack, decay, sustain } = this.preset.envelope;
+        const loop = this.preset.mode === 'gate' && zone.loop && zone.loop.end > zone.loop.start
+            ? zone.loop
+            : null;
+
+        const gain = new Tone.Gain({ context: this.context, gain: 0 }).connect(this.output);
+        const source = new Tone.ToneBufferSource({
+            context: this.context,
+            url: buffer,
+            playbackRate: Math.pow(2, (pitch - zone.rootNote) / 12),
+            loop: loop !== null,
+            loopStart: loop?.start ?? 0,
+            loopEnd: loop?.end ?? 0,
+        }).connect(gain);
+
+        gain.gain.setValueAtTime(0, time);
+        gain.gain.linearRampToValueAtTime(velocity, time + attack);
+        gain.gain.linearRampToValueAtTime(velocity * sustain, time + attack + decay);
+
+        const voice: SamplerVoice = { source, gain };
+        source.onended = () => {
+            this.removeVoice(voice, pitch);
+            source.dispose();
+            gain.dispose();
+        };
+        source.start(time);
+
+        return voice;
+    }
+
+    private getVoices(): SamplerVoice[] {
+        const voices = Array.from(this.oneShots);
+        this.voices.forEach((groups) => groups.forEach((group) => voices.push(...group)));
+        return voices;
+    }
+
+    /**
+     * Forget a voice that ended, dropping its group once every layer has
+     * ended and the pitch once it has no groups
+     */
+    private removeVoice(voice: SamplerVoice, pitch: number): void {
+        this.oneShots.delete(voice);
+
+        const groups = this.voices.get(pitch);
+        if (!groups) return;
+
+        const remaining = groups
+            .map((group) => group.filter((other) => other !== voice))
+            .filter((group) => group.length > 0);
+        if (remaining.length > 0) {
+            this.voices.set(pitch, remaining);
+        } else {
+            this.voices.delete(pitch);
+        }
+    }
+
+    private releaseVoice(voice: SamplerVoice, time: number): void {
+        const { release } = this.preset.envelope;
+        voice.gain.gain.cancelAndHoldAtTime(time);
+        voice.gain.gain.linearRampToValueAtTime(0, time + release);
+        voice.source.stop(time + release);
+    }
+}
+
+/**
+ * Sampler for an instrumentPreset of the form `sampler:<presetId>`, or
+ * null if the preset doesn't exist (deleted, or not loaded yet)
+ */
+export function createUserSampler(instrumentId: string): UserSampler | null {
+    const presetId = parseSamplerInstrumentId(instrumentId);
+    const preset = presetId ? samplerPresets.get(presetId) : undefined;
+    if (!preset) return null;
+    return new UserSampler(preset);
+}
@@ -0,0 +1,206 @@
+// ============================================
+// ComposeYogi — User Synth Presets
+// Synth patches saved by the user, and preset files for sharing them
+// ============================================
+
+import { v4 as uuid } from 'uuid';
+import { createLogger } from '@/lib/logger';
+import { listSynthPresets, saveSynthPreset, deleteSynthPreset } from '@/lib/persistence';
+import type {
+    SynthEnvelopePatch,
+    SynthOscillatorPatch,
+    SynthPatch,
+    SynthPresetCategory,
+    SynthVoiceType,
+    UserSynthPreset,
+} from '@/types';
+import { PresetStore } from './preset-store';
+
+const log = createLogger('UserSynthPresets');
+
+// ============================================
+// Instrument IDs
+// ============================================
+
+// Track/clip instrumentPreset values for user presets
+export const USER_SYNTH_INSTRUMENT_PREFIX = 'user:';
+
+export function toUserSynthInstrumentId(presetId: string): string {
+    return `${USER_SYNTH_INSTRUMENT_PREFIX}${presetId}`;
+}
+
+/**
+ * User preset id of an instrumentPreset value, or null for other kinds
+ */
+export function parseUserSynthInstrumentId(instrumentId: string | undefined): string | null {
+    if (!instrumentId?.startsWith(USER_SYNTH_INSTRUMENT_PREFIX)) return null;
+    return instrumentId.slice(USER_SYNTH_INSTRUMENT_PREFIX.length);
+}
+
+export function createUserSynthPreset(name: string, category: SynthPresetCategory, patch: SynthPatch): UserSynthPreset {
+    const now = Date.now();
+    return {
+        id: uuid(),
+        name,
+        category,
+        patch: structuredClone(patch),
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+// ============================================
+// Preset Manager
+// ============================================
+
+export const userSynthPresets = new PresetStore<UserSynthPreset>('User synth presets', {
+    list: () => listSynthPresets(),
+    save: (preset) => saveSynthPreset(preset),
+    remove: (presetId) => deleteSynthPreset(presetId),
+});
+
+// ============================================
+// Preset Files
+// ============================================
+
+export const SYNTH_PRESET_FILE_EXTENSION = '.cysynth.json'; // ComposeYogi Synth preset
+const SYNTH_PRESET_FILE_VERSION = 1;
+
+const VOICE_TYPES: SynthVoiceType[] = ['synth', 'mono', 'fm', 'am', 'membrane', 'noise', 'sampler'];
+const CATEGORIES: SynthPresetCategory[] = [
+    'synth', 'keys', 'bass', 'pad', 'lead', 'drums', 'idiophones', 'plucked-strings', 'bowed-strings', 'wind',
+];
+// Voices built around a Tone oscillator; noise and sampler have none
+const OSCILLATOR_VOICES: SynthVoiceType[] = ['synth', 'mono', 'fm', 'am', 'membrane'];
+
+const OSCILLATOR_TYPE = /^((fm|am|fat)?(sine|square|triangle|sawtooth)\d*|custom|pulse|pwm)$/;
+const FILTER_TYPES: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass', 'lowshelf', 'highshelf', 'notch', 'allpass', 'peaking'];
+const FILTER_ROLLOFFS = [-12, -24, -48, -96];
+const NOISE_TYPES = ['white', 'pink', 'brown'];
+
+const isNumberIn = (value: unknown, min: number, max: number): boolean =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isOptionalNumberIn = (value: unknown, min: number, max: number): boolean =>
+    value === undefined || isNumberIn(value, min, max);
+
+function isEnvelope(value: unknown): boolean {
+    const envelope = value as Partial<SynthEnvelopePatch> | null | undefined;
+    return typeof envelope === 'object' && envelope !== null
+        && isNumberIn(envelope.attack, 0, 60)
+        && isNumberIn(envelope.decay, 0, 60)
+        && isNumberIn(envelope.sustain, 0, 1)
+        && isNumberIn(envelope.release, 0, 60);
+}
+
+function isOscillator(value: unknown): boolean {
+    const oscillator = value as Partial<SynthOscillatorPatch> | null | undefined;
+    return typeof oscillator === 'object' && oscillator !== null
+        && typeof oscillator.type === 'string' && OSCILLATOR_TYPE.test(oscillator.type)
+        && isOptionalNumberIn(oscillator.spread, 0, 1200)
+        && (oscillator.count === undefined || (Number.isInteger(oscillator.count) && isNumberIn(oscillator.count, 1, 16)))
+        && isOptionalNumberIn(oscillator.width, 0, 1)
+        && (oscillator.partials === undefined
+            || (Array.isArray(oscillator.partials) && oscillator.partials.every((partial) => isNumberIn(partial, -1, 1))));
+}
+
+/**
+ * What is wrong with a patch read from a file, or null if its voice can be built from it
+ */
+function getPatchError(patch: SynthPatch | undefined): string | null {
+    if (typeof patch !== 'object' || patch === null) return 'has no patch';
+    if (!VOICE_TYPES.includes(patch.voice)) return 'has an unknown voice type';
+    if (!isOptionalNumberIn(patch.volume, -100, 24)) return 'has an out-of-range volume';
+
+    if (OSCILLATOR_VOICES.includes(patch.voice) ? !isOscillator(patch.oscillator) : patch.oscillator !== undefined) {
+        return 'has a missing or invalid oscillator';
+    }
+    // The sampler reads only attack and release, and falls back to Tone's defaults
+    if (patch.voice === 'sampler' ? patch.envelope !== undefined && !isEnvelope(patch.envelope) : !isEnvelope(patch.envelope)) {
+        return 'has a missing or invalid envelope';
+    }
+
+    const { filter, filterEnvelope, modulation, noise, urls } = patch;
+    if (filter !== undefined && !(FILTER_TYPES.includes(filter?.type) && isNumberIn(filter.Q, 0, 100) && FILTER_ROLLOFFS.includes(filter.rolloff))) {
+        return 'has an invalid filter';
+    }
+    if (filterEnvelope !== undefined
+        && !(isEnvelope(filterEnvelope) && isNumberIn(filterEnvelope.baseFrequency, 0, 20000) && isNumberIn(filterEnvelope.octaves, 0, 10))) {
+        return 'has an invalid filter envelope';
+    }
+    if (!isOptionalNumberIn(patch.harmonicity, 0.01, 100) || !isOptionalNumberIn(patch.modulationIndex, 0, 100)) {
+        return 'has out-of-range modulation';
+    }
+    if (modulation !== undefined && !(typeof modulation?.type === 'string' && OSCILLATOR_TYPE.test(modulation.type))) {
+        return 'has an invalid modulation oscillator';
+    }
+    if (patch.modulationEnvelope !== undefined && !isEnvelope(patch.modulationEnvelope)) {
+        return 'has an invalid modulation envelope';
+    }
+    if (!isOptionalNumberIn(patch.pitchDecay, 0, 1) || !isOptionalNumberIn(patch.octaves, 0, 10)) {
+        return 'has an out-of-range pitch sweep';
+    }
+    if (noise !== undefined && !NOISE_TYPES.includes(noise?.type)) return 'has an unknown noise type';
+    if (urls !== undefined && !(typeof urls === 'object' && urls !== null && Object.values(urls).every((url) => typeof url === 'string'))) {
+        return 'has an invalid sample map';
+    }
+    if (patch.baseUrl !== undefined && typeof patch.baseUrl !== 'string') return 'has an invalid sample location';
+
+    return null;
+}
+
+interface SynthPresetFile {
+    format: 'composeyogi-synth-preset';
+    version: number;
+    preset: Pick<UserSynthPreset, 'name' | 'category' | 'patch'>;
+}
+
+export function downloadSynthPreset(preset: Pick<UserSynthPreset, 'name' | 'category' | 'patch'>): void {
+    const file: SynthPresetFile = {
+        format: 'composeyogi-synth-preset',
+        version: SYNTH_PRESET_FILE_VERSION,
+        preset: { name: preset.name, category: preset.category, patch: preset.patch },
+    };
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${preset.name.replace(/[^a-z0-9\-_ ]/gi, '').trim() || 'preset'}${SYNTH_PRESET_FILE_EXTENSION}`;
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    log.info(`Exported synth preset: ${preset.name}`);
+}
+
+/**
+ * Read a preset file into a new (unsaved) user preset
+ */
+export async function readSynthPresetFile(file: File): Promise<UserSynthPreset> {
+    let data: Partial<SynthPresetFile>;
+    try {
+        data = JSON.parse(await file.text());
+    } catch {
+        throw new Error('Not a valid preset file');
+    }
+
+    const preset = data?.preset;
+    if (data?.format !== 'composeyogi-synth-preset' || !preset || typeof preset.name !== 'string') {
+        throw new Error('Not a ComposeYogi synth preset');
+    }
+    if ((data.version ?? 0) > SYNTH_PRESET_FILE_VERSION) {
+        throw new Error('Preset was made with a newer version of ComposeYogi');
+    }
+    if (preset.category !== undefined && !CATEGORIES.includes(preset.category)) {
+        throw new Error('Preset has an unknown category');
+    }
+    const patchError = getPatchError(preset.patch);
+    if (patchError) {
+        throw new Error(`Preset ${patchError}`);
+    }
+
+    return createUserSynthPreset(preset.name, preset.category ?? 'synth', preset.patch);
+}
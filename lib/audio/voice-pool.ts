@@ -0,0 +1,197 @@
+// ============================================
+// ComposeYogi — Voice Pool
+// Shares clip instruments across a track's clips and reuses them
+// across reschedules so samplers are not rebuilt and reloaded
+// ============================================
+
+import * as Tone from 'tone';
+import { createLogger } from '@/lib/logger';
+import { waitForSynthReady, type SynthType } from './synth-presets';
+
+const logger = createLogger('VoicePool');
+
+/**
+ * An instrument and the nodes it plays through (clip macros), built together
+ * and disposed together
+ */
+export interface Voice {
+    synth: SynthType;
+    nodes: Tone.ToneAudioNode[];
+}
+
+/**
+ * Stretch of the timeline a clip plays a voice over
+ */
+export interface VoiceHold {
+    clipId: string;
+    startBar: number;
+    endBar: number;
+}
+
+interface PooledVoice {
+    trackId: string;
+    voice: Promise<Voice | null>;      // Resolves once samples are loaded
+    holds: Map<string, VoiceHold>;     // Clips playing through it, by clip id
+}
+
+/**
+ * Stop whatever a synth is playing without disposing it
+ */
+export function silenceSynth(synth: SynthType): void {
+    if (synth instanceof Tone.PolySynth || synth instanceof Tone.Sampler) {
+        synth.releaseAll();
+    } else {
+        synth.triggerRelease();
+    }
+}
+
+const overlaps = (a: VoiceHold, b: VoiceHold) => a.startBar < b.endBar && b.startBar < a.endBar;
+
+// ============================================
+// Voice Pool
+// ============================================
+
+/**
+ * Loaded instruments keyed by track and instrument (plus whatever else
+ * decides the nodes a voice plays through). Clips on a track share one
+ * voice per key; a clip overlapping every clip already on a voice gets
+ * another, so a track holds at most as many voices per key as it has
+ * overlapping clips and monophonic voices never play two clips at once.
+ *
+ * Voices no clip holds wait idle until a clip asks for the same key again.
+ * A reschedule releases the voices of changed clips, acquires voices for
+ * their new schedule, then trims whatever is still idle.
+ */
+export class VoicePool {
+    private voices = new Map<string, PooledVoice[]>();     // Keyed by trackId + voice key
+
+    /**
+     * Hold a voice for a clip: one of this key's voices that no overlapping
+     * clip holds, or a new one. Resolves once the voice is ready to play.
+     */
+    async acquire(
+        trackId: string,
+        key: string,
+        hold: VoiceHold,
+        create: () => Voice | null | Promise<Voice | null>
+    ): Promise<SynthType | null> {
+        const poolKey = this.getPoolKey(trackId, key);
+        const voices = this.voices.get(poolKey) ?? [];
+        let pooled = voices.find((candidate) => {
+            for (const other of candidate.holds.values()) {
+                if (other.clipId !== hold.clipId && overlaps(other, hold)) return false;
+            }
+            return true;
+        });
+
+        if (!pooled) {
+            // Registered before it loads, so clips scheduled in parallel share it
+            pooled = { trackId, voice: this.createVoice(create), holds: new Map() };
+            voices.push(pooled);
+            this.voices.set(poolKey, voices);
+        }
+
+        pooled.holds.set(hold.clipId, hold);
+        const voice = await pooled.voice;
+        if (voice) return voice.synth;
+
+        this.remove(poolKey, pooled);
+        return null;
+    }
+
+    /**
+     * Let go of a clip's voice. A voice no clip holds any more is silenced
+     * and kept for the next clip that wants it.
+     */
+    release(clipId: string): void {
+        this.voices.forEach((voices) => {
+            for (const pooled of voices) {
+                if (!pooled.holds.delete(clipId) || pooled.holds.size > 0) continue;
+
+                void pooled.voice.then((voice) => {
+                    if (!voice || pooled.holds.size > 0) return;
+                    try {
+                        silenceSynth(voice.synth);
+                    } catch (error) {
+                        logger.warn('Error releasing voice', { error });
+                    }
+                });
+            }
+        });
+    }
+
+    /**
+     * Dispose idle voices, e.g. after a reschedule took what it needed
+     */
+    trim(): void {
+        let disposed = 0;
+        this.voices.forEach((voices, poolKey) => {
+            voices
+                .filter((pooled) => pooled.holds.size === 0)
+                .forEach((pooled) => {
+                    this.remove(poolKey, pooled);
+                    this.disposeVoice(pooled);
+                    disposed++;
+                });
+        });
+
+        if (disposed > 0) {
+            logger.debug('Trimmed idle voices', { disposed });
+        }
+    }
+
+    /**
+     * Dispose every voice of a track, held or not, e.g. when its chain goes away
+     */
+    disposeTrack(trackId: string): void {
+        this.voices.forEach((voices, poolKey) => {
+            voices
+                .filter((pooled) => pooled.trackId === trackId)
+                .forEach((pooled) => {
+                    this.remove(poolKey, pooled);
+                    this.disposeVoice(pooled);
+                });
+        });
+    }
+
+    /**
+     * Number of voices held (playing and idle)
+     */
+    get size(): number {
+        let size = 0;
+        this.voices.forEach((voices) => (size += voices.length));
+        return size;
+    }
+
+    dispose(): void {
+        this.voices.forEach((voices) => voices.forEach((pooled) => this.disposeVoice(pooled)));
+        this.voices.clear();
+    }
+
+    private async createVoice(create: () => Voice | null | Promise<Voice | null>): Promise<Voice | null> {
+        const voice = await create();
+        if (voice) await waitForSynthReady(voice.synth);
+        return voice;
+    }
+
+    private disposeVoice(pooled: PooledVoice): void {
+        pooled.holds.clear();
+        void pooled.voice.then((voice) => {
+            voice?.synth.dispose();
+            voice?.nodes.forEach((node) => node.dispose());
+        });
+    }
+
+    private getPoolKey(trackId: string, key: string): string {
+        return `${trackId}|${key}`;
+    }
+
+    private remove(poolKey: string, pooled: PooledVoice): void {
+        const voices = this.voices.get(poolKey)?.filter((candidate) => candidate !== pooled) ?? [];
+        if (voices.length > 0) {
+            this.voices.set(poolKey, voices);
+        } else {
+            this.voices.delete(poolKey);
+        }
+    }
+}
@@ -0,0 +1,139 @@
+// ============================================
+// ComposeYogi — WAV Encoder
+// Encode AudioBuffer to 16/24-bit PCM or 32-bit float WAV
+// ============================================
+
+// ============================================
+// Types
+// ============================================
+
+export type WavBitDepth = 16 | 24 | 32;  // 32 is IEEE float
+
+export interface WavEncoderOptions {
+    bitDepth?: WavBitDepth;
+    dither?: boolean;     // TPDF dither when quantizing to 16/24-bit
+    chunks?: Uint8Array[];  // Complete RIFF chunks (e.g. LIST, bext) written before data
+}
+
+export const WAV_BIT_DEPTH_PRESETS = {
+    16: { label: '16-bit PCM', description: 'CD quality, widest compatibility' },
+    24: { label: '24-bit PCM', description: 'Studio masters and mixing' },
+    32: { label: '32-bit float', description: 'No clipping, for further processing' },
+} as const;
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+
+// ============================================
+// WAV Encoding (Pure JavaScript)
+// ============================================
+
+/**
+ * Convert an AudioBuffer to a WAV Blob
+ * No external dependencies needed - WAV is just a header + sample data
+ */
+export function encodeAudioBufferToWav(buffer: AudioBuffer, options: WavEncoderOptions = {}): Blob {
+    const { bitDepth = 16, dither = bitDepth !== 32, chunks = [] } = options;
+    const isFloat = bitDepth === 32;
+    const numChannels = buffer.numberOfChannels;
+    const sampleRate = buffer.sampleRate;
+    const bytesPerSample = bitDepth / 8;
+    const blockAlign = numChannels * bytesPerSample;
+    const dataLength = buffer.length * blockAlign;
+
+    // Float files carry the extended fmt chunk and a fact chunk
+    const fmtSize = isFloat ? 18 : 16;
+    const factSize = isFloat ? 12 : 0;
+    const chunksSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const headerLength = 12 + (8 + fmtSize) + factSize + chunksSize + 8;
+
+    const arrayBuffer = new ArrayBuffer(headerLength + dataLength);
+    const view = new DataView(arrayBuffer);
+
+    // RIFF header
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, headerLength - 8 + dataLength, true);
+    writeString(view, 8, 'WAVE');
+
+    // fmt chunk
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, fmtSize, true);
+    view.setUint16(20, isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, true);
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true); // ByteRate
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitDepth, true);
+    let offset = 36;
+    if (isFloat) {
+        view.setUint16(offset, 0, true);                // cbSize
+        offset += 2;
+        writeString(view, offset, 'fact');
+        view.setUint32(offset + 4, 4, true);
+        view.setUint32(offset + 8, buffer.length, true);
+        offset += factSize;
+    }
+
+    // Extra chunks, e.g. metadata
+    const bytes = new Uint8Array(arrayBuffer);
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+
+    // data chunk
+    writeString(view, offset, 'data');
+    view.setUint32(offset + 4, dataLength, true);
+    offset += 8;
+
+    const channels: Float32Array[] = [];
+    for (let i = 0; i < numChannels; i++) {
+        channels.push(buffer.getChannelData(i));
+    }
+
+    if (isFloat) {
+        for (let i = 0; i < buffer.length; i++) {
+            for (let ch = 0; ch < numChannels; ch++) {
+                view.setFloat32(offset, channels[ch][i], true);
+                offset += 4;
+            }
+        }
+    } else {
+        const max = 2 ** (bitDepth - 1) - 1;
+        const min = -(max + 1);
+        for (let i = 0; i < buffer.length; i++) {
+            for (let ch = 0; ch < numChannels; ch++) {
+                const value = quantize(channels[ch][i], max, min, dither);
+                if (bitDepth === 16) {
+                    view.setInt16(offset, value, true);
+                } else {
+                    view.setUint8(offset, value & 0xFF);
+                    view.setUint8(offset + 1, (value >> 8) & 0xFF);
+                    view.setUint8(offset + 2, (value >> 16) & 0xFF);
+                }
+                offset += bytesPerSample;
+            }
+        }
+    }
+
+    return new Blob([arrayBuffer], { type: 'audio/wav' });
+}
+
+/**
+ * Scale a float sample to an integer of the target depth. TPDF dither adds
+ * two uniform random values (±1 LSB peak) before rounding, which turns
+ * quantization distortion into a constant low noise floor.
+ */
+function quantize(sample: number, max: number, min: number, dither: boolean): number {
+    let value = sample * (max + 1);
+    if (dither) {
+        value += Math.random() - Math.random();
+    }
+    return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+function writeString(view: DataView, offset: number, str: string): void {
+    for (let i = 0; i < str.length; i++) {
+        view.setUint8(offset + i, str.charCodeAt(i));
+    }
+}
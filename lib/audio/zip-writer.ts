@@ -0,0 +1,153 @@
+// ============================================
+// ComposeYogi — ZIP Writer
+// Bundles export files into an uncompressed (stored) ZIP
+// ============================================
+
+// ============================================
+// Types
+// ============================================
+
+export interface ZipEntry {
+    name: string;          // Path inside the archive, '/' separated
+    data: Uint8Array;
+}
+
+// ============================================
+// CRC-32
+// ============================================
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+    if (crcTable) return crcTable;
+
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+    }
+    return crcTable;
+}
+
+function crc32(data: Uint8Array): number {
+    const table = getCrcTable();
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// ============================================
+// ZIP Encoder (Pure JavaScript)
+// ============================================
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP32_VALUE = 0xFFFFFFFF;    // Sizes and offsets are 32-bit without ZIP64
+const MAX_ZIP32_ENTRIES = 0xFFFF;
+
+/**
+ * Build a ZIP archive without compression. Audio barely deflates, so
+ * storing keeps this small and fast. Without ZIP64 the archive is limited
+ * to 4 GB and 65535 files; larger ones throw rather than write sizes and
+ * offsets that wrap around.
+ */
+export function createZip(entries: ZipEntry[], date: Date = new Date()): Blob {
+    const encoder = new TextEncoder();
+    const { time, day } = toDosDateTime(date);
+    const names = entries.map((entry) => encoder.encode(entry.name));
+    assertZip32(entries, names);
+
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach((entry, index) => {
+        const name = names[index];
+        const crc = crc32(entry.data);
+        const size = entry.data.length;
+
+        // Local file header
+        const local = new Uint8Array(LOCAL_HEADER_SIZE + name.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034B50, true);
+        lv.setUint16(4, 20, true);             // Version needed
+        lv.setUint16(6, UTF8_FLAG, true);
+        lv.setUint16(8, 0, true);              // Stored
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, day, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, size, true);          // Compressed size
+        lv.setUint32(22, size, true);          // Uncompressed size
+        lv.setUint16(26, name.length, true);
+        lv.setUint16(28, 0, true);             // Extra field length
+        local.set(name, LOCAL_HEADER_SIZE);
+
+        // Central directory header
+        const header = new Uint8Array(CENTRAL_HEADER_SIZE + name.length);
+        const cv = new DataView(header.buffer);
+        cv.setUint32(0, 0x02014B50, true);
+        cv.setUint16(4, 20, true);             // Version made by
+        cv.setUint16(6, 20, true);             // Version needed
+        cv.setUint16(8, UTF8_FLAG, true);
+        cv.setUint16(10, 0, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, day, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, size, true);
+        cv.setUint32(24, size, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);        // Local header offset
+        header.set(name, CENTRAL_HEADER_SIZE);
+
+        parts.push(local, entry.data);
+        central.push(header);
+        offset += local.length + size;
+    });
+
+    const centralSize = central.reduce((sum, header) => sum + header.length, 0);
+
+    // End of central directory record
+    const end = new Uint8Array(END_RECORD_SIZE);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054B50, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...central, end] as BlobPart[], { type: 'application/zip' });
+}
+
+/**
+ * Throw if the archive's sizes, offsets or file count overflow their ZIP fields
+ */
+function assertZip32(entries: ZipEntry[], names: Uint8Array[]): void {
+    if (entries.length > MAX_ZIP32_ENTRIES) {
+        throw new Error(`Too many files for a ZIP archive (${entries.length}, the limit is ${MAX_ZIP32_ENTRIES})`);
+    }
+
+    // Everything up to and including the central directory
+    let total = 0;
+    entries.forEach((entry, index) => {
+        total += LOCAL_HEADER_SIZE + CENTRAL_HEADER_SIZE + 2 * names[index].length + entry.data.length;
+    });
+    if (total > MAX_ZIP32_VALUE) {
+        const gb = (total / 1024 ** 3).toFixed(1);
+        throw new Error(`Export is too large for a ZIP archive (${gb} GB, the limit is 4 GB). Export fewer tracks or a shorter range.`);
+    }
+}
+
+function toDosDateTime(date: Date): { time: number; day: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        day: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
@@ -3,7 +3,7 @@
 // Templates, Instruments, Samples, FX
 // ============================================
 
-import type { TrackType, TrackColor } from '@/types';
+import type { TrackType, TrackColor, TrackEffect, TrackEffectType } from '@/types';
 
 // ============================================
 // Types
@@ -53,11 +53,15 @@ export interface SampleItem {
     key?: string; // for melodic samples
 }
 
+export type FXCategory = 'reverb' | 'delay' | 'distortion' | 'filter' | 'eq' | 'modulation' | 'dynamics' | 'stereo';
+
 export interface FXPreset {
     id: string;
     name: string;
-    category: 'reverb' | 'delay' | 'distortion' | 'filter' | 'compression';
+    category: FXCategory;
+    type: TrackEffectType;
     description: string;
+    params?: TrackEffect['params'];  // Over the effect's defaults
 }
 
 // ============================================
@@ -758,71 +762,185 @@ export const FX_PRESETS: FXPreset[] = [
         id: 'room-reverb',
         name: 'Room',
         category: 'reverb',
+        type: 'reverb',
         description: 'Small room ambience',
+        params: { decay: 0.8, wet: 0.3 },
     },
     {
         id: 'hall-reverb',
         name: 'Hall',
         category: 'reverb',
+        type: 'reverb',
         description: 'Large concert hall',
+        params: { decay: 4, wet: 0.45 },
     },
     {
         id: 'plate-reverb',
         name: 'Plate',
         category: 'reverb',
+        type: 'reverb',
         description: 'Classic plate reverb',
+        params: { decay: 2, wet: 0.35 },
     },
     // Delay
     {
         id: 'ping-pong',
         name: 'Ping Pong',
         category: 'delay',
+        type: 'pingpong',
         description: 'Stereo bouncing delay',
+        params: { sync: '1/8', feedback: 0.4, wet: 0.35 },
     },
     {
         id: 'tape-delay',
         name: 'Tape Delay',
         category: 'delay',
+        type: 'delay',
         description: 'Warm analog delay',
+        params: { sync: '1/8d', feedback: 0.45, wet: 0.3 },
+    },
+    {
+        id: 'slapback',
+        name: 'Slapback',
+        category: 'delay',
+        type: 'delay',
+        description: 'Short single echo',
+        params: { delayTime: 0.09, feedback: 0.1, wet: 0.3 },
     },
     // Distortion
     {
         id: 'soft-saturation',
         name: 'Soft Saturation',
         category: 'distortion',
+        type: 'distortion',
         description: 'Gentle warmth',
+        params: { distortion: 0.2, wet: 0.4 },
     },
     {
         id: 'bit-crush',
         name: 'Bit Crush',
         category: 'distortion',
+        type: 'bitcrusher',
         description: 'Lo-fi digital grit',
+        params: { bits: 4, wet: 0.7 },
+    },
+    {
+        id: '8-bit',
+        name: '8-Bit',
+        category: 'distortion',
+        type: 'bitcrusher',
+        description: 'Console-style crunch',
+        params: { bits: 8, wet: 1 },
     },
     // Filter
     {
         id: 'lowpass',
         name: 'Low Pass',
         category: 'filter',
+        type: 'filter',
         description: 'Remove high frequencies',
+        params: { filterType: 'lowpass', frequency: 1200 },
     },
     {
         id: 'highpass',
         name: 'High Pass',
         category: 'filter',
+        type: 'filter',
         description: 'Remove low frequencies',
+        params: { filterType: 'highpass', frequency: 200 },
+    },
+    // EQ
+    {
+        id: 'parametric-eq',
+        name: 'Parametric EQ',
+        category: 'eq',
+        type: 'parametric-eq',
+        description: 'Flat 4-band EQ to shape from',
+    },
+    {
+        id: 'vocal-presence',
+        name: 'Vocal Presence',
+        category: 'eq',
+        type: 'parametric-eq',
+        description: 'Cut mud, lift presence and air',
+        params: { bandCount: 5, band1Frequency: 100, band1Gain: -6, band2Frequency: 300, band2Gain: -3, band3Frequency: 3000, band3Gain: 3, band5Frequency: 12000, band5Gain: 3 },
+    },
+    {
+        id: 'three-band-eq',
+        name: 'Three Band',
+        category: 'eq',
+        type: 'eq',
+        description: 'Simple low, mid and high',
+    },
+    // Modulation
+    {
+        id: 'chorus',
+        name: 'Chorus',
+        category: 'modulation',
+        type: 'chorus',
+        description: 'Thicken with detuned copies',
     },
-    // Compression
+    {
+        id: 'flanger',
+        name: 'Flanger',
+        category: 'modulation',
+        type: 'chorus',
+        description: 'Jet-like sweep',
+        params: { frequency: 0.3, delayTime: 1.5, depth: 0.9, feedback: 0.6, wet: 0.5 },
+    },
+    {
+        id: 'phaser',
+        name: 'Phaser',
+        category: 'modulation',
+        type: 'phaser',
+        description: 'Swirling notches',
+    },
+    {
+        id: 'tremolo',
+        name: 'Tremolo',
+        category: 'modulation',
+        type: 'tremolo',
+        description: 'Rhythmic volume wobble',
+    },
+    // Dynamics
     {
         id: 'gentle-comp',
         name: 'Gentle Comp',
-        category: 'compression',
+        category: 'dynamics',
+        type: 'compression',
         description: 'Subtle dynamic control',
+        params: { threshold: -18, ratio: 2, attack: 0.02, release: 0.25 },
     },
     {
         id: 'punch-comp',
         name: 'Punch',
-        category: 'compression',
+        category: 'dynamics',
+        type: 'compression',
         description: 'Add punch and presence',
+        params: { threshold: -24, ratio: 6, attack: 0.01, release: 0.1 },
+    },
+    {
+        id: 'noise-gate',
+        name: 'Noise Gate',
+        category: 'dynamics',
+        type: 'gate',
+        description: 'Silence hiss between phrases',
+    },
+    // Stereo
+    {
+        id: 'autopan',
+        name: 'Auto Pan',
+        category: 'stereo',
+        type: 'autopan',
+        description: 'Sweep left to right',
+    },
+    {
+        id: 'widener',
+        name: 'Stereo Widener',
+        category: 'stereo',
+        type: 'widener',
+        description: 'Spread the stereo image',
+        params: { width: 0.7 },
     },
 ];
 
@@ -847,10 +965,13 @@ export const INSTRUMENT_CATEGORIES = [
 // FX Categories for grouping
 // ============================================
 
-export const FX_CATEGORIES = [
+export const FX_CATEGORIES: { id: FXCategory; name: string; icon: string }[] = [
     { id: 'reverb', name: 'Reverb', icon: '🌀' },
     { id: 'delay', name: 'Delay', icon: '📢' },
     { id: 'distortion', name: 'Distortion', icon: '⚡' },
     { id: 'filter', name: 'Filter', icon: '🎚️' },
-    { id: 'compression', name: 'Compression', icon: '📊' },
-] as const;
+    { id: 'eq', name: 'EQ', icon: '📈' },
+    { id: 'modulation', name: 'Modulation', icon: '🌊' },
+    { id: 'dynamics', name: 'Dynamics', icon: '📊' },
+    { id: 'stereo', name: 'Stereo', icon: '🎧' },
+];
@@ -3,6 +3,8 @@
 // Canvas-based time grid with beat markers
 // ============================================
 
+import type { TempoMap } from '@/lib/audio/tempo-map';
+
 export interface GridConfig {
     bpm: number;
     timeSignature: [number, number];
@@ -13,6 +15,13 @@ export interface GridConfig {
     scrollY: number;
     viewportWidth: number;
     viewportHeight: number;
+    tempoMap?: TempoMap;  // Meter changes; bars stay timeSignature[0] beats wide
+}
+
+interface GridBeat {
+    x: number;          // Content position in pixels
+    width: number;      // Pixels to the next beat
+    isBarLine: boolean;
 }
 
 export interface GridColors {
@@ -92,33 +101,22 @@ export class GridRenderer {
      * Render vertical grid lines (bars, beats, sub-beats)
      */
     private renderVerticalLines(config: GridConfig): void {
-        const { pixelsPerBeat, timeSignature, scrollX, viewportWidth } = config;
-        const [beatsPerBar] = timeSignature;
-
-        // Calculate visible range
-        const startBeat = Math.floor(scrollX / pixelsPerBeat);
-        const endBeat = Math.ceil((scrollX + viewportWidth) / pixelsPerBeat) + 1;
-
-        // Determine sub-beat division based on zoom level
-        const subDivision = this.getSubDivision(pixelsPerBeat);
+        const { scrollX, viewportWidth } = config;
 
         this.ctx.lineWidth = 1;
 
-        for (let beat = startBeat; beat <= endBeat; beat++) {
-            const x = beat * pixelsPerBeat - scrollX;
+        for (const beat of this.getVisibleBeats(config)) {
+            const x = beat.x - scrollX;
 
             // Skip if outside viewport
             if (x < -1 || x > viewportWidth + 1) continue;
 
-            const isBarLine = beat % beatsPerBar === 0;
-            const isBeatLine = !isBarLine;
-
-            if (isBarLine) {
+            if (beat.isBarLine) {
                 // Bar line (brightest)
                 this.ctx.strokeStyle = this.colors.barLine;
                 this.ctx.lineWidth = 1;
                 this.drawVerticalLine(x, 0, config.viewportHeight);
-            } else if (isBeatLine) {
+            } else {
                 // Beat line
                 this.ctx.strokeStyle = this.colors.beatLine;
                 this.ctx.lineWidth = 1;
@@ -126,8 +124,9 @@ export class GridRenderer {
             }
 
             // Sub-beat lines (if zoomed in enough)
-            if (subDivision > 1 && pixelsPerBeat > 40) {
-                const subBeatWidth = pixelsPerBeat / subDivision;
+            const subDivision = this.getSubDivision(beat.width);
+            if (subDivision > 1 && beat.width > 40) {
+                const subBeatWidth = beat.width / subDivision;
                 this.ctx.strokeStyle = this.colors.subBeatLine;
                 this.ctx.lineWidth = 1;
 
@@ -141,6 +140,40 @@ export class GridRenderer {
         }
     }
 
+    /**
+     * Beat positions in the visible range. With a tempo map, each bar is
+     * divided by the meter in effect there.
+     */
+    private getVisibleBeats(config: GridConfig): GridBeat[] {
+        const { pixelsPerBeat, timeSignature, scrollX, viewportWidth, tempoMap } = config;
+        const [beatsPerBar] = timeSignature;
+        const beats: GridBeat[] = [];
+
+        if (!tempoMap) {
+            const startBeat = Math.floor(scrollX / pixelsPerBeat);
+            const endBeat = Math.ceil((scrollX + viewportWidth) / pixelsPerBeat) + 1;
+
+            for (let beat = startBeat; beat <= endBeat; beat++) {
+                beats.push({ x: beat * pixelsPerBeat, width: pixelsPerBeat, isBarLine: beat % beatsPerBar === 0 });
+            }
+            return beats;
+        }
+
+        const pixelsPerBar = pixelsPerBeat * beatsPerBar;
+        const startBar = Math.max(0, Math.floor(scrollX / pixelsPerBar));
+        const endBar = Math.ceil((scrollX + viewportWidth) / pixelsPerBar);
+
+        for (let bar = startBar; bar <= endBar; bar++) {
+            const barBeats = tempoMap.getBeatsPerBarAt(bar);
+            const width = pixelsPerBar / barBeats;
+
+            for (let beat = 0; beat < barBeats; beat++) {
+                beats.push({ x: bar * pixelsPerBar + beat * width, width, isBarLine: beat === 0 });
+            }
+        }
+        return beats;
+    }
+
     /**
      * Render horizontal track divider lines
      */
@@ -7,11 +7,13 @@
  * - clips: Clip data (separate for efficient updates)
  * - audioTakes: Audio binary data (large, stored separately)
  * - userSamples: User-imported audio samples
+ * - samplerPresets: User-defined sampler instruments built from userSamples
+ * - synthPresets: User-saved synth patches
  * - settings: App-level settings (latency, preferences)
  */
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import type { Project, Track, Clip, AudioTake, PeaksCache, UserSample } from '@/types';
+import type { Project, Track, Clip, AudioTake, PeaksCache, UserSample, SamplerPreset, UserSynthPreset, MasterBus, TempoChange, ExportMetadata } from '@/types';
 import { createLogger } from '@/lib/logger';
 
 const logger = createLogger('DB');
@@ -61,6 +63,20 @@ interface ComposeYogiDB extends DBSchema {
             'by-created': number;
         };
     };
+    samplerPresets: {
+        key: string;
+        value: SamplerPreset;
+        indexes: {
+            'by-created': number;
+        };
+    };
+    synthPresets: {
+        key: string;
+        value: UserSynthPreset;
+        indexes: {
+            'by-created': number;
+        };
+    };
 }
 
 // Stored versions (some fields stored differently for IndexedDB)
@@ -74,6 +90,9 @@ interface ProjectRecord {
     createdAt: number;
     updatedAt: number;
     latencyOffset?: number;
+    master?: MasterBus;
+    tempoMap?: TempoChange[];
+    exportMetadata?: ExportMetadata;
     // Note: tracks and clips stored in separate object stores
 }
 
@@ -117,7 +136,7 @@ interface UserSampleRecord {
 // ============================================
 
 const DB_NAME = 'composeyogi';
-const DB_VERSION = 2;
+const DB_VERSION = 4;
 
 let dbInstance: IDBPDatabase<ComposeYogiDB> | null = null;
 
@@ -161,6 +180,18 @@ export async function getDB(): Promise<IDBPDatabase<ComposeYogiDB>> {
                 const sampleStore = db.createObjectStore('userSamples', { keyPath: 'id' });
                 sampleStore.createIndex('by-created', 'createdAt');
             }
+
+            // Sampler presets store (added in v3)
+            if (!db.objectStoreNames.contains('samplerPresets')) {
+                const presetStore = db.createObjectStore('samplerPresets', { keyPath: 'id' });
+                presetStore.createIndex('by-created', 'createdAt');
+            }
+
+            // Synth presets store (added in v4)
+            if (!db.objectStoreNames.contains('synthPresets')) {
+                const synthStore = db.createObjectStore('synthPresets', { keyPath: 'id' });
+                synthStore.createIndex('by-created', 'createdAt');
+            }
         },
         blocked() {
             console.warn('[DB] Database blocked - close other tabs');
@@ -198,6 +229,9 @@ export async function saveProject(project: Project): Promise<void> {
         createdAt: project.createdAt,
         updatedAt: Date.now(),
         latencyOffset: project.latencyOffset,
+        master: project.master,
+        tempoMap: project.tempoMap,
+        exportMetadata: project.exportMetadata,
     };
     await tx.objectStore('projects').put(projectRecord);
 
@@ -279,6 +313,9 @@ export async function loadProject(projectId: string): Promise<Project | null> {
         createdAt: projectRecord.createdAt,
         updatedAt: projectRecord.updatedAt,
         latencyOffset: projectRecord.latencyOffset,
+        master: projectRecord.master,
+        tempoMap: projectRecord.tempoMap,
+        exportMetadata: projectRecord.exportMetadata,
         tracks: sortedTracks,
         clips,
     };
@@ -314,6 +351,9 @@ export async function deleteProject(projectId: string): Promise<void> {
     const tracks = await tx.objectStore('tracks').index('by-project').getAll(projectId);
     const trackStore = tx.objectStore('tracks');
     for (const track of tracks) {
+        if (track.freeze) {
+            await takeStore.delete(track.freeze.takeId);
+        }
         await trackStore.delete(track.id);
     }
 
@@ -490,6 +530,48 @@ export async function deleteUserSample(sampleId: string): Promise<void> {
     logger.debug('User sample deleted', { id: sampleId });
 }
 
+// ============================================
+// Sampler Preset Operations
+// ============================================
+
+export async function saveSamplerPreset(preset: SamplerPreset): Promise<void> {
+    const db = await getDB();
+    await db.put('samplerPresets', preset);
+    logger.debug('Sampler preset saved', { id: preset.id, name: preset.name });
+}
+
+export async function listSamplerPresets(): Promise<SamplerPreset[]> {
+    const db = await getDB();
+    return db.getAllFromIndex('samplerPresets', 'by-created');
+}
+
+export async function deleteSamplerPreset(presetId: string): Promise<void> {
+    const db = await getDB();
+    await db.delete('samplerPresets', presetId);
+    logger.debug('Sampler preset deleted', { id: presetId });
+}
+
+// ============================================
+// Synth Preset Operations
+// ============================================
+
+export async function saveSynthPreset(preset: UserSynthPreset): Promise<void> {
+    const db = await getDB();
+    await db.put('synthPresets', preset);
+    logger.debug('Synth preset saved', { id: preset.id, name: preset.name });
+}
+
+export async function listSynthPresets(): Promise<UserSynthPreset[]> {
+    const db = await getDB();
+    return db.getAllFromIndex('synthPresets', 'by-created');
+}
+
+export async function deleteSynthPreset(presetId: string): Promise<void> {
+    const db = await getDB();
+    await db.delete('synthPresets', presetId);
+    logger.debug('Synth preset deleted', { id: presetId });
+}
+
 // ============================================
 // Settings Operations
 // ============================================
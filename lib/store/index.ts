@@ -2,6 +2,6 @@
 // ComposeYogi — Store Exports
 // ============================================
 
-export { useProjectStore, selectProject, selectTracks, selectClips, selectBpm, selectKey, selectScale } from './project';
+export { useProjectStore, selectProject, selectTracks, selectClips, selectBpm, selectKey, selectScale, withExportCover } from './project';
 export { usePlaybackStore, playbackRefs, selectIsPlaying, selectIsRecording, selectMetronomeEnabled, selectLoopEnabled } from './playback';
-export { useUIStore, selectBrowserOpen, selectInspectorOpen, selectEditorOpen, selectSelectedClipIds, selectZoom, selectIsMobile, selectCustomKeyBindings, selectKeyBindingsLoaded } from './ui';
+export { useUIStore, selectBrowserOpen, selectInspectorOpen, selectEditorOpen, selectSelectedClipIds, selectZoom, selectIsMobile, selectCustomKeyBindings, selectKeyBindingsLoaded, selectMidiMappings, selectMidiMappingsLoaded } from './ui';
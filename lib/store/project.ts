@@ -7,6 +7,9 @@ import { create } from 'zustand';
 import { temporal } from 'zundo';
 import { v4 as uuid } from 'uuid';
 import { TEMPLATES } from '@/lib/browser';
+import { createDefaultMasterBus, getMasterBus } from '@/lib/audio/master-bus';
+import { getTempoMap } from '@/lib/audio/tempo-map';
+import { paintCompRegion } from '@/lib/audio/comping';
 import type {
     Project,
     Track,
@@ -16,6 +19,12 @@ import type {
     TrackColor,
     TrackEffect,
     TrackEffectType,
+    TrackSend,
+    TempoChange,
+    AutomationLane,
+    AutomationPoint,
+    AutomationTarget,
+    MasterBus,
     ClipType,
     MusicalKey,
     MusicalScale
@@ -29,6 +38,10 @@ interface ProjectState {
     // Current project
     project: Project | null;
 
+    // Export cover image (data URL), held apart from the project so undo
+    // history never copies or compares it. Saved with the project.
+    exportCover: string | null;
+
     // Loading states
     isLoading: boolean;
     isSaving: boolean;
@@ -41,17 +54,33 @@ interface ProjectActions {
     createProject: (name?: string, templateId?: string) => Project;
     loadProject: (project: Project) => void;
     updateProject: (updates: Partial<Project>) => void;
+    setExportCover: (cover: string | null) => void;
     closeProject: () => void;
 
     // Track operations
     addTrack: (type: TrackType, name?: string, color?: TrackColor) => Track;
     updateTrack: (trackId: string, updates: Partial<Track>) => void;
-    addTrackEffect: (trackId: string, type: TrackEffectType, presetId?: string) => void;
+    addTrackEffect: (trackId: string, type: TrackEffectType, presetId?: string, params?: TrackEffect['params']) => void;
     updateTrackEffect: (trackId: string, effectId: string, updates: Partial<TrackEffect>) => void;
     removeTrackEffect: (trackId: string, effectId: string) => void;
+    addTrackSend: (trackId: string, busId: string) => TrackSend | null;
+    updateTrackSend: (trackId: string, sendId: string, updates: Partial<Omit<TrackSend, 'id'>>) => void;
+    removeTrackSend: (trackId: string, sendId: string) => void;
     deleteTrack: (trackId: string) => void;
     reorderTracks: (trackIds: string[]) => void;
 
+    // Automation operations
+    addAutomationLane: (trackId: string, target: AutomationTarget) => AutomationLane | null;
+    updateAutomationLane: (trackId: string, laneId: string, updates: Partial<Omit<AutomationLane, 'id' | 'points'>>) => void;
+    removeAutomationLane: (trackId: string, laneId: string) => void;
+    addAutomationPoint: (trackId: string, laneId: string, point: Omit<AutomationPoint, 'id'>) => AutomationPoint | null;
+    updateAutomationPoint: (trackId: string, laneId: string, pointId: string, updates: Partial<AutomationPoint>) => void;
+    deleteAutomationPoint: (trackId: string, laneId: string, pointId: string) => void;
+
+    // Master bus
+    updateMasterBus: (updates: Partial<Omit<MasterBus, 'effects'>>) => void;
+    updateMasterEffect: (effectId: string, updates: Partial<TrackEffect>) => void;
+
     // Clip operations
     addClip: (trackId: string, type: ClipType, startBar: number, lengthBars?: number) => Clip;
     updateClip: (clipId: string, updates: Partial<Clip>) => void;
@@ -61,7 +90,17 @@ interface ProjectActions {
     moveClip: (clipId: string, newTrackId: string, newStartBar: number) => void;
     moveClipsByDelta: (clipIds: string[], deltaBars: number) => void;
     resizeClip: (clipId: string, newLengthBars: number) => void;
-    splitClip: (clipId: string, atBar: number) => [Clip, Clip] | null;
+    // audio: the take's length and warp time scale, so audio halves trim exactly
+    splitClip: (
+        clipId: string,
+        atBar: number,
+        audio?: { sourceDuration: number; timeScale: number }
+    ) => [Clip, Clip] | null;
+
+    // Take comping (audio clips)
+    setActiveTake: (clipId: string, takeId: string) => void;
+    paintCompRegion: (clipId: string, takeId: string, start: number, end: number) => void;
+    clearComp: (clipId: string) => void;
 
     // Note operations (for MIDI/drum clips)
     addNote: (clipId: string, note: Omit<Note, 'id'>) => Note | null;
@@ -74,6 +113,11 @@ interface ProjectActions {
     setScale: (scale: MusicalScale) => void;
     setTimeSignature: (timeSignature: [number, number]) => void;
 
+    // Tempo map
+    addTempoChange: (bar: number) => TempoChange | null;
+    updateTempoChange: (changeId: string, updates: Partial<Omit<TempoChange, 'id'>>) => void;
+    removeTempoChange: (changeId: string) => void;
+
     // Save state
     markSaved: () => void;
     setLoading: (loading: boolean) => void;
@@ -107,6 +151,7 @@ const createDefaultProject = (name: string = 'Untitled Project'): Project => ({
     clips: [],
     createdAt: Date.now(),
     updatedAt: Date.now(),
+    master: createDefaultMasterBus(),
 });
 
 const getNextTrackColor = (tracks: Track[]): TrackColor => {
@@ -115,6 +160,24 @@ const getNextTrackColor = (tracks: Track[]): TrackColor => {
     return availableColor || TRACK_COLORS[tracks.length % TRACK_COLORS.length];
 };
 
+const sortPoints = (points: AutomationPoint[]): AutomationPoint[] =>
+    [...points].sort((a, b) => a.bar - b.bar);
+
+// Apply an update to one automation lane, returning the new tracks array
+const mapAutomationLane = (
+    tracks: Track[],
+    trackId: string,
+    laneId: string,
+    fn: (lane: AutomationLane) => AutomationLane
+): Track[] =>
+    tracks.map((t) => {
+        if (t.id !== trackId) return t;
+        return {
+            ...t,
+            automation: (t.automation || []).map((lane) => (lane.id === laneId ? fn(lane) : lane)),
+        };
+    });
+
 // ============================================
 // Store Implementation
 // ============================================
@@ -125,6 +188,7 @@ const projectStoreBase = (
 ): ProjectStore => ({
     // Initial state
     project: null,
+    exportCover: null,
     isLoading: false,
     isSaving: false,
     lastSaved: null,
@@ -217,6 +281,7 @@ const projectStoreBase = (
 
         set(() => ({
             project,
+            exportCover: null,
             hasUnsavedChanges: true,
             lastSaved: null,
         }));
@@ -224,8 +289,12 @@ const projectStoreBase = (
     },
 
     loadProject: (project) => {
+        const { cover, ...exportMetadata } = project.exportMetadata ?? {};
         set(() => ({
-            project,
+            project: project.exportMetadata
+                ? { ...project, exportMetadata: Object.keys(exportMetadata).length > 0 ? exportMetadata : undefined }
+                : project,
+            exportCover: cover ?? null,
             hasUnsavedChanges: false,
             lastSaved: Date.now(),
         }));
@@ -240,9 +309,17 @@ const projectStoreBase = (
         }));
     },
 
+    setExportCover: (cover) => {
+        set(() => ({
+            exportCover: cover,
+            hasUnsavedChanges: true,
+        }));
+    },
+
     closeProject: () => {
         set(() => ({
             project: null,
+            exportCover: null,
             hasUnsavedChanges: false,
             lastSaved: null,
         }));
@@ -280,7 +357,8 @@ const projectStoreBase = (
             solo: false,
             armed: false,
             order: maxOrder + 1,
-            instrumentPreset: defaultPresetForColor[trackColor] || 'basic-synth',
+            // Buses only carry effects; they have no instrument
+            instrumentPreset: type === 'bus' ? undefined : defaultPresetForColor[trackColor] || 'basic-synth',
         };
 
         set((s) => ({
@@ -312,7 +390,7 @@ const projectStoreBase = (
         }));
     },
 
-    addTrackEffect: (trackId, type, presetId) => {
+    addTrackEffect: (trackId, type, presetId, params) => {
         set((state) => {
             if (!state.project) return {};
 
@@ -324,6 +402,17 @@ const projectStoreBase = (
                     case 'distortion': return { distortion: 0.4, wet: 0.5 };
                     case 'filter': return { frequency: 1000, type: 'lowpass', Q: 1, wet: 1 };
                     case 'compression': return { threshold: -24, ratio: 12, attack: 0.003, release: 0.25 };
+                    case 'eq': return { low: 0, mid: 0, high: 0, lowFrequency: 250, highFrequency: 4000 };
+                    case 'limiter': return { ceiling: -1 };
+                    case 'widener': return { width: 0.5 };
+                    case 'parametric-eq': return { bandCount: 4 };  // Band frequencies default per band
+                    case 'chorus': return { frequency: 1.5, delayTime: 3.5, depth: 0.7, feedback: 0, wet: 0.5 };
+                    case 'phaser': return { frequency: 0.5, octaves: 3, baseFrequency: 350, Q: 10, wet: 0.5 };
+                    case 'tremolo': return { frequency: 5, depth: 0.6, spread: 0, wet: 1 };
+                    case 'autopan': return { frequency: 1, depth: 1, wet: 1 };
+                    case 'bitcrusher': return { bits: 4, wet: 1 };
+                    case 'gate': return { threshold: -40, smoothing: 0.1 };
+                    case 'pingpong': return { delayTime: 0.25, sync: '1/8', feedback: 0.4, wet: 0.4 };
                     default: return {};
                 }
             };
@@ -339,7 +428,7 @@ const projectStoreBase = (
                             type,
                             active: true,
                             presetId,
-                            params: getDefaultParams(type)
+                            params: { ...getDefaultParams(type), ...params }
                         };
                         return { ...t, effects: [...effects, newEffect] };
                     }),
@@ -359,7 +448,11 @@ const projectStoreBase = (
                         if (t.id !== trackId) return t;
                         return {
                             ...t,
-                            effects: (t.effects || []).filter(e => e.id !== effectId)
+                            effects: (t.effects || []).filter(e => e.id !== effectId),
+                            // Lanes targeting the removed effect go with it
+                            automation: t.automation?.filter(
+                                (lane) => !lane.target.startsWith(`${effectId}.`)
+                            ),
                         };
                     }),
                     updatedAt: Date.now(),
@@ -390,12 +483,246 @@ const projectStoreBase = (
         }));
     },
 
+    // Send operations
+    addTrackSend: (trackId, busId) => {
+        const project = get().project;
+        const track = project?.tracks.find((t) => t.id === trackId);
+        const bus = project?.tracks.find((t) => t.id === busId);
+        if (!track || !bus || bus.type !== 'bus' || track.type === 'bus') return null;
+
+        // One send per bus
+        const existing = track.sends?.find((send) => send.busId === busId);
+        if (existing) return existing;
+
+        const send: TrackSend = {
+            id: uuid(),
+            busId,
+            level: 0.5,
+            preFader: false,
+        };
+
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: state.project.tracks.map((t) =>
+                        t.id === trackId ? { ...t, sends: [...(t.sends || []), send] } : t
+                    ),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+
+        return send;
+    },
+
+    updateTrackSend: (trackId, sendId, updates) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: state.project.tracks.map((t) => {
+                        if (t.id !== trackId) return t;
+                        return {
+                            ...t,
+                            sends: (t.sends || []).map((send) =>
+                                send.id === sendId ? { ...send, ...updates } : send
+                            ),
+                        };
+                    }),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    removeTrackSend: (trackId, sendId) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: state.project.tracks.map((t) => {
+                        if (t.id !== trackId) return t;
+                        return { ...t, sends: (t.sends || []).filter((send) => send.id !== sendId) };
+                    }),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    // Automation operations
+    addAutomationLane: (trackId, target) => {
+        const project = get().project;
+        const track = project?.tracks.find((t) => t.id === trackId);
+        if (!track) return null;
+
+        // One lane per target
+        const existing = track.automation?.find((lane) => lane.target === target);
+        if (existing) return existing;
+
+        const lane: AutomationLane = {
+            id: uuid(),
+            target,
+            enabled: true,
+            points: [],
+        };
+
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: state.project.tracks.map((t) =>
+                        t.id === trackId ? { ...t, automation: [...(t.automation || []), lane] } : t
+                    ),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+
+        return lane;
+    },
+
+    updateAutomationLane: (trackId, laneId, updates) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: mapAutomationLane(state.project.tracks, trackId, laneId, (lane) => ({
+                        ...lane,
+                        ...updates,
+                    })),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    removeAutomationLane: (trackId, laneId) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: state.project.tracks.map((t) =>
+                        t.id === trackId
+                            ? { ...t, automation: (t.automation || []).filter((lane) => lane.id !== laneId) }
+                            : t
+                    ),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    addAutomationPoint: (trackId, laneId, point) => {
+        const track = get().project?.tracks.find((t) => t.id === trackId);
+        if (!track?.automation?.some((lane) => lane.id === laneId)) return null;
+
+        const newPoint: AutomationPoint = { ...point, id: uuid() };
+
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: mapAutomationLane(state.project.tracks, trackId, laneId, (lane) => ({
+                        ...lane,
+                        points: sortPoints([...lane.points, newPoint]),
+                    })),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+
+        return newPoint;
+    },
+
+    updateAutomationPoint: (trackId, laneId, pointId, updates) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: mapAutomationLane(state.project.tracks, trackId, laneId, (lane) => ({
+                        ...lane,
+                        points: sortPoints(
+                            lane.points.map((p) => (p.id === pointId ? { ...p, ...updates } : p))
+                        ),
+                    })),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    deleteAutomationPoint: (trackId, laneId, pointId) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tracks: mapAutomationLane(state.project.tracks, trackId, laneId, (lane) => ({
+                        ...lane,
+                        points: lane.points.filter((p) => p.id !== pointId),
+                    })),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    // Master bus (projects saved before it existed start from the default chain)
+    updateMasterBus: (updates) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    master: { ...getMasterBus(state.project), ...updates },
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    updateMasterEffect: (effectId, updates) => {
+        set((state) => {
+            if (!state.project) return {};
+            const master = getMasterBus(state.project);
+            return {
+                project: {
+                    ...state.project,
+                    master: {
+                        ...master,
+                        effects: master.effects.map((e) =>
+                            e.id === effectId ? { ...e, ...updates } : e
+                        ),
+                    },
+                    updatedAt: Date.now(),
+                },
+                hasUnsavedChanges: true,
+            };
+        });
+    },
+
     deleteTrack: (trackId) => {
         set((state) => ({
             project: state.project
                 ? {
                     ...state.project,
-                    tracks: state.project.tracks.filter((t) => t.id !== trackId),
+                    tracks: state.project.tracks
+                        .filter((t) => t.id !== trackId)
+                        // Sends into a deleted bus go with it
+                        .map((t) => t.sends?.some((send) => send.busId === trackId)
+                            ? { ...t, sends: t.sends.filter((send) => send.busId !== trackId) }
+                            : t
+                        ),
                     clips: state.project.clips.filter((c) => c.trackId !== trackId),
                     updatedAt: Date.now(),
                 }
@@ -577,7 +904,7 @@ const projectStoreBase = (
         }));
     },
 
-    splitClip: (clipId, atBar) => {
+    splitClip: (clipId, atBar, audio) => {
         const state = get();
         if (!state.project) return null;
 
@@ -592,12 +919,28 @@ const projectStoreBase = (
             lengthBars: splitPoint,
         };
 
+        // Audio: the second half picks up in the take where the first stops
+        let audioSplit: Partial<Clip> = {};
+        if (original.type === 'audio') {
+            const tempoMap = getTempoMap(state.project);
+            const offset = (tempoMap.barToSeconds(atBar) - tempoMap.barToSeconds(original.startBar))
+                / (audio?.timeScale ?? 1);
+            const splitAt = (original.trimStart || 0) + offset;
+
+            if (audio) {
+                firstClip.trimEnd = Math.max(original.trimEnd || 0, audio.sourceDuration - splitAt);
+            }
+            firstClip.fadeOut = 0;
+            audioSplit = { trimStart: splitAt, fadeIn: 0 };
+        }
+
         const secondClip: Clip = {
             ...original,
             id: uuid(),
             name: `${original.name} (split)`,
             startBar: atBar,
             lengthBars: original.lengthBars - splitPoint,
+            ...audioSplit,
             notes: original.notes
                 ?.filter((n) => n.startBeat >= splitPoint * 4) // 4 beats per bar
                 .map((n) => ({
@@ -630,6 +973,59 @@ const projectStoreBase = (
         return [firstClip, secondClip];
     },
 
+    // Take comping
+    setActiveTake: (clipId, takeId) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    clips: state.project.clips.map((c) =>
+                        c.id === clipId && c.audioTakeIds?.includes(takeId)
+                            ? { ...c, activeTakeId: takeId, compRegions: [] }
+                            : c
+                    ),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    paintCompRegion: (clipId, takeId, start, end) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    clips: state.project.clips.map((c) =>
+                        c.id === clipId && c.audioTakeIds?.includes(takeId)
+                            ? {
+                                ...c,
+                                compRegions: paintCompRegion(c.compRegions || [], c.activeTakeId, takeId, start, end),
+                            }
+                            : c
+                    ),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
+    clearComp: (clipId) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    clips: state.project.clips.map((c) =>
+                        c.id === clipId ? { ...c, compRegions: [] } : c
+                    ),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
     // Note operations
     addNote: (clipId, noteData) => {
         const state = get();
@@ -737,6 +1133,80 @@ const projectStoreBase = (
         }));
     },
 
+    // Tempo map
+    addTempoChange: (bar) => {
+        const project = get().project;
+        if (!project) return null;
+
+        // Changes sit on whole bars after the start; one per bar
+        const changeBar = Math.max(1, Math.round(bar));
+        const existing = project.tempoMap?.find((c) => c.bar === changeBar);
+        if (existing) return existing;
+
+        // Start from the tempo and meter already playing there
+        const tempoMap = getTempoMap(project);
+        const change: TempoChange = {
+            id: uuid(),
+            bar: changeBar,
+            bpm: Math.round(tempoMap.getBpmAtBeat(tempoMap.barToBeat(changeBar))),
+            timeSignature: [...tempoMap.getTimeSignatureAt(changeBar)],
+            ramp: false,
+        };
+
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tempoMap: [...(state.project.tempoMap || []), change].sort((a, b) => a.bar - b.bar),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+
+        return change;
+    },
+
+    updateTempoChange: (changeId, updates) => {
+        set((state) => {
+            if (!state.project?.tempoMap) return {};
+
+            const clamped = { ...updates };
+            if (clamped.bpm !== undefined) clamped.bpm = Math.max(20, Math.min(300, clamped.bpm));
+            if (clamped.bar !== undefined) {
+                const bar = Math.max(1, Math.round(clamped.bar));
+                // Keep one change per bar
+                const taken = state.project.tempoMap.some((c) => c.id !== changeId && c.bar === bar);
+                if (taken) delete clamped.bar;
+                else clamped.bar = bar;
+            }
+
+            return {
+                project: {
+                    ...state.project,
+                    tempoMap: state.project.tempoMap
+                        .map((c) => (c.id === changeId ? { ...c, ...clamped } : c))
+                        .sort((a, b) => a.bar - b.bar),
+                    updatedAt: Date.now(),
+                },
+                hasUnsavedChanges: true,
+            };
+        });
+    },
+
+    removeTempoChange: (changeId) => {
+        set((state) => ({
+            project: state.project
+                ? {
+                    ...state.project,
+                    tempoMap: (state.project.tempoMap || []).filter((c) => c.id !== changeId),
+                    updatedAt: Date.now(),
+                }
+                : null,
+            hasUnsavedChanges: true,
+        }));
+    },
+
     // Save state
     markSaved: () => {
         set(() => ({
@@ -780,6 +1250,14 @@ export const selectKey = (state: ProjectStore) => state.project?.key ?? DEFAULT_
 export const selectScale = (state: ProjectStore) => state.project?.scale ?? DEFAULT_SCALE;
 export const selectHasUnsavedChanges = (state: ProjectStore) => state.hasUnsavedChanges;
 
+/**
+ * The project with its export cover put back, as it is saved and exported
+ */
+export function withExportCover(project: Project, cover: string | null): Project {
+    if (!cover) return project;
+    return { ...project, exportMetadata: { ...project.exportMetadata, cover } };
+}
+
 export const selectTrackById = (trackId: string) => (state: ProjectStore) =>
     state.project?.tracks.find((t) => t.id === trackId);
 
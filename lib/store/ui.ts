@@ -4,8 +4,9 @@
 // ============================================
 
 import { create } from 'zustand';
-import type { EditorScope, ModalType } from '@/types';
+import type { AutomationTarget, EditorScope, ModalType } from '@/types';
 import type { KeyBindings } from '@/lib/shortcuts';
+import { isSameMidiTarget, type MidiMapping, type MidiMappingTarget } from '@/lib/audio/midi-learn';
 
 // ============================================
 // Store Types
@@ -32,6 +33,12 @@ interface UIState {
     scrollX: number;       // horizontal scroll in pixels
     scrollY: number;       // vertical scroll in pixels
 
+    // Automation lanes: open tracks and the target shown in each
+    automationLanes: Record<string, AutomationTarget>;
+
+    // Take lanes: tracks showing their clips' takes for comping
+    takeLanes: Record<string, boolean>;
+
     // Drag state
     isDragging: boolean;
     dragType: 'clip' | 'selection' | 'resize' | 'loop' | null;
@@ -46,6 +53,12 @@ interface UIState {
     // Custom keyboard shortcut bindings
     customKeyBindings: KeyBindings;
     keyBindingsLoaded: boolean;
+
+    // MIDI learn
+    midiMappings: MidiMapping[];
+    midiMappingsLoaded: boolean;
+    midiLearnActive: boolean;
+    midiLearnTarget: MidiMappingTarget | null;  // Control waiting for a CC
 }
 
 interface UIActions {
@@ -75,6 +88,14 @@ interface UIActions {
     setScrollX: (x: number) => void;
     setScrollY: (y: number) => void;
 
+    // Automation lanes
+    toggleAutomationLane: (trackId: string) => void;
+    setAutomationLaneTarget: (trackId: string, target: AutomationTarget) => void;
+
+    // Take lanes
+    toggleTakeLanes: (trackId: string) => void;
+    showTakeLanes: (trackId: string) => void;
+
     // Drag state
     startDrag: (type: 'clip' | 'selection' | 'resize' | 'loop') => void;
     endDrag: () => void;
@@ -93,6 +114,15 @@ interface UIActions {
     resetKeyBinding: (actionId: string) => void;
     resetAllKeyBindings: () => void;
     setKeyBindingsLoaded: (loaded: boolean) => void;
+
+    // MIDI learn
+    setMidiMappings: (mappings: MidiMapping[]) => void;
+    learnMidiMapping: (mapping: MidiMapping) => void;
+    updateMidiMapping: (mappingId: string, updates: Partial<Pick<MidiMapping, 'min' | 'max'>>) => void;
+    removeMidiMapping: (mappingId: string) => void;
+    clearMidiMappings: () => void;
+    setMidiLearnActive: (active: boolean) => void;
+    setMidiLearnTarget: (target: MidiMappingTarget | null) => void;
 }
 
 // Computed getters (read-only properties derived from state)
@@ -134,6 +164,8 @@ export const useUIStore = create<UIStore>((set, get) => ({
     zoom: DEFAULT_ZOOM,
     scrollX: 0,
     scrollY: 0,
+    automationLanes: {},
+    takeLanes: {},
     isDragging: false,
     dragType: null,
     multiDragOffsetBars: 0,
@@ -141,6 +173,10 @@ export const useUIStore = create<UIStore>((set, get) => ({
     isMobile: false,
     customKeyBindings: {},
     keyBindingsLoaded: false,
+    midiMappings: [],
+    midiMappingsLoaded: false,
+    midiLearnActive: false,
+    midiLearnTarget: null,
 
     // Computed getters for component compatibility
     get showBrowser() {
@@ -274,6 +310,44 @@ export const useUIStore = create<UIStore>((set, get) => ({
         set({ scrollY: Math.max(0, y) });
     },
 
+    // Automation lanes
+    toggleAutomationLane: (trackId) => {
+        set((state) => {
+            const next = { ...state.automationLanes };
+            if (next[trackId]) {
+                delete next[trackId];
+            } else {
+                next[trackId] = 'volume';
+            }
+            return { automationLanes: next };
+        });
+    },
+
+    setAutomationLaneTarget: (trackId, target) => {
+        set((state) => ({
+            automationLanes: { ...state.automationLanes, [trackId]: target },
+        }));
+    },
+
+    // Take lanes
+    toggleTakeLanes: (trackId) => {
+        set((state) => {
+            const next = { ...state.takeLanes };
+            if (next[trackId]) {
+                delete next[trackId];
+            } else {
+                next[trackId] = true;
+            }
+            return { takeLanes: next };
+        });
+    },
+
+    showTakeLanes: (trackId) => {
+        set((state) => ({
+            takeLanes: { ...state.takeLanes, [trackId]: true },
+        }));
+    },
+
     // Drag state
     startDrag: (type) => {
         set({ isDragging: true, dragType: type });
@@ -327,6 +401,51 @@ export const useUIStore = create<UIStore>((set, get) => ({
     setKeyBindingsLoaded: (loaded) => {
         set({ keyBindingsLoaded: loaded });
     },
+
+    // MIDI learn
+    setMidiMappings: (mappings) => {
+        set({ midiMappings: mappings, midiMappingsLoaded: true });
+    },
+
+    // A control has one CC and a CC drives one control
+    learnMidiMapping: (mapping) => {
+        set((state) => ({
+            midiMappings: [
+                ...state.midiMappings.filter((m) =>
+                    !isSameMidiTarget(m.target, mapping.target) &&
+                    !(m.channel === mapping.channel && m.controller === mapping.controller)
+                ),
+                mapping,
+            ],
+            midiLearnTarget: null,
+        }));
+    },
+
+    updateMidiMapping: (mappingId, updates) => {
+        set((state) => ({
+            midiMappings: state.midiMappings.map((m) =>
+                m.id === mappingId ? { ...m, ...updates } : m
+            ),
+        }));
+    },
+
+    removeMidiMapping: (mappingId) => {
+        set((state) => ({
+            midiMappings: state.midiMappings.filter((m) => m.id !== mappingId),
+        }));
+    },
+
+    clearMidiMappings: () => {
+        set({ midiMappings: [] });
+    },
+
+    setMidiLearnActive: (active) => {
+        set({ midiLearnActive: active, midiLearnTarget: null });
+    },
+
+    setMidiLearnTarget: (target) => {
+        set({ midiLearnTarget: target });
+    },
 }));
 
 // ============================================
@@ -346,6 +465,8 @@ export const selectActiveModal = (state: UIStore) => state.activeModal;
 export const selectIsMobile = (state: UIStore) => state.isMobile;
 export const selectCustomKeyBindings = (state: UIStore) => state.customKeyBindings;
 export const selectKeyBindingsLoaded = (state: UIStore) => state.keyBindingsLoaded;
+export const selectMidiMappings = (state: UIStore) => state.midiMappings;
+export const selectMidiMappingsLoaded = (state: UIStore) => state.midiMappingsLoaded;
 
 // Derived selectors
 export const selectHasSelection = (state: UIStore) => state.selectedClipIds.length > 0;
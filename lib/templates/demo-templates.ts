@@ -3,6 +3,7 @@
 // ============================================
 
 import type { TrackType, TrackColor, TrackEffectType } from '@/types';
+import type { SidechainPatternId } from '@/lib/audio/sidechain';
 
 // ============================================
 // Types
@@ -33,6 +34,8 @@ export interface DemoTrack {
     effects?: Array<{
         type: TrackEffectType;
         params: Record<string, number>;
+        // Compressor key: another template track or a trigger pattern
+        sidechain?: { trackIndex: number } | { pattern: SidechainPatternId };
     }>;
 }
 
@@ -272,7 +275,9 @@ const LOFI_TEMPLATE: DemoTemplate = {
             instrumentPreset: 'sub-bass',
             volume: 0.8,
             pan: 0,
-            effects: [],
+            effects: [
+                { type: 'compression', params: { threshold: -30, ratio: 3 }, sidechain: { trackIndex: 0 } },
+            ],
         },
         {
             name: 'Melody',
@@ -383,6 +388,7 @@ const TRAP_TEMPLATE: DemoTemplate = {
             pan: 0,
             effects: [
                 { type: 'reverb', params: { decay: 4, wet: 0.6 } },
+                { type: 'compression', params: { threshold: -28, ratio: 4 }, sidechain: { trackIndex: 0 } },
             ],
         },
         {
@@ -394,6 +400,7 @@ const TRAP_TEMPLATE: DemoTemplate = {
             pan: 0,
             effects: [
                 { type: 'distortion', params: { distortion: 0.2, wet: 0.3 } },
+                { type: 'compression', params: { threshold: -24, ratio: 4 }, sidechain: { trackIndex: 0 } },
             ],
         },
         {
@@ -628,6 +635,7 @@ const EDM_TEMPLATE: DemoTemplate = {
             pan: 0,
             effects: [
                 { type: 'reverb', params: { decay: 2, wet: 0.35 } },
+                { type: 'compression', params: { threshold: -30, ratio: 8, release: 0.2 }, sidechain: { pattern: 'four-on-floor' } },
             ],
         },
         {
@@ -639,6 +647,7 @@ const EDM_TEMPLATE: DemoTemplate = {
             pan: 0,
             effects: [
                 { type: 'distortion', params: { distortion: 0.15, wet: 0.2 } },
+                { type: 'compression', params: { threshold: -30, ratio: 8, release: 0.15 }, sidechain: { pattern: 'four-on-floor' } },
             ],
         },
         {
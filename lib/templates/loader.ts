@@ -5,6 +5,7 @@
 import { v4 as uuid } from 'uuid';
 import type { Project, Track, Clip, Note, TrackEffect } from '@/types';
 import { getDemoTemplate, type DemoTemplate } from './demo-templates';
+import { createDefaultMasterBus } from '@/lib/audio/master-bus';
 
 /**
  * Loads a demo template and converts it to a full Project object
@@ -20,9 +21,12 @@ export function loadDemoTemplate(templateId: string): Project | null {
     const projectId = uuid();
     const now = Date.now();
 
+    // Generate track IDs up front so sidechains can reference other tracks
+    const trackIds = template.tracks.map(() => uuid());
+
     // Create tracks with generated IDs
     const tracks: Track[] = template.tracks.map((t, index) => {
-        const trackId = uuid();
+        const trackId = trackIds[index];
 
         // Convert effects
         const effects: TrackEffect[] = (t.effects || []).map((fx) => ({
@@ -32,6 +36,9 @@ export function loadDemoTemplate(templateId: string): Project | null {
             params: {
                 wet: fx.params.wet ?? 0.5,
                 ...fx.params,
+                ...(fx.sidechain && ('trackIndex' in fx.sidechain
+                    ? { sidechainSource: 'track', sidechainTrackId: trackIds[fx.sidechain.trackIndex] }
+                    : { sidechainSource: 'trigger', sidechainPattern: fx.sidechain.pattern })),
             },
         }));
 
@@ -89,6 +96,7 @@ export function loadDemoTemplate(templateId: string): Project | null {
         clips,
         createdAt: now,
         updatedAt: now,
+        master: createDefaultMasterBus(),
     };
 
     return project;
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { TempoMap } from "@/lib/audio/tempo-map"
 
 export function cn(...inputs: ClassValue[]) {
     return twMerge(clsx(inputs))
@@ -23,16 +24,16 @@ export function formatBarBeat(bar: number, beat: number): string {
 }
 
 /**
- * Format time to bars:beats:sixteenths
+ * Format time to bars:beats:sixteenths, following tempo and meter changes
  */
-export function formatBarsBeats(seconds: number, bpm: number, timeSignature: [number, number]): string {
-    const beatsPerBar = timeSignature[0];
-    const secondsPerBeat = 60 / bpm;
-    const totalBeats = seconds / secondsPerBeat;
-
-    const bars = Math.floor(totalBeats / beatsPerBar) + 1;
-    const beats = Math.floor(totalBeats % beatsPerBar) + 1;
-    const sixteenths = Math.floor((totalBeats % 1) * 4) + 1;
+export function formatBarsBeats(seconds: number, tempoMap: TempoMap): string {
+    const position = tempoMap.secondsToBar(Math.max(0, seconds));
+    const bar = Math.floor(position + 1e-9);
+    const beatInBar = tempoMap.barToBeat(position) - tempoMap.barToBeat(bar);
+
+    const bars = bar + 1;
+    const beats = Math.floor(beatInBar + 1e-9) + 1;
+    const sixteenths = Math.floor(((beatInBar + 1e-9) % 1) * 4) + 1;
 
     return `${bars}.${beats}.${sixteenths}`;
 }
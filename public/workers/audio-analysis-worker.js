@@ -0,0 +1,356 @@
+// ============================================
+// ComposeYogi — Web Worker for Sample Analysis
+// Tempo (onset autocorrelation) and key (chroma profile) estimation
+// ============================================
+
+let cancelledJobs = new Set();
+
+const FFT_SIZE = 2048;
+const HOP_SIZE = 512;
+
+// Tempo search range and the prior's centre (BPM)
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const PREFERRED_BPM = 120;
+
+// Below this the sample is treated as a one-shot (no tempo)
+const MIN_TEMPO_SECONDS = 1.5;
+const MIN_TEMPO_CONFIDENCE = 0.15;
+
+// A tempo needs at least this many clear onsets (peaks above this share
+// of the strongest one)
+const MIN_ONSETS = 4;
+const ONSET_PEAK_RATIO = 0.3;
+
+// Chroma is taken from this frequency range (Hz). Lower bins are too
+// coarse at this FFT size to tell neighbouring semitones apart.
+const CHROMA_MIN_FREQ = 100;
+const CHROMA_MAX_FREQ = 4000;
+
+// A key needs this share of the energy inside the chroma band, and this
+// correlation with its profile
+const MIN_TONAL_SHARE = 0.5;
+const MIN_KEY_CONFIDENCE = 0.6;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Kessler key profiles
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+self.onmessage = (e) => {
+    const { type, jobId, data } = e.data;
+
+    // Handle cancellation request
+    if (type === 'cancel') {
+        cancelledJobs.add(jobId);
+        return;
+    }
+
+    if (type === 'analyze') {
+        try {
+            const { channelData, sampleRate } = data;
+
+            self.postMessage({
+                type: 'progress',
+                jobId,
+                progress: 0,
+                message: 'Analyzing audio...'
+            });
+
+            const mono = mixToMono(channelData);
+            const spectra = computeSpectra(mono, sampleRate, (progress) => {
+                self.postMessage({
+                    type: 'progress',
+                    jobId,
+                    progress: Math.round(progress * 80),
+                    message: `Analyzing audio... ${Math.round(progress * 80)}%`
+                });
+                return !cancelledJobs.has(jobId);
+            });
+
+            if (!spectra) {
+                cancelledJobs.delete(jobId);
+                return;
+            }
+
+            const duration = mono.length / sampleRate;
+            const tempo = duration >= MIN_TEMPO_SECONDS
+                ? estimateTempo(spectra, sampleRate / HOP_SIZE)
+                : null;
+            const key = estimateKey(spectra, sampleRate);
+
+            self.postMessage({
+                type: 'result',
+                jobId,
+                analysis: {
+                    bpm: tempo && tempo.confidence >= MIN_TEMPO_CONFIDENCE ? tempo.bpm : undefined,
+                    key: key && key.confidence >= MIN_KEY_CONFIDENCE ? key.name : undefined,
+                }
+            });
+
+        } catch (error) {
+            self.postMessage({
+                type: 'error',
+                jobId,
+                error: error.message || 'Analysis failed'
+            });
+        }
+    }
+};
+
+// ============================================
+// Spectra
+// ============================================
+
+function mixToMono(channels) {
+    const length = channels[0].length;
+    const mono = new Float32Array(length);
+    for (const channel of channels) {
+        for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+    }
+    return mono;
+}
+
+/**
+ * Magnitude spectrum per hop (Hann window). Returns null when cancelled.
+ */
+function computeSpectra(mono, sampleRate, onProgress) {
+    const frameCount = Math.max(0, Math.floor((mono.length - FFT_SIZE) / HOP_SIZE) + 1);
+    const bins = FFT_SIZE / 2;
+    const spectra = [];
+
+    const hann = new Float32Array(FFT_SIZE);
+    for (let i = 0; i < FFT_SIZE; i++) {
+        hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FFT_SIZE);
+    }
+
+    const re = new Float32Array(FFT_SIZE);
+    const im = new Float32Array(FFT_SIZE);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        if (frame % 100 === 0 && !onProgress(frame / frameCount)) {
+            return null;
+        }
+
+        const offset = frame * HOP_SIZE;
+        for (let i = 0; i < FFT_SIZE; i++) {
+            re[i] = mono[offset + i] * hann[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+
+        const magnitudes = new Float32Array(bins);
+        for (let k = 0; k < bins; k++) {
+            magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+        }
+        spectra.push(magnitudes);
+    }
+
+    onProgress(1);
+    return spectra;
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(re, im) {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            let t = re[i]; re[i] = re[j]; re[j] = t;
+            t = im[i]; im[i] = im[j]; im[j] = t;
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const half = size >> 1;
+        const step = (-2 * Math.PI) / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const cos = Math.cos(step * k);
+                const sin = Math.sin(step * k);
+                const a = start + k;
+                const b = a + half;
+                const tr = re[b] * cos - im[b] * sin;
+                const ti = re[b] * sin + im[b] * cos;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+}
+
+// ============================================
+// Tempo
+// ============================================
+
+/**
+ * Spectral-flux onset envelope, autocorrelated over the tempo range and
+ * weighted towards PREFERRED_BPM so half/double tempos lose ties.
+ */
+function estimateTempo(spectra, frameRate) {
+    if (spectra.length < 4) return null;
+
+    // Onset strength: positive change in log magnitude
+    // (the first frame is compared with silence, so a sample that starts
+    // on a hit counts that hit)
+    const silence = new Float32Array(spectra[0].length);
+    const envelope = new Float32Array(spectra.length);
+    for (let t = 0; t < spectra.length; t++) {
+        const current = spectra[t];
+        const previous = t > 0 ? spectra[t - 1] : silence;
+        let flux = 0;
+        for (let k = 0; k < current.length; k++) {
+            const diff = Math.log1p(100 * current[k]) - Math.log1p(100 * previous[k]);
+            if (diff > 0) flux += diff;
+        }
+        envelope[t] = flux;
+    }
+
+    // Remove the local mean so sustained loudness doesn't count as onsets
+    const meanWindow = Math.max(1, Math.round(frameRate * 0.25));
+    const onsets = new Float32Array(envelope.length);
+    for (let t = 0; t < envelope.length; t++) {
+        let sum = 0;
+        let count = 0;
+        for (let j = Math.max(0, t - meanWindow); j <= Math.min(envelope.length - 1, t + meanWindow); j++) {
+            sum += envelope[j];
+            count++;
+        }
+        onsets[t] = Math.max(0, envelope[t] - sum / count);
+    }
+
+    if (countOnsets(onsets) < MIN_ONSETS) return null;
+
+    const minLag = Math.max(1, Math.floor((60 * frameRate) / MAX_BPM));
+    const maxLag = Math.min(onsets.length - 1, Math.ceil((60 * frameRate) / MIN_BPM));
+    if (maxLag <= minLag) return null;
+
+    let energy = 0;
+    for (let t = 0; t < onsets.length; t++) energy += onsets[t] * onsets[t];
+    if (energy <= 0) return null;
+
+    const correlation = new Float32Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+        let sum = 0;
+        for (let t = lag; t < onsets.length; t++) sum += onsets[t] * onsets[t - lag];
+        correlation[lag] = sum / onsets.length;
+    }
+
+    let bestLag = -1;
+    let bestScore = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const bpm = (60 * frameRate) / lag;
+        const octaves = Math.log2(bpm / PREFERRED_BPM);
+        const weight = Math.exp(-0.5 * octaves * octaves);
+        const score = correlation[lag] * weight;
+        if (score > bestScore) {
+            bestScore = score;
+            bestLag = lag;
+        }
+    }
+
+    // Parabolic interpolation around the peak for sub-frame precision
+    const y0 = correlation[bestLag - 1];
+    const y1 = correlation[bestLag];
+    const y2 = correlation[bestLag + 1];
+    const denominator = y0 - 2 * y1 + y2;
+    const shift = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (y0 - y2)) / denominator)) : 0;
+
+    const bpm = (60 * frameRate) / (bestLag + shift);
+    const confidence = y1 / (energy / onsets.length);
+
+    // Sample packs are almost always at whole tempos, and the estimate is
+    // only good to a fraction of a BPM anyway
+    return { bpm: Math.round(bpm), confidence };
+}
+
+// Local maxima of the onset strength that stand out from the rest
+function countOnsets(onsets) {
+    let peak = 0;
+    for (let t = 0; t < onsets.length; t++) peak = Math.max(peak, onsets[t]);
+    const threshold = peak * ONSET_PEAK_RATIO;
+
+    let count = 0;
+    for (let t = 1; t < onsets.length - 1; t++) {
+        if (onsets[t] >= threshold && onsets[t] > onsets[t - 1] && onsets[t] >= onsets[t + 1]) count++;
+    }
+    return count;
+}
+
+// ============================================
+// Key
+// ============================================
+
+/**
+ * Sum a chromagram over the sample and correlate it with the 24 major
+ * and minor key profiles. Minor keys are named with an "m" suffix.
+ */
+function estimateKey(spectra, sampleRate) {
+    if (spectra.length === 0) return null;
+
+    const chroma = new Float64Array(12);
+    const binHz = sampleRate / FFT_SIZE;
+    const minBin = Math.max(1, Math.ceil(CHROMA_MIN_FREQ / binHz));
+    const maxBin = Math.min(FFT_SIZE / 2 - 1, Math.floor(CHROMA_MAX_FREQ / binHz));
+
+    const pitchClasses = new Int8Array(maxBin + 1);
+    for (let k = minBin; k <= maxBin; k++) {
+        const midi = 69 + 12 * Math.log2((k * binHz) / 440);
+        pitchClasses[k] = ((Math.round(midi) % 12) + 12) % 12;
+    }
+
+    let bandEnergy = 0;
+    let totalEnergy = 0;
+    for (const magnitudes of spectra) {
+        for (let k = 1; k < magnitudes.length; k++) {
+            const power = magnitudes[k] * magnitudes[k];
+            totalEnergy += power;
+            if (k >= minBin && k <= maxBin) {
+                chroma[pitchClasses[k]] += power;
+                bandEnergy += power;
+            }
+        }
+    }
+
+    // Kicks, subs and cymbals live mostly outside the band; their chroma is noise
+    if (totalEnergy <= 0 || bandEnergy / totalEnergy < MIN_TONAL_SHARE) return null;
+
+    let best = null;
+    for (let root = 0; root < 12; root++) {
+        for (const [profile, suffix] of [[MAJOR_PROFILE, ''], [MINOR_PROFILE, 'm']]) {
+            const score = correlate(chroma, profile, root);
+            if (!best || score > best.score) {
+                best = { name: NOTE_NAMES[root] + suffix, score };
+            }
+        }
+    }
+
+    return { name: best.name, confidence: best.score };
+}
+
+// Pearson correlation of a chroma vector with a profile rotated to `root`
+function correlate(chroma, profile, root) {
+    const meanChroma = chroma.reduce((sum, value) => sum + value, 0) / 12;
+    const meanProfile = profile.reduce((sum, value) => sum + value, 0) / 12;
+
+    let numerator = 0;
+    let chromaVariance = 0;
+    let profileVariance = 0;
+    for (let i = 0; i < 12; i++) {
+        const c = chroma[(root + i) % 12] - meanChroma;
+        const p = profile[i] - meanProfile;
+        numerator += c * p;
+        chromaVariance += c * c;
+        profileVariance += p * p;
+    }
+
+    return numerator / Math.sqrt(chromaVariance * profileVariance || 1);
+}
@@ -0,0 +1,742 @@
+// ============================================
+// ComposeYogi — Web Worker for Audio Encoding
+// MP3 (lamejs), FLAC (pure JS) and Ogg Opus (WebCodecs)
+// ============================================
+
+let cancelledJobs = new Set();
+
+// ---- FLAC ----
+
+const FLAC_BLOCK_SIZE = 4096;
+const FLAC_MAX_FIXED_ORDER = 4;
+const FLAC_MAX_PARTITION_ORDER = 8;
+const FLAC_MAX_RICE_PARAM = 14;          // 15 is the escape code
+
+// Frame header codes for common rates and depths (0 = read STREAMINFO)
+const FLAC_SAMPLE_RATE_CODES = { 88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11 };
+const FLAC_SAMPLE_SIZE_CODES = { 8: 1, 12: 2, 16: 4, 20: 5, 24: 6 };
+
+// Stereo channel assignments
+const CHANNELS_INDEPENDENT = 1;
+const CHANNELS_LEFT_SIDE = 8;
+const CHANNELS_SIDE_RIGHT = 9;
+const CHANNELS_MID_SIDE = 10;
+
+// ---- Opus ----
+
+const OPUS_SAMPLE_RATE = 48000;
+const OPUS_DEFAULT_PRE_SKIP = 312;       // libopus lookahead at 48 kHz
+const OPUS_CHUNK_FRAMES = 48000;         // One second of input per AudioData
+const OPUS_MAX_QUEUE = 8;
+const OGG_MAX_SEGMENTS = 255;
+
+// ---- MP3 ----
+
+const MP3_FRAME_SIZE = 1152;
+
+// ============================================
+// Message Handling
+// ============================================
+
+self.onmessage = async (e) => {
+    const { type, jobId, data } = e.data;
+
+    // Handle cancellation request
+    if (type === 'cancel') {
+        cancelledJobs.add(jobId);
+        return;
+    }
+
+    if (type === 'encode') {
+        try {
+            const { format, channelData, sampleRate, quality, dither } = data;
+
+            const onProgress = (progress) => {
+                self.postMessage({
+                    type: 'progress',
+                    jobId,
+                    progress: Math.round(progress * 100),
+                    message: `Encoding... ${Math.round(progress * 100)}%`
+                });
+                return !cancelledJobs.has(jobId);
+            };
+
+            let bytes;
+            if (format === 'flac') {
+                bytes = encodeFlac(channelData, sampleRate, quality || 16, dither !== false, onProgress);
+            } else if (format === 'opus') {
+                bytes = await encodeOpus(channelData, sampleRate, quality || 128, onProgress);
+            } else if (format === 'mp3') {
+                bytes = encodeMp3(channelData, sampleRate, quality || 192, onProgress);
+            } else {
+                throw new Error(`Unknown format: ${format}`);
+            }
+
+            if (!bytes) {
+                cancelledJobs.delete(jobId);
+                return;
+            }
+
+            self.postMessage({ type: 'result', jobId, bytes: bytes.buffer }, [bytes.buffer]);
+
+        } catch (error) {
+            self.postMessage({
+                type: 'error',
+                jobId,
+                error: error.message || 'Encoding failed'
+            });
+        }
+    }
+};
+
+// ============================================
+// Shared Helpers
+// ============================================
+
+/**
+ * Growable big-endian bit writer
+ */
+class BitWriter {
+    constructor(capacity) {
+        this.bytes = new Uint8Array(capacity);
+        this.length = 0;
+        this.acc = 0;
+        this.bits = 0;     // Pending bits in acc (< 8)
+    }
+
+    writeBits(value, count) {
+        if (count === 0) return;
+        if (count > 24) {
+            const high = Math.floor(value / 16777216);
+            this.writeBits(high, count - 24);
+            this.writeBits(value - high * 16777216, 24);
+            return;
+        }
+
+        this.acc = (this.acc << count) | (value & ((1 << count) - 1));
+        this.bits += count;
+        while (this.bits >= 8) {
+            this.bits -= 8;
+            this.pushByte((this.acc >>> this.bits) & 0xFF);
+        }
+        this.acc &= (1 << this.bits) - 1;
+    }
+
+    writeSigned(value, count) {
+        this.writeBits(value < 0 ? value + 2 ** count : value, count);
+    }
+
+    // q zeros then a one
+    writeUnary(q) {
+        while (q >= 24) {
+            this.writeBits(0, 24);
+            q -= 24;
+        }
+        this.writeBits(1, q + 1);
+    }
+
+    alignToByte() {
+        if (this.bits > 0) this.writeBits(0, 8 - this.bits);
+    }
+
+    pushByte(byte) {
+        if (this.length === this.bytes.length) {
+            const grown = new Uint8Array(this.bytes.length * 2);
+            grown.set(this.bytes);
+            this.bytes = grown;
+        }
+        this.bytes[this.length++] = byte;
+    }
+
+    toBytes() {
+        return this.bytes.slice(0, this.length);
+    }
+}
+
+function concatBytes(parts) {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
+
+/**
+ * True when every sample already sits on the grid of a bit depth, e.g.
+ * 16-bit audio exported at 16 or 24 bits, so quantizing loses nothing
+ */
+function fitsBitDepth(channels, bitDepth) {
+    const scale = 2 ** (bitDepth - 1);
+    return channels.every((channel) => channel.every((sample) => Number.isInteger(sample * scale)));
+}
+
+/**
+ * Scale float samples to signed integers, with TPDF dither (two uniform
+ * random values, ±1 LSB peak) when asked for
+ */
+function quantize(channel, bitDepth, dither) {
+    const scale = 2 ** (bitDepth - 1);
+    const max = scale - 1;
+    const min = -scale;
+    const out = new Int32Array(channel.length);
+    for (let i = 0; i < channel.length; i++) {
+        const noise = dither ? Math.random() - Math.random() : 0;
+        const value = Math.round(channel[i] * scale + noise);
+        out[i] = value > max ? max : value < min ? min : value;
+    }
+    return out;
+}
+
+// ============================================
+// FLAC
+// ============================================
+
+let crc8Table = null;
+let crc16Table = null;
+
+function getCrc8Table() {
+    if (crc8Table) return crc8Table;
+    crc8Table = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i;
+        for (let k = 0; k < 8; k++) {
+            crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+        }
+        crc8Table[i] = crc;
+    }
+    return crc8Table;
+}
+
+function getCrc16Table() {
+    if (crc16Table) return crc16Table;
+    crc16Table = new Uint16Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i << 8;
+        for (let k = 0; k < 8; k++) {
+            crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF;
+        }
+        crc16Table[i] = crc;
+    }
+    return crc16Table;
+}
+
+function crc8(bytes, from, to) {
+    const table = getCrc8Table();
+    let crc = 0;
+    for (let i = from; i < to; i++) crc = table[crc ^ bytes[i]];
+    return crc;
+}
+
+function crc16(bytes, from, to) {
+    const table = getCrc16Table();
+    let crc = 0;
+    for (let i = from; i < to; i++) crc = ((crc << 8) & 0xFFFF) ^ table[(crc >> 8) ^ bytes[i]];
+    return crc;
+}
+
+/**
+ * Encode to a FLAC stream: STREAMINFO, then fixed-size frames whose
+ * subframes use a fixed polynomial predictor with partitioned Rice
+ * residuals (or constant/verbatim when cheaper). Stereo frames pick the
+ * cheapest of independent, left/side, side/right and mid/side.
+ */
+function encodeFlac(channelData, sampleRate, bitDepth, dither, onProgress) {
+    // Dither only when the samples lose precision
+    const shouldDither = dither && !fitsBitDepth(channelData, bitDepth);
+    const channels = channelData.map((channel) => quantize(channel, bitDepth, shouldDither));
+    const numChannels = channels.length;
+    const totalSamples = channels[0].length;
+    const writer = new BitWriter(Math.max(1024, totalSamples * numChannels * (bitDepth / 8) + 1024));
+
+    // Stream marker and STREAMINFO (the only, so last, metadata block)
+    writer.writeBits(0x664C6143, 32);          // "fLaC"
+    writer.writeBits(1, 1);
+    writer.writeBits(0, 7);
+    writer.writeBits(34, 24);
+    writer.writeBits(FLAC_BLOCK_SIZE, 16);
+    writer.writeBits(FLAC_BLOCK_SIZE, 16);
+    writer.writeBits(0, 24);                   // Frame sizes unknown
+    writer.writeBits(0, 24);
+    writer.writeBits(sampleRate, 20);
+    writer.writeBits(numChannels - 1, 3);
+    writer.writeBits(bitDepth - 1, 5);
+    writer.writeBits(totalSamples, 36);
+    for (let i = 0; i < 4; i++) writer.writeBits(0, 32);   // MD5 not computed
+
+    const frameCount = Math.ceil(totalSamples / FLAC_BLOCK_SIZE);
+    for (let frame = 0; frame < frameCount; frame++) {
+        const start = frame * FLAC_BLOCK_SIZE;
+        const end = Math.min(totalSamples, start + FLAC_BLOCK_SIZE);
+        const blocks = channels.map((channel) => channel.subarray(start, end));
+
+        writeFlacFrame(writer, blocks, frame, sampleRate, bitDepth);
+
+        if (frame % 32 === 0 && !onProgress(frame / frameCount)) return null;
+    }
+
+    onProgress(1);
+    return writer.toBytes();
+}
+
+function writeFlacFrame(writer, blocks, frameNumber, sampleRate, bitDepth) {
+    const blockSize = blocks[0].length;
+    let assignment = blocks.length - 1;
+    let subframes;
+
+    if (blocks.length === 2) {
+        const left = blocks[0];
+        const right = blocks[1];
+        const side = new Int32Array(blockSize);
+        const mid = new Int32Array(blockSize);
+        for (let i = 0; i < blockSize; i++) {
+            side[i] = left[i] - right[i];
+            mid[i] = (left[i] + right[i]) >> 1;
+        }
+
+        const l = planSubframe(left, bitDepth);
+        const r = planSubframe(right, bitDepth);
+        const s = planSubframe(side, bitDepth + 1);
+        const m = planSubframe(mid, bitDepth);
+
+        const options = [
+            { assignment: CHANNELS_INDEPENDENT, subframes: [l, r] },
+            { assignment: CHANNELS_LEFT_SIDE, subframes: [l, s] },
+            { assignment: CHANNELS_SIDE_RIGHT, subframes: [s, r] },
+            { assignment: CHANNELS_MID_SIDE, subframes: [m, s] },
+        ];
+        const best = options.reduce((a, b) =>
+            a.subframes[0].bits + a.subframes[1].bits <= b.subframes[0].bits + b.subframes[1].bits ? a : b
+        );
+        assignment = best.assignment;
+        subframes = best.subframes;
+    } else {
+        subframes = blocks.map((block) => planSubframe(block, bitDepth));
+    }
+
+    // Header
+    const frameStart = writer.length;
+    const isFullBlock = blockSize === FLAC_BLOCK_SIZE;
+    const rateCode = FLAC_SAMPLE_RATE_CODES[sampleRate] || 0;
+
+    writer.writeBits(0xFFF8, 16);              // Sync, fixed blocksize
+    writer.writeBits(isFullBlock ? 12 : 7, 4); // 4096, or 16-bit (blocksize - 1) follows
+    writer.writeBits(rateCode, 4);
+    writer.writeBits(assignment, 4);
+    writer.writeBits(FLAC_SAMPLE_SIZE_CODES[bitDepth] || 0, 3);
+    writer.writeBits(0, 1);
+    writeUtf8Number(writer, frameNumber);
+    if (!isFullBlock) writer.writeBits(blockSize - 1, 16);
+    writer.writeBits(crc8(writer.bytes, frameStart, writer.length), 8);
+
+    for (const subframe of subframes) {
+        writeSubframe(writer, subframe);
+    }
+
+    writer.alignToByte();
+    writer.writeBits(crc16(writer.bytes, frameStart, writer.length), 16);
+}
+
+function writeUtf8Number(writer, value) {
+    if (value < 0x80) {
+        writer.writeBits(value, 8);
+        return;
+    }
+    const bytes = value < 0x800 ? 2 : value < 0x10000 ? 3 : value < 0x200000 ? 4 : value < 0x4000000 ? 5 : 6;
+    const lead = (0xFF << (8 - bytes)) & 0xFF;
+    writer.writeBits(lead | Math.floor(value / 2 ** (6 * (bytes - 1))), 8);
+    for (let i = bytes - 2; i >= 0; i--) {
+        writer.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+    }
+}
+
+/**
+ * Choose the cheapest subframe for a block and work out its size in bits
+ */
+function planSubframe(samples, bitDepth) {
+    const n = samples.length;
+
+    let constant = true;
+    for (let i = 1; i < n; i++) {
+        if (samples[i] !== samples[0]) {
+            constant = false;
+            break;
+        }
+    }
+    if (constant) {
+        return { type: 'constant', samples, bitDepth, bits: 8 + bitDepth };
+    }
+
+    const verbatim = { type: 'verbatim', samples, bitDepth, bits: 8 + n * bitDepth };
+
+    // Pick the predictor order with the smallest total residual
+    const maxOrder = Math.min(FLAC_MAX_FIXED_ORDER, n - 1);
+    let order = 0;
+    let bestSum = Infinity;
+    for (let o = 0; o <= maxOrder; o++) {
+        let sum = 0;
+        for (let i = o; i < n; i++) sum += Math.abs(fixedResidual(samples, i, o));
+        if (sum < bestSum) {
+            bestSum = sum;
+            order = o;
+        }
+    }
+
+    const folded = new Float64Array(n - order);
+    for (let i = order; i < n; i++) {
+        const r = fixedResidual(samples, i, order);
+        folded[i - order] = r >= 0 ? 2 * r : -2 * r - 1;
+    }
+
+    const rice = planRicePartitions(folded, n, order);
+    const fixedBits = 8 + order * bitDepth + rice.bits;
+
+    if (fixedBits >= verbatim.bits) return verbatim;
+    return { type: 'fixed', samples, bitDepth, order, folded, rice, bits: fixedBits };
+}
+
+function fixedResidual(x, i, order) {
+    switch (order) {
+        case 0: return x[i];
+        case 1: return x[i] - x[i - 1];
+        case 2: return x[i] - 2 * x[i - 1] + x[i - 2];
+        case 3: return x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3];
+        default: return x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+    }
+}
+
+/**
+ * Best Rice partition order and per-partition parameters for folded
+ * (zig-zagged) residuals. The first partition is short by the warm-up.
+ */
+function planRicePartitions(folded, blockSize, order) {
+    let best = null;
+
+    for (let p = 0; p <= FLAC_MAX_PARTITION_ORDER; p++) {
+        const partitions = 1 << p;
+        if (blockSize % partitions !== 0 || blockSize / partitions <= order) break;
+
+        const size = blockSize / partitions;
+        const params = [];
+        let bits = 2 + 4;        // Coding method, partition order
+        let index = 0;
+
+        for (let part = 0; part < partitions; part++) {
+            const count = part === 0 ? size - order : size;
+            let sum = 0;
+            for (let i = 0; i < count; i++) sum += folded[index + i];
+
+            const mean = count > 0 ? sum / count : 0;
+            let k = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+            k = Math.min(FLAC_MAX_RICE_PARAM, k);
+
+            // Exact cost: unary quotient + stop bit + k low bits per residual
+            let partBits = 4 + count * (k + 1);
+            const divisor = 2 ** k;
+            for (let i = 0; i < count; i++) partBits += Math.floor(folded[index + i] / divisor);
+
+            params.push(k);
+            bits += partBits;
+            index += count;
+        }
+
+        if (!best || bits < best.bits) best = { order: p, params, bits };
+    }
+
+    return best;
+}
+
+function writeSubframe(writer, subframe) {
+    const { samples, bitDepth } = subframe;
+
+    if (subframe.type === 'constant') {
+        writer.writeBits(0, 8);
+        writer.writeSigned(samples[0], bitDepth);
+        return;
+    }
+
+    if (subframe.type === 'verbatim') {
+        writer.writeBits(0x02, 8);               // 0 000001 0
+        for (let i = 0; i < samples.length; i++) writer.writeSigned(samples[i], bitDepth);
+        return;
+    }
+
+    const { order, folded, rice } = subframe;
+    writer.writeBits((0x08 | order) << 1, 8);  // 0 001xxx 0
+    for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bitDepth);
+
+    writer.writeBits(0, 2);                    // Rice, 4-bit parameters
+    writer.writeBits(rice.order, 4);
+
+    const partitions = 1 << rice.order;
+    const size = samples.length / partitions;
+    let index = 0;
+    for (let part = 0; part < partitions; part++) {
+        const count = part === 0 ? size - order : size;
+        const k = rice.params[part];
+        const divisor = 2 ** k;
+        writer.writeBits(k, 4);
+
+        for (let i = 0; i < count; i++) {
+            const u = folded[index + i];
+            const q = Math.floor(u / divisor);
+            const low = u - q * divisor;
+            if (q + 1 + k <= 24) {
+                writer.writeBits((1 << k) | low, q + 1 + k);
+            } else {
+                writer.writeUnary(q);
+                writer.writeBits(low, k);
+            }
+        }
+        index += count;
+    }
+}
+
+// ============================================
+// Ogg Opus
+// ============================================
+
+let oggCrcTable = null;
+
+function getOggCrcTable() {
+    if (oggCrcTable) return oggCrcTable;
+    oggCrcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let r = i << 24;
+        for (let k = 0; k < 8; k++) {
+            r = r & 0x80000000 ? (r << 1) ^ 0x04C11DB7 : r << 1;
+        }
+        oggCrcTable[i] = r >>> 0;
+    }
+    return oggCrcTable;
+}
+
+/**
+ * Encode with the browser's WebCodecs Opus encoder and mux the packets
+ * into an Ogg stream. Input must already be 48 kHz.
+ */
+async function encodeOpus(channelData, sampleRate, kbps, onProgress) {
+    if (typeof AudioEncoder === 'undefined') {
+        throw new Error('Opus encoding is not supported in this browser');
+    }
+    if (sampleRate !== OPUS_SAMPLE_RATE) {
+        throw new Error('Opus input must be 48 kHz');
+    }
+
+    const numberOfChannels = channelData.length;
+    const totalSamples = channelData[0].length;
+    const config = { codec: 'opus', sampleRate, numberOfChannels, bitrate: kbps * 1000 };
+
+    const support = await AudioEncoder.isConfigSupported(config);
+    if (!support.supported) {
+        throw new Error('This browser cannot encode Opus with these settings');
+    }
+
+    const packets = [];
+    let preSkip = OPUS_DEFAULT_PRE_SKIP;
+    let encodeError = null;
+
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            const samples = chunk.duration ? Math.round((chunk.duration * OPUS_SAMPLE_RATE) / 1e6) : 960;
+            packets.push({ data, samples });
+
+            // The decoder config carries an OpusHead with the real pre-skip
+            const description = metadata && metadata.decoderConfig && metadata.decoderConfig.description;
+            if (description) {
+                const head = ArrayBuffer.isView(description)
+                    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+                    : new Uint8Array(description);
+                if (head.length >= 12 && String.fromCharCode(...head.subarray(0, 8)) === 'OpusHead') {
+                    preSkip = head[10] | (head[11] << 8);
+                }
+            }
+        },
+        error: (error) => {
+            encodeError = error;
+        },
+    });
+    encoder.configure(config);
+
+    for (let offset = 0; offset < totalSamples; offset += OPUS_CHUNK_FRAMES) {
+        if (encodeError) break;
+
+        const frames = Math.min(OPUS_CHUNK_FRAMES, totalSamples - offset);
+        const planar = new Float32Array(frames * numberOfChannels);
+        for (let ch = 0; ch < numberOfChannels; ch++) {
+            planar.set(channelData[ch].subarray(offset, offset + frames), ch * frames);
+        }
+
+        const audioData = new AudioData({
+            format: 'f32-planar',
+            sampleRate,
+            numberOfFrames: frames,
+            numberOfChannels,
+            timestamp: Math.round((offset / sampleRate) * 1e6),
+            data: planar,
+        });
+        encoder.encode(audioData);
+        audioData.close();
+
+        // Keep the encoder's queue short so memory stays flat
+        while (encoder.encodeQueueSize > OPUS_MAX_QUEUE) {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+
+        if (!onProgress(offset / totalSamples)) {
+            encoder.close();
+            return null;
+        }
+    }
+
+    await encoder.flush();
+    encoder.close();
+    if (encodeError) throw encodeError;
+
+    onProgress(1);
+    return muxOggOpus(packets, numberOfChannels, sampleRate, preSkip, totalSamples);
+}
+
+function muxOggOpus(packets, numberOfChannels, inputSampleRate, preSkip, totalSamples) {
+    const serial = Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+    const pages = [];
+    let sequence = 0;
+
+    // Identification header
+    const head = new Uint8Array(19);
+    const headView = new DataView(head.buffer);
+    writeAscii(head, 0, 'OpusHead');
+    head[8] = 1;
+    head[9] = numberOfChannels;
+    headView.setUint16(10, preSkip, true);
+    headView.setUint32(12, inputSampleRate, true);
+    headView.setInt16(16, 0, true);            // Output gain
+    head[18] = 0;                              // Mono/stereo mapping
+    pages.push(createOggPage([head], 0, 0x02, serial, sequence++));
+
+    // Comment header
+    const vendor = new TextEncoder().encode('ComposeYogi');
+    const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+    const tagsView = new DataView(tags.buffer);
+    writeAscii(tags, 0, 'OpusTags');
+    tagsView.setUint32(8, vendor.length, true);
+    tags.set(vendor, 12);
+    tagsView.setUint32(12 + vendor.length, 0, true);
+    pages.push(createOggPage([tags], 0, 0, serial, sequence++));
+
+    // Audio pages; granule counts decoded samples including pre-skip
+    const endGranule = preSkip + totalSamples;
+    let granule = 0;
+    let page = [];
+    let segments = 0;
+
+    for (let i = 0; i < packets.length; i++) {
+        const packet = packets[i];
+        const packetSegments = Math.floor(packet.data.length / 255) + 1;
+
+        if (segments + packetSegments > OGG_MAX_SEGMENTS && page.length > 0) {
+            pages.push(createOggPage(page, granule, 0, serial, sequence++));
+            page = [];
+            segments = 0;
+        }
+
+        page.push(packet.data);
+        segments += packetSegments;
+        granule += packet.samples;
+    }
+    pages.push(createOggPage(page, Math.min(granule, endGranule), 0x04, serial, sequence++));
+
+    return concatBytes(pages);
+}
+
+function createOggPage(packets, granule, flags, serial, sequence) {
+    const lacing = [];
+    for (const packet of packets) {
+        let remaining = packet.length;
+        while (remaining >= 255) {
+            lacing.push(255);
+            remaining -= 255;
+        }
+        lacing.push(remaining);
+    }
+
+    const dataLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+    const page = new Uint8Array(27 + lacing.length + dataLength);
+    const view = new DataView(page.buffer);
+
+    writeAscii(page, 0, 'OggS');
+    page[4] = 0;                                // Version
+    page[5] = flags;
+    view.setUint32(6, granule % 0x100000000, true);
+    view.setUint32(10, Math.floor(granule / 0x100000000), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence, true);
+    view.setUint32(22, 0, true);                // CRC, filled below
+    page[26] = lacing.length;
+    page.set(lacing, 27);
+
+    let offset = 27 + lacing.length;
+    for (const packet of packets) {
+        page.set(packet, offset);
+        offset += packet.length;
+    }
+
+    const table = getOggCrcTable();
+    let crc = 0;
+    for (let i = 0; i < page.length; i++) {
+        crc = ((crc << 8) ^ table[((crc >>> 24) ^ page[i]) & 0xFF]) >>> 0;
+    }
+    view.setUint32(22, crc, true);
+
+    return page;
+}
+
+function writeAscii(bytes, offset, text) {
+    for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i);
+}
+
+// ============================================
+// MP3
+// ============================================
+
+function encodeMp3(channelData, sampleRate, kbps, onProgress) {
+    if (typeof self.lamejs === 'undefined') {
+        importScripts('/workers/lame.min.js');
+    }
+
+    const numChannels = Math.min(2, channelData.length);
+    const encoder = new self.lamejs.Mp3Encoder(numChannels, sampleRate, kbps);
+    const left = toInt16(channelData[0]);
+    const right = numChannels > 1 ? toInt16(channelData[1]) : null;
+    const total = left.length;
+    const parts = [];
+
+    for (let i = 0; i < total; i += MP3_FRAME_SIZE) {
+        const end = Math.min(total, i + MP3_FRAME_SIZE);
+        const chunk = right
+            ? encoder.encodeBuffer(left.subarray(i, end), right.subarray(i, end))
+            : encoder.encodeBuffer(left.subarray(i, end));
+        if (chunk.length > 0) parts.push(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.length));
+
+        if ((i / MP3_FRAME_SIZE) % 200 === 0 && !onProgress(i / total)) return null;
+    }
+
+    const tail = encoder.flush();
+    if (tail.length > 0) parts.push(new Uint8Array(tail.buffer, tail.byteOffset, tail.length));
+
+    onProgress(1);
+    return concatBytes(parts);
+}
+
+function toInt16(channel) {
+    const out = new Int16Array(channel.length);
+    for (let i = 0; i < channel.length; i++) {
+        const sample = Math.max(-1, Math.min(1, channel[i]));
+        out[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+    }
+    return out;
+}
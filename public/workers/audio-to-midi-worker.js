@@ -0,0 +1,555 @@
+// ============================================
+// ComposeYogi — Web Worker for Audio-to-MIDI
+// YIN pitch tracking for melodies, onset classification for drums,
+// and transient detection for slicing
+// ============================================
+
+let cancelledJobs = new Set();
+
+// ---- Melody (YIN) ----
+
+// Pitch tracking runs at roughly this rate (Hz) after decimation
+const PITCH_SAMPLE_RATE = 11025;
+const PITCH_FRAME_SECONDS = 0.046;
+const PITCH_HOP_SECONDS = 0.0116;
+const MIN_FREQ = 30;
+const MAX_FREQ = 1500;
+
+// YIN: dips of the normalised difference below this count as periodic
+const YIN_THRESHOLD = 0.15;
+
+// Frames quieter than this (relative to the loudest) are silence
+const SILENCE_RATIO = 0.05;
+
+// A rise in level by this factor over the quietest of the last
+// ONSET_LOOKBACK frames starts a new note (re-attacks on the same pitch)
+const ONSET_RISE = 1.4;
+const ONSET_LOOKBACK = 5;
+
+// Frames in the median filter applied to the pitch track
+const PITCH_SMOOTHING = 5;
+
+// Semitones the pitch must move from a held note before it's a new one
+const PITCH_HYSTERESIS = 0.75;
+
+const MIN_NOTE_SECONDS = 0.06;
+
+// ---- Drums ----
+
+const DRUM_FFT_SIZE = 1024;
+const DRUM_HOP_SIZE = 256;
+
+// Onsets closer than this are merged (seconds)
+const MIN_ONSET_GAP = 0.05;
+
+// Band edges (Hz) for telling kicks, snares and hats apart
+const KICK_MAX_FREQ = 150;
+const HAT_MIN_FREQ = 5000;
+
+// How long after an onset to look at its spectrum, and when to check
+// whether a hat is still ringing (seconds)
+const DRUM_ATTACK_SECONDS = 0.04;
+const OPEN_HAT_CHECK_SECONDS = 0.15;
+const OPEN_HAT_SUSTAIN = 0.2;
+
+// Share of the loudest peak that drum hits must reach
+const DRUM_PEAK_FLOOR = 0.1;
+
+// ---- Transients ----
+
+// Much lower than for drums: the caller filters by strength
+const TRANSIENT_PEAK_FLOOR = 0.02;
+
+// Slices start where the signal first reaches this share of the
+// onset window's peak, backed up to a zero crossing
+const TRANSIENT_ATTACK_RATIO = 0.25;
+const ZERO_CROSSING_SECONDS = 0.002;
+
+self.onmessage = (e) => {
+    const { type, jobId, data } = e.data;
+
+    // Handle cancellation request
+    if (type === 'cancel') {
+        cancelledJobs.add(jobId);
+        return;
+    }
+
+    if (type === 'convert') {
+        try {
+            const { channelData, sampleRate, mode } = data;
+            const mono = mixToMono(channelData);
+
+            const onProgress = (progress) => {
+                self.postMessage({
+                    type: 'progress',
+                    jobId,
+                    progress: Math.round(progress * 100),
+                    message: `Detecting notes... ${Math.round(progress * 100)}%`
+                });
+                return !cancelledJobs.has(jobId);
+            };
+
+            const events = mode === 'drums'
+                ? detectDrumHits(mono, sampleRate, onProgress)
+                : detectMelodyNotes(mono, sampleRate, onProgress);
+
+            if (!events) {
+                cancelledJobs.delete(jobId);
+                return;
+            }
+
+            self.postMessage({
+                type: 'result',
+                jobId,
+                events
+            });
+
+        } catch (error) {
+            self.postMessage({
+                type: 'error',
+                jobId,
+                error: error.message || 'Audio-to-MIDI conversion failed'
+            });
+        }
+    }
+
+    if (type === 'transients') {
+        try {
+            const { channelData, sampleRate } = data;
+            const mono = mixToMono(channelData);
+
+            const transients = detectTransients(mono, sampleRate, (progress) => {
+                self.postMessage({
+                    type: 'progress',
+                    jobId,
+                    progress: Math.round(progress * 100),
+                    message: `Finding transients... ${Math.round(progress * 100)}%`
+                });
+                return !cancelledJobs.has(jobId);
+            });
+
+            if (!transients) {
+                cancelledJobs.delete(jobId);
+                return;
+            }
+
+            self.postMessage({
+                type: 'result',
+                jobId,
+                transients
+            });
+
+        } catch (error) {
+            self.postMessage({
+                type: 'error',
+                jobId,
+                error: error.message || 'Transient detection failed'
+            });
+        }
+    }
+};
+
+function mixToMono(channels) {
+    const length = channels[0].length;
+    const mono = new Float32Array(length);
+    for (const channel of channels) {
+        for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+    }
+    return mono;
+}
+
+// ============================================
+// Melody
+// ============================================
+
+/**
+ * Monophonic notes: { start, end, pitch, velocity } with times in
+ * seconds. Returns null when cancelled.
+ */
+function detectMelodyNotes(mono, sampleRate, onProgress) {
+    // Decimate (box filter first, to keep aliasing down) so YIN stays cheap
+    const factor = Math.max(1, Math.floor(sampleRate / PITCH_SAMPLE_RATE));
+    const rate = sampleRate / factor;
+    const signal = new Float32Array(Math.floor(mono.length / factor));
+    for (let i = 0; i < signal.length; i++) {
+        let sum = 0;
+        for (let j = 0; j < factor; j++) sum += mono[i * factor + j];
+        signal[i] = sum / factor;
+    }
+
+    const frameSize = Math.round(PITCH_FRAME_SECONDS * rate);
+    const hop = Math.max(1, Math.round(PITCH_HOP_SECONDS * rate));
+    const tauMin = Math.max(2, Math.floor(rate / MAX_FREQ));
+    const tauMax = Math.min(frameSize - 1, Math.ceil(rate / MIN_FREQ));
+    const frameCount = Math.max(0, Math.floor((signal.length - frameSize - tauMax) / hop) + 1);
+
+    const pitches = new Float32Array(frameCount);   // MIDI, 0 = unvoiced
+    const levels = new Float32Array(frameCount);
+    const diff = new Float32Array(tauMax + 1);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        if (frame % 200 === 0 && !onProgress(frame / frameCount)) {
+            return null;
+        }
+
+        const offset = frame * hop;
+
+        let energy = 0;
+        for (let j = 0; j < frameSize; j++) energy += signal[offset + j] * signal[offset + j];
+        levels[frame] = Math.sqrt(energy / frameSize);
+
+        const frequency = yinPitch(signal, offset, frameSize, tauMin, tauMax, diff, rate);
+        pitches[frame] = frequency > 0 ? 69 + 12 * Math.log2(frequency / 440) : 0;
+    }
+
+    let peakLevel = 0;
+    for (let i = 0; i < frameCount; i++) peakLevel = Math.max(peakLevel, levels[i]);
+    const gate = peakLevel * SILENCE_RATIO;
+
+    for (let i = 0; i < frameCount; i++) {
+        if (levels[i] < gate) pitches[i] = 0;
+    }
+
+    const smoothed = medianFilter(pitches, PITCH_SMOOTHING);
+    const frameSeconds = hop / rate;
+    const centre = frameSize / rate / 2;
+    const settleFrames = Math.ceil(frameSize / hop) + ONSET_LOOKBACK;
+    const notes = [];
+    let current = null;
+
+    const close = (endFrame) => {
+        if (!current) return;
+        // Frames are timed at their centres
+        const start = current.startFrame * frameSeconds + centre;
+        const end = endFrame * frameSeconds + centre;
+        if (end - start >= MIN_NOTE_SECONDS) {
+            notes.push({
+                start,
+                end,
+                pitch: median(current.pitches),
+                velocity: Math.round(30 + 97 * Math.sqrt(current.peak / peakLevel)),
+            });
+        }
+        current = null;
+    };
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        let pitch = smoothed[frame] > 0 ? Math.round(smoothed[frame]) : 0;
+
+        // Drifting a little (vibrato, 808 glides) doesn't start a new note
+        if (pitch && current && Math.abs(smoothed[frame] - current.pitch) < PITCH_HYSTERESIS) {
+            pitch = current.pitch;
+        }
+
+        if (pitch === 0) {
+            close(frame);
+            continue;
+        }
+
+        let previousLevel = levels[frame];
+        for (let j = Math.max(0, frame - ONSET_LOOKBACK); j < frame; j++) {
+            previousLevel = Math.min(previousLevel, levels[j]);
+        }
+        const isOnset = levels[frame] > previousLevel * ONSET_RISE;
+
+        // A note's own attack ramps the level up too; only re-attacks count
+        if (current && (pitch !== current.pitch || (isOnset && frame - current.startFrame > settleFrames))) {
+            close(frame);
+        }
+
+        if (!current) {
+            current = { startFrame: frame, pitch, pitches: [], peak: 0 };
+        }
+        current.pitches.push(pitch);
+        current.peak = Math.max(current.peak, levels[frame]);
+    }
+    close(frameCount);
+
+    onProgress(1);
+    return notes;
+}
+
+/**
+ * YIN fundamental estimate for one frame, or 0 if it isn't periodic
+ */
+function yinPitch(signal, offset, frameSize, tauMin, tauMax, diff, rate) {
+    for (let tau = 1; tau <= tauMax; tau++) {
+        let sum = 0;
+        for (let j = 0; j < frameSize; j++) {
+            const delta = signal[offset + j] - signal[offset + j + tau];
+            sum += delta * delta;
+        }
+        diff[tau] = sum;
+    }
+
+    // Cumulative mean normalised difference
+    diff[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau <= tauMax; tau++) {
+        runningSum += diff[tau];
+        diff[tau] = runningSum > 0 ? (diff[tau] * tau) / runningSum : 1;
+    }
+
+    let tau = tauMin;
+    while (tau <= tauMax && diff[tau] >= YIN_THRESHOLD) tau++;
+    if (tau > tauMax) return 0;
+    while (tau + 1 <= tauMax && diff[tau + 1] < diff[tau]) tau++;
+
+    // Parabolic interpolation for sub-sample period
+    let period = tau;
+    if (tau > 1 && tau < tauMax) {
+        const a = diff[tau - 1];
+        const b = diff[tau];
+        const c = diff[tau + 1];
+        const denominator = a - 2 * b + c;
+        if (denominator !== 0) period = tau + (0.5 * (a - c)) / denominator;
+    }
+
+    return rate / period;
+}
+
+function medianFilter(values, size) {
+    const half = Math.floor(size / 2);
+    const result = new Float32Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+        if (values[i] === 0) continue;
+        const window = [];
+        for (let j = Math.max(0, i - half); j <= Math.min(values.length - 1, i + half); j++) {
+            if (values[j] > 0) window.push(values[j]);
+        }
+        result[i] = median(window);
+    }
+    return result;
+}
+
+function median(values) {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+// ============================================
+// Drums
+// ============================================
+
+/**
+ * Per-frame spectral flux (rise in log magnitude) and band energies.
+ * Returns null when cancelled.
+ */
+function analyzeSpectrum(mono, sampleRate, onProgress) {
+    const frameCount = Math.max(0, Math.floor((mono.length - DRUM_FFT_SIZE) / DRUM_HOP_SIZE) + 1);
+    const bins = DRUM_FFT_SIZE / 2;
+    const binHz = sampleRate / DRUM_FFT_SIZE;
+    const kickBin = Math.ceil(KICK_MAX_FREQ / binHz);
+    const hatBin = Math.floor(HAT_MIN_FREQ / binHz);
+
+    const hann = new Float32Array(DRUM_FFT_SIZE);
+    for (let i = 0; i < DRUM_FFT_SIZE; i++) {
+        hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / DRUM_FFT_SIZE);
+    }
+
+    const re = new Float32Array(DRUM_FFT_SIZE);
+    const im = new Float32Array(DRUM_FFT_SIZE);
+    let previous = new Float32Array(bins);
+
+    const flux = new Float32Array(frameCount);
+    const low = new Float32Array(frameCount);
+    const mid = new Float32Array(frameCount);
+    const high = new Float32Array(frameCount);
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        if (frame % 200 === 0 && !onProgress((frame / frameCount) * 0.9)) {
+            return null;
+        }
+
+        const offset = frame * DRUM_HOP_SIZE;
+        for (let i = 0; i < DRUM_FFT_SIZE; i++) {
+            re[i] = mono[offset + i] * hann[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+
+        const magnitudes = new Float32Array(bins);
+        for (let k = 1; k < bins; k++) {
+            const power = re[k] * re[k] + im[k] * im[k];
+            magnitudes[k] = Math.sqrt(power);
+
+            if (k <= kickBin) low[frame] += power;
+            else if (k >= hatBin) high[frame] += power;
+            else mid[frame] += power;
+
+            const rise = Math.log1p(100 * magnitudes[k]) - Math.log1p(100 * previous[k]);
+            if (rise > 0) flux[frame] += rise;
+        }
+        previous = magnitudes;
+    }
+
+    return { flux, low, mid, high, frameCount, frameSeconds: DRUM_HOP_SIZE / sampleRate };
+}
+
+/**
+ * Drum hits: { start, end, sound, velocity } where sound is 'kick',
+ * 'snare', 'closedHat' or 'openHat'. Returns null when cancelled.
+ */
+function detectDrumHits(mono, sampleRate, onProgress) {
+    const spectrum = analyzeSpectrum(mono, sampleRate, onProgress);
+    if (!spectrum) return null;
+
+    const { flux, low, mid, high, frameCount, frameSeconds } = spectrum;
+    const onsets = pickPeaks(flux, Math.max(1, Math.round(MIN_ONSET_GAP / frameSeconds)), DRUM_PEAK_FLOOR);
+
+    let peakFlux = 0;
+    for (const frame of onsets) peakFlux = Math.max(peakFlux, flux[frame]);
+
+    const attackFrames = Math.max(1, Math.round(DRUM_ATTACK_SECONDS / frameSeconds));
+    const sustainFrame = Math.round(OPEN_HAT_CHECK_SECONDS / frameSeconds);
+
+    const hits = onsets.map((frame, index) => {
+        const nextOnset = index + 1 < onsets.length ? onsets[index + 1] : frameCount;
+        const attackEnd = Math.min(nextOnset, frame + attackFrames, frameCount);
+
+        // What each band gained over the frame before the hit, so a
+        // hat over a ringing kick still reads as a hat
+        const before = frame - 1;
+        let lowEnergy = 0;
+        let midEnergy = 0;
+        let highEnergy = 0;
+        for (let f = frame; f < attackEnd; f++) {
+            lowEnergy += Math.max(0, low[f] - (before >= 0 ? low[before] : 0));
+            midEnergy += Math.max(0, mid[f] - (before >= 0 ? mid[before] : 0));
+            highEnergy += Math.max(0, high[f] - (before >= 0 ? high[before] : 0));
+        }
+        const total = lowEnergy + midEnergy + highEnergy || 1;
+
+        let sound;
+        if (lowEnergy / total > 0.5) {
+            sound = 'kick';
+        } else if (highEnergy / total > 0.5 && lowEnergy / total < 0.1) {
+            // Open if the top end is still ringing a while later (and no new hit has started)
+            const check = frame + sustainFrame;
+            const isOpen = check < nextOnset && check < frameCount && high[check] > high[frame] * OPEN_HAT_SUSTAIN;
+            sound = isOpen ? 'openHat' : 'closedHat';
+        } else {
+            sound = 'snare';
+        }
+
+        return {
+            start: frame * frameSeconds,
+            end: nextOnset * frameSeconds,
+            sound,
+            velocity: Math.round(40 + 87 * Math.sqrt(flux[frame] / (peakFlux || 1))),
+        };
+    });
+
+    onProgress(1);
+    return hits;
+}
+
+// ============================================
+// Transients
+// ============================================
+
+/**
+ * Candidate slice points: { time, strength } with time in seconds and
+ * strength 0-1 relative to the strongest. Returns null when cancelled.
+ */
+function detectTransients(mono, sampleRate, onProgress) {
+    const spectrum = analyzeSpectrum(mono, sampleRate, onProgress);
+    if (!spectrum) return null;
+
+    const { flux, frameSeconds } = spectrum;
+    const onsets = pickPeaks(flux, Math.max(1, Math.round(MIN_ONSET_GAP / frameSeconds)), TRANSIENT_PEAK_FLOOR);
+
+    let peakFlux = 0;
+    for (const frame of onsets) peakFlux = Math.max(peakFlux, flux[frame]);
+
+    const transients = onsets.map((frame) => ({
+        time: refineOnset(mono, frame * DRUM_HOP_SIZE, frame * DRUM_HOP_SIZE + DRUM_FFT_SIZE, sampleRate) / sampleRate,
+        strength: flux[frame] / (peakFlux || 1),
+    }));
+
+    onProgress(1);
+    return transients;
+}
+
+/**
+ * Sample where an onset inside [start, end) begins
+ */
+function refineOnset(mono, start, end, sampleRate) {
+    end = Math.min(end, mono.length);
+
+    let peak = 0;
+    for (let i = start; i < end; i++) peak = Math.max(peak, Math.abs(mono[i]));
+
+    let onset = start;
+    while (onset < end && Math.abs(mono[onset]) < peak * TRANSIENT_ATTACK_RATIO) onset++;
+
+    // Back up to a zero crossing so the cut doesn't click
+    const limit = Math.max(0, onset - Math.round(ZERO_CROSSING_SECONDS * sampleRate));
+    while (onset > limit && Math.sign(mono[onset - 1]) === Math.sign(mono[onset])) onset--;
+
+    return onset;
+}
+
+/**
+ * Local maxima of the onset curve that clear an adaptive threshold
+ * (local mean plus `floor` times the loudest peak)
+ */
+function pickPeaks(curve, minGap, floor) {
+    let max = 0;
+    for (let i = 0; i < curve.length; i++) max = Math.max(max, curve[i]);
+    if (max <= 0) return [];
+
+    const window = minGap * 2;
+    const peaks = [];
+    for (let i = 0; i < curve.length; i++) {
+        let sum = 0;
+        let count = 0;
+        let isMax = true;
+        for (let j = Math.max(0, i - window); j <= Math.min(curve.length - 1, i + window); j++) {
+            sum += curve[j];
+            count++;
+            if (Math.abs(j - i) <= minGap && curve[j] > curve[i]) isMax = false;
+        }
+        const threshold = (sum / count) * 1.5 + max * floor;
+        if (isMax && curve[i] > threshold && (peaks.length === 0 || i - peaks[peaks.length - 1] >= minGap)) {
+            peaks.push(i);
+        }
+    }
+    return peaks;
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+function fft(re, im) {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            let t = re[i]; re[i] = re[j]; re[j] = t;
+            t = im[i]; im[i] = im[j]; im[j] = t;
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const half = size >> 1;
+        const step = (-2 * Math.PI) / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const cos = Math.cos(step * k);
+                const sin = Math.sin(step * k);
+                const a = start + k;
+                const b = a + half;
+                const tr = re[b] * cos - im[b] * sin;
+                const ti = re[b] * sin + im[b] * cos;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+}
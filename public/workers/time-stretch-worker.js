@@ -0,0 +1,209 @@
+// ============================================
+// ComposeYogi — Web Worker for Time-Stretch and Pitch-Shift
+// WSOLA stretch followed by a resample, using Transferable Objects
+// ============================================
+
+let cancelledJobs = new Set();
+
+// Analysis window and search range (seconds)
+const FRAME_SECONDS = 0.04;
+const TOLERANCE_SECONDS = 0.01;
+
+// Cross-correlation only looks at every Nth sample of the overlap
+const CORRELATION_STRIDE = 4;
+
+self.onmessage = (e) => {
+    const { type, jobId, data } = e.data;
+
+    // Handle cancellation request
+    if (type === 'cancel') {
+        cancelledJobs.add(jobId);
+        return;
+    }
+
+    if (type === 'warp') {
+        try {
+            const { channelData, sampleRate, stretch, resample } = data;
+
+            self.postMessage({
+                type: 'progress',
+                jobId,
+                progress: 0,
+                message: 'Stretching audio...'
+            });
+
+            let output = channelData;
+
+            if (Math.abs(stretch - 1) > 1e-4) {
+                output = wsolaStretch(channelData, sampleRate, stretch, (progress) => {
+                    self.postMessage({
+                        type: 'progress',
+                        jobId,
+                        progress: Math.round(progress * 90),
+                        message: `Stretching audio... ${Math.round(progress * 90)}%`
+                    });
+                    return !cancelledJobs.has(jobId);
+                });
+
+                if (!output) {
+                    cancelledJobs.delete(jobId);
+                    return;
+                }
+            }
+
+            if (Math.abs(resample - 1) > 1e-4) {
+                self.postMessage({
+                    type: 'progress',
+                    jobId,
+                    progress: 90,
+                    message: 'Resampling...'
+                });
+                output = output.map((channel) => resampleChannel(channel, resample));
+            } else if (output === channelData) {
+                // Nothing to do; hand the input back
+                output = channelData.map((channel) => channel.slice());
+            }
+
+            self.postMessage(
+                {
+                    type: 'result',
+                    jobId,
+                    channelData: output
+                },
+                output.map((channel) => channel.buffer) // Transfer ownership back
+            );
+
+        } catch (error) {
+            self.postMessage({
+                type: 'error',
+                jobId,
+                error: error.message || 'Time-stretch failed'
+            });
+        }
+    }
+};
+
+// ============================================
+// WSOLA
+// ============================================
+
+/**
+ * Waveform-similarity overlap-add. Windows are read from the input at
+ * the analysis hop and written at the synthesis hop; each read position
+ * is nudged (within the tolerance) to the spot that best continues the
+ * previous window, which keeps transients and pitch intact.
+ *
+ * All channels share the read positions (picked on the mono mix) so the
+ * stereo image doesn't smear. Returns null when cancelled.
+ */
+function wsolaStretch(channels, sampleRate, factor, onProgress) {
+    const inputLength = channels[0].length;
+    const frameSize = Math.max(256, 2 * Math.round((FRAME_SECONDS * sampleRate) / 2));
+    const synthesisHop = frameSize / 2;
+    const analysisHop = synthesisHop / factor;
+    const tolerance = Math.round(TOLERANCE_SECONDS * sampleRate);
+    const outputLength = Math.round(inputLength * factor);
+
+    const hann = new Float32Array(frameSize);
+    for (let i = 0; i < frameSize; i++) {
+        hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+    }
+
+    // Mono mix for the similarity search
+    const mono = new Float32Array(inputLength);
+    for (const channel of channels) {
+        for (let i = 0; i < inputLength; i++) mono[i] += channel[i];
+    }
+
+    const outputs = channels.map(() => new Float32Array(outputLength + frameSize));
+    const norm = new Float32Array(outputLength + frameSize);
+    const frameCount = Math.ceil(outputLength / synthesisHop);
+    const maxStart = Math.max(0, inputLength - frameSize);
+
+    let previousStart = 0;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        if (frame % 200 === 0 && !onProgress(frame / frameCount)) {
+            return null;
+        }
+
+        const nominal = Math.round(frame * analysisHop);
+        let start = Math.min(nominal, maxStart);
+
+        if (frame > 0) {
+            // The natural continuation of the last window we copied
+            const natural = previousStart + synthesisHop;
+            const from = Math.max(0, nominal - tolerance);
+            const to = Math.min(maxStart, nominal + tolerance);
+            const overlap = frameSize - synthesisHop;
+
+            let bestScore = -Infinity;
+            for (let candidate = from; candidate <= to; candidate++) {
+                let score = 0;
+                for (let i = 0; i < overlap; i += CORRELATION_STRIDE) {
+                    const a = natural + i < inputLength ? mono[natural + i] : 0;
+                    score += a * mono[candidate + i];
+                }
+                if (score > bestScore) {
+                    bestScore = score;
+                    start = candidate;
+                }
+            }
+        }
+
+        const writeAt = frame * synthesisHop;
+        for (let ch = 0; ch < channels.length; ch++) {
+            const input = channels[ch];
+            const out = outputs[ch];
+            for (let i = 0; i < frameSize; i++) {
+                const index = start + i;
+                if (index >= inputLength) break;
+                out[writeAt + i] += input[index] * hann[i];
+            }
+        }
+        for (let i = 0; i < frameSize; i++) {
+            norm[writeAt + i] += hann[i];
+        }
+
+        previousStart = start;
+    }
+
+    onProgress(1);
+
+    return outputs.map((out) => {
+        const result = new Float32Array(outputLength);
+        for (let i = 0; i < outputLength; i++) {
+            result[i] = norm[i] > 1e-3 ? out[i] / norm[i] : out[i];
+        }
+        return result;
+    });
+}
+
+// ============================================
+// Resampling
+// ============================================
+
+/**
+ * Play a channel back at `rate` times its speed (cubic interpolation)
+ */
+function resampleChannel(input, rate) {
+    const outputLength = Math.max(1, Math.round(input.length / rate));
+    const output = new Float32Array(outputLength);
+    const last = input.length - 1;
+
+    for (let i = 0; i < outputLength; i++) {
+        const position = i * rate;
+        const index = Math.floor(position);
+        const t = position - index;
+
+        const y0 = input[Math.max(0, index - 1)];
+        const y1 = input[Math.min(last, index)];
+        const y2 = input[Math.min(last, index + 1)];
+        const y3 = input[Math.min(last, index + 2)];
+
+        // Catmull-Rom spline
+        output[i] = y1 + 0.5 * t * (y2 - y0 + t * (2 * y0 - 5 * y1 + 4 * y2 - y3 + t * (3 * (y1 - y2) + y3 - y0)));
+    }
+
+    return output;
+}
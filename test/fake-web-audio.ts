@@ -0,0 +1,663 @@
+// ============================================
+// ComposeYogi — Fake Web Audio
+// Stands in for standardized-audio-context under Vitest so Tone.js
+// runs in Node. Nothing is rendered; the graph and every param
+// automation call are recorded so renders can be compared as traces.
+// ============================================
+
+type Numeric = number | Float32Array | number[];
+
+// ============================================
+// Formatting
+// ============================================
+
+const round = (value: number) => (Number.isFinite(value) ? Math.round(value * 1e6) / 1e6 : value);
+
+/**
+ * Short, stable digest of sample data (curves, buffers, periodic waves)
+ */
+function digest(values: ArrayLike<number>): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < values.length; i++) {
+        hash = Math.imul(hash ^ Math.round(values[i] * 1e6), 16777619);
+    }
+    return `${values.length}#${(hash >>> 0).toString(36)}`;
+}
+
+function hashText(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+    }
+    return `${text.length}#${(hash >>> 0).toString(36)}`;
+}
+
+function formatArg(arg: Numeric | string | undefined): string {
+    if (typeof arg === 'number') return String(round(arg));
+    if (arg && typeof arg === 'object') return digest(arg);
+    return String(arg);
+}
+
+// ============================================
+// Params
+// ============================================
+
+export class FakeAudioParam {
+    readonly inputs = new Set<FakeAudioNode>();
+    readonly events: string[] = [];
+    private current: number;
+
+    constructor(
+        readonly defaultValue: number,
+        readonly minValue: number = -3.4028234663852886e38,
+        readonly maxValue: number = 3.4028234663852886e38
+    ) {
+        this.current = defaultValue;
+    }
+
+    automationRate: 'a-rate' | 'k-rate' = 'a-rate';
+
+    get value(): number {
+        return this.current;
+    }
+
+    set value(value: number) {
+        this.current = value;
+        this.record('value', value);
+    }
+
+    setValueAtTime(value: number, time: number): this {
+        this.current = value;
+        return this.record('setValueAtTime', value, time);
+    }
+
+    linearRampToValueAtTime(value: number, time: number): this {
+        return this.record('linearRampToValueAtTime', value, time);
+    }
+
+    exponentialRampToValueAtTime(value: number, time: number): this {
+        return this.record('exponentialRampToValueAtTime', value, time);
+    }
+
+    setTargetAtTime(value: number, time: number, timeConstant: number): this {
+        return this.record('setTargetAtTime', value, time, timeConstant);
+    }
+
+    setValueCurveAtTime(values: Float32Array | number[], time: number, duration: number): this {
+        return this.record('setValueCurveAtTime', values, time, duration);
+    }
+
+    cancelScheduledValues(time: number): this {
+        return this.record('cancelScheduledValues', time);
+    }
+
+    cancelAndHoldAtTime(time: number): this {
+        return this.record('cancelAndHoldAtTime', time);
+    }
+
+    private record(method: string, ...args: Numeric[]): this {
+        this.events.push(`${method}(${args.map(formatArg).join(',')})`);
+        return this;
+    }
+}
+
+// ============================================
+// Nodes
+// ============================================
+
+type Destination = FakeAudioNode | FakeAudioParam;
+
+export class FakeAudioNode {
+    readonly inputs = new Set<FakeAudioNode>();
+    private readonly outputs = new Set<Destination>();
+
+    channelCount = 2;
+    channelCountMode: ChannelCountMode = 'max';
+    channelInterpretation: ChannelInterpretation = 'speakers';
+    onended: (() => void) | null = null;
+
+    constructor(
+        readonly context: FakeBaseAudioContext,
+        readonly kind: string,
+        readonly numberOfInputs: number = 1,
+        readonly numberOfOutputs: number = 1
+    ) {
+        context.nodes.push(this);
+    }
+
+    connect<T extends Destination>(destination: T): T {
+        this.outputs.add(destination);
+        destination.inputs.add(this);
+        return destination;
+    }
+
+    disconnect(destination?: Destination): void {
+        const targets = destination ? [destination] : Array.from(this.outputs);
+        for (const target of targets) {
+            this.outputs.delete(target);
+            target.inputs.delete(this);
+        }
+    }
+
+    addEventListener(): void {}
+
+    removeEventListener(): void {}
+
+    /** Settings that are not params, for the trace */
+    describeSettings(): string[] {
+        return [];
+    }
+
+    /** Params by name, for the trace */
+    getParams(): Record<string, FakeAudioParam> {
+        const params: Record<string, FakeAudioParam> = {};
+        for (const [name, value] of Object.entries(this)) {
+            if (value instanceof FakeAudioParam) params[name] = value;
+        }
+        return params;
+    }
+}
+
+class FakeScheduledSourceNode extends FakeAudioNode {
+    readonly schedule: string[] = [];
+
+    start(when = 0, offset?: number, duration?: number): void {
+        this.schedule.push(`start(${[when, offset, duration].filter((n) => n !== undefined).map(formatArg).join(',')})`);
+    }
+
+    stop(when = 0): void {
+        this.schedule.push(`stop(${formatArg(when)})`);
+    }
+
+    describeSettings(): string[] {
+        return this.schedule;
+    }
+}
+
+class FakeGainNode extends FakeAudioNode {
+    readonly gain = new FakeAudioParam(1);
+}
+
+class FakeOscillatorNode extends FakeScheduledSourceNode {
+    readonly frequency = new FakeAudioParam(440);
+    readonly detune = new FakeAudioParam(0);
+    type: OscillatorType = 'sine';
+    private wave: string | null = null;
+
+    setPeriodicWave(wave: FakePeriodicWave): void {
+        this.type = 'custom';
+        this.wave = wave.id;
+    }
+
+    describeSettings(): string[] {
+        return [`type=${this.type}`, ...(this.wave ? [`wave=${this.wave}`] : []), ...super.describeSettings()];
+    }
+}
+
+class FakeBufferSourceNode extends FakeScheduledSourceNode {
+    readonly playbackRate = new FakeAudioParam(1);
+    readonly detune = new FakeAudioParam(0);
+    buffer: FakeAudioBuffer | null = null;
+    loop = false;
+    loopStart = 0;
+    loopEnd = 0;
+
+    describeSettings(): string[] {
+        return [
+            `buffer=${this.buffer ? this.buffer.id : 'none'}`,
+            `loop=${this.loop}:${round(this.loopStart)}:${round(this.loopEnd)}`,
+            ...super.describeSettings(),
+        ];
+    }
+}
+
+class FakeConstantSourceNode extends FakeScheduledSourceNode {
+    readonly offset = new FakeAudioParam(1);
+}
+
+class FakeBiquadFilterNode extends FakeAudioNode {
+    readonly frequency = new FakeAudioParam(350);
+    readonly detune = new FakeAudioParam(0);
+    readonly Q = new FakeAudioParam(1);
+    readonly gain = new FakeAudioParam(0);
+    type: BiquadFilterType = 'lowpass';
+
+    getFrequencyResponse(_frequencies: Float32Array, magnitude: Float32Array, phase: Float32Array): void {
+        magnitude.fill(1);
+        phase.fill(0);
+    }
+
+    describeSettings(): string[] {
+        return [`type=${this.type}`];
+    }
+}
+
+class FakeIIRFilterNode extends FakeAudioNode {
+    constructor(context: FakeBaseAudioContext, private readonly coefficients: string) {
+        super(context, 'IIRFilter');
+    }
+
+    getFrequencyResponse(_frequencies: Float32Array, magnitude: Float32Array, phase: Float32Array): void {
+        magnitude.fill(1);
+        phase.fill(0);
+    }
+
+    describeSettings(): string[] {
+        return [this.coefficients];
+    }
+}
+
+class FakeWaveShaperNode extends FakeAudioNode {
+    curve: Float32Array | null = null;
+    oversample: OverSampleType = 'none';
+
+    describeSettings(): string[] {
+        return [`curve=${this.curve ? digest(this.curve) : 'none'}`, `oversample=${this.oversample}`];
+    }
+}
+
+class FakeConvolverNode extends FakeAudioNode {
+    buffer: FakeAudioBuffer | null = null;
+    normalize = true;
+
+    describeSettings(): string[] {
+        return [`buffer=${this.buffer ? this.buffer.id : 'none'}`, `normalize=${this.normalize}`];
+    }
+}
+
+class FakeDelayNode extends FakeAudioNode {
+    readonly delayTime: FakeAudioParam;
+
+    constructor(context: FakeBaseAudioContext, maxDelayTime: number) {
+        super(context, 'Delay');
+        this.delayTime = new FakeAudioParam(0, 0, maxDelayTime);
+    }
+}
+
+class FakeStereoPannerNode extends FakeAudioNode {
+    readonly pan = new FakeAudioParam(0, -1, 1);
+}
+
+class FakePannerNode extends FakeAudioNode {
+    readonly positionX = new FakeAudioParam(0);
+    readonly positionY = new FakeAudioParam(0);
+    readonly positionZ = new FakeAudioParam(0);
+    readonly orientationX = new FakeAudioParam(1);
+    readonly orientationY = new FakeAudioParam(0);
+    readonly orientationZ = new FakeAudioParam(0);
+    coneInnerAngle = 360;
+    coneOuterAngle = 360;
+    coneOuterGain = 0;
+    distanceModel: DistanceModelType = 'inverse';
+    maxDistance = 10000;
+    panningModel: PanningModelType = 'equalpower';
+    refDistance = 1;
+    rolloffFactor = 1;
+}
+
+class FakeDynamicsCompressorNode extends FakeAudioNode {
+    readonly threshold = new FakeAudioParam(-24);
+    readonly knee = new FakeAudioParam(30);
+    readonly ratio = new FakeAudioParam(12);
+    readonly attack = new FakeAudioParam(0.003);
+    readonly release = new FakeAudioParam(0.25);
+    readonly reduction = 0;
+}
+
+class FakeAnalyserNode extends FakeAudioNode {
+    fftSize = 2048;
+    minDecibels = -100;
+    maxDecibels = -30;
+    smoothingTimeConstant = 0.8;
+
+    get frequencyBinCount(): number {
+        return this.fftSize / 2;
+    }
+
+    getFloatFrequencyData(array: Float32Array): void {
+        array.fill(-Infinity);
+    }
+
+    getFloatTimeDomainData(array: Float32Array): void {
+        array.fill(0);
+    }
+
+    getByteFrequencyData(array: Uint8Array): void {
+        array.fill(0);
+    }
+
+    getByteTimeDomainData(array: Uint8Array): void {
+        array.fill(128);
+    }
+}
+
+/** Worklet params are created on first use, whatever the processor declares */
+class FakeParamMap extends Map<string, FakeAudioParam> {
+    get(name: string): FakeAudioParam {
+        if (!super.has(name)) super.set(name, new FakeAudioParam(0));
+        return super.get(name)!;
+    }
+}
+
+export class FakeAudioWorkletNode extends FakeAudioNode {
+    readonly parameters = new FakeParamMap();
+    readonly port = { postMessage: () => {}, onmessage: null, close: () => {} };
+    onprocessorerror: (() => void) | null = null;
+
+    constructor(context: FakeBaseAudioContext, readonly processorName: string) {
+        super(context, `Worklet:${processorName}`);
+    }
+
+    getParams(): Record<string, FakeAudioParam> {
+        return Object.fromEntries(this.parameters);
+    }
+}
+
+class FakeDestinationNode extends FakeAudioNode {
+    readonly maxChannelCount = 2;
+}
+
+// ============================================
+// Buffers & Waves
+// ============================================
+
+class FakePeriodicWave {
+    readonly id: string;
+
+    constructor(real: ArrayLike<number>, imag: ArrayLike<number>) {
+        this.id = `${digest(real)}/${digest(imag)}`;
+    }
+}
+
+export class FakeAudioBuffer {
+    readonly length: number;
+    readonly numberOfChannels: number;
+    readonly sampleRate: number;
+    private readonly channels: Float32Array[];
+
+    constructor(options: { length: number; numberOfChannels?: number; sampleRate: number }) {
+        this.length = options.length;
+        this.numberOfChannels = options.numberOfChannels ?? 1;
+        this.sampleRate = options.sampleRate;
+        this.channels = Array.from({ length: this.numberOfChannels }, () => new Float32Array(this.length));
+    }
+
+    get duration(): number {
+        return this.length / this.sampleRate;
+    }
+
+    /** Content digest, so equal buffers trace the same */
+    get id(): string {
+        return this.channels.map(digest).join('|');
+    }
+
+    getChannelData(channel: number): Float32Array {
+        return this.channels[channel];
+    }
+
+    copyFromChannel(destination: Float32Array, channel: number, offset = 0): void {
+        destination.set(this.channels[channel].subarray(offset, offset + destination.length));
+    }
+
+    copyToChannel(source: Float32Array, channel: number, offset = 0): void {
+        this.channels[channel].set(source, offset);
+    }
+}
+
+// ============================================
+// Contexts
+// ============================================
+
+class FakeListener {
+    readonly positionX = new FakeAudioParam(0);
+    readonly positionY = new FakeAudioParam(0);
+    readonly positionZ = new FakeAudioParam(0);
+    readonly forwardX = new FakeAudioParam(0);
+    readonly forwardY = new FakeAudioParam(0);
+    readonly forwardZ = new FakeAudioParam(-1);
+    readonly upX = new FakeAudioParam(0);
+    readonly upY = new FakeAudioParam(1);
+    readonly upZ = new FakeAudioParam(0);
+}
+
+export class FakeBaseAudioContext {
+    readonly nodes: FakeAudioNode[] = [];  // Every node created, for lookups in tests
+    readonly destination: FakeDestinationNode;
+    readonly listener = new FakeListener();
+    readonly audioWorklet = { addModule: () => Promise.resolve() };
+    currentTime = 0;
+    state: AudioContextState = 'running';
+    onstatechange: (() => void) | null = null;
+
+    constructor(readonly sampleRate: number = 44100) {
+        this.destination = new FakeDestinationNode(this, 'Destination', 1, 0);
+    }
+
+    createGain() {
+        return new FakeGainNode(this, 'Gain');
+    }
+
+    createOscillator() {
+        return new FakeOscillatorNode(this, 'Oscillator', 0);
+    }
+
+    createBufferSource() {
+        return new FakeBufferSourceNode(this, 'BufferSource', 0);
+    }
+
+    createConstantSource() {
+        return new FakeConstantSourceNode(this, 'ConstantSource', 0);
+    }
+
+    createBiquadFilter() {
+        return new FakeBiquadFilterNode(this, 'BiquadFilter');
+    }
+
+    createIIRFilter(feedforward: number[], feedback: number[]) {
+        return new FakeIIRFilterNode(this, `${digest(feedforward)}/${digest(feedback)}`);
+    }
+
+    createWaveShaper() {
+        return new FakeWaveShaperNode(this, 'WaveShaper');
+    }
+
+    createConvolver() {
+        return new FakeConvolverNode(this, 'Convolver');
+    }
+
+    createDelay(maxDelayTime = 1) {
+        return new FakeDelayNode(this, maxDelayTime);
+    }
+
+    createStereoPanner() {
+        return new FakeStereoPannerNode(this, 'StereoPanner');
+    }
+
+    createPanner() {
+        return new FakePannerNode(this, 'Panner');
+    }
+
+    createDynamicsCompressor() {
+        return new FakeDynamicsCompressorNode(this, 'DynamicsCompressor');
+    }
+
+    createAnalyser() {
+        return new FakeAnalyserNode(this, 'Analyser');
+    }
+
+    createChannelSplitter(numberOfOutputs = 6) {
+        return new FakeAudioNode(this, `ChannelSplitter:${numberOfOutputs}`, 1, numberOfOutputs);
+    }
+
+    createChannelMerger(numberOfInputs = 6) {
+        return new FakeAudioNode(this, `ChannelMerger:${numberOfInputs}`, numberOfInputs, 1);
+    }
+
+    createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+        return new FakeAudioBuffer({ numberOfChannels, length, sampleRate });
+    }
+
+    createPeriodicWave(real: ArrayLike<number>, imag: ArrayLike<number>) {
+        return new FakePeriodicWave(real, imag);
+    }
+
+    /** Reads the bytes as mono 32-bit float PCM, enough for stubbed sample fetches */
+    decodeAudioData(data: ArrayBuffer): Promise<FakeAudioBuffer> {
+        const samples = new Float32Array(data.slice(0, data.byteLength - (data.byteLength % 4)));
+        const buffer = new FakeAudioBuffer({ length: Math.max(samples.length, 1), sampleRate: this.sampleRate });
+        buffer.getChannelData(0).set(samples);
+        return Promise.resolve(buffer);
+    }
+
+    resume(): Promise<void> {
+        return Promise.resolve();
+    }
+
+    close(): Promise<void> {
+        this.state = 'closed';
+        return Promise.resolve();
+    }
+}
+
+export class FakeAudioContext extends FakeBaseAudioContext {
+    constructor(options: { sampleRate?: number } = {}) {
+        super(options.sampleRate);
+    }
+}
+
+// Offline contexts in the order they were rendered; see getLastRender
+const renders: FakeOfflineAudioContext[] = [];
+
+export class FakeOfflineAudioContext extends FakeBaseAudioContext {
+    readonly length: number;
+    readonly numberOfChannels: number;
+
+    constructor(numberOfChannels: number, length: number, sampleRate: number) {
+        super(sampleRate);
+        this.numberOfChannels = numberOfChannels;
+        this.length = length;
+    }
+
+    startRendering(): Promise<FakeAudioBuffer> {
+        renders.push(this);
+        return Promise.resolve(this.createBuffer(this.numberOfChannels, this.length, this.sampleRate));
+    }
+}
+
+// ============================================
+// standardized-audio-context surface used by Tone.js
+// ============================================
+
+export {
+    FakeAudioBuffer as AudioBuffer,
+    FakeAudioContext as AudioContext,
+    FakeOfflineAudioContext as OfflineAudioContext,
+    FakeAudioWorkletNode as AudioWorkletNode,
+};
+
+export const isAnyAudioContext = (value: unknown) => value instanceof FakeBaseAudioContext;
+export const isAnyOfflineAudioContext = (value: unknown) => value instanceof FakeOfflineAudioContext;
+export const isAnyAudioNode = (value: unknown) => value instanceof FakeAudioNode;
+export const isAnyAudioParam = (value: unknown) => value instanceof FakeAudioParam;
+export const isSupported = () => Promise.resolve(true);
+
+// ============================================
+// Traces
+// ============================================
+
+/**
+ * The most recently rendered offline context (Tone.Offline renders last,
+ * after any reverb impulses it waited for)
+ */
+export function getLastRender(): FakeOfflineAudioContext {
+    const context = renders[renders.length - 1];
+    if (!context) throw new Error('Nothing has been rendered');
+    return context;
+}
+
+// Subtrees longer than this are shared by reference in traces
+const SHARED_TRACE_LENGTH = 200;
+
+/**
+ * Canonical description of everything that reaches a node: node kinds,
+ * settings, param values and automation, and source start/stop times.
+ * Inputs are sorted, so graphs built in a different order trace the same,
+ * and unity gains are traced as the sum of their inputs since they pass
+ * signal through unchanged. Long subtrees are written once, after the
+ * root, and referenced by content hash, so fan-outs (an effect slot's dry
+ * and wet paths) don't repeat the graph behind them.
+ */
+export function traceNode(node: FakeAudioNode): string {
+    const memo = new Map<FakeAudioNode, string>();
+    const visiting = new Set<FakeAudioNode>();
+    const definitions = new Map<string, string>();
+
+    const share = (trace: string): string => {
+        if (trace.length <= SHARED_TRACE_LENGTH) return trace;
+        const id = `&${hashText(trace)}`;
+        definitions.set(id, trace);
+        return id;
+    };
+
+    const isPassThrough = (current: FakeAudioNode) =>
+        current instanceof FakeGainNode
+        && current.gain.value === 1
+        && current.gain.events.length === 0
+        && current.gain.inputs.size === 0;
+
+    const traceInputs = (inputs: Set<FakeAudioNode>): string[] =>
+        Array.from(inputs).flatMap((input) => {
+            if (!isPassThrough(input)) return [visit(input)];
+            if (visiting.has(input)) return ['<cycle>'];
+
+            visiting.add(input);
+            const traces = traceInputs(input.inputs);
+            visiting.delete(input);
+            return traces;
+        }).sort();
+
+    const visit = (current: FakeAudioNode): string => {
+        const cached = memo.get(current);
+        if (cached !== undefined) return cached;
+        if (visiting.has(current)) return '<cycle>';
+
+        visiting.add(current);
+        const params = Object.entries(current.getParams())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([name, param]) => {
+                const inputs = traceInputs(param.inputs);
+                return `${name}=${formatArg(param.value)}`
+                    + (param.events.length ? ` {${param.events.join(' ')}}` : '')
+                    + (inputs.length ? ` <- [${inputs.join(', ')}]` : '');
+            });
+        const parts = [...current.describeSettings(), ...params];
+        const inputs = traceInputs(current.inputs);
+        visiting.delete(current);
+
+        const trace = share(`${current.kind}(${parts.join('; ')})${inputs.length ? ` <- [${inputs.join(', ')}]` : ''}`);
+        memo.set(current, trace);
+        return trace;
+    };
+
+    const root = visit(node);
+    const shared = Array.from(definitions, ([id, trace]) => `${id} = ${trace}`).sort();
+    return [root, ...shared].join('\n');
+}
+
+/**
+ * Trace of a whole render, from its destination
+ */
+export function traceRender(context: FakeBaseAudioContext): string {
+    return traceNode(context.destination);
+}
+
+/**
+ * Traces of every param driven by a node of the given kind, e.g. the gain
+ * reduction a sidechain compressor's WaveShaper gain computer applies
+ */
+export function traceParamsDrivenBy(context: FakeBaseAudioContext, kind: string): string[] {
+    return context.nodes.flatMap((node) => Object.entries(node.getParams())
+        .filter(([, param]) => Array.from(param.inputs).some((input) => input.kind === kind))
+        .map(([name, param]) => `${node.kind}.${name} <- [${Array.from(param.inputs, traceNode).sort().join(', ')}]`)
+    ).sort();
+}
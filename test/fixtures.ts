@@ -0,0 +1,135 @@
+// ============================================
+// ComposeYogi — Test Fixtures
+// ============================================
+
+import type { Clip, Note, Project, Track, TrackEffect } from '@/types';
+import { createDefaultMasterBus } from '@/lib/audio/master-bus';
+
+export function createTrack(id: string, overrides: Partial<Track> = {}): Track {
+    return {
+        id,
+        projectId: 'project',
+        name: id,
+        type: 'midi',
+        color: 'keys',
+        volume: 0.8,
+        pan: 0,
+        muted: false,
+        solo: false,
+        armed: false,
+        order: 0,
+        ...overrides,
+    };
+}
+
+export function createClip(id: string, trackId: string, overrides: Partial<Clip> = {}): Clip {
+    return {
+        id,
+        trackId,
+        type: 'midi',
+        name: id,
+        startBar: 0,
+        lengthBars: 1,
+        notes: [],
+        ...overrides,
+    };
+}
+
+export function createEffect(id: string, type: TrackEffect['type'], params: TrackEffect['params'] = {}): TrackEffect {
+    return { id, type, active: true, params };
+}
+
+/**
+ * One note per beat for `beats` beats
+ */
+export function createNotes(pitch: number, beats: number, duration: number = 0.5): Note[] {
+    return Array.from({ length: beats }, (_, beat) => ({
+        id: `${pitch}-${beat}`,
+        pitch,
+        startBeat: beat,
+        duration,
+        velocity: 100,
+    }));
+}
+
+/**
+ * Small song that touches most of the render graph: drums keying a
+ * sidechain on the bass, effects and automation, a send to a reverb bus,
+ * clip macros, a tempo change and the default master chain
+ */
+export function createFixtureProject(): Project {
+    const tracks: Track[] = [
+        createTrack('drums', { type: 'drum', color: 'drums', instrumentPreset: 'drum-synth', order: 0 }),
+        createTrack('bass', {
+            color: 'bass',
+            instrumentPreset: 'synth-bass',
+            volume: 0.7,
+            order: 1,
+            effects: [
+                createEffect('bass-filter', 'filter', { frequency: 800, Q: 2 }),
+                createEffect('bass-duck', 'compression', {
+                    threshold: -30,
+                    ratio: 6,
+                    sidechainSource: 'track',
+                    sidechainTrackId: 'drums',
+                }),
+            ],
+            automation: [{
+                id: 'bass-volume',
+                target: 'volume',
+                enabled: true,
+                points: [
+                    { id: 'a', bar: 0, value: 0.2, curve: 'linear' },
+                    { id: 'b', bar: 2, value: 0.8, curve: 'linear' },
+                ],
+            }],
+        }),
+        createTrack('keys', {
+            instrumentPreset: 'electric-piano',
+            pan: -0.3,
+            order: 2,
+            effects: [createEffect('keys-delay', 'delay', { sync: '1/8d', feedback: 0.3, wet: 0.25 })],
+            sends: [{ id: 'keys-send', busId: 'verb', level: 0.5, preFader: false }],
+        }),
+        createTrack('lead', {
+            color: 'melody',
+            instrumentPreset: 'saw-lead',
+            order: 3,
+            effects: [createEffect('lead-pump', 'compression', {
+                threshold: -24,
+                ratio: 4,
+                sidechainSource: 'trigger',
+                sidechainPattern: 'half-time',
+            })],
+        }),
+        createTrack('verb', {
+            type: 'bus',
+            color: 'fx',
+            order: 4,
+            effects: [createEffect('verb-reverb', 'reverb', { decay: 1, wet: 1 })],
+        }),
+    ];
+
+    const clips: Clip[] = [
+        createClip('drums-1', 'drums', { type: 'drum', lengthBars: 4, notes: [...createNotes(36, 16), ...createNotes(42, 16, 0.25)] }),
+        createClip('bass-1', 'bass', { lengthBars: 2, notes: createNotes(36, 8, 1), transpose: 2 }),
+        createClip('bass-2', 'bass', { startBar: 2, lengthBars: 2, notes: createNotes(31, 8, 1) }),
+        createClip('keys-1', 'keys', { lengthBars: 4, notes: createNotes(60, 4, 4).map((note, i) => ({ ...note, startBeat: i * 4 })), brightness: 70, space: 80 }),
+        createClip('lead-1', 'lead', { startBar: 1, lengthBars: 2, notes: createNotes(72, 8), energy: 70 }),
+    ];
+
+    return {
+        id: 'project',
+        name: 'Fixture',
+        bpm: 120,
+        key: 'C',
+        scale: 'minor',
+        timeSignature: [4, 4],
+        tracks,
+        clips,
+        createdAt: 0,
+        updatedAt: 0,
+        master: createDefaultMasterBus(),
+        tempoMap: [{ id: 'tempo', bar: 2, bpm: 100, timeSignature: [4, 4], ramp: false }],
+    };
+}
@@ -0,0 +1,23 @@
+// ============================================
+// ComposeYogi — Test Setup
+// Gives Tone.js a realtime context backed by the fake Web Audio API
+// ============================================
+
+import { configureLogger } from '@/lib/logger';
+import { FakeAudioContext, FakeAudioWorkletNode, FakeBaseAudioContext } from './fake-web-audio';
+
+// Tone reads `self` when it loads and builds worklet nodes from its classes,
+// so the globals go in before Tone is imported
+Object.assign(globalThis, {
+    self: globalThis,
+    BaseAudioContext: FakeBaseAudioContext,
+    AudioWorkletNode: FakeAudioWorkletNode,
+    TONE_SILENCE_LOGGING: true,
+});
+
+const Tone = await import('tone');
+
+// The offline clock source keeps Tone from starting a ticker; tests render through Tone.Offline
+Tone.setContext(new Tone.Context({ context: new FakeAudioContext() as unknown as AudioContext, clockSource: 'offline' }));
+
+configureLogger({ enabled: false });
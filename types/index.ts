@@ -18,6 +18,38 @@ export interface Project {
     createdAt: number;
     updatedAt: number;
     latencyOffset?: number; // ms, from calibration
+    master?: MasterBus;
+    tempoMap?: TempoChange[];  // Changes after bar 0; bpm/timeSignature above apply until the first
+    exportMetadata?: ExportMetadata;
+}
+
+// Tags written into exported audio. Unset fields follow the project
+// (name, bpm, key/scale), so only what the user typed is stored.
+export interface ExportMetadata {
+    title?: string;
+    artist?: string;
+    album?: string;
+    genre?: string;
+    bpm?: string;
+    key?: string;
+    year?: string;
+    comment?: string;
+    cover?: string;            // Image data URL, downscaled on import
+}
+
+// Tempo and meter change on the timeline. Beats are the time signature's
+// numerator unit, and bpm counts those beats.
+export interface TempoChange {
+    id: string;
+    bar: number;                       // Whole bars for meter changes
+    bpm: number;
+    timeSignature: [number, number];
+    ramp: boolean;                     // Ramp from the previous tempo, arriving at bpm on this bar
+}
+
+export interface MasterBus {
+    volume: number;           // 0-1
+    effects: TrackEffect[];   // EQ -> glue compressor -> width -> limiter by default
 }
 
 export type MusicalKey = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B';
@@ -50,10 +82,47 @@ export interface Track {
     armed: boolean;
     instrumentPreset?: string;
     effects?: TrackEffect[];
+    automation?: AutomationLane[];
+    sends?: TrackSend[];
+    freeze?: TrackFreeze;
     order: number;
 }
 
-export type TrackEffectType = 'reverb' | 'delay' | 'distortion' | 'filter' | 'compression';
+// A frozen track plays this render instead of its instrument and inserts.
+// The render was made from the state hashed in signature; once the track
+// is edited the hashes differ and it plays live again.
+export interface TrackFreeze {
+    takeId: string;
+    startBar: number;
+    lengthBars: number;
+    signature: string;
+}
+
+// Aux send from a track to a bus track
+export interface TrackSend {
+    id: string;
+    busId: string;         // Track id of a 'bus' track
+    level: number;         // 0-1
+    preFader: boolean;     // Tap before the track's volume/pan instead of after
+}
+
+export type TrackEffectType =
+    | 'reverb'
+    | 'delay'
+    | 'distortion'
+    | 'filter'
+    | 'compression'
+    | 'eq'
+    | 'limiter'
+    | 'widener'
+    | 'parametric-eq'
+    | 'chorus'
+    | 'phaser'
+    | 'tremolo'
+    | 'autopan'
+    | 'bitcrusher'
+    | 'gate'
+    | 'pingpong';
 
 export interface TrackEffect {
     id: string;
@@ -63,7 +132,27 @@ export interface TrackEffect {
     params: Record<string, any>;
 }
 
-export type TrackType = 'audio' | 'midi' | 'drum';
+// Automation target: 'volume', 'pan', or `${effectId}.${paramName}`
+export type AutomationTarget = 'volume' | 'pan' | `${string}.${string}`;
+
+// Shape of the segment arriving at a point
+export type AutomationCurve = 'linear' | 'exponential' | 'step';
+
+export interface AutomationPoint {
+    id: string;
+    bar: number;           // Position in bars (fractional)
+    value: number;         // Target units (volume 0-1, pan -1 to 1, effect param units)
+    curve: AutomationCurve;
+}
+
+export interface AutomationLane {
+    id: string;
+    target: AutomationTarget;
+    enabled: boolean;
+    points: AutomationPoint[];  // Sorted by bar
+}
+
+export type TrackType = 'audio' | 'midi' | 'drum' | 'bus';
 
 export type TrackColor =
     | 'drums'
@@ -86,16 +175,22 @@ export interface Clip {
     lengthBars: number;
     // Audio-specific
     audioTakeIds?: string[];
-    activeTakeId?: string;
+    activeTakeId?: string;           // Whole take, or the base under compRegions
+    compRegions?: CompRegion[];      // Comp: ranges taken from other takes
     trimStart?: number;    // seconds
     trimEnd?: number;      // seconds
     fadeIn?: number;       // seconds
     fadeOut?: number;      // seconds
+    warpMode?: WarpMode;   // Default 'off'
+    sourceBpm?: number;    // Tempo the audio was played at; warping follows the project from here
+    pitchShift?: number;   // semitones, rendered with the warp
     // MIDI/Drum-specific
     notes?: Note[];
     // Instrument
     instrumentPreset?: string; // Synth preset ID (overrides track default)
+    sliceKit?: SliceKit;       // Plays slices of an audio take instead of a synth
     // Common
+    muted?: boolean;       // Stays on the timeline but is not played
     transpose?: number;
     humanize?: number;     // 0-100
     energy?: number;       // 0-100 (macro)
@@ -106,10 +201,32 @@ export interface Clip {
 
 export type ClipType = 'audio' | 'midi' | 'drum';
 
+// How an audio clip follows project tempo: not at all, by changing speed
+// and pitch together (repitch), or by changing speed only (stretch)
+export type WarpMode = 'off' | 'repitch' | 'stretch';
+
+// A range of one take swiped into a clip's comp. Times are seconds on the
+// take timeline (all takes of a clip start together), so trims and splits
+// leave the comp in place.
+export interface CompRegion {
+    id: string;
+    takeId: string;
+    start: number;
+    end: number;
+}
+
 // ============================================
 // Audio Types
 // ============================================
 
+// Slices of an audio take, one per note from rootPitch up (REX-style).
+// Slice times are seconds into the take.
+export interface SliceKit {
+    takeId: string;
+    slices: { start: number; end: number }[];
+    rootPitch: number;
+}
+
 export interface AudioTake {
     id: string;
     clipId: string;
@@ -142,6 +259,100 @@ export interface UserSample {
     createdAt: number;
 }
 
+// ============================================
+// Instrument Types
+// ============================================
+
+// Serialisable synth description. Fields mirror Tone.js options so a patch
+// maps straight onto the voice it names; each voice reads only its own.
+export type SynthVoiceType = 'synth' | 'mono' | 'fm' | 'am' | 'membrane' | 'noise' | 'sampler';
+
+export type SynthPresetCategory =
+    | 'synth'
+    | 'keys'
+    | 'bass'
+    | 'pad'
+    | 'lead'
+    | 'drums'
+    | 'idiophones'
+    | 'plucked-strings'
+    | 'bowed-strings'
+    | 'wind';
+
+export interface SynthEnvelopePatch {
+    attack: number;        // seconds
+    decay: number;         // seconds
+    sustain: number;       // 0-1
+    release: number;       // seconds
+}
+
+export interface SynthOscillatorPatch {
+    type: string;          // Tone oscillator type: 'sine', 'fatsawtooth', 'pulse', 'custom', ...
+    spread?: number;       // fat*: detune spread in cents
+    count?: number;        // fat*: number of voices
+    width?: number;        // pulse: 0-1
+    partials?: number[];   // custom: harmonic amplitudes
+}
+
+export interface SynthPatch {
+    voice: SynthVoiceType;
+    volume?: number;                                  // dB
+    oscillator?: SynthOscillatorPatch;
+    envelope?: SynthEnvelopePatch;                    // Sampler reads attack and release
+    // Filter (mono)
+    filter?: { type: BiquadFilterType; Q: number; rolloff: -12 | -24 | -48 | -96 };
+    filterEnvelope?: SynthEnvelopePatch & { baseFrequency: number; octaves: number };
+    // Modulation (fm, am)
+    harmonicity?: number;
+    modulationIndex?: number;                         // fm only
+    modulation?: { type: string };
+    modulationEnvelope?: SynthEnvelopePatch;
+    // Pitch sweep (membrane)
+    pitchDecay?: number;
+    octaves?: number;
+    // Noise
+    noise?: { type: 'white' | 'pink' | 'brown' };
+    // Sample map (sampler): note name -> file under baseUrl
+    urls?: Record<string, string>;
+    baseUrl?: string;
+}
+
+// A patch saved by the user; selectable as `user:<id>`
+export interface UserSynthPreset {
+    id: string;
+    name: string;
+    category: SynthPresetCategory;
+    patch: SynthPatch;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// How a user sampler responds to note-off: 'gate' releases with the
+// envelope, 'one-shot' plays each sample through and ignores note-off
+export type SamplerPlayMode = 'gate' | 'one-shot';
+
+// A UserSample mapped to a key and velocity range. Overlapping zones layer.
+export interface SamplerZone {
+    id: string;
+    sampleId: string;
+    rootNote: number;      // MIDI note that plays the sample at its own pitch
+    lowNote: number;       // 0-127, inclusive
+    highNote: number;
+    lowVelocity: number;   // 1-127, inclusive
+    highVelocity: number;
+    loop?: { start: number; end: number };  // seconds into the sample (gate mode only)
+}
+
+export interface SamplerPreset {
+    id: string;
+    name: string;
+    zones: SamplerZone[];
+    envelope: { attack: number; decay: number; sustain: number; release: number };  // seconds, sustain 0-1
+    mode: SamplerPlayMode;
+    createdAt: number;
+    updatedAt: number;
+}
+
 // ============================================
 // MIDI Types
 // ============================================
@@ -280,6 +491,60 @@ export interface AudioWorkerMessage {
     };
 }
 
+export interface TimeStretchWorkerMessage {
+    type: 'warp' | 'cancel';
+    jobId: string;
+    data?: {
+        channelData: Float32Array[];
+        sampleRate: number;
+        stretch: number;    // Duration multiplier applied by WSOLA (pitch kept)
+        resample: number;   // Playback speed applied afterwards (pitch follows)
+    };
+}
+
+export interface TimeStretchWorkerResponse {
+    type: 'progress' | 'result' | 'error';
+    jobId: string;
+    progress?: number;
+    message?: string;
+    channelData?: Float32Array[];
+    error?: string;
+}
+
+export interface SampleAnalysisWorkerResponse {
+    type: 'progress' | 'result' | 'error';
+    jobId: string;
+    progress?: number;
+    message?: string;
+    analysis?: { bpm?: number; key?: string };
+    error?: string;
+}
+
+// A detected note (melody) or hit (drums), in seconds from the take's start
+export interface AudioToMidiEvent {
+    start: number;
+    end: number;
+    velocity: number;                                       // 1-127
+    pitch?: number;                                         // Melody: MIDI note number
+    sound?: 'kick' | 'snare' | 'closedHat' | 'openHat';     // Drums
+}
+
+// A candidate slice point; strength is 0-1 relative to the strongest
+export interface AudioTransient {
+    time: number;       // seconds
+    strength: number;
+}
+
+export interface AudioToMidiWorkerResponse {
+    type: 'progress' | 'result' | 'error';
+    jobId: string;
+    progress?: number;
+    message?: string;
+    events?: AudioToMidiEvent[];
+    transients?: AudioTransient[];
+    error?: string;
+}
+
 export interface AudioWorkerResponse {
     type: 'progress' | 'result' | 'error';
     jobId: string;
@@ -289,6 +554,29 @@ export interface AudioWorkerResponse {
     error?: string;
 }
 
+export type AudioEncoderFormat = 'mp3' | 'flac' | 'opus';
+
+export interface AudioEncoderWorkerMessage {
+    type: 'encode' | 'cancel';
+    jobId: string;
+    data?: {
+        format: AudioEncoderFormat;
+        channelData: Float32Array[];
+        sampleRate: number;
+        quality?: number;   // kbps for lossy formats, bit depth for FLAC
+        dither?: boolean;   // FLAC: TPDF dither when samples lose precision
+    };
+}
+
+export interface AudioEncoderWorkerResponse {
+    type: 'progress' | 'result' | 'error';
+    jobId: string;
+    progress?: number;
+    message?: string;
+    bytes?: ArrayBuffer;
+    error?: string;
+}
+
 // ============================================
 // Persistence Types
 // ============================================
@@ -0,0 +1,24 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            '@': fileURLToPath(new URL('./', import.meta.url)),
+            // Tone.js runs on a recording fake of the Web Audio API (see test/fake-web-audio.ts)
+            'standardized-audio-context': fileURLToPath(new URL('./test/fake-web-audio.ts', import.meta.url)),
+        },
+    },
+    test: {
+        environment: 'node',
+        setupFiles: ['./test/setup.ts'],
+        include: ['**/*.test.ts'],
+        exclude: ['node_modules/**', '.next/**'],
+        server: {
+            deps: {
+                // Bundle Tone.js so its Web Audio import picks up the alias
+                inline: ['tone'],
+            },
+        },
+    },
+});